@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "contractors" ADD COLUMN     "basePostcode" TEXT,
+ADD COLUMN     "baseLatitude" DOUBLE PRECISION,
+ADD COLUMN     "baseLongitude" DOUBLE PRECISION,
+ADD COLUMN     "travelRadiusMiles" INTEGER NOT NULL DEFAULT 25;
+
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "jobs_latitude_longitude_idx" ON "jobs"("latitude", "longitude");
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "SavedSearchDigestFrequency" AS ENUM ('NONE', 'DAILY', 'WEEKLY');
+
+-- CreateTable
+CREATE TABLE "saved_searches" (
+    "id" TEXT NOT NULL,
+    "contractorId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT,
+    "location" TEXT,
+    "budget" TEXT,
+    "search" TEXT,
+    "urgentOnly" BOOLEAN NOT NULL DEFAULT false,
+    "instantAlerts" BOOLEAN NOT NULL DEFAULT true,
+    "digestFrequency" "SavedSearchDigestFrequency" NOT NULL DEFAULT 'NONE',
+    "lastAlertedAt" TIMESTAMP(3),
+    "lastDigestSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_searches_contractorId_idx" ON "saved_searches"("contractorId");
+
+-- CreateIndex
+CREATE INDEX "saved_searches_digestFrequency_idx" ON "saved_searches"("digestFrequency");
+
+-- AddForeignKey
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_contractorId_fkey" FOREIGN KEY ("contractorId") REFERENCES "contractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- Full-text search over jobs. Postgres generated columns can't reference other
+-- tables, so services get their own vector and the two are combined at query time.
+
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("name", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "jobs_searchVector_idx" ON "jobs" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "services_searchVector_idx" ON "services" USING GIN ("searchVector");
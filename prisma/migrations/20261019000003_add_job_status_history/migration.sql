@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "job_status_history" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "fromStatus" "JobStatus",
+    "toStatus" "JobStatus" NOT NULL,
+    "actorRole" TEXT NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_status_history_jobId_createdAt_idx" ON "job_status_history"("jobId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "job_status_history" ADD CONSTRAINT "job_status_history_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
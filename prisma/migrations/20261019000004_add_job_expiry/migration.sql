@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "JobStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN "expiryWarningSentAt" TIMESTAMP(3),
+ADD COLUMN "expiredAt" TIMESTAMP(3),
+ADD COLUMN "relistCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "jobs_status_createdAt_idx" ON "jobs"("status", "createdAt");
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "JobAttachmentKind" AS ENUM ('IMAGE', 'DOCUMENT');
+
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN "questionnaire" JSONB;
+
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN "questionnaireAnswers" JSONB;
+
+-- CreateTable
+CREATE TABLE "job_attachments" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "kind" "JobAttachmentKind" NOT NULL,
+    "url" TEXT NOT NULL,
+    "publicId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "bytes" INTEGER NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "uploadedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_attachments_jobId_idx" ON "job_attachments"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "job_attachments" ADD CONSTRAINT "job_attachments_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "services" ADD COLUMN "smallJobMaxValue" DECIMAL(10,2) NOT NULL DEFAULT 500.00,
+ADD COLUMN "mediumJobMaxValue" DECIMAL(10,2) NOT NULL DEFAULT 3000.00;
+
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN "jobSizeOverriddenAt" TIMESTAMP(3),
+ADD COLUMN "jobSizeOverriddenBy" TEXT;
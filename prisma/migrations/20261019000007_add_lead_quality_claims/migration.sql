@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "LeadClaimReason" AS ENUM ('INVALID_PHONE', 'UNREACHABLE_CUSTOMER', 'FAKE_JOB', 'DUPLICATE_JOB', 'JOB_ALREADY_FILLED', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "LeadClaimStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "LeadClaimRemedy" AS ENUM ('CREDIT', 'STRIPE_REFUND');
+
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "badLeadCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastBadLeadAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "lead_quality_claims" (
+    "id" TEXT NOT NULL,
+    "jobAccessId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "contractorId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "reason" "LeadClaimReason" NOT NULL,
+    "description" TEXT NOT NULL,
+    "evidenceUrls" JSONB,
+    "status" "LeadClaimStatus" NOT NULL DEFAULT 'PENDING',
+    "remedy" "LeadClaimRemedy",
+    "creditsRestored" INTEGER,
+    "refundAmount" DECIMAL(10,2),
+    "stripeRefundId" TEXT,
+    "reviewedByAdminId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "adminNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lead_quality_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lead_quality_claims_jobAccessId_key" ON "lead_quality_claims"("jobAccessId");
+
+-- CreateIndex
+CREATE INDEX "lead_quality_claims_status_createdAt_idx" ON "lead_quality_claims"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "lead_quality_claims_customerId_idx" ON "lead_quality_claims"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "lead_quality_claims" ADD CONSTRAINT "lead_quality_claims_jobAccessId_fkey" FOREIGN KEY ("jobAccessId") REFERENCES "job_access"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_quality_claims" ADD CONSTRAINT "lead_quality_claims_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_quality_claims" ADD CONSTRAINT "lead_quality_claims_contractorId_fkey" FOREIGN KEY ("contractorId") REFERENCES "contractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_quality_claims" ADD CONSTRAINT "lead_quality_claims_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
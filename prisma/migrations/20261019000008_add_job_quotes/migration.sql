@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "JobQuoteStatus" AS ENUM ('SUBMITTED', 'ACCEPTED', 'DECLINED', 'WITHDRAWN');
+
+-- CreateEnum
+CREATE TYPE "QuoteVatTreatment" AS ENUM ('EXCLUSIVE', 'INCLUSIVE', 'NOT_REGISTERED');
+
+-- CreateEnum
+CREATE TYPE "QuotePaymentTerms" AS ENUM ('ON_COMPLETION', 'DEPOSIT_AND_BALANCE', 'STAGED', 'UPFRONT');
+
+-- CreateTable
+CREATE TABLE "job_quotes" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "contractorId" TEXT NOT NULL,
+    "lineItems" JSONB NOT NULL,
+    "labourTotal" DECIMAL(10,2) NOT NULL,
+    "materialsTotal" DECIMAL(10,2) NOT NULL,
+    "otherTotal" DECIMAL(10,2) NOT NULL,
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "vatTreatment" "QuoteVatTreatment" NOT NULL,
+    "vatRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "vatAmount" DECIMAL(10,2) NOT NULL,
+    "total" DECIMAL(10,2) NOT NULL,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "availableFrom" TIMESTAMP(3) NOT NULL,
+    "estimatedDurationDays" INTEGER,
+    "paymentTerms" "QuotePaymentTerms" NOT NULL,
+    "depositPercent" INTEGER,
+    "paymentTermsNotes" TEXT,
+    "notes" TEXT,
+    "status" "JobQuoteStatus" NOT NULL DEFAULT 'SUBMITTED',
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_quotes_jobId_contractorId_key" ON "job_quotes"("jobId", "contractorId");
+
+-- CreateIndex
+CREATE INDEX "job_quotes_jobId_status_idx" ON "job_quotes"("jobId", "status");
+
+-- AddForeignKey
+ALTER TABLE "job_quotes" ADD CONSTRAINT "job_quotes_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_quotes" ADD CONSTRAINT "job_quotes_contractorId_fkey" FOREIGN KEY ("contractorId") REFERENCES "contractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "AppointmentStatus" AS ENUM ('PROPOSED', 'CONFIRMED', 'DECLINED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "AppointmentParty" AS ENUM ('CUSTOMER', 'CONTRACTOR');
+
+-- CreateEnum
+CREATE TYPE "AppointmentAction" AS ENUM ('PROPOSED', 'ACCEPTED', 'DECLINED', 'RESCHEDULE_PROPOSED', 'CANCELLED', 'REMINDER_SENT');
+
+-- CreateTable
+CREATE TABLE "appointments" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "contractorId" TEXT NOT NULL,
+    "status" "AppointmentStatus" NOT NULL DEFAULT 'PROPOSED',
+    "proposedSlots" JSONB,
+    "proposedBy" "AppointmentParty",
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "location" TEXT,
+    "notes" TEXT,
+    "sequence" INTEGER NOT NULL DEFAULT 0,
+    "reminderSentAt" TIMESTAMP(3),
+    "cancelledBy" "AppointmentParty",
+    "cancellationReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "appointment_events" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "action" "AppointmentAction" NOT NULL,
+    "actor" "AppointmentParty",
+    "actorUserId" TEXT,
+    "slots" JSONB,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointments_jobId_idx" ON "appointments"("jobId");
+
+-- CreateIndex
+CREATE INDEX "appointments_status_startsAt_idx" ON "appointments"("status", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "appointment_events_appointmentId_createdAt_idx" ON "appointment_events"("appointmentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_contractorId_fkey" FOREIGN KEY ("contractorId") REFERENCES "contractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_events" ADD CONSTRAINT "appointment_events_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
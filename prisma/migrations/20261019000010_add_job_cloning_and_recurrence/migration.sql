@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN "clonedFromJobId" TEXT,
+ADD COLUMN "recurrenceId" TEXT,
+ADD COLUMN "firstRefusalContractorId" TEXT,
+ADD COLUMN "firstRefusalUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "job_recurrences" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "autoPost" BOOLEAN NOT NULL DEFAULT false,
+    "firstRefusalHours" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 0,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_recurrences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_recurrences_isActive_nextRunAt_idx" ON "job_recurrences"("isActive", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "jobs_recurrenceId_idx" ON "jobs"("recurrenceId");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_recurrenceId_fkey" FOREIGN KEY ("recurrenceId") REFERENCES "job_recurrences"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_recurrences" ADD CONSTRAINT "job_recurrences_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "MilestoneStatus" ADD VALUE 'APPROVED';
+
+-- AlterTable
+ALTER TABLE "milestones" ADD COLUMN "amount" DECIMAL(10,2),
+ADD COLUMN "approvedAt" TIMESTAMP(3),
+ADD COLUMN "approvedBy" TEXT,
+ADD COLUMN "rejectedAt" TIMESTAMP(3),
+ADD COLUMN "rejectionReason" TEXT,
+ADD COLUMN "invoiceNumber" TEXT;
+
+-- AlterTable
+ALTER TABLE "commission_payments" ADD COLUMN "milestoneId" TEXT;
+
+-- AlterTable
+ALTER TABLE "commission_invoices" ADD COLUMN "stageTitle" TEXT;
+
+-- DropIndex: a job can now have one commission per approved stage plus one on the final price
+DROP INDEX "commission_payments_jobId_key";
+
+-- CreateIndex
+CREATE INDEX "commission_payments_jobId_idx" ON "commission_payments"("jobId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "commission_payments_milestoneId_key" ON "commission_payments"("milestoneId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "milestones_invoiceNumber_key" ON "milestones"("invoiceNumber");
+
+-- AddForeignKey
+ALTER TABLE "commission_payments" ADD CONSTRAINT "commission_payments_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "milestones"("id") ON DELETE SET NULL ON UPDATE CASCADE;
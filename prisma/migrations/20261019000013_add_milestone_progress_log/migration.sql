@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ProgressPhotoPhase" AS ENUM ('BEFORE', 'PROGRESS', 'AFTER');
+
+-- AlterTable
+ALTER TABLE "portfolio_items" ADD COLUMN "beforeImageUrl" TEXT,
+ADD COLUMN "beforeCloudinaryId" TEXT,
+ADD COLUMN "sourceJobId" TEXT;
+
+-- CreateTable
+CREATE TABLE "milestone_log_entries" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "milestoneId" TEXT NOT NULL,
+    "contractorId" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "milestone_log_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "milestone_log_photos" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "phase" "ProgressPhotoPhase" NOT NULL DEFAULT 'PROGRESS',
+    "url" TEXT NOT NULL,
+    "publicId" TEXT NOT NULL,
+    "caption" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "milestone_log_photos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "milestone_log_entries_jobId_createdAt_idx" ON "milestone_log_entries"("jobId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "milestone_log_entries_milestoneId_idx" ON "milestone_log_entries"("milestoneId");
+
+-- CreateIndex
+CREATE INDEX "milestone_log_photos_entryId_idx" ON "milestone_log_photos"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "milestone_log_entries" ADD CONSTRAINT "milestone_log_entries_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "milestones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "milestone_log_entries" ADD CONSTRAINT "milestone_log_entries_contractorId_fkey" FOREIGN KEY ("contractorId") REFERENCES "contractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "milestone_log_photos" ADD CONSTRAINT "milestone_log_photos_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "milestone_log_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "UnavailabilityType" AS ENUM ('BUSY', 'HOLIDAY');
+
+-- AlterTable
+ALTER TABLE "contractors" ADD COLUMN "maxConcurrentJobs" INTEGER;
+
+-- CreateTable
+CREATE TABLE "contractor_unavailability" (
+    "id" TEXT NOT NULL,
+    "contractorId" TEXT NOT NULL,
+    "type" "UnavailabilityType" NOT NULL DEFAULT 'BUSY',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contractor_unavailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contractor_unavailability_contractorId_endsAt_idx" ON "contractor_unavailability"("contractorId", "endsAt");
+
+-- AddForeignKey
+ALTER TABLE "contractor_unavailability" ADD CONSTRAINT "contractor_unavailability_contractorId_fkey" FOREIGN KEY ("contractorId") REFERENCES "contractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
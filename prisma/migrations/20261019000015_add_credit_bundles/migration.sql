@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "PaymentType" ADD VALUE 'CREDIT_PURCHASE';
+
+-- AlterTable
+ALTER TABLE "credit_transactions" ADD COLUMN "creditPurchaseId" TEXT;
+
+-- CreateTable
+CREATE TABLE "credit_purchases" (
+    "id" TEXT NOT NULL,
+    "contractorId" TEXT NOT NULL,
+    "bundleId" TEXT NOT NULL,
+    "bundleName" TEXT NOT NULL,
+    "credits" INTEGER NOT NULL,
+    "creditsRemaining" INTEGER NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "stripePaymentId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "invoiceId" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_purchases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_purchases_stripePaymentId_key" ON "credit_purchases"("stripePaymentId");
+
+-- CreateIndex
+CREATE INDEX "credit_purchases_contractorId_expiresAt_idx" ON "credit_purchases"("contractorId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "credit_purchases" ADD CONSTRAINT "credit_purchases_contractorId_fkey" FOREIGN KEY ("contractorId") REFERENCES "contractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "EscrowStatus" AS ENUM ('PENDING', 'HELD', 'RELEASED', 'REFUNDED', 'SPLIT', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "contractors" ADD COLUMN "stripePayoutsEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "disputes" ADD COLUMN "escrowRefundAmount" DECIMAL(10,2),
+ADD COLUMN "escrowReleaseAmount" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "job_escrows" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "milestoneId" TEXT,
+    "customerId" TEXT NOT NULL,
+    "contractorId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "status" "EscrowStatus" NOT NULL DEFAULT 'PENDING',
+    "stripePaymentIntentId" TEXT NOT NULL,
+    "stripeChargeId" TEXT,
+    "paymentId" TEXT,
+    "platformFee" DECIMAL(10,2),
+    "releasedAmount" DECIMAL(10,2),
+    "refundedAmount" DECIMAL(10,2),
+    "commissionPaymentId" TEXT,
+    "stripeTransferId" TEXT,
+    "stripeRefundId" TEXT,
+    "fundedAt" TIMESTAMP(3),
+    "settledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_escrows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_escrows_stripePaymentIntentId_key" ON "job_escrows"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "job_escrows_jobId_status_idx" ON "job_escrows"("jobId", "status");
+
+-- AddForeignKey
+ALTER TABLE "job_escrows" ADD CONSTRAINT "job_escrows_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_escrows" ADD CONSTRAINT "job_escrows_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "milestones"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_escrows" ADD CONSTRAINT "job_escrows_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_escrows" ADD CONSTRAINT "job_escrows_contractorId_fkey" FOREIGN KEY ("contractorId") REFERENCES "contractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "RefundReason" AS ENUM ('DUPLICATE_PAYMENT', 'SERVICE_NOT_PROVIDED', 'LEAD_QUALITY', 'BILLING_ERROR', 'GOODWILL', 'FRAUDULENT', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING_APPROVAL', 'PENDING', 'SUCCEEDED', 'FAILED', 'CANCELED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "invoiceId" TEXT,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'GBP',
+    "reasonCode" "RefundReason" NOT NULL,
+    "notes" TEXT,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "stripeRefundId" TEXT,
+    "failureReason" TEXT,
+    "issueCreditNote" BOOLEAN NOT NULL DEFAULT false,
+    "creditNoteNumber" TEXT,
+    "creditNoteIssuedAt" TIMESTAMP(3),
+    "requestedByAdminId" TEXT,
+    "approvedByAdminId" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "rejectedByAdminId" TEXT,
+    "rejectionReason" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_stripeRefundId_key" ON "refunds"("stripeRefundId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_creditNoteNumber_key" ON "refunds"("creditNoteNumber");
+
+-- CreateIndex
+CREATE INDEX "refunds_paymentId_idx" ON "refunds"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "refunds_status_idx" ON "refunds"("status");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
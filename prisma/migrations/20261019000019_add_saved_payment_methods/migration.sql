@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "stripe_customers" ADD COLUMN "autoPayCommissions" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "commission_payments" ADD COLUMN "autoPayAttemptedAt" TIMESTAMP(3),
+ADD COLUMN "autoPayFailureReason" TEXT;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "DunningStatus" AS ENUM ('OPEN', 'RECOVERED', 'CANCELLED', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "DunningStage" AS ENUM ('GRACE', 'REMINDING', 'CREDITS_REDUCED', 'PAST_DUE', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "subscription_dunning" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "stripeInvoiceId" TEXT NOT NULL,
+    "amountDue" DECIMAL(10,2) NOT NULL,
+    "status" "DunningStatus" NOT NULL DEFAULT 'OPEN',
+    "stage" "DunningStage" NOT NULL DEFAULT 'GRACE',
+    "failedAt" TIMESTAMP(3) NOT NULL,
+    "lastFailedAt" TIMESTAMP(3) NOT NULL,
+    "attemptCount" INTEGER NOT NULL DEFAULT 1,
+    "lastFailureReason" TEXT,
+    "remindersSent" INTEGER NOT NULL DEFAULT 0,
+    "lastReminderAt" TIMESTAMP(3),
+    "previousWeeklyCreditsLimit" INTEGER,
+    "creditsReducedAt" TIMESTAMP(3),
+    "pastDueAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subscription_dunning_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscription_dunning_stripeInvoiceId_key" ON "subscription_dunning"("stripeInvoiceId");
+
+-- CreateIndex
+CREATE INDEX "subscription_dunning_status_failedAt_idx" ON "subscription_dunning"("status", "failedAt");
+
+-- CreateIndex
+CREATE INDEX "subscription_dunning_subscriptionId_idx" ON "subscription_dunning"("subscriptionId");
+
+-- AddForeignKey
+ALTER TABLE "subscription_dunning" ADD CONSTRAINT "subscription_dunning_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "pendingPlan" "SubscriptionPlan",
+ADD COLUMN "pendingTier" "ContractorTier",
+ADD COLUMN "pendingChangeAt" TIMESTAMP(3),
+ADD COLUMN "stripeScheduleId" TEXT;
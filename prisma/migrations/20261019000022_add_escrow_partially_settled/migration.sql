@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "EscrowStatus" ADD VALUE 'PARTIALLY_SETTLED';
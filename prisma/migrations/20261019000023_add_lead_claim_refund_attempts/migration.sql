@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "lead_quality_claims" ADD COLUMN     "refundAttempts" INTEGER NOT NULL DEFAULT 0;
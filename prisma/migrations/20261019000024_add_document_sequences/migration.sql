@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "document_sequences" (
+    "name" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_sequences_pkey" PRIMARY KEY ("name")
+);
+
+-- Seed the credit note series so issuing only ever has to lock and increment an existing row
+INSERT INTO "document_sequences" ("name", "lastValue", "updatedAt") VALUES ('CREDIT_NOTE', 0, CURRENT_TIMESTAMP);
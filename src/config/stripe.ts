@@ -0,0 +1,40 @@
+import Stripe from 'stripe';
+
+let stripeClient: Stripe | null = null;
+
+/**
+ * Shared Stripe client. Set STRIPE_API_BASE_URL (e.g. http://localhost:12111) to point it
+ * at a local Stripe mock server instead of api.stripe.com.
+ */
+export function getStripeClient(): Stripe {
+  if (!stripeClient) {
+    const stripeKey = process.env.STRIPE_SECRET_KEY;
+
+    if (!stripeKey) {
+      throw new Error('STRIPE_SECRET_KEY is not configured');
+    }
+
+    if (!stripeKey.startsWith('sk_test_') && !stripeKey.startsWith('sk_live_')) {
+      throw new Error('Invalid Stripe API key format');
+    }
+
+    const config: Stripe.StripeConfig = {
+      apiVersion: '2023-10-16',
+    };
+
+    const apiBaseUrl = process.env.STRIPE_API_BASE_URL;
+    if (apiBaseUrl) {
+      if (stripeKey.startsWith('sk_live_')) {
+        throw new Error('STRIPE_API_BASE_URL can only be used with a test key');
+      }
+      const url = new URL(apiBaseUrl);
+      config.host = url.hostname;
+      config.port = url.port || (url.protocol === 'https:' ? '443' : '80');
+      config.protocol = url.protocol === 'https:' ? 'https' : 'http';
+    }
+
+    stripeClient = new Stripe(stripeKey, config);
+  }
+
+  return stripeClient;
+}
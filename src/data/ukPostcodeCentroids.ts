@@ -0,0 +1,223 @@
+/**
+ * Offline UK postcode centroid dataset used for lead matching without a geocoding API.
+ *
+ * Coordinates are [latitude, longitude] in WGS84, rounded to two decimal places
+ * (~1km), which is plenty for radius filtering measured in miles.
+ *
+ * POSTCODE_AREA_CENTROIDS covers every UK postcode area (plus the Crown Dependencies)
+ * and is always used as the fallback. OUTWARD_CODE_CENTROIDS refines the geographically
+ * large areas where the area centroid can be 50+ miles from the actual district.
+ * Add further outward codes here as needed - lookups prefer the most specific match.
+ */
+
+export type Centroid = [number, number];
+
+export const POSTCODE_AREA_CENTROIDS: Record<string, Centroid> = {
+  AB: [57.15, -2.11],
+  AL: [51.75, -0.34],
+  B: [52.48, -1.9],
+  BA: [51.38, -2.36],
+  BB: [53.75, -2.48],
+  BD: [53.79, -1.75],
+  BH: [50.72, -1.88],
+  BL: [53.58, -2.43],
+  BN: [50.83, -0.14],
+  BR: [51.4, 0.02],
+  BS: [51.45, -2.59],
+  BT: [54.6, -5.93],
+  CA: [54.89, -2.93],
+  CB: [52.21, 0.12],
+  CF: [51.48, -3.18],
+  CH: [53.19, -2.89],
+  CM: [51.74, 0.47],
+  CO: [51.89, 0.9],
+  CR: [51.37, -0.1],
+  CT: [51.28, 1.08],
+  CV: [52.41, -1.51],
+  CW: [53.1, -2.44],
+  DA: [51.45, 0.22],
+  DD: [56.46, -2.97],
+  DE: [52.92, -1.48],
+  DG: [55.07, -3.61],
+  DH: [54.78, -1.57],
+  DL: [54.52, -1.55],
+  DN: [53.52, -1.13],
+  DT: [50.71, -2.44],
+  DY: [52.51, -2.08],
+  E: [51.53, -0.03],
+  EC: [51.52, -0.09],
+  EH: [55.95, -3.19],
+  EN: [51.65, -0.08],
+  EX: [50.72, -3.53],
+  FK: [56.0, -3.78],
+  FY: [53.82, -3.05],
+  G: [55.86, -4.25],
+  GL: [51.86, -2.24],
+  GU: [51.24, -0.57],
+  GY: [49.45, -2.54],
+  HA: [51.58, -0.33],
+  HD: [53.65, -1.78],
+  HG: [53.99, -1.54],
+  HP: [51.75, -0.47],
+  HR: [52.06, -2.72],
+  HS: [58.21, -6.39],
+  HU: [53.74, -0.33],
+  HX: [53.72, -1.86],
+  IG: [51.56, 0.07],
+  IM: [54.15, -4.48],
+  IP: [52.06, 1.16],
+  IV: [57.48, -4.22],
+  JE: [49.19, -2.11],
+  KA: [55.61, -4.5],
+  KT: [51.41, -0.3],
+  KW: [58.98, -2.96],
+  KY: [56.11, -3.16],
+  L: [53.41, -2.98],
+  LA: [54.05, -2.8],
+  LD: [52.24, -3.38],
+  LE: [52.64, -1.13],
+  LL: [53.32, -3.83],
+  LN: [53.23, -0.54],
+  LS: [53.8, -1.55],
+  LU: [51.88, -0.42],
+  M: [53.48, -2.24],
+  ME: [51.39, 0.5],
+  MK: [52.04, -0.76],
+  ML: [55.79, -3.99],
+  N: [51.57, -0.11],
+  NE: [54.98, -1.61],
+  NG: [52.95, -1.15],
+  NN: [52.24, -0.9],
+  NP: [51.59, -3.0],
+  NR: [52.63, 1.3],
+  NW: [51.55, -0.19],
+  OL: [53.54, -2.12],
+  OX: [51.75, -1.26],
+  PA: [55.85, -4.42],
+  PE: [52.57, -0.24],
+  PH: [56.4, -3.43],
+  PL: [50.38, -4.14],
+  PO: [50.8, -1.09],
+  PR: [53.76, -2.7],
+  RG: [51.45, -0.97],
+  RH: [51.24, -0.17],
+  RM: [51.58, 0.18],
+  S: [53.38, -1.47],
+  SA: [51.62, -3.94],
+  SE: [51.47, -0.06],
+  SG: [51.9, -0.2],
+  SK: [53.41, -2.16],
+  SL: [51.51, -0.59],
+  SM: [51.36, -0.19],
+  SN: [51.56, -1.78],
+  SO: [50.91, -1.4],
+  SP: [51.07, -1.79],
+  SR: [54.91, -1.38],
+  SS: [51.54, 0.71],
+  ST: [53.0, -2.18],
+  SW: [51.46, -0.17],
+  SY: [52.71, -2.75],
+  TA: [51.02, -3.1],
+  TD: [55.61, -2.81],
+  TF: [52.68, -2.45],
+  TN: [51.2, 0.27],
+  TQ: [50.46, -3.53],
+  TR: [50.26, -5.05],
+  TS: [54.57, -1.23],
+  TW: [51.45, -0.34],
+  UB: [51.51, -0.4],
+  W: [51.51, -0.22],
+  WA: [53.39, -2.59],
+  WC: [51.52, -0.12],
+  WD: [51.66, -0.4],
+  WF: [53.68, -1.5],
+  WN: [53.55, -2.63],
+  WR: [52.19, -2.22],
+  WS: [52.59, -1.98],
+  WV: [52.59, -2.13],
+  YO: [53.96, -1.08],
+  ZE: [60.15, -1.15],
+};
+
+export const OUTWARD_CODE_CENTROIDS: Record<string, Centroid> = {
+  // Highlands & islands
+  IV1: [57.48, -4.22],
+  IV15: [57.6, -4.43],
+  IV30: [57.65, -3.32],
+  IV51: [57.41, -6.19],
+  HS1: [58.21, -6.39],
+  KW1: [58.44, -3.09],
+  KW14: [58.59, -3.52],
+  KW15: [58.98, -2.96],
+  ZE1: [60.15, -1.15],
+
+  // North-east & central Scotland
+  AB10: [57.14, -2.11],
+  AB35: [57.05, -3.04],
+  AB42: [57.5, -1.79],
+  AB43: [57.69, -2.0],
+  PH1: [56.4, -3.45],
+  PH7: [56.37, -3.84],
+  PH22: [57.19, -3.83],
+  PH33: [56.82, -5.11],
+  PA1: [55.84, -4.42],
+  PA28: [55.42, -5.61],
+  PA34: [56.41, -5.47],
+
+  // Southern Scotland & Cumbria
+  DG1: [55.07, -3.61],
+  DG9: [54.9, -5.02],
+  TD1: [55.62, -2.81],
+  TD15: [55.77, -2.01],
+  CA1: [54.89, -2.93],
+  CA12: [54.6, -3.13],
+  CA28: [54.55, -3.59],
+  LA1: [54.05, -2.8],
+  LA9: [54.33, -2.75],
+  LA14: [54.11, -3.23],
+
+  // North-east & Yorkshire coast
+  NE1: [54.97, -1.61],
+  NE66: [55.41, -1.71],
+  YO1: [53.96, -1.08],
+  YO11: [54.28, -0.4],
+
+  // Wales & borders
+  LL11: [53.05, -3.0],
+  LL30: [53.32, -3.83],
+  LL57: [53.23, -4.13],
+  LL65: [53.31, -4.63],
+  SY1: [52.71, -2.75],
+  SY16: [52.51, -3.31],
+  SY23: [52.41, -4.08],
+  LD1: [52.24, -3.38],
+  LD3: [51.95, -3.39],
+  SA1: [51.62, -3.94],
+  SA31: [51.86, -4.31],
+  SA61: [51.8, -4.97],
+
+  // South-west
+  TR1: [50.26, -5.05],
+  TR7: [50.41, -5.08],
+  TR18: [50.12, -5.54],
+  PL1: [50.37, -4.14],
+  PL25: [50.34, -4.79],
+  PL31: [50.47, -4.72],
+  EX1: [50.72, -3.52],
+  EX31: [51.08, -4.06],
+  EX39: [51.02, -4.21],
+
+  // East of England
+  LN1: [53.23, -0.54],
+  LN12: [53.34, 0.26],
+  NR1: [52.63, 1.3],
+  NR27: [52.93, 1.3],
+  NR30: [52.61, 1.73],
+
+  // South-east coast
+  BN1: [50.83, -0.14],
+  BN11: [50.81, -0.37],
+  BN21: [50.77, 0.28],
+  TN1: [51.13, 0.26],
+  TN34: [50.86, 0.57],
+};
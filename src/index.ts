@@ -16,7 +16,15 @@ import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import contractorRoutes from './routes/contractors';
 import customerRoutes from './routes/customers';
+import customerPropertyRoutes from './routes/customer-properties';
 import jobRoutes from './routes/jobs';
+import savedSearchRoutes from './routes/saved-searches';
+import jobAttachmentRoutes from './routes/job-attachments';
+import jobQuoteRoutes from './routes/job-quotes';
+import jobAppointmentRoutes from './routes/job-appointments';
+import jobProgressRoutes from './routes/job-progress';
+import jobEscrowRoutes from './routes/job-escrow';
+import leadClaimRoutes from './routes/lead-claims';
 import reviewRoutes from './routes/reviews';
 import serviceRoutes from './routes/services';
 import adminRoutes from './routes/admin';
@@ -42,6 +50,9 @@ import contentRoutes from './routes/content';
 import faqRoutes from './routes/faq';
 import disputeRoutes from './routes/disputes';
 import adminDisputeRoutes from './routes/admin-disputes';
+import adminLeadClaimRoutes from './routes/admin-lead-claims';
+import adminLedgerRoutes from './routes/admin-ledger';
+import adminRefundRoutes from './routes/admin-refunds';
 import adminEmailLogsRoutes from './routes/admin-email-logs';
 import adminErrorLogsRoutes from './routes/admin-error-logs';
 import adminNotificationRoutes from './routes/admin-notifications';
@@ -216,7 +227,14 @@ app.use('/api/uploads', express.static(uploadsPath));
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/contractors', contractorRoutes);
+app.use('/api/customers/me/properties', customerPropertyRoutes);
 app.use('/api/customers', customerRoutes);
+app.use('/api/jobs/saved-searches', savedSearchRoutes); // Must be registered before /api/jobs so "saved-searches" isn't treated as a job id
+app.use('/api/jobs/:id/attachments', jobAttachmentRoutes);
+app.use('/api/jobs/:id/quotes', jobQuoteRoutes);
+app.use('/api/jobs/:id/appointments', jobAppointmentRoutes);
+app.use('/api/jobs/:id/progress', jobProgressRoutes);
+app.use('/api/jobs/:id/escrow', jobEscrowRoutes);
 app.use('/api/jobs', jobRoutes);
 app.use('/api/reviews', reviewRoutes);
 app.use('/api/services', serviceRoutes);
@@ -230,6 +248,7 @@ app.use('/api/webhooks', webhookRoutes);
 app.use('/api/content', contentRoutes);
 app.use('/api/faq', faqRoutes);
 app.use('/api/disputes', disputeRoutes);
+app.use('/api/lead-claims', leadClaimRoutes);
 app.use('/api/messages', messageRoutes);
 
 // Admin system routes - Register more specific routes BEFORE general admin routes
@@ -243,6 +262,9 @@ app.use('/api/admin/payments', adminPaymentsRoutes);
 app.use('/api/admin/invoices', adminInvoiceRoutesNew);
 app.use('/api/admin/subscriptions', adminSubscriptionRoutes);
 app.use('/api/admin/disputes', adminDisputeRoutes);
+app.use('/api/admin/lead-claims', adminLeadClaimRoutes);
+app.use('/api/admin/ledger', adminLedgerRoutes);
+app.use('/api/admin/refunds', adminRefundRoutes);
 app.use('/api/admin/email', adminEmailLogsRoutes);
 app.use('/api/admin/errors', adminErrorLogsRoutes);
 app.use('/api/admin/notifications', adminNotificationRoutes);
@@ -277,8 +299,15 @@ if (!process.env.STRIPE_SECRET_KEY) {
 // Import the new email service
 import { sendTestEmail } from './services/emailService';
 import { processCommissionReminders } from './services/commissionService';
+import { processCommissionAutoPay } from './services/paymentMethodService';
 import { processFinalPriceReminders, processFinalPriceTimeouts } from './services/finalPriceReminderService';
 import { processCompletionConfirmationTimeouts } from './services/finalPriceTimeoutService';
+import { processSavedSearchDigests } from './services/savedSearchService';
+import { processJobExpiry } from './services/jobExpiryService';
+import { processAppointmentReminders } from './services/appointmentService';
+import { processRecurringJobs } from './services/jobRecurrenceService';
+import { expirePurchasedCredits } from './services/creditBundleService';
+import { processSubscriptionDunning } from './services/dunningService';
 
 // Schedule recurring tasks (run every 30 minutes)
 const TASK_INTERVAL = 30 * 60 * 1000; // 30 minutes
@@ -286,6 +315,14 @@ const TASK_INTERVAL = 30 * 60 * 1000; // 30 minutes
 async function runScheduledTasks() {
   console.log('⏰ Running scheduled tasks...');
   
+  try {
+    // Charge saved cards for commissions due today, before overdue accounts are suspended
+    const autoPay = await processCommissionAutoPay();
+    console.log(`✅ Commission auto-pay processed (${autoPay.paid} paid, ${autoPay.failed} failed)`);
+  } catch (error) {
+    console.error('❌ Failed to process commission auto-pay:', error);
+  }
+  
   try {
     // Process commission reminders and suspend overdue accounts
     await processCommissionReminders();
@@ -317,6 +354,54 @@ async function runScheduledTasks() {
   } catch (error) {
     console.error('❌ Failed to process completion confirmation timeouts:', error);
   }
+
+  try {
+    // Email daily/weekly saved search digests that are due
+    await processSavedSearchDigests();
+    console.log('✅ Saved search digests processed');
+  } catch (error) {
+    console.error('❌ Failed to process saved search digests:', error);
+  }
+
+  try {
+    // Warn customers about stale listings and expire POSTED jobs nobody bought access to
+    const { warned, expired } = await processJobExpiry();
+    console.log(`✅ Job expiry processed (${warned} warned, ${expired} expired)`);
+  } catch (error) {
+    console.error('❌ Failed to process job expiry:', error);
+  }
+
+  try {
+    // Remind customers and contractors about site visits in the next 24 hours
+    const { reminded } = await processAppointmentReminders();
+    console.log(`✅ Appointment reminders processed (${reminded} sent)`);
+  } catch (error) {
+    console.error('❌ Failed to process appointment reminders:', error);
+  }
+
+  try {
+    // Create the next job in each due recurring series and open lapsed first-refusal windows
+    const { created, released } = await processRecurringJobs();
+    console.log(`✅ Recurring jobs processed (${created} created, ${released} released)`);
+  } catch (error) {
+    console.error('❌ Failed to process recurring jobs:', error);
+  }
+
+  try {
+    // Take lapsed purchased credits off contractors' balances
+    const expired = await expirePurchasedCredits();
+    console.log(`✅ Purchased credit expiry processed (${expired} bundles expired)`);
+  } catch (error) {
+    console.error('❌ Failed to expire purchased credits:', error);
+  }
+
+  try {
+    // Move failed subscription renewals along the dunning schedule
+    const { reminded, creditsReduced, pastDue, cancelled } = await processSubscriptionDunning();
+    console.log(`✅ Subscription dunning processed (${reminded} reminded, ${creditsReduced} credits reduced, ${pastDue} past due, ${cancelled} cancelled)`);
+  } catch (error) {
+    console.error('❌ Failed to process subscription dunning:', error);
+  }
 }
 
 // Start server
@@ -7,6 +7,7 @@ import {
 } from '../middleware/adminAuth';
 import { getActivityLogs, getLoginActivities } from '../services/auditService';
 import { prisma } from '../config/database';
+import { getPagination } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -21,13 +22,10 @@ router.get(
       entityType,
       startDate,
       endDate,
-      page = '1',
-      limit = '50',
     } = req.query;
 
     const filters: any = {
-      limit: parseInt(limit as string),
-      offset: (parseInt(page as string) - 1) * parseInt(limit as string),
+      pagination: getPagination(req.query, { defaultLimit: 50 }),
     };
 
     if (adminId) filters.adminId = adminId as string;
@@ -54,13 +52,10 @@ router.get(
       adminId,
       startDate,
       endDate,
-      page = '1',
-      limit = '50',
     } = req.query;
 
     const filters: any = {
-      limit: parseInt(limit as string),
-      offset: (parseInt(page as string) - 1) * parseInt(limit as string),
+      pagination: getPagination(req.query, { defaultLimit: 50 }),
     };
 
     if (adminId) filters.adminId = adminId as string;
@@ -3,6 +3,7 @@ import { PrismaClient, DisputeStatus, DisputeResolution } from '@prisma/client';
 import { protectAdmin, requirePermission, AdminAuthRequest } from '../middleware/adminAuth';
 import { AdminPermission } from '../config/permissions';
 import { disputeService } from '../services/disputeService';
+import { transitionJobStatus } from '../services/jobStatusService';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -245,6 +246,8 @@ router.post('/:id/resolve', requireDisputeResolve, async (req: AdminAuthRequest,
       adjustCommission,
       commissionAmount,
       completeJob,
+      settleEscrow,
+      escrowRefundAmount,
     } = req.body;
 
     // Validate resolution
@@ -267,6 +270,8 @@ router.post('/:id/resolve', requireDisputeResolve, async (req: AdminAuthRequest,
       adjustCommission: adjustCommission === true,
       commissionAmount: commissionAmount ? parseFloat(commissionAmount) : undefined,
       completeJob: completeJob === true,
+      settleEscrow: settleEscrow === true,
+      escrowRefundAmount: escrowRefundAmount ? parseFloat(escrowRefundAmount) : undefined,
     });
 
     // Log admin action
@@ -284,6 +289,8 @@ router.post('/:id/resolve', requireDisputeResolve, async (req: AdminAuthRequest,
           adjustCommission,
           commissionAmount,
           completeJob,
+          settleEscrow,
+          escrowRefundAmount,
         },
       },
     });
@@ -291,7 +298,41 @@ router.post('/:id/resolve', requireDisputeResolve, async (req: AdminAuthRequest,
     res.json(dispute);
   } catch (error: any) {
     console.error('Error resolving dispute:', error);
-    res.status(500).json({ error: error.message || 'Failed to resolve dispute' });
+    res.status(error.statusCode || 500).json({ error: error.message || 'Failed to resolve dispute' });
+  }
+});
+
+/**
+ * Settle the held funds of a resolved dispute, e.g. after Stripe failed during resolution
+ * POST /api/admin/disputes/:id/settle-escrow
+ */
+router.post('/:id/settle-escrow', requireDisputeResolve, async (req: AdminAuthRequest, res: Response) => {
+  try {
+    const disputeId = req.params.id;
+    const adminId = req.admin!.id;
+    const { escrowRefundAmount } = req.body;
+
+    const dispute = await disputeService.settleDisputeEscrow(
+      disputeId,
+      escrowRefundAmount ? parseFloat(escrowRefundAmount) : 0
+    );
+
+    // Log admin action
+    await prisma.activityLog.create({
+      data: {
+        adminId,
+        action: 'DISPUTE_ESCROW_SETTLED',
+        entityType: 'Dispute',
+        entityId: disputeId,
+        description: 'Settled held funds for resolved dispute',
+        diff: { escrowRefundAmount },
+      },
+    });
+
+    res.json(dispute);
+  } catch (error: any) {
+    console.error('Error settling dispute funds:', error);
+    res.status(error.statusCode || 500).json({ error: error.message || 'Failed to settle held funds' });
   }
 });
 
@@ -345,11 +386,11 @@ router.post('/:id/close', requireDisputeWrite, async (req: AdminAuthRequest, res
     });
 
     // Update job status back to previous state
-    await prisma.job.update({
-      where: { id: dispute.jobId },
-      data: {
-        status: 'IN_PROGRESS' as any,
-      },
+    await transitionJobStatus({
+      jobId: dispute.jobId,
+      to: 'IN_PROGRESS',
+      actor: { role: 'ADMIN', id: req.admin!.id },
+      reason: reason || 'Dispute closed',
     });
 
     // Log admin action
@@ -366,7 +407,7 @@ router.post('/:id/close', requireDisputeWrite, async (req: AdminAuthRequest, res
     res.json(dispute);
   } catch (error: any) {
     console.error('Error closing dispute:', error);
-    res.status(500).json({ error: error.message || 'Failed to close dispute' });
+    res.status(error.statusCode || 500).json({ error: error.message || 'Failed to close dispute' });
   }
 });
 
@@ -7,6 +7,7 @@ import {
 } from '../middleware/adminAuth';
 import { AdminPermission } from '../config/permissions';
 import { prisma } from '../config/database';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -16,8 +17,6 @@ router.get(
   protectAdmin,
   catchAsync(async (req: AdminAuthRequest, res: Response) => {
     const {
-      page = '1',
-      limit = '50',
       status,
       type,
       recipient,
@@ -26,9 +25,7 @@ router.get(
       search,
     } = req.query;
 
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const offset = (pageNum - 1) * limitNum;
+    const pagination = getPagination(req.query, { defaultLimit: 50 });
 
     const where: any = {};
 
@@ -55,26 +52,21 @@ router.get(
       if (endDate) where.sentAt.lte = new Date(endDate as string);
     }
 
-    const [logs, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
       prisma.emailLog.findMany({
         where,
-        orderBy: { sentAt: 'desc' },
-        take: limitNum,
-        skip: offset,
+        orderBy: [{ sentAt: 'desc' }, { id: 'desc' }],
+        ...getPrismaPageArgs(pagination),
       }),
-      prisma.emailLog.count({ where }),
+      pagination.mode === 'page' ? prisma.emailLog.count({ where }) : undefined,
     ]);
+    const { items: logs, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     res.status(200).json({
       status: 'success',
       data: {
         logs,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          pages: Math.ceil(total / limitNum),
-        },
+        pagination: paginationMeta,
       },
     });
   })
@@ -7,6 +7,7 @@ import {
 } from '../middleware/adminAuth';
 import { AdminPermission } from '../config/permissions';
 import { prisma } from '../config/database';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -16,8 +17,6 @@ router.get(
   protectAdmin,
   catchAsync(async (req: AdminAuthRequest, res: Response) => {
     const {
-      page = '1',
-      limit = '50',
       level,
       source,
       startDate,
@@ -25,9 +24,7 @@ router.get(
       search,
     } = req.query;
 
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const offset = (pageNum - 1) * limitNum;
+    const pagination = getPagination(req.query, { defaultLimit: 50 });
 
     const where: any = {};
 
@@ -53,26 +50,21 @@ router.get(
       if (endDate) where.createdAt.lte = new Date(endDate as string);
     }
 
-    const [errors, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
       prisma.errorLog.findMany({
         where,
-        orderBy: { createdAt: 'desc' },
-        take: limitNum,
-        skip: offset,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...getPrismaPageArgs(pagination),
       }),
-      prisma.errorLog.count({ where }),
+      pagination.mode === 'page' ? prisma.errorLog.count({ where }) : undefined,
     ]);
+    const { items: errors, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     res.status(200).json({
       status: 'success',
       data: {
         errors,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total,
-          pages: Math.ceil(total / limitNum),
-        },
+        pagination: paginationMeta,
       },
     });
   })
@@ -4,6 +4,9 @@ import { protectAdmin, AdminAuthRequest, requirePermission } from '../middleware
 import { AppError, catchAsync } from '../middleware/errorHandler';
 import { AdminPermission } from '../config/permissions';
 import { generateInvoicePDF, generateCommissionInvoicePDF } from '../services/pdfService';
+import { recordOfflineInvoicePayment } from '../services/manualInvoiceService';
+import { recordManualInvoiceStatusChange } from '../services/ledgerService';
+import { getPagination, paginateArray } from '../utils/pagination';
 
 const router = Router();
 
@@ -11,9 +14,7 @@ const router = Router();
 // @route   GET /api/admin/invoices
 // @access  Private (Admin only)
 export const getAllInvoices = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
   const status = req.query.status as string;
   const type = req.query.type as string;
   const startDate = req.query.startDate as string;
@@ -96,11 +97,9 @@ export const getAllInvoices = catchAsync(async (req: AdminAuthRequest, res: Resp
     ];
   }
 
-  // Get both regular invoices and manual invoices
-  // Fetch enough items to ensure proper sorting and pagination across both types
-  // For proper pagination, we need to fetch at least (skip + limit) items from each source
-  const fetchLimit = Math.max(limit * 5, skip + limit); // Fetch enough for pagination
-  const [regularInvoices, manualInvoices, regularCount, manualCount] = await Promise.all([
+  // Get both regular invoices and manual invoices. They're merged and sorted together, so
+  // both are read in full and the page is cut from the combined list
+  const [regularInvoices, manualInvoices] = await Promise.all([
     prisma.invoice.findMany({
       where,
       include: {
@@ -136,8 +135,7 @@ export const getAllInvoices = catchAsync(async (req: AdminAuthRequest, res: Resp
           take: 1
         }
       },
-      orderBy: { createdAt: 'desc' },
-      take: fetchLimit
+      orderBy: { createdAt: 'desc' }
     }),
     prisma.manualInvoice.findMany({
       where: manualInvoiceWhere,
@@ -156,11 +154,8 @@ export const getAllInvoices = catchAsync(async (req: AdminAuthRequest, res: Resp
         },
         items: true,
       },
-      orderBy: { createdAt: 'desc' },
-      take: fetchLimit
-    }),
-    prisma.invoice.count({ where }),
-    prisma.manualInvoice.count({ where: manualInvoiceWhere })
+      orderBy: { createdAt: 'desc' }
+    })
   ]);
 
   // Combine and format invoices for response
@@ -199,21 +194,14 @@ export const getAllInvoices = catchAsync(async (req: AdminAuthRequest, res: Resp
     }))
   ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
-  const total = regularCount + manualCount;
-
   // Apply pagination after sorting
-  const paginatedInvoices = allInvoices.slice(skip, skip + limit);
+  const { items: paginatedInvoices, pagination: paginationMeta } = paginateArray(allInvoices, pagination);
 
   res.status(200).json({
     status: 'success',
     data: {
       invoices: paginatedInvoices,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: paginationMeta
     }
   });
 });
@@ -497,6 +485,12 @@ export const updateInvoiceStatus = catchAsync(async (req: AdminAuthRequest, res:
       }
     });
 
+    if (updatedManualInvoice.status === 'PAID' && manualInvoice.status !== 'PAID') {
+      await recordOfflineInvoicePayment(manualInvoice);
+    } else {
+      await recordManualInvoiceStatusChange(prisma, manualInvoice, manualInvoice.status, updatedManualInvoice.status);
+    }
+
     // Notify contractor when manual invoice is marked as paid
     if (status === 'PAID') {
       try {
@@ -691,6 +685,7 @@ export const downloadInvoice = catchAsync(async (req: AdminAuthRequest, res: Res
           contractorName: commissionInvoice.contractorName,
           contractorEmail: commissionInvoice.contractorEmail,
           jobTitle: commissionInvoice.jobTitle,
+          stageTitle: commissionInvoice.stageTitle,
           finalJobAmount: Number(commissionInvoice.finalJobAmount),
           commissionAmount: Number(commissionInvoice.commissionAmount),
           vatAmount: Number(commissionInvoice.vatAmount),
@@ -3,6 +3,8 @@ import { prisma } from '../config/database';
 import { protect, AuthenticatedRequest, restrictTo } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
 import { createEmailService } from '../services/emailService';
+import { recordCommissionWaived } from '../services/ledgerService';
+import { getPagination, getPrismaPageArgs, buildPageResult, paginateArray } from '../utils/pagination';
 
 const router = Router();
 
@@ -10,9 +12,7 @@ const router = Router();
 // @route   GET /api/admin/invoices
 // @access  Private (Admin only)
 export const getAllInvoices = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
   const status = req.query.status as string;
   const type = req.query.type as string;
   const startDate = req.query.startDate as string;
@@ -30,7 +30,8 @@ export const getAllInvoices = catchAsync(async (req: AuthenticatedRequest, res:
     };
   }
 
-  // Get regular invoices
+  // Regular and commission invoices are merged and filtered below, so both are read in full
+  // and the page is cut from the combined list
   const regularInvoices = await prisma.invoice.findMany({
     where: {
       ...where,
@@ -65,8 +66,6 @@ export const getAllInvoices = catchAsync(async (req: AuthenticatedRequest, res:
       },
     },
     orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
   });
 
   // Get commission invoices
@@ -105,8 +104,6 @@ export const getAllInvoices = catchAsync(async (req: AuthenticatedRequest, res:
       },
     },
     orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
   });
 
   // Format invoices for consistent response
@@ -164,25 +161,13 @@ export const getAllInvoices = catchAsync(async (req: AuthenticatedRequest, res:
   allInvoices.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   
   // Paginate results
-  const paginatedInvoices = allInvoices.slice(skip, skip + limit);
-  
-  // Count totals for pagination
-  const totalRegularInvoices = await prisma.invoice.count({ where });
-  const totalCommissionInvoices = await prisma.commissionInvoice.count({ where });
-  const total = type === 'regular' ? totalRegularInvoices : 
-                type === 'commission' ? totalCommissionInvoices : 
-                totalRegularInvoices + totalCommissionInvoices;
+  const { items: paginatedInvoices, pagination: paginationMeta } = paginateArray(allInvoices, pagination);
 
   res.status(200).json({
     status: 'success',
     data: {
       invoices: paginatedInvoices,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -329,14 +314,12 @@ export const getInvoiceDetails = catchAsync(async (req: AuthenticatedRequest, re
 // @route   GET /api/admin/invoices/overdue-commissions
 // @access  Private (Admin only)
 export const getOverdueCommissions = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   const now = new Date();
 
   // Find overdue commission payments
-  const overdueCommissions = await prisma.commissionPayment.findMany({
+  const rows = await prisma.commissionPayment.findMany({
     where: {
       OR: [
         { status: 'PENDING', dueDate: { lt: now } },
@@ -363,30 +346,27 @@ export const getOverdueCommissions = catchAsync(async (req: AuthenticatedRequest
       },
       invoice: true,
     },
-    orderBy: { dueDate: 'asc' },
-    skip,
-    take: limit,
+    orderBy: [{ dueDate: 'asc' }, { id: 'asc' }],
+    ...getPrismaPageArgs(pagination),
   });
 
-  const total = await prisma.commissionPayment.count({
-    where: {
-      OR: [
-        { status: 'PENDING', dueDate: { lt: now } },
-        { status: 'OVERDUE' },
-      ],
-    },
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.commissionPayment.count({
+        where: {
+          OR: [
+            { status: 'PENDING', dueDate: { lt: now } },
+            { status: 'OVERDUE' },
+          ],
+        },
+      })
+    : undefined;
+  const { items: overdueCommissions, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       overdueCommissions,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -578,6 +558,7 @@ export const waiveCommission = catchAsync(async (req: AuthenticatedRequest, res:
       status: 'WAIVED',
     },
   });
+  await recordCommissionWaived(prisma, updatedCommission, reason);
 
   // If contractor was suspended due to this commission, reactivate them
   if (commission.contractor.status === 'SUSPENDED') {
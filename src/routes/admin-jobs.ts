@@ -10,6 +10,11 @@ import {
 import { logActivity } from '../services/auditService';
 import { prisma } from '../config/database';
 import { processCommissionForJob } from '../services/commissionService';
+import { releaseJobEscrows } from '../services/escrowService';
+import { recordCommissionAdjusted } from '../services/ledgerService';
+import { getJobStatusHistory, transitionJobStatus } from '../services/jobStatusService';
+import { isJobSize, resolveJobSize } from '../services/jobSizeService';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -33,7 +38,7 @@ router.patch(
     const job = await prisma.job.findUnique({
       where: { id: jobId },
       include: {
-        commissionPayment: true,
+        commissionPayments: true,
       },
     });
 
@@ -54,23 +59,33 @@ router.patch(
       },
     });
 
-    // If commission already exists, recalculate it
-    if (job.commissionPayment) {
-      const { getCommissionRate } = await import('../services/settingsService');
-      const rate = await getCommissionRate();
-      const commissionAmount = (value * rate) / 100;
+    // If commission already exists, recalculate it. Approved stages were charged separately,
+    // so the final-price commission only covers what's left after them.
+    const finalCommission = job.commissionPayments.find((payment) => !payment.milestoneId);
+    if (finalCommission) {
+      const { getContractorCommissionRate } = await import('../services/subscriptionService');
+      const rate = await getContractorCommissionRate(finalCommission.contractorId);
+      const stagesTotal = job.commissionPayments
+        .filter((payment) => payment.milestoneId)
+        .reduce((sum, payment) => sum + Number(payment.finalJobAmount), 0);
+      const commissionBase = Math.max(value - stagesTotal, 0);
+      const commissionAmount = (commissionBase * rate) / 100;
       const vatAmount = 0; // No additional VAT - commission amount already includes VAT
       const totalAmount = commissionAmount;
 
-      await prisma.commissionPayment.update({
-        where: { id: job.commissionPayment.id },
+      const adjusted = await prisma.commissionPayment.update({
+        where: { id: finalCommission.id },
         data: {
-          finalJobAmount: value,
+          finalJobAmount: commissionBase,
           commissionAmount,
           vatAmount,
           totalAmount,
         },
       });
+
+      if (finalCommission.status === 'PENDING' || finalCommission.status === 'OVERDUE') {
+        await recordCommissionAdjusted(prisma, finalCommission, adjusted, `job_value:${adjusted.updatedAt.getTime()}`);
+      }
     }
 
     await logActivity({
@@ -119,11 +134,11 @@ router.post(
       });
     }
 
-    await prisma.job.update({
-      where: { id: jobId },
-      data: {
-        status: 'CANCELLED',
-      },
+    await transitionJobStatus({
+      jobId,
+      to: 'CANCELLED',
+      actor: { role: 'ADMIN', id: req.admin!.id },
+      reason: reason || 'Job cancelled by admin',
     });
 
     await logActivity({
@@ -405,10 +420,13 @@ router.patch(
     const contractor = job.applications[0].contractor;
 
     // Update job: set winner, change status to IN_PROGRESS
-    const updatedJob = await prisma.job.update({
-      where: { id: jobId },
+    const updatedJob = await transitionJobStatus({
+      jobId,
+      to: 'IN_PROGRESS',
+      actor: { role: 'ADMIN', id: req.admin!.id },
+      reason,
+      notify: false,
       data: {
-        status: 'IN_PROGRESS',
         wonByContractorId: contractorId,
         // wonAt: new Date(), // Note: Prisma client may need regeneration to include wonAt field
         startDate: new Date(),
@@ -562,10 +580,13 @@ router.patch(
     }
 
     // Update job to completed
-    const updatedJob = await prisma.job.update({
-      where: { id: jobId },
+    const updatedJob = await transitionJobStatus({
+      jobId,
+      to: 'COMPLETED',
+      actor: { role: 'ADMIN', id: req.admin!.id },
+      reason,
+      notify: false,
       data: {
-        status: 'COMPLETED',
         finalAmount: finalAmount,
         completionDate: new Date(),
         customerConfirmed: true,
@@ -574,7 +595,7 @@ router.patch(
       },
     });
 
-    // Process commission if needed
+    // Process commission if needed (a no-op when the transition already raised it)
     if (job.wonByContractorId && !job.commissionPaid && finalAmount) {
       try {
         await processCommissionForJob(jobId, Number(finalAmount));
@@ -584,6 +605,16 @@ router.patch(
       }
     }
 
+    // Completing from final price confirmation has already paid out escrow in the transition.
+    // A Stripe failure leaves the funds held and alerts the admins; the job stays completed.
+    if (job.status !== 'AWAITING_FINAL_PRICE_CONFIRMATION') {
+      try {
+        await releaseJobEscrows(jobId);
+      } catch (error) {
+        console.error('Failed to release escrowed payment:', error);
+      }
+    }
+
     // Send notification to contractor
     if (job.wonByContractor) {
       const { createNotification } = await import('../services/notificationService');
@@ -706,30 +737,91 @@ router.patch(
   })
 );
 
+// Retry paying out held funds after a failed release (e.g. the contractor's Stripe account
+// wasn't ready). Without a milestoneId the job must be completed with its price confirmed;
+// with one, that stage must be approved.
+router.post(
+  '/:jobId/escrow/release',
+  protectAdmin,
+  requirePermission('payments:write'),
+  catchAsync(async (req: AdminAuthRequest, res: Response) => {
+    const { jobId } = req.params;
+    const { milestoneId } = req.body;
+
+    if (milestoneId !== undefined && typeof milestoneId !== 'string') {
+      return res.status(400).json({ status: 'error', message: 'milestoneId must be a string' });
+    }
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: { id: true, title: true, status: true, customerConfirmed: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ status: 'error', message: 'Job not found' });
+    }
+
+    if (milestoneId) {
+      const milestone = await prisma.milestone.findFirst({
+        where: { id: milestoneId, jobId },
+        select: { status: true },
+      });
+      if (!milestone) {
+        return res.status(404).json({ status: 'error', message: 'Stage not found' });
+      }
+      if (milestone.status !== 'APPROVED') {
+        return res.status(409).json({ status: 'error', message: 'The stage has not been approved yet' });
+      }
+    } else if (job.status !== 'COMPLETED' || !job.customerConfirmed) {
+      return res.status(409).json({ status: 'error', message: 'Held funds are only released once the final price is confirmed' });
+    }
+
+    // settleEscrow alerts the admins and keeps the funds held if Stripe fails again
+    const released = await releaseJobEscrows(jobId, { milestoneId });
+
+    await logActivity({
+      adminId: req.admin!.id,
+      action: 'ESCROW_RELEASE_RETRIED',
+      entityType: 'Job',
+      entityId: jobId,
+      description: `Admin released held funds for job: ${job.title}`,
+      diff: { milestoneId, escrowIds: released.map((escrow) => escrow.id) },
+      ipAddress: getClientIp(req),
+      userAgent: getClientUserAgent(req),
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: released.length > 0 ? 'Held funds released' : 'No funds were held for this job',
+      data: { escrows: released },
+    });
+  })
+);
+
 // Jobs awaiting final price confirmation (admin)
 router.get(
   '/awaiting-final-price',
   protectAdmin,
   requirePermission('final_price:read', 'jobs:read'),
   catchAsync(async (req: AdminAuthRequest, res: Response) => {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const skip = (page - 1) * limit;
+    const pagination = getPagination(req.query, { defaultLimit: 20 });
 
-    const jobs = await prisma.job.findMany({
+    const rows = await prisma.job.findMany({
       where: { status: 'AWAITING_FINAL_PRICE_CONFIRMATION' },
       include: {
         customer: { include: { user: { select: { id: true, name: true, email: true } } } },
         wonByContractor: { include: { user: { select: { id: true, name: true, email: true } } } },
       },
-      orderBy: { finalPriceProposedAt: 'asc' },
-      skip,
-      take: limit,
+      orderBy: [{ finalPriceProposedAt: 'asc' }, { id: 'asc' }],
+      ...getPrismaPageArgs(pagination),
     });
 
-    const total = await prisma.job.count({
-      where: { status: 'AWAITING_FINAL_PRICE_CONFIRMATION' },
-    });
+    const total = pagination.mode === 'page'
+      ? await prisma.job.count({
+          where: { status: 'AWAITING_FINAL_PRICE_CONFIRMATION' },
+        })
+      : undefined;
+    const { items: jobs, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     // Attach winner-confirmation source for each job
     const jobIds = jobs.map((j: any) => j.id);
@@ -754,7 +846,7 @@ router.get(
     res.status(200).json({
       status: 'success',
       data: jobsWithMeta,
-      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      pagination: paginationMeta,
     });
   })
 );
@@ -765,11 +857,9 @@ router.get(
   protectAdmin,
   requirePermission('final_price:read', 'jobs:read'),
   catchAsync(async (req: AdminAuthRequest, res: Response) => {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const skip = (page - 1) * limit;
+    const pagination = getPagination(req.query, { defaultLimit: 20 });
 
-    const jobs = await prisma.job.findMany({
+    const rows = await prisma.job.findMany({
       where: {
         finalPriceRejectedAt: { not: null },
         status: { in: ['IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION'] },
@@ -778,17 +868,19 @@ router.get(
         customer: { include: { user: { select: { id: true, name: true, email: true } } } },
         wonByContractor: { include: { user: { select: { id: true, name: true, email: true } } } },
       },
-      orderBy: { finalPriceRejectedAt: 'desc' },
-      skip,
-      take: limit,
+      orderBy: [{ finalPriceRejectedAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination),
     });
 
-    const total = await prisma.job.count({
-      where: {
-        finalPriceRejectedAt: { not: null },
-        status: { in: ['IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION'] },
-      },
-    });
+    const total = pagination.mode === 'page'
+      ? await prisma.job.count({
+          where: {
+            finalPriceRejectedAt: { not: null },
+            status: { in: ['IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION'] },
+          },
+        })
+      : undefined;
+    const { items: jobs, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     // Attach winner-confirmation source for each job
     const rejJobIds = jobs.map((j: any) => j.id);
@@ -813,7 +905,158 @@ router.get(
     res.status(200).json({
       status: 'success',
       data: jobsWithMeta,
-      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      pagination: paginationMeta,
+    });
+  })
+);
+
+// Job status history (every lifecycle transition, oldest first)
+router.get(
+  '/:jobId/status-history',
+  protectAdmin,
+  requirePermission('jobs:read'),
+  catchAsync(async (req: AdminAuthRequest, res: Response) => {
+    const { jobId } = req.params;
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: { id: true, status: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ status: 'error', message: 'Job not found' });
+    }
+
+    const history = await getJobStatusHistory(jobId);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        currentStatus: job.status,
+        history,
+      },
+    });
+  })
+);
+
+// Job size classification: the stored size, what the classifier would pick and any override
+router.get(
+  '/:jobId/size',
+  protectAdmin,
+  requirePermission('jobs:read'),
+  catchAsync(async (req: AdminAuthRequest, res: Response) => {
+    const { jobId } = req.params;
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        jobSize: true,
+        budget: true,
+        estimatedValue: true,
+        jobSizeOverriddenAt: true,
+        jobSizeOverriddenBy: true,
+        service: {
+          select: { id: true, name: true, smallJobMaxValue: true, mediumJobMaxValue: true },
+        },
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ status: 'error', message: 'Job not found' });
+    }
+
+    const classification = resolveJobSize(job, job.service, job.jobSize);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        jobSize: job.jobSize,
+        classifiedSize: classification.basis ? classification.jobSize : null,
+        classifiedFrom: classification.basis,
+        value: classification.value,
+        thresholds: {
+          serviceId: job.service.id,
+          serviceName: job.service.name,
+          smallJobMaxValue: job.service.smallJobMaxValue,
+          mediumJobMaxValue: job.service.mediumJobMaxValue,
+        },
+        overridden: !!job.jobSizeOverriddenAt,
+        overriddenAt: job.jobSizeOverriddenAt,
+        overriddenBy: job.jobSizeOverriddenBy,
+      },
+    });
+  })
+);
+
+// Override job size (or pass jobSize: null to hand it back to the classifier)
+router.patch(
+  '/:jobId/size',
+  protectAdmin,
+  requirePermission('jobs:write'),
+  catchAsync(async (req: AdminAuthRequest, res: Response) => {
+    const { jobId } = req.params;
+    const { jobSize, reason } = req.body;
+
+    if (jobSize !== null && !isJobSize(jobSize)) {
+      return res.status(400).json({
+        status: 'error',
+        message: 'jobSize must be SMALL, MEDIUM, LARGE or null to reclassify automatically',
+      });
+    }
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        jobSize: true,
+        budget: true,
+        estimatedValue: true,
+        jobSizeOverriddenAt: true,
+        service: {
+          select: { smallJobMaxValue: true, mediumJobMaxValue: true },
+        },
+      },
+    });
+
+    if (!job) {
+      return res.status(404).json({ status: 'error', message: 'Job not found' });
+    }
+
+    // Only future lead purchases are priced at the new size; past purchases are unaffected
+    const newSize = jobSize ?? resolveJobSize(job, job.service, job.jobSize).jobSize;
+
+    const updatedJob = await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        jobSize: newSize,
+        jobSizeOverriddenAt: jobSize ? new Date() : null,
+        jobSizeOverriddenBy: jobSize ? req.admin!.id : null,
+      },
+      select: { id: true, jobSize: true, jobSizeOverriddenAt: true, jobSizeOverriddenBy: true },
+    });
+
+    await logActivity({
+      adminId: req.admin!.id,
+      action: jobSize ? 'JOB_SIZE_OVERRIDE' : 'JOB_SIZE_RECLASSIFY',
+      entityType: 'Job',
+      entityId: jobId,
+      description: reason || (jobSize ? `Job size set to ${newSize}` : `Job size override removed, classified as ${newSize}`),
+      diff: {
+        before: { jobSize: job.jobSize, overridden: !!job.jobSizeOverriddenAt },
+        after: { jobSize: newSize, overridden: !!jobSize },
+        reason,
+      },
+      ipAddress: getClientIp(req),
+      userAgent: getClientUserAgent(req),
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: jobSize ? 'Job size overridden' : 'Job size reclassified',
+      data: {
+        job: updatedJob,
+      },
     });
   })
 );
@@ -839,28 +1082,28 @@ router.post(
     }
 
     if (job.status !== 'AWAITING_FINAL_PRICE_CONFIRMATION') {
-      return res.status(400).json({ status: 'error', message: 'Job is not awaiting final price confirmation' });
+      return res.status(409).json({ status: 'error', message: 'Job is not awaiting final price confirmation' });
     }
 
     if (!job.contractorProposedAmount) {
       return res.status(400).json({ status: 'error', message: 'No final price has been proposed for this job' });
     }
 
-    const updatedJob = await prisma.job.update({
-      where: { id: jobId },
+    // Completing from AWAITING_FINAL_PRICE_CONFIRMATION raises the commission
+    const updatedJob = await transitionJobStatus({
+      jobId,
+      to: 'COMPLETED',
+      actor: { role: 'ADMIN', id: req.admin!.id },
       data: {
         finalAmount: job.contractorProposedAmount,
         finalPriceConfirmedAt: new Date(),
         adminOverrideAt: new Date(),
         adminOverrideBy: req.admin!.id,
-        status: 'COMPLETED',
         completionDate: new Date(),
         customerConfirmed: true,
       },
     });
 
-    await processCommissionForJob(jobId, Number(job.contractorProposedAmount));
-
     await logActivity({
       adminId: req.admin!.id,
       action: 'FINAL_PRICE_APPROVED',
@@ -905,7 +1148,7 @@ router.post(
     }
 
     if (job.status !== 'AWAITING_FINAL_PRICE_CONFIRMATION') {
-      return res.status(400).json({ status: 'error', message: 'Job is not awaiting final price confirmation' });
+      return res.status(409).json({ status: 'error', message: 'Job is not awaiting final price confirmation' });
     }
 
     const amountToUse = finalAmount && finalAmount > 0
@@ -916,21 +1159,22 @@ router.post(
       return res.status(400).json({ status: 'error', message: 'No amount available to use for override' });
     }
 
-    const updatedJob = await prisma.job.update({
-      where: { id: jobId },
+    // The commission is raised on the overridden amount by the transition
+    const updatedJob = await transitionJobStatus({
+      jobId,
+      to: 'COMPLETED',
+      actor: { role: 'ADMIN', id: req.admin!.id },
+      reason,
       data: {
         finalAmount: amountToUse,
         finalPriceConfirmedAt: new Date(),
         adminOverrideAt: new Date(),
         adminOverrideBy: req.admin!.id,
-        status: 'COMPLETED',
         completionDate: new Date(),
         customerConfirmed: true,
       },
     });
 
-    await processCommissionForJob(jobId, Number(amountToUse));
-
     await logActivity({
       adminId: req.admin!.id,
       action: 'FINAL_PRICE_OVERRIDE',
@@ -15,6 +15,7 @@ import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { logActivity } from '../services/auditService';
 import * as adminNotificationService from '../services/adminNotificationService';
 import { prisma } from '../config/database';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 import { createServiceEmail, createEmailService } from '../services/emailService';
 
 const router = express.Router();
@@ -313,7 +314,8 @@ router.get(
   protectAdmin,
   requirePermission(AdminPermission.KYC_READ),
   catchAsync(async (req: AdminAuthRequest, res: Response) => {
-    const { status = 'SUBMITTED', page = '1', limit = '100' } = req.query;
+    const { status = 'SUBMITTED' } = req.query;
+    const pagination = getPagination(req.query, { defaultLimit: 100 });
 
     const where: any = {};
     
@@ -327,7 +329,7 @@ router.get(
       }
     }
 
-    const [kycRecords, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
       prisma.contractorKyc.findMany({
         where,
         include: {
@@ -345,20 +347,19 @@ router.get(
         orderBy: [
           { status: 'asc' }, // Sort by status first  
           { dueBy: 'asc' },  // Then by due date
+          { id: 'asc' },
         ],
-        take: parseInt(limit as string),
-        skip: (parseInt(page as string) - 1) * parseInt(limit as string),
+        ...getPrismaPageArgs(pagination),
       }),
-      prisma.contractorKyc.count({ where }),
+      pagination.mode === 'page' ? prisma.contractorKyc.count({ where }) : undefined,
     ]);
+    const { items: kycRecords, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     res.status(200).json({
       status: 'success',
       data: {
         kycRecords,
-        total,
-        page: parseInt(page as string),
-        totalPages: Math.ceil(total / parseInt(limit as string)),
+        pagination: paginationMeta,
       },
     });
   })
@@ -0,0 +1,216 @@
+import express, { Response, NextFunction } from 'express';
+import { LeadClaimReason, LeadClaimRemedy, LeadClaimStatus, Prisma } from '@prisma/client';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import {
+  protectAdmin,
+  requirePermission,
+  hasPermission,
+  getClientIp,
+  getClientUserAgent,
+  AdminAuthRequest,
+} from '../middleware/adminAuth';
+import { AdminPermission } from '../config/permissions';
+import { logActivity } from '../services/auditService';
+import { prisma } from '../config/database';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
+import {
+  approveLeadClaim,
+  getDefaultRemedy,
+  rejectLeadClaim,
+  LEAD_CLAIM_REASONS,
+  LEAD_CLAIM_REMEDIES,
+} from '../services/leadClaimService';
+
+const router = express.Router();
+
+const CLAIM_STATUSES = Object.values(LeadClaimStatus) as string[];
+
+const claimInclude = {
+  job: { select: { id: true, title: true, status: true, isFlagged: true } },
+  contractor: {
+    select: {
+      id: true,
+      businessName: true,
+      user: { select: { name: true, email: true } },
+    },
+  },
+  customer: {
+    select: {
+      id: true,
+      phone: true,
+      badLeadCount: true,
+      lastBadLeadAt: true,
+      user: { select: { name: true, email: true } },
+    },
+  },
+  jobAccess: {
+    select: {
+      accessMethod: true,
+      paidAmount: true,
+      creditUsed: true,
+      accessedAt: true,
+      payment: { select: { id: true, status: true, amount: true, stripePaymentId: true } },
+    },
+  },
+} as const;
+
+// @desc    Lead claim review queue (oldest first)
+// @route   GET /api/admin/lead-claims
+// @access  Private/Admin
+export const getLeadClaims = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const pagination = getPagination(req.query);
+  const { status = 'PENDING', reason, customerId } = req.query;
+
+  if (status !== 'ALL' && !CLAIM_STATUSES.includes(status as string)) {
+    return next(new AppError(`Invalid status. Use ALL or one of: ${CLAIM_STATUSES.join(', ')}`, 400));
+  }
+  if (reason !== undefined && !LEAD_CLAIM_REASONS.includes(reason as LeadClaimReason)) {
+    return next(new AppError(`Invalid reason. Use one of: ${LEAD_CLAIM_REASONS.join(', ')}`, 400));
+  }
+
+  const where: Prisma.LeadQualityClaimWhereInput = {
+    ...(status !== 'ALL' && { status: status as LeadClaimStatus }),
+    ...(reason && { reason: reason as LeadClaimReason }),
+    ...(customerId && { customerId: customerId as string }),
+  };
+
+  const rows = await prisma.leadQualityClaim.findMany({
+    where,
+    include: claimInclude,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    ...getPrismaPageArgs(pagination),
+  });
+
+  const total = pagination.mode === 'page' ? await prisma.leadQualityClaim.count({ where }) : undefined;
+  const { items, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      claims: items.map((claim) => ({ ...claim, suggestedRemedy: getDefaultRemedy(claim.jobAccess) })),
+      pagination: paginationMeta,
+    },
+  });
+});
+
+// @desc    Get a lead claim
+// @route   GET /api/admin/lead-claims/:id
+// @access  Private/Admin
+export const getLeadClaim = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const claim = await prisma.leadQualityClaim.findUnique({
+    where: { id: req.params.id },
+    include: claimInclude,
+  });
+
+  if (!claim) {
+    return next(new AppError('Lead claim not found', 404));
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      claim: { ...claim, suggestedRemedy: getDefaultRemedy(claim.jobAccess) },
+    },
+  });
+});
+
+// @desc    Approve a lead claim (restore a credit or refund the card payment)
+// @route   POST /api/admin/lead-claims/:id/approve
+// @access  Private/Admin
+export const approveClaim = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const { remedy, notes } = req.body;
+
+  if (remedy !== undefined && !LEAD_CLAIM_REMEDIES.includes(remedy)) {
+    return next(new AppError(`Invalid remedy. Use one of: ${LEAD_CLAIM_REMEDIES.join(', ')}`, 400));
+  }
+
+  // Card refunds move money, so they need refund permission on top of dispute resolution
+  if (remedy === 'STRIPE_REFUND' || remedy === undefined) {
+    const claim = await prisma.leadQualityClaim.findUnique({
+      where: { id: req.params.id },
+      select: { jobAccess: { select: { creditUsed: true } } },
+    });
+    const effectiveRemedy: LeadClaimRemedy | undefined = remedy ?? (claim ? getDefaultRemedy(claim.jobAccess) : undefined);
+    if (effectiveRemedy === 'STRIPE_REFUND' && !hasPermission(req.admin, AdminPermission.PAYMENTS_REFUND)) {
+      return next(new AppError('You do not have permission to issue refunds', 403));
+    }
+  }
+
+  const { claim, customer } = await approveLeadClaim({
+    claimId: req.params.id,
+    adminId: req.admin!.id,
+    remedy,
+    notes,
+  });
+
+  await logActivity({
+    adminId: req.admin!.id,
+    action: 'LEAD_CLAIM_APPROVE',
+    entityType: 'LeadQualityClaim',
+    entityId: claim.id,
+    description:
+      claim.remedy === 'CREDIT'
+        ? `Approved lead claim ${claim.id}: ${claim.creditsRestored} credit restored`
+        : `Approved lead claim ${claim.id}: £${Number(claim.refundAmount).toFixed(2)} refunded (${claim.stripeRefundId})`,
+    diff: {
+      before: { status: 'PENDING' },
+      after: { status: claim.status, remedy: claim.remedy, customerBadLeadCount: customer.badLeadCount },
+      notes,
+    },
+    ipAddress: getClientIp(req),
+    userAgent: getClientUserAgent(req),
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: claim.remedy === 'CREDIT' ? 'Claim approved and credit restored' : 'Claim approved and payment refunded',
+    data: {
+      claim,
+      customer,
+    },
+  });
+});
+
+// @desc    Reject a lead claim
+// @route   POST /api/admin/lead-claims/:id/reject
+// @access  Private/Admin
+export const rejectClaim = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const { notes } = req.body;
+
+  if (!notes || !String(notes).trim()) {
+    return next(new AppError('A reason for rejecting the claim is required', 400));
+  }
+
+  const claim = await rejectLeadClaim({
+    claimId: req.params.id,
+    adminId: req.admin!.id,
+    notes: String(notes).trim(),
+  });
+
+  await logActivity({
+    adminId: req.admin!.id,
+    action: 'LEAD_CLAIM_REJECT',
+    entityType: 'LeadQualityClaim',
+    entityId: req.params.id,
+    description: `Rejected lead claim ${req.params.id}: ${notes}`,
+    diff: {
+      before: { status: 'PENDING' },
+      after: { status: 'REJECTED' },
+    },
+    ipAddress: getClientIp(req),
+    userAgent: getClientUserAgent(req),
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Claim rejected',
+    data: { claim },
+  });
+});
+
+router.get('/', protectAdmin, requirePermission(AdminPermission.DISPUTES_READ), getLeadClaims);
+router.get('/:id', protectAdmin, requirePermission(AdminPermission.DISPUTES_READ), getLeadClaim);
+router.post('/:id/approve', protectAdmin, requirePermission(AdminPermission.DISPUTES_RESOLVE), approveClaim);
+router.post('/:id/reject', protectAdmin, requirePermission(AdminPermission.DISPUTES_RESOLVE), rejectClaim);
+
+export default router;
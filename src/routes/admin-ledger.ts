@@ -0,0 +1,142 @@
+import express, { Response, NextFunction } from 'express';
+import { AdminRole, LedgerUnit } from '@prisma/client';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import {
+  protectAdmin,
+  restrictToAdminRole,
+  getClientIp,
+  getClientUserAgent,
+  AdminAuthRequest,
+} from '../middleware/adminAuth';
+import { logActivity } from '../services/auditService';
+import { prisma } from '../config/database';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
+import {
+  checkLedgerConsistency,
+  getAccountBalances,
+  getContractorLedgerBalance,
+  getTrialBalance,
+  parseLedgerDate,
+  postOpeningBalances,
+} from '../services/ledgerService';
+
+const router = express.Router();
+
+const LEDGER_UNITS = Object.values(LedgerUnit) as string[];
+
+// @desc    Trial balance, optionally as at a date
+// @route   GET /api/admin/ledger/trial-balance
+// @access  Private/Finance Admin
+export const getLedgerTrialBalance = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const asOf = parseLedgerDate(req.query.asOf, 'asOf');
+  const trialBalance = await getTrialBalance(asOf);
+
+  res.status(200).json({
+    status: 'success',
+    data: trialBalance,
+  });
+});
+
+// @desc    Account balances
+// @route   GET /api/admin/ledger/accounts
+// @access  Private/Finance Admin
+export const getLedgerAccounts = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const { unit, contractorId } = req.query;
+
+  if (unit !== undefined && !LEDGER_UNITS.includes(unit as string)) {
+    return next(new AppError(`Invalid unit. Use one of: ${LEDGER_UNITS.join(', ')}`, 400));
+  }
+
+  const accounts = await getAccountBalances({
+    asOf: parseLedgerDate(req.query.asOf, 'asOf'),
+    unit: unit as LedgerUnit | undefined,
+    contractorId: contractorId as string | undefined,
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: { accounts },
+  });
+});
+
+// @desc    A contractor's ledger balance and entries (newest first)
+// @route   GET /api/admin/ledger/contractors/:contractorId
+// @access  Private/Finance Admin
+export const getContractorLedger = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const { contractorId } = req.params;
+  const pagination = getPagination(req.query);
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { id: contractorId },
+    select: { id: true, businessName: true, creditsBalance: true, user: { select: { name: true, email: true } } },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor not found', 404));
+  }
+
+  const where = { contractorId };
+  const rows = await prisma.ledgerEntry.findMany({
+    where,
+    include: { postings: { include: { account: { select: { code: true, name: true, unit: true } } } } },
+    orderBy: [{ occurredAt: 'desc' }, { id: 'desc' }],
+    ...getPrismaPageArgs(pagination),
+  });
+
+  const total = pagination.mode === 'page' ? await prisma.ledgerEntry.count({ where }) : undefined;
+  const { items, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      contractor,
+      balance: await getContractorLedgerBalance(contractorId),
+      entries: items,
+      pagination: paginationMeta,
+    },
+  });
+});
+
+// @desc    Compare the ledger with payments, commissions, invoices and credit balances
+// @route   GET /api/admin/ledger/consistency
+// @access  Private/Finance Admin
+export const getLedgerConsistency = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const report = await checkLedgerConsistency();
+
+  res.status(200).json({
+    status: 'success',
+    data: report,
+  });
+});
+
+// @desc    Post opening balances for contractors whose balances predate the ledger
+// @route   POST /api/admin/ledger/opening-balances
+// @access  Private/Finance Admin
+export const createOpeningBalances = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const result = await postOpeningBalances();
+
+  await logActivity({
+    adminId: req.admin!.id,
+    action: 'LEDGER_OPENING_BALANCES',
+    entityType: 'Ledger',
+    description: `Posted opening balances for ${result.posted} of ${result.contractors} contractors`,
+    diff: result,
+    ipAddress: getClientIp(req),
+    userAgent: getClientUserAgent(req),
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: result,
+  });
+});
+
+router.use(protectAdmin, restrictToAdminRole(AdminRole.SUPER_ADMIN, AdminRole.FINANCE_ADMIN));
+
+router.get('/trial-balance', getLedgerTrialBalance);
+router.get('/accounts', getLedgerAccounts);
+router.get('/contractors/:contractorId', getContractorLedger);
+router.get('/consistency', getLedgerConsistency);
+router.post('/opening-balances', createOpeningBalances);
+
+export default router;
@@ -10,12 +10,15 @@ import {
 import { logActivity } from '../services/auditService';
 import * as adminNotificationService from '../services/adminNotificationService';
 import { prisma } from '../config/database';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 import {
   generateInvoiceNumber,
   generateAndSaveInvoicePDF,
   sendInvoiceEmail,
   sendInvoiceReminder,
+  recordOfflineInvoicePayment,
 } from '../services/manualInvoiceService';
+import { recordManualInvoiceCancelled, recordManualInvoiceIssued } from '../services/ledgerService';
 
 const router = express.Router();
 
@@ -28,15 +31,14 @@ router.get(
     const {
       status,
       contractorId,
-      page = '1',
-      limit = '20',
     } = req.query;
+    const pagination = getPagination(req.query, { defaultLimit: 20 });
 
     const where: any = {};
     if (status) where.status = status;
     if (contractorId) where.contractorId = contractorId;
 
-    const [invoices, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
       prisma.manualInvoice.findMany({
         where,
         include: {
@@ -52,20 +54,18 @@ router.get(
           },
           items: true,
         },
-        orderBy: { createdAt: 'desc' },
-        take: parseInt(limit as string),
-        skip: (parseInt(page as string) - 1) * parseInt(limit as string),
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...getPrismaPageArgs(pagination),
       }),
-      prisma.manualInvoice.count({ where }),
+      pagination.mode === 'page' ? prisma.manualInvoice.count({ where }) : undefined,
     ]);
+    const { items: invoices, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     res.status(200).json({
       status: 'success',
       data: {
         invoices,
-        total,
-        page: parseInt(page as string),
-        totalPages: Math.ceil(total / parseInt(limit as string)),
+        pagination: paginationMeta,
       },
     });
   })
@@ -282,6 +282,7 @@ router.post(
         issuedAt: new Date(),
       },
     });
+    await recordManualInvoiceIssued(prisma, invoice);
 
     // Send email
     await sendInvoiceEmail(invoiceId);
@@ -384,6 +385,7 @@ router.post(
         notes: notes || invoice.notes,
       },
     });
+    await recordOfflineInvoicePayment(invoice);
 
     await logActivity({
       adminId: req.admin!.id,
@@ -437,6 +439,11 @@ router.post(
       },
     });
 
+    // Drafts were never billed, so only an issued invoice comes off the receivable
+    if (invoice.status === 'ISSUED' || invoice.status === 'OVERDUE') {
+      await recordManualInvoiceCancelled(prisma, invoice);
+    }
+
     await logActivity({
       adminId: req.admin!.id,
       action: 'MANUAL_INVOICE_CANCEL',
@@ -3,6 +3,7 @@ import { protectAdmin, AdminAuthRequest } from '../middleware/adminAuth';
 import { catchAsync } from '../middleware/errorHandler';
 import * as notificationService from '../services/notificationService';
 import { prisma } from '../config/database';
+import { getPagination } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -38,13 +39,11 @@ router.get(
     }
 
     const unreadOnly = req.query.unreadOnly === 'true';
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
-    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+    const pagination = getPagination(req.query, { defaultLimit: 50 });
 
     const result = await notificationService.getUserNotifications(adminUser.id, {
       unreadOnly,
-      limit,
-      offset,
+      pagination,
     });
 
     res.json({
@@ -3,6 +3,7 @@ import { prisma } from '../config/database';
 import { protectAdmin, requirePermission, AdminAuthRequest } from '../middleware/adminAuth';
 import { catchAsync, AppError } from '../middleware/errorHandler';
 import { createBulkNotifications } from '../services/notificationService';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 import { UserRole } from '@prisma/client';
 
 const router = Router();
@@ -183,12 +184,10 @@ export const getNotificationStats = catchAsync(
 // @access  Private (Admin only)
 export const getBulkNotificationHistory = catchAsync(
   async (req: AdminAuthRequest, res: Response) => {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const skip = (page - 1) * limit;
+    const pagination = getPagination(req.query, { defaultLimit: 20 });
 
     // Get bulk notification activity logs
-    const [logs, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
       prisma.activityLog.findMany({
         where: {
           action: 'BULK_NOTIFICATION_SENT',
@@ -202,29 +201,24 @@ export const getBulkNotificationHistory = catchAsync(
             },
           },
         },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        skip,
-        take: limit,
-      }),
-      prisma.activityLog.count({
-        where: {
-          action: 'BULK_NOTIFICATION_SENT',
-        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...getPrismaPageArgs(pagination),
       }),
+      pagination.mode === 'page'
+        ? prisma.activityLog.count({
+            where: {
+              action: 'BULK_NOTIFICATION_SENT',
+            },
+          })
+        : undefined,
     ]);
+    const { items: logs, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     res.status(200).json({
       status: 'success',
       data: {
         logs,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-        },
+        pagination: paginationMeta,
       },
     });
   }
@@ -3,6 +3,9 @@ import { prisma } from '../config/database';
 import { protectAdmin, AdminAuthRequest, requirePermission } from '../middleware/adminAuth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
 import { AdminPermission } from '../config/permissions';
+import { getPurchasedCreditBalance, trimPurchasedCredits } from '../services/creditBundleService';
+import { recordCreditReset, recordCreditTransaction } from '../services/ledgerService';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const router = Router();
 
@@ -77,9 +80,7 @@ export const updateServicePricing = catchAsync(async (req: AdminAuthRequest, res
 // @access  Private/Admin
 export const searchContractors = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
   const { query } = req.query;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   const where: any = {};
 
@@ -91,7 +92,7 @@ export const searchContractors = catchAsync(async (req: AdminAuthRequest, res: R
     ];
   }
 
-  const contractors = await prisma.contractor.findMany({
+  const rows = await prisma.contractor.findMany({
     where,
     include: {
       user: {
@@ -102,23 +103,18 @@ export const searchContractors = catchAsync(async (req: AdminAuthRequest, res: R
         },
       },
     },
-    skip,
-    take: limit,
-    orderBy: { createdAt: 'desc' },
+    ...getPrismaPageArgs(pagination),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
   });
 
-  const total = await prisma.contractor.count({ where });
+  const total = pagination.mode === 'page' ? await prisma.contractor.count({ where }) : undefined;
+  const { items: contractors, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       contractors,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -195,8 +191,12 @@ export const adjustContractorCredits = catchAsync(async (req: AdminAuthRequest,
       },
     });
 
+    if (type === 'DEDUCTION') {
+      await trimPurchasedCredits(tx, id);
+    }
+
     // Create transaction record
-    await tx.creditTransaction.create({
+    const creditTransaction = await tx.creditTransaction.create({
       data: {
         contractorId: id,
         type,
@@ -205,6 +205,7 @@ export const adjustContractorCredits = catchAsync(async (req: AdminAuthRequest,
         adminUserId: req.admin!.id,
       },
     });
+    await recordCreditTransaction(tx, creditTransaction);
   });
 
   res.status(200).json({
@@ -266,13 +267,25 @@ export const resetWeeklyCredits = catchAsync(async (req: AdminAuthRequest, res:
   // Update credits for each contractor
   await prisma.$transaction(async (tx) => {
     for (const contractor of contractors) {
-      await tx.contractor.update({
+      // Unspent purchased credits survive the reset
+      const purchasedCredits = await getPurchasedCreditBalance(tx, contractor.id);
+      const before = await tx.contractor.findUnique({
+        where: { id: contractor.id },
+        select: { creditsBalance: true },
+      });
+      const updated = await tx.contractor.update({
         where: { id: contractor.id },
         data: {
-          creditsBalance: contractor.weeklyCreditsLimit,
+          creditsBalance: contractor.weeklyCreditsLimit + purchasedCredits,
           lastCreditReset: now,
         },
       });
+      await recordCreditReset(tx, {
+        contractorId: contractor.id,
+        before: before?.creditsBalance ?? 0,
+        after: updated.creditsBalance,
+        resetAt: now,
+      });
 
       await tx.creditTransaction.create({
         data: {
@@ -2,6 +2,7 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 import { protectAdmin, AdminAuthRequest } from '../middleware/adminAuth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const router = Router();
 
@@ -15,9 +16,7 @@ export const getPriceConfirmationHistory = catchAsync(async (req: AdminAuthReque
   const action = req.query.action as string | undefined;
   const from = req.query.from as string | undefined;
   const to = req.query.to as string | undefined;
-  const page = Math.max(1, parseInt(req.query.page as string) || 1);
-  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, { defaultLimit: 20 });
 
   const validActions = ['PROPOSED', 'CONFIRMED', 'REJECTED', 'ADMIN_OVERRIDE'];
 
@@ -44,7 +43,7 @@ export const getPriceConfirmationHistory = catchAsync(async (req: AdminAuthReque
     };
   }
 
-  const [logs, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.priceConfirmationLog.findMany({
       where,
       include: {
@@ -57,12 +56,12 @@ export const getPriceConfirmationHistory = catchAsync(async (req: AdminAuthReque
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination),
     }),
-    prisma.priceConfirmationLog.count({ where }),
+    pagination.mode === 'page' ? prisma.priceConfirmationLog.count({ where }) : undefined,
   ]);
+  const { items: logs, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   // Resolve performer names: look up Admin or User depending on role
   const adminRoles = ['ADMIN', 'SUPER_ADMIN'];
@@ -96,12 +95,7 @@ export const getPriceConfirmationHistory = catchAsync(async (req: AdminAuthReque
     status: 'success',
     data: {
       logs: logsWithPerformer,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
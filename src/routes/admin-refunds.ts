@@ -0,0 +1,157 @@
+import { Router, Response, NextFunction } from 'express';
+import { Prisma, RefundStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  protectAdmin,
+  requirePermission,
+  getClientIp,
+  getClientUserAgent,
+  AdminAuthRequest,
+} from '../middleware/adminAuth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import { AdminPermission } from '../config/permissions';
+import { logActivity } from '../services/auditService';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
+import { approveRefund, generateCreditNote, rejectRefund } from '../services/refundService';
+
+const router = Router();
+
+const REFUND_STATUSES = Object.values(RefundStatus) as string[];
+
+const REFUND_LIST_INCLUDE = {
+  payment: {
+    select: {
+      id: true,
+      type: true,
+      amount: true,
+      description: true,
+      stripePaymentId: true,
+      contractor: { select: { id: true, businessName: true, user: { select: { name: true, email: true } } } },
+    },
+  },
+  invoice: { select: { id: true, invoiceNumber: true } },
+} as const;
+
+// @desc    List refunds, e.g. ?status=PENDING_APPROVAL for the approval queue
+// @route   GET /api/admin/refunds
+// @access  Private/Admin
+export const getRefunds = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const { status, paymentId } = req.query;
+  const pagination = getPagination(req.query);
+
+  if (status !== undefined && !REFUND_STATUSES.includes(status as string)) {
+    return next(new AppError(`Invalid status. Use one of: ${REFUND_STATUSES.join(', ')}`, 400));
+  }
+
+  const where: Prisma.RefundWhereInput = {
+    ...(status && { status: status as RefundStatus }),
+    ...(paymentId && { paymentId: paymentId as string }),
+  };
+
+  const rows = await prisma.refund.findMany({
+    where,
+    include: REFUND_LIST_INCLUDE,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...getPrismaPageArgs(pagination),
+  });
+
+  const total = pagination.mode === 'page' ? await prisma.refund.count({ where }) : undefined;
+  const { items, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      refunds: items,
+      pagination: paginationMeta,
+    },
+  });
+});
+
+// @desc    Get a refund
+// @route   GET /api/admin/refunds/:id
+// @access  Private/Admin
+export const getRefund = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const refund = await prisma.refund.findUnique({
+    where: { id: req.params.id },
+    include: REFUND_LIST_INCLUDE,
+  });
+
+  if (!refund) {
+    return next(new AppError('Refund not found', 404));
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: { refund },
+  });
+});
+
+// @desc    Approve a refund that is over the approval limit and send it to Stripe
+// @route   POST /api/admin/refunds/:id/approve
+// @access  Private/Finance Admin (not the requester)
+export const approvePendingRefund = catchAsync(async (req: AdminAuthRequest, res: Response) => {
+  const refund = await approveRefund(req.params.id, req.admin!);
+
+  await logActivity({
+    adminId: req.admin!.id,
+    action: 'PAYMENT_REFUND_APPROVED',
+    entityType: 'Payment',
+    entityId: refund.paymentId,
+    description: `Approved refund of £${Number(refund.amount).toFixed(2)} for payment ${refund.paymentId}. Stripe refund: ${refund.stripeRefundId}`,
+    diff: { refundId: refund.id, status: refund.status, requestedByAdminId: refund.requestedByAdminId },
+    ipAddress: getClientIp(req),
+    userAgent: getClientUserAgent(req),
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: `Refund of £${Number(refund.amount).toFixed(2)} approved and processed`,
+    data: { refund },
+  });
+});
+
+// @desc    Turn down a refund that is waiting for approval
+// @route   POST /api/admin/refunds/:id/reject
+// @access  Private/Finance Admin
+export const rejectPendingRefund = catchAsync(async (req: AdminAuthRequest, res: Response) => {
+  const refund = await rejectRefund(req.params.id, req.admin!, req.body.reason);
+
+  await logActivity({
+    adminId: req.admin!.id,
+    action: 'PAYMENT_REFUND_REJECTED',
+    entityType: 'Payment',
+    entityId: refund.paymentId,
+    description: `Rejected refund of £${Number(refund.amount).toFixed(2)} for payment ${refund.paymentId}. Reason: ${refund.rejectionReason}`,
+    diff: { refundId: refund.id, requestedByAdminId: refund.requestedByAdminId },
+    ipAddress: getClientIp(req),
+    userAgent: getClientUserAgent(req),
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Refund rejected',
+    data: { refund },
+  });
+});
+
+// @desc    Download the credit note issued with a refund
+// @route   GET /api/admin/refunds/:id/credit-note
+// @access  Private/Admin
+export const downloadRefundCreditNote = catchAsync(async (req: AdminAuthRequest, res: Response) => {
+  const { pdf, creditNoteNumber } = await generateCreditNote(req.params.id);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="credit-note-${creditNoteNumber}.pdf"`);
+  res.setHeader('Content-Length', pdf.length);
+  res.send(pdf);
+});
+
+router.use(protectAdmin);
+
+router.get('/', requirePermission(AdminPermission.PAYMENTS_READ), getRefunds);
+router.get('/:id', requirePermission(AdminPermission.PAYMENTS_READ), getRefund);
+router.get('/:id/credit-note', requirePermission(AdminPermission.PAYMENTS_READ), downloadRefundCreditNote);
+router.post('/:id/approve', requirePermission(AdminPermission.PAYMENTS_REFUND), approvePendingRefund);
+router.post('/:id/reject', requirePermission(AdminPermission.PAYMENTS_REFUND), rejectPendingRefund);
+
+export default router;
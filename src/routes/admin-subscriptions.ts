@@ -1,12 +1,21 @@
 import { Router, Response, NextFunction } from 'express';
+import { DunningStage, DunningStatus, Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
-import { protectAdmin, AdminAuthRequest } from '../middleware/adminAuth';
+import { protectAdmin, requirePermission, AdminAuthRequest } from '../middleware/adminAuth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
 import Stripe from 'stripe';
+import { AdminPermission } from '../config/permissions';
 import { getSubscriptionPricing } from '../services/subscriptionService';
+import { recordPaymentReceived } from '../services/ledgerService';
+import { getDunningSummary, getNextDunningStep } from '../services/dunningService';
+import { getDunningSettings } from '../services/settingsService';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const router = Router();
 
+const DUNNING_STATUSES = Object.values(DunningStatus) as string[];
+const DUNNING_STAGES = Object.values(DunningStage) as string[];
+
 // Initialize Stripe
 let stripe: Stripe | null = null;
 
@@ -30,10 +39,8 @@ function getStripeInstance(): Stripe {
 // @route   GET /api/admin/subscriptions
 // @access  Private (Admin only)
 export const getAllSubscriptions = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-  
+  const pagination = getPagination(req.query);
+
   const status = req.query.status as string;
   const plan = req.query.plan as string;
   const search = req.query.search as string;
@@ -81,12 +88,7 @@ export const getAllSubscriptions = catchAsync(async (req: AdminAuthRequest, res:
         status: 'success',
         data: {
           subscriptions: [],
-          pagination: {
-            page,
-            limit,
-            total: 0,
-            pages: 0,
-          }
+          pagination: buildPageResult([], pagination, 0).pagination,
         }
       });
     }
@@ -95,7 +97,7 @@ export const getAllSubscriptions = catchAsync(async (req: AdminAuthRequest, res:
   }
 
   // Query subscriptions with pagination
-  const [subscriptions, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.subscription.findMany({
       where,
       include: {
@@ -110,23 +112,18 @@ export const getAllSubscriptions = catchAsync(async (req: AdminAuthRequest, res:
           },
         },
       },
-      orderBy: { updatedAt: 'desc' },
-      skip,
-      take: limit,
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination),
     }),
-    prisma.subscription.count({ where }),
+    pagination.mode === 'page' ? prisma.subscription.count({ where }) : undefined,
   ]);
+  const { items: subscriptions, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   return res.status(200).json({
     status: 'success',
     data: {
       subscriptions,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      }
+      pagination: paginationMeta,
     }
   });
 });
@@ -647,6 +644,7 @@ export const createSubscriptionForContractor = catchAsync(async (req: AdminAuthR
   
   // Create invoice for the subscription
   const pricing = await getSubscriptionPricing(plan);
+  await recordPaymentReceived(prisma, payment, { vatAmount: pricing.vatAmount });
   const invoice = await prisma.invoice.create({
     data: {
       payments: { connect: { id: payment.id } },
@@ -688,6 +686,71 @@ export const createSubscriptionForContractor = catchAsync(async (req: AdminAuthR
   });
 });
 
+// @desc    Dunning dashboard: failed renewals by stage, the schedule, and the cases themselves
+// @route   GET /api/admin/subscriptions/dunning
+// @access  Private (Admin only)
+export const getDunningDashboard = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
+  const status = (req.query.status as string) || 'OPEN';
+  const stage = req.query.stage as string | undefined;
+  const pagination = getPagination(req.query);
+
+  if (status !== 'all' && !DUNNING_STATUSES.includes(status)) {
+    return next(new AppError(`Invalid status. Use one of: all, ${DUNNING_STATUSES.join(', ')}`, 400));
+  }
+  if (stage !== undefined && !DUNNING_STAGES.includes(stage)) {
+    return next(new AppError(`Invalid stage. Use one of: ${DUNNING_STAGES.join(', ')}`, 400));
+  }
+
+  const where: Prisma.SubscriptionDunningWhereInput = {
+    ...(status !== 'all' && { status: status as DunningStatus }),
+    ...(stage && { stage: stage as DunningStage }),
+  };
+
+  const [settings, summary, rows] = await Promise.all([
+    getDunningSettings(),
+    getDunningSummary(),
+    prisma.subscriptionDunning.findMany({
+      where,
+      include: {
+        subscription: {
+          select: {
+            id: true,
+            plan: true,
+            status: true,
+            stripeSubscriptionId: true,
+            contractor: {
+              select: {
+                id: true,
+                businessName: true,
+                weeklyCreditsLimit: true,
+                user: { select: { name: true, email: true } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: [{ failedAt: 'asc' }, { id: 'asc' }],
+      ...getPrismaPageArgs(pagination),
+    }),
+  ]);
+
+  const total = pagination.mode === 'page' ? await prisma.subscriptionDunning.count({ where }) : undefined;
+  const { items, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      summary,
+      settings,
+      cases: items.map((dunning) => ({
+        ...dunning,
+        nextStep: dunning.status === 'OPEN' ? getNextDunningStep(dunning, settings) : null,
+      })),
+      pagination: paginationMeta,
+    },
+  });
+});
+
 // @desc    Get subscription by ID
 // @route   GET /api/admin/subscriptions/:id
 // @access  Private (Admin only)
@@ -707,6 +770,10 @@ export const getSubscriptionById = catchAsync(async (req: AdminAuthRequest, res:
           },
         },
       },
+      dunningCases: {
+        orderBy: { failedAt: 'desc' },
+        take: 5,
+      },
     },
   });
 
@@ -778,6 +845,7 @@ export const updateSubscription = catchAsync(async (req: AdminAuthRequest, res:
 router.use(protectAdmin);
 
 router.get('/stats', getSubscriptionStats);
+router.get('/dunning', requirePermission(AdminPermission.PAYMENTS_READ), getDunningDashboard);
 router.get('/', getAllSubscriptions);
 router.get('/:id', getSubscriptionById);
 router.patch('/:id', updateSubscription);
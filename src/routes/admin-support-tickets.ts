@@ -10,6 +10,7 @@ import {
 import { logActivity } from '../services/auditService';
 import * as adminNotificationService from '../services/adminNotificationService';
 import { prisma } from '../config/database';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -30,9 +31,8 @@ router.get(
       priority,
       category,
       search,
-      page = '1',
-      limit = '20',
     } = req.query;
+    const pagination = getPagination(req.query, { defaultLimit: 20 });
 
     const where: any = {};
     if (status && status !== 'all') where.status = status;
@@ -48,7 +48,7 @@ router.get(
       ];
     }
 
-    const [tickets, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
       prisma.supportTicket.findMany({
         where,
         include: {
@@ -57,20 +57,18 @@ router.get(
             take: 1,
           },
         },
-        orderBy: { createdAt: 'desc' },
-        take: parseInt(limit as string),
-        skip: (parseInt(page as string) - 1) * parseInt(limit as string),
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...getPrismaPageArgs(pagination),
       }),
-      prisma.supportTicket.count({ where }),
+      pagination.mode === 'page' ? prisma.supportTicket.count({ where }) : undefined,
     ]);
+    const { items: tickets, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     res.status(200).json({
       status: 'success',
       data: {
         tickets,
-        total,
-        page: parseInt(page as string),
-        totalPages: Math.ceil(total / parseInt(limit as string)),
+        pagination: paginationMeta,
       },
     });
   })
@@ -2,8 +2,14 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 import { protectAdmin, requirePermission, AdminAuthRequest, hasPermission, getClientIp, getClientUserAgent } from '../middleware/adminAuth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult, paginateArray } from '../utils/pagination';
 import { AdminPermission } from '../config/permissions';
 import { logActivity } from '../services/auditService';
+import { transitionJobStatus } from '../services/jobStatusService';
+import { quoteLeadPrices } from '../services/leadPricingService';
+import { trimPurchasedCredits } from '../services/creditBundleService';
+import { recordCreditTransaction, recordPaymentReceived } from '../services/ledgerService';
+import { REFUND_REASON_LABELS, parseRefundReason, requestRefund } from '../services/refundService';
 import * as adminNotificationService from '../services/adminNotificationService';
 import { deleteFromCloudinary } from '../config/cloudinary';
 import bcrypt from 'bcryptjs';
@@ -242,14 +248,11 @@ export const getAnalytics = catchAsync(async (req: AdminAuthRequest, res: Respon
 // @route   GET /api/admin/contractors/pending
 // @access  Private/Admin
 export const getPendingContractors = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
-  const contractors = await prisma.contractor.findMany({
+  const rows = await prisma.contractor.findMany({
     where: { profileApproved: false },
-    skip,
-    take: limit,
+    ...getPrismaPageArgs(pagination),
     include: {
       user: {
         select: {
@@ -261,23 +264,19 @@ export const getPendingContractors = catchAsync(async (req: AdminAuthRequest, re
       services: true,
       documents: true,
     },
-    orderBy: { createdAt: 'asc' },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
   });
 
-  const total = await prisma.contractor.count({
-    where: { profileApproved: false },
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.contractor.count({ where: { profileApproved: false } })
+    : undefined;
+  const { items: contractors, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       contractors,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -484,11 +483,12 @@ export const approveContractor = catchAsync(async (req: AdminAuthRequest, res: R
 // @route   GET /api/admin/content/flagged
 // @access  Private/Admin
 export const getFlaggedContent = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 20;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, { defaultLimit: 20 });
   const { type, status, severity, search } = req.query;
 
+  // Reviews, jobs and profiles are merged and filtered below, so each source is read in full
+  // and the page is cut from the combined list
+
   // Get flagged reviews
   const flaggedReviews = await prisma.review.findMany({
     where: { 
@@ -531,8 +531,6 @@ export const getFlaggedContent = catchAsync(async (req: AdminAuthRequest, res: R
       },
     },
     orderBy: { createdAt: 'desc' },
-    skip: type === 'review' || !type ? skip : 0,
-    take: type === 'review' || !type ? limit : 50,
   });
 
   // Get suspicious jobs (potential spam or inappropriate content)
@@ -575,8 +573,6 @@ export const getFlaggedContent = catchAsync(async (req: AdminAuthRequest, res: R
       },
     },
     orderBy: { createdAt: 'desc' },
-    skip: type === 'job' || !type ? skip : 0,
-    take: type === 'job' || !type ? limit : 20,
   });
 
   // Get contractors with potential issues
@@ -606,8 +602,6 @@ export const getFlaggedContent = catchAsync(async (req: AdminAuthRequest, res: R
       },
     },
     orderBy: { createdAt: 'desc' },
-    skip: type === 'profile' || !type ? skip : 0,
-    take: type === 'profile' || !type ? limit : 10,
   });
 
   // Transform data to match frontend expectations
@@ -684,9 +678,7 @@ export const getFlaggedContent = catchAsync(async (req: AdminAuthRequest, res: R
     return new Date(b.flaggedDate).getTime() - new Date(a.flaggedDate).getTime();
   });
 
-  // Paginate
-  const total = filteredContent.length;
-  const paginatedContent = filteredContent.slice(skip, skip + limit);
+  const { items: paginatedContent, pagination: paginationMeta } = paginateArray(filteredContent, pagination);
 
   // Calculate stats
   const stats = {
@@ -705,12 +697,7 @@ export const getFlaggedContent = catchAsync(async (req: AdminAuthRequest, res: R
     data: {
       content: paginatedContent,
       stats,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -948,19 +935,19 @@ export const moderateContent = catchAsync(async (req: AdminAuthRequest, res: Res
         where: { id },
       });
     } else if (normalizedAction === 'reject') {
-      await prisma.job.update({
-        where: { id },
-        data: {
-          status: 'CANCELLED',
-        },
+      await transitionJobStatus({
+        jobId: id,
+        to: 'CANCELLED',
+        actor: { role: 'ADMIN', id: req.admin!.id },
+        reason: reason || 'Rejected by moderation',
       });
     } else if (normalizedAction === 'approve') {
       // For 'approve', ensure job status is POSTED if it was flagged
-      await prisma.job.update({
-        where: { id },
-        data: {
-          status: oldStatus === 'DRAFT' ? 'POSTED' : oldStatus,
-        },
+      await transitionJobStatus({
+        jobId: id,
+        to: oldStatus === 'DRAFT' ? 'POSTED' : oldStatus,
+        actor: { role: 'ADMIN', id: req.admin!.id },
+        reason,
       });
     }
 
@@ -1128,9 +1115,7 @@ export const updateSystemSettings = catchAsync(async (req: AdminAuthRequest, res
 // @route   GET /api/admin/users
 // @access  Private/Admin
 export const getAllUsers = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
   const { role, status, search } = req.query;
 
   // Build where clause
@@ -1160,11 +1145,10 @@ export const getAllUsers = catchAsync(async (req: AdminAuthRequest, res: Respons
     ];
   }
 
-  const [users, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.user.findMany({
       where: whereClause,
-      skip,
-      take: limit,
+      ...getPrismaPageArgs(pagination),
       select: {
         id: true,
         name: true,
@@ -1192,21 +1176,17 @@ export const getAllUsers = catchAsync(async (req: AdminAuthRequest, res: Respons
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
     }),
-    prisma.user.count({ where: whereClause }),
+    pagination.mode === 'page' ? prisma.user.count({ where: whereClause }) : undefined,
   ]);
+  const { items: users, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       users,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -1337,9 +1317,7 @@ export const getUserById = catchAsync(async (req: AdminAuthRequest, res: Respons
 // @route   GET /api/admin/contractors
 // @access  Private/Admin
 export const getAllContractors = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
   const { status, approved, search } = req.query;
 
   // Build where clause
@@ -1361,11 +1339,10 @@ export const getAllContractors = catchAsync(async (req: AdminAuthRequest, res: R
     ];
   }
 
-  const [contractors, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.contractor.findMany({
       where: whereClause,
-      skip,
-      take: limit,
+      ...getPrismaPageArgs(pagination),
       include: {
         user: {
           select: {
@@ -1421,10 +1398,11 @@ export const getAllContractors = catchAsync(async (req: AdminAuthRequest, res: R
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
     }),
-    prisma.contractor.count({ where: whereClause }),
+    pagination.mode === 'page' ? prisma.contractor.count({ where: whereClause }) : undefined,
   ]);
+  const { items: contractors, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   // Transform contractors to include unpaid commission summary
   const contractorsWithPayments = contractors.map((contractor: any) => {
@@ -1455,12 +1433,7 @@ export const getAllContractors = catchAsync(async (req: AdminAuthRequest, res: R
     status: 'success',
     data: {
       contractors: contractorsWithPayments,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -1760,9 +1733,7 @@ export const getContractorStats = catchAsync(async (req: AdminAuthRequest, res:
 // @route   GET /api/admin/jobs
 // @access  Private/Admin
 export const getAllJobsAdmin = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
   const { status, search, category, flagged } = req.query;
 
   // Build where clause
@@ -1791,7 +1762,7 @@ export const getAllJobsAdmin = catchAsync(async (req: AdminAuthRequest, res: Res
     ];
   }
 
-  const [jobs, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.job.findMany({
       where: whereClause,
       include: {
@@ -1868,34 +1839,20 @@ export const getAllJobsAdmin = catchAsync(async (req: AdminAuthRequest, res: Res
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination),
     }),
-    prisma.job.count({ where: whereClause }),
+    pagination.mode === 'page' ? prisma.job.count({ where: whereClause }) : undefined,
   ]);
+  const { items: jobs, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
-  // Calculate current lead price and transform jobAccess to purchasedBy for each job
+  // Current lead price (size price, override or dynamic price) for each job
+  const leadQuotes = await quoteLeadPrices(jobs.map((job) => ({ ...job, accessCount: job.jobAccess.length })));
+
+  // Transform jobAccess to purchasedBy for each job
   const jobsWithPricing = jobs.map(job => {
-    let currentLeadPrice = 0;
-    
-    // Use override price if set
-    if (job.leadPrice && typeof job.leadPrice.toNumber === 'function') {
-      currentLeadPrice = job.leadPrice.toNumber();
-    } else if (job.service) {
-      // Calculate based on job size and service pricing
-      switch (job.jobSize) {
-        case 'SMALL':
-          currentLeadPrice = job.service.smallJobPrice ? job.service.smallJobPrice.toNumber() : 0;
-          break;
-        case 'MEDIUM':
-          currentLeadPrice = job.service.mediumJobPrice ? job.service.mediumJobPrice.toNumber() : 0;
-          break;
-        case 'LARGE':
-          currentLeadPrice = job.service.largeJobPrice ? job.service.largeJobPrice.toNumber() : 0;
-          break;
-      }
-    }
+    const leadPricing = leadQuotes.get(job.id)!;
+    const currentLeadPrice = leadPricing.price;
 
     // Transform jobAccess to purchasedBy format with contractor details
     const purchasedBy = (job.jobAccess || []).map((access: any) => {
@@ -1924,6 +1881,7 @@ export const getAllJobsAdmin = catchAsync(async (req: AdminAuthRequest, res: Res
     return {
       ...job,
       currentLeadPrice,
+      leadPricing,
       contractorsWithAccess: job.jobAccess?.length || 0,
       purchasedBy,
     };
@@ -1933,12 +1891,7 @@ export const getAllJobsAdmin = catchAsync(async (req: AdminAuthRequest, res: Res
     status: 'success',
     data: {
       jobs: jobsWithPricing,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -1974,10 +1927,12 @@ export const updateJobStatus = catchAsync(async (req: AdminAuthRequest, res: Res
     return next(new AppError('Job not found', 404));
   }
 
-  const updatedJob = await prisma.job.update({
-    where: { id: req.params.id },
+  const updatedJob = await transitionJobStatus({
+    jobId: req.params.id,
+    to: status,
+    actor: { role: 'ADMIN', id: req.admin!.id },
+    reason,
     data: {
-      status: status,
       ...(status === 'COMPLETED' && { completionDate: new Date() }),
     },
     include: {
@@ -2244,8 +2199,7 @@ export const getPaymentStats = catchAsync(async (req: AdminAuthRequest, res: Res
 // @route   GET /api/admin/payments/transactions
 // @access  Private/Admin
 export const getPaymentTransactions = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 20;
+  const pagination = getPagination(req.query, { defaultLimit: 20 });
   const { status, type, search, dateFilter } = req.query;
 
   try {
@@ -2332,11 +2286,11 @@ export const getPaymentTransactions = catchAsync(async (req: AdminAuthRequest, r
       ];
     }
 
-    // Get total count for pagination
-    const total = await prisma.payment.count({ where: whereClause });
+    // Total is only needed in page mode
+    const total = pagination.mode === 'page' ? await prisma.payment.count({ where: whereClause }) : undefined;
 
     // Fetch transactions with relations
-    const payments = await prisma.payment.findMany({
+    const rows = await prisma.payment.findMany({
       where: whereClause,
       include: {
         contractor: {
@@ -2364,10 +2318,10 @@ export const getPaymentTransactions = catchAsync(async (req: AdminAuthRequest, r
           }
         }
       },
-      orderBy: { createdAt: 'desc' },
-      skip: (page - 1) * limit,
-      take: limit
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination),
     });
+    const { items: payments, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
     // Transform to match frontend interface
     const paginatedTransactions = payments.map(payment => {
@@ -2403,12 +2357,7 @@ export const getPaymentTransactions = catchAsync(async (req: AdminAuthRequest, r
       status: 'success',
       data: {
         transactions: paginatedTransactions,
-        pagination: {
-          page,
-          limit,
-          total,
-          pages: Math.ceil(total / limit),
-        },
+        pagination: paginationMeta,
       },
     });
   } catch (error) {
@@ -2417,150 +2366,56 @@ export const getPaymentTransactions = catchAsync(async (req: AdminAuthRequest, r
   }
 });
 
-// @desc    Process refund for a payment
+// @desc    Refund all or part of a payment
 // @route   POST /api/admin/payments/:id/refund
 // @access  Private/Admin
 export const processRefund = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const { amount, reason } = req.body;
+  const { amount, reasonCode, reason, issueCreditNote } = req.body;
   const paymentId = req.params.id;
 
-  if (!reason || !reason.trim()) {
-    return next(new AppError('A reason for the refund is required', 400));
-  }
-
-  // 1. Look up the payment record
-  const payment = await prisma.payment.findUnique({
-    where: { id: paymentId },
-    include: {
-      contractor: {
-        include: { user: { select: { name: true, email: true } } },
-      },
-      job: { select: { id: true, title: true } },
-    },
-  });
-
-  if (!payment) {
-    return next(new AppError('Payment not found', 404));
-  }
-
-  if (payment.status === 'REFUNDED') {
-    return next(new AppError('This payment has already been refunded', 400));
-  }
-
-  if (payment.status !== 'COMPLETED') {
-    return next(new AppError(`Cannot refund a payment with status "${payment.status}". Only completed payments can be refunded.`, 400));
-  }
-
-  if (!payment.stripePaymentId) {
-    return next(new AppError('This payment does not have a Stripe payment ID and cannot be refunded through Stripe', 400));
-  }
-
-  // 2. Determine refund amount (full or partial)
-  const paymentAmount = typeof (payment.amount as any)?.toNumber === 'function'
-    ? (payment.amount as any).toNumber()
-    : Number(payment.amount);
-
-  const refundAmount = amount && Number(amount) > 0
-    ? Math.min(Number(amount), paymentAmount)  // Partial refund capped at payment amount
-    : paymentAmount;                            // Full refund
-
-  if (refundAmount <= 0) {
-    return next(new AppError('Refund amount must be greater than zero', 400));
-  }
-
-  // 3. Call Stripe Refunds API
-  let stripeRefund;
-  try {
-    const Stripe = (await import('stripe')).default;
-    const stripeKey = process.env.STRIPE_SECRET_KEY;
-    if (!stripeKey) {
-      return next(new AppError('Stripe is not configured', 500));
+  let refundAmount: number | undefined;
+  if (amount !== undefined && amount !== null && amount !== '') {
+    refundAmount = Number(amount);
+    if (!Number.isFinite(refundAmount) || refundAmount <= 0) {
+      return next(new AppError('Refund amount must be greater than zero', 400));
     }
-    const stripe = new Stripe(stripeKey, { apiVersion: '2023-10-16' });
-
-    stripeRefund = await stripe.refunds.create({
-      payment_intent: payment.stripePaymentId,
-      amount: Math.round(refundAmount * 100), // Stripe expects pence/cents
-      reason: 'requested_by_customer',
-      metadata: {
-        adminId: req.admin!.id,
-        adminName: req.admin!.name,
-        internalReason: reason,
-        originalPaymentId: payment.id,
-      },
-    });
-  } catch (stripeError: any) {
-    console.error('Stripe refund error:', stripeError);
-    return next(new AppError(`Stripe refund failed: ${stripeError.message}`, 400));
   }
 
-  // 4. Update the local payment record
-  const isFullRefund = refundAmount >= paymentAmount;
-
-  const updatedPayment = await prisma.payment.update({
-    where: { id: paymentId },
-    data: {
-      status: isFullRefund ? 'REFUNDED' : 'COMPLETED', // Keep COMPLETED for partial
-      description: isFullRefund
-        ? `${payment.description} [REFUNDED: ${reason}]`
-        : `${payment.description} [PARTIAL REFUND £${refundAmount.toFixed(2)}: ${reason}]`,
-    },
+  const { refund, approvalRequired } = await requestRefund({
+    paymentId,
+    amount: refundAmount,
+    reasonCode: parseRefundReason(reasonCode),
+    notes: typeof reason === 'string' ? reason : undefined,
+    issueCreditNote: issueCreditNote === true,
+    admin: req.admin!,
   });
 
-  // 5. Log the admin action in the activity log
+  const refundLabel = `${REFUND_REASON_LABELS[refund.reasonCode]}${refund.notes ? `: ${refund.notes}` : ''}`;
   await logActivity({
     adminId: req.admin!.id,
-    action: 'PAYMENT_REFUND',
+    action: approvalRequired ? 'PAYMENT_REFUND_REQUESTED' : 'PAYMENT_REFUND',
     entityType: 'Payment',
-    entityId: payment.id,
-    description: `${isFullRefund ? 'Full' : 'Partial'} refund of £${refundAmount.toFixed(2)} processed for payment ${payment.id}. Reason: ${reason}. Stripe refund: ${stripeRefund.id}`,
+    entityId: paymentId,
+    description: approvalRequired
+      ? `Refund of £${Number(refund.amount).toFixed(2)} requested for payment ${paymentId}, awaiting approval. Reason: ${refundLabel}`
+      : `Refund of £${Number(refund.amount).toFixed(2)} processed for payment ${paymentId}. Reason: ${refundLabel}. Stripe refund: ${refund.stripeRefundId}`,
     diff: {
-      before: { status: payment.status, amount: paymentAmount },
-      after: { status: updatedPayment.status, refundAmount, stripeRefundId: stripeRefund.id },
+      refundId: refund.id,
+      amount: Number(refund.amount),
+      reasonCode: refund.reasonCode,
+      status: refund.status,
+      stripeRefundId: refund.stripeRefundId,
     },
     ipAddress: getClientIp(req),
     userAgent: getClientUserAgent(req),
   });
 
-  // 6. Send notification to the contractor (best-effort)
-  try {
-    if (payment.contractor?.user) {
-      const { createNotification } = await import('../services/notificationService');
-      const contractorUserId = await prisma.contractor.findUnique({
-        where: { id: payment.contractorId! },
-        select: { userId: true },
-      });
-      if (contractorUserId) {
-        await createNotification({
-          userId: contractorUserId.userId,
-          title: 'Payment Refunded',
-          message: `A refund of £${refundAmount.toFixed(2)} has been issued for: ${payment.description}. Reason: ${reason}`,
-          type: 'INFO',
-          actionLink: '/dashboard/contractor/invoices',
-          actionText: 'View Invoices',
-        });
-      }
-    }
-  } catch (notifError) {
-    console.error('Failed to send refund notification:', notifError);
-  }
-
-  res.status(200).json({
+  res.status(approvalRequired ? 202 : 200).json({
     status: 'success',
-    message: `${isFullRefund ? 'Full' : 'Partial'} refund of £${refundAmount.toFixed(2)} processed successfully`,
-    data: {
-      refund: {
-        id: stripeRefund.id,
-        paymentId: payment.id,
-        amount: refundAmount,
-        reason,
-        status: stripeRefund.status,
-        isFullRefund,
-        stripeRefundId: stripeRefund.id,
-        processedBy: req.admin!.name,
-        createdAt: new Date().toISOString(),
-      },
-    },
+    message: approvalRequired
+      ? `Refund of £${Number(refund.amount).toFixed(2)} is over the approval limit and is waiting for a second finance admin`
+      : `Refund of £${Number(refund.amount).toFixed(2)} processed successfully`,
+    data: { refund, approvalRequired },
   });
 });
 
@@ -2776,9 +2631,7 @@ export const updateService = catchAsync(async (req: AdminAuthRequest, res: Respo
 // @access  Private/Admin
 export const searchContractorsForCredits = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
   const { query } = req.query;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   const where: any = {};
 
@@ -2790,7 +2643,7 @@ export const searchContractorsForCredits = catchAsync(async (req: AdminAuthReque
     ];
   }
 
-  const contractors = await prisma.contractor.findMany({
+  const rows = await prisma.contractor.findMany({
     where,
     include: {
       user: {
@@ -2801,23 +2654,18 @@ export const searchContractorsForCredits = catchAsync(async (req: AdminAuthReque
         },
       },
     },
-    skip,
-    take: limit,
-    orderBy: { createdAt: 'desc' },
+    ...getPrismaPageArgs(pagination),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
   });
 
-  const total = await prisma.contractor.count({ where });
+  const total = pagination.mode === 'page' ? await prisma.contractor.count({ where }) : undefined;
+  const { items: contractors, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       contractors,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -2899,8 +2747,12 @@ export const adjustContractorCredits = catchAsync(async (req: AdminAuthRequest,
       },
     });
 
+    if (type === 'DEDUCTION') {
+      await trimPurchasedCredits(tx, id);
+    }
+
     // Create transaction record
-    await tx.creditTransaction.create({
+    const creditTransaction = await tx.creditTransaction.create({
       data: {
         contractorId: id,
         type,
@@ -2909,6 +2761,7 @@ export const adjustContractorCredits = catchAsync(async (req: AdminAuthRequest,
         adminUserId: req.admin!.id,
       },
     });
+    await recordCreditTransaction(tx, creditTransaction);
   });
 
   // Log the admin action to activity log
@@ -3025,9 +2878,7 @@ export const getPaymentOverview = catchAsync(async (req: AdminAuthRequest, res:
 // @route   GET /api/admin/reviews
 // @access  Private/Admin
 export const getAllReviewsAdmin = catchAsync(async (req: AdminAuthRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 20;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, { defaultLimit: 20 });
   const { status, rating, search } = req.query;
 
   const where: any = {};
@@ -3042,31 +2893,26 @@ export const getAllReviewsAdmin = catchAsync(async (req: AdminAuthRequest, res:
     ];
   }
 
-  const [reviews, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.review.findMany({
       where,
-      skip,
-      take: limit,
+      ...getPrismaPageArgs(pagination),
       include: {
         customer: { include: { user: true } },
         contractor: { include: { user: true } },
         job: { select: { title: true } },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
     }),
-    prisma.review.count({ where }),
+    pagination.mode === 'page' ? prisma.review.count({ where }) : undefined,
   ]);
+  const { items: reviews, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       reviews,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -3563,9 +3409,7 @@ export const getAllConversations = catchAsync(async (req: AdminAuthRequest, res:
     return next(new AppError('Admin user mapping not found for messaging. Ensure an ADMIN user exists with this email.', 500));
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 50;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, { defaultLimit: 50 });
   const { role, search } = req.query;
 
   // Build where clause - only messages involving this admin
@@ -3608,7 +3452,7 @@ export const getAllConversations = catchAsync(async (req: AdminAuthRequest, res:
   }
 
   // Get all messages with pagination
-  const [messagesData, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.message.findMany({
       where: whereClause,
       include: {
@@ -3653,12 +3497,12 @@ export const getAllConversations = catchAsync(async (req: AdminAuthRequest, res:
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination),
     }),
-    prisma.message.count({ where: whereClause }),
+    pagination.mode === 'page' ? prisma.message.count({ where: whereClause }) : undefined,
   ]);
+  const { items: messagesData, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   // Group messages by conversation (unique pairs of admin and user)
   // Each admin has separate conversations with each user
@@ -3718,12 +3562,7 @@ export const getAllConversations = catchAsync(async (req: AdminAuthRequest, res:
     status: 'success',
     data: {
       conversations,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -4412,14 +4251,15 @@ router.get('/jobs/missing-commissions', requirePermission(AdminPermission.JOBS_R
     include: {
       customer: { include: { user: { select: { name: true, email: true } } } },
       wonByContractor: { include: { user: { select: { name: true, email: true } } } },
-      commissionPayment: { select: { id: true, status: true } },
+      // Stage commissions don't count, the final price still needs its own
+      commissionPayments: { where: { milestoneId: null }, select: { id: true, status: true } },
     },
     orderBy: { completionDate: 'desc' },
     take: 100,
   });
 
   // Filter to only those without any commission payment record
-  const missingCommissionJobs = jobs.filter(j => !j.commissionPayment);
+  const missingCommissionJobs = jobs.filter(j => j.commissionPayments.length === 0);
 
   res.status(200).json({
     status: 'success',
@@ -4551,7 +4391,7 @@ export const manualOverrideCommission = catchAsync(async (req: AdminAuthRequest,
     });
 
     // 2c. Create a Payment record so it shows in the transactions ledger
-    await tx.payment.create({
+    const payment = await tx.payment.create({
       data: {
         contractorId: commission.contractorId,
         amount: commission.totalAmount,
@@ -4561,6 +4401,7 @@ export const manualOverrideCommission = catchAsync(async (req: AdminAuthRequest,
         description: `Commission for job: ${commission.job.title} [MANUAL OVERRIDE by ${req.admin!.name}: ${reason}]`,
       },
     });
+    await recordPaymentReceived(tx, payment);
   });
 
   // 3. Log the admin action in the audit log
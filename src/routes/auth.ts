@@ -6,6 +6,7 @@ import { prisma } from '../config/database';
 import { AppError, catchAsync } from '../middleware/errorHandler';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { getFreeJobAllocation } from '../services/settingsService';
+import { recordCreditTransaction } from '../services/ledgerService';
 
 const router = express.Router();
 
@@ -248,7 +249,7 @@ export const register = catchAsync(async (req: express.Request, res: express.Res
 
     // Create credit transaction record for the free trial credits
     if (freeCredits > 0) {
-      await prisma.creditTransaction.create({
+      const welcomeBonus = await prisma.creditTransaction.create({
         data: {
           contractorId: newContractor.id,
           amount: freeCredits,
@@ -256,6 +257,7 @@ export const register = catchAsync(async (req: express.Request, res: express.Res
           description: `Free trial credit${freeCredits > 1 ? 's' : ''} - new contractor welcome bonus (valid for small jobs only)`,
         },
       });
+      await recordCreditTransaction(prisma, welcomeBonus);
     }
 
     // Send welcome email to contractor
@@ -2,6 +2,7 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 import { protect, AuthenticatedRequest, restrictTo } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, paginateArray } from '../utils/pagination';
 import { getSubscriptionPricing } from '../services/subscriptionService';
 import Stripe from 'stripe';
 
@@ -445,9 +446,7 @@ export const cancelSubscription = catchAsync(async (req: AuthenticatedRequest, r
 // @access  Private (Contractor only)
 export const getInvoices = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const userId = req.user!.id;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   // Get contractor profile
   const contractor = await prisma.contractor.findUnique({
@@ -583,47 +582,14 @@ export const getInvoices = catchAsync(async (req: AuthenticatedRequest, res: Res
   const allInvoices = [...formattedRegularInvoices, ...formattedCommissionInvoices, ...formattedManualInvoices];
   allInvoices.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
-  // Count totals for pagination (using the same filters as queries)
-  const totalRegularInvoices = await prisma.invoice.count({
-    where: {
-      payments: {
-        some: {
-          contractorId: contractor.id,
-        },
-      },
-    },
-  });
-  
-  const totalCommissionInvoices = await prisma.commissionInvoice.count({
-    where: {
-      commissionPayment: {
-        contractorId: contractor.id,
-      },
-    },
-  });
-
-  const totalManualInvoices = await prisma.manualInvoice.count({
-    where: {
-      contractorId: contractor.id,
-      status: { not: 'CANCELED' }, // Count all invoices except canceled ones
-    },
-  });
-  
-  const total = totalRegularInvoices + totalCommissionInvoices + totalManualInvoices;
-
-  // Apply pagination after combining and sorting
-  const paginatedInvoices = allInvoices.slice(skip, skip + limit);
+  // The three kinds of invoice are merged, so the page is cut from the combined list
+  const { items: paginatedInvoices, pagination: paginationMeta } = paginateArray(allInvoices, pagination);
 
   res.status(200).json({
     status: 'success',
     data: {
       invoices: paginatedInvoices,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -2,9 +2,63 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 import { protect, restrictTo, AuthenticatedRequest } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
+import { lookupPostcodeCentroid, normalisePostcode, MAX_TRAVEL_RADIUS_MILES } from '../services/geoService';
+import {
+  MAX_UPCOMING_UNAVAILABILITY,
+  isAtCapacity,
+  isOnHoliday,
+  loadContractorAvailability,
+  parseMaxConcurrentJobs,
+  parseUnavailabilityInput,
+} from '../services/contractorAvailabilityService';
+import { getWeeklyResetBalance } from '../services/creditBundleService';
+import { recordCreditReset, recordCreditTransaction } from '../services/ledgerService';
+import { createConnectOnboardingLink, getConnectAccountStatus } from '../services/escrowService';
+import {
+  createCardSetupIntent,
+  listPaymentMethods,
+  removePaymentMethod,
+  setCommissionAutoPay,
+  setDefaultPaymentMethod,
+} from '../services/paymentMethodService';
 
 const router = Router();
 
+/**
+ * Validate base postcode / travel radius input and build the contractor fields to store.
+ * Returns an AppError for unrecognised postcodes or out-of-range radii.
+ */
+function buildServiceAreaData(basePostcode: unknown, travelRadiusMiles: unknown): Record<string, unknown> | AppError {
+  const data: Record<string, unknown> = {};
+
+  if (basePostcode !== undefined) {
+    if (basePostcode === null || basePostcode === '') {
+      data.basePostcode = null;
+      data.baseLatitude = null;
+      data.baseLongitude = null;
+    } else {
+      const location = lookupPostcodeCentroid(String(basePostcode));
+      if (!location) {
+        return new AppError('Base postcode is not a recognised UK postcode', 400);
+      }
+      data.basePostcode = normalisePostcode(String(basePostcode));
+      data.baseLatitude = location.latitude;
+      data.baseLongitude = location.longitude;
+    }
+  }
+
+  if (travelRadiusMiles !== undefined) {
+    const radius = Number(travelRadiusMiles);
+    if (!Number.isInteger(radius) || radius < 1 || radius > MAX_TRAVEL_RADIUS_MILES) {
+      return new AppError(`Travel radius must be a whole number of miles between 1 and ${MAX_TRAVEL_RADIUS_MILES}`, 400);
+    }
+    data.travelRadiusMiles = radius;
+  }
+
+  return data;
+}
+
 // @desc    Get all contractors (public)
 // @route   GET /api/contractors
 // @access  Public (but restricted for CUSTOMER role)
@@ -15,10 +69,8 @@ export const getAllContractors = catchAsync(async (req: AuthenticatedRequest, re
     return next(new AppError('Customers cannot browse all contractors. You can view contractors who apply to your jobs.', 403));
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-  
+  const pagination = getPagination(req.query);
+
   const { city, service, rating, search, tier, featured } = req.query;
 
   // Build filter conditions
@@ -59,10 +111,9 @@ export const getAllContractors = catchAsync(async (req: AuthenticatedRequest, re
     where.featuredContractor = true;
   }
 
-  const contractors = await prisma.contractor.findMany({
+  const rows = await prisma.contractor.findMany({
     where,
-    skip,
-    take: limit,
+    ...getPrismaPageArgs(pagination),
     include: {
       user: {
         select: {
@@ -84,21 +135,18 @@ export const getAllContractors = catchAsync(async (req: AuthenticatedRequest, re
       { featuredContractor: 'desc' },
       { averageRating: 'desc' },
       { createdAt: 'desc' },
+      { id: 'desc' },
     ],
   });
 
-  const total = await prisma.contractor.count({ where });
+  const total = pagination.mode === 'page' ? await prisma.contractor.count({ where }) : undefined;
+  const { items: contractors, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       contractors,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -214,8 +262,17 @@ export const createContractorProfile = catchAsync(async (req: AuthenticatedReque
     preferredClients,
     usesContracts,
     services,
+    basePostcode,
+    travelRadiusMiles,
   } = req.body;
 
+  // Default the service area to the business postcode when it geocodes and no base postcode is given
+  const defaultBasePostcode = basePostcode === undefined && lookupPostcodeCentroid(postcode) ? postcode : basePostcode;
+  const serviceArea = buildServiceAreaData(defaultBasePostcode, travelRadiusMiles);
+  if (serviceArea instanceof AppError) {
+    return next(serviceArea);
+  }
+
   let linkedServicesProvided = servicesProvided;
   const serviceIds = Array.isArray(services)
     ? services.filter((id: string) => typeof id === 'string' && id.length > 0)
@@ -236,58 +293,65 @@ export const createContractorProfile = catchAsync(async (req: AuthenticatedReque
 
   // Create contractor profile with free credits from admin setting
   // STANDARD tier contractors don't get weekly credits (weeklyCreditsLimit = 0)
-  const contractor = await prisma.contractor.create({
-    data: {
-      userId: req.user!.id,
-      businessName,
-      description,
-      businessAddress,
-      city,
-      postcode,
-      phone,
-      website,
-      instagramHandle,
-      operatingArea,
-      servicesProvided: linkedServicesProvided,
-      yearsExperience,
-      logoUrl,
-      workSetup,
-      providesWarranty,
-      warrantyPeriod,
-      unsatisfiedCustomers,
-      preferredClients,
-      usesContracts,
-      creditsBalance: freeCredits, // Use admin setting for free credits
-      weeklyCreditsLimit: 0, // Non-subscribed contractors don't get weekly credits
-      lastCreditReset: null,
-      hasUsedFreeTrial: false, // Track if they've used their free credits
-      services: serviceIds.length > 0 ? {
-        connect: serviceIds.map((serviceId: string) => ({ id: serviceId })),
-      } : undefined,
-    },
-    include: {
-      user: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-        },
-      },
-      services: true,
-    },
-  });
-
-  // Create credit transaction record for the free trial credits
-  if (freeCredits > 0) {
-    await prisma.creditTransaction.create({
+  // The starting balance, its welcome bonus record and ledger entry commit together
+  const contractor = await prisma.$transaction(async (tx) => {
+    const created = await tx.contractor.create({
       data: {
-        contractorId: contractor.id,
-        amount: freeCredits,
-        type: 'BONUS',
-        description: `Free trial credit${freeCredits > 1 ? 's' : ''} - new contractor welcome bonus (valid for small jobs only)`,
+        userId: req.user!.id,
+        businessName,
+        description,
+        businessAddress,
+        city,
+        postcode,
+        phone,
+        website,
+        instagramHandle,
+        operatingArea,
+        servicesProvided: linkedServicesProvided,
+        yearsExperience,
+        logoUrl,
+        workSetup,
+        providesWarranty,
+        warrantyPeriod,
+        unsatisfiedCustomers,
+        preferredClients,
+        usesContracts,
+        ...serviceArea,
+        creditsBalance: freeCredits, // Use admin setting for free credits
+        weeklyCreditsLimit: 0, // Non-subscribed contractors don't get weekly credits
+        lastCreditReset: null,
+        hasUsedFreeTrial: false, // Track if they've used their free credits
+        services: serviceIds.length > 0 ? {
+          connect: serviceIds.map((serviceId: string) => ({ id: serviceId })),
+        } : undefined,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        services: true,
       },
     });
-  }
+
+    // Create credit transaction record for the free trial credits
+    if (freeCredits > 0) {
+      const welcomeBonus = await tx.creditTransaction.create({
+        data: {
+          contractorId: created.id,
+          amount: freeCredits,
+          type: 'BONUS',
+          description: `Free trial credit${freeCredits > 1 ? 's' : ''} - new contractor welcome bonus (valid for small jobs only)`,
+        },
+      });
+      await recordCreditTransaction(tx, welcomeBonus);
+    }
+
+    return created;
+  });
 
   res.status(201).json({
     status: 'success',
@@ -330,8 +394,17 @@ export const updateMyProfile = catchAsync(async (req: AuthenticatedRequest, res:
     preferredClients,
     usesContracts,
     services,
+    basePostcode,
+    travelRadiusMiles,
   } = req.body;
 
+  const serviceArea = buildServiceAreaData(basePostcode, travelRadiusMiles);
+  if (serviceArea instanceof AppError) {
+    return next(serviceArea);
+  }
+
+  const maxConcurrentJobs = parseMaxConcurrentJobs(req.body.maxConcurrentJobs);
+
   let syncedServicesProvided = servicesProvided;
   if (Array.isArray(services) && services.length > 0) {
     const serviceRecords = await prisma.service.findMany({
@@ -364,6 +437,8 @@ export const updateMyProfile = catchAsync(async (req: AuthenticatedRequest, res:
       ...(unsatisfiedCustomers !== undefined && { unsatisfiedCustomers }),
       ...(preferredClients !== undefined && { preferredClients }),
       ...(usesContracts !== undefined && { usesContracts }),
+      ...serviceArea,
+      ...(maxConcurrentJobs !== undefined && { maxConcurrentJobs }),
       ...(services && {
         services: {
           set: services.map((serviceId: string) => ({ id: serviceId })),
@@ -410,6 +485,10 @@ export const getMyProfile = catchAsync(async (req: AuthenticatedRequest, res: Re
       portfolio: {
         orderBy: { createdAt: 'desc' },
       },
+      unavailability: {
+        where: { endsAt: { gt: new Date() } },
+        orderBy: { startsAt: 'asc' },
+      },
       applications: {
         include: {
           job: {
@@ -793,6 +872,100 @@ export const deletePortfolioItem = catchAsync(async (req: AuthenticatedRequest,
   });
 });
 
+// @desc    Get my capacity and upcoming unavailability
+// @route   GET /api/contractors/me/availability
+// @access  Private (Contractor only)
+export const getMyAvailability = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const [availability, periods] = await Promise.all([
+    loadContractorAvailability([contractor.id]),
+    prisma.contractorUnavailability.findMany({
+      where: { contractorId: contractor.id, endsAt: { gt: new Date() } },
+      orderBy: { startsAt: 'asc' },
+    }),
+  ]);
+  const summary = availability.get(contractor.id)!;
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      maxConcurrentJobs: summary.maxConcurrentJobs,
+      activeJobCount: summary.activeJobCount,
+      atCapacity: isAtCapacity(summary),
+      onHoliday: isOnHoliday(summary.periods),
+      periods,
+    },
+  });
+});
+
+// @desc    Add a busy period or holiday
+// @route   POST /api/contractors/me/availability/periods
+// @access  Private (Contractor only)
+export const addUnavailability = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const data = parseUnavailabilityInput(req.body);
+
+  const upcomingCount = await prisma.contractorUnavailability.count({
+    where: { contractorId: contractor.id, endsAt: { gt: new Date() } },
+  });
+  if (upcomingCount >= MAX_UPCOMING_UNAVAILABILITY) {
+    return next(new AppError(`You can have at most ${MAX_UPCOMING_UNAVAILABILITY} upcoming periods. Please remove some first.`, 400));
+  }
+
+  const period = await prisma.contractorUnavailability.create({
+    data: { ...data, contractorId: contractor.id },
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: { period },
+    message: data.type === 'HOLIDAY' ? 'Holiday added - new job alerts are paused while you are away' : 'Busy period added',
+  });
+});
+
+// @desc    Remove a busy period or holiday
+// @route   DELETE /api/contractors/me/availability/periods/:periodId
+// @access  Private (Contractor only)
+export const deleteUnavailability = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const deleted = await prisma.contractorUnavailability.deleteMany({
+    where: { id: req.params.periodId, contractorId: contractor.id },
+  });
+
+  if (deleted.count === 0) {
+    return next(new AppError('Period not found', 404));
+  }
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Period removed',
+  });
+});
+
 // @desc    Approve contractor (Admin only)
 // @route   PATCH /api/contractors/:id/approve
 // @access  Private/Admin
@@ -861,34 +1034,43 @@ export const resetWeeklyCredits = catchAsync(async (req: AuthenticatedRequest, r
     let resetCount = 0;
 
     for (const contractor of contractorsToReset) {
-      // Get current balance before reset
-      const currentBalance = contractor.creditsBalance;
-      
-      // Reset credits to weekly limit
-      const updatedContractor = await prisma.contractor.update({
-        where: { id: contractor.id },
-        data: {
-          creditsBalance: contractor.weeklyCreditsLimit, // Reset to weekly limit (3)
-          lastCreditReset: new Date()
-        }
-      });
-
-
+      const resetAt = new Date();
+
+      // The balance write, its ledger entry and the log commit together
+      await prisma.$transaction(async (tx) => {
+        // Get current balance before reset
+        const before = await tx.contractor.findUnique({
+          where: { id: contractor.id },
+          select: { creditsBalance: true },
+        });
+        const currentBalance = before?.creditsBalance ?? 0;
 
-      // Calculate the actual amount added (to handle cases where contractor already had some credits)
-      const amountAdded = Math.max(0, contractor.weeklyCreditsLimit - currentBalance);
-      
-      if (amountAdded > 0) {
-        // Only create a transaction if credits were actually added
-        await prisma.creditTransaction.create({
+        // Reset credits to weekly limit, keeping any unspent purchased credits
+        const resetBalance = await getWeeklyResetBalance(contractor.id, contractor.weeklyCreditsLimit, tx);
+        await tx.contractor.update({
+          where: { id: contractor.id },
           data: {
-            contractorId: contractor.id,
-            type: 'WEEKLY_ALLOCATION',
-            amount: amountAdded, // Only log the net increase
-            description: 'Weekly credit reset'
+            creditsBalance: resetBalance,
+            lastCreditReset: resetAt
           }
         });
-      }
+        await recordCreditReset(tx, { contractorId: contractor.id, before: currentBalance, after: resetBalance, resetAt });
+
+        // Calculate the actual amount added (to handle cases where contractor already had some credits)
+        const amountAdded = Math.max(0, resetBalance - currentBalance);
+
+        if (amountAdded > 0) {
+          // Only create a transaction if credits were actually added
+          await tx.creditTransaction.create({
+            data: {
+              contractorId: contractor.id,
+              type: 'WEEKLY_ALLOCATION',
+              amount: amountAdded, // Only log the net increase
+              description: 'Weekly credit reset'
+            }
+          });
+        }
+      });
 
       resetCount++;
     }
@@ -964,40 +1146,49 @@ export const checkAndResetCredits = catchAsync(async (req: AuthenticatedRequest,
   }
 
   if (shouldReset) {
-    // Get current balance before reset for logging
-    const currentBalance = contractor.creditsBalance;
-    
-    // Reset credits to weekly limit
-    const updatedContractor = await prisma.contractor.update({
-      where: { id: contractor.id },
-      data: {
-        creditsBalance: contractor.weeklyCreditsLimit,
-        lastCreditReset: now
-      }
-    });
-
-
+    // The balance write, its ledger entry and the log commit together
+    const resetBalance = await prisma.$transaction(async (tx) => {
+      // Get current balance before reset for logging
+      const before = await tx.contractor.findUnique({
+        where: { id: contractor.id },
+        select: { creditsBalance: true },
+      });
+      const currentBalance = before?.creditsBalance ?? 0;
 
-    // Calculate the actual amount added (to handle cases where contractor already had some credits)
-    const amountAdded = Math.max(0, contractor.weeklyCreditsLimit - currentBalance);
-    
-    if (amountAdded > 0) {
-      // Only create a transaction if credits were actually added
-      await prisma.creditTransaction.create({
+      // Reset credits to weekly limit, keeping any unspent purchased credits
+      const balance = await getWeeklyResetBalance(contractor.id, contractor.weeklyCreditsLimit, tx);
+      await tx.contractor.update({
+        where: { id: contractor.id },
         data: {
-          contractorId: contractor.id,
-          type: 'WEEKLY_ALLOCATION',
-          amount: amountAdded, // Only log the net increase
-          description: 'Weekly credit reset'
+          creditsBalance: balance,
+          lastCreditReset: now
         }
       });
-    }
+      await recordCreditReset(tx, { contractorId: contractor.id, before: currentBalance, after: balance, resetAt: now });
+
+      // Calculate the actual amount added (to handle cases where contractor already had some credits)
+      const amountAdded = Math.max(0, balance - currentBalance);
+
+      if (amountAdded > 0) {
+        // Only create a transaction if credits were actually added
+        await tx.creditTransaction.create({
+          data: {
+            contractorId: contractor.id,
+            type: 'WEEKLY_ALLOCATION',
+            amount: amountAdded, // Only log the net increase
+            description: 'Weekly credit reset'
+          }
+        });
+      }
+
+      return balance;
+    });
 
     res.status(200).json({
       status: 'success',
       data: {
         creditsReset: true,
-        newBalance: contractor.weeklyCreditsLimit,
+        newBalance: resetBalance,
         message: 'Credits have been reset for this week'
       }
     });
@@ -1063,23 +1254,36 @@ export const initializeContractorCredits = catchAsync(async (req: AuthenticatedR
   const updates = [];
   
   for (const contractor of contractorsNeedingCredits) {
-    // Update contractor with initial credits
-    await prisma.contractor.update({
-      where: { id: contractor.id },
-      data: {
-        creditsBalance: contractor.weeklyCreditsLimit,
-        lastCreditReset: new Date()
-      }
-    });
-
-    // Create credit transaction record
-    await prisma.creditTransaction.create({
-      data: {
+    const resetAt = new Date();
+    await prisma.$transaction(async (tx) => {
+      // Update contractor with initial credits
+      const before = await tx.contractor.findUnique({
+        where: { id: contractor.id },
+        select: { creditsBalance: true },
+      });
+      const initialised = await tx.contractor.update({
+        where: { id: contractor.id },
+        data: {
+          creditsBalance: await getWeeklyResetBalance(contractor.id, contractor.weeklyCreditsLimit, tx),
+          lastCreditReset: resetAt
+        }
+      });
+      await recordCreditReset(tx, {
         contractorId: contractor.id,
-        type: 'WEEKLY_ALLOCATION',
-        amount: contractor.weeklyCreditsLimit,
-        description: 'Credit initialization - admin fix'
-      }
+        before: before?.creditsBalance ?? 0,
+        after: initialised.creditsBalance,
+        resetAt,
+      });
+
+      // Create credit transaction record
+      await tx.creditTransaction.create({
+        data: {
+          contractorId: contractor.id,
+          type: 'WEEKLY_ALLOCATION',
+          amount: contractor.weeklyCreditsLimit,
+          description: 'Credit initialization - admin fix'
+        }
+      });
     });
 
     updates.push({
@@ -1212,6 +1416,165 @@ export const getFeaturedContractors = catchAsync(async (req: AuthenticatedReques
   });
 });
 
+// @desc    Get a Stripe onboarding link for receiving job payments
+// @route   POST /api/contractors/me/stripe-connect/onboarding-link
+// @access  Private (Contractor only)
+export const getStripeConnectOnboardingLink = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const link = await createConnectOnboardingLink(contractor.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: link,
+  });
+});
+
+// @desc    Check whether the contractor's Stripe account can receive job payments
+// @route   GET /api/contractors/me/stripe-connect/status
+// @access  Private (Contractor only)
+export const getStripeConnectStatus = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const status = await getConnectAccountStatus(contractor.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: status,
+  });
+});
+
+// @desc    List the contractor's saved cards and whether commissions are auto-paid
+// @route   GET /api/contractors/me/payment-methods
+// @access  Private (Contractor only)
+export const getMyPaymentMethods = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true, stripeCustomerInfo: { select: { autoPayCommissions: true } } },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const paymentMethods = await listPaymentMethods(contractor.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      paymentMethods,
+      autoPayCommissions: contractor.stripeCustomerInfo?.autoPayCommissions ?? false,
+    },
+  });
+});
+
+// @desc    Start saving a card (confirm the returned SetupIntent with Stripe.js)
+// @route   POST /api/contractors/me/payment-methods/setup-intent
+// @access  Private (Contractor only)
+export const createPaymentMethodSetupIntent = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const setupIntent = await createCardSetupIntent(contractor.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: setupIntent,
+  });
+});
+
+// @desc    Make a saved card the default
+// @route   PATCH /api/contractors/me/payment-methods/:paymentMethodId/default
+// @access  Private (Contractor only)
+export const setMyDefaultPaymentMethod = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const paymentMethods = await setDefaultPaymentMethod(contractor.id, req.params.paymentMethodId);
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Default card updated',
+    data: { paymentMethods },
+  });
+});
+
+// @desc    Remove a saved card
+// @route   DELETE /api/contractors/me/payment-methods/:paymentMethodId
+// @access  Private (Contractor only)
+export const removeMyPaymentMethod = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const paymentMethods = await removePaymentMethod(contractor.id, req.params.paymentMethodId);
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Card removed',
+    data: { paymentMethods },
+  });
+});
+
+// @desc    Turn paying commissions automatically on their due date on or off
+// @route   PATCH /api/contractors/me/commission-auto-pay
+// @access  Private (Contractor only)
+export const updateCommissionAutoPay = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { enabled } = req.body;
+
+  if (typeof enabled !== 'boolean') {
+    return next(new AppError('enabled must be true or false', 400));
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const result = await setCommissionAutoPay(contractor.id, enabled);
+
+  res.status(200).json({
+    status: 'success',
+    message: enabled ? 'Commissions will be paid automatically on their due date' : 'Commission auto-pay turned off',
+    data: result,
+  });
+});
+
 // Routes
 router.get('/featured', getFeaturedContractors); // Must be before '/:id' route
 router.get('/', getAllContractors);
@@ -1222,11 +1585,21 @@ router.delete('/me', protect, deleteMyProfile);
 router.post('/me/portfolio', protect, addPortfolioItem);
 router.patch('/me/portfolio/:itemId', protect, updatePortfolioItem);
 router.delete('/me/portfolio/:itemId', protect, deletePortfolioItem);
+router.get('/me/availability', protect, getMyAvailability);
+router.post('/me/availability/periods', protect, addUnavailability);
+router.delete('/me/availability/periods/:periodId', protect, deleteUnavailability);
 router.patch('/:id/approve', protect, approveContractor);
 router.get('/:id', getContractor);
 router.post('/reset-weekly-credits', protect, resetWeeklyCredits);
 router.post('/me/check-credit-reset', protect, checkAndResetCredits);
 router.post('/admin/initialize-credits', protect, restrictTo('ADMIN'), initializeContractorCredits);
 router.get('/me/earnings', protect, getMyEarnings);
+router.post('/me/stripe-connect/onboarding-link', protect, getStripeConnectOnboardingLink);
+router.get('/me/stripe-connect/status', protect, getStripeConnectStatus);
+router.get('/me/payment-methods', protect, getMyPaymentMethods);
+router.post('/me/payment-methods/setup-intent', protect, createPaymentMethodSetupIntent);
+router.patch('/me/payment-methods/:paymentMethodId/default', protect, setMyDefaultPaymentMethod);
+router.delete('/me/payment-methods/:paymentMethodId', protect, removeMyPaymentMethod);
+router.patch('/me/commission-auto-pay', protect, updateCommissionAutoPay);
 
 export default router; 
@@ -0,0 +1,335 @@
+import { Router, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { prisma } from '../config/database';
+import { uploadToCloudinary, deleteFromCloudinary } from '../config/cloudinary';
+import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import {
+  MAX_PHOTOS_PER_PROPERTY,
+  MAX_PROPERTIES_PER_CUSTOMER,
+  getOwnedProperty,
+  getPropertyHistory,
+  parsePropertyInput,
+} from '../services/propertyService';
+
+// Mounted at /api/customers/me/properties
+const router = Router();
+
+// Files are written to disk first and removed once they are on Cloudinary
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const uploadDir = path.join(process.cwd(), 'uploads', 'property-photos');
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, 'property-photo-' + uniqueSuffix + path.extname(file.originalname));
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new AppError('Only image files are allowed', 400));
+    }
+  },
+});
+
+function removeTempFile(filePath: string) {
+  fs.promises.unlink(filePath).catch((error) => {
+    console.error(`Failed to remove temporary upload ${filePath}:`, error);
+  });
+}
+
+async function getCustomerId(userId: string) {
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  if (!customer) {
+    throw new AppError('Customer profile not found', 404);
+  }
+  return customer.id;
+}
+
+// @desc    List my properties
+// @route   GET /api/customers/me/properties
+// @access  Private (Customer only)
+export const getMyProperties = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const customerId = await getCustomerId(req.user!.id);
+  const includeArchived = req.query.includeArchived === 'true';
+
+  const properties = await prisma.property.findMany({
+    where: { customerId, ...(!includeArchived && { archivedAt: null }) },
+    include: {
+      photos: { orderBy: { createdAt: 'asc' } },
+      _count: { select: { jobs: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: { properties },
+  });
+});
+
+// @desc    Add a property
+// @route   POST /api/customers/me/properties
+// @access  Private (Customer only)
+export const createProperty = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const customerId = await getCustomerId(req.user!.id);
+  const input = parsePropertyInput(req.body);
+
+  const existingCount = await prisma.property.count({ where: { customerId, archivedAt: null } });
+  if (existingCount >= MAX_PROPERTIES_PER_CUSTOMER) {
+    return next(new AppError(`You can save at most ${MAX_PROPERTIES_PER_CUSTOMER} properties`, 400));
+  }
+
+  const property = await prisma.property.create({
+    data: {
+      customerId,
+      address: input.address!,
+      postcode: input.postcode!,
+      label: input.label,
+      city: input.city,
+      accessNotes: input.accessNotes,
+    },
+    include: { photos: true },
+  });
+
+  res.status(201).json({
+    status: 'success',
+    message: 'Property saved',
+    data: { property },
+  });
+});
+
+// @desc    Get one of my properties
+// @route   GET /api/customers/me/properties/:propertyId
+// @access  Private (Customer only)
+export const getProperty = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const customerId = await getCustomerId(req.user!.id);
+  const property = await getOwnedProperty(customerId, req.params.propertyId);
+
+  res.status(200).json({
+    status: 'success',
+    data: { property },
+  });
+});
+
+// @desc    Update a property
+// @route   PATCH /api/customers/me/properties/:propertyId
+// @access  Private (Customer only)
+export const updateProperty = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const customerId = await getCustomerId(req.user!.id);
+  const existing = await getOwnedProperty(customerId, req.params.propertyId);
+  const input = parsePropertyInput(req.body, { partial: true });
+
+  // Jobs keep the location they were posted with, only new jobs pick up the change
+  const property = await prisma.property.update({
+    where: { id: existing.id },
+    data: input,
+    include: { photos: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Property updated',
+    data: { property },
+  });
+});
+
+// @desc    Remove a property
+// @route   DELETE /api/customers/me/properties/:propertyId
+// @access  Private (Customer only)
+export const deleteProperty = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const customerId = await getCustomerId(req.user!.id);
+  const property = await getOwnedProperty(customerId, req.params.propertyId);
+
+  // Properties with jobs are archived so their history stays together
+  const jobCount = await prisma.job.count({ where: { propertyId: property.id } });
+  if (jobCount > 0) {
+    await prisma.property.update({
+      where: { id: property.id },
+      data: { archivedAt: property.archivedAt ?? new Date() },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Property archived - its job history is still available',
+    });
+  }
+
+  await prisma.property.delete({ where: { id: property.id } });
+
+  // The row is the source of truth; a file left behind on Cloudinary is only logged
+  for (const photo of property.photos) {
+    try {
+      await deleteFromCloudinary(photo.publicId);
+    } catch (error) {
+      console.error(`Failed to delete Cloudinary asset ${photo.publicId}:`, error);
+    }
+  }
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Property removed',
+  });
+});
+
+// @desc    Restore an archived property
+// @route   POST /api/customers/me/properties/:propertyId/restore
+// @access  Private (Customer only)
+export const restoreProperty = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const customerId = await getCustomerId(req.user!.id);
+  const existing = await getOwnedProperty(customerId, req.params.propertyId);
+
+  if (!existing.archivedAt) {
+    return next(new AppError('This property is not archived', 400));
+  }
+
+  const activeCount = await prisma.property.count({ where: { customerId, archivedAt: null } });
+  if (activeCount >= MAX_PROPERTIES_PER_CUSTOMER) {
+    return next(new AppError(`You can save at most ${MAX_PROPERTIES_PER_CUSTOMER} properties`, 400));
+  }
+
+  const property = await prisma.property.update({
+    where: { id: existing.id },
+    data: { archivedAt: null },
+    include: { photos: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Property restored',
+    data: { property },
+  });
+});
+
+// @desc    Jobs, contractors and invoices at a property
+// @route   GET /api/customers/me/properties/:propertyId/history
+// @access  Private (Customer only)
+export const getPropertyJobHistory = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const customerId = await getCustomerId(req.user!.id);
+  const history = await getPropertyHistory(customerId, req.params.propertyId);
+
+  res.status(200).json({
+    status: 'success',
+    data: history,
+  });
+});
+
+// @desc    Upload photos of a property
+// @route   POST /api/customers/me/properties/:propertyId/photos
+// @access  Private (Customer only)
+export const uploadPropertyPhotos = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  if (files.length === 0) {
+    return next(new AppError('No files uploaded', 400));
+  }
+
+  let property;
+  try {
+    const customerId = await getCustomerId(req.user!.id);
+    property = await getOwnedProperty(customerId, req.params.propertyId);
+  } catch (error) {
+    files.forEach((file) => removeTempFile(file.path));
+    return next(error);
+  }
+
+  if (property.photos.length + files.length > MAX_PHOTOS_PER_PROPERTY) {
+    files.forEach((file) => removeTempFile(file.path));
+    return next(new AppError(`A property can have at most ${MAX_PHOTOS_PER_PROPERTY} photos`, 400));
+  }
+
+  const caption = typeof req.body.caption === 'string' && req.body.caption.trim() ? req.body.caption.trim() : null;
+
+  const photos = [];
+  try {
+    for (const file of files) {
+      const uploaded = await uploadToCloudinary(file.path, {
+        folder: `trustbuild/properties/${property.id}`,
+        resource_type: 'image',
+      });
+
+      photos.push(
+        await prisma.propertyPhoto.create({
+          data: {
+            propertyId: property.id,
+            url: uploaded.secure_url,
+            publicId: uploaded.public_id,
+            caption,
+            width: uploaded.width ?? null,
+            height: uploaded.height ?? null,
+          },
+        })
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to upload photos for property ${property.id}:`, error);
+    return next(new AppError('Failed to upload photos', 502));
+  } finally {
+    files.forEach((file) => removeTempFile(file.path));
+  }
+
+  res.status(201).json({
+    status: 'success',
+    message: `${photos.length} photo(s) uploaded`,
+    data: { photos },
+  });
+});
+
+// @desc    Remove a property photo
+// @route   DELETE /api/customers/me/properties/:propertyId/photos/:photoId
+// @access  Private (Customer only)
+export const deletePropertyPhoto = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const customerId = await getCustomerId(req.user!.id);
+  const property = await getOwnedProperty(customerId, req.params.propertyId);
+
+  const photo = property.photos.find((candidate) => candidate.id === req.params.photoId);
+  if (!photo) {
+    return next(new AppError('Photo not found', 404));
+  }
+
+  await prisma.propertyPhoto.delete({ where: { id: photo.id } });
+
+  // The row is the source of truth; a file left behind on Cloudinary is only logged
+  try {
+    await deleteFromCloudinary(photo.publicId);
+  } catch (error) {
+    console.error(`Failed to delete Cloudinary asset ${photo.publicId}:`, error);
+  }
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Photo removed',
+  });
+});
+
+router.use(protect);
+
+router.get('/', getMyProperties);
+router.post('/', createProperty);
+router.get('/:propertyId', getProperty);
+router.patch('/:propertyId', updateProperty);
+router.delete('/:propertyId', deleteProperty);
+router.post('/:propertyId/restore', restoreProperty);
+router.get('/:propertyId/history', getPropertyJobHistory);
+router.post('/:propertyId/photos', upload.array('photos', MAX_PHOTOS_PER_PROPERTY), uploadPropertyPhotos);
+router.delete('/:propertyId/photos/:photoId', deletePropertyPhoto);
+
+export default router;
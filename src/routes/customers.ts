@@ -2,6 +2,7 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 import { JobStatus } from '@prisma/client';
 
 const router = Router();
@@ -14,13 +15,10 @@ export const getAllCustomers = catchAsync(async (req: AuthenticatedRequest, res:
     return next(new AppError('Access denied. Admin only.', 403));
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
-  const customers = await prisma.customer.findMany({
-    skip,
-    take: limit,
+  const rows = await prisma.customer.findMany({
+    ...getPrismaPageArgs(pagination),
     include: {
       user: {
         select: {
@@ -44,23 +42,17 @@ export const getAllCustomers = catchAsync(async (req: AuthenticatedRequest, res:
         },
       },
     },
-    orderBy: {
-      createdAt: 'desc',
-    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
   });
 
-  const total = await prisma.customer.count();
+  const total = pagination.mode === 'page' ? await prisma.customer.count() : undefined;
+  const { items: customers, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       customers,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -711,11 +703,9 @@ export const getPaymentTransactions = catchAsync(async (req: AuthenticatedReques
     return next(new AppError('Customer profile not found', 404));
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
+  const pagination = getPagination(req.query);
   const status = req.query.status as string;
   const type = req.query.type as string;
-  const skip = (page - 1) * limit;
 
   // Build where clause
   const where: any = { customerId: customer.id };
@@ -726,7 +716,7 @@ export const getPaymentTransactions = catchAsync(async (req: AuthenticatedReques
     where.type = type.toUpperCase();
   }
 
-  const [transactions, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.payment.findMany({
       where,
       include: {
@@ -754,23 +744,18 @@ export const getPaymentTransactions = catchAsync(async (req: AuthenticatedReques
           }
         }
       },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination)
     }),
-    prisma.payment.count({ where })
+    pagination.mode === 'page' ? prisma.payment.count({ where }) : undefined
   ]);
+  const { items: transactions, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       transactions,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: paginationMeta
     }
   });
 });
@@ -787,11 +772,9 @@ export const getCustomerInvoices = catchAsync(async (req: AuthenticatedRequest,
     return next(new AppError('Customer profile not found', 404));
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
-  const [invoices, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.invoice.findMany({
       where: {
         payments: {
@@ -807,28 +790,25 @@ export const getCustomerInvoices = catchAsync(async (req: AuthenticatedRequest,
           }
         }
       },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination)
     }),
-    prisma.invoice.count({
-      where: {
-        payments: {
-        }
-      }
-    })
+    pagination.mode === 'page'
+      ? prisma.invoice.count({
+          where: {
+            payments: {
+            }
+          }
+        })
+      : undefined
   ]);
+  const { items: invoices, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       invoices,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: paginationMeta
     }
   });
 });
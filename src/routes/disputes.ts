@@ -121,7 +121,7 @@ router.post('/', protect, upload.array('evidence', 10), async (req: Authenticate
     res.status(201).json(dispute);
   } catch (error: any) {
     console.error('Error creating dispute:', error);
-    res.status(500).json({ error: error.message || 'Failed to create dispute' });
+    res.status(error.statusCode || 500).json({ error: error.message || 'Failed to create dispute' });
   }
 });
 
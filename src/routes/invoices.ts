@@ -2,8 +2,10 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 import { createEmailService, createServiceEmail } from '../services/emailService';
 import { generateInvoicePDF, generateCommissionInvoicePDF } from '../services/pdfService';
+import { generateCreditNote } from '../services/refundService';
 
 const router = Router();
 
@@ -12,9 +14,7 @@ const router = Router();
 // @access  Private (Contractor only)
 export const getInvoices = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const userId = req.user!.id;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   // Get contractor profile
   const contractor = await prisma.contractor.findUnique({
@@ -27,7 +27,7 @@ export const getInvoices = catchAsync(async (req: AuthenticatedRequest, res: Res
   }
 
   // Get invoices where payment is related to the contractor
-  const invoices = await prisma.invoice.findMany({
+  const rows = await prisma.invoice.findMany({
     where: {
       payments: {
         some: {
@@ -52,30 +52,27 @@ export const getInvoices = catchAsync(async (req: AuthenticatedRequest, res: Res
         },
       },
     },
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...getPrismaPageArgs(pagination),
   });
 
-  const total = await prisma.invoice.count({
-    where: {
-      payments: {
-        some: {
-          contractorId: contractor.id
-        }
-      }
-    },
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.invoice.count({
+        where: {
+          payments: {
+            some: {
+              contractorId: contractor.id
+            }
+          }
+        },
+      })
+    : undefined;
+  const { items: invoices, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: invoices,
-    pagination: {
-      page,
-      limit,
-      total,
-      pages: Math.ceil(total / limit),
-    },
+    pagination: paginationMeta,
   });
 });
 
@@ -402,14 +399,10 @@ export const getInvoiceStats = catchAsync(async (req: AuthenticatedRequest, res:
 export const getMyInvoices = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const userId = req.user!.id;
   const userRole = req.user!.role;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-  
+  const pagination = getPagination(req.query);
+
   let whereCondition = {};
-  let invoices = [];
-  let total = 0;
-  
+
   // Different logic based on user role
   if (userRole === 'CONTRACTOR') {
     // Get contractor profile
@@ -454,7 +447,7 @@ export const getMyInvoices = catchAsync(async (req: AuthenticatedRequest, res: R
   }
   
   // Get invoices
-  invoices = await prisma.invoice.findMany({
+  const rows = await prisma.invoice.findMany({
     where: whereCondition,
     include: {
       payments: {
@@ -474,25 +467,22 @@ export const getMyInvoices = catchAsync(async (req: AuthenticatedRequest, res: R
         },
       },
     },
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...getPrismaPageArgs(pagination),
   });
-  
+
   // Get total count
-  total = await prisma.invoice.count({
-    where: whereCondition,
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.invoice.count({
+        where: whereCondition,
+      })
+    : undefined;
+  const { items: invoices, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: invoices,
-    pagination: {
-      page,
-      limit,
-      total,
-      pages: Math.ceil(total / limit),
-    },
+    pagination: paginationMeta,
   });
 });
 
@@ -580,6 +570,7 @@ export const downloadInvoice = catchAsync(async (req: AuthenticatedRequest, res:
           contractorName: commissionInvoice.contractorName,
           contractorEmail: commissionInvoice.contractorEmail,
           jobTitle: commissionInvoice.jobTitle,
+          stageTitle: commissionInvoice.stageTitle,
           finalJobAmount: Number(commissionInvoice.finalJobAmount),
           commissionAmount: Number(commissionInvoice.commissionAmount),
           vatAmount: Number(commissionInvoice.vatAmount),
@@ -679,6 +670,27 @@ export const downloadInvoice = catchAsync(async (req: AuthenticatedRequest, res:
   }
 });
 
+// @desc    Download the credit note for a refund of one of the contractor's payments
+// @route   GET /api/invoices/credit-notes/:refundId/download
+// @access  Private (Contractor only)
+export const downloadCreditNote = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const { pdf, creditNoteNumber } = await generateCreditNote(req.params.refundId, contractor.id);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="credit-note-${creditNoteNumber}.pdf"`);
+  res.setHeader('Content-Length', pdf.length);
+  res.send(pdf);
+});
+
 // @desc    Download manual invoice PDF
 // @route   GET /api/invoices/manual/:id/download
 // @access  Private (Contractor only)
@@ -774,6 +786,7 @@ router.get('/', getInvoices);
 router.get('/my', getMyInvoices); // Add the /my endpoint with the new handler
 router.get('/stats', getInvoiceStats);
 router.get('/manual/:id/download', downloadManualInvoice); // Manual invoice download route
+router.get('/credit-notes/:refundId/download', downloadCreditNote);
 router.get('/:id/download', downloadInvoice);
 router.get('/:id', getInvoice);
 router.post('/:id/send', sendInvoiceEmail);
@@ -0,0 +1,184 @@
+import { Router, Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import {
+  APPOINTMENT_HISTORY_INCLUDE,
+  acceptAppointmentSlot,
+  buildAppointmentCalendar,
+  cancelAppointment,
+  declineAppointmentProposal,
+  getAppointmentForUser,
+  proposeAppointment,
+  rescheduleAppointment,
+} from '../services/appointmentService';
+
+// Mounted at /api/jobs/:id/appointments, so the job id comes from the parent path
+const router = Router({ mergeParams: true });
+
+// @desc    List a job's appointments with their history
+// @route   GET /api/jobs/:id/appointments
+// @access  Private (Job owner, or a contractor for their own appointments)
+export const getJobAppointments = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    select: { id: true, customer: { select: { userId: true } } },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  const isOwner = job.customer.userId === req.user!.id;
+  const isAdmin = req.user!.role === 'ADMIN' || req.user!.role === 'SUPER_ADMIN';
+
+  let contractorId: string | undefined;
+  if (!isOwner && !isAdmin) {
+    const contractor = await prisma.contractor.findUnique({
+      where: { userId: req.user!.id },
+      select: { id: true },
+    });
+    if (!contractor) {
+      return next(new AppError('Not authorized to view appointments for this job', 403));
+    }
+    contractorId = contractor.id;
+  }
+
+  const appointments = await prisma.appointment.findMany({
+    where: { jobId: job.id, ...(contractorId && { contractorId }) },
+    include: APPOINTMENT_HISTORY_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: { appointments },
+  });
+});
+
+// @desc    Propose time slots for a site visit
+// @route   POST /api/jobs/:id/appointments
+// @access  Private (Contractor with access to the job)
+export const createAppointment = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const { slots, location, notes } = req.body;
+
+  const appointment = await proposeAppointment({
+    jobId: req.params.id,
+    userId: req.user!.id,
+    slots,
+    location,
+    notes,
+  });
+
+  res.status(201).json({
+    status: 'success',
+    message: 'Visit times sent to the customer',
+    data: { appointment },
+  });
+});
+
+// @desc    Accept one of the offered slots
+// @route   POST /api/jobs/:id/appointments/:appointmentId/accept
+// @access  Private (The party the proposal is waiting on)
+export const acceptAppointment = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const slotIndex = Number(req.body.slotIndex ?? 0);
+  if (!Number.isInteger(slotIndex) || slotIndex < 0) {
+    return next(new AppError('slotIndex must be the position of an offered slot', 400));
+  }
+
+  const appointment = await acceptAppointmentSlot({
+    jobId: req.params.id,
+    appointmentId: req.params.appointmentId,
+    userId: req.user!.id,
+    slotIndex,
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Visit confirmed',
+    data: { appointment },
+  });
+});
+
+// @desc    Decline the offered slots
+// @route   POST /api/jobs/:id/appointments/:appointmentId/decline
+// @access  Private (The party the proposal is waiting on)
+export const declineAppointment = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const appointment = await declineAppointmentProposal({
+    jobId: req.params.id,
+    appointmentId: req.params.appointmentId,
+    userId: req.user!.id,
+    reason: req.body.reason,
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: appointment.status === 'CONFIRMED' ? 'New times declined - the visit stays as booked' : 'Visit declined',
+    data: { appointment },
+  });
+});
+
+// @desc    Offer new slots for a visit
+// @route   POST /api/jobs/:id/appointments/:appointmentId/reschedule
+// @access  Private (Customer or contractor on the appointment)
+export const rescheduleJobAppointment = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const appointment = await rescheduleAppointment({
+    jobId: req.params.id,
+    appointmentId: req.params.appointmentId,
+    userId: req.user!.id,
+    slots: req.body.slots,
+    reason: req.body.reason,
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'New times sent',
+    data: { appointment },
+  });
+});
+
+// @desc    Cancel a visit
+// @route   POST /api/jobs/:id/appointments/:appointmentId/cancel
+// @access  Private (Customer or contractor on the appointment)
+export const cancelJobAppointment = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const appointment = await cancelAppointment({
+    jobId: req.params.id,
+    appointmentId: req.params.appointmentId,
+    userId: req.user!.id,
+    reason: req.body.reason,
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Visit cancelled',
+    data: { appointment },
+  });
+});
+
+// @desc    Download a booked visit as an iCalendar file
+// @route   GET /api/jobs/:id/appointments/:appointmentId/calendar.ics
+// @access  Private (Customer or contractor on the appointment)
+export const downloadAppointmentCalendar = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { appointment } = await getAppointmentForUser(req.params.id, req.params.appointmentId, req.user!.id);
+
+  const ics = buildAppointmentCalendar(appointment);
+  if (!ics) {
+    return next(new AppError('No time has been agreed for this visit yet', 400));
+  }
+
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="site-visit-${appointment.id}.ics"`);
+  res.status(200).send(ics);
+});
+
+router.use(protect);
+
+router.get('/', getJobAppointments);
+router.post('/', createAppointment);
+router.get('/:appointmentId/calendar.ics', downloadAppointmentCalendar);
+router.post('/:appointmentId/accept', acceptAppointment);
+router.post('/:appointmentId/decline', declineAppointment);
+router.post('/:appointmentId/reschedule', rescheduleJobAppointment);
+router.post('/:appointmentId/cancel', cancelJobAppointment);
+
+export default router;
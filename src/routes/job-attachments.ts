@@ -0,0 +1,237 @@
+import { Router, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { prisma } from '../config/database';
+import { uploadToCloudinary, deleteFromCloudinary } from '../config/cloudinary';
+import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+
+// Mounted at /api/jobs/:id/attachments, so the job id comes from the parent path
+const router = Router({ mergeParams: true });
+
+const MAX_ATTACHMENTS_PER_JOB = 10;
+const ALLOWED_DOCUMENT_TYPES = ['application/pdf'];
+
+// Attachments can only be changed while the job is still being written or is open for leads
+const EDITABLE_STATUSES = ['DRAFT', 'POSTED'];
+
+// Files are written to disk first and removed once they are on Cloudinary
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const uploadDir = path.join(process.cwd(), 'uploads', 'job-attachments');
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, 'job-attachment-' + uniqueSuffix + path.extname(file.originalname));
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/') || ALLOWED_DOCUMENT_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new AppError('Only images and PDF documents can be attached to a job', 400));
+    }
+  },
+});
+
+// Helper: load the job and check the signed-in user is the customer who posted it
+async function getOwnedJob(jobId: string, userId: string) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      status: true,
+      customer: { select: { userId: true } },
+      _count: { select: { attachments: true } },
+    },
+  });
+
+  if (!job) {
+    return new AppError('Job not found', 404);
+  }
+  if (job.customer.userId !== userId) {
+    return new AppError('Not authorized to manage attachments for this job', 403);
+  }
+  return job;
+}
+
+function removeTempFile(filePath: string) {
+  fs.promises.unlink(filePath).catch((error) => {
+    console.error(`Failed to remove temporary upload ${filePath}:`, error);
+  });
+}
+
+// @desc    List a job's attachments
+// @route   GET /api/jobs/:id/attachments
+// @access  Private (Job owner, or a contractor who has purchased the job)
+export const getJobAttachments = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    select: {
+      id: true,
+      wonByContractorId: true,
+      customer: { select: { userId: true } },
+    },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  const isOwner = job.customer.userId === req.user!.id;
+  const isAdmin = req.user!.role === 'ADMIN' || req.user!.role === 'SUPER_ADMIN';
+
+  if (!isOwner && !isAdmin) {
+    const contractor = await prisma.contractor.findUnique({
+      where: { userId: req.user!.id },
+      select: { id: true },
+    });
+    const access = contractor
+      ? await prisma.jobAccess.findUnique({
+          where: { jobId_contractorId: { jobId: job.id, contractorId: contractor.id } },
+        })
+      : null;
+
+    // Photos can show the address or the customer, so they are part of the purchased lead
+    if (!contractor || (!access && job.wonByContractorId !== contractor.id)) {
+      return next(new AppError('Purchase this job to view its attachments', 403));
+    }
+  }
+
+  const attachments = await prisma.jobAttachment.findMany({
+    where: { jobId: job.id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      attachments,
+    },
+  });
+});
+
+// @desc    Upload photos or documents to a job
+// @route   POST /api/jobs/:id/attachments
+// @access  Private (Customer who owns the job)
+export const uploadJobAttachments = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  if (files.length === 0) {
+    return next(new AppError('No files uploaded', 400));
+  }
+
+  const job = await getOwnedJob(req.params.id, req.user!.id);
+  if (job instanceof AppError) {
+    files.forEach((file) => removeTempFile(file.path));
+    return next(job);
+  }
+
+  if (!EDITABLE_STATUSES.includes(job.status)) {
+    files.forEach((file) => removeTempFile(file.path));
+    return next(new AppError('Attachments can only be added to draft or posted jobs', 409));
+  }
+
+  if (job._count.attachments + files.length > MAX_ATTACHMENTS_PER_JOB) {
+    files.forEach((file) => removeTempFile(file.path));
+    return next(new AppError(`A job can have at most ${MAX_ATTACHMENTS_PER_JOB} attachments`, 400));
+  }
+
+  const attachments = [];
+  try {
+    for (const file of files) {
+      const uploaded = await uploadToCloudinary(file.path, {
+        folder: `trustbuild/jobs/${job.id}`,
+        resource_type: 'auto',
+      });
+
+      attachments.push(
+        await prisma.jobAttachment.create({
+          data: {
+            jobId: job.id,
+            kind: file.mimetype.startsWith('image/') ? 'IMAGE' : 'DOCUMENT',
+            url: uploaded.secure_url,
+            publicId: uploaded.public_id,
+            fileName: file.originalname,
+            mimeType: file.mimetype,
+            bytes: uploaded.bytes ?? file.size,
+            width: uploaded.width ?? null,
+            height: uploaded.height ?? null,
+            uploadedById: req.user!.id,
+          },
+        })
+      );
+    }
+  } catch (error) {
+    console.error(`Failed to upload attachments for job ${job.id}:`, error);
+    return next(new AppError('Failed to upload attachments', 502));
+  } finally {
+    files.forEach((file) => removeTempFile(file.path));
+  }
+
+  res.status(201).json({
+    status: 'success',
+    message: `${attachments.length} attachment(s) uploaded`,
+    data: {
+      attachments,
+    },
+  });
+});
+
+// @desc    Remove an attachment from a job
+// @route   DELETE /api/jobs/:id/attachments/:attachmentId
+// @access  Private (Customer who owns the job)
+export const deleteJobAttachment = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await getOwnedJob(req.params.id, req.user!.id);
+  if (job instanceof AppError) {
+    return next(job);
+  }
+
+  if (!EDITABLE_STATUSES.includes(job.status)) {
+    return next(new AppError('Attachments can only be removed from draft or posted jobs', 409));
+  }
+
+  const attachment = await prisma.jobAttachment.findFirst({
+    where: { id: req.params.attachmentId, jobId: job.id },
+  });
+
+  if (!attachment) {
+    return next(new AppError('Attachment not found', 404));
+  }
+
+  await prisma.jobAttachment.delete({ where: { id: attachment.id } });
+
+  // Cloned jobs point at the same upload, so keep the file while any copy still uses it
+  const sharedCount = await prisma.jobAttachment.count({ where: { publicId: attachment.publicId } });
+
+  // The row is the source of truth; a file left behind on Cloudinary is only logged
+  if (sharedCount === 0) {
+    try {
+      await deleteFromCloudinary(attachment.publicId);
+    } catch (error) {
+      console.error(`Failed to delete Cloudinary asset ${attachment.publicId}:`, error);
+    }
+  }
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Attachment removed',
+  });
+});
+
+router.get('/', protect, getJobAttachments);
+router.post('/', protect, upload.array('files', MAX_ATTACHMENTS_PER_JOB), uploadJobAttachments);
+router.delete('/:attachmentId', protect, deleteJobAttachment);
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router, Response, NextFunction } from 'express';
+import { getStripeClient } from '../config/stripe';
+import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getMilestoneJob } from '../services/milestoneService';
+import { createEscrowPaymentIntent, fundEscrow, getJobEscrowSummary } from '../services/escrowService';
+
+// Mounted at /api/jobs/:id/escrow, so the job id comes from the parent path
+const router = Router({ mergeParams: true });
+
+// @desc    Get what has been paid into escrow for a job and where it went
+// @route   GET /api/jobs/:id/escrow
+// @access  Private (Job owner or assigned contractor)
+export const getJobEscrow = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const { job } = await getMilestoneJob(req.params.id, req.user!.id);
+
+  const summary = await getJobEscrowSummary(job.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: summary,
+  });
+});
+
+// @desc    Start paying for a job, or one of its stages, through TrustBuild
+// @route   POST /api/jobs/:id/escrow/payment-intent
+// @access  Private (Job owner)
+export const createJobEscrowPaymentIntent = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { milestoneId } = req.body;
+  if (milestoneId !== undefined && typeof milestoneId !== 'string') {
+    return next(new AppError('milestoneId must be a string', 400));
+  }
+
+  const { escrow, clientSecret } = await createEscrowPaymentIntent({
+    jobId: req.params.id,
+    milestoneId,
+    userId: req.user!.id,
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      escrowId: escrow.id,
+      amount: Number(escrow.amount),
+      clientSecret,
+    },
+  });
+});
+
+// @desc    Confirm an escrow payment once Stripe has taken it (the webhook does the same)
+// @route   POST /api/jobs/:id/escrow/confirm
+// @access  Private (Job owner)
+export const confirmJobEscrowPayment = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { paymentIntentId } = req.body;
+  if (!paymentIntentId) {
+    return next(new AppError('Payment intent ID is required', 400));
+  }
+
+  const { isJobOwner } = await getMilestoneJob(req.params.id, req.user!.id);
+  if (!isJobOwner) {
+    return next(new AppError('Only the customer can pay for this job', 403));
+  }
+
+  const paymentIntent = await getStripeClient().paymentIntents.retrieve(paymentIntentId);
+  if (paymentIntent.metadata?.jobId !== req.params.id) {
+    return next(new AppError('This payment is not for this job', 400));
+  }
+
+  const { escrow, funded } = await fundEscrow(paymentIntent);
+
+  res.status(200).json({
+    status: 'success',
+    message: funded ? 'Payment received and held until the work is confirmed' : 'Payment already recorded',
+    data: { escrow },
+  });
+});
+
+router.use(protect);
+
+router.get('/', getJobEscrow);
+router.post('/payment-intent', createJobEscrowPaymentIntent);
+router.post('/confirm', confirmJobEscrowPayment);
+
+export default router;
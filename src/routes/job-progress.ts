@@ -0,0 +1,202 @@
+import { Router, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { prisma } from '../config/database';
+import { uploadToCloudinary, deleteFromCloudinary } from '../config/cloudinary';
+import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getMilestoneJob } from '../services/milestoneService';
+import { createNotification } from '../services/notificationService';
+import {
+  MAX_PHOTOS_PER_LOG_ENTRY,
+  PROGRESS_LOG_ENTRY_INCLUDE,
+  deleteLogEntry,
+  getJobProgressLog,
+  getLogTarget,
+  parseLogNote,
+  parsePhotoPhase,
+  publishPortfolioPairs,
+} from '../services/progressLogService';
+
+// Mounted at /api/jobs/:id/progress, so the job id comes from the parent path
+const router = Router({ mergeParams: true });
+
+// Files are written to disk first and removed once they are on Cloudinary
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const uploadDir = path.join(process.cwd(), 'uploads', 'progress-photos');
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, 'progress-photo-' + uniqueSuffix + path.extname(file.originalname));
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new AppError('Only image files are allowed', 400));
+    }
+  },
+});
+
+function removeTempFile(filePath: string) {
+  fs.promises.unlink(filePath).catch((error) => {
+    console.error(`Failed to remove temporary upload ${filePath}:`, error);
+  });
+}
+
+// @desc    Get a job's progress log, grouped by milestone
+// @route   GET /api/jobs/:id/progress
+// @access  Private (Job owner or assigned contractor)
+export const getProgressLog = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const { job } = await getMilestoneJob(req.params.id, req.user!.id);
+  const milestoneId = typeof req.query.milestoneId === 'string' ? req.query.milestoneId : undefined;
+
+  const milestones = await getJobProgressLog(job.id, milestoneId);
+
+  res.status(200).json({
+    status: 'success',
+    data: { milestones },
+  });
+});
+
+// @desc    Add a note and photos to a milestone's progress log
+// @route   POST /api/jobs/:id/progress/milestones/:milestoneId
+// @access  Private (Assigned contractor)
+export const addProgressLogEntry = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  let target;
+  let note: string | null;
+  let phase;
+  try {
+    target = await getLogTarget(req.params.id, req.params.milestoneId, req.user!.id);
+    note = parseLogNote(req.body.note);
+    phase = parsePhotoPhase(req.body.phase);
+  } catch (error) {
+    files.forEach((file) => removeTempFile(file.path));
+    return next(error);
+  }
+
+  if (!note && files.length === 0) {
+    return next(new AppError('Add a note or at least one photo', 400));
+  }
+
+  const caption = typeof req.body.caption === 'string' && req.body.caption.trim() ? req.body.caption.trim() : null;
+
+  const photos = [];
+  try {
+    for (const file of files) {
+      const uploaded = await uploadToCloudinary(file.path, {
+        folder: `trustbuild/jobs/${target.job.id}/progress`,
+        resource_type: 'image',
+      });
+
+      photos.push({
+        phase,
+        url: uploaded.secure_url,
+        publicId: uploaded.public_id,
+        caption,
+        width: uploaded.width ?? null,
+        height: uploaded.height ?? null,
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to upload progress photos for job ${target.job.id}:`, error);
+    return next(new AppError('Failed to upload photos', 502));
+  } finally {
+    files.forEach((file) => removeTempFile(file.path));
+  }
+
+  const entry = await prisma.milestoneLogEntry.create({
+    data: {
+      jobId: target.job.id,
+      milestoneId: target.milestone.id,
+      contractorId: target.contractor.id,
+      note,
+      photos: { create: photos },
+    },
+    include: PROGRESS_LOG_ENTRY_INCLUDE,
+  });
+
+  await createNotification({
+    userId: target.job.customer.user.id,
+    title: 'Progress Update',
+    message: photos.length > 0
+      ? `${photos.length} new photo(s) added to "${target.milestone.title}" on: ${target.job.title}`
+      : `New progress note on "${target.milestone.title}" for: ${target.job.title}`,
+    type: 'INFO',
+    actionLink: `/dashboard/client/jobs/${target.job.id}`,
+    actionText: 'View Progress',
+    metadata: { jobId: target.job.id, milestoneId: target.milestone.id, entryId: entry.id },
+  });
+
+  res.status(201).json({
+    status: 'success',
+    message: 'Progress update added',
+    data: { entry },
+  });
+});
+
+// @desc    Remove a progress log entry
+// @route   DELETE /api/jobs/:id/progress/entries/:entryId
+// @access  Private (Assigned contractor)
+export const removeProgressLogEntry = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const publicIds = await deleteLogEntry({
+    jobId: req.params.id,
+    entryId: req.params.entryId,
+    userId: req.user!.id,
+  });
+
+  // The row is the source of truth; a file left behind on Cloudinary is only logged
+  for (const publicId of publicIds) {
+    try {
+      await deleteFromCloudinary(publicId);
+    } catch (error) {
+      console.error(`Failed to delete Cloudinary asset ${publicId}:`, error);
+    }
+  }
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Progress update removed',
+  });
+});
+
+// @desc    Publish before/after pairs from the log to my portfolio
+// @route   POST /api/jobs/:id/progress/portfolio
+// @access  Private (Contractor who completed the job)
+export const publishProgressToPortfolio = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const portfolioItems = await publishPortfolioPairs({
+    jobId: req.params.id,
+    userId: req.user!.id,
+    pairs: req.body.pairs,
+  });
+
+  res.status(201).json({
+    status: 'success',
+    message: `${portfolioItems.length} before/after pair(s) added to your portfolio`,
+    data: { portfolioItems },
+  });
+});
+
+router.use(protect);
+
+router.get('/', getProgressLog);
+router.post('/portfolio', publishProgressToPortfolio);
+router.post('/milestones/:milestoneId', upload.array('photos', MAX_PHOTOS_PER_LOG_ENTRY), addProgressLogEntry);
+router.delete('/entries/:entryId', removeProgressLogEntry);
+
+export default router;
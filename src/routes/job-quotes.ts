@@ -0,0 +1,149 @@
+import { Router, Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import {
+  buildQuoteComparison,
+  submitJobQuote,
+  withdrawJobQuote,
+  QUOTE_LINE_CATEGORIES,
+  QUOTE_PAYMENT_TERMS,
+  QUOTE_VAT_TREATMENTS,
+} from '../services/quoteService';
+import { selectContractor } from './jobs';
+
+// Mounted at /api/jobs/:id/quotes, so the job id comes from the parent path
+const router = Router({ mergeParams: true });
+
+// Helper: load the signed-in contractor's profile id
+async function getContractorId(userId: string) {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  return contractor?.id ?? null;
+}
+
+// @desc    Compare a job's quotes (customer/admin) or see my own quote (contractor)
+// @route   GET /api/jobs/:id/quotes
+// @access  Private
+export const getJobQuotes = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      budget: true,
+      wonByContractorId: true,
+      customer: { select: { userId: true } },
+    },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  const isOwner = job.customer.userId === req.user!.id;
+  const isAdmin = req.user!.role === 'ADMIN' || req.user!.role === 'SUPER_ADMIN';
+
+  if (!isOwner && !isAdmin) {
+    const contractorId = await getContractorId(req.user!.id);
+    if (!contractorId) {
+      return next(new AppError('Not authorized to view quotes for this job', 403));
+    }
+
+    // Contractors never see each other's prices
+    const quote = await prisma.jobQuote.findUnique({
+      where: { jobId_contractorId: { jobId: job.id, contractorId } },
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: {
+        quote,
+        options: {
+          lineCategories: QUOTE_LINE_CATEGORIES,
+          vatTreatments: QUOTE_VAT_TREATMENTS,
+          paymentTerms: QUOTE_PAYMENT_TERMS,
+        },
+      },
+    });
+  }
+
+  const quotes = await prisma.jobQuote.findMany({
+    where: { jobId: job.id, status: { not: 'WITHDRAWN' } },
+    include: {
+      contractor: {
+        select: {
+          id: true,
+          businessName: true,
+          averageRating: true,
+          reviewCount: true,
+          jobsCompleted: true,
+          user: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      job: { id: job.id, title: job.title, status: job.status, budget: job.budget, wonByContractorId: job.wonByContractorId },
+      ...buildQuoteComparison(quotes),
+    },
+  });
+});
+
+// @desc    Send or revise my quote for a job
+// @route   PUT /api/jobs/:id/quotes/mine
+// @access  Private (Contractor with access to the job)
+export const submitMyQuote = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const { quote, revised } = await submitJobQuote(req.params.id, contractorId, req.body);
+
+  res.status(revised ? 200 : 201).json({
+    status: 'success',
+    message: revised ? 'Quote updated' : 'Quote sent to the customer',
+    data: { quote },
+  });
+});
+
+// @desc    Withdraw my quote
+// @route   DELETE /api/jobs/:id/quotes/mine
+// @access  Private (Contractor with access to the job)
+export const withdrawMyQuote = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  await withdrawJobQuote(req.params.id, contractorId);
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Quote withdrawn',
+  });
+});
+
+// @desc    Accept a quote - selects its contractor for the job
+// @route   POST /api/jobs/:id/quotes/:quoteId/accept
+// @access  Private (Customer who owns the job)
+export const acceptQuote = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  req.body = { ...req.body, quoteId: req.params.quoteId };
+  return selectContractor(req, res, next);
+});
+
+router.use(protect);
+
+router.get('/', getJobQuotes);
+router.put('/mine', submitMyQuote);
+router.delete('/mine', withdrawMyQuote);
+router.post('/:quoteId/accept', acceptQuote);
+
+export default router;
@@ -1,9 +1,69 @@
 import { Router, Response, NextFunction } from 'express';
+import { JobSize, JobStatus, Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { protect, optionalAuth, AuthenticatedRequest } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
-import { processCommissionForJob } from '../services/commissionService';
 import { getMaxContractorsPerJob } from '../services/settingsService';
+import {
+  GeoPoint,
+  lookupPostcodeCentroid,
+  getBoundingBox,
+  getContractorBaseLocation,
+} from '../services/geoService';
+import {
+  JOB_SORT_OPTIONS,
+  JobSortOption,
+  JobListingFilters,
+  isJobSortOption,
+  resolveJobSort,
+  buildJobListingWhere,
+  queryJobListing,
+  getSearchHighlights,
+} from '../services/jobSearchService';
+import {
+  applyJobTransition,
+  assertJobTransition,
+  jobActorFromUser,
+  recordInitialJobStatus,
+  runJobTransitionEffects,
+  transitionJobStatus,
+} from '../services/jobStatusService';
+import {
+  buildQuestionnaireView,
+  getServiceQuestions,
+  validateQuestionnaireAnswers,
+} from '../services/jobQuestionnaireService';
+import { isJobSize, resolveJobSize } from '../services/jobSizeService';
+import { LeadPriceQuote, quoteLeadPrice, quoteLeadPrices } from '../services/leadPricingService';
+import { shouldFlagNewJob } from '../services/leadClaimService';
+import { isQuoteOpen, recordQuoteAcceptance } from '../services/quoteService';
+import { APPOINTMENT_HISTORY_INCLUDE } from '../services/appointmentService';
+import { announceJobToContractors } from '../services/jobAnnouncementService';
+import { formatPropertyLocation, resolveJobProperty } from '../services/propertyService';
+import { getAvailabilityConflict, loadContractorAvailability } from '../services/contractorAvailabilityService';
+import {
+  EDITABLE_MILESTONE_STATUSES,
+  approveMilestone,
+  assertWithinAgreedAmount,
+  getAgreedJobAmount,
+  getMilestoneJob,
+  getStageInvoiceData,
+  parseMilestoneAmount,
+  rejectMilestone,
+  summariseMilestones,
+} from '../services/milestoneService';
+import { generateInvoicePDF } from '../services/pdfService';
+import { recordCommissionRaised } from '../services/ledgerService';
+import { HELD_ESCROW_STATUSES, releaseJobEscrows } from '../services/escrowService';
+import {
+  cloneJob,
+  getNextRunAt,
+  isReservedForOtherContractor,
+  openJobToContractors,
+  parseRecurrenceRule,
+  releaseFirstRefusal,
+} from '../services/jobRecurrenceService';
+import { getPagination, getPrismaPageArgs, buildPageResult, PaginationMeta } from '../utils/pagination';
 
 const router = Router();
 
@@ -40,189 +100,215 @@ async function logPriceConfirmation(args: {
   }
 }
 
-/** Find contractors who should receive a new-job notification for the given service. */
-async function findContractorsForJobNotification(serviceId: string) {
-  const jobService = await prisma.service.findUnique({
-    where: { id: serviceId },
-    select: { id: true, name: true, category: true },
-  });
-
-  if (!jobService) {
-    return [];
-  }
-
-  const matchConditions: Array<Record<string, unknown>> = [
-    { services: { some: { id: serviceId } } },
-  ];
-
-  if (jobService.category) {
-    matchConditions.push({
-      services: { some: { category: jobService.category } },
-    });
-  }
-
-  // Legacy profiles may only have free-text servicesProvided
-  if (jobService.name) {
-    matchConditions.push({
-      servicesProvided: { contains: jobService.name, mode: 'insensitive' },
-    });
-  }
-
-  return prisma.contractor.findMany({
-    where: {
-      accountStatus: 'ACTIVE',
-      profileApproved: true,
-      user: { role: 'CONTRACTOR', isActive: true },
-      OR: matchConditions,
-    },
+// What the public job listing loads for each job
+const listingInclude = {
+  customer: {
     include: {
       user: {
         select: {
           id: true,
           name: true,
-          email: true,
         },
       },
     },
-  });
-}
+  },
+  service: {
+    select: {
+      id: true,
+      name: true,
+      category: true,
+      smallJobPrice: true,
+      mediumJobPrice: true,
+      largeJobPrice: true,
+    },
+  },
+  applications: {
+    select: {
+      id: true,
+      status: true,
+    },
+  },
+  _count: {
+    select: { jobAccess: true },
+  },
+} as const;
 
 // @desc    Get all jobs (public)
 // @route   GET /api/jobs
 // @access  Public
 export const getAllJobs = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
-  
-  const { category, location, budget, status, search, urgent } = req.query;
-
-  // Build filter conditions
-  const where: any = {
-    // For contractors, exclude IN_PROGRESS jobs (they'll be shown separately if they're assigned)
-    // For others, show DRAFT, POSTED, and IN_PROGRESS
-    status: req.user?.role === 'CONTRACTOR' 
-      ? { in: ['POSTED'] }  // Contractors only see POSTED jobs (available to apply)
-      : { in: ['DRAFT', 'POSTED', 'IN_PROGRESS'] },
+  const pagination = getPagination(req.query);
+
+  const { category, location, budget, status, search, urgent, sort } = req.query;
+  const isAdmin = req.user?.role === 'ADMIN' || req.user?.role === 'SUPER_ADMIN';
+
+  if (sort !== undefined && !isJobSortOption(sort)) {
+    return next(new AppError(`Invalid sort. Use one of: ${JOB_SORT_OPTIONS.join(', ')}`, 400));
+  }
+
+  // For contractors, exclude IN_PROGRESS jobs (they'll be shown separately if they're assigned)
+  // For others, show POSTED and IN_PROGRESS (drafts are private to their customer, see /my/posted)
+  const filters: JobListingFilters = {
+    statuses: req.user?.role === 'CONTRACTOR' ? ['POSTED'] : ['POSTED', 'IN_PROGRESS'],
   };
 
+  // Contractor's base location and travel radius, used to filter and sort leads by distance
+  let contractorBase: GeoPoint | null = null;
+  let travelRadiusMiles = 0;
+  let listingContractorId: string | null = null;
+
   // For contractors, add additional filter to include IN_PROGRESS jobs they're assigned to
   if (req.user?.role === 'CONTRACTOR') {
     const contractor = await prisma.contractor.findUnique({
       where: { userId: req.user.id },
-      select: { id: true }
+      select: {
+        id: true,
+        postcode: true,
+        basePostcode: true,
+        baseLatitude: true,
+        baseLongitude: true,
+        travelRadiusMiles: true,
+      }
     });
 
     if (contractor) {
+      contractorBase = getContractorBaseLocation(contractor);
+      travelRadiusMiles = contractor.travelRadiusMiles;
+
       // Show POSTED jobs the contractor has not yet purchased and where no winner has been confirmed.
       // Jobs stay visible to other contractors while claimedWon is true — the customer still needs to
       // pick a winner, and remaining spots may still be purchasable up to maxContractorsPerJob.
-      where.status = 'POSTED';
-      where.wonByContractorId = null;
-      where.jobAccess = {
-        none: {
-          contractorId: contractor.id,
-        },
-      };
+      // Repeat jobs held for their previous contractor stay off the board until released.
+      filters.contractorId = contractor.id;
+      listingContractorId = contractor.id;
     }
   }
 
   if (category) {
-    where.category = category as string;
+    filters.category = category as string;
   }
 
   if (location) {
-    where.location = { contains: location as string, mode: 'insensitive' };
+    filters.location = location as string;
   }
 
   if (budget) {
     const [min, max] = (budget as string).split('-').map(Number);
-    where.budget = {
-      ...(min && { gte: min }),
-      ...(max && { lte: max }),
-    };
+    filters.budgetMin = min || undefined;
+    filters.budgetMax = max || undefined;
   }
 
   if (status && req.user?.role !== 'CONTRACTOR') {
-    where.status = status as string;
-  }
-
-  if (search) {
-    // Preserve existing OR condition if it exists (from contractor filter)
-    const searchConditions = [
-      { title: { contains: search as string, mode: 'insensitive' } },
-      { description: { contains: search as string, mode: 'insensitive' } },
-      { location: { contains: search as string, mode: 'insensitive' } },
-    ];
-    
-    if (where.OR) {
-      // Combine with existing OR condition
-      where.AND = [
-        { OR: where.OR },
-        { OR: searchConditions }
-      ];
-      delete where.OR;
-    } else {
-      where.OR = searchConditions;
+    if (!(Object.values(JobStatus) as string[]).includes(status as string)) {
+      return next(new AppError('Invalid job status', 400));
     }
+    // Drafts are private: admins see them all, customers only their own
+    if (status === 'DRAFT' && !isAdmin) {
+      if (req.user?.role !== 'CUSTOMER') {
+        return next(new AppError('Drafts are only visible to the customer writing them', 403));
+      }
+      filters.customerUserId = req.user.id;
+    }
+    filters.statuses = [status as JobStatus];
   }
 
   if (urgent === 'true') {
-    where.isUrgent = true;
+    filters.urgentOnly = true;
   }
 
-  const jobs = await prisma.job.findMany({
-    where: where,
-    skip,
-    take: limit,
-    include: {
-      customer: {
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
-      },
-      service: {
-        select: {
-          id: true,
-          name: true,
-          category: true,
-          smallJobPrice: true,
-          mediumJobPrice: true,
-          largeJobPrice: true,
-        },
-      },
-      applications: {
-        select: {
-          id: true,
-          status: true,
-        },
-      },
-      _count: {
-        select: { jobAccess: true },
-      },
-    },
-    orderBy: [
-      { isUrgent: 'desc' },
-      { createdAt: 'desc' },
-    ],
+  // Pre-filter to the contractor's travel area; the exact radius check happens in the listing query
+  if (contractorBase) {
+    filters.boundingBox = getBoundingBox(contractorBase, travelRadiusMiles);
+  }
+
+  const searchText = typeof search === 'string' ? search.trim() : '';
+  const effectiveSort = resolveJobSort(sort as JobSortOption | undefined, {
+    searching: !!searchText,
+    hasBase: !!contractorBase,
   });
 
-  const total = await prisma.job.count({ where });
+  let visibleJobs: any[];
+  let paginationMeta: PaginationMeta;
+  let searchRanks: Map<string, number> | null = null;
+  if (searchText || contractorBase) {
+    // Search ranking and the travel radius are worked out in SQL; the page of rows is then loaded by id
+    const result = await queryJobListing({
+      search: searchText || undefined,
+      origin: contractorBase ? { point: contractorBase, radiusMiles: travelRadiusMiles } : undefined,
+      filters,
+      sort: effectiveSort,
+      pagination,
+    });
+    if (searchText) {
+      searchRanks = new Map(result.matches.map((match) => [match.id, match.rank]));
+    }
 
-  // For contractors, hide jobs that have already hit their contractor purchase cap
-  const visibleJobs = req.user?.role === 'CONTRACTOR'
-    ? jobs.filter((j: any) => j._count.jobAccess < j.maxContractorsPerJob)
-    : jobs;
+    const rows = await prisma.job.findMany({
+      where: { id: { in: result.matches.map((match) => match.id) } },
+      include: listingInclude,
+    });
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    visibleJobs = result.matches
+      .filter((match) => rowsById.has(match.id))
+      .map((match) => ({
+        ...rowsById.get(match.id),
+        ...(contractorBase && { distanceMiles: match.distanceMiles }),
+      }));
+    paginationMeta = result.pagination;
+  } else {
+    const where = buildJobListingWhere(filters);
+
+    // id is the final tie-breaker so cursor pagination has a deterministic position
+    const orderBy: Prisma.JobOrderByWithRelationInput[] =
+      effectiveSort === 'newest'
+        ? [{ createdAt: 'desc' }, { id: 'desc' }]
+        : effectiveSort === 'budget'
+          ? [{ budget: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }, { id: 'desc' }]
+          : [{ isUrgent: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }];
+
+    const jobs = await prisma.job.findMany({
+      where,
+      ...getPrismaPageArgs(pagination),
+      include: listingInclude,
+      orderBy,
+    });
+    const total = pagination.mode === 'page' ? await prisma.job.count({ where }) : undefined;
+    const result = buildPageResult(jobs, pagination, total);
+
+    // For contractors, hide jobs that have already hit their contractor purchase cap
+    visibleJobs = result.items.filter(
+      (j: any) => req.user?.role !== 'CONTRACTOR' || j._count.jobAccess < j.maxContractorsPerJob
+    );
+    paginationMeta = result.pagination;
+  }
+
+  if (searchRanks) {
+    const ranks = searchRanks;
+    const highlights = await getSearchHighlights(searchText, visibleJobs.map((job: any) => job.id));
+    visibleJobs = visibleJobs.map((job: any) => ({
+      ...job,
+      searchRank: ranks.get(job.id) ?? 0,
+      highlights: highlights.get(job.id) ?? null,
+    }));
+  }
+
+  // Contractors see what each lead costs right now and how that price was reached
+  const leadQuotes = req.user?.role === 'CONTRACTOR'
+    ? await quoteLeadPrices(visibleJobs.map((job: any) => ({ ...job, accessCount: job._count.jobAccess })))
+    : null;
+
+  // ...and which urgent leads clash with their capacity or time off
+  const listingAvailability = listingContractorId
+    ? (await loadContractorAvailability([listingContractorId])).get(listingContractorId) ?? null
+    : null;
 
   // Filter sensitive data for contractors and add application count
   const filteredJobs = req.user?.role === 'CONTRACTOR' 
     ? visibleJobs.map((job: any) => ({
         ...job,
+        currentLeadPrice: leadQuotes!.get(job.id)!.price,
+        leadPricing: leadQuotes!.get(job.id),
+        availabilityConflict: listingAvailability ? getAvailabilityConflict(job.urgency, listingAvailability) : null,
         location: job.postcode ? `${job.postcode} area` : 'Area details available after purchase',
         description: job.description.substring(0, 300) + '...',
         customer: {
@@ -234,11 +320,17 @@ export const getAllJobs = catchAsync(async (req: AuthenticatedRequest, res: Resp
           phone: undefined,
         },
         applicationCount: job.applications ? job.applications.length : 0,
+        // Coordinates would reveal the job location before purchase - expose distance only
+        latitude: undefined,
+        longitude: undefined,
+        questionnaireAnswers: undefined, // shown (redacted) on the job page, see getJobWithAccess
         _count: undefined, // strip internal count from response
       }))
     : visibleJobs.map((job: any) => ({
         ...job,
         applicationCount: job.applications ? job.applications.length : 0,
+        // Only the customer and admins see the answers in the list; others get the redacted job page
+        questionnaireAnswers: isAdmin || job.customer.user.id === req.user?.id ? job.questionnaireAnswers : undefined,
         _count: undefined,
       }));
 
@@ -246,12 +338,7 @@ export const getAllJobs = catchAsync(async (req: AuthenticatedRequest, res: Resp
     status: 'success',
     data: {
       jobs: filteredJobs,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -398,6 +485,7 @@ export const createJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
     category,
     location,
     budget,
+    estimatedValue,
     urgent,
     serviceId,
     jobSize,
@@ -407,13 +495,23 @@ export const createJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
     urgency,
     timeline,
     requirements,
+    questionnaireAnswers,
+    propertyId,
+    draft,
   } = req.body;
 
+  // Drafts are saved privately and published later via POST /api/jobs/:id/publish
+  const saveAsDraft = draft === true || draft === 'true';
+
   // Validate budget if provided - it must be positive
   if (budget !== undefined && budget !== null && (Number(budget) <= 0 || isNaN(Number(budget)))) {
     return next(new AppError('Budget must be a positive number if provided', 400));
   }
 
+  if (estimatedValue !== undefined && estimatedValue !== null && (Number(estimatedValue) <= 0 || isNaN(Number(estimatedValue)))) {
+    return next(new AppError('Estimated value must be a positive number if provided', 400));
+  }
+
   // Get or create customer profile
   let customer = await prisma.customer.findUnique({
     where: { userId: req.user!.id },
@@ -436,6 +534,11 @@ export const createJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
     });
   }
 
+  // Jobs at a saved property take its address unless the form sent its own
+  const property = await resolveJobProperty(customer.id, propertyId);
+  const jobLocationText = location || (property ? formatPropertyLocation(property) : undefined);
+  const jobPostcode = postcode || property?.postcode;
+
   // Note: Email is not updated when posting a job - it should remain unchanged
   // The email field in the job form is for contact purposes only, not for updating user account
 
@@ -470,9 +573,30 @@ export const createJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
     finalServiceId = defaultService.id;
   }
 
+  // Answers are checked against the service's questionnaire; required ones can wait until publish
+  const service = await prisma.service.findUnique({
+    where: { id: finalServiceId },
+    select: { questionnaire: true, smallJobMaxValue: true, mediumJobMaxValue: true },
+  });
+  const answers = validateQuestionnaireAnswers(getServiceQuestions(service?.questionnaire), questionnaireAnswers, {
+    requireAll: !saveAsDraft,
+  });
+
+  // Lead price follows job size, so derive it from the job's value where we have one
+  const requestedSize = isJobSize(jobSize) ? jobSize : 'MEDIUM';
+  const finalJobSize = service
+    ? resolveJobSize({ estimatedValue, budget }, service, requestedSize).jobSize
+    : requestedSize;
+
   // Get max contractors per job from global settings (default: 5)
   const maxContractors = await getMaxContractorsPerJob();
 
+  // Geocode the job from its postcode so contractors can be matched by distance
+  const jobLocation = lookupPostcodeCentroid(jobPostcode);
+
+  // Customers with repeated approved bad-lead claims have new jobs held for review
+  const flagForBadLeads = await shouldFlagNewJob(customer.badLeadCount);
+
   const job = await prisma.job.create({
     data: {
       customerId: customer.id,
@@ -480,14 +604,24 @@ export const createJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
       title,
       description,
       budget,
-      location,
-      postcode,
-      jobSize: jobSize || 'MEDIUM',
+      location: jobLocationText,
+      postcode: jobPostcode,
+      propertyId: property?.id ?? null,
+      latitude: jobLocation?.latitude ?? null,
+      longitude: jobLocation?.longitude ?? null,
+      estimatedValue: estimatedValue || null,
+      jobSize: finalJobSize,
       urgency: urgency || 'flexible',
       isUrgent: urgent || false,
       requiresQuote: false,
-      status: 'POSTED', // Automatically post the job when created
+      questionnaireAnswers: answers,
+      status: saveAsDraft ? 'DRAFT' : 'POSTED', // Post straight away unless saved as a draft
       maxContractorsPerJob: maxContractors, // Uses global setting (default: 5)
+      ...(flagForBadLeads && {
+        isFlagged: true,
+        flaggedAt: new Date(),
+        flagReason: `Customer has ${customer.badLeadCount} approved lead quality claims`,
+      }),
     },
     include: {
       customer: {
@@ -504,71 +638,21 @@ export const createJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
         select: {
           id: true,
           name: true,
+          category: true,
         },
       },
     },
   });
 
-  // Notify eligible contractors about new job posting (in-app + email)
-  try {
-    const { notifyContractorsOfNewJob } = await import('../services/notificationService');
-    const { sendNewJobPostedEmail } = await import('../services/emailNotificationService');
-
-    const jobService = await prisma.service.findUnique({
-      where: { id: finalServiceId },
-      select: { name: true, category: true },
-    });
-
-    const eligibleContractors = await findContractorsForJobNotification(finalServiceId);
-
-    console.info(
-      `[notifications][new-job] jobId=${job.id} serviceId=${finalServiceId} service="${jobService?.name ?? 'unknown'}" eligibleContractors=${eligibleContractors.length}`
-    );
+  await recordInitialJobStatus(job.id, job.status, jobActorFromUser(req.user!));
 
-    if (eligibleContractors.length > 0) {
-      const budgetLabel = Number.isFinite(Number(budget)) ? `£${Number(budget).toFixed(2)}` : 'Quote required';
-      const categoryLabel = jobService?.category ? ` (${jobService.category})` : '';
-
-      const { created, failed } = await notifyContractorsOfNewJob(
-        eligibleContractors.map((c) => ({ userId: c.user.id })),
-        {
-          id: job.id,
-          title: String(title),
-          isUrgent: job.isUrgent,
-          budgetLabel,
-          serviceName: jobService?.name,
-          categoryLabel,
-        }
-      );
-      console.info(
-        `[notifications][new-job] in-app created=${created} failed=${failed} jobId=${job.id}`
-      );
-
-      const emailPromises = eligibleContractors.map((contractor) =>
-        sendNewJobPostedEmail({
-          contractorEmail: contractor.user.email,
-          contractorName: contractor.businessName || contractor.user.name,
-          jobTitle: String(title),
-          jobId: job.id,
-          budget: Number.isFinite(Number(budget)) ? Number(budget) : null,
-          isUrgent: job.isUrgent,
-          category: jobService?.category || (category ? String(category) : undefined),
-        })
-      );
-      Promise.allSettled(emailPromises).then((results) => {
-        const sent = results.filter(r => r.status === 'fulfilled' && r.value).length;
-        console.info(`[notifications][new-job] emails sent=${sent}/${eligibleContractors.length} jobId=${job.id}`);
-      });
-    } else {
-      console.info(`[notifications][new-job] no eligible contractors for jobId=${job.id} serviceId=${finalServiceId}`);
-    }
-  } catch (error) {
-    console.error('Failed to notify contractors about new job:', error);
+  if (!saveAsDraft) {
+    await announceJobToContractors(job, category ? String(category) : undefined);
   }
 
   res.status(201).json({
     status: 'success',
-    message: 'Job created and posted successfully',
+    message: saveAsDraft ? 'Job saved as a draft' : 'Job created and posted successfully',
     data: {
       job,
     },
@@ -587,6 +671,13 @@ export const updateJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
           user: true,
         },
       },
+      service: {
+        select: {
+          questionnaire: true,
+          smallJobMaxValue: true,
+          mediumJobMaxValue: true,
+        },
+      },
     },
   });
 
@@ -608,12 +699,15 @@ export const updateJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
     category,
     location,
     budget,
+    estimatedValue,
     urgent,
     images,
     requirements,
     timeline,
     contactPreference,
     status,
+    postcode,
+    questionnaireAnswers,
   } = req.body;
 
   // Validate budget if provided - it must be positive
@@ -621,20 +715,62 @@ export const updateJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
     return next(new AppError('Budget must be a positive number', 400));
   }
 
-  const updatedJob = await prisma.job.update({
-    where: { id: req.params.id },
+  if (estimatedValue !== undefined && estimatedValue !== null && !(Number(estimatedValue) > 0)) {
+    return next(new AppError('Estimated value must be a positive number', 400));
+  }
+
+  // Re-classify the size when the job's value changes, unless an admin has fixed it
+  let reclassifiedSize: JobSize | undefined;
+  if ((budget !== undefined || estimatedValue !== undefined) && !job.jobSizeOverriddenAt) {
+    reclassifiedSize = resolveJobSize(
+      {
+        estimatedValue: estimatedValue !== undefined ? estimatedValue : job.estimatedValue,
+        budget: budget !== undefined ? budget : job.budget,
+      },
+      job.service,
+      job.jobSize
+    ).jobSize;
+  }
+
+  // Publishing a draft requires every required question to be answered
+  const publishing = job.status === 'DRAFT' && status === 'POSTED';
+  let answers: Prisma.InputJsonValue | undefined;
+  if (questionnaireAnswers !== undefined || publishing) {
+    answers = validateQuestionnaireAnswers(
+      getServiceQuestions(job.service.questionnaire),
+      questionnaireAnswers !== undefined ? questionnaireAnswers : job.questionnaireAnswers,
+      { requireAll: publishing }
+    );
+  }
+
+  // Re-geocode when the postcode changes so distance matching stays accurate
+  const jobLocation = postcode !== undefined ? lookupPostcodeCentroid(postcode) : undefined;
+
+  // Status changes go through the lifecycle rules; other fields are written in the same update
+  const updatedJob = await transitionJobStatus({
+    jobId: req.params.id,
+    to: status || job.status,
+    actor: jobActorFromUser(req.user!),
     data: {
       ...(title && { title }),
       ...(description && { description }),
       ...(category && { category }),
       ...(location && { location }),
       ...(budget && { budget }),
+      ...(estimatedValue !== undefined && { estimatedValue: estimatedValue || null }),
+      ...(reclassifiedSize && reclassifiedSize !== job.jobSize && { jobSize: reclassifiedSize }),
       ...(urgent !== undefined && { urgent }),
       ...(images && { images }),
       ...(requirements && { requirements }),
       ...(timeline && { timeline }),
       ...(contactPreference && { contactPreference }),
-      ...(status && { status }),
+      ...(answers !== undefined && { questionnaireAnswers: answers }),
+      ...(postcode !== undefined && {
+        postcode,
+        latitude: jobLocation?.latitude ?? null,
+        longitude: jobLocation?.longitude ?? null,
+      }),
+      ...(publishing && { createdAt: new Date() }),
     },
     include: {
       customer: {
@@ -647,6 +783,13 @@ export const updateJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
           },
         },
       },
+      service: {
+        select: {
+          id: true,
+          name: true,
+          category: true,
+        },
+      },
       applications: {
         where: {
           status: 'ACCEPTED',
@@ -666,6 +809,11 @@ export const updateJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
     },
   });
 
+  if (publishing) {
+    // Drafts from a recurring series may go to the previous contractor first
+    await openJobToContractors(updatedJob.id);
+  }
+
   res.status(200).json({
     status: 'success',
     data: {
@@ -711,6 +859,311 @@ export const deleteJob = catchAsync(async (req: AuthenticatedRequest, res: Respo
   });
 });
 
+// @desc    Re-list an expired job
+// @route   POST /api/jobs/:id/relist
+// @access  Private (Customer who owns the job)
+export const relistJob = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    include: {
+      customer: true,
+    },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (job.customer.userId !== req.user!.id) {
+    return next(new AppError('Not authorized to re-list this job', 403));
+  }
+
+  if (job.status !== 'EXPIRED') {
+    return next(new AppError('Only expired jobs can be re-listed', 409));
+  }
+
+  // Re-listing starts a fresh listing period: createdAt drives both the "newest"
+  // ordering contractors see and the expiry clock
+  const relistedJob = await transitionJobStatus({
+    jobId: job.id,
+    to: 'POSTED',
+    actor: jobActorFromUser(req.user!),
+    data: {
+      createdAt: new Date(),
+      expiredAt: null,
+      expiryWarningSentAt: null,
+      relistCount: { increment: 1 },
+    },
+    include: {
+      service: {
+        select: {
+          id: true,
+          name: true,
+          category: true,
+        },
+      },
+    },
+  });
+
+  await announceJobToContractors(relistedJob);
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Job re-listed successfully',
+    data: {
+      job: relistedJob,
+    },
+  });
+});
+
+// @desc    Publish a draft job
+// @route   POST /api/jobs/:id/publish
+// @access  Private (Customer who owns the job)
+export const publishJob = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    include: {
+      customer: true,
+      service: {
+        select: {
+          questionnaire: true,
+        },
+      },
+    },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (job.customer.userId !== req.user!.id) {
+    return next(new AppError('Not authorized to publish this job', 403));
+  }
+
+  if (job.status !== 'DRAFT') {
+    return next(new AppError('Only draft jobs can be published', 409));
+  }
+
+  // Drafts may be saved part-answered, but a posted job needs every required answer
+  const answers = validateQuestionnaireAnswers(getServiceQuestions(job.service.questionnaire), job.questionnaireAnswers, {
+    requireAll: true,
+  });
+
+  // The listing period (and expiry clock) starts when the draft goes live
+  const publishedJob = await transitionJobStatus({
+    jobId: job.id,
+    to: 'POSTED',
+    actor: jobActorFromUser(req.user!),
+    data: {
+      createdAt: new Date(),
+      questionnaireAnswers: answers,
+    },
+    include: {
+      service: {
+        select: {
+          id: true,
+          name: true,
+          category: true,
+        },
+      },
+    },
+  });
+
+  // Drafts from a recurring series may go to the previous contractor first
+  await openJobToContractors(publishedJob.id);
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Job published successfully',
+    data: {
+      job: publishedJob,
+    },
+  });
+});
+
+// @desc    Copy a job into a new draft
+// @route   POST /api/jobs/:id/clone
+// @access  Private (Customer who owns the job)
+export const cloneJobAsDraft = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    select: { id: true, customer: { select: { userId: true } } },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (job.customer.userId !== req.user!.id) {
+    return next(new AppError('Not authorized to copy this job', 403));
+  }
+
+  const draft = await cloneJob(job.id, { status: 'DRAFT', actor: jobActorFromUser(req.user!) });
+
+  res.status(201).json({
+    status: 'success',
+    message: 'Job copied to a new draft',
+    data: {
+      job: draft,
+    },
+  });
+});
+
+// @desc    Get a job's recurrence rule
+// @route   GET /api/jobs/:id/recurrence
+// @access  Private (Customer who owns the job)
+export const getJobRecurrence = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    select: {
+      customer: { select: { userId: true } },
+      recurrence: {
+        include: {
+          jobs: {
+            select: { id: true, title: true, status: true, createdAt: true, wonByContractorId: true },
+            orderBy: { createdAt: 'desc' },
+          },
+        },
+      },
+    },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (job.customer.userId !== req.user!.id) {
+    return next(new AppError('Not authorized to view this job\'s schedule', 403));
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      recurrence: job.recurrence,
+    },
+  });
+});
+
+// @desc    Repeat a job on a schedule (creates or updates the rule)
+// @route   PUT /api/jobs/:id/recurrence
+// @access  Private (Customer who owns the job)
+export const setJobRecurrence = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    select: {
+      id: true,
+      status: true,
+      createdAt: true,
+      customerId: true,
+      recurrenceId: true,
+      customer: { select: { userId: true } },
+    },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (job.customer.userId !== req.user!.id) {
+    return next(new AppError('Not authorized to schedule this job', 403));
+  }
+
+  if (job.status === 'CANCELLED') {
+    return next(new AppError('Cancelled jobs cannot be repeated', 400));
+  }
+
+  const rule = parseRecurrenceRule(req.body);
+  // Occurrences are counted from when this job was posted
+  const nextRunAt = getNextRunAt(job.createdAt, rule.frequency, rule.interval);
+
+  const recurrence = job.recurrenceId
+    ? await prisma.jobRecurrence.update({
+        where: { id: job.recurrenceId },
+        data: { ...rule, nextRunAt, isActive: true },
+      })
+    : await prisma.jobRecurrence.create({
+        data: {
+          ...rule,
+          nextRunAt,
+          customerId: job.customerId,
+          jobs: { connect: { id: job.id } },
+        },
+      });
+
+  res.status(200).json({
+    status: 'success',
+    message: `Job will repeat - next on ${nextRunAt.toLocaleDateString('en-GB')}`,
+    data: {
+      recurrence,
+    },
+  });
+});
+
+// @desc    Stop repeating a job
+// @route   DELETE /api/jobs/:id/recurrence
+// @access  Private (Customer who owns the job)
+export const stopJobRecurrence = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    select: { recurrenceId: true, customer: { select: { userId: true } } },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (job.customer.userId !== req.user!.id) {
+    return next(new AppError('Not authorized to change this job\'s schedule', 403));
+  }
+
+  if (!job.recurrenceId) {
+    return next(new AppError('This job does not repeat', 400));
+  }
+
+  // Past occurrences keep their link so the series history is still visible
+  const recurrence = await prisma.jobRecurrence.update({
+    where: { id: job.recurrenceId },
+    data: { isActive: false },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Job will no longer repeat',
+    data: {
+      recurrence,
+    },
+  });
+});
+
+// @desc    Pass on a repeat job offered under first refusal, releasing it to everyone
+// @route   POST /api/jobs/:id/first-refusal/decline
+// @access  Private (Contractor holding the first refusal)
+export const declineFirstRefusal = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+  const job = await prisma.job.findUnique({
+    where: { id: req.params.id },
+    select: { id: true, firstRefusalContractorId: true, firstRefusalUntil: true },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (!contractor || job.firstRefusalContractorId !== contractor.id || !job.firstRefusalUntil) {
+    return next(new AppError('This job is not being held for you', 400));
+  }
+
+  await releaseFirstRefusal(job.id);
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Job released to other contractors',
+  });
+});
+
 // @desc    Apply for job
 // @route   POST /api/jobs/:id/apply
 // @access  Private (Contractor only)
@@ -975,31 +1428,27 @@ export const startWork = catchAsync(async (req: AuthenticatedRequest, res: Respo
     return next(new AppError('Not authorized to start work on this job', 403));
   }
 
-  if (job.status !== 'POSTED') {
-    return next(new AppError('Job is not in a state where work can be started', 400));
-  }
-
   if (!job.wonByContractorId) {
     return next(new AppError('No contractor has been selected for this job yet', 400));
   }
-
-  // Update job status to IN_PROGRESS and reject other pending applications
-  await prisma.$transaction([
-    prisma.job.update({
-      where: { id: req.params.id },
-      data: {
-        status: 'IN_PROGRESS',
-      },
-    }),
+
+  const actor = jobActorFromUser(req.user!);
+  assertJobTransition(job, 'IN_PROGRESS', actor);
+
+  // Update job status to IN_PROGRESS and reject other pending applications
+  const transition = await prisma.$transaction(async (tx) => {
+    const applied = await applyJobTransition(tx, { jobId: req.params.id, to: 'IN_PROGRESS', actor });
     // Now reject other pending applications since work has officially started
-    prisma.jobApplication.updateMany({
+    await tx.jobApplication.updateMany({
       where: {
         jobId: req.params.id,
         status: 'PENDING',
       },
       data: { status: 'REJECTED' },
-    }),
-  ]);
+    });
+    return applied;
+  });
+  await runJobTransitionEffects(transition);
 
   res.status(200).json({
     status: 'success',
@@ -1333,16 +1782,12 @@ export const markJobAsWon = catchAsync(async (req: AuthenticatedRequest, res: Re
     return next(new AppError('You have not been accepted for this job', 403));
   }
 
-  // Can only mark as won from POSTED or IN_PROGRESS status
-  if (job.status !== 'POSTED' && job.status !== 'IN_PROGRESS') {
-    return next(new AppError('Job cannot be marked as won from current status', 400));
-  }
-
   // Update job status to IN_PROGRESS and set the contractor (WON status is deprecated)
-  const updatedJob = await prisma.job.update({
-    where: { id: req.params.id },
+  const updatedJob = await transitionJobStatus({
+    jobId: req.params.id,
+    to: 'IN_PROGRESS',
+    actor: jobActorFromUser(req.user!),
     data: {
-      status: 'IN_PROGRESS',
       wonByContractorId: contractor.id,
     },
     include: {
@@ -1434,16 +1879,12 @@ export const markJobAsCompleted = catchAsync(async (req: AuthenticatedRequest, r
     return next(new AppError('You are not assigned to this job', 403));
   }
 
-  // Can only mark as completed from IN_PROGRESS status (WON is deprecated, use IN_PROGRESS)
-  if (job.status !== 'IN_PROGRESS') {
-    return next(new AppError('Job cannot be marked as completed from current status', 400));
-  }
-
   // Update job status to COMPLETED with final amount
-  const updatedJob = await prisma.job.update({
-    where: { id: req.params.id },
+  const updatedJob = await transitionJobStatus({
+    jobId: req.params.id,
+    to: 'COMPLETED',
+    actor: jobActorFromUser(req.user!),
     data: {
-      status: 'COMPLETED',
       finalAmount: finalAmount,
       completionDate: new Date(),
       customerConfirmed: false, // Waiting for customer confirmation
@@ -1502,14 +1943,11 @@ export const completeJob = catchAsync(async (req: AuthenticatedRequest, res: Res
     return next(new AppError('Not authorized to complete this job', 403));
   }
 
-  if (job.status !== 'IN_PROGRESS') {
-    return next(new AppError('Job is not in progress', 400));
-  }
-
-  const updatedJob = await prisma.job.update({
-    where: { id: req.params.id },
+  const updatedJob = await transitionJobStatus({
+    jobId: req.params.id,
+    to: 'COMPLETED',
+    actor: jobActorFromUser(req.user!),
     data: {
-      status: 'COMPLETED',
       completionDate: new Date(),
     },
     include: {
@@ -1613,10 +2051,11 @@ export const updateJobStatus = catchAsync(async (req: AuthenticatedRequest, res:
   }
 
   // Update job status
-  const updatedJob = await prisma.job.update({
-    where: { id: req.params.id },
-    data: { 
-      status,
+  const updatedJob = await transitionJobStatus({
+    jobId: req.params.id,
+    to: status,
+    actor: jobActorFromUser(req.user!),
+    data: {
       ...(status === 'COMPLETED' && { completionDate: new Date() })
     },
     include: {
@@ -1708,6 +2147,9 @@ export const checkJobAccess = catchAsync(async (req: AuthenticatedRequest, res:
           largeJobPrice: true,
         },
       },
+      _count: {
+        select: { jobAccess: true },
+      },
     },
   });
 
@@ -1716,25 +2158,8 @@ export const checkJobAccess = catchAsync(async (req: AuthenticatedRequest, res:
   }
 
   // Calculate lead price
-  let leadPrice = 0;
-  if (job.service) {
-    switch (job.jobSize) {
-      case 'SMALL':
-        leadPrice = job.service.smallJobPrice ? Number(job.service.smallJobPrice) : 0;
-        break;
-      case 'MEDIUM':
-        leadPrice = job.service.mediumJobPrice ? Number(job.service.mediumJobPrice) : 0;
-        break;
-      case 'LARGE':
-        leadPrice = job.service.largeJobPrice ? Number(job.service.largeJobPrice) : 0;
-        break;
-    }
-  }
-
-  // Use override price if set
-  if (job.leadPrice && Number(job.leadPrice) > 0) {
-    leadPrice = Number(job.leadPrice);
-  }
+  const pricing = await quoteLeadPrice(job, job._count.jobAccess);
+  const leadPrice = pricing.price;
 
   res.status(200).json({
     status: 'success',
@@ -1745,6 +2170,7 @@ export const checkJobAccess = catchAsync(async (req: AuthenticatedRequest, res:
       subscriptionPlan: hasActiveSubscription ? contractor.subscription?.plan : null,
       creditsBalance: contractor.creditsBalance,
       leadPrice: leadPrice, // Show actual lead price for all contractors
+      leadPricing: pricing,
       jobSize: job.jobSize,
       estimatedValue: job.estimatedValue,
     },
@@ -1777,8 +2203,19 @@ export const getJobWithAccess = catchAsync(async (req: AuthenticatedRequest, res
           smallJobPrice: true,
           mediumJobPrice: true,
           largeJobPrice: true,
+          questionnaire: true,
         },
       },
+      attachments: {
+        orderBy: { createdAt: 'asc' },
+      },
+      property: {
+        select: { id: true, label: true, address: true, city: true, postcode: true, accessNotes: true },
+      },
+      appointments: {
+        include: APPOINTMENT_HISTORY_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+      },
       applications: {
         include: {
           contractor: {
@@ -1845,6 +2282,16 @@ export const getJobWithAccess = catchAsync(async (req: AuthenticatedRequest, res
     return next(new AppError('Job not found', 404));
   }
 
+  // Drafts are only visible to the customer writing them (and admins)
+  if (
+    job.status === 'DRAFT' &&
+    job.customer.user.id !== req.user?.id &&
+    req.user?.role !== 'ADMIN' &&
+    req.user?.role !== 'SUPER_ADMIN'
+  ) {
+    return next(new AppError('Job not found', 404));
+  }
+
   // Prevent contractors from viewing IN_PROGRESS jobs they're not assigned to
   if (req.user && req.user.role === 'CONTRACTOR' && job.status === 'IN_PROGRESS') {
     const contractor = await prisma.contractor.findUnique({
@@ -1858,10 +2305,26 @@ export const getJobWithAccess = catchAsync(async (req: AuthenticatedRequest, res
     }
   }
 
+  // Repeat jobs held for their previous contractor are hidden from other contractors until released
+  if (req.user?.role === 'CONTRACTOR' && job.firstRefusalUntil) {
+    const contractor = await prisma.contractor.findUnique({
+      where: { userId: req.user.id },
+      select: { id: true },
+    });
+
+    if (isReservedForOtherContractor(job, contractor?.id ?? null)) {
+      return next(new AppError('Job not found', 404));
+    }
+  }
+
+  const isJobOwner = !!req.user && job.customer.user.id === req.user.id;
+  const isAdmin = req.user?.role === 'ADMIN' || req.user?.role === 'SUPER_ADMIN';
+
   // Check if user is a contractor and has access
   let hasAccess = false;
   let hasClaimedWon = false;
   let leadPrice = 0;
+  let leadPricing: LeadPriceQuote | null = null;
   let hasSubscription = false;
   let subscriptionPlan = null;
   let contractorId: string | null = null;
@@ -1910,34 +2373,21 @@ export const getJobWithAccess = catchAsync(async (req: AuthenticatedRequest, res
       hasAccess = !!existingAccess || job.wonByContractorId === contractor.id;
       hasClaimedWon = !!existingAccess?.claimedWon;
 
-      // Calculate lead price
-      if (job.service) {
-        switch (job.jobSize) {
-          case 'SMALL':
-            leadPrice = job.service.smallJobPrice ? Number(job.service.smallJobPrice) : 0;
-            break;
-          case 'MEDIUM':
-            leadPrice = job.service.mediumJobPrice ? Number(job.service.mediumJobPrice) : 0;
-            break;
-          case 'LARGE':
-            leadPrice = job.service.largeJobPrice ? Number(job.service.largeJobPrice) : 0;
-            break;
-        }
-      }
-
-      // Use override price if set
-      if (job.leadPrice && Number(job.leadPrice) > 0) {
-        leadPrice = Number(job.leadPrice);
-      }
+      // Calculate lead price (size price, admin override or dynamic price)
+      leadPricing = await quoteLeadPrice(job, job.jobAccess.length);
+      leadPrice = leadPricing.price;
       
       // Subscribers can choose to pay lead price or use credits
       // leadPrice remains the same for all contractors
     }
   } else {
-    // Non-contractors (customers, admins) have full access
-    hasAccess = true;
+    // The job's customer and admins have full access. Anyone else (other customers, anonymous
+    // visitors) gets the public listing without the property.
+    hasAccess = isJobOwner || isAdmin;
   }
 
+  const questions = getServiceQuestions(job.service?.questionnaire);
+
   // For contractors without access (and who haven't won), return heavily filtered data
   // Contractors who won should always have access
   if (req.user?.role === 'CONTRACTOR' && !hasAccess && job.wonByContractorId !== contractorId) {
@@ -1963,10 +2413,22 @@ export const getJobWithAccess = catchAsync(async (req: AuthenticatedRequest, res
       hasClaimedWon,
       leadPrice,
       currentLeadPrice: leadPrice,
+      leadPricing,
       accessCount: job.jobAccess?.length || 0,
       contractorsWithAccess: job.jobAccess?.length || 0,
       spotsRemaining: job.maxContractorsPerJob - (job.jobAccess?.length || 0),
       maxContractorsPerJob: job.maxContractorsPerJob,
+      // Only questions the service marks as safe to show before purchase
+      questionnaire: buildQuestionnaireView(questions, job.questionnaireAnswers, { hasAccess: false }),
+      // Photos and documents may show the address or the customer, so only counts are shared
+      attachmentCounts: {
+        images: job.attachments.filter((attachment) => attachment.kind === 'IMAGE').length,
+        documents: job.attachments.filter((attachment) => attachment.kind === 'DOCUMENT').length,
+      },
+      attachments: [],
+      appointments: [],
+      // Access notes can include key safe and alarm codes
+      property: null,
       applications: [],
       reviews: [],
       milestones: [],
@@ -1980,12 +2442,32 @@ export const getJobWithAccess = catchAsync(async (req: AuthenticatedRequest, res
     });
   }
 
+  // Customers and admins see every visit on the job, contractors only their own
+  const canSeeAllAppointments = isJobOwner || isAdmin;
+
   const jobWithAccess = {
     ...job,
+    // Access notes can include key safe and alarm codes
+    property: hasAccess ? job.property : null,
+    // Photos and documents may show the address or the customer, so only counts are shared
+    attachments: hasAccess ? job.attachments : [],
+    ...(!hasAccess && {
+      attachmentCounts: {
+        images: job.attachments.filter((attachment) => attachment.kind === 'IMAGE').length,
+        documents: job.attachments.filter((attachment) => attachment.kind === 'DOCUMENT').length,
+      },
+    }),
+    // Raw answers are replaced by the view below, which is redacted before purchase
+    questionnaireAnswers: hasAccess ? job.questionnaireAnswers : undefined,
+    appointments: job.appointments.filter(
+      (appointment) => canSeeAllAppointments || (contractorId !== null && appointment.contractorId === contractorId)
+    ),
+    questionnaire: buildQuestionnaireView(questions, job.questionnaireAnswers, { hasAccess }),
     hasAccess,
     hasClaimedWon,
     leadPrice,
     currentLeadPrice: leadPrice,
+    leadPricing,
     accessCount: job.jobAccess?.length || 0,
     contractorsWithAccess: job.jobAccess?.length || 0,
     spotsRemaining: job.maxContractorsPerJob - (job.jobAccess?.length || 0),
@@ -2028,32 +2510,7 @@ export const getJobWithAccess = catchAsync(async (req: AuthenticatedRequest, res
 // @access  Private (job owner or assigned contractor)
 export const getJobMilestones = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const { id } = req.params;
-  const userId = req.user?.id;
-
-  // Verify job access
-  const job = await prisma.job.findUnique({
-    where: { id },
-    include: {
-      customer: { include: { user: true } },
-      applications: {
-        where: { status: 'ACCEPTED' },
-        include: { contractor: { include: { user: true } } }
-      }
-    }
-  });
-
-  if (!job) {
-    return next(new AppError('Job not found', 404));
-  }
-
-  // Check if user has access (job owner or assigned contractor)
-  const isJobOwner = job.customer.user.id === userId;
-  const assignedContractor = job.applications.find((app: any) => app.status === 'ACCEPTED')?.contractor;
-  const isAssignedContractor = assignedContractor?.user.id === userId;
-
-  if (!isJobOwner && !isAssignedContractor) {
-    return next(new AppError('Access denied', 403));
-  }
+  const { job } = await getMilestoneJob(id, req.user?.id);
 
   const milestones = await prisma.milestone.findMany({
     where: { jobId: id },
@@ -2062,7 +2519,8 @@ export const getJobMilestones = catchAsync(async (req: AuthenticatedRequest, res
 
   res.status(200).json({
     status: 'success',
-    data: milestones
+    data: milestones,
+    summary: summariseMilestones(milestones, getAgreedJobAmount(job)),
   });
 });
 
@@ -2072,42 +2530,24 @@ export const getJobMilestones = catchAsync(async (req: AuthenticatedRequest, res
 export const createJobMilestone = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const { id } = req.params;
   const { title, description, dueDate } = req.body;
-  const userId = req.user?.id;
-
-  // Verify job access
-  const job = await prisma.job.findUnique({
-    where: { id },
-    include: {
-      customer: { include: { user: true } },
-      applications: {
-        where: { status: 'ACCEPTED' },
-        include: { contractor: { include: { user: true } } }
-      }
-    }
-  });
-
-  if (!job) {
-    return next(new AppError('Job not found', 404));
-  }
-
-  // Check if user has access (job owner or assigned contractor)
-  const isJobOwner = job.customer.user.id === userId;
-  const assignedContractor = job.applications.find((app: any) => app.status === 'ACCEPTED')?.contractor;
-  const isAssignedContractor = assignedContractor?.user.id === userId;
-
-  if (!isJobOwner && !isAssignedContractor) {
-    return next(new AppError('Access denied', 403));
-  }
+  const { job } = await getMilestoneJob(id, req.user?.id);
 
   if (!title) {
     return next(new AppError('Milestone title is required', 400));
   }
 
+  const amount = parseMilestoneAmount(req.body.amount) ?? null;
+  if (amount !== null) {
+    const existing = await prisma.milestone.findMany({ where: { jobId: id } });
+    assertWithinAgreedAmount(existing, { amount }, getAgreedJobAmount(job));
+  }
+
   const milestone = await prisma.milestone.create({
     data: {
       jobId: id,
       title,
       description,
+      amount,
       dueDate: dueDate ? new Date(dueDate) : null
     }
   });
@@ -2124,32 +2564,7 @@ export const createJobMilestone = catchAsync(async (req: AuthenticatedRequest, r
 export const updateJobMilestone = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const { id, milestoneId } = req.params;
   const { title, description, status, dueDate } = req.body;
-  const userId = req.user?.id;
-
-  // Verify job access
-  const job = await prisma.job.findUnique({
-    where: { id },
-    include: {
-      customer: { include: { user: true } },
-      applications: {
-        where: { status: 'ACCEPTED' },
-        include: { contractor: { include: { user: true } } }
-      }
-    }
-  });
-
-  if (!job) {
-    return next(new AppError('Job not found', 404));
-  }
-
-  // Check if user has access (job owner or assigned contractor)
-  const isJobOwner = job.customer.user.id === userId;
-  const assignedContractor = job.applications.find((app: any) => app.status === 'ACCEPTED')?.contractor;
-  const isAssignedContractor = assignedContractor?.user.id === userId;
-
-  if (!isJobOwner && !isAssignedContractor) {
-    return next(new AppError('Access denied', 403));
-  }
+  const { job } = await getMilestoneJob(id, req.user?.id);
 
   // Verify milestone exists and belongs to this job
   const existingMilestone = await prisma.milestone.findFirst({
@@ -2160,10 +2575,26 @@ export const updateJobMilestone = catchAsync(async (req: AuthenticatedRequest, r
     return next(new AppError('Milestone not found', 404));
   }
 
+  // Approved stages have been invoiced and charged commission
+  if (existingMilestone.status === 'APPROVED') {
+    return next(new AppError('Approved stages can no longer be changed', 409));
+  }
+
+  if (status !== undefined && !EDITABLE_MILESTONE_STATUSES.includes(status)) {
+    return next(new AppError(`status must be one of: ${EDITABLE_MILESTONE_STATUSES.join(', ')} - use the approve endpoint to sign a stage off`, 400));
+  }
+
+  const amount = parseMilestoneAmount(req.body.amount);
+
   // Prepare update data
   const updateData: any = {};
   if (title !== undefined) updateData.title = title;
   if (description !== undefined) updateData.description = description;
+  if (amount !== undefined) {
+    const existing = await prisma.milestone.findMany({ where: { jobId: id } });
+    assertWithinAgreedAmount(existing, { id: milestoneId, amount }, getAgreedJobAmount(job));
+    updateData.amount = amount;
+  }
   if (status !== undefined) {
     updateData.status = status;
     if (status === 'COMPLETED') {
@@ -2190,40 +2621,32 @@ export const updateJobMilestone = catchAsync(async (req: AuthenticatedRequest, r
 // @access  Private (job owner or assigned contractor)
 export const deleteJobMilestone = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const { id, milestoneId } = req.params;
-  const userId = req.user?.id;
+  await getMilestoneJob(id, req.user?.id);
 
-  // Verify job access
-  const job = await prisma.job.findUnique({
-    where: { id },
-    include: {
-      customer: { include: { user: true } },
-      applications: {
-        where: { status: 'ACCEPTED' },
-        include: { contractor: { include: { user: true } } }
-      }
-    }
+  // Verify milestone exists and belongs to this job
+  const existingMilestone = await prisma.milestone.findFirst({
+    where: { id: milestoneId, jobId: id }
   });
 
-  if (!job) {
-    return next(new AppError('Job not found', 404));
+  if (!existingMilestone) {
+    return next(new AppError('Milestone not found', 404));
   }
 
-  // Check if user has access (job owner or assigned contractor)
-  const isJobOwner = job.customer.user.id === userId;
-  const assignedContractor = job.applications.find((app: any) => app.status === 'ACCEPTED')?.contractor;
-  const isAssignedContractor = assignedContractor?.user.id === userId;
+  if (existingMilestone.status === 'APPROVED') {
+    return next(new AppError('Approved stages can no longer be removed', 409));
+  }
 
-  if (!isJobOwner && !isAssignedContractor) {
-    return next(new AppError('Access denied', 403));
+  // Deleting the stage would take its progress log with it
+  const logEntryCount = await prisma.milestoneLogEntry.count({ where: { milestoneId } });
+  if (logEntryCount > 0) {
+    return next(new AppError('This stage has progress updates logged against it and can no longer be removed', 409));
   }
 
-  // Verify milestone exists and belongs to this job
-  const existingMilestone = await prisma.milestone.findFirst({
-    where: { id: milestoneId, jobId: id }
+  const heldEscrowCount = await prisma.jobEscrow.count({
+    where: { milestoneId, status: { in: ['PENDING', ...HELD_ESCROW_STATUSES] } },
   });
-
-  if (!existingMilestone) {
-    return next(new AppError('Milestone not found', 404));
+  if (heldEscrowCount > 0) {
+    return next(new AppError('This stage has a payment held against it and can no longer be removed', 409));
   }
 
   await prisma.milestone.delete({
@@ -2236,6 +2659,70 @@ export const deleteJobMilestone = catchAsync(async (req: AuthenticatedRequest, r
   });
 });
 
+// @desc    Approve a completed stage
+// @route   POST /api/jobs/:id/milestones/:milestoneId/approve
+// @access  Private (job owner)
+export const approveJobMilestone = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const milestone = await approveMilestone({
+    jobId: req.params.id,
+    milestoneId: req.params.milestoneId,
+    userId: req.user!.id,
+  });
+
+  try {
+    await releaseJobEscrows(milestone.jobId, { milestoneId: milestone.id });
+  } catch (error) {
+    console.error('Failed to release escrowed stage payment:', error);
+  }
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Stage approved',
+    data: milestone
+  });
+});
+
+// @desc    Send a completed stage back to the contractor
+// @route   POST /api/jobs/:id/milestones/:milestoneId/reject
+// @access  Private (job owner)
+export const rejectJobMilestone = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+  const milestone = await rejectMilestone({
+    jobId: req.params.id,
+    milestoneId: req.params.milestoneId,
+    userId: req.user!.id,
+    reason: req.body.reason,
+  });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Stage sent back to the contractor',
+    data: milestone
+  });
+});
+
+// @desc    Download the invoice for an approved stage
+// @route   GET /api/jobs/:id/milestones/:milestoneId/invoice
+// @access  Private (job owner or assigned contractor)
+export const downloadMilestoneInvoice = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const invoiceData = await getStageInvoiceData({
+    jobId: req.params.id,
+    milestoneId: req.params.milestoneId,
+    userId: req.user!.id,
+  });
+
+  try {
+    const pdfBuffer = await generateInvoicePDF(invoiceData);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="invoice-${invoiceData.invoiceNumber}.pdf"`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+    res.send(pdfBuffer);
+  } catch (error) {
+    console.error('Failed to generate stage invoice PDF:', error);
+    return next(new AppError('Failed to generate invoice PDF', 500));
+  }
+});
+
 // @desc    Express interest in job (contractor)
 // @route   POST /api/jobs/:id/express-interest
 // @access  Private (Contractor who purchased access)
@@ -2298,14 +2785,28 @@ export const expressInterest = catchAsync(async (req: AuthenticatedRequest, res:
   });
 });
 
-// @desc    Select contractor for job (customer only)
+// @desc    Select contractor for job (customer only), optionally by accepting their quote
 // @route   PATCH /api/jobs/:id/select-contractor
 // @access  Private (Customer who owns the job)
 export const selectContractor = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const { contractorId } = req.body;
+  const { quoteId } = req.body;
   const jobId = req.params.id;
   const userId = req.user!.id;
 
+  const quote = quoteId ? await prisma.jobQuote.findUnique({ where: { id: quoteId } }) : null;
+  if (quoteId) {
+    if (!quote || quote.jobId !== jobId) {
+      return next(new AppError('Quote not found', 404));
+    }
+    if (req.body.contractorId && req.body.contractorId !== quote.contractorId) {
+      return next(new AppError('The quote belongs to a different contractor', 400));
+    }
+    if (!isQuoteOpen(quote)) {
+      return next(new AppError('This quote has expired or is no longer open', 400));
+    }
+  }
+  const contractorId: string = quote ? quote.contractorId : req.body.contractorId;
+
   const job = await prisma.job.findUnique({
     where: { id: jobId },
     include: {
@@ -2350,24 +2851,37 @@ export const selectContractor = catchAsync(async (req: AuthenticatedRequest, res
     return next(new AppError('The selected contractor has not purchased access to this job', 400));
   }
 
-  const updatedJob = await prisma.job.update({
-    where: { id: jobId },
-    data: {
-      wonByContractorId: contractorId,
-      // Keep status as POSTED until customer explicitly confirms contractor can start
-      // Status will be changed to IN_PROGRESS when customer confirms the selection
-    },
-    include: {
-      wonByContractor: {
-        include: {
-          user: {
-            select: {
-              name: true,
+  const { updatedJob, declinedQuotes } = await prisma.$transaction(async (tx) => {
+    // A change of mind releases any quote accepted earlier
+    await tx.jobQuote.updateMany({
+      where: { jobId, status: 'ACCEPTED' },
+      data: { status: 'DECLINED', respondedAt: new Date() },
+    });
+    const declinedQuotes = quote ? await recordQuoteAcceptance(tx, quote) : [];
+
+    const updatedJob = await tx.job.update({
+      where: { id: jobId },
+      data: {
+        wonByContractorId: contractorId,
+        // The accepted quote is the baseline the contractor's final price is compared against
+        contractorProposedAmount: quote ? quote.total : null,
+        // Keep status as POSTED until customer explicitly confirms contractor can start
+        // Status will be changed to IN_PROGRESS when customer confirms the selection
+      },
+      include: {
+        wonByContractor: {
+          include: {
+            user: {
+              select: {
+                name: true,
+              },
             },
           },
         },
       },
-    },
+    });
+
+    return { updatedJob, declinedQuotes };
   });
 
   // Send notification to customer about contractor selection
@@ -2385,11 +2899,29 @@ export const selectContractor = catchAsync(async (req: AuthenticatedRequest, res
     console.error('Failed to send contractor selection notification:', error);
   }
 
+  if (declinedQuotes.length > 0) {
+    const { createNotification } = await import('../services/notificationService');
+    await Promise.all(
+      declinedQuotes.map((declined) =>
+        createNotification({
+          userId: declined.contractor.userId,
+          title: 'Quote Not Accepted',
+          message: `The customer chose another quote for: ${job.title}`,
+          type: 'INFO',
+          actionLink: `/dashboard/contractor/jobs/${jobId}`,
+          actionText: 'View Job',
+          metadata: { jobId, quoteId: declined.id },
+        }).catch((error) => console.error('Failed to send quote declined notification:', error))
+      )
+    );
+  }
+
   res.status(200).json({
     status: 'success',
-    message: 'Contractor selected successfully',
+    message: quote ? 'Quote accepted and contractor selected' : 'Contractor selected successfully',
     data: {
       job: updatedJob,
+      quote: quote ? { ...quote, status: 'ACCEPTED' } : null,
     },
   });
 });
@@ -2409,14 +2941,9 @@ export const markJobAsWonOld = catchAsync(async (req: AuthenticatedRequest, res:
 export const proposeFinalPrice = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const jobId = req.params.id;
   const userId = req.user!.id;
-  const { finalPrice } = req.body;
+  const { finalPrice: requestedPrice } = req.body;
 
-
-
-
-
-
-  if (!finalPrice || finalPrice <= 0) {
+  if (requestedPrice !== undefined && (!requestedPrice || requestedPrice <= 0)) {
     return next(new AppError('Please provide a valid final price', 400));
   }
 
@@ -2467,26 +2994,30 @@ export const proposeFinalPrice = catchAsync(async (req: AuthenticatedRequest, re
     return next(new AppError('You are not authorized to propose final price for this job', 403));
   }
 
-  if (job.status !== 'IN_PROGRESS') {
-    return next(new AppError('Job is not in progress', 400));
-  }
-
   // Check if final price has already been proposed
-  if (job.contractorProposedAmount) {
+  if (job.finalPriceProposedAt) {
     return next(new AppError('Final price has already been proposed for this job', 400));
   }
 
+  // An accepted quote leaves its total as the baseline; the contractor can stand by it or revise it
+  const quotedAmount = job.contractorProposedAmount ? Number(job.contractorProposedAmount) : null;
+  const finalPrice = requestedPrice ?? quotedAmount;
+  if (!finalPrice) {
+    return next(new AppError('Please provide a valid final price', 400));
+  }
+
   // Set timeout for customer response (7 days)
   const timeoutAt = new Date();
   timeoutAt.setDate(timeoutAt.getDate() + 7);
 
-  const updatedJob = await prisma.job.update({
-    where: { id: jobId },
+  const updatedJob = await transitionJobStatus({
+    jobId,
+    to: 'AWAITING_FINAL_PRICE_CONFIRMATION',
+    actor: jobActorFromUser(req.user!),
     data: {
       contractorProposedAmount: finalPrice,
       finalPriceProposedAt: new Date(),
       finalPriceTimeoutAt: timeoutAt,
-      status: 'AWAITING_FINAL_PRICE_CONFIRMATION',
     },
     include: {
       wonByContractor: {
@@ -2542,6 +3073,7 @@ export const proposeFinalPrice = catchAsync(async (req: AuthenticatedRequest, re
           <p><strong>Contractor:</strong> ${contractor.user.name}</p>
           <p><strong>Proposed Final Price:</strong> £${Number(finalPrice).toFixed(2)}</p>
           <p><strong>Original Budget:</strong> £${job.budget ? Number(job.budget).toFixed(2) : 'Not specified'}</p>
+          ${quotedAmount ? `<p><strong>Accepted Quote:</strong> £${quotedAmount.toFixed(2)}</p>` : ''}
         </div>
 
         <p>Please review and confirm or reject this final price. You have 7 days to respond.</p>
@@ -2634,9 +3166,8 @@ export const completeJobWithAmount = catchAsync(async (req: AuthenticatedRequest
     return next(new AppError('You are not authorized to complete this job', 403));
   }
 
-  if (job.status !== 'IN_PROGRESS') {
-    return next(new AppError('Job is not in progress', 400));
-  }
+  const actor = jobActorFromUser(req.user!);
+  assertJobTransition(job, 'COMPLETED', actor);
 
   // Use job budget as final amount automatically
   const finalAmount = job.budget?.toNumber() || 0;
@@ -2682,10 +3213,11 @@ export const completeJobWithAmount = catchAsync(async (req: AuthenticatedRequest
 
 
 
-  const updatedJob = await prisma.job.update({
-    where: { id: jobId },
+  const updatedJob = await transitionJobStatus({
+    jobId,
+    to: 'COMPLETED',
+    actor,
     data: {
-      status: 'COMPLETED',
       finalAmount: finalAmount,
       completionDate: new Date(),
       // commissionPaid will be set when customer confirms completion
@@ -2774,23 +3306,26 @@ export const confirmFinalPrice = catchAsync(async (req: AuthenticatedRequest, re
   }
 
   if (job.status !== 'AWAITING_FINAL_PRICE_CONFIRMATION') {
-    return next(new AppError('Job is not awaiting final price confirmation', 400));
+    return next(new AppError('Job is not awaiting final price confirmation', 409));
   }
 
   if (!job.contractorProposedAmount) {
     return next(new AppError('No final price has been proposed for this job', 400));
   }
 
+  const actor = jobActorFromUser(req.user!);
   let updatedJob;
 
   if (action === 'confirm') {
-    // Customer confirmed the final price
-    updatedJob = await prisma.job.update({
-      where: { id: jobId },
+    // Customer confirmed the final price; the transition raises the commission and pays
+    // out anything held in escrow
+    updatedJob = await transitionJobStatus({
+      jobId,
+      to: 'COMPLETED',
+      actor,
       data: {
         finalAmount: Number(job.contractorProposedAmount),
         finalPriceConfirmedAt: new Date(),
-        status: 'COMPLETED',
         completionDate: new Date(),
         customerConfirmed: true,
       },
@@ -2809,9 +3344,6 @@ export const confirmFinalPrice = catchAsync(async (req: AuthenticatedRequest, re
       });
     }
 
-    // Process commission if applicable
-    await processCommissionForJob(jobId, Number(job.contractorProposedAmount));
-
     // Send confirmation email to contractor
     try {
       const { createServiceEmail } = await import('../services/emailService');
@@ -2897,7 +3429,7 @@ export const confirmFinalPrice = catchAsync(async (req: AuthenticatedRequest, re
         customerName: job.customer?.user?.name || 'Customer',
         contractorName: job.wonByContractor?.user?.name || job.wonByContractor?.businessName || 'Contractor',
         finalAmount: Number(job.contractorProposedAmount),
-        hasCommission: true, // commission is processed in processCommissionForJob above
+        hasCommission: true, // commission is raised by the COMPLETED transition above
         commissionTotal: undefined, // actual amount comes from the commission service notification
       });
     } catch (adminNotifError) {
@@ -2906,12 +3438,15 @@ export const confirmFinalPrice = catchAsync(async (req: AuthenticatedRequest, re
 
   } else {
     // Customer rejected the final price
-    updatedJob = await prisma.job.update({
-      where: { id: jobId },
+    // Back to in progress for contractor to propose new price
+    updatedJob = await transitionJobStatus({
+      jobId,
+      to: 'IN_PROGRESS',
+      actor,
+      reason: rejectionReason,
       data: {
         finalPriceRejectedAt: new Date(),
         finalPriceRejectionReason: rejectionReason,
-        status: 'IN_PROGRESS', // Back to in progress for contractor to propose new price
         contractorProposedAmount: null, // Clear the proposed amount
         finalPriceProposedAt: null,
         finalPriceTimeoutAt: null,
@@ -3038,7 +3573,7 @@ export const confirmNewJobCompletion = catchAsync(async (req: AuthenticatedReque
 
   // Job must be in COMPLETED status (marked by contractor)
   if (job.status !== 'COMPLETED') {
-    return next(new AppError('Job is not marked as completed by contractor', 400));
+    return next(new AppError('Job is not marked as completed by contractor', 409));
   }
 
   // Must have a final amount set
@@ -3088,11 +3623,11 @@ export const confirmNewJobCompletion = catchAsync(async (req: AuthenticatedReque
     });
   } else {
     // Customer disputed the completion
-    const updatedJob = await prisma.job.update({
-      where: { id: jobId },
-      data: {
-        status: 'DISPUTED',
-      },
+    const updatedJob = await transitionJobStatus({
+      jobId,
+      to: 'DISPUTED',
+      actor: jobActorFromUser(req.user!),
+      reason: feedback || null,
     });
 
     // Send notification to contractor
@@ -3241,9 +3776,9 @@ export const confirmJobCompletion = catchAsync(async (req: AuthenticatedRequest,
   });
   
   if (winningContractor && accessedViaCredits && !job.commissionPaid) {
-    // Get commission rate from settings
-    const { getCommissionRate } = await import('../services/settingsService');
-    const commissionRatePercent = await getCommissionRate();
+    // Get commission rate for the winning contractor's tier
+    const { getContractorCommissionRate } = await import('../services/subscriptionService');
+    const commissionRatePercent = await getContractorCommissionRate(winningContractor.id);
     commissionAmount = (Number(job.finalAmount) * commissionRatePercent) / 100;
     
     // Add 20% VAT on top of commission
@@ -3269,7 +3804,7 @@ export const confirmJobCompletion = catchAsync(async (req: AuthenticatedRequest,
         dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Due in 7 days
       },
     });
-    
+    await recordCommissionRaised(prisma, commissionPayment);
 
     
     // Create commission invoice linked to the commission payment
@@ -3553,7 +4088,7 @@ export const confirmWinner = catchAsync(async (req: AuthenticatedRequest, res: R
 
   // Job must be POSTED
   if (job.status !== 'POSTED') {
-    return next(new AppError('Job is not in a state to confirm winner', 400));
+    return next(new AppError('Job is not in a state to confirm winner', 409));
   }
 
   // Find contractors who have claimed they won
@@ -3590,11 +4125,12 @@ export const confirmWinner = catchAsync(async (req: AuthenticatedRequest, res: R
   // Update job: set winner, change status to IN_PROGRESS, set wonAt timestamp
   // Note: wonAt field exists in schema but Prisma client may need regeneration
   // Using $executeRaw to set wonAt if Prisma client doesn't recognize it
-  const updatedJob = await prisma.$transaction(async (tx) => {
-    const job = await tx.job.update({
-      where: { id: req.params.id },
+  const { transition, updatedJob } = await prisma.$transaction(async (tx) => {
+    const transition = await applyJobTransition(tx, {
+      jobId: req.params.id,
+      to: 'IN_PROGRESS',
+      actor: jobActorFromUser(req.user!),
       data: {
-        status: 'IN_PROGRESS',
         wonByContractorId: winningContractorId,
         startDate: new Date(),
       },
@@ -3612,7 +4148,7 @@ export const confirmWinner = catchAsync(async (req: AuthenticatedRequest, res: R
       });
     }
     
-    return tx.job.findUnique({
+    const updatedJob = await tx.job.findUnique({
       where: { id: req.params.id },
       include: {
         wonByContractor: {
@@ -3636,7 +4172,10 @@ export const confirmWinner = catchAsync(async (req: AuthenticatedRequest, res: R
         },
       },
     });
+
+    return { transition, updatedJob };
   });
+  await runJobTransitionEffects(transition);
 
   // Get winning contractor info
   const winningContractor = await prisma.contractor.findUnique({
@@ -3749,7 +4288,7 @@ export const suggestPriceChange = catchAsync(async (req: AuthenticatedRequest, r
 
   // Job must be awaiting final price confirmation
   if (job.status !== 'AWAITING_FINAL_PRICE_CONFIRMATION') {
-    return next(new AppError('Job is not awaiting final price confirmation', 400));
+    return next(new AppError('Job is not awaiting final price confirmation', 409));
   }
 
   if (!job.wonByContractorId) {
@@ -3758,15 +4297,19 @@ export const suggestPriceChange = catchAsync(async (req: AuthenticatedRequest, r
 
   // Store suggested price (we can use finalPriceRejectionReason or add a new field)
   // For now, we'll update the job with the suggested amount in metadata
-  const updatedJob = await prisma.job.update({
-    where: { id: req.params.id },
+  // Back to IN_PROGRESS so contractor can propose new price
+  const updatedJob = await transitionJobStatus({
+    jobId: req.params.id,
+    to: 'IN_PROGRESS',
+    actor: jobActorFromUser(req.user!),
+    reason: feedback || null,
+    metadata: { suggestedAmount: Number(suggestedAmount) },
     data: {
       finalPriceRejectedAt: new Date(),
       finalPriceRejectionReason: feedback || `Customer suggested price change to £${suggestedAmount}`,
       // Reset proposed amount so contractor can propose again
       contractorProposedAmount: null,
       finalPriceProposedAt: null,
-      status: 'IN_PROGRESS', // Back to IN_PROGRESS so contractor can propose new price
     },
   });
 
@@ -3914,13 +4457,14 @@ export const confirmContractorStart = catchAsync(async (req: AuthenticatedReques
 
   // Check if job is still posted (awaiting confirmation)
   if (job.status !== 'POSTED') {
-    return next(new AppError('Job is not awaiting contractor confirmation', 400));
+    return next(new AppError('Job is not awaiting contractor confirmation', 409));
   }
 
-  const updatedJob = await prisma.job.update({
-    where: { id: jobId },
+  const updatedJob = await transitionJobStatus({
+    jobId,
+    to: 'IN_PROGRESS',
+    actor: jobActorFromUser(req.user!),
     data: {
-      status: 'IN_PROGRESS',
       startDate: new Date(),
     },
     include: {
@@ -4036,22 +4580,26 @@ export const adminOverrideFinalPrice = catchAsync(async (req: AuthenticatedReque
   }
 
   if (job.status !== 'AWAITING_FINAL_PRICE_CONFIRMATION') {
-    return next(new AppError('Job is not awaiting final price confirmation', 400));
+    return next(new AppError('Job is not awaiting final price confirmation', 409));
   }
 
   if (!job.contractorProposedAmount) {
     return next(new AppError('No final price has been proposed for this job', 400));
   }
 
-  // Admin overrides the final price confirmation
-  const updatedJob = await prisma.job.update({
-    where: { id: jobId },
+  // Admin overrides the final price confirmation; the transition raises the commission.
+  // Both parties get the dedicated override emails below instead of the generic notice.
+  const updatedJob = await transitionJobStatus({
+    jobId,
+    to: 'COMPLETED',
+    actor: jobActorFromUser(req.user!),
+    reason: reason || null,
+    notify: false,
     data: {
       finalAmount: job.contractorProposedAmount,
       finalPriceConfirmedAt: new Date(),
       adminOverrideAt: new Date(),
       adminOverrideBy: userId,
-      status: 'COMPLETED',
       completionDate: new Date(),
       customerConfirmed: true,
     },
@@ -4072,9 +4620,6 @@ export const adminOverrideFinalPrice = catchAsync(async (req: AuthenticatedReque
     });
   }
 
-  // Process commission if applicable
-  await processCommissionForJob(jobId, Number(job.contractorProposedAmount));
-
   // Send notification to both customer and contractor about admin override
   try {
     const { createServiceEmail } = await import('../services/emailService');
@@ -4157,11 +4702,9 @@ export const getJobsAwaitingFinalPriceConfirmation = catchAsync(async (req: Auth
     return next(new AppError('Not authorized to view admin data', 403));
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
-  const jobs = await prisma.job.findMany({
+  const rows = await prisma.job.findMany({
     where: {
       status: 'AWAITING_FINAL_PRICE_CONFIRMATION',
     },
@@ -4189,27 +4732,24 @@ export const getJobsAwaitingFinalPriceConfirmation = catchAsync(async (req: Auth
         },
       },
     },
-    orderBy: { finalPriceProposedAt: 'asc' }, // Oldest first
-    skip,
-    take: limit,
+    orderBy: [{ finalPriceProposedAt: 'asc' }, { id: 'asc' }], // Oldest first
+    ...getPrismaPageArgs(pagination),
   });
 
-  const total = await prisma.job.count({
-    where: {
-      status: 'AWAITING_FINAL_PRICE_CONFIRMATION',
-    },
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.job.count({
+        where: {
+          status: 'AWAITING_FINAL_PRICE_CONFIRMATION',
+        },
+      })
+    : undefined;
+  const { items: jobs, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       jobs,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -4316,12 +4856,10 @@ export const getJobsWithRejectedFinalPrice = catchAsync(async (req: Authenticate
     return next(new AppError('Not authorized to view admin data', 403));
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   // Get jobs where final price was rejected (has rejection date)
-  const jobs = await prisma.job.findMany({
+  const rows = await prisma.job.findMany({
     where: {
       finalPriceRejectedAt: {
         not: null,
@@ -4355,32 +4893,29 @@ export const getJobsWithRejectedFinalPrice = catchAsync(async (req: Authenticate
         },
       },
     },
-    orderBy: { finalPriceRejectedAt: 'desc' }, // Most recent rejections first
-    skip,
-    take: limit,
+    orderBy: [{ finalPriceRejectedAt: 'desc' }, { id: 'desc' }], // Most recent rejections first
+    ...getPrismaPageArgs(pagination),
   });
 
-  const total = await prisma.job.count({
-    where: {
-      finalPriceRejectedAt: {
-        not: null,
-      },
-      status: {
-        in: ['IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION'],
-      },
-    },
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.job.count({
+        where: {
+          finalPriceRejectedAt: {
+            not: null,
+          },
+          status: {
+            in: ['IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION'],
+          },
+        },
+      })
+    : undefined;
+  const { items: jobs, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       jobs,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -4396,6 +4931,13 @@ router.post('/', protect, createJob);
 router.get('/:id', optionalAuth, getJobWithAccess);
 router.patch('/:id', protect, updateJob);
 router.delete('/:id', protect, deleteJob);
+router.post('/:id/relist', protect, relistJob);
+router.post('/:id/publish', protect, publishJob);
+router.post('/:id/clone', protect, cloneJobAsDraft);
+router.get('/:id/recurrence', protect, getJobRecurrence);
+router.put('/:id/recurrence', protect, setJobRecurrence);
+router.delete('/:id/recurrence', protect, stopJobRecurrence);
+router.post('/:id/first-refusal/decline', protect, declineFirstRefusal);
 router.post('/:id/apply', protect, applyForJob);
 router.post('/:id/accept', protect, acceptJobDirectly);
 router.get('/:id/applications', protect, getJobApplications);
@@ -4434,5 +4976,8 @@ router.get('/:id/milestones', protect, getJobMilestones);
 router.post('/:id/milestones', protect, createJobMilestone);
 router.patch('/:id/milestones/:milestoneId', protect, updateJobMilestone);
 router.delete('/:id/milestones/:milestoneId', protect, deleteJobMilestone);
+router.post('/:id/milestones/:milestoneId/approve', protect, approveJobMilestone);
+router.post('/:id/milestones/:milestoneId/reject', protect, rejectJobMilestone);
+router.get('/:id/milestones/:milestoneId/invoice', protect, downloadMilestoneInvoice);
 
 export default router; 
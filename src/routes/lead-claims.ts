@@ -0,0 +1,105 @@
+import { Router, Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import { protect, AuthenticatedRequest, restrictTo } from '../middleware/auth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+import { createLeadClaim, getClaimDeadline, LEAD_CLAIM_REASONS } from '../services/leadClaimService';
+import { getLeadClaimSettings } from '../services/settingsService';
+
+const router = Router();
+
+// Helper: load the signed-in contractor's profile id
+async function getContractorId(userId: string) {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  return contractor?.id ?? null;
+}
+
+// @desc    Get my lead quality claims
+// @route   GET /api/lead-claims
+// @access  Private (Contractor only)
+export const getMyLeadClaims = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const claims = await prisma.leadQualityClaim.findMany({
+    where: { contractorId },
+    include: {
+      job: { select: { id: true, title: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: { claims, reasons: LEAD_CLAIM_REASONS },
+  });
+});
+
+// @desc    Check whether a purchased lead can still be claimed
+// @route   GET /api/lead-claims/eligibility/:jobId
+// @access  Private (Contractor only)
+export const getLeadClaimEligibility = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const jobAccess = await prisma.jobAccess.findUnique({
+    where: { jobId_contractorId: { jobId: req.params.jobId, contractorId } },
+    include: { qualityClaim: true },
+  });
+
+  if (!jobAccess) {
+    return next(new AppError('You have not purchased access to this job', 404));
+  }
+
+  const { windowHours } = await getLeadClaimSettings();
+  const deadline = getClaimDeadline(jobAccess.accessedAt, windowHours);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      canClaim: !jobAccess.qualityClaim && new Date() <= deadline,
+      deadline,
+      claim: jobAccess.qualityClaim,
+    },
+  });
+});
+
+// @desc    Report a bad lead
+// @route   POST /api/lead-claims
+// @access  Private (Contractor only)
+export const createMyLeadClaim = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const { jobId, reason, description, evidenceUrls } = req.body;
+  if (!jobId) {
+    return next(new AppError('jobId is required', 400));
+  }
+  if (evidenceUrls !== undefined && (!Array.isArray(evidenceUrls) || evidenceUrls.some((url) => typeof url !== 'string'))) {
+    return next(new AppError('evidenceUrls must be a list of URLs', 400));
+  }
+
+  const claim = await createLeadClaim({ jobId, contractorId, reason, description, evidenceUrls });
+
+  res.status(201).json({
+    status: 'success',
+    message: 'Your claim has been sent for review',
+    data: { claim },
+  });
+});
+
+router.use(protect, restrictTo('CONTRACTOR'));
+
+router.get('/', getMyLeadClaims);
+router.get('/eligibility/:jobId', getLeadClaimEligibility);
+router.post('/', createMyLeadClaim);
+
+export default router;
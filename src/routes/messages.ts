@@ -2,6 +2,7 @@ import { Router, Response } from 'express';
 import { prisma } from '../config/database';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { catchAsync, AppError } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 import { UserRole, Message } from '@prisma/client';
 
 const router = Router();
@@ -110,9 +111,7 @@ export const sendMessage = catchAsync(async (req: AuthenticatedRequest, res: Res
 // @access  Private
 export const getMessages = catchAsync(async (req: AuthenticatedRequest, res: Response) => {
   const userId = req.user!.id;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 20;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, { defaultLimit: 20 });
   const type = req.query.type as string; // 'inbox' or 'sent'
 
   const where =
@@ -120,15 +119,15 @@ export const getMessages = catchAsync(async (req: AuthenticatedRequest, res: Res
       ? { senderId: userId }
       : { recipientId: userId };
 
-  const [messagesData, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.message.findMany({
       where,
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(pagination),
     }),
-    prisma.message.count({ where }),
+    pagination.mode === 'page' ? prisma.message.count({ where }) : undefined,
   ]);
+  const { items: messagesData, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   // Fetch sender and recipient details for each message
   const messages = await Promise.all(
@@ -177,12 +176,7 @@ export const getMessages = catchAsync(async (req: AuthenticatedRequest, res: Res
     data: {
       messages,
       unreadCount,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -1,6 +1,8 @@
 import express from 'express';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
 import * as notificationService from '../services/notificationService';
+import { getPagination } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -12,13 +14,11 @@ router.get('/', protect, async (req: AuthenticatedRequest, res) => {
   try {
     const userId = req.user!.id;
     const unreadOnly = req.query.unreadOnly === 'true';
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
-    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+    const pagination = getPagination(req.query, { defaultLimit: 50 });
 
     const result = await notificationService.getUserNotifications(userId, {
       unreadOnly,
-      limit,
-      offset,
+      pagination,
     });
 
     res.json({
@@ -26,6 +26,12 @@ router.get('/', protect, async (req: AuthenticatedRequest, res) => {
       data: result,
     });
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+      });
+    }
     console.error('Error fetching notifications:', error);
     res.status(500).json({
       status: 'error',
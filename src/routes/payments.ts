@@ -6,6 +6,32 @@ import Stripe from 'stripe';
 import nodemailer from 'nodemailer';
 import { createEmailService, createServiceEmail } from '../services/emailService';
 import { reconcileJobAccessFromPaymentIntent } from '../services/paymentReconciliationService';
+import { applyJobTransition, jobActorFromUser, runJobTransitionEffects } from '../services/jobStatusService';
+import { LEAD_PRICING_SERVICE_SELECT, getQuotedLeadPrice, quoteLeadPrice } from '../services/leadPricingService';
+import { isReservedForOtherContractor } from '../services/jobRecurrenceService';
+import { getStageCommissionedAmount } from '../services/commissionService';
+import {
+  assertLeadPurchasable,
+  createCheckoutSession,
+  getCheckoutSessionStatus,
+  getLeadCheckoutAmounts,
+} from '../services/checkoutService';
+import {
+  consumePurchasedCredit,
+  createCreditBundlePaymentIntent,
+  fulfilCreditBundlePurchase,
+  getPurchasableBundle,
+  getPurchasedCreditBalance,
+  listPurchasableBundles,
+} from '../services/creditBundleService';
+import {
+  recordCommissionRaised,
+  recordCreditTransaction,
+  recordManualInvoiceIssued,
+  recordPaymentReceived,
+} from '../services/ledgerService';
+import { chargeSavedCard } from '../services/paymentMethodService';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 // Helper to format currency
 const formatCurrency = (amount: number | any): string => {
@@ -180,11 +206,7 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
     where: { id: jobId },
     include: {
       service: {
-        select: {
-          smallJobPrice: true,
-          mediumJobPrice: true,
-          largeJobPrice: true,
-        },
+        select: LEAD_PRICING_SERVICE_SELECT,
       },
       customer: {
         include: {
@@ -210,6 +232,10 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
     return next(new AppError('Job not found', 404));
   }
 
+  if (isReservedForOtherContractor(job, contractor.id)) {
+    return next(new AppError('This job is being offered to another contractor first', 403));
+  }
+
   // Check if contractor already has access
   const existingAccess = job.jobAccess.find(access => access.contractorId === contractor.id);
   
@@ -246,7 +272,7 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
     return next(new AppError('You already have access to this job', 400));
   }
 
-  const blockedStatuses = ['IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION', 'COMPLETED', 'CANCELLED', 'DISPUTED', 'WON'];
+  const blockedStatuses = ['IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION', 'COMPLETED', 'CANCELLED', 'DISPUTED', 'WON', 'EXPIRED'];
   // Block purchase only when a winner has been officially confirmed (wonByContractorId set),
   // not when contractors have merely claimed — the customer still needs to select a winner
   // and remaining spots may still be available.
@@ -269,11 +295,14 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
 
   // Free-trial restriction only applies to the initial welcome allocation.
   // Admin-added / purchased credits must remain usable for all job sizes.
+  const purchasedCredits = await getPurchasedCreditBalance(prisma, contractor.id);
+  const regularCredits = contractor.creditsBalance - purchasedCredits;
   const isUsingRestrictedTrialCredit =
     !hasActiveSubscription &&
     contractor.hasUsedFreeTrial === false &&
-    contractor.creditsBalance > 0 &&
-    contractor.creditsBalance <= (contractor.freeJobAllocation || 1);
+    purchasedCredits === 0 &&
+    regularCredits > 0 &&
+    regularCredits <= (contractor.freeJobAllocation || 1);
 
   // Validate payment method based on subscription status
   // IMPORTANT: STRIPE (card payment) is always valid regardless of subscription status.
@@ -317,26 +346,9 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
     }
   }
 
-  // Calculate lead price based on job size
-  let leadPrice = 0;
-  if (job.service) {
-    switch (job.jobSize) {
-      case 'SMALL':
-        leadPrice = job.service.smallJobPrice ? Number(job.service.smallJobPrice) : 0;
-        break;
-      case 'MEDIUM':
-        leadPrice = job.service.mediumJobPrice ? Number(job.service.mediumJobPrice) : 0;
-        break;
-      case 'LARGE':
-        leadPrice = job.service.largeJobPrice ? Number(job.service.largeJobPrice) : 0;
-        break;
-    }
-  }
-
-  // Use override price if set
-  if (job.leadPrice && typeof job.leadPrice.toNumber === 'function' && Number(job.leadPrice) > 0) {
-    leadPrice = Number(job.leadPrice);
-  }
+  // Lead price: size price, admin override or dynamic price (see leadPricingService)
+  const pricing = await quoteLeadPrice(job, job.jobAccess.length);
+  let leadPrice = pricing.price;
 
   // For CREDIT payment method, lead price is 0 (no payment required)
   if (paymentMethod === 'CREDIT') {
@@ -376,6 +388,11 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
         throw new AppError(`Insufficient credits. Current balance: ${currentContractor.creditsBalance}. Please top up or use card payment.`, 400);
       }
       
+      // Bought credits are spent once the regular ones run out or can't be used
+      const purchasedInTx = await getPurchasedCreditBalance(tx, contractor.id);
+      const regularInTx = currentContractor.creditsBalance - purchasedInTx;
+      let weeklyLimitError: string | null = null;
+
       // Check if contractor has exceeded weekly credit limit (for subscribers)
       const isSubscribed = currentContractor.subscription !== null;
       if (isSubscribed && currentContractor.weeklyCreditsLimit > 0) {
@@ -393,6 +410,7 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
               contractorId: contractor.id,
               type: 'JOB_ACCESS',
               amount: { lt: 0 }, // Only count deductions (negative amounts)
+              creditPurchaseId: null, // Purchased credits don't count towards the weekly limit
               createdAt: { gte: weekStart }
             },
             _sum: {
@@ -420,19 +438,31 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
           if (totalUsed >= effectiveWeeklyLimit) {
             const nextResetDate = new Date(lastReset);
             nextResetDate.setDate(nextResetDate.getDate() + 7);
-            throw new AppError(
-              `Maximum credits exceeded. You have used all ${effectiveWeeklyLimit} weekly credit purchases available for this week. Your credits will reset on ${nextResetDate.toLocaleDateString()}. Please use card payment or wait for the weekly reset.`,
-              400
-            );
+            weeklyLimitError = `Maximum credits exceeded. You have used all ${effectiveWeeklyLimit} weekly credit purchases available for this week. Your credits will reset on ${nextResetDate.toLocaleDateString()}. Please use card payment or wait for the weekly reset.`;
           }
         }
       }
       
       // Restrict only the initial free-trial allocation, not admin-added/purchased credits.
-      usedFreeTrial =
+      const isTrialCredit =
         !isSubscribed &&
         currentContractor.hasUsedFreeTrial === false &&
-        currentContractor.creditsBalance <= (currentContractor.freeJobAllocation || 1);
+        regularInTx <= (currentContractor.freeJobAllocation || 1);
+
+      let creditPurchaseId: string | null = null;
+      if (regularInTx < 1 || weeklyLimitError || (isTrialCredit && job.jobSize !== 'SMALL')) {
+        creditPurchaseId = await consumePurchasedCredit(tx, contractor.id);
+        if (!creditPurchaseId) {
+          if (weeklyLimitError) {
+            throw new AppError(weeklyLimitError, 400);
+          }
+          if (regularInTx >= 1) {
+            throw new AppError('Your free trial credit can only be used for small jobs. For medium or large jobs, you must either pay or subscribe.', 400);
+          }
+          throw new AppError('Insufficient credits. Your remaining purchased credits have expired. Please top up or use card payment.', 400);
+        }
+      }
+      usedFreeTrial = !creditPurchaseId && isTrialCredit;
       
       // CRITICAL: Use the current balance and subtract 1
       const newBalance = currentContractor.creditsBalance - 1;
@@ -458,10 +488,14 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
           amount: -1, // Negative to indicate deduction
           description: usedFreeTrial 
             ? `Free trial credit used for job: ${job.title} (SMALL job only)`
-            : `Credit used to access job: ${job.title}`,
+            : creditPurchaseId
+              ? `Purchased credit used to access job: ${job.title}`
+              : `Credit used to access job: ${job.title}`,
           jobId,
+          creditPurchaseId,
         },
       });
+      await recordCreditTransaction(tx, creditTransaction);
 
 
 
@@ -515,6 +549,9 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
         throw new AppError('Payment not completed', 400);
       }
 
+      // Charge the price quoted on the intent - a dynamic price may have moved since
+      leadPrice = getQuotedLeadPrice(paymentIntent, jobId, contractor.id) ?? leadPrice;
+
       // Calculate VAT (20%) on top of lead price
       const vatRate = 0.20; // 20% VAT
       const baseAmount = leadPrice; // Base price excluding VAT
@@ -541,6 +578,7 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
           description: `Job access purchased for: ${job.title}`,
         },
       });
+      await recordPaymentReceived(tx, payment, { vatAmount });
 
       // Create invoice - billed to the contractor who is purchasing the lead
       invoice = await tx.invoice.create({
@@ -578,6 +616,9 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
         throw new AppError('Payment not completed', 400);
       }
 
+      // Charge the price quoted on the intent - a dynamic price may have moved since
+      leadPrice = getQuotedLeadPrice(paymentIntent, jobId, contractor.id) ?? leadPrice;
+
       // Calculate 20% VAT on top of lead price
       const vatRate = 0.20; // 20% VAT
       const baseAmount = leadPrice; // Lead price is the base amount
@@ -604,6 +645,7 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
           description: `Job lead access purchased (subscriber rate, no commission) for: ${job.title}`,
         },
       });
+      await recordPaymentReceived(tx, payment, { vatAmount });
 
       // Create invoice with VAT - billed to the contractor who is purchasing the lead
       invoice = await tx.invoice.create({
@@ -630,7 +672,7 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
     }
 
     // Grant job access - this will instantly give access to customer contact details
-    await tx.jobAccess.create({
+    const jobAccess = await tx.jobAccess.create({
       data: {
         contractorId: contractor.id,
         jobId,
@@ -641,6 +683,14 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
       } as any, // Type cast to avoid TypeScript errors until migration is applied
     });
 
+    // Link the payment to the purchase so a lead-quality claim can refund it
+    if (payment) {
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { jobId, jobAccessId: jobAccess.id },
+      });
+    }
+
     return { payment, invoice };
   });
 
@@ -743,6 +793,9 @@ export const purchaseJobAccess = catchAsync(async (req: AuthenticatedRequest, re
       },
       contractorsWithAccess: job.jobAccess.length + 1, // Include the new purchase
       maxContractors: job.maxContractorsPerJob,
+      // How the lead price was reached. Card purchases report the price actually charged,
+      // which is the quote on the PaymentIntent if the dynamic price has moved since
+      pricing: paymentMethod === 'CREDIT' ? pricing : { ...pricing, price: leadPrice },
       // Include updated credit balance for frontend refresh
       updatedCreditsBalance: updatedContractorData?.creditsBalance || contractor.creditsBalance,
     }
@@ -845,6 +898,22 @@ export const reconcilePaymentIntent = catchAsync(async (req: AuthenticatedReques
 
   const reconciliation = await reconcileJobAccessFromPaymentIntent(paymentIntent);
 
+  res.status(200).json({
+    status: 'success',
+    message: 'Payment intent reconciled successfully',
+    data: {
+      ...(await getJobAccessPurchaseData(stripePaymentIntentId, reconciliation)),
+      updatedCreditsBalance: contractor.creditsBalance,
+      reconciled: true,
+    },
+  });
+});
+
+// The payment, invoice and customer contact a contractor gets back once a lead is paid for
+async function getJobAccessPurchaseData(
+  stripePaymentIntentId: string,
+  reconciliation: Awaited<ReturnType<typeof reconcileJobAccessFromPaymentIntent>>
+) {
   const payment = await prisma.payment.findFirst({
     where: { stripePaymentId: stripePaymentIntentId },
     include: { invoice: true },
@@ -865,31 +934,26 @@ export const reconcilePaymentIntent = catchAsync(async (req: AuthenticatedReques
     },
   });
 
-  res.status(200).json({
-    status: 'success',
-    message: 'Payment intent reconciled successfully',
-    data: {
-      payment,
-      invoice: payment?.invoice || null,
-      jobAccess: {
-        jobId: reconciliation.jobId,
-        contractorId: reconciliation.contractorId,
-        accessMethod: 'PAYMENT',
-      },
-      customerContact: {
-        name: job?.customer?.user?.name,
-        email: job?.customer?.user?.email,
-        phone: job?.customer?.phone,
-      },
-      contractorsWithAccess: job?.jobAccess?.length || 0,
-      maxContractors: job?.maxContractorsPerJob || 0,
-      updatedCreditsBalance: contractor.creditsBalance,
-      reconciled: true,
-      createdJobAccess: reconciliation.createdJobAccess,
-      createdPayment: reconciliation.createdPayment,
+  return {
+    payment,
+    invoice: payment?.invoice || null,
+    jobAccess: {
+      jobId: reconciliation.jobId,
+      contractorId: reconciliation.contractorId,
+      accessMethod: 'PAYMENT',
     },
-  });
-});
+    customerContact: {
+      name: job?.customer?.user?.name,
+      email: job?.customer?.user?.email,
+      phone: job?.customer?.phone,
+    },
+    contractorsWithAccess: job?.jobAccess?.length || 0,
+    maxContractors: job?.maxContractorsPerJob || 0,
+    createdJobAccess: reconciliation.createdJobAccess,
+    createdPayment: reconciliation.createdPayment,
+    duplicateCharge: reconciliation.duplicate,
+  };
+}
 
 // @desc    Create Stripe payment intent for job access
 // @route   POST /api/payments/create-payment-intent
@@ -915,11 +979,7 @@ export const createPaymentIntent = catchAsync(async (req: AuthenticatedRequest,
     where: { id: jobId },
     include: {
       service: {
-        select: {
-          smallJobPrice: true,
-          mediumJobPrice: true,
-          largeJobPrice: true,
-        },
+        select: LEAD_PRICING_SERVICE_SELECT,
       },
     },
   });
@@ -928,26 +988,14 @@ export const createPaymentIntent = catchAsync(async (req: AuthenticatedRequest,
     return next(new AppError('Job not found', 404));
   }
 
-  // Calculate lead price
-  let leadPrice = 0;
-  if (job.service) {
-    switch (job.jobSize) {
-      case 'SMALL':
-        leadPrice = job.service.smallJobPrice ? Number(job.service.smallJobPrice) : 0;
-        break;
-      case 'MEDIUM':
-        leadPrice = job.service.mediumJobPrice ? Number(job.service.mediumJobPrice) : 0;
-        break;
-      case 'LARGE':
-        leadPrice = job.service.largeJobPrice ? Number(job.service.largeJobPrice) : 0;
-        break;
-    }
+  if (isReservedForOtherContractor(job, contractor.id)) {
+    return next(new AppError('This job is being offered to another contractor first', 403));
   }
 
-  // Use override price if set
-  if (job.leadPrice && typeof job.leadPrice.toNumber === 'function' && Number(job.leadPrice) > 0) {
-    leadPrice = Number(job.leadPrice);
-  }
+  // The price quoted here is stored on the intent and honoured by purchaseJobAccess
+  const accessCount = await prisma.jobAccess.count({ where: { jobId } });
+  const pricing = await quoteLeadPrice(job, accessCount);
+  const leadPrice = pricing.price;
 
   if (leadPrice <= 0) {
     return next(new AppError('Invalid lead price', 400));
@@ -970,7 +1018,6 @@ export const createPaymentIntent = catchAsync(async (req: AuthenticatedRequest,
   }
 
   // Check if max contractors reached
-  const accessCount = await prisma.jobAccess.count({ where: { jobId } });
   if (accessCount >= job.maxContractorsPerJob) {
     return next(new AppError(`This job has reached its contractor limit (${job.maxContractorsPerJob}). No more purchases available.`, 400));
   }
@@ -1000,6 +1047,7 @@ export const createPaymentIntent = catchAsync(async (req: AuthenticatedRequest,
         jobId,
         contractorId: contractor.id,
         leadPrice: leadPrice.toString(),
+        leadPriceSource: pricing.source,
         vatAmount: vatAmount.toFixed(2),
         totalWithVat: totalWithVat.toFixed(2),
         type: 'job_access_purchase'
@@ -1011,6 +1059,7 @@ export const createPaymentIntent = catchAsync(async (req: AuthenticatedRequest,
       data: {
         clientSecret: paymentIntent.client_secret,
         baseAmount: leadPrice,
+        pricing,
         vatAmount: vatAmount,
         vatRate: vatRate * 100, // Return as percentage (20)
         totalAmount: totalWithVat,
@@ -1023,15 +1072,121 @@ export const createPaymentIntent = catchAsync(async (req: AuthenticatedRequest,
     return next(new AppError(`Stripe payment error: ${stripeError.message}`, 400));
   }
 });
+// @desc    Buy job access in one click with a saved card
+// @route   POST /api/payments/job-access/one-click
+// @access  Private (Contractor only)
+export const purchaseJobAccessWithSavedCard = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { jobId, paymentMethodId } = req.body;
+
+  if (!jobId) {
+    return next(new AppError('jobId is required', 400));
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    include: {
+      kyc: { select: { status: true, dueBy: true } },
+    },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    include: {
+      service: {
+        select: LEAD_PRICING_SERVICE_SELECT,
+      },
+      jobAccess: {
+        select: { contractorId: true },
+      },
+    },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (isReservedForOtherContractor(job, contractor.id)) {
+    return next(new AppError('This job is being offered to another contractor first', 403));
+  }
+
+  assertLeadPurchasable({
+    contractorId: contractor.id,
+    accountStatus: contractor.accountStatus,
+    kyc: contractor.kyc,
+    job,
+    accessContractorIds: job.jobAccess.map((access) => access.contractorId),
+  });
+
+  const pricing = await quoteLeadPrice(job, job.jobAccess.length);
+  if (pricing.price <= 0) {
+    return next(new AppError('Invalid lead price', 400));
+  }
+
+  const amounts = getLeadCheckoutAmounts(pricing.price);
+  const charge = await chargeSavedCard({
+    contractorId: contractor.id,
+    paymentMethodId,
+    amount: amounts.totalAmount,
+    description: `Job lead: ${job.title}`,
+    // A second click returns the first charge rather than taking the money twice
+    idempotencyKey: `job-access-${contractor.id}-${jobId}`,
+    metadata: {
+      jobId,
+      contractorId: contractor.id,
+      leadPrice: pricing.price.toString(),
+      leadPriceSource: pricing.source,
+      vatAmount: amounts.vatAmount.toFixed(2),
+      totalWithVat: amounts.totalAmount.toFixed(2),
+      type: 'job_access_purchase',
+    },
+  });
+
+  const priceData = {
+    baseAmount: pricing.price,
+    pricing,
+    vatAmount: amounts.vatAmount,
+    vatRate: 20,
+    totalAmount: amounts.totalAmount,
+  };
+
+  // The bank wants the contractor to authenticate: confirm the intent with Stripe.js,
+  // then call reconcile-payment-intent (the webhook also grants access once it succeeds)
+  if (charge.status === 'requires_action') {
+    return res.status(202).json({
+      status: 'requires_action',
+      message: 'Your bank needs you to confirm this payment',
+      data: {
+        clientSecret: charge.paymentIntent.client_secret,
+        stripePaymentIntentId: charge.paymentIntent.id,
+        ...priceData,
+      },
+    });
+  }
+
+  const reconciliation = await reconcileJobAccessFromPaymentIntent(charge.paymentIntent);
+
+  res.status(200).json({
+    status: 'success',
+    message: reconciliation.duplicate
+      ? 'You already have access to this job, so this charge is being refunded'
+      : 'Job access purchased successfully',
+    data: {
+      ...(await getJobAccessPurchaseData(charge.paymentIntent.id, reconciliation)),
+      ...priceData,
+    },
+  });
+});
 
 // @desc    Get contractor's payment history
 // @route   GET /api/payments/history
 // @access  Private (Contractor only)
 export const getPaymentHistory = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const userId = req.user!.id;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   // Get contractor profile
   const contractor = await prisma.contractor.findUnique({
@@ -1044,7 +1199,7 @@ export const getPaymentHistory = catchAsync(async (req: AuthenticatedRequest, re
   }
 
   // Get payment history
-  const payments = await prisma.payment.findMany({
+  const rows = await prisma.payment.findMany({
     where: { contractorId: contractor.id },
     include: {
       job: {
@@ -1055,25 +1210,22 @@ export const getPaymentHistory = catchAsync(async (req: AuthenticatedRequest, re
         },
       },
     },
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...getPrismaPageArgs(pagination),
   });
 
-  const total = await prisma.payment.count({
-    where: { contractorId: contractor.id },
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.payment.count({
+        where: { contractorId: contractor.id },
+      })
+    : undefined;
+  const { items: payments, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       payments,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -1083,9 +1235,7 @@ export const getPaymentHistory = catchAsync(async (req: AuthenticatedRequest, re
 // @access  Private (Contractor only)
 export const getCreditHistory = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const userId = req.user!.id;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   // Get contractor profile
   const contractor = await prisma.contractor.findUnique({
@@ -1098,28 +1248,25 @@ export const getCreditHistory = catchAsync(async (req: AuthenticatedRequest, res
   }
 
   // Get credit transactions
-  const transactions = await prisma.creditTransaction.findMany({
+  const rows = await prisma.creditTransaction.findMany({
     where: { contractorId: contractor.id },
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...getPrismaPageArgs(pagination),
   });
 
-  const total = await prisma.creditTransaction.count({
-    where: { contractorId: contractor.id },
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.creditTransaction.count({
+        where: { contractorId: contractor.id },
+      })
+    : undefined;
+  const { items: transactions, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       transactions,
       currentBalance: contractor.creditsBalance,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -1131,6 +1278,7 @@ router.get('/job-access/:jobId', checkJobAccess);
 router.post('/purchase-job-access', purchaseJobAccess);
 router.post('/create-payment-intent', createPaymentIntent);
 router.post('/reconcile-payment-intent', reconcilePaymentIntent);
+router.post('/job-access/one-click', purchaseJobAccessWithSavedCard);
 router.get('/history', getPaymentHistory);
 router.get('/credit-history', getCreditHistory);
 
@@ -1275,24 +1423,30 @@ export const completeJob = catchAsync(async (req: AuthenticatedRequest, res: Res
 
   const result = await prisma.$transaction(async (tx) => {
     // Update job with final amount and completion
-    const updatedJob = await tx.job.update({
-      where: { id: jobId },
+    const transition = await applyJobTransition(tx, {
+      jobId,
+      to: 'COMPLETED',
+      actor: jobActorFromUser(req.user!),
       data: {
         finalAmount: finalAmount,
-        status: 'COMPLETED',
         completionDate: new Date(),
       },
     });
+    const updatedJob = transition.job;
 
     let commissionPayment = null;
 
+    // Stages approved along the way were charged then, only the rest of the price is due now
+    const stagesCommissioned = await getStageCommissionedAmount(tx, job.id);
+    const commissionBase = Math.max(finalAmount - stagesCommissioned, 0);
+
     // Only create commission if contractor has active subscription
     // This is the key difference: subscribed contractors pay commission based on settings, non-subscribed don't
-    if (contractor.subscription && contractor.subscription.isActive && contractor.subscription.status === 'active') {
-      // Get commission rate from settings
-      const { getCommissionRate } = await import('../services/settingsService');
-      const commissionRate = await getCommissionRate();
-      const baseCommissionAmount = (finalAmount * commissionRate) / 100; // Base commission amount
+    if (contractor.subscription && contractor.subscription.isActive && contractor.subscription.status === 'active' && commissionBase > 0) {
+      // Get commission rate for the contractor's tier
+      const { getContractorCommissionRate } = await import('../services/subscriptionService');
+      const commissionRate = await getContractorCommissionRate(contractor.id);
+      const baseCommissionAmount = (commissionBase * commissionRate) / 100; // Base commission amount
       // Calculate 20% VAT on top of commission amount
       const vatRate = 0.20; // 20% VAT
       const vatAmount = baseCommissionAmount * vatRate; // VAT is 20% of base commission
@@ -1307,7 +1461,7 @@ export const completeJob = catchAsync(async (req: AuthenticatedRequest, res: Res
           jobId: job.id,
           contractorId: contractor.id,
           customerId: job.customerId,
-          finalJobAmount: finalAmount,
+          finalJobAmount: commissionBase,
           commissionRate: commissionRate,
           commissionAmount: commissionAmount,
           vatAmount: vatAmount,
@@ -1315,6 +1469,7 @@ export const completeJob = catchAsync(async (req: AuthenticatedRequest, res: Res
           dueDate: dueDate,
         },
       });
+      await recordCommissionRaised(tx, commissionPayment);
 
       // Create commission invoice
       const invoiceNumber = `COMM-${Date.now()}-${contractor.id.slice(-6)}`;
@@ -1325,7 +1480,8 @@ export const completeJob = catchAsync(async (req: AuthenticatedRequest, res: Res
           contractorName: contractor.user.name,
           contractorEmail: contractor.user.email,
           jobTitle: job.title,
-          finalJobAmount: finalAmount,
+          stageTitle: stagesCommissioned > 0 ? 'Remaining balance' : null,
+          finalJobAmount: commissionBase,
           commissionAmount: commissionAmount,
           vatAmount: vatAmount,
           totalAmount: totalAmount,
@@ -1334,8 +1490,9 @@ export const completeJob = catchAsync(async (req: AuthenticatedRequest, res: Res
       });
     }
 
-    return { updatedJob, commissionPayment };
+    return { transition, updatedJob, commissionPayment };
   });
+  await runJobTransitionEffects(result.transition);
 
   // Send notification if commission is created
   if (result.commissionPayment) {
@@ -1384,9 +1541,7 @@ export const completeJob = catchAsync(async (req: AuthenticatedRequest, res: Res
 // @access  Private (Contractor only)
 export const getCommissionPayments = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const userId = req.user!.id;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
 
 
@@ -1431,7 +1586,7 @@ export const getCommissionPayments = catchAsync(async (req: AuthenticatedRequest
 
   });
   
-  const commissions = await prisma.commissionPayment.findMany({
+  const rows = await prisma.commissionPayment.findMany({
     where: { contractorId: contractor.id },
     include: {
       job: {
@@ -1444,14 +1599,16 @@ export const getCommissionPayments = catchAsync(async (req: AuthenticatedRequest
       },
       invoice: true, // Commission invoice relation
     },
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...getPrismaPageArgs(pagination),
   });
 
-  const total = await prisma.commissionPayment.count({
-    where: { contractorId: contractor.id },
-  });
+  const total = pagination.mode === 'page'
+    ? await prisma.commissionPayment.count({
+        where: { contractorId: contractor.id },
+      })
+    : undefined;
+  const { items: commissions, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   // Debug: Show commission details if any exist
   if (commissions.length > 0) {
@@ -1470,12 +1627,7 @@ export const getCommissionPayments = catchAsync(async (req: AuthenticatedRequest
     status: 'success',
     data: {
       commissions,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -1555,7 +1707,7 @@ export const payCommission = catchAsync(async (req: AuthenticatedRequest, res: R
   });
 
   // Create payment record
-  await prisma.payment.create({
+  const commissionReceipt = await prisma.payment.create({
     data: {
       contractorId: contractor.id,
       amount: commissionPayment.totalAmount,
@@ -1565,6 +1717,7 @@ export const payCommission = catchAsync(async (req: AuthenticatedRequest, res: R
       description: `Commission payment for job: ${commissionPayment.job.title}`,
     },
   });
+  await recordPaymentReceived(prisma, commissionReceipt);
 
   // Send commission payment confirmation email
   try {
@@ -1830,8 +1983,13 @@ export const payManualInvoice = catchAsync(async (req: AuthenticatedRequest, res
     data: updateData,
   });
 
+  // A draft paid straight away is billed and settled in one go
+  if (manualInvoice.status === 'DRAFT') {
+    await recordManualInvoiceIssued(prisma, manualInvoice);
+  }
+
   // Create payment record
-  await prisma.payment.create({
+  const invoiceReceipt = await prisma.payment.create({
     data: {
       contractorId: contractor.id,
       amount: invoiceTotalPence / 100, // Store in pounds
@@ -1841,6 +1999,7 @@ export const payManualInvoice = catchAsync(async (req: AuthenticatedRequest, res
       description: `Manual invoice payment: ${manualInvoice.number}`,
     },
   });
+  await recordPaymentReceived(prisma, invoiceReceipt);
 
   // Send notification to contractor
   try {
@@ -1870,4 +2029,390 @@ export const payManualInvoice = catchAsync(async (req: AuthenticatedRequest, res
 router.post('/create-manual-invoice-payment-intent', createManualInvoicePaymentIntent);
 router.post('/pay-manual-invoice', payManualInvoice);
 
+// ==================== Stripe Checkout ====================
+// Hosted Checkout alternative to the PaymentIntent endpoints above. These only start the
+// payment; fulfilment happens in the checkout.session.completed webhook.
+
+function toCheckoutError(error: any): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  console.error('❌ Stripe Checkout error:', error?.message || error);
+  return new AppError(`Stripe payment error: ${error?.message || 'Unable to start checkout'}`, 400);
+}
+
+// @desc    Start a Stripe Checkout payment for job access
+// @route   POST /api/payments/checkout/job-access
+// @access  Private (Contractor only)
+export const createJobAccessCheckout = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { jobId } = req.body;
+
+  if (!jobId) {
+    return next(new AppError('jobId is required', 400));
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    include: {
+      user: true,
+      kyc: { select: { status: true, dueBy: true } },
+    },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    include: {
+      service: {
+        select: LEAD_PRICING_SERVICE_SELECT,
+      },
+      jobAccess: {
+        select: { contractorId: true },
+      },
+    },
+  });
+
+  if (!job) {
+    return next(new AppError('Job not found', 404));
+  }
+
+  if (isReservedForOtherContractor(job, contractor.id)) {
+    return next(new AppError('This job is being offered to another contractor first', 403));
+  }
+
+  assertLeadPurchasable({
+    contractorId: contractor.id,
+    accountStatus: contractor.accountStatus,
+    kyc: contractor.kyc,
+    job,
+    accessContractorIds: job.jobAccess.map((access) => access.contractorId),
+  });
+
+  const pricing = await quoteLeadPrice(job, job.jobAccess.length);
+  if (pricing.price <= 0) {
+    return next(new AppError('Invalid lead price', 400));
+  }
+
+  const { checkSubscriptionStatus } = await import('../services/subscriptionService');
+  const { hasActiveSubscription } = await checkSubscriptionStatus(contractor.id);
+  const amounts = getLeadCheckoutAmounts(pricing.price);
+
+  let checkout;
+  try {
+    checkout = await createCheckoutSession({
+      purpose: 'job_access_purchase',
+      contractorId: contractor.id,
+      customerEmail: contractor.user.email,
+      itemName: `Job lead: ${job.title}`,
+      itemDescription: `Lead price ${formatCurrency(pricing.price)} + 20% VAT`,
+      amountPence: amounts.totalPence,
+      metadata: {
+        jobId,
+        leadPrice: pricing.price.toString(),
+        leadPriceSource: pricing.source,
+        vatAmount: amounts.vatAmount.toFixed(2),
+        totalWithVat: amounts.totalAmount.toFixed(2),
+        paymentMethod: hasActiveSubscription ? 'STRIPE_SUBSCRIBER' : 'STRIPE',
+      },
+      returnPath: `/dashboard/contractor/jobs/${jobId}`,
+    });
+  } catch (error) {
+    return next(toCheckoutError(error));
+  }
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      checkout,
+      baseAmount: pricing.price,
+      pricing,
+      vatAmount: amounts.vatAmount,
+      vatRate: 20,
+      totalAmount: amounts.totalAmount,
+    },
+  });
+});
+
+// @desc    Start a Stripe Checkout payment for a commission
+// @route   POST /api/payments/checkout/commission
+// @access  Private (Contractor only)
+export const createCommissionCheckout = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { commissionPaymentId } = req.body;
+
+  if (!commissionPaymentId) {
+    return next(new AppError('Commission payment ID is required', 400));
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    include: { user: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const commissionPayment = await prisma.commissionPayment.findFirst({
+    where: {
+      id: commissionPaymentId,
+      contractorId: contractor.id,
+      status: { in: ['PENDING', 'OVERDUE'] },
+    },
+    include: {
+      job: { select: { id: true, title: true } },
+    },
+  });
+
+  if (!commissionPayment) {
+    return next(new AppError('Commission payment not found or already paid', 404));
+  }
+
+  const totalAmount = Number(commissionPayment.totalAmount);
+
+  let checkout;
+  try {
+    checkout = await createCheckoutSession({
+      purpose: 'commission_payment',
+      contractorId: contractor.id,
+      customerEmail: contractor.user.email,
+      itemName: `Commission: ${commissionPayment.job.title}`,
+      amountPence: Math.round(totalAmount * 100),
+      metadata: {
+        commissionPaymentId: commissionPayment.id,
+        jobId: commissionPayment.jobId,
+      },
+      returnPath: '/dashboard/contractor/commissions',
+    });
+  } catch (error) {
+    return next(toCheckoutError(error));
+  }
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      checkout,
+      amount: totalAmount,
+      dueDate: commissionPayment.dueDate,
+      jobTitle: commissionPayment.job.title,
+    },
+  });
+});
+
+// @desc    Start a Stripe Checkout payment for a manual invoice
+// @route   POST /api/payments/checkout/manual-invoice
+// @access  Private (Contractor only)
+export const createManualInvoiceCheckout = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { manualInvoiceId } = req.body;
+
+  if (!manualInvoiceId) {
+    return next(new AppError('Manual invoice ID is required', 400));
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    include: { user: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const manualInvoice = await prisma.manualInvoice.findFirst({
+    where: {
+      id: manualInvoiceId,
+      contractorId: contractor.id,
+      status: { in: ['DRAFT', 'ISSUED', 'OVERDUE'] },
+    },
+  });
+
+  if (!manualInvoice) {
+    return next(new AppError('Manual invoice not found or not payable', 404));
+  }
+
+  let checkout;
+  try {
+    checkout = await createCheckoutSession({
+      purpose: 'manual_invoice_payment',
+      contractorId: contractor.id,
+      customerEmail: contractor.user.email,
+      itemName: `Invoice ${manualInvoice.number}`,
+      amountPence: manualInvoice.total, // Already in pence
+      metadata: {
+        manualInvoiceId: manualInvoice.id,
+      },
+      returnPath: '/dashboard/contractor/invoices',
+    });
+  } catch (error) {
+    return next(toCheckoutError(error));
+  }
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      checkout,
+      amount: manualInvoice.total / 100,
+      invoiceNumber: manualInvoice.number,
+    },
+  });
+});
+
+// @desc    Check a Checkout Session after Stripe redirects back
+// @route   GET /api/payments/checkout/:sessionId
+// @access  Private (Contractor only)
+export const getCheckoutSession = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  let checkout;
+  try {
+    checkout = await getCheckoutSessionStatus(req.params.sessionId, contractor.id);
+  } catch (error) {
+    return next(toCheckoutError(error));
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: { checkout },
+  });
+});
+
+router.post('/checkout/job-access', createJobAccessCheckout);
+router.post('/checkout/commission', createCommissionCheckout);
+router.post('/checkout/manual-invoice', createManualInvoiceCheckout);
+router.get('/checkout/:sessionId', getCheckoutSession);
+
+// ==================== Credit Bundles ====================
+// Packs of credits defined by admins (CREDIT_BUNDLES setting). Paid with a PaymentIntent and
+// recorded by whichever of the confirm endpoint or the webhook sees the payment first.
+
+// @desc    List the credit bundles on sale and the contractor's unexpired purchased credits
+// @route   GET /api/payments/credit-bundles
+// @access  Private (Contractor only)
+export const getCreditBundleOptions = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true, creditsBalance: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const [bundles, purchases] = await Promise.all([
+    listPurchasableBundles(),
+    prisma.creditPurchase.findMany({
+      where: { contractorId: contractor.id, expiredAt: null, creditsRemaining: { gt: 0 } },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      bundles,
+      purchases,
+      creditsBalance: contractor.creditsBalance,
+    },
+  });
+});
+
+// @desc    Create a payment intent for a credit bundle
+// @route   POST /api/payments/credit-bundles/payment-intent
+// @access  Private (Contractor only)
+export const createCreditBundlePayment = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { bundleId } = req.body;
+
+  if (!bundleId) {
+    return next(new AppError('Bundle ID is required', 400));
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true, accountStatus: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  if (contractor.accountStatus && contractor.accountStatus !== 'ACTIVE') {
+    return next(new AppError(
+      `Your account is currently ${contractor.accountStatus.toLowerCase()}. Please complete verification before buying credits.`,
+      403
+    ));
+  }
+
+  const bundle = await getPurchasableBundle(bundleId.toString());
+
+  let intent;
+  try {
+    intent = await createCreditBundlePaymentIntent(bundle, contractor.id);
+  } catch (error: any) {
+    console.error('❌ Stripe error creating credit bundle payment intent:', error?.message || error);
+    return next(new AppError(`Stripe payment error: ${error?.message || 'Unable to start payment'}`, 400));
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      clientSecret: intent.paymentIntent.client_secret,
+      bundle,
+      ...intent.amounts,
+    },
+  });
+});
+
+// @desc    Record a credit bundle once its payment has succeeded
+// @route   POST /api/payments/credit-bundles/confirm
+// @access  Private (Contractor only)
+export const confirmCreditBundlePurchase = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { stripePaymentIntentId } = req.body;
+
+  if (!stripePaymentIntentId) {
+    return next(new AppError('Stripe payment intent ID is required', 400));
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: req.user!.id },
+    select: { id: true },
+  });
+
+  if (!contractor) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const paymentIntent = await getStripeInstance().paymentIntents.retrieve(stripePaymentIntentId);
+  if (paymentIntent.metadata?.contractorId !== contractor.id) {
+    return next(new AppError('Payment not found', 404));
+  }
+
+  const { purchase, created } = await fulfilCreditBundlePurchase(paymentIntent);
+  const updated = await prisma.contractor.findUnique({
+    where: { id: contractor.id },
+    select: { creditsBalance: true },
+  });
+
+  res.status(created ? 201 : 200).json({
+    status: 'success',
+    message: created ? `${purchase.credits} credits added to your balance` : 'Credit bundle already recorded',
+    data: {
+      purchase,
+      creditsBalance: updated?.creditsBalance ?? 0,
+    },
+  });
+});
+
+router.get('/credit-bundles', getCreditBundleOptions);
+router.post('/credit-bundles/payment-intent', createCreditBundlePayment);
+router.post('/credit-bundles/confirm', confirmCreditBundlePurchase);
+
 export default router; 
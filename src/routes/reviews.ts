@@ -2,6 +2,7 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 import { protect, AuthenticatedRequest, restrictTo } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const router = Router();
 
@@ -10,9 +11,7 @@ const router = Router();
 // @access  Public
 export const getContractorReviews = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const { contractorId } = req.params;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   // Get contractor profile
   const contractor = await prisma.contractor.findUnique({
@@ -26,14 +25,16 @@ export const getContractorReviews = catchAsync(async (req: AuthenticatedRequest,
 
   // Get reviews - only show verified external reviews publicly
   // Internal reviews (isExternal=false) are always verified, external reviews need admin approval
-  const reviews = await prisma.review.findMany({
-    where: {
-      contractorId,
-      OR: [
-        { isExternal: false }, // Internal reviews are always verified
-        { isExternal: true, isVerified: true }, // External reviews must be verified
-      ],
-    },
+  const where = {
+    contractorId,
+    OR: [
+      { isExternal: false }, // Internal reviews are always verified
+      { isExternal: true, isVerified: true }, // External reviews must be verified
+    ],
+  };
+
+  const rows = await prisma.review.findMany({
+    where,
     include: {
       job: {
         select: {
@@ -51,31 +52,18 @@ export const getContractorReviews = catchAsync(async (req: AuthenticatedRequest,
         },
       },
     },
-    orderBy: { createdAt: 'desc' },
-    skip,
-    take: limit,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...getPrismaPageArgs(pagination),
   });
 
-  const total = await prisma.review.count({
-    where: {
-      contractorId,
-      OR: [
-        { isExternal: false },
-        { isExternal: true, isVerified: true },
-      ],
-    },
-  });
+  const total = pagination.mode === 'page' ? await prisma.review.count({ where }) : undefined;
+  const { items: reviews, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       reviews,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
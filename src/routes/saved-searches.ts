@@ -0,0 +1,184 @@
+import { Router, Response, NextFunction } from 'express';
+import { SavedSearchDigestFrequency } from '@prisma/client';
+import { prisma } from '../config/database';
+import { protect, AuthenticatedRequest, restrictTo } from '../middleware/auth';
+import { AppError, catchAsync } from '../middleware/errorHandler';
+
+const router = Router();
+
+const MAX_SAVED_SEARCHES_PER_CONTRACTOR = 20;
+const DIGEST_FREQUENCIES = Object.values(SavedSearchDigestFrequency) as string[];
+
+// Helper: load the signed-in contractor's profile id
+async function getContractorId(userId: string) {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  return contractor?.id ?? null;
+}
+
+// Helper: validate and normalise the filter/alert fields of a create or update body.
+// Only keys present in the body are returned so PATCH can leave the rest untouched.
+function buildSavedSearchData(body: Record<string, any>): Record<string, any> | AppError {
+  const data: Record<string, any> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return new AppError('Saved search name is required', 400);
+    }
+    data.name = body.name.trim().slice(0, 100);
+  }
+
+  for (const field of ['category', 'location', 'search'] as const) {
+    if (body[field] !== undefined) {
+      data[field] = body[field] ? String(body[field]).trim() || null : null;
+    }
+  }
+
+  if (body.budget !== undefined) {
+    const budget = body.budget ? String(body.budget).replace(/\s+/g, '') : '';
+    if (budget && !/^\d*(\.\d+)?-\d*(\.\d+)?$/.test(budget)) {
+      return new AppError('Budget must be a range like "500-2000"', 400);
+    }
+    data.budget = budget || null;
+  }
+
+  // Accept the GET /api/jobs query name as well as the stored field name
+  const urgent = body.urgentOnly ?? body.urgent;
+  if (urgent !== undefined) {
+    data.urgentOnly = urgent === true || urgent === 'true';
+  }
+
+  if (body.instantAlerts !== undefined) {
+    data.instantAlerts = body.instantAlerts === true || body.instantAlerts === 'true';
+  }
+
+  if (body.digestFrequency !== undefined) {
+    const frequency = String(body.digestFrequency).toUpperCase();
+    if (!DIGEST_FREQUENCIES.includes(frequency)) {
+      return new AppError(`Digest frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`, 400);
+    }
+    data.digestFrequency = frequency;
+  }
+
+  return data;
+}
+
+// @desc    Get my saved searches
+// @route   GET /api/jobs/saved-searches
+// @access  Private (Contractor only)
+export const getMySavedSearches = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const savedSearches = await prisma.savedSearch.findMany({
+    where: { contractorId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: { savedSearches },
+  });
+});
+
+// @desc    Save a job search
+// @route   POST /api/jobs/saved-searches
+// @access  Private (Contractor only)
+export const createSavedSearch = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  if (req.body.name === undefined) {
+    return next(new AppError('Saved search name is required', 400));
+  }
+
+  const data = buildSavedSearchData(req.body);
+  if (data instanceof AppError) {
+    return next(data);
+  }
+
+  const existingCount = await prisma.savedSearch.count({ where: { contractorId } });
+  if (existingCount >= MAX_SAVED_SEARCHES_PER_CONTRACTOR) {
+    return next(new AppError(`You can save up to ${MAX_SAVED_SEARCHES_PER_CONTRACTOR} searches`, 400));
+  }
+
+  const savedSearch = await prisma.savedSearch.create({
+    data: {
+      ...(data as { name: string }),
+      contractorId,
+    },
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: { savedSearch },
+  });
+});
+
+// @desc    Update a saved search
+// @route   PATCH /api/jobs/saved-searches/:id
+// @access  Private (Contractor who owns the search)
+export const updateSavedSearch = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const existing = await prisma.savedSearch.findUnique({ where: { id: req.params.id } });
+  if (!existing || existing.contractorId !== contractorId) {
+    return next(new AppError('Saved search not found', 404));
+  }
+
+  const data = buildSavedSearchData(req.body);
+  if (data instanceof AppError) {
+    return next(data);
+  }
+
+  const savedSearch = await prisma.savedSearch.update({
+    where: { id: existing.id },
+    data,
+  });
+
+  res.status(200).json({
+    status: 'success',
+    data: { savedSearch },
+  });
+});
+
+// @desc    Delete a saved search
+// @route   DELETE /api/jobs/saved-searches/:id
+// @access  Private (Contractor who owns the search)
+export const deleteSavedSearch = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+  if (!contractorId) {
+    return next(new AppError('Contractor profile not found', 404));
+  }
+
+  const existing = await prisma.savedSearch.findUnique({ where: { id: req.params.id } });
+  if (!existing || existing.contractorId !== contractorId) {
+    return next(new AppError('Saved search not found', 404));
+  }
+
+  await prisma.savedSearch.delete({ where: { id: existing.id } });
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Saved search deleted',
+  });
+});
+
+// Routes
+router.use(protect, restrictTo('CONTRACTOR'));
+
+router.get('/', getMySavedSearches);
+router.post('/', createSavedSearch);
+router.patch('/:id', updateSavedSearch);
+router.delete('/:id', deleteSavedSearch);
+
+export default router;
@@ -1,7 +1,11 @@
 import { Router, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
+import { parseQuestionnaireDefinition } from '../services/jobQuestionnaireService';
+import { DEFAULT_JOB_SIZE_THRESHOLDS, parseJobSizeThresholds } from '../services/jobSizeService';
 
 const router = Router();
 
@@ -9,9 +13,7 @@ const router = Router();
 // @route   GET /api/services
 // @access  Public
 export const getAllServices = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 50;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query, { defaultLimit: 50 });
 
   const { category, search, isActive } = req.query;
 
@@ -40,10 +42,9 @@ export const getAllServices = catchAsync(async (req: AuthenticatedRequest, res:
     ];
   }
 
-  const services = await prisma.service.findMany({
+  const rows = await prisma.service.findMany({
     where,
-    skip,
-    take: limit,
+    ...getPrismaPageArgs(pagination),
     include: {
       contractors: {
         where: { profileApproved: true },
@@ -65,21 +66,18 @@ export const getAllServices = catchAsync(async (req: AuthenticatedRequest, res:
     orderBy: [
       { category: 'asc' },
       { name: 'asc' },
+      { id: 'asc' },
     ],
   });
 
-  const total = await prisma.service.count({ where });
+  const total = pagination.mode === 'page' ? await prisma.service.count({ where }) : undefined;
+  const { items: services, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       services,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
@@ -128,7 +126,13 @@ export const createService = catchAsync(async (req: AuthenticatedRequest, res: R
     return next(new AppError('Access denied. Admin only.', 403));
   }
 
-  const { name, description, category, isActive } = req.body;
+  const { name, description, category, isActive, questionnaire, smallJobMaxValue, mediumJobMaxValue } = req.body;
+
+  // Questions customers answer when posting a job for this service
+  const questions = questionnaire ? parseQuestionnaireDefinition(questionnaire) : undefined;
+
+  // Value bands used to classify job size (schema defaults apply when omitted)
+  const thresholds = parseJobSizeThresholds({ smallJobMaxValue, mediumJobMaxValue }, DEFAULT_JOB_SIZE_THRESHOLDS);
 
   // Check if service already exists
   const existingService = await prisma.service.findFirst({
@@ -147,6 +151,8 @@ export const createService = catchAsync(async (req: AuthenticatedRequest, res: R
       description,
       category,
       isActive: isActive !== undefined ? isActive : true,
+      ...(questions && { questionnaire: questions }),
+      ...thresholds,
     },
   });
 
@@ -174,7 +180,14 @@ export const updateService = catchAsync(async (req: AuthenticatedRequest, res: R
     return next(new AppError('Service not found', 404));
   }
 
-  const { name, description, category, isActive } = req.body;
+  const { name, description, category, isActive, questionnaire, smallJobMaxValue, mediumJobMaxValue } = req.body;
+
+  // New thresholds only affect jobs classified from now on; existing jobs keep their size
+  const thresholds = parseJobSizeThresholds({ smallJobMaxValue, mediumJobMaxValue }, service);
+
+  // null removes the questionnaire; existing job answers are kept but no longer displayed
+  const questions =
+    questionnaire === null ? Prisma.DbNull : questionnaire !== undefined ? parseQuestionnaireDefinition(questionnaire) : undefined;
 
   // Check if name conflicts with another service
   if (name && name !== service.name) {
@@ -197,6 +210,8 @@ export const updateService = catchAsync(async (req: AuthenticatedRequest, res: R
       ...(description && { description }),
       ...(category && { category }),
       ...(isActive !== undefined && { isActive }),
+      ...(questions !== undefined && { questionnaire: questions }),
+      ...thresholds,
     },
     include: {
       contractors: {
@@ -275,9 +290,7 @@ export const getServiceCategories = catchAsync(async (req: AuthenticatedRequest,
 // @route   GET /api/services/:id/contractors
 // @access  Public
 export const getServiceContractors = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
   const { location, rating, tier } = req.query;
 
@@ -311,10 +324,9 @@ export const getServiceContractors = catchAsync(async (req: AuthenticatedRequest
     where.tier = tier as string;
   }
 
-  const contractors = await prisma.contractor.findMany({
+  const rows = await prisma.contractor.findMany({
     where,
-    skip,
-    take: limit,
+    ...getPrismaPageArgs(pagination),
     include: {
       user: {
         select: {
@@ -329,21 +341,18 @@ export const getServiceContractors = catchAsync(async (req: AuthenticatedRequest
     orderBy: [
       { featuredContractor: 'desc' },
       { averageRating: 'desc' },
+      { id: 'desc' },
     ],
   });
 
-  const total = await prisma.contractor.count({ where });
+  const total = pagination.mode === 'page' ? await prisma.contractor.count({ where }) : undefined;
+  const { items: contractors, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       contractors,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
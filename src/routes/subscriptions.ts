@@ -7,8 +7,16 @@ import {
   checkSubscriptionStatusByUserId,
   getSubscriptionPricing,
   calculateSubscriptionEndDate,
-  formatSubscriptionDetails
+  formatSubscriptionDetails,
+  getStripePriceId,
+  getTierBenefits,
+  previewPlanChange,
+  changeSubscriptionPlan,
+  cancelPendingPlanChange,
+  CONTRACTOR_TIERS,
 } from '../services/subscriptionService';
+import { getCommissionRate, getSubscriptionTierBenefits } from '../services/settingsService';
+import { recordCreditTransaction, recordPaymentReceived } from '../services/ledgerService';
 
 const router = Router();
 
@@ -54,6 +62,8 @@ export const getSubscriptionPlans = catchAsync(async (req: AuthenticatedRequest,
   const monthlyPricing = await getSubscriptionPricing('MONTHLY');
   const sixMonthPricing = await getSubscriptionPricing('SIX_MONTHS');
   const yearlyPricing = await getSubscriptionPricing('YEARLY');
+  const [tierBenefits, standardCommissionRate] = await Promise.all([getSubscriptionTierBenefits(), getCommissionRate()]);
+  const standard = tierBenefits.STANDARD;
   
   const plans = [
     {
@@ -61,8 +71,8 @@ export const getSubscriptionPlans = catchAsync(async (req: AuthenticatedRequest,
       name: 'Monthly',
       ...monthlyPricing,
       features: [
-        '3 free job credits per week',
-        '5% commission when using credits (or pay lead price for 0%)',
+        `${standard.weeklyCredits} free job credits per week`,
+        `${standard.commissionRate ?? standardCommissionRate}% commission when using credits (or pay lead price for 0%)`,
         'Access to all job listings',
         'Profile visibility to customers',
         'Customer reviews',
@@ -95,10 +105,25 @@ export const getSubscriptionPlans = catchAsync(async (req: AuthenticatedRequest,
     },
   ];
 
+  // Each plan comes in every tier, priced with the tier's multiplier
+  const tiers = await Promise.all(
+    CONTRACTOR_TIERS.map(async (tier) => ({
+      id: tier,
+      ...tierBenefits[tier],
+      commissionRate: tierBenefits[tier].commissionRate ?? standardCommissionRate,
+      pricing: {
+        MONTHLY: await getSubscriptionPricing('MONTHLY', tier),
+        SIX_MONTHS: await getSubscriptionPricing('SIX_MONTHS', tier),
+        YEARLY: await getSubscriptionPricing('YEARLY', tier),
+      },
+    }))
+  );
+
   res.status(200).json({
     status: 'success',
     data: {
       plans,
+      tiers,
     },
   });
 });
@@ -177,7 +202,7 @@ export const createSubscriptionPaymentIntent = catchAsync(async (req: Authentica
   }
 
   // Get pricing for selected plan using unified service
-    const pricing = await getSubscriptionPricing(plan);
+    const pricing = await getSubscriptionPricing(plan, contractor.tier);
     const amount = pricing.total;
 
   // Create payment intent
@@ -340,23 +365,12 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
       try {
 
         
-        // Get the appropriate price ID based on plan
+        // Get the appropriate price ID based on plan and tier
         // These should be created in your Stripe dashboard
-        let priceId;
-        switch (plan) {
-          case 'MONTHLY':
-            priceId = process.env.STRIPE_PRICE_MONTHLY;
-            break;
-          case 'SIX_MONTHS':
-            priceId = process.env.STRIPE_PRICE_SIX_MONTHS;
-            break;
-          case 'YEARLY':
-            priceId = process.env.STRIPE_PRICE_YEARLY;
-            break;
-        }
+        let priceId = getStripePriceId(plan, contractor.tier);
         
         if (!priceId) {
-          console.warn(`⚠️ No Stripe price ID found for plan: ${plan}, using test price`);
+          console.warn(`⚠️ No Stripe price ID found for plan: ${plan} (${contractor.tier}), using test price`);
           // Fallback to test price - replace with your actual test price ID
           priceId = 'price_test123'; // Replace with a real test price ID
         }
@@ -371,6 +385,7 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
             contractorId: contractor.id,
             userId: contractor.userId,
             plan,
+            tier: contractor.tier,
             type: 'contractor_subscription'
           },
           payment_behavior: 'default_incomplete',
@@ -393,11 +408,16 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
     // Update existing subscription
 
     try {
-      const pricing = await getSubscriptionPricing(plan);
+      const pricing = await getSubscriptionPricing(plan, contractor.tier);
       subscription = await prisma.subscription.update({
         where: { id: existingSubscription.id },
         data: {
           plan,
+          tier: contractor.tier,
+          pendingPlan: null,
+          pendingTier: null,
+          pendingChangeAt: null,
+          stripeScheduleId: null,
           status: 'active',
           isActive: true,
           currentPeriodStart: now,
@@ -415,7 +435,7 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
     // Create new subscription
 
     try {
-      const pricing = await getSubscriptionPricing(plan);
+      const pricing = await getSubscriptionPricing(plan, contractor.tier);
       subscription = await prisma.subscription.create({
         data: {
           contractorId: contractor.id,
@@ -440,7 +460,7 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
 
   let payment;
   try {
-    const pricing = await getSubscriptionPricing(plan);
+    const pricing = await getSubscriptionPricing(plan, contractor.tier);
     payment = await prisma.payment.create({
       data: {
         contractorId: contractor.id,
@@ -451,14 +471,16 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
         description: `${plan} subscription payment`,
       },
     });
+    await recordPaymentReceived(prisma, payment, { vatAmount: pricing.vatAmount });
 
   } catch (err) {
     console.error(`❌ Error creating payment record: ${err instanceof Error ? err.message : 'Unknown error'}`);
     throw err;
   }
 
-  // Subscribed contractors get 3 weekly credits
-  const newWeeklyCreditsLimit = 3;
+  // Subscribed contractors get their tier's weekly credits
+  const benefits = await getTierBenefits(contractor.tier);
+  const newWeeklyCreditsLimit = benefits.weeklyCredits;
   const preservedCreditsBalance = Math.max(contractor.creditsBalance, newWeeklyCreditsLimit);
 
   // Allocate initial credits to the contractor
@@ -468,6 +490,7 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
       where: { id: contractor.id },
       data: {
         weeklyCreditsLimit: newWeeklyCreditsLimit,
+        ...(benefits.featured && { featuredContractor: true }),
         // Preserve any higher manually-added/purchased balance.
         creditsBalance: preservedCreditsBalance,
         lastCreditReset: newWeeklyCreditsLimit > 0 ? now : contractor.lastCreditReset
@@ -476,7 +499,7 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
 
     // Create credit transaction record only if credits were added
     if (newWeeklyCreditsLimit > 0 && preservedCreditsBalance > contractor.creditsBalance) {
-      await prisma.creditTransaction.create({
+      const allocation = await prisma.creditTransaction.create({
         data: {
           contractorId: contractor.id,
           type: 'WEEKLY_ALLOCATION',
@@ -484,6 +507,7 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
           description: 'Initial credit allocation - subscription activated'
         }
       });
+      await recordCreditTransaction(prisma, allocation);
     }
 
 
@@ -496,7 +520,7 @@ export const confirmSubscription = catchAsync(async (req: AuthenticatedRequest,
 
   let invoice;
   try {
-    const pricing = await getSubscriptionPricing(plan);
+    const pricing = await getSubscriptionPricing(plan, contractor.tier);
     invoice = await prisma.invoice.create({
       data: {
         payments: { connect: { id: payment.id } },
@@ -638,6 +662,83 @@ export const cancelSubscription = catchAsync(async (req: AuthenticatedRequest, r
   });
 });
 
+async function getContractorId(userId: string) {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  if (!contractor) {
+    throw new AppError('Contractor profile not found', 404);
+  }
+  return contractor.id;
+}
+
+// @desc    Preview the cost of changing plan or tier
+// @route   POST /api/subscriptions/change-plan/preview
+// @access  Private (Contractor only)
+export const previewSubscriptionPlanChange = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { plan, tier, timing } = req.body;
+  const contractorId = await getContractorId(req.user!.id);
+
+  const preview = await previewPlanChange(contractorId, { plan, tier, timing });
+
+  res.status(200).json({
+    status: 'success',
+    data: { preview },
+  });
+});
+
+// @desc    Change subscription plan or tier, now or at the end of the period
+// @route   POST /api/subscriptions/change-plan
+// @access  Private (Contractor only)
+export const changePlan = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { plan, tier, timing, prorationDate } = req.body;
+  const contractorId = await getContractorId(req.user!.id);
+
+  if (prorationDate !== undefined && !Number.isInteger(prorationDate)) {
+    return next(new AppError('prorationDate must be the value returned by the preview', 400));
+  }
+
+  const result = await changeSubscriptionPlan(contractorId, { plan, tier, timing, prorationDate });
+  const immediate = result.timing === 'immediate';
+
+  import('../services/notificationService').then(({ createNotification }) =>
+    createNotification({
+      userId: req.user!.id,
+      title: immediate ? 'Subscription Plan Changed' : 'Subscription Plan Change Scheduled',
+      message: immediate
+        ? `You're now on the ${result.subscription.tier.toLowerCase()} ${result.subscription.plan.replace(/_/g, ' ').toLowerCase()} plan.`
+        : `Your plan will change on ${result.effectiveAt.toLocaleDateString('en-GB')}.`,
+      type: 'SUCCESS',
+      actionLink: '/dashboard/contractor/payments',
+      actionText: 'View Subscription',
+    })
+  ).catch(err => console.error('Failed to create plan change notification:', err));
+
+  res.status(200).json({
+    status: 'success',
+    message: immediate ? 'Subscription plan changed' : 'Subscription plan change scheduled',
+    data: {
+      subscription: await formatSubscriptionDetails(result.subscription),
+      effectiveAt: result.effectiveAt,
+    },
+  });
+});
+
+// @desc    Cancel a plan change booked for the end of the period
+// @route   DELETE /api/subscriptions/change-plan
+// @access  Private (Contractor only)
+export const cancelPlanChange = catchAsync(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const contractorId = await getContractorId(req.user!.id);
+
+  await cancelPendingPlanChange(contractorId);
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Scheduled plan change cancelled',
+  });
+});
+
 // Email sending functions removed - all subscription information is now available in-app only
 
 // Routes
@@ -649,5 +750,8 @@ router.get('/current', getCurrentSubscription);
 router.post('/create-payment-intent', createSubscriptionPaymentIntent);
 router.post('/confirm', confirmSubscription);
 router.post('/cancel', cancelSubscription);
+router.post('/change-plan/preview', previewSubscriptionPlanChange);
+router.post('/change-plan', changePlan);
+router.delete('/change-plan', cancelPlanChange);
 
 export default router;
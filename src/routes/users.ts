@@ -2,6 +2,7 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 import { protect, AuthenticatedRequest } from '../middleware/auth';
 import { AppError, catchAsync } from '../middleware/errorHandler';
+import { getPagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 import bcrypt from 'bcryptjs';
 
 const router = Router();
@@ -14,13 +15,10 @@ export const getAllUsers = catchAsync(async (req: AuthenticatedRequest, res: Res
     return next(new AppError('Access denied. Admin only.', 403));
   }
 
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const skip = (page - 1) * limit;
+  const pagination = getPagination(req.query);
 
-  const users = await prisma.user.findMany({
-    skip,
-    take: limit,
+  const rows = await prisma.user.findMany({
+    ...getPrismaPageArgs(pagination),
     select: {
       id: true,
       name: true,
@@ -43,23 +41,17 @@ export const getAllUsers = catchAsync(async (req: AuthenticatedRequest, res: Res
         },
       },
     },
-    orderBy: {
-      createdAt: 'desc',
-    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
   });
 
-  const total = await prisma.user.count();
+  const total = pagination.mode === 'page' ? await prisma.user.count() : undefined;
+  const { items: users, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
 
   res.status(200).json({
     status: 'success',
     data: {
       users,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      pagination: paginationMeta,
     },
   });
 });
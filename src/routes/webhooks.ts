@@ -6,6 +6,14 @@ import { buffer } from 'micro';
 import { createEmailService } from '../services/emailService';
 import { SubscriptionPlan, CommissionStatus } from '@prisma/client';
 import { reconcileJobAccessFromPaymentIntent } from '../services/paymentReconciliationService';
+import { fulfilCheckoutSession } from '../services/checkoutService';
+import { CREDIT_BUNDLE_PAYMENT_TYPE, fulfilCreditBundlePurchase } from '../services/creditBundleService';
+import { ESCROW_PAYMENT_TYPE, fundEscrow, syncConnectAccount } from '../services/escrowService';
+import { reconcileStripeRefund } from '../services/refundService';
+import { closeFailedRenewals, recordFailedRenewal, recoverFailedRenewal } from '../services/dunningService';
+import { settleCommissionFromPaymentIntent } from '../services/commissionService';
+import { syncPlanFromStripe } from '../services/subscriptionService';
+import { recordManualInvoiceIssued, recordPaymentReceived } from '../services/ledgerService';
 
 const router = Router();
 
@@ -241,7 +249,7 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
           }
           
           // Create payment record
-          await prisma.payment.create({
+          const subscriptionPayment = await prisma.payment.create({
             data: {
               contractorId: dbSubscription.contractorId,
               amount: Number(invoice.total) / 100,
@@ -251,6 +259,10 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
               description: `Subscription payment for ${dbSubscription.plan}`,
             },
           });
+          await recordPaymentReceived(prisma, subscriptionPayment, { vatAmount: createdInvoice.vatAmount });
+
+          // A retry that went through ends any dunning and gives back reduced credits
+          await recoverFailedRenewal(subscriptionId);
         }
       }
       break;
@@ -271,23 +283,9 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
         });
         
         if (dbSubscription) {
-          // Update subscription status
-          await prisma.subscription.update({
-            where: { id: dbSubscription.id },
-            data: {
-              status: 'past_due',
-              // Don't set isActive to false yet, as the user might still pay
-            },
-          });
-          
-          // Send notification to user
-          await sendPaymentFailedNotification(
-            dbSubscription.contractor.user, 
-            { 
-              amount: invoice.total,
-              last_payment_error: { message: 'Your payment was declined. Please update your payment method.' }
-            }
-          );
+          // The subscription stays active through the grace period; the dunning schedule
+          // notifies the contractor and moves it to past_due and cancelled if nobody pays
+          await recordFailedRenewal(invoice);
         }
       }
       break;
@@ -366,6 +364,10 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
         const isScheduledCancel = subscription.cancel_at_period_end === true;
         const isNowCancelled = subscription.status === 'canceled';
 
+        if (isNowCancelled) {
+          await closeFailedRenewals(subscription.id);
+        }
+
         // Update subscription details
         await prisma.subscription.update({
           where: { id: dbSubscription.id },
@@ -374,11 +376,14 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
             isActive: ['active', 'trialing'].includes(subscription.status) && !isScheduledCancel,
             currentPeriodStart: new Date(subscription.current_period_start * 1000),
             currentPeriodEnd: new Date(subscription.current_period_end * 1000),
-            // Update plan if it's in metadata, casting to SubscriptionPlan enum
-            ...(subscription.metadata?.plan ? { plan: subscription.metadata.plan as any as SubscriptionPlan } : {}),
           },
         });
 
+        // Plan and tier come from metadata, which a scheduled change updates when it starts
+        if (!isNowCancelled) {
+          await syncPlanFromStripe(subscription);
+        }
+
         // Notify when cancellation is scheduled or takes effect via Stripe (skip if already cancelled in our DB)
         if (!wasCancelled && dbSubscription.contractor?.userId) {
           try {
@@ -417,6 +422,7 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
       
       if (dbSubscription) {
         const wasAlreadyCancelled = dbSubscription.status === 'cancelled' && !dbSubscription.isActive;
+        await closeFailedRenewals(subscription.id);
 
         // Update subscription status
         await prisma.subscription.update({
@@ -488,8 +494,12 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
               where: { stripePaymentId: paymentIntent.id },
             });
             
+            if (manualInvoice.status === 'DRAFT') {
+              await recordManualInvoiceIssued(prisma, manualInvoice);
+            }
+
             if (!existingPayment) {
-              await prisma.payment.create({
+              const invoicePayment = await prisma.payment.create({
                 data: {
                   contractorId,
                   amount: Number(paymentIntent.amount) / 100,
@@ -499,6 +509,7 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
                   description: `Manual invoice payment: ${manualInvoice.number}`,
                 },
               });
+              await recordPaymentReceived(prisma, invoicePayment);
             }
             
             console.log(`✅ Manual invoice ${manualInvoice.number} marked as paid`);
@@ -522,7 +533,7 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
         try {
           const reconciliation = await reconcileJobAccessFromPaymentIntent(paymentIntent);
           console.log(
-            `✅ Job access payment reconciled for PI ${paymentIntent.id} (jobAccessCreated=${reconciliation.createdJobAccess}, paymentCreated=${reconciliation.createdPayment})`
+            `✅ Job access payment reconciled for PI ${paymentIntent.id} (jobAccessCreated=${reconciliation.createdJobAccess}, paymentCreated=${reconciliation.createdPayment}, duplicate=${reconciliation.duplicate})`
           );
         } catch (reconcileError: any) {
           console.error(
@@ -531,36 +542,14 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
           );
           throw reconcileError;
         }
+      } else if (paymentType === CREDIT_BUNDLE_PAYMENT_TYPE) {
+        const { purchase, created } = await fulfilCreditBundlePurchase(paymentIntent);
+        console.log(`✅ Credit bundle ${purchase.bundleName} for contractor ${purchase.contractorId} ${created ? 'recorded' : 'already recorded'} (PI ${paymentIntent.id})`);
+      } else if (paymentType === ESCROW_PAYMENT_TYPE) {
+        const { escrow, funded } = await fundEscrow(paymentIntent);
+        console.log(`✅ Escrow ${escrow.id} for job ${escrow.jobId} ${funded ? 'funded' : 'already funded'} (PI ${paymentIntent.id})`);
       } else if (paymentType === 'commission_payment') {
-        const commissionPaymentId = paymentIntent.metadata?.commissionPaymentId;
-        
-        if (commissionPaymentId) {
-          // Check if commission payment exists and isn't already marked paid
-          const commissionPayment = await prisma.commissionPayment.findFirst({
-            where: {
-              id: commissionPaymentId,
-              status: 'PENDING',
-            },
-          });
-          
-          if (commissionPayment) {
-            // Mark commission as paid
-            await prisma.commissionPayment.update({
-              where: { id: commissionPaymentId },
-              data: {
-                status: 'PAID',
-                paidAt: new Date(),
-                stripePaymentId: paymentIntent.id,
-              },
-            });
-            
-            // Update job as commission paid
-            await prisma.job.update({
-              where: { id: commissionPayment.jobId },
-              data: { commissionPaid: true },
-            });
-          }
-        }
+        await settleCommissionFromPaymentIntent(paymentIntent);
       }
       // Other payment types can be handled here
       
@@ -573,7 +562,12 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
       
       // Check what type of payment this is from metadata
       const paymentType = paymentIntent.metadata?.type;
-      const contractorId = paymentIntent.metadata?.contractorId;
+      // Escrow payments are the customer's; the contractor named in the metadata didn't pay.
+      // Failed commission auto-pay charges are recorded and notified by processCommissionAutoPay.
+      const contractorId =
+        paymentType === ESCROW_PAYMENT_TYPE || paymentIntent.metadata?.autoPay === 'true'
+          ? undefined
+          : paymentIntent.metadata?.contractorId;
       
       if (contractorId) {
         const contractor = await prisma.contractor.findUnique({
@@ -607,6 +601,65 @@ export const stripeWebhook = catchAsync(async (req: Request, res: Response, next
       break;
     }
     
+    // ==================== Checkout Events ====================
+    // Checkout purchases are fulfilled here and nowhere else (see checkoutService)
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const fulfilment = await fulfilCheckoutSession(session);
+      console.log(
+        `🧾 Checkout session ${session.id} (${event.type}, purpose=${fulfilment.purpose}): ${fulfilment.outcome}${fulfilment.outcome === 'ignored' ? ` - ${fulfilment.reason}` : ''}`
+      );
+      break;
+    }
+
+    case 'checkout.session.async_payment_failed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const contractorId = session.metadata?.contractorId;
+
+      if (contractorId) {
+        const contractor = await prisma.contractor.findUnique({
+          where: { id: contractorId },
+          include: { user: true },
+        });
+        if (contractor) {
+          await sendPaymentFailedNotification(contractor.user, {
+            amount: session.amount_total,
+            reason: 'Your bank did not complete the payment',
+          });
+        }
+      }
+      break;
+    }
+    
+    // ==================== Refund Events ====================
+    // Refunds sent from the admin flow are confirmed here; refunds made anywhere else are recorded here
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      // The event's charge no longer carries its refunds, so list them
+      const refunds = await getStripeInstance().refunds.list({ charge: charge.id, limit: 100 });
+      for (const refund of refunds.data) {
+        const outcome = await reconcileStripeRefund(refund);
+        console.log(`↩️ Refund ${refund.id} on charge ${charge.id} (${refund.status}): ${outcome}`);
+      }
+      break;
+    }
+
+    case 'refund.updated': {
+      const refund = event.data.object as Stripe.Refund;
+      const outcome = await reconcileStripeRefund(refund);
+      console.log(`↩️ Refund ${refund.id} updated (${refund.status}): ${outcome}`);
+      break;
+    }
+
+    // ==================== Connect Events ====================
+    case 'account.updated': {
+      const account = event.data.object as Stripe.Account;
+      const payoutsEnabled = await syncConnectAccount(account);
+      console.log(`🏦 Connected account ${account.id} updated, payouts ${payoutsEnabled ? 'enabled' : 'not enabled'}`);
+      break;
+    }
+
     // Add more event handlers as needed
     
     default:
@@ -0,0 +1,507 @@
+import { AppointmentAction, AppointmentParty, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+import {
+  sendAppointmentCancelledEmail,
+  sendAppointmentConfirmedEmail,
+  sendAppointmentReminderEmail,
+} from './emailNotificationService';
+import { buildICalendar } from '../utils/icalendar';
+
+/**
+ * Site visit scheduling.
+ *
+ * A contractor with access to a job proposes up to MAX_SLOTS time slots; the customer
+ * accepts one (CONFIRMED) or declines. Either side can reschedule by proposing new
+ * slots - the appointment goes back to PROPOSED but keeps its agreed time until the
+ * other side picks a new one, and a declined reschedule leaves the original booking in
+ * place. Every step is logged as an AppointmentEvent, which is the history shown on the
+ * job. Confirmed bookings are sent to both parties as .ics files, and both get a
+ * reminder REMINDER_LEAD_HOURS before the visit.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const MAX_SLOTS = 5;
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_HOURS = 12;
+const REMINDER_LEAD_HOURS = 24;
+
+// Jobs where the parties still have a reason to meet on site
+const SCHEDULABLE_JOB_STATUSES = ['POSTED', 'IN_PROGRESS'];
+
+// Type alias (not an interface) so a list of these can be stored in a Json column
+export type AppointmentSlot = {
+  startsAt: string;
+  endsAt: string;
+};
+
+const appointmentInclude = {
+  job: {
+    select: {
+      id: true,
+      title: true,
+      location: true,
+      postcode: true,
+      status: true,
+      customer: { select: { user: { select: { id: true, name: true, email: true } } } },
+    },
+  },
+  contractor: {
+    select: {
+      id: true,
+      businessName: true,
+      user: { select: { id: true, name: true, email: true } },
+    },
+  },
+} as const;
+
+// What a job's appointment history shows (appointments route and getJobWithAccess)
+export const APPOINTMENT_HISTORY_INCLUDE = {
+  contractor: {
+    select: {
+      id: true,
+      businessName: true,
+      user: { select: { name: true } },
+    },
+  },
+  events: { orderBy: { createdAt: 'asc' } },
+} as const;
+
+type AppointmentWithParties = Prisma.AppointmentGetPayload<{ include: typeof appointmentInclude }>;
+
+const otherParty = (party: AppointmentParty): AppointmentParty => (party === 'CUSTOMER' ? 'CONTRACTOR' : 'CUSTOMER');
+
+const contractorName = (appointment: AppointmentWithParties) =>
+  appointment.contractor.businessName || appointment.contractor.user.name;
+
+/**
+ * Validate the time slots offered for a visit. Slots must be in the future, between
+ * MIN_DURATION_MINUTES and MAX_DURATION_HOURS long, and are returned in time order.
+ */
+export function parseAppointmentSlots(input: unknown, now: Date = new Date()): AppointmentSlot[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new AppError('Offer at least one time slot', 400);
+  }
+  if (input.length > MAX_SLOTS) {
+    throw new AppError(`Offer at most ${MAX_SLOTS} time slots`, 400);
+  }
+
+  const slots = input.map((slot, index) => {
+    const startsAt = new Date(slot?.startsAt);
+    const endsAt = new Date(slot?.endsAt);
+    if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime())) {
+      throw new AppError(`Slot ${index + 1} needs a valid startsAt and endsAt`, 400);
+    }
+    if (startsAt <= now) {
+      throw new AppError(`Slot ${index + 1} is in the past`, 400);
+    }
+
+    const duration = endsAt.getTime() - startsAt.getTime();
+    if (duration < MIN_DURATION_MINUTES * MINUTE_MS || duration > MAX_DURATION_HOURS * HOUR_MS) {
+      throw new AppError(
+        `Slot ${index + 1} must last between ${MIN_DURATION_MINUTES} minutes and ${MAX_DURATION_HOURS} hours`,
+        400
+      );
+    }
+    return { startsAt, endsAt };
+  });
+
+  return slots
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+    .map((slot) => ({ startsAt: slot.startsAt.toISOString(), endsAt: slot.endsAt.toISOString() }));
+}
+
+function getProposedSlots(value: Prisma.JsonValue | null): AppointmentSlot[] {
+  return Array.isArray(value) ? (value as AppointmentSlot[]) : [];
+}
+
+/**
+ * The .ics file for an appointment with an agreed time, or null while nothing is agreed.
+ */
+export function buildAppointmentCalendar(
+  appointment: Pick<AppointmentWithParties, 'id' | 'sequence' | 'status' | 'startsAt' | 'endsAt' | 'location' | 'notes' | 'updatedAt'> & {
+    job: Pick<AppointmentWithParties['job'], 'id' | 'title'>;
+    contractor: Pick<AppointmentWithParties['contractor'], 'businessName'> & { user: { name: string } };
+  }
+): string | null {
+  if (!appointment.startsAt || !appointment.endsAt) {
+    return null;
+  }
+
+  return buildICalendar({
+    uid: `appointment-${appointment.id}@trustbuild.uk`,
+    sequence: appointment.sequence,
+    start: appointment.startsAt,
+    end: appointment.endsAt,
+    summary: `Site visit: ${appointment.job.title}`,
+    description: [
+      `Contractor: ${appointment.contractor.businessName || appointment.contractor.user.name}`,
+      appointment.notes,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+    location: appointment.location,
+    url: `https://trustbuild.uk/dashboard/jobs/${appointment.job.id}`,
+    status: appointment.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED',
+    updatedAt: appointment.updatedAt,
+  });
+}
+
+/**
+ * Load an appointment on a job and work out which side the signed-in user is on.
+ */
+export async function getAppointmentForUser(jobId: string, appointmentId: string, userId: string) {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: appointmentInclude,
+  });
+
+  if (!appointment || appointment.jobId !== jobId) {
+    throw new AppError('Appointment not found', 404);
+  }
+
+  let party: AppointmentParty;
+  if (appointment.job.customer.user.id === userId) {
+    party = 'CUSTOMER';
+  } else if (appointment.contractor.user.id === userId) {
+    party = 'CONTRACTOR';
+  } else {
+    throw new AppError('Not authorized to manage this appointment', 403);
+  }
+
+  return { appointment, party };
+}
+
+async function notifyParty(
+  appointment: AppointmentWithParties,
+  party: AppointmentParty,
+  title: string,
+  message: string
+) {
+  const userId = party === 'CUSTOMER' ? appointment.job.customer.user.id : appointment.contractor.user.id;
+  await createNotification({
+    userId,
+    title,
+    message,
+    type: 'INFO',
+    actionLink: `/dashboard/${party === 'CUSTOMER' ? 'client' : 'contractor'}/jobs/${appointment.jobId}`,
+    actionText: 'View Appointment',
+    metadata: { jobId: appointment.jobId, appointmentId: appointment.id },
+  });
+}
+
+// Email both parties about an agreed (or cancelled) booking with the .ics attached
+async function emailBothParties(
+  appointment: AppointmentWithParties,
+  send: typeof sendAppointmentConfirmedEmail
+) {
+  const ics = buildAppointmentCalendar(appointment);
+  if (!ics || !appointment.startsAt || !appointment.endsAt) {
+    return;
+  }
+
+  const recipients = [
+    { user: appointment.job.customer.user, otherPartyName: contractorName(appointment) },
+    { user: appointment.contractor.user, otherPartyName: appointment.job.customer.user.name },
+  ];
+
+  await Promise.all(
+    recipients.map(({ user, otherPartyName }) =>
+      send({
+        recipientEmail: user.email,
+        recipientName: user.name,
+        otherPartyName,
+        jobTitle: appointment.job.title,
+        jobId: appointment.jobId,
+        startsAt: appointment.startsAt!,
+        endsAt: appointment.endsAt!,
+        location: appointment.location,
+        ics,
+      })
+    )
+  );
+}
+
+function formatSlot(date: Date) {
+  return date.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Europe/London' });
+}
+
+/**
+ * Contractor offers time slots for a site visit.
+ */
+export async function proposeAppointment(data: {
+  jobId: string;
+  userId: string;
+  slots: unknown;
+  location?: string;
+  notes?: string;
+}) {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: data.userId },
+    select: { id: true },
+  });
+  if (!contractor) {
+    throw new AppError('Only contractors can propose appointments', 403);
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: data.jobId },
+    select: {
+      status: true,
+      location: true,
+      postcode: true,
+      wonByContractorId: true,
+      jobAccess: { where: { contractorId: contractor.id }, select: { id: true } },
+    },
+  });
+  if (!job) {
+    throw new AppError('Job not found', 404);
+  }
+  if (job.jobAccess.length === 0 && job.wonByContractorId !== contractor.id) {
+    throw new AppError('Purchase this job before arranging a visit', 403);
+  }
+  if (!SCHEDULABLE_JOB_STATUSES.includes(job.status)) {
+    throw new AppError('Visits can only be arranged for open or in-progress jobs', 400);
+  }
+
+  const slots = parseAppointmentSlots(data.slots);
+  const location = data.location?.trim() || [job.location, job.postcode].filter(Boolean).join(', ');
+
+  const appointment = await prisma.appointment.create({
+    data: {
+      jobId: data.jobId,
+      contractorId: contractor.id,
+      proposedSlots: slots,
+      proposedBy: 'CONTRACTOR',
+      location,
+      notes: data.notes?.trim() || null,
+      events: {
+        create: { action: 'PROPOSED', actor: 'CONTRACTOR', actorUserId: data.userId, slots },
+      },
+    },
+    include: appointmentInclude,
+  });
+
+  await notifyParty(
+    appointment,
+    'CUSTOMER',
+    'Site Visit Requested',
+    `${contractorName(appointment)} offered ${slots.length} time${slots.length === 1 ? '' : 's'} to visit for: ${appointment.job.title}`
+  );
+
+  return appointment;
+}
+
+/**
+ * Accept one of the slots the other party offered.
+ */
+export async function acceptAppointmentSlot(data: { jobId: string; appointmentId: string; userId: string; slotIndex: number }) {
+  const { appointment, party } = await getAppointmentForUser(data.jobId, data.appointmentId, data.userId);
+
+  if (appointment.status !== 'PROPOSED' || appointment.proposedBy === party) {
+    throw new AppError('There is no proposal waiting for your answer', 400);
+  }
+
+  const slot = getProposedSlots(appointment.proposedSlots)[data.slotIndex];
+  if (!slot) {
+    throw new AppError('Choose one of the offered slots', 400);
+  }
+  const startsAt = new Date(slot.startsAt);
+  const endsAt = new Date(slot.endsAt);
+  if (startsAt <= new Date()) {
+    throw new AppError('That slot has already passed - ask for new times', 400);
+  }
+
+  const updated = await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: {
+      status: 'CONFIRMED',
+      startsAt,
+      endsAt,
+      proposedSlots: Prisma.DbNull,
+      proposedBy: null,
+      reminderSentAt: null,
+      sequence: { increment: 1 },
+      events: {
+        create: { action: 'ACCEPTED', actor: party, actorUserId: data.userId, startsAt, endsAt },
+      },
+    },
+    include: appointmentInclude,
+  });
+
+  await notifyParty(
+    updated,
+    otherParty(party),
+    'Site Visit Confirmed',
+    `Visit for "${updated.job.title}" confirmed for ${formatSlot(startsAt)}`
+  );
+  await emailBothParties(updated, sendAppointmentConfirmedEmail);
+
+  return updated;
+}
+
+/**
+ * Turn down the other party's proposal. A declined reschedule keeps the existing booking.
+ */
+export async function declineAppointmentProposal(data: { jobId: string; appointmentId: string; userId: string; reason?: string }) {
+  const { appointment, party } = await getAppointmentForUser(data.jobId, data.appointmentId, data.userId);
+
+  if (appointment.status !== 'PROPOSED' || appointment.proposedBy === party) {
+    throw new AppError('There is no proposal waiting for your answer', 400);
+  }
+
+  const keepsBooking = !!appointment.startsAt;
+  const updated = await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: {
+      status: keepsBooking ? 'CONFIRMED' : 'DECLINED',
+      proposedSlots: Prisma.DbNull,
+      proposedBy: null,
+      events: {
+        create: { action: 'DECLINED', actor: party, actorUserId: data.userId, note: data.reason?.trim() || null },
+      },
+    },
+    include: appointmentInclude,
+  });
+
+  await notifyParty(
+    updated,
+    otherParty(party),
+    keepsBooking ? 'New Visit Times Declined' : 'Site Visit Declined',
+    keepsBooking
+      ? `The new times for "${updated.job.title}" were declined - the visit stays on ${formatSlot(updated.startsAt!)}`
+      : `Your proposed visit times for "${updated.job.title}" were declined`
+  );
+
+  return updated;
+}
+
+/**
+ * Offer new slots: reschedules a confirmed visit, or answers a proposal with other times.
+ */
+export async function rescheduleAppointment(data: {
+  jobId: string;
+  appointmentId: string;
+  userId: string;
+  slots: unknown;
+  reason?: string;
+}) {
+  const { appointment, party } = await getAppointmentForUser(data.jobId, data.appointmentId, data.userId);
+
+  if (appointment.status !== 'PROPOSED' && appointment.status !== 'CONFIRMED') {
+    throw new AppError(`This appointment is ${appointment.status.toLowerCase()} and cannot be rescheduled`, 400);
+  }
+
+  const slots = parseAppointmentSlots(data.slots);
+  const action: AppointmentAction = appointment.startsAt ? 'RESCHEDULE_PROPOSED' : 'PROPOSED';
+
+  const updated = await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: {
+      status: 'PROPOSED',
+      proposedSlots: slots,
+      proposedBy: party,
+      events: {
+        create: { action, actor: party, actorUserId: data.userId, slots, note: data.reason?.trim() || null },
+      },
+    },
+    include: appointmentInclude,
+  });
+
+  await notifyParty(
+    updated,
+    otherParty(party),
+    'New Visit Times Proposed',
+    `New times were offered for the visit for: ${updated.job.title}`
+  );
+
+  return updated;
+}
+
+/**
+ * Call off a visit that is still being arranged or is booked.
+ */
+export async function cancelAppointment(data: { jobId: string; appointmentId: string; userId: string; reason?: string }) {
+  const { appointment, party } = await getAppointmentForUser(data.jobId, data.appointmentId, data.userId);
+
+  if (appointment.status !== 'PROPOSED' && appointment.status !== 'CONFIRMED') {
+    throw new AppError(`This appointment is already ${appointment.status.toLowerCase()}`, 400);
+  }
+
+  const reason = data.reason?.trim() || null;
+  const updated = await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: {
+      status: 'CANCELLED',
+      proposedSlots: Prisma.DbNull,
+      proposedBy: null,
+      cancelledBy: party,
+      cancellationReason: reason,
+      // Calendars only apply the cancellation if the sequence moves on
+      sequence: { increment: 1 },
+      events: {
+        create: { action: 'CANCELLED', actor: party, actorUserId: data.userId, note: reason },
+      },
+    },
+    include: appointmentInclude,
+  });
+
+  await notifyParty(
+    updated,
+    otherParty(party),
+    'Site Visit Cancelled',
+    `The visit for "${updated.job.title}" was cancelled${reason ? `: ${reason}` : ''}`
+  );
+  if (updated.startsAt && updated.startsAt > new Date()) {
+    await emailBothParties(updated, sendAppointmentCancelledEmail);
+  }
+
+  return updated;
+}
+
+/**
+ * Remind both parties about confirmed visits starting within REMINDER_LEAD_HOURS. Run
+ * from the scheduler; each booking is reminded once per agreed time.
+ */
+export async function processAppointmentReminders(): Promise<{ reminded: number }> {
+  const now = new Date();
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      status: 'CONFIRMED',
+      reminderSentAt: null,
+      startsAt: { gt: now, lte: new Date(now.getTime() + REMINDER_LEAD_HOURS * HOUR_MS) },
+    },
+    include: appointmentInclude,
+    orderBy: { startsAt: 'asc' },
+    take: 200,
+  });
+
+  let reminded = 0;
+  for (const appointment of appointments) {
+    try {
+      // Claim the reminder first so an overlapping run can't send it twice
+      const claimed = await prisma.appointment.updateMany({
+        where: { id: appointment.id, reminderSentAt: null, sequence: appointment.sequence },
+        data: { reminderSentAt: now },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+      await prisma.appointmentEvent.create({
+        data: { appointmentId: appointment.id, action: 'REMINDER_SENT' },
+      });
+
+      const when = formatSlot(appointment.startsAt!);
+      await notifyParty(appointment, 'CUSTOMER', 'Site Visit Reminder', `${contractorName(appointment)} is visiting on ${when} for: ${appointment.job.title}`);
+      await notifyParty(appointment, 'CONTRACTOR', 'Site Visit Reminder', `Your visit for "${appointment.job.title}" is on ${when}`);
+      await emailBothParties(appointment, sendAppointmentReminderEmail);
+      reminded++;
+    } catch (error) {
+      console.error(`Failed to send reminder for appointment ${appointment.id}:`, error);
+    }
+  }
+
+  return { reminded };
+}
@@ -1,5 +1,6 @@
 import { prisma } from '../config/database';
 import { createServiceEmail, createEmailService } from './emailService';
+import { Pagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 interface AuditLogData {
   adminId: string;
@@ -142,8 +143,7 @@ export const getActivityLogs = async (filters: {
   entityType?: string;
   startDate?: Date;
   endDate?: Date;
-  limit?: number;
-  offset?: number;
+  pagination: Pagination;
 }) => {
   const where: any = {};
 
@@ -157,7 +157,7 @@ export const getActivityLogs = async (filters: {
     if (filters.endDate) where.createdAt.lte = filters.endDate;
   }
 
-  const [logs, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.activityLog.findMany({
       where,
       include: {
@@ -170,19 +170,14 @@ export const getActivityLogs = async (filters: {
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
-      take: filters.limit || 50,
-      skip: filters.offset || 0,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(filters.pagination),
     }),
-    prisma.activityLog.count({ where }),
+    filters.pagination.mode === 'page' ? prisma.activityLog.count({ where }) : undefined,
   ]);
 
-  return {
-    logs,
-    total,
-    page: Math.floor((filters.offset || 0) / (filters.limit || 50)) + 1,
-    totalPages: Math.ceil(total / (filters.limit || 50)),
-  };
+  const { items: logs, pagination } = buildPageResult(rows, filters.pagination, total);
+  return { logs, pagination };
 };
 
 // Get login activities
@@ -190,8 +185,7 @@ export const getLoginActivities = async (filters: {
   adminId?: string;
   startDate?: Date;
   endDate?: Date;
-  limit?: number;
-  offset?: number;
+  pagination: Pagination;
 }) => {
   const where: any = {};
 
@@ -203,7 +197,7 @@ export const getLoginActivities = async (filters: {
     if (filters.endDate) where.createdAt.lte = filters.endDate;
   }
 
-  const [activities, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.loginActivity.findMany({
       where,
       include: {
@@ -216,18 +210,13 @@ export const getLoginActivities = async (filters: {
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
-      take: filters.limit || 50,
-      skip: filters.offset || 0,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...getPrismaPageArgs(filters.pagination),
     }),
-    prisma.loginActivity.count({ where }),
+    filters.pagination.mode === 'page' ? prisma.loginActivity.count({ where }) : undefined,
   ]);
 
-  return {
-    activities,
-    total,
-    page: Math.floor((filters.offset || 0) / (filters.limit || 50)) + 1,
-    totalPages: Math.ceil(total / (filters.limit || 50)),
-  };
+  const { items: activities, pagination } = buildPageResult(rows, filters.pagination, total);
+  return { activities, pagination };
 };
 
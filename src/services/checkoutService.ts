@@ -0,0 +1,573 @@
+import Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getStripeClient } from '../config/stripe';
+import { AppError } from '../middleware/errorHandler';
+import { recordManualInvoiceIssued, recordPaymentReceived } from './ledgerService';
+
+/**
+ * Stripe Checkout payments.
+ *
+ * An alternative to the PaymentIntent flow in payments.ts: the server creates a hosted
+ * Checkout Session and sends the contractor to it, and the purchase is fulfilled only when
+ * Stripe reports `checkout.session.completed` (or `async_payment_succeeded`) to the webhook.
+ * There is no client callback to miss, so no reconciliation step is needed. Payments that
+ * can no longer be fulfilled by the time they arrive - the lead filled up, the invoice was
+ * paid another way - are refunded.
+ */
+
+export const CHECKOUT_PURPOSES = ['job_access_purchase', 'commission_payment', 'manual_invoice_payment'] as const;
+export type CheckoutPurpose = (typeof CHECKOUT_PURPOSES)[number];
+
+// Stripe's minimum; keeps the gap between quoting and paying short
+const CHECKOUT_SESSION_TTL_MINUTES = 30;
+const LEAD_VAT_RATE = 0.2;
+
+// Job states in which a lead can no longer be bought (mirrors purchaseJobAccess)
+const LEAD_CLOSED_STATUSES = ['IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION', 'COMPLETED', 'CANCELLED', 'DISPUTED', 'WON', 'EXPIRED'];
+
+export type CheckoutFulfilment =
+  | { purpose: CheckoutPurpose; outcome: 'fulfilled' | 'already_fulfilled' | 'refunded' }
+  | { purpose: CheckoutPurpose | null; outcome: 'ignored'; reason: string };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * VAT and totals for a lead bought at `leadPrice`.
+ */
+export function getLeadCheckoutAmounts(leadPrice: number) {
+  const vatAmount = round2(leadPrice * LEAD_VAT_RATE);
+  const totalAmount = round2(leadPrice + vatAmount);
+  return { leadPrice, vatAmount, totalAmount, totalPence: Math.round(totalAmount * 100) };
+}
+
+/**
+ * The reasons a contractor can't start buying a lead, checked before we send them to Stripe
+ * so money isn't taken for a purchase that would be refused.
+ */
+export function assertLeadPurchasable(params: {
+  contractorId: string;
+  accountStatus: string | null;
+  kyc: { status: string; dueBy: Date | null } | null;
+  job: { status: string; wonByContractorId: string | null; maxContractorsPerJob: number };
+  accessContractorIds: string[];
+  now?: Date;
+}) {
+  const { job, kyc } = params;
+  const now = params.now ?? new Date();
+
+  if (params.accountStatus && params.accountStatus !== 'ACTIVE') {
+    throw new AppError(
+      `Your account is currently ${params.accountStatus.toLowerCase()}. Please complete verification before purchasing job access.`,
+      403
+    );
+  }
+  if (kyc && (kyc.status === 'REJECTED' || kyc.status === 'OVERDUE' || (kyc.dueBy && kyc.dueBy < now && kyc.status !== 'APPROVED'))) {
+    throw new AppError('Please complete ID verification before purchasing job access.', 403);
+  }
+  if (params.accessContractorIds.includes(params.contractorId)) {
+    throw new AppError('You already have access to this job', 400);
+  }
+  if (LEAD_CLOSED_STATUSES.includes(job.status) || job.wonByContractorId) {
+    throw new AppError('This job is no longer available to purchase.', 400);
+  }
+  if (params.accessContractorIds.length >= job.maxContractorsPerJob) {
+    throw new AppError(`This job has reached its contractor limit (${job.maxContractorsPerJob}). No more purchases available.`, 400);
+  }
+}
+
+/**
+ * Create a hosted Checkout Session. `metadata` is what the webhook needs to fulfil it.
+ * The underlying PaymentIntent deliberately carries no `type`, so the
+ * `payment_intent.succeeded` handler leaves these payments to the Checkout handler.
+ */
+export async function createCheckoutSession(params: {
+  purpose: CheckoutPurpose;
+  contractorId: string;
+  customerEmail: string;
+  itemName: string;
+  itemDescription?: string;
+  amountPence: number;
+  metadata: Record<string, string>;
+  returnPath: string;
+}) {
+  if (!Number.isInteger(params.amountPence) || params.amountPence <= 0) {
+    throw new AppError('Invalid payment amount', 400);
+  }
+
+  const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const separator = params.returnPath.includes('?') ? '&' : '?';
+  const metadata = { ...params.metadata, type: params.purpose, contractorId: params.contractorId };
+
+  const session = await getStripeClient().checkout.sessions.create({
+    mode: 'payment',
+    client_reference_id: params.contractorId,
+    customer_email: params.customerEmail,
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency: 'gbp',
+          unit_amount: params.amountPence,
+          product_data: {
+            name: params.itemName,
+            ...(params.itemDescription && { description: params.itemDescription }),
+          },
+        },
+      },
+    ],
+    metadata,
+    payment_intent_data: {
+      description: params.itemName,
+      metadata: { ...params.metadata, checkoutType: params.purpose },
+    },
+    success_url: `${baseUrl}${params.returnPath}${separator}checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${baseUrl}${params.returnPath}${separator}checkout=cancelled`,
+    expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_SESSION_TTL_MINUTES * 60,
+  });
+
+  return {
+    sessionId: session.id,
+    url: session.url,
+    expiresAt: new Date(session.expires_at * 1000),
+  };
+}
+
+function getPaymentIntentId(session: Stripe.Checkout.Session) {
+  if (!session.payment_intent) {
+    return null;
+  }
+  return typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent.id;
+}
+
+/**
+ * Refund a Checkout payment we couldn't fulfil and tell the contractor. If the refund itself
+ * fails, admins are asked to do it by hand. A concurrent delivery of the same event may have
+ * fulfilled it in the meantime, in which case there's nothing to refund.
+ */
+async function refundUnfulfillable(
+  purpose: CheckoutPurpose,
+  params: { paymentIntentId: string; contractorUserId: string | null; reason: string; description: string }
+): Promise<CheckoutFulfilment> {
+  const recorded = await prisma.payment.findFirst({
+    where: { stripePaymentId: params.paymentIntentId },
+    select: { id: true },
+  });
+  if (recorded) {
+    return { purpose, outcome: 'already_fulfilled' };
+  }
+
+  try {
+    const refund = await getStripeClient().refunds.create({
+      payment_intent: params.paymentIntentId,
+      reason: 'requested_by_customer',
+      metadata: { autoRefundReason: 'checkout_unfulfillable', originalError: params.reason.substring(0, 200) },
+    });
+    console.error(`⚠️ Refunded Checkout payment ${params.paymentIntentId} (${refund.id}): ${params.reason}`);
+  } catch (refundError: any) {
+    // A redelivered event for a payment we've already refunded
+    if (refundError?.code === 'charge_already_refunded') {
+      return { purpose, outcome: 'refunded' };
+    }
+    console.error(`❌ CRITICAL: Failed to refund Checkout payment ${params.paymentIntentId}:`, refundError);
+    try {
+      const { notifyAllAdmins } = await import('./adminNotificationService');
+      await notifyAllAdmins({
+        title: 'CRITICAL: Checkout Refund Failed - Manual Action Required',
+        message: `Checkout payment ${params.paymentIntentId} for ${params.description} could not be fulfilled (${params.reason}) and the automatic refund failed: ${refundError.message}. MANUAL REFUND REQUIRED.`,
+        type: 'ERROR',
+        actionLink: '/admin/payments',
+        actionText: 'View Payments',
+      });
+    } catch (notifyError) {
+      console.error('Failed to notify admins about failed Checkout refund:', notifyError);
+    }
+  }
+
+  if (params.contractorUserId) {
+    try {
+      const { createNotification } = await import('./notificationService');
+      await createNotification({
+        userId: params.contractorUserId,
+        title: 'Payment Refunded',
+        message: `We couldn't complete your payment for ${params.description} (${params.reason}), so it has been refunded. Refunds take 5-10 business days to appear.`,
+        type: 'WARNING',
+        actionLink: '/dashboard/contractor/payments',
+        actionText: 'View Payments',
+      });
+    } catch (error) {
+      console.error('Failed to notify contractor about Checkout refund:', error);
+    }
+  }
+
+  return { purpose, outcome: 'refunded' };
+}
+
+/**
+ * Fulfil a completed Checkout Session. Safe to call more than once for the same session:
+ * every path checks for the payment record before creating anything.
+ */
+export async function fulfilCheckoutSession(session: Stripe.Checkout.Session): Promise<CheckoutFulfilment> {
+  const purpose = (CHECKOUT_PURPOSES as readonly string[]).includes(session.metadata?.type ?? '')
+    ? (session.metadata!.type as CheckoutPurpose)
+    : null;
+
+  if (!purpose) {
+    return { purpose: null, outcome: 'ignored', reason: 'not a Checkout purchase' };
+  }
+  if (session.payment_status !== 'paid') {
+    // Delayed payment methods complete later with checkout.session.async_payment_succeeded
+    return { purpose, outcome: 'ignored', reason: `payment status is ${session.payment_status}` };
+  }
+
+  const paymentIntentId = getPaymentIntentId(session);
+  if (!paymentIntentId) {
+    throw new AppError(`Checkout session ${session.id} has no payment intent`, 400);
+  }
+
+  const alreadyRecorded = await prisma.payment.findFirst({
+    where: { stripePaymentId: paymentIntentId },
+    select: { id: true },
+  });
+  if (alreadyRecorded) {
+    return { purpose, outcome: 'already_fulfilled' };
+  }
+
+  switch (purpose) {
+    case 'job_access_purchase':
+      return fulfilJobAccess(session, paymentIntentId);
+    case 'commission_payment':
+      return fulfilCommission(session, paymentIntentId);
+    case 'manual_invoice_payment':
+      return fulfilManualInvoice(session, paymentIntentId);
+  }
+}
+
+async function fulfilJobAccess(session: Stripe.Checkout.Session, paymentIntentId: string): Promise<CheckoutFulfilment> {
+  const purpose = 'job_access_purchase';
+  const { jobId, contractorId } = session.metadata ?? {};
+  if (!jobId || !contractorId) {
+    throw new AppError(`Checkout session ${session.id} is missing job access metadata`, 400);
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { id: contractorId },
+    include: { user: true },
+  });
+  if (!contractor) {
+    throw new AppError(`Contractor ${contractorId} not found for Checkout session ${session.id}`, 404);
+  }
+
+  const leadPrice = Number(session.metadata?.leadPrice);
+  const { vatAmount, totalAmount } = getLeadCheckoutAmounts(leadPrice);
+  const isSubscriberRate = session.metadata?.paymentMethod === 'STRIPE_SUBSCRIBER';
+
+  let result;
+  try {
+    result = await prisma.$transaction(async (tx) => {
+      const job = await tx.job.findUnique({
+        where: { id: jobId },
+        include: {
+          customer: { include: { user: { select: { id: true, name: true, email: true } } } },
+          jobAccess: { select: { contractorId: true } },
+        },
+      });
+      if (!job) {
+        throw new AppError('the job no longer exists', 409);
+      }
+      if (session.amount_total !== Math.round(totalAmount * 100)) {
+        throw new AppError('the amount paid did not match the lead price', 409);
+      }
+
+      assertLeadPurchasable({
+        contractorId,
+        accountStatus: null, // checked when the session was created; the money is already taken
+        kyc: null,
+        job,
+        accessContractorIds: job.jobAccess.map((access) => access.contractorId),
+      });
+
+      const jobAccess = await tx.jobAccess.create({
+        data: {
+          contractorId,
+          jobId,
+          accessMethod: 'PAYMENT',
+          paidAmount: leadPrice,
+          creditUsed: false,
+        },
+      });
+
+      const invoice = await tx.invoice.create({
+        data: {
+          amount: leadPrice,
+          vatAmount,
+          totalAmount,
+          description: isSubscriberRate
+            ? `Job Lead Access (Subscriber - No Commission) - ${job.title}`
+            : `Job Lead Access - ${job.title}`,
+          invoiceNumber: `INV-${isSubscriberRate ? 'SUB-' : ''}${Date.now()}-${contractorId.slice(-6)}`,
+          recipientName: contractor.businessName || contractor.user.name,
+          recipientEmail: contractor.user.email,
+          paidAt: new Date(),
+        },
+      });
+
+      const payment = await tx.payment.create({
+        data: {
+          contractorId,
+          jobId,
+          jobAccessId: jobAccess.id,
+          invoiceId: invoice.id,
+          amount: totalAmount,
+          type: 'LEAD_ACCESS',
+          status: 'COMPLETED',
+          stripePaymentId: paymentIntentId,
+          description: isSubscriberRate
+            ? `Job lead access purchased (subscriber rate, no commission) for: ${job.title}`
+            : `Job access purchased for: ${job.title}`,
+        },
+      });
+      await recordPaymentReceived(tx, payment, { vatAmount });
+
+      return { job, invoice, payment };
+    });
+  } catch (error) {
+    const duplicate = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+    if (!(error instanceof AppError) && !duplicate) {
+      throw error;
+    }
+    return refundUnfulfillable(purpose, {
+      paymentIntentId,
+      contractorUserId: contractor.user.id,
+      reason: duplicate ? 'you already have access to this job' : (error as AppError).message,
+      description: 'job access',
+    });
+  }
+
+  const { job, invoice } = result;
+
+  try {
+    const { sendJobAccessInvoiceEmail } = await import('./emailNotificationService');
+    await sendJobAccessInvoiceEmail({
+      invoiceNumber: invoice.invoiceNumber,
+      recipientName: contractor.businessName || contractor.user.name,
+      recipientEmail: contractor.user.email,
+      jobTitle: job.title,
+      amount: Number(invoice.amount),
+      vatAmount: Number(invoice.vatAmount),
+      totalAmount: Number(invoice.totalAmount),
+      dueDate: invoice.dueAt || new Date(),
+      paidAt: invoice.paidAt || undefined,
+      accessMethod: 'STRIPE',
+    });
+  } catch (error) {
+    console.error('Failed to send job access invoice email:', error);
+  }
+
+  try {
+    const { createNotification } = await import('./notificationService');
+    await createNotification({
+      userId: job.customer.user.id,
+      title: 'Contractor Interested in Your Job! 📞',
+      message: `${contractor.businessName || contractor.user.name} has purchased access to your job "${job.title}" and can see your contact details. They may call you soon to discuss the job.`,
+      type: 'INFO',
+      actionLink: `/dashboard/client/jobs/${jobId}`,
+      actionText: 'View Job',
+      metadata: { jobId, contractorId, event: 'contractor_bought_access' },
+    });
+    await createNotification({
+      userId: contractor.user.id,
+      title: 'Job Access Purchased Successfully! 🎉',
+      message: `You now have access to "${job.title}". Customer contact details are available - contact them now to discuss the job and win the work!`,
+      type: 'INFO',
+      actionLink: `/dashboard/contractor/jobs/${jobId}`,
+      actionText: 'View Customer Details',
+      metadata: { jobId, event: 'job_access_purchased' },
+    });
+  } catch (error) {
+    console.error('Failed to send notification for job access:', error);
+  }
+
+  return { purpose, outcome: 'fulfilled' };
+}
+
+async function fulfilCommission(session: Stripe.Checkout.Session, paymentIntentId: string): Promise<CheckoutFulfilment> {
+  const purpose = 'commission_payment';
+  const commissionPaymentId = session.metadata?.commissionPaymentId;
+  if (!commissionPaymentId) {
+    throw new AppError(`Checkout session ${session.id} is missing commission metadata`, 400);
+  }
+
+  const commissionPayment = await prisma.commissionPayment.findUnique({
+    where: { id: commissionPaymentId },
+    include: { job: true, invoice: true, contractor: { include: { user: true } } },
+  });
+  if (!commissionPayment) {
+    throw new AppError(`Commission payment ${commissionPaymentId} not found`, 404);
+  }
+
+  const contractorUserId = commissionPayment.contractor.user.id;
+  const description = `commission on "${commissionPayment.job.title}"`;
+
+  if (session.amount_total !== Math.round(Number(commissionPayment.totalAmount) * 100)) {
+    return refundUnfulfillable(purpose, { paymentIntentId, contractorUserId, reason: 'the amount due has changed since checkout started', description });
+  }
+
+  const paidAt = new Date();
+  const claimed = await prisma.$transaction(async (tx) => {
+    // Guarded on status so a payment made another way in the meantime isn't overwritten
+    const updated = await tx.commissionPayment.updateMany({
+      where: { id: commissionPayment.id, status: { in: ['PENDING', 'OVERDUE'] } },
+      data: { status: 'PAID', paidAt, stripePaymentId: paymentIntentId },
+    });
+    if (updated.count === 0) {
+      return false;
+    }
+
+    // Stage commissions don't settle the job's final commission
+    if (!commissionPayment.milestoneId) {
+      await tx.job.update({
+        where: { id: commissionPayment.jobId },
+        data: { commissionPaid: true },
+      });
+    }
+
+    const payment = await tx.payment.create({
+      data: {
+        contractorId: commissionPayment.contractorId,
+        jobId: commissionPayment.jobId,
+        amount: commissionPayment.totalAmount,
+        type: 'COMMISSION',
+        status: 'COMPLETED',
+        stripePaymentId: paymentIntentId,
+        description: `Commission payment for job: ${commissionPayment.job.title}`,
+      },
+    });
+    await recordPaymentReceived(tx, payment);
+    return true;
+  });
+
+  if (!claimed) {
+    return refundUnfulfillable(purpose, { paymentIntentId, contractorUserId, reason: 'it had already been paid', description });
+  }
+
+  try {
+    const { sendCommissionInvoiceEmail } = await import('./emailNotificationService');
+    await sendCommissionInvoiceEmail({
+      invoiceNumber: commissionPayment.invoice?.invoiceNumber || `COMM-${commissionPayment.id}`,
+      contractorName: commissionPayment.contractor.user.name,
+      contractorEmail: commissionPayment.contractor.user.email,
+      jobTitle: commissionPayment.job.title,
+      finalJobAmount: Number(commissionPayment.finalJobAmount),
+      commissionAmount: Number(commissionPayment.commissionAmount),
+      vatAmount: Number(commissionPayment.vatAmount),
+      totalAmount: Number(commissionPayment.totalAmount),
+      dueDate: commissionPayment.dueDate,
+      paidAt,
+    });
+  } catch (error) {
+    console.error('Failed to send commission payment confirmation email:', error);
+  }
+
+  return { purpose, outcome: 'fulfilled' };
+}
+
+async function fulfilManualInvoice(session: Stripe.Checkout.Session, paymentIntentId: string): Promise<CheckoutFulfilment> {
+  const purpose = 'manual_invoice_payment';
+  const manualInvoiceId = session.metadata?.manualInvoiceId;
+  if (!manualInvoiceId) {
+    throw new AppError(`Checkout session ${session.id} is missing invoice metadata`, 400);
+  }
+
+  const manualInvoice = await prisma.manualInvoice.findUnique({
+    where: { id: manualInvoiceId },
+    include: { contractor: { include: { user: true } } },
+  });
+  if (!manualInvoice) {
+    throw new AppError(`Manual invoice ${manualInvoiceId} not found`, 404);
+  }
+
+  const contractorUserId = manualInvoice.contractor.user.id;
+  const description = `invoice ${manualInvoice.number}`;
+
+  if (session.amount_total !== manualInvoice.total) {
+    return refundUnfulfillable(purpose, { paymentIntentId, contractorUserId, reason: 'the invoice total has changed since checkout started', description });
+  }
+
+  const paidAt = new Date();
+  const claimed = await prisma.$transaction(async (tx) => {
+    const updated = await tx.manualInvoice.updateMany({
+      where: { id: manualInvoice.id, status: { in: ['DRAFT', 'ISSUED', 'OVERDUE'] } },
+      data: { status: 'PAID', paidAt, issuedAt: manualInvoice.issuedAt ?? paidAt },
+    });
+    if (updated.count === 0) {
+      return false;
+    }
+
+    // A draft paid straight away is billed and settled in one go
+    if (manualInvoice.status === 'DRAFT') {
+      await recordManualInvoiceIssued(tx, manualInvoice);
+    }
+    const payment = await tx.payment.create({
+      data: {
+        contractorId: manualInvoice.contractorId,
+        amount: manualInvoice.total / 100,
+        type: 'MANUAL_INVOICE',
+        status: 'COMPLETED',
+        stripePaymentId: paymentIntentId,
+        description: `Manual invoice payment: ${manualInvoice.number}`,
+      },
+    });
+    await recordPaymentReceived(tx, payment);
+    return true;
+  });
+
+  if (!claimed) {
+    return refundUnfulfillable(purpose, { paymentIntentId, contractorUserId, reason: 'it is no longer payable', description });
+  }
+
+  try {
+    const { createNotification } = await import('./notificationService');
+    await createNotification({
+      userId: contractorUserId,
+      title: 'Invoice Payment Successful',
+      message: `Your payment of £${(manualInvoice.total / 100).toFixed(2)} for invoice ${manualInvoice.number} has been processed successfully.`,
+      type: 'INFO',
+      actionLink: '/dashboard/contractor/invoices',
+      actionText: 'View Invoices',
+    });
+  } catch (error) {
+    console.error('Failed to send payment notification:', error);
+  }
+
+  return { purpose, outcome: 'fulfilled' };
+}
+
+/**
+ * Where a contractor's Checkout Session has got to, for the page Stripe sends them back to.
+ * `fulfilled` turns true once the webhook has recorded the payment.
+ */
+export async function getCheckoutSessionStatus(sessionId: string, contractorId: string) {
+  const session = await getStripeClient().checkout.sessions.retrieve(sessionId);
+  if (session.metadata?.contractorId !== contractorId) {
+    throw new AppError('Checkout session not found', 404);
+  }
+
+  const paymentIntentId = getPaymentIntentId(session);
+  const payment = paymentIntentId
+    ? await prisma.payment.findFirst({
+        where: { stripePaymentId: paymentIntentId },
+        select: { id: true, type: true, amount: true, invoiceId: true },
+      })
+    : null;
+
+  return {
+    sessionId: session.id,
+    purpose: session.metadata?.type ?? null,
+    status: session.status,
+    paymentStatus: session.payment_status,
+    amountTotal: session.amount_total !== null ? session.amount_total / 100 : null,
+    fulfilled: !!payment,
+    payment,
+  };
+}
@@ -1,13 +1,32 @@
+import Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { createEmailService } from './emailService';
 import { 
   createCommissionDueNotification, 
   createAccountSuspendedNotification 
 } from './notificationService';
-import { getCommissionRate } from './settingsService';
+import { getContractorCommissionRate } from './subscriptionService';
+import { recordCommissionRaised, recordPaymentReceived } from './ledgerService';
+
+/**
+ * Job value that has already had commission charged through approved milestones.
+ */
+export async function getStageCommissionedAmount(
+  client: Pick<Prisma.TransactionClient, 'commissionPayment'>,
+  jobId: string
+): Promise<number> {
+  const stages = await client.commissionPayment.aggregate({
+    where: { jobId, milestoneId: { not: null } },
+    _sum: { finalJobAmount: true },
+  });
+  return Number(stages._sum.finalJobAmount ?? 0);
+}
 
-// Process commission for a job
-export async function processCommissionForJob(jobId: string, finalAmount: number) {
+// Process commission for a job. With a milestoneId, `finalAmount` is that stage's amount and
+// commission is charged on it alone; without, commission covers the final price less any
+// stages already charged, and the job is marked as settled.
+export async function processCommissionForJob(jobId: string, finalAmount: number, options: { milestoneId?: string } = {}) {
   const job = await prisma.job.findUnique({
     where: { id: jobId },
     include: {
@@ -33,6 +52,26 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
     return;
   }
 
+  const milestone = options.milestoneId
+    ? await prisma.milestone.findFirst({
+        where: { id: options.milestoneId, jobId },
+        include: { commissionPayment: { select: { id: true } } },
+      })
+    : null;
+
+  if (options.milestoneId && !milestone) {
+    console.error(`❌ Milestone ${options.milestoneId} not found for commission processing on job ${jobId}`);
+    return;
+  }
+  if (milestone?.commissionPayment) {
+    return;
+  }
+
+  const stagesCommissioned = milestone ? 0 : await getStageCommissionedAmount(prisma, job.id);
+  const commissionBase = Math.max(finalAmount - stagesCommissioned, 0);
+  const stageTitle = milestone ? milestone.title : stagesCommissioned > 0 ? 'Remaining balance' : null;
+  const invoiceJobTitle = stageTitle ? `${job.title} — ${stageTitle}` : job.title;
+
   // Filter jobAccess by contractorId after the job is fetched
   const relevantJobAccess = job.jobAccess.filter((access: any) => 
     access.contractorId === job.wonByContractorId
@@ -45,9 +84,17 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
   // Only charge commission if they used credits or free point and haven't paid commission yet
   // IMPORTANT: Commission applies even when using free trial point
   if ((accessedViaCredits || accessedViaFreePoint) && !job.commissionPaid) {
-    // Get commission rate from settings
-    const commissionRatePercent = await getCommissionRate();
-    const commissionAmount = (finalAmount * commissionRatePercent) / 100;
+    // Every stage was signed off at the full price, so nothing is left to charge
+    if (commissionBase <= 0) {
+      if (!milestone) {
+        await prisma.job.update({ where: { id: jobId }, data: { commissionPaid: true } });
+      }
+      return;
+    }
+
+    // The winner's tier may carry a lower rate than the one in settings
+    const commissionRatePercent = await getContractorCommissionRate(job.wonByContractorId!);
+    const commissionAmount = (commissionBase * commissionRatePercent) / 100;
     // Add 20% VAT on top of commission
     const vatRate = 0.20;
     const vatAmount = commissionAmount * vatRate;
@@ -59,9 +106,10 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
     const commissionPayment = await prisma.commissionPayment.create({
       data: {
         jobId: job.id,
+        milestoneId: milestone?.id ?? null,
         contractorId: job.wonByContractorId!,
         customerId: job.customerId,
-        finalJobAmount: finalAmount,
+        finalJobAmount: commissionBase,
         commissionRate: commissionRatePercent,
         commissionAmount: commissionAmount,
         vatAmount: vatAmount,
@@ -70,6 +118,7 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
         dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Due in 7 days
       },
     });
+    await recordCommissionRaised(prisma, commissionPayment);
 
     // Create commission invoice
     const commissionInvoice = await prisma.commissionInvoice.create({
@@ -79,7 +128,8 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
         contractorName: job.wonByContractor.businessName || job.wonByContractor.user.name || 'Unknown Contractor',
         contractorEmail: job.wonByContractor.user.email || 'unknown@contractor.com',
         jobTitle: job.title,
-        finalJobAmount: finalAmount,
+        stageTitle,
+        finalJobAmount: commissionBase,
         commissionAmount: commissionAmount,
         vatAmount: vatAmount,
         totalAmount: totalAmount,
@@ -94,8 +144,8 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
         invoiceNumber: commissionInvoice.invoiceNumber,
         contractorName: job.wonByContractor.businessName || job.wonByContractor.user.name || 'Unknown Contractor',
         contractorEmail: job.wonByContractor.user.email || 'unknown@contractor.com',
-        jobTitle: job.title,
-        finalJobAmount: finalAmount,
+        jobTitle: invoiceJobTitle,
+        finalJobAmount: commissionBase,
         commissionAmount: commissionAmount,
         commissionRate: commissionRatePercent,
         vatAmount: vatAmount,
@@ -113,7 +163,7 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
       await createCommissionDueNotification(
         job.wonByContractor.user.id,
         commissionPayment.id,
-        job.title,
+        invoiceJobTitle,
         totalAmount,
         new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
       );
@@ -133,9 +183,9 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
         contractorId: job.wonByContractorId!,
         contractorName: job.wonByContractor.businessName || job.wonByContractor.user.name || 'Unknown',
         jobId: job.id,
-        jobTitle: job.title,
+        jobTitle: invoiceJobTitle,
         customerName: job.customer?.user?.name || 'Customer',
-        finalJobAmount: finalAmount,
+        finalJobAmount: commissionBase,
         commissionAmount,
         vatAmount,
         totalAmount,
@@ -157,7 +207,7 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
 
       const mailOptions = createServiceEmail({
         to: adminEmail,
-        subject: `💰 New Commission Revenue: £${totalAmount.toFixed(2)} — ${job.title}`,
+        subject: `💰 New Commission Revenue: £${totalAmount.toFixed(2)} — ${invoiceJobTitle}`,
         heading: 'New Commission Created — Incoming Revenue',
         body: `
           <p>A new commission has been generated and is awaiting payment.</p>
@@ -166,8 +216,8 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
             <h3 style="margin-top: 0; color: #16a34a;">Revenue Summary</h3>
             <table style="width: 100%; border-collapse: collapse;">
               <tr><td style="padding: 4px 0;"><strong>Invoice Number:</strong></td><td>${commissionInvoice.invoiceNumber}</td></tr>
-              <tr><td style="padding: 4px 0;"><strong>Job Title:</strong></td><td>${job.title}</td></tr>
-              <tr><td style="padding: 4px 0;"><strong>Customer Confirmed Price:</strong></td><td>£${finalAmount.toFixed(2)}</td></tr>
+              <tr><td style="padding: 4px 0;"><strong>Job Title:</strong></td><td>${invoiceJobTitle}</td></tr>
+              <tr><td style="padding: 4px 0;"><strong>${stageTitle ? 'Stage Amount' : 'Customer Confirmed Price'}:</strong></td><td>£${commissionBase.toFixed(2)}</td></tr>
               <tr><td style="padding: 4px 0;"><strong>Contractor:</strong></td><td>${job.wonByContractor.businessName || job.wonByContractor.user.name || 'Unknown'}</td></tr>
               <tr><td style="padding: 4px 0;"><strong>Contractor Email:</strong></td><td>${job.wonByContractor.user.email}</td></tr>
               <tr><td style="padding: 4px 0;"><strong>Commission Rate:</strong></td><td>${commissionRatePercent}%</td></tr>
@@ -190,11 +240,13 @@ export async function processCommissionForJob(jobId: string, finalAmount: number
       console.error('Failed to send admin commission email:', adminEmailError);
     }
 
-    // Update job to mark commission as paid
-    await prisma.job.update({
-      where: { id: jobId },
-      data: { commissionPaid: true }
-    });
+    // Update job to mark commission as paid - stages leave it open for the final price
+    if (!milestone) {
+      await prisma.job.update({
+        where: { id: jobId },
+        data: { commissionPaid: true }
+      });
+    }
 
 
   } else {
@@ -370,6 +422,68 @@ export async function processCommissionReminders(): Promise<void> {
 
 }
 
+/**
+ * Mark a commission paid from a succeeded commission_payment intent and record the receipt.
+ * Used by the payment_intent.succeeded webhook and by auto-pay; a commission that is no
+ * longer PENDING is left alone, so whichever runs second does nothing.
+ */
+export async function settleCommissionFromPaymentIntent(paymentIntent: Stripe.PaymentIntent) {
+  const commissionPaymentId = paymentIntent.metadata?.commissionPaymentId;
+  if (!commissionPaymentId) {
+    return null;
+  }
+
+  // Check if commission payment exists and isn't already marked paid
+  const commissionPayment = await prisma.commissionPayment.findFirst({
+    where: {
+      id: commissionPaymentId,
+      status: 'PENDING',
+    },
+    include: { job: { select: { title: true } } },
+  });
+
+  if (!commissionPayment) {
+    return null;
+  }
+
+  // Mark commission as paid
+  const paid = await prisma.commissionPayment.update({
+    where: { id: commissionPaymentId },
+    data: {
+      status: 'PAID',
+      paidAt: new Date(),
+      stripePaymentId: paymentIntent.id,
+    },
+  });
+
+  // Update job as commission paid
+  await prisma.job.update({
+    where: { id: commissionPayment.jobId },
+    data: { commissionPaid: true },
+  });
+
+  // The confirm endpoint can no longer record the payment once the commission is PAID
+  const existingPayment = await prisma.payment.findFirst({
+    where: { stripePaymentId: paymentIntent.id },
+  });
+
+  if (!existingPayment) {
+    const commissionReceipt = await prisma.payment.create({
+      data: {
+        contractorId: commissionPayment.contractorId,
+        amount: commissionPayment.totalAmount,
+        type: 'COMMISSION',
+        status: 'COMPLETED',
+        stripePaymentId: paymentIntent.id,
+        description: `Commission payment for job: ${commissionPayment.job.title}`,
+      },
+    });
+    await recordPaymentReceived(prisma, commissionReceipt);
+  }
+
+  return paid;
+}
+
 // Check subscription status and eligibility for commission
 export async function checkSubscriptionCommissionEligibility(contractorId: string): Promise<boolean> {
   const contractor = await prisma.contractor.findUnique({
@@ -0,0 +1,205 @@
+import { JobStatus, UnavailabilityType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Contractor availability and capacity.
+ *
+ * Contractors record periods they can't take on work (BUSY or HOLIDAY) and, optionally,
+ * how many jobs they run at once. Contractors on holiday or at capacity stop receiving
+ * new-job alerts, and urgent leads they couldn't start in time are labelled on their
+ * job board.
+ */
+
+// Jobs a contractor has won and not yet finished count towards their capacity
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['WON', 'IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION'];
+
+export const MAX_CONCURRENT_JOBS_LIMIT = 50;
+export const MAX_UPCOMING_UNAVAILABILITY = 50;
+export const UNAVAILABILITY_TYPES = Object.values(UnavailabilityType) as UnavailabilityType[];
+
+// How soon a job with this urgency expects someone to start
+const URGENCY_WINDOW_DAYS: Record<string, number> = {
+  asap: 3,
+  within_week: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIOD_DAYS = 366;
+
+type AvailabilityPeriod = { type: UnavailabilityType; startsAt: Date; endsAt: Date };
+
+export interface ContractorAvailability {
+  maxConcurrentJobs: number | null;
+  activeJobCount: number;
+  periods: AvailabilityPeriod[];
+}
+
+export type AvailabilityConflict = {
+  reason: 'AT_CAPACITY' | 'UNAVAILABLE';
+  message: string;
+};
+
+/**
+ * Validate a capacity limit. `undefined` means "not sent", `null` removes the limit.
+ */
+export function parseMaxConcurrentJobs(value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CONCURRENT_JOBS_LIMIT) {
+    throw new AppError(`Maximum concurrent jobs must be a whole number between 1 and ${MAX_CONCURRENT_JOBS_LIMIT}`, 400);
+  }
+  return limit;
+}
+
+export function parseUnavailabilityInput(body: any, now: Date = new Date()) {
+  const type = body?.type ?? 'BUSY';
+  if (!UNAVAILABILITY_TYPES.includes(type)) {
+    throw new AppError(`type must be one of: ${UNAVAILABILITY_TYPES.join(', ')}`, 400);
+  }
+
+  const startsAt = new Date(body?.startsAt);
+  const endsAt = new Date(body?.endsAt);
+  if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+    throw new AppError('startsAt and endsAt must be valid dates', 400);
+  }
+  if (endsAt <= startsAt) {
+    throw new AppError('endsAt must be after startsAt', 400);
+  }
+  if (endsAt <= now) {
+    throw new AppError('This period has already ended', 400);
+  }
+  if (endsAt.getTime() - startsAt.getTime() > MAX_PERIOD_DAYS * DAY_MS) {
+    throw new AppError('Periods can be at most a year long', 400);
+  }
+
+  const note = typeof body?.note === 'string' && body.note.trim() ? body.note.trim().slice(0, 500) : null;
+
+  return { type: type as UnavailabilityType, startsAt, endsAt, note };
+}
+
+export function isAtCapacity(availability: Pick<ContractorAvailability, 'maxConcurrentJobs' | 'activeJobCount'>) {
+  return availability.maxConcurrentJobs !== null && availability.activeJobCount >= availability.maxConcurrentJobs;
+}
+
+export function isOnHoliday(periods: AvailabilityPeriod[], now: Date = new Date()) {
+  return periods.some((period) => period.type === 'HOLIDAY' && period.startsAt <= now && period.endsAt > now);
+}
+
+/**
+ * Whether the periods between them leave no free time at all in [start, end).
+ */
+export function isWindowCovered(periods: AvailabilityPeriod[], start: Date, end: Date) {
+  const sorted = [...periods].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+  let coveredUntil = start.getTime();
+  for (const period of sorted) {
+    if (period.startsAt.getTime() > coveredUntil) {
+      break;
+    }
+    coveredUntil = Math.max(coveredUntil, period.endsAt.getTime());
+    if (coveredUntil >= end.getTime()) {
+      return true;
+    }
+  }
+  return coveredUntil >= end.getTime();
+}
+
+/**
+ * Why a contractor couldn't take on a job of the given urgency, or null when they could.
+ * Only urgencies with a start window (asap, within_week) can conflict.
+ */
+export function getAvailabilityConflict(
+  urgency: string | null,
+  availability: ContractorAvailability,
+  now: Date = new Date()
+): AvailabilityConflict | null {
+  const windowDays = urgency ? URGENCY_WINDOW_DAYS[urgency] : undefined;
+  if (!windowDays) {
+    return null;
+  }
+
+  if (isAtCapacity(availability)) {
+    return {
+      reason: 'AT_CAPACITY',
+      message: `You're already running ${availability.activeJobCount} of your ${availability.maxConcurrentJobs} jobs`,
+    };
+  }
+
+  if (isWindowCovered(availability.periods, now, new Date(now.getTime() + windowDays * DAY_MS))) {
+    return {
+      reason: 'UNAVAILABLE',
+      message: `You're unavailable for the next ${windowDays} days and this job needs starting ${urgency === 'asap' ? 'as soon as possible' : 'within a week'}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Capacity and current/upcoming unavailability for a set of contractors, keyed by id.
+ */
+export async function loadContractorAvailability(contractorIds: string[], now: Date = new Date()) {
+  const availability = new Map<string, ContractorAvailability>();
+  if (contractorIds.length === 0) {
+    return availability;
+  }
+
+  const [contractors, activeJobs, periods] = await Promise.all([
+    prisma.contractor.findMany({
+      where: { id: { in: contractorIds } },
+      select: { id: true, maxConcurrentJobs: true },
+    }),
+    prisma.job.groupBy({
+      by: ['wonByContractorId'],
+      where: { wonByContractorId: { in: contractorIds }, status: { in: ACTIVE_JOB_STATUSES } },
+      _count: { _all: true },
+    }),
+    prisma.contractorUnavailability.findMany({
+      where: { contractorId: { in: contractorIds }, endsAt: { gt: now } },
+      select: { contractorId: true, type: true, startsAt: true, endsAt: true },
+      orderBy: { startsAt: 'asc' },
+    }),
+  ]);
+
+  for (const contractor of contractors) {
+    availability.set(contractor.id, {
+      maxConcurrentJobs: contractor.maxConcurrentJobs,
+      activeJobCount: 0,
+      periods: [],
+    });
+  }
+  for (const group of activeJobs) {
+    const entry = group.wonByContractorId ? availability.get(group.wonByContractorId) : undefined;
+    if (entry) {
+      entry.activeJobCount = group._count._all;
+    }
+  }
+  for (const { contractorId, ...period } of periods) {
+    availability.get(contractorId)?.periods.push(period);
+  }
+
+  return availability;
+}
+
+/**
+ * The contractors among `contractorIds` who shouldn't be offered new work right now:
+ * on holiday or at their job limit.
+ */
+export async function getUnavailableContractorIds(contractorIds: string[], now: Date = new Date()) {
+  const availability = await loadContractorAvailability(contractorIds, now);
+
+  const unavailable = new Set<string>();
+  for (const [contractorId, entry] of availability) {
+    if (isAtCapacity(entry) || isOnHoliday(entry.periods, now)) {
+      unavailable.add(contractorId);
+    }
+  }
+  return unavailable;
+}
@@ -0,0 +1,407 @@
+import Stripe from 'stripe';
+import { CreditPurchase, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getStripeClient } from '../config/stripe';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+import { sendCreditPurchaseInvoiceEmail } from './emailNotificationService';
+import { recordCreditTransaction, recordPaymentReceived } from './ledgerService';
+import { generateInvoicePDF } from './pdfService';
+import { CreditBundle, getCreditBundles } from './settingsService';
+
+/**
+ * Credit bundles.
+ *
+ * Admins define packs of credits in the CREDIT_BUNDLES setting and contractors buy them with
+ * a PaymentIntent. Each purchase adds to `Contractor.creditsBalance` like any other credit, and
+ * is also kept as a CreditPurchase lot whose `creditsRemaining` is the unspent part of the
+ * pack. The lots are what let bought credits outlive the weekly reset (which otherwise sets
+ * the balance back to the weekly limit), ignore the subscriber weekly spend limit and the
+ * free-trial job size restriction, and lapse when the bundle's expiry passes.
+ *
+ * Invariant: the remaining credits on unswept lots never exceed the contractor's balance.
+ */
+
+export const CREDIT_BUNDLE_PAYMENT_TYPE = 'credit_bundle_purchase';
+
+const CREDIT_BUNDLE_VAT_RATE = 0.2;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+type CreditClient = Pick<Prisma.TransactionClient, 'creditPurchase'>;
+
+/**
+ * VAT and totals for a bundle sold at `price` (ex VAT).
+ */
+export function getCreditBundleAmounts(price: number) {
+  const vatAmount = round2(price * CREDIT_BUNDLE_VAT_RATE);
+  const totalAmount = round2(price + vatAmount);
+  return { price, vatAmount, totalAmount, totalPence: Math.round(totalAmount * 100) };
+}
+
+export function getCreditExpiryDate(expiryDays: number | null, purchasedAt: Date): Date | null {
+  if (!expiryDays) return null;
+  return new Date(purchasedAt.getTime() + expiryDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Active bundles, with their VAT-inclusive totals, for the purchase screen.
+ */
+export async function listPurchasableBundles() {
+  const bundles = await getCreditBundles();
+  return bundles
+    .filter((bundle) => bundle.active)
+    .map((bundle) => ({ ...bundle, ...getCreditBundleAmounts(bundle.price) }));
+}
+
+export async function getPurchasableBundle(bundleId: string): Promise<CreditBundle> {
+  const bundle = (await getCreditBundles()).find((candidate) => candidate.id === bundleId);
+  if (!bundle || !bundle.active) {
+    throw new AppError('Credit bundle not found', 404);
+  }
+  return bundle;
+}
+
+/**
+ * Start paying for a bundle. The bundle's terms are copied onto the intent so the purchase is
+ * honoured as quoted even if an admin edits the bundle before it completes.
+ */
+export async function createCreditBundlePaymentIntent(bundle: CreditBundle, contractorId: string) {
+  const amounts = getCreditBundleAmounts(bundle.price);
+
+  const paymentIntent = await getStripeClient().paymentIntents.create({
+    amount: amounts.totalPence,
+    currency: 'gbp',
+    automatic_payment_methods: {
+      enabled: true,
+      allow_redirects: 'never',
+    },
+    description: `Credit bundle: ${bundle.name}`,
+    metadata: {
+      type: CREDIT_BUNDLE_PAYMENT_TYPE,
+      contractorId,
+      bundleId: bundle.id,
+      bundleName: bundle.name,
+      credits: bundle.credits.toString(),
+      price: bundle.price.toFixed(2),
+      expiryDays: bundle.expiryDays ? bundle.expiryDays.toString() : '',
+    },
+  });
+
+  return { paymentIntent, amounts };
+}
+
+/**
+ * Record a paid bundle: add the credits, the lot, a PURCHASE credit transaction, the payment
+ * and its invoice, then email the invoice PDF. Called from both the client confirmation and
+ * the payment_intent.succeeded webhook, so repeated calls for one intent return the lot
+ * already recorded.
+ */
+export async function fulfilCreditBundlePurchase(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<{ purchase: CreditPurchase; created: boolean }> {
+  const metadata = paymentIntent.metadata || {};
+  if (metadata.type !== CREDIT_BUNDLE_PAYMENT_TYPE) {
+    throw new AppError('This payment is not for a credit bundle', 400);
+  }
+  if (paymentIntent.status !== 'succeeded') {
+    throw new AppError('Payment not completed', 400);
+  }
+
+  const existing = await prisma.creditPurchase.findUnique({ where: { stripePaymentId: paymentIntent.id } });
+  if (existing) {
+    return { purchase: existing, created: false };
+  }
+
+  const credits = parseInt(metadata.credits, 10);
+  const price = Number(metadata.price);
+  const expiryDays = metadata.expiryDays ? parseInt(metadata.expiryDays, 10) : null;
+  if (!metadata.contractorId || !metadata.bundleId || !Number.isInteger(credits) || credits < 1 || !(price > 0)) {
+    throw new AppError(`Payment intent ${paymentIntent.id} is missing credit bundle details`, 400);
+  }
+
+  const amounts = getCreditBundleAmounts(price);
+  if (paymentIntent.amount !== amounts.totalPence) {
+    console.error(
+      `❌ Credit bundle amount mismatch for PI ${paymentIntent.id}. expected=${amounts.totalPence} actual=${paymentIntent.amount}`
+    );
+    throw new AppError(`Payment amount mismatch: expected ${amounts.totalPence}, got ${paymentIntent.amount}`, 400);
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { id: metadata.contractorId },
+    include: { user: { select: { id: true, name: true, email: true } } },
+  });
+  if (!contractor) {
+    throw new AppError('Contractor not found', 404);
+  }
+
+  const bundleName = metadata.bundleName || `${credits} credits`;
+  const now = new Date();
+  const expiresAt = getCreditExpiryDate(expiryDays, now);
+  const description = `Credit bundle: ${bundleName} (${credits} credits)`;
+
+  let result: { purchase: CreditPurchase; invoice: { invoiceNumber: string; id: string } };
+  try {
+    result = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.create({
+        data: {
+          contractorId: contractor.id,
+          amount: amounts.totalAmount,
+          type: 'CREDIT_PURCHASE',
+          status: 'COMPLETED',
+          stripePaymentId: paymentIntent.id,
+          description,
+        },
+      });
+
+      const invoice = await tx.invoice.create({
+        data: {
+          amount: amounts.price,
+          vatAmount: amounts.vatAmount,
+          totalAmount: amounts.totalAmount,
+          description,
+          invoiceNumber: `INV-CRD-${Date.now()}-${contractor.id.slice(-6)}`,
+          recipientName: contractor.businessName || contractor.user.name || 'Contractor',
+          recipientEmail: contractor.user.email,
+          paidAt: now,
+        },
+      });
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { invoiceId: invoice.id },
+      });
+      await recordPaymentReceived(tx, payment, { vatAmount: amounts.vatAmount });
+
+      const purchase = await tx.creditPurchase.create({
+        data: {
+          contractorId: contractor.id,
+          bundleId: metadata.bundleId,
+          bundleName,
+          credits,
+          creditsRemaining: credits,
+          price: amounts.price,
+          stripePaymentId: paymentIntent.id,
+          paymentId: payment.id,
+          invoiceId: invoice.id,
+          expiresAt,
+        },
+      });
+
+      await tx.contractor.update({
+        where: { id: contractor.id },
+        data: { creditsBalance: { increment: credits } },
+      });
+
+      const creditTransaction = await tx.creditTransaction.create({
+        data: {
+          contractorId: contractor.id,
+          type: 'PURCHASE',
+          amount: credits,
+          description: expiresAt
+            ? `Purchased ${bundleName} - expires ${expiresAt.toLocaleDateString('en-GB')}`
+            : `Purchased ${bundleName}`,
+          creditPurchaseId: purchase.id,
+        },
+      });
+      await recordCreditTransaction(tx, creditTransaction);
+
+      return { purchase, invoice };
+    });
+  } catch (error) {
+    // The client confirmation and the webhook raced; the other one recorded it
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const purchase = await prisma.creditPurchase.findUnique({ where: { stripePaymentId: paymentIntent.id } });
+      if (purchase) return { purchase, created: false };
+    }
+    throw error;
+  }
+
+  try {
+    const pdf = await generateInvoicePDF({
+      invoiceNumber: result.invoice.invoiceNumber,
+      recipientName: contractor.businessName || contractor.user.name || 'Contractor',
+      recipientEmail: contractor.user.email,
+      description,
+      amount: amounts.price,
+      vatAmount: amounts.vatAmount,
+      totalAmount: amounts.totalAmount,
+      issuedAt: now,
+      paidAt: now,
+      paymentType: 'Card',
+      items: [{ description, quantity: 1, amount: amounts.price }],
+    });
+
+    const sent = await sendCreditPurchaseInvoiceEmail({
+      invoiceNumber: result.invoice.invoiceNumber,
+      recipientName: contractor.user.name,
+      recipientEmail: contractor.user.email,
+      bundleName,
+      credits,
+      amount: amounts.price,
+      vatAmount: amounts.vatAmount,
+      totalAmount: amounts.totalAmount,
+      expiresAt,
+      pdf,
+    });
+    if (sent) {
+      await prisma.invoice.update({ where: { id: result.invoice.id }, data: { emailSent: true } });
+    }
+  } catch (error) {
+    console.error(`Failed to send credit bundle invoice ${result.invoice.invoiceNumber}:`, error);
+  }
+
+  await createNotification({
+    userId: contractor.user.id,
+    title: 'Credits Added',
+    message: `${credits} credits from ${bundleName} have been added to your balance.`,
+    type: 'SUCCESS',
+    actionLink: '/dashboard/contractor/payments',
+    actionText: 'View Credits',
+  }).catch((error) => console.error('Failed to create credit purchase notification:', error));
+
+  return { purchase: result.purchase, created: true };
+}
+
+/**
+ * Bought credits still on the contractor's balance. Lots past their expiry count until the
+ * expiry sweep removes them from the balance too, so this always pairs with creditsBalance.
+ */
+export async function getPurchasedCreditBalance(client: CreditClient, contractorId: string): Promise<number> {
+  const total = await client.creditPurchase.aggregate({
+    where: { contractorId, expiredAt: null, creditsRemaining: { gt: 0 } },
+    _sum: { creditsRemaining: true },
+  });
+  return total._sum.creditsRemaining || 0;
+}
+
+/**
+ * Take one credit from the soonest-expiring unexpired lot. Returns the lot it came from, or
+ * null if there is nothing to spend. The caller deducts creditsBalance.
+ */
+export async function consumePurchasedCredit(
+  tx: CreditClient,
+  contractorId: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const lots = await tx.creditPurchase.findMany({
+    where: {
+      contractorId,
+      expiredAt: null,
+      creditsRemaining: { gt: 0 },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+    select: { id: true },
+  });
+
+  for (const lot of lots) {
+    const taken = await tx.creditPurchase.updateMany({
+      where: { id: lot.id, creditsRemaining: { gt: 0 } },
+      data: { creditsRemaining: { decrement: 1 } },
+    });
+    if (taken.count > 0) return lot.id;
+  }
+  return null;
+}
+
+/**
+ * After credits are taken off the balance some other way (an admin deduction), shrink the
+ * lots so they don't claim more than is left. Soonest-expiring lots give way first.
+ */
+export async function trimPurchasedCredits(
+  tx: Pick<Prisma.TransactionClient, 'creditPurchase' | 'contractor'>,
+  contractorId: string
+) {
+  const contractor = await tx.contractor.findUnique({ where: { id: contractorId }, select: { creditsBalance: true } });
+  if (!contractor) return;
+
+  let excess = (await getPurchasedCreditBalance(tx, contractorId)) - Math.max(contractor.creditsBalance, 0);
+  if (excess <= 0) return;
+
+  const lots = await tx.creditPurchase.findMany({
+    where: { contractorId, expiredAt: null, creditsRemaining: { gt: 0 } },
+    orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+  });
+
+  for (const lot of lots) {
+    if (excess <= 0) break;
+    const reduceBy = Math.min(lot.creditsRemaining, excess);
+    await tx.creditPurchase.update({
+      where: { id: lot.id },
+      data: { creditsRemaining: lot.creditsRemaining - reduceBy },
+    });
+    excess -= reduceBy;
+  }
+}
+
+/**
+ * The balance a weekly reset should leave: the weekly allowance plus whatever bought credits
+ * are still unspent.
+ */
+export async function getWeeklyResetBalance(
+  contractorId: string,
+  weeklyCreditsLimit: number,
+  client: CreditClient = prisma
+): Promise<number> {
+  return weeklyCreditsLimit + (await getPurchasedCreditBalance(client, contractorId));
+}
+
+/**
+ * Remove lapsed bought credits from balances. Run on a schedule.
+ */
+export async function expirePurchasedCredits(now: Date = new Date()): Promise<number> {
+  const lapsed = await prisma.creditPurchase.findMany({
+    where: { expiredAt: null, creditsRemaining: { gt: 0 }, expiresAt: { lte: now } },
+    include: { contractor: { select: { userId: true } } },
+  });
+
+  let expiredCount = 0;
+
+  for (const lot of lapsed) {
+    const removed = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.creditPurchase.updateMany({
+        where: { id: lot.id, expiredAt: null },
+        data: { expiredAt: now, creditsRemaining: 0 },
+      });
+      if (claimed.count === 0) return 0;
+
+      const contractor = await tx.contractor.findUnique({
+        where: { id: lot.contractorId },
+        select: { creditsBalance: true },
+      });
+      const amount = Math.min(lot.creditsRemaining, Math.max(contractor?.creditsBalance ?? 0, 0));
+      if (amount === 0) return 0;
+
+      await tx.contractor.update({
+        where: { id: lot.contractorId },
+        data: { creditsBalance: { decrement: amount } },
+      });
+      const creditTransaction = await tx.creditTransaction.create({
+        data: {
+          contractorId: lot.contractorId,
+          type: 'EXPIRY',
+          amount: -amount,
+          description: `${amount} unused credit${amount === 1 ? '' : 's'} from ${lot.bundleName} expired`,
+          creditPurchaseId: lot.id,
+        },
+      });
+      await recordCreditTransaction(tx, creditTransaction);
+      return amount;
+    });
+
+    if (removed > 0) {
+      expiredCount++;
+      await createNotification({
+        userId: lot.contractor.userId,
+        title: 'Credits Expired',
+        message: `${removed} unused credit${removed === 1 ? '' : 's'} from ${lot.bundleName} expired and ${removed === 1 ? 'has' : 'have'} been removed from your balance.`,
+        type: 'WARNING',
+        actionLink: '/dashboard/contractor/payments',
+      }).catch((error) => console.error('Failed to create credit expiry notification:', error));
+    }
+  }
+
+  return expiredCount;
+}
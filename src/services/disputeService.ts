@@ -1,6 +1,16 @@
 import { PrismaClient, DisputeType, DisputeStatus, DisputeResolution, UserRole, JobStatus } from '@prisma/client';
 import { createNotification } from './notificationService';
 import { notifyAdminsNewDispute } from './adminNotificationService';
+import {
+  applyJobTransition,
+  assertJobTransition,
+  jobActorFromUser,
+  runJobTransitionEffects,
+  transitionJobStatus,
+  AppliedJobTransition,
+} from './jobStatusService';
+import { recordCommissionAdjusted, recordCreditTransaction } from './ledgerService';
+import { HELD_ESCROW_STATUSES, settleDisputedEscrows } from './escrowService';
 
 const prisma = new PrismaClient();
 
@@ -31,6 +41,12 @@ export const disputeService = {
       throw new Error('Job not found');
     }
 
+    // A job can carry several disputes; only the first one moves it to DISPUTED
+    const actor = jobActorFromUser({ id: data.raisedByUserId, role: data.raisedByRole });
+    if (job.status !== JobStatus.DISPUTED) {
+      assertJobTransition(job, JobStatus.DISPUTED, actor);
+    }
+
     // Create dispute
     const dispute = await prisma.dispute.create({
       data: {
@@ -54,9 +70,12 @@ export const disputeService = {
     });
 
     // Update job status to DISPUTED
-    await prisma.job.update({
-      where: { id: data.jobId },
-      data: { status: JobStatus.DISPUTED },
+    await transitionJobStatus({
+      jobId: data.jobId,
+      to: JobStatus.DISPUTED,
+      actor,
+      reason: data.title,
+      metadata: { disputeId: dispute.id },
     });
 
     // Send notifications
@@ -119,6 +138,8 @@ export const disputeService = {
     adjustCommission?: boolean;
     commissionAmount?: number;
     completeJob?: boolean;
+    settleEscrow?: boolean;
+    escrowRefundAmount?: number;
   }) {
     const dispute = await prisma.dispute.findUnique({
       where: { id: data.disputeId },
@@ -130,6 +151,7 @@ export const disputeService = {
             jobAccess: {
               include: { contractor: true },
             },
+            quotes: { where: { status: 'ACCEPTED' }, select: { total: true } },
           },
         },
       },
@@ -139,6 +161,14 @@ export const disputeService = {
       throw new Error('Dispute not found');
     }
 
+    // Check the split against what's held before resolving, so a bad amount doesn't leave a resolved dispute with funds stuck
+    if (data.settleEscrow) {
+      await this.assertEscrowSplit(dispute.jobId, data.escrowRefundAmount ?? 0);
+    }
+
+    const actor = { role: 'ADMIN' as const, id: data.adminId };
+    let jobTransition: AppliedJobTransition<{}> | undefined;
+
     // Start a transaction to handle all updates
     const result = await prisma.$transaction(async (tx) => {
       // Update dispute
@@ -179,7 +209,7 @@ export const disputeService = {
           });
 
           // Create credit transaction
-          await tx.creditTransaction.create({
+          const creditTransaction = await tx.creditTransaction.create({
             data: {
               contractorId: contractor.id,
               amount: data.creditAmount,
@@ -189,23 +219,31 @@ export const disputeService = {
               adminUserId: data.adminId,
             },
           });
+          await recordCreditTransaction(tx, creditTransaction);
         }
       }
 
       // Handle commission adjustment
       if (data.adjustCommission && data.commissionAmount) {
-        const commissionPayment = await tx.commissionPayment.findUnique({
+        // Jobs with staged payments can have several, the adjustment applies to the latest
+        const commissionPayment = await tx.commissionPayment.findFirst({
           where: { jobId: dispute.jobId },
+          orderBy: { createdAt: 'desc' },
         });
 
         if (commissionPayment) {
-          await tx.commissionPayment.update({
+          const adjusted = await tx.commissionPayment.update({
             where: { id: commissionPayment.id },
             data: {
               commissionAmount: data.commissionAmount,
               totalAmount: data.commissionAmount,
             },
           });
+
+          // A paid commission has already left the receivable
+          if (commissionPayment.status === 'PENDING' || commissionPayment.status === 'OVERDUE') {
+            await recordCommissionAdjusted(tx, commissionPayment, adjusted, `dispute:${dispute.id}`);
+          }
         }
       }
 
@@ -214,35 +252,109 @@ export const disputeService = {
         // Put job in IN_PROGRESS so contractor can enter final price for commission.
         // Commission cannot be calculated without final amount. Contractor must propose
         // final price, then customer confirms (or admin overrides) before job completes.
-        await tx.job.update({
-          where: { id: dispute.jobId },
+        jobTransition = await applyJobTransition(tx, {
+          jobId: dispute.jobId,
+          to: JobStatus.IN_PROGRESS,
+          actor,
+          reason: data.resolutionNotes,
+          metadata: { disputeId: dispute.id },
+          notify: false,
           data: {
-            status: JobStatus.IN_PROGRESS,
-            // Clear any stale proposed amount so contractor proposes fresh
-            contractorProposedAmount: null,
+            // Withdraw any final price proposed before the dispute. The amount goes back to the
+            // accepted quote's total, the same baseline a new job starts the final-price flow from
+            contractorProposedAmount: dispute.job.quotes[0]?.total ?? null,
             finalPriceProposedAt: null,
             finalPriceTimeoutAt: null,
           },
         });
       } else {
-        // Just update job status back to previous state
-        await tx.job.update({
-          where: { id: dispute.jobId },
-          data: {
-            status: dispute.job.contractorProposedAmount
-              ? JobStatus.AWAITING_FINAL_PRICE_CONFIRMATION
-              : JobStatus.IN_PROGRESS,
-          },
+        // Just update job status back to previous state. A proposal is marked by its timestamp,
+        // as the amount on its own may only be the accepted quote's baseline
+        jobTransition = await applyJobTransition(tx, {
+          jobId: dispute.jobId,
+          to: dispute.job.finalPriceProposedAt
+            ? JobStatus.AWAITING_FINAL_PRICE_CONFIRMATION
+            : JobStatus.IN_PROGRESS,
+          actor,
+          reason: data.resolutionNotes,
+          metadata: { disputeId: dispute.id },
+          notify: false,
         });
       }
 
       return updatedDispute;
     });
 
+    if (jobTransition) {
+      await runJobTransitionEffects(jobTransition);
+    }
+
+    // Held funds are split after the ruling is saved, and after any commission adjustment,
+    // so the platform fee taken from the contractor's share is the adjusted one
+    let resolved = result;
+    if (data.settleEscrow) {
+      try {
+        resolved = await this.settleDisputeEscrow(dispute.id, data.escrowRefundAmount ?? 0);
+      } catch (error) {
+        // Whatever wasn't paid out is still held and can be settled again from the resolved dispute
+        console.error(`Failed to settle held funds for dispute ${dispute.id}:`, error);
+      }
+    }
+
     // Send notifications to involved parties
     await this.notifyDisputeResolved(dispute.id, data.completeJob || false);
 
-    return result;
+    return resolved;
+  },
+
+  /**
+   * Check a dispute split against what's still held for the job. Refunds already sent by an
+   * earlier, failed settlement can't be taken back, so they set the minimum.
+   */
+  async assertEscrowSplit(jobId: string, refundAmount: number) {
+    const held = await prisma.jobEscrow.aggregate({
+      where: { jobId, status: { in: HELD_ESCROW_STATUSES } },
+      _sum: { amount: true, refundedAmount: true },
+    });
+    const heldAmount = Number(held._sum.amount ?? 0);
+    const alreadyRefunded = Number(held._sum.refundedAmount ?? 0);
+    if (heldAmount === 0) {
+      throw new Error('No payment is held for this job');
+    }
+    if (refundAmount < alreadyRefunded || refundAmount > heldAmount) {
+      throw new Error(`Escrow refund must be between £${alreadyRefunded.toFixed(2)} and the £${heldAmount.toFixed(2)} held`);
+    }
+  },
+
+  /**
+   * Split the funds still held for a resolved dispute's job: `refundAmount` (pounds) back to the
+   * customer and the rest to the contractor. Can be run again after a Stripe failure; each run
+   * adds what it paid out to the dispute's totals.
+   */
+  async settleDisputeEscrow(disputeId: string, refundAmount: number) {
+    const dispute = await prisma.dispute.findUnique({ where: { id: disputeId } });
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    if (dispute.status !== DisputeStatus.RESOLVED) {
+      throw new Error('Held funds can only be settled once the dispute is resolved');
+    }
+
+    await this.assertEscrowSplit(dispute.jobId, refundAmount);
+
+    const settlement = await settleDisputedEscrows(dispute.jobId, refundAmount, dispute.id);
+    const updated = await prisma.dispute.update({
+      where: { id: dispute.id },
+      data: {
+        escrowRefundAmount: Number(dispute.escrowRefundAmount ?? 0) + settlement.refunded,
+        escrowReleaseAmount: Number(dispute.escrowReleaseAmount ?? 0) + settlement.released,
+      },
+    });
+
+    if (settlement.failed > 0) {
+      throw new Error(`${settlement.failed} held payment(s) could not be paid out and are still held`);
+    }
+    return updated;
   },
 
   /**
@@ -326,6 +438,16 @@ export const disputeService = {
                 contractor: { include: { user: true } },
               },
             },
+            // The contractor's progress log is the starting evidence for quality disputes
+            milestones: {
+              orderBy: { createdAt: 'asc' },
+              include: {
+                logEntries: {
+                  orderBy: { createdAt: 'asc' },
+                  include: { photos: { orderBy: { createdAt: 'asc' } } },
+                },
+              },
+            },
           },
         },
         responses: {
@@ -0,0 +1,488 @@
+import Stripe from 'stripe';
+import { DunningStage, NotificationType, Prisma, SubscriptionDunning } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getStripeClient } from '../config/stripe';
+import { createNotification } from './notificationService';
+import { sendSubscriptionDunningEmail } from './emailNotificationService';
+import { DunningSettings, getDunningSettings } from './settingsService';
+
+/**
+ * Dunning for failed subscription renewals.
+ *
+ * The first failed renewal payment opens a case. Stripe keeps retrying the invoice on its own
+ * schedule. Meanwhile the scheduler walks the case through the SUBSCRIPTION_DUNNING steps,
+ * counted in days from that first failure: a grace period, reminders, a cut in weekly credits,
+ * past_due, and finally cancellation. A payment that goes through at any point recovers the
+ * case and gives back the credits. Each step reaches the contractor in-app, by push and by email.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cases handled per scheduler run
+const BATCH_SIZE = 200;
+
+export type DunningStep = 'REMINDER' | 'REDUCE_CREDITS' | 'PAST_DUE' | 'CANCEL';
+
+const STAGE_ORDER: DunningStage[] = ['GRACE', 'REMINDING', 'CREDITS_REDUCED', 'PAST_DUE', 'CANCELLED'];
+
+const SUBSCRIPTION_INCLUDE = {
+  contractor: {
+    select: {
+      id: true,
+      businessName: true,
+      weeklyCreditsLimit: true,
+      user: { select: { id: true, name: true, email: true } },
+    },
+  },
+} as const;
+
+type DunningSubscription = Prisma.SubscriptionGetPayload<{ include: typeof SUBSCRIPTION_INCLUDE }>;
+
+const stepDate = (dunning: Pick<SubscriptionDunning, 'failedAt'>, days: number) =>
+  new Date(dunning.failedAt.getTime() + days * DAY_MS);
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-GB');
+
+// Never move a case back to an earlier stage
+const laterStage = (current: DunningStage, next: DunningStage) =>
+  STAGE_ORDER.indexOf(next) > STAGE_ORDER.indexOf(current) ? next : current;
+
+// When the next reminder is due, or null once they've all gone out
+function getNextReminderAt(
+  dunning: Pick<SubscriptionDunning, 'failedAt' | 'remindersSent' | 'lastReminderAt'>,
+  settings: DunningSettings
+): Date | null {
+  if (settings.reminderIntervalDays === null || dunning.remindersSent >= settings.maxReminders) {
+    return null;
+  }
+  return dunning.lastReminderAt
+    ? new Date(dunning.lastReminderAt.getTime() + settings.reminderIntervalDays * DAY_MS)
+    : stepDate(dunning, settings.gracePeriodDays);
+}
+
+/**
+ * The next step the schedule will take for an open case, and when. Null once nothing is left.
+ */
+export function getNextDunningStep(
+  dunning: Pick<
+    SubscriptionDunning,
+    'failedAt' | 'remindersSent' | 'lastReminderAt' | 'creditsReducedAt' | 'pastDueAt'
+  >,
+  settings: DunningSettings
+): { step: DunningStep; dueAt: Date } | null {
+  const candidates: { step: DunningStep; dueAt: Date }[] = [];
+
+  const reminderAt = getNextReminderAt(dunning, settings);
+  if (reminderAt) {
+    candidates.push({ step: 'REMINDER', dueAt: reminderAt });
+  }
+  if (settings.reduceCreditsAfterDays !== null && !dunning.creditsReducedAt) {
+    candidates.push({ step: 'REDUCE_CREDITS', dueAt: stepDate(dunning, settings.reduceCreditsAfterDays) });
+  }
+  if (settings.pastDueAfterDays !== null && !dunning.pastDueAt) {
+    candidates.push({ step: 'PAST_DUE', dueAt: stepDate(dunning, settings.pastDueAfterDays) });
+  }
+  if (settings.cancelAfterDays !== null) {
+    candidates.push({ step: 'CANCEL', dueAt: stepDate(dunning, settings.cancelAfterDays) });
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+  return candidates.reduce((next, candidate) => (candidate.dueAt < next.dueAt ? candidate : next));
+}
+
+async function notifyContractor(
+  subscription: DunningSubscription,
+  dunning: Pick<SubscriptionDunning, 'id' | 'amountDue'>,
+  notice: { title: string; message: string; type: NotificationType; actionText: string; step: string }
+) {
+  const { user } = subscription.contractor;
+
+  // createNotification also sends the push notification
+  try {
+    await createNotification({
+      userId: user.id,
+      title: notice.title,
+      message: notice.message,
+      type: notice.type,
+      actionLink: '/dashboard/contractor/payments',
+      actionText: notice.actionText,
+      metadata: { event: 'subscription_dunning', step: notice.step, dunningId: dunning.id },
+    });
+  } catch (error) {
+    console.error(`[subscription-dunning] Failed to notify contractor for case ${dunning.id}:`, error);
+  }
+
+  await sendSubscriptionDunningEmail({
+    recipientEmail: user.email,
+    recipientName: subscription.contractor.businessName || user.name,
+    subject: notice.title,
+    heading: notice.title,
+    message: notice.message,
+    plan: subscription.plan,
+    amountDue: Number(dunning.amountDue),
+    ctaText: notice.actionText,
+  });
+}
+
+async function getPaymentFailureReason(invoice: Stripe.Invoice): Promise<string | null> {
+  if (!invoice.payment_intent) {
+    return null;
+  }
+  try {
+    const paymentIntent =
+      typeof invoice.payment_intent === 'string'
+        ? await getStripeClient().paymentIntents.retrieve(invoice.payment_intent)
+        : invoice.payment_intent;
+    return paymentIntent.last_payment_error?.message ?? null;
+  } catch (error) {
+    console.error(`[subscription-dunning] Failed to look up the payment for invoice ${invoice.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Open a dunning case for a failed subscription invoice, or record another failed attempt on
+ * the open one. Called from the invoice.payment_failed webhook.
+ */
+export async function recordFailedRenewal(invoice: Stripe.Invoice): Promise<SubscriptionDunning | null> {
+  if (!invoice.subscription) {
+    return null;
+  }
+  const stripeSubscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+
+  const subscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId },
+    include: SUBSCRIPTION_INCLUDE,
+  });
+  if (!subscription) {
+    return null;
+  }
+
+  const failedAt = new Date();
+  const attemptCount = Math.max(invoice.attempt_count || 1, 1);
+  const failureReason = await getPaymentFailureReason(invoice);
+
+  // Stripe retries the same invoice, and a later invoice can fail before the first is settled
+  const existing = await prisma.subscriptionDunning.findFirst({
+    where: {
+      OR: [{ stripeInvoiceId: invoice.id }, { subscriptionId: subscription.id, status: 'OPEN' }],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (existing?.status === 'OPEN') {
+    return prisma.subscriptionDunning.update({
+      where: { id: existing.id },
+      data: {
+        lastFailedAt: failedAt,
+        attemptCount: Math.max(attemptCount, existing.attemptCount),
+        ...(failureReason && { lastFailureReason: failureReason }),
+      },
+    });
+  }
+  if (existing) {
+    // A redelivered event for a case that has already been settled
+    return existing;
+  }
+
+  const settings = await getDunningSettings();
+  const dunning = await prisma.subscriptionDunning.create({
+    data: {
+      subscriptionId: subscription.id,
+      stripeInvoiceId: invoice.id,
+      amountDue: invoice.amount_due / 100,
+      failedAt,
+      lastFailedAt: failedAt,
+      attemptCount,
+      lastFailureReason: failureReason,
+    },
+  });
+
+  const graceEnds = stepDate(dunning, settings.gracePeriodDays);
+  await notifyContractor(subscription, dunning, {
+    step: 'FAILED',
+    title: 'Subscription Payment Failed',
+    message:
+      settings.gracePeriodDays > 0
+        ? `We couldn't take £${Number(dunning.amountDue).toFixed(2)} for your subscription. Your plan stays active while we retry, but please update your card by ${formatDate(graceEnds)}.`
+        : `We couldn't take £${Number(dunning.amountDue).toFixed(2)} for your subscription. Please update your card to keep your plan.`,
+    type: 'PAYMENT_FAILED',
+    actionText: 'Update Card',
+  });
+
+  return dunning;
+}
+
+/**
+ * Close the open case once a renewal payment goes through, restoring weekly credits if they
+ * were reduced. Called from the invoice.payment_succeeded webhook.
+ */
+export async function recoverFailedRenewal(stripeSubscriptionId: string) {
+  const dunning = await prisma.subscriptionDunning.findFirst({
+    where: { status: 'OPEN', subscription: { stripeSubscriptionId } },
+    include: { subscription: { include: SUBSCRIPTION_INCLUDE } },
+  });
+  if (!dunning) {
+    return null;
+  }
+
+  const now = new Date();
+  const claimed = await prisma.subscriptionDunning.updateMany({
+    where: { id: dunning.id, status: 'OPEN' },
+    data: { status: 'RECOVERED', resolvedAt: now },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  if (dunning.creditsReducedAt && dunning.previousWeeklyCreditsLimit !== null) {
+    await prisma.contractor.update({
+      where: { id: dunning.subscription.contractorId },
+      data: { weeklyCreditsLimit: dunning.previousWeeklyCreditsLimit },
+    });
+  }
+
+  await notifyContractor(dunning.subscription, dunning, {
+    step: 'RECOVERED',
+    title: 'Subscription Payment Received',
+    message: dunning.creditsReducedAt
+      ? `Thanks - your subscription payment of £${Number(dunning.amountDue).toFixed(2)} went through and your weekly credits are back to normal.`
+      : `Thanks - your subscription payment of £${Number(dunning.amountDue).toFixed(2)} went through.`,
+    type: 'SUCCESS',
+    actionText: 'View Subscription',
+  });
+
+  return dunning.id;
+}
+
+/**
+ * Close open cases for a subscription that was cancelled outside dunning (by the contractor,
+ * an admin, or Stripe giving up on its retries).
+ */
+export async function closeFailedRenewals(stripeSubscriptionId: string) {
+  const { count } = await prisma.subscriptionDunning.updateMany({
+    where: { status: 'OPEN', subscription: { stripeSubscriptionId } },
+    data: { status: 'CLOSED', resolvedAt: new Date() },
+  });
+  return count;
+}
+
+async function cancelForNonPayment(dunning: SubscriptionDunning, subscription: DunningSubscription, now: Date) {
+  // Cancelled here before Stripe, so the customer.subscription.deleted webhook that follows
+  // finds it already cancelled and doesn't notify the contractor a second time
+  const cancelled = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.subscriptionDunning.updateMany({
+      where: { id: dunning.id, status: 'OPEN' },
+      data: { status: 'CANCELLED', stage: 'CANCELLED', cancelledAt: now, resolvedAt: now },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await tx.subscription.update({
+      where: { id: subscription.id },
+      data: { status: 'cancelled', isActive: false },
+    });
+    await tx.contractor.update({
+      where: { id: subscription.contractorId },
+      data: { weeklyCreditsLimit: 0 }, // Non-subscribed contractors don't get weekly credits
+    });
+    return true;
+  });
+  if (!cancelled) {
+    return false;
+  }
+
+  if (subscription.stripeSubscriptionId) {
+    try {
+      await getStripeClient().subscriptions.cancel(subscription.stripeSubscriptionId, {
+        cancellation_details: { comment: 'Cancelled by dunning: renewal payment not received' },
+      });
+    } catch (error) {
+      console.error(`[subscription-dunning] Failed to cancel Stripe subscription ${subscription.stripeSubscriptionId}:`, error);
+      // Our records stay cancelled, as with the admin cancel
+    }
+  }
+
+  await notifyContractor(subscription, dunning, {
+    step: 'CANCEL',
+    title: 'Subscription Cancelled',
+    message: `Your subscription has been cancelled because the £${Number(dunning.amountDue).toFixed(2)} renewal payment wasn't received. You can subscribe again at any time.`,
+    type: 'ERROR',
+    actionText: 'Resubscribe',
+  });
+  return true;
+}
+
+/**
+ * Move open dunning cases along the SUBSCRIPTION_DUNNING schedule. Run from the scheduler.
+ * Every step that has fallen due since the last run is applied, but the contractor only hears
+ * about the harshest one.
+ */
+export async function processSubscriptionDunning(now: Date = new Date()) {
+  const settings = await getDunningSettings();
+  const results = { reminded: 0, creditsReduced: 0, pastDue: 0, cancelled: 0 };
+
+  const cases = await prisma.subscriptionDunning.findMany({
+    where: { status: 'OPEN', failedAt: { lte: new Date(now.getTime() - settings.gracePeriodDays * DAY_MS) } },
+    include: { subscription: { include: SUBSCRIPTION_INCLUDE } },
+    orderBy: { failedAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const { subscription, ...dunning } of cases) {
+    const isDue = (days: number | null) => days !== null && now >= stepDate(dunning, days);
+    const amount = `£${Number(dunning.amountDue).toFixed(2)}`;
+    const cancelDate = settings.cancelAfterDays !== null ? formatDate(stepDate(dunning, settings.cancelAfterDays)) : null;
+
+    try {
+      // Cancelled by the contractor or an admin since the payment failed
+      if (subscription.status === 'cancelled') {
+        await prisma.subscriptionDunning.updateMany({
+          where: { id: dunning.id, status: 'OPEN' },
+          data: { status: 'CLOSED', resolvedAt: now },
+        });
+        continue;
+      }
+
+      if (isDue(settings.cancelAfterDays)) {
+        if (await cancelForNonPayment(dunning, subscription, now)) {
+          results.cancelled++;
+        }
+        continue;
+      }
+
+      let stage = dunning.stage;
+      let notified = false;
+
+      if (isDue(settings.pastDueAfterDays) && !dunning.pastDueAt) {
+        await prisma.$transaction([
+          prisma.subscription.update({
+            where: { id: subscription.id },
+            data: { status: 'past_due' }, // Still active; cancellation comes later
+          }),
+          prisma.subscriptionDunning.update({
+            where: { id: dunning.id },
+            data: { pastDueAt: now, stage: laterStage(stage, 'PAST_DUE') },
+          }),
+        ]);
+        stage = laterStage(stage, 'PAST_DUE');
+        results.pastDue++;
+        notified = true;
+        await notifyContractor(subscription, dunning, {
+          step: 'PAST_DUE',
+          title: 'Subscription Past Due',
+          message: cancelDate
+            ? `Your subscription is now past due as ${amount} is still unpaid. It will be cancelled on ${cancelDate} unless the payment goes through.`
+            : `Your subscription is now past due as ${amount} is still unpaid. Please update your card to keep your plan.`,
+          type: 'ERROR',
+          actionText: 'Update Card',
+        });
+      }
+
+      if (isDue(settings.reduceCreditsAfterDays) && !dunning.creditsReducedAt) {
+        const currentLimit = subscription.contractor.weeklyCreditsLimit;
+        const reducedLimit = Math.min(currentLimit, settings.reducedWeeklyCredits);
+
+        await prisma.$transaction([
+          prisma.contractor.update({
+            where: { id: subscription.contractorId },
+            data: { weeklyCreditsLimit: reducedLimit },
+          }),
+          prisma.subscriptionDunning.update({
+            where: { id: dunning.id },
+            data: {
+              creditsReducedAt: now,
+              previousWeeklyCreditsLimit: currentLimit,
+              stage: laterStage(stage, 'CREDITS_REDUCED'),
+            },
+          }),
+        ]);
+        stage = laterStage(stage, 'CREDITS_REDUCED');
+        results.creditsReduced++;
+        if (!notified && reducedLimit < currentLimit) {
+          notified = true;
+          await notifyContractor(subscription, dunning, {
+            step: 'REDUCE_CREDITS',
+            title: 'Weekly Credits Reduced',
+            message: `As ${amount} for your subscription is still unpaid, your weekly credits have been reduced to ${reducedLimit}. They'll go back to ${currentLimit} once the payment goes through.`,
+            type: 'WARNING',
+            actionText: 'Update Card',
+          });
+        }
+      }
+
+      const reminderAt = getNextReminderAt(dunning, settings);
+      if (!notified && reminderAt && now >= reminderAt) {
+        await prisma.subscriptionDunning.update({
+          where: { id: dunning.id },
+          data: {
+            remindersSent: { increment: 1 },
+            lastReminderAt: now,
+            stage: laterStage(stage, 'REMINDING'),
+          },
+        });
+        results.reminded++;
+        await notifyContractor(subscription, dunning, {
+          step: 'REMINDER',
+          title: 'Subscription Payment Still Due',
+          message: cancelDate
+            ? `We still haven't been able to take ${amount} for your subscription. Please update your card before ${cancelDate} to avoid it being cancelled.`
+            : `We still haven't been able to take ${amount} for your subscription. Please update your card.`,
+          type: 'WARNING',
+          actionText: 'Update Card',
+        });
+      }
+    } catch (error) {
+      console.error(`[subscription-dunning] Failed to process case ${dunning.id}:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Counts for the admin dunning dashboard: open cases by stage, the money still owed on them,
+ * and how cases closed over the last `days` days.
+ */
+export async function getDunningSummary(days = 30) {
+  const since = new Date(Date.now() - days * DAY_MS);
+
+  const [openByStage, closedByStatus] = await Promise.all([
+    prisma.subscriptionDunning.groupBy({
+      by: ['stage'],
+      where: { status: 'OPEN' },
+      _count: true,
+      _sum: { amountDue: true },
+    }),
+    prisma.subscriptionDunning.groupBy({
+      by: ['status'],
+      where: { status: { not: 'OPEN' }, resolvedAt: { gte: since } },
+      _count: true,
+    }),
+  ]);
+
+  const byStage = Object.fromEntries(STAGE_ORDER.map((stage) => [stage, 0])) as Record<DunningStage, number>;
+  let amountAtRisk = 0;
+  for (const row of openByStage) {
+    byStage[row.stage] = row._count;
+    amountAtRisk += Number(row._sum.amountDue ?? 0);
+  }
+
+  const closed = Object.fromEntries(closedByStatus.map((row) => [row.status, row._count]));
+  const recovered = closed.RECOVERED ?? 0;
+  const resolved = recovered + (closed.CANCELLED ?? 0) + (closed.CLOSED ?? 0);
+
+  return {
+    open: openByStage.reduce((total, row) => total + row._count, 0),
+    byStage,
+    amountAtRisk: Math.round(amountAtRisk * 100) / 100,
+    lastDays: days,
+    recovered,
+    cancelled: closed.CANCELLED ?? 0,
+    closedOtherwise: closed.CLOSED ?? 0,
+    recoveryRate: resolved > 0 ? Math.round((recovered / resolved) * 1000) / 10 : null,
+  };
+}
@@ -456,6 +456,316 @@ async function sendNewJobPostedEmail(data: {
   }
 }
 
+// Standalone helper — sends one saved-search digest listing new matching jobs per search
+async function sendSavedSearchDigestEmail(data: {
+  contractorEmail: string;
+  contractorName: string;
+  searches: Array<{
+    name: string;
+    frequency: 'NONE' | 'DAILY' | 'WEEKLY';
+    jobs: Array<{
+      id: string;
+      title: string;
+      location: string;
+      budget: number | null;
+      isUrgent: boolean;
+    }>;
+  }>;
+}) {
+  const emailService = createEmailService();
+  const totalJobs = data.searches.reduce((sum, search) => sum + search.jobs.length, 0);
+
+  const sections = data.searches
+    .map((search) => `
+      <h3>${search.name} <span style="font-weight: normal; color: #6b7280;">(${search.frequency === 'WEEKLY' ? 'weekly' : 'daily'})</span></h3>
+      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 0 0 20px 0;">
+        ${search.jobs
+          .map((job) => `
+          <p>
+            <a href="https://trustbuild.uk/dashboard/contractor/jobs/${job.id}"><strong>${job.isUrgent ? '🚨 ' : ''}${job.title}</strong></a><br>
+            ${job.location} — ${job.budget ? `£${job.budget.toFixed(2)}` : 'Quote required'}
+          </p>`)
+          .join('')}
+      </div>`)
+    .join('');
+
+  const mailOptions = createServiceEmail({
+    to: data.contractorEmail,
+    subject: `${totalJobs} new job${totalJobs === 1 ? '' : 's'} matching your saved searches — TrustBuild`,
+    heading: 'Your Saved Search Digest',
+    body: `
+      <p>Hi ${data.contractorName},</p>
+      <p>Here are the jobs posted since your last digest that match your saved searches.</p>
+      ${sections}
+      <p>Leads fill up quickly — purchase access from your dashboard before the spots are gone.</p>
+    `,
+    ctaText: 'Browse Jobs',
+    ctaUrl: 'https://trustbuild.uk/dashboard/contractor/jobs',
+    footerText: 'You received this because you enabled email digests on a saved search. You can change this from your saved searches at any time.',
+  });
+
+  try {
+    await emailService.sendMail(mailOptions);
+    return true;
+  } catch (error) {
+    console.error(`[saved-search-digest] Failed to send to ${data.contractorEmail}:`, error);
+    return false;
+  }
+}
+
+// Standalone helper — warns a customer that their unpurchased listing is about to expire
+async function sendJobExpiryWarningEmail(data: {
+  customerEmail: string;
+  customerName: string;
+  jobTitle: string;
+  jobId: string;
+  expiresAt: Date;
+}) {
+  const emailService = createEmailService();
+
+  const mailOptions = createServiceEmail({
+    to: data.customerEmail,
+    subject: `Your job "${data.jobTitle}" expires soon — TrustBuild`,
+    heading: 'Your Job Listing Expires Soon',
+    body: `
+      <p>Hi ${data.customerName},</p>
+      <p>No contractors have picked up your job yet, and the listing will expire on <strong>${data.expiresAt.toLocaleDateString('en-GB')}</strong>.</p>
+
+      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <h3>${data.jobTitle}</h3>
+      </div>
+
+      <p>Adding more detail to the description, a clearer budget or photos often helps contractors decide. Once it expires you can re-list it from your dashboard with one click.</p>
+    `,
+    ctaText: 'Review Job',
+    ctaUrl: `https://trustbuild.uk/dashboard/client/jobs/${data.jobId}`,
+    footerText: 'You received this because you posted a job on TrustBuild.',
+  });
+
+  try {
+    await emailService.sendMail(mailOptions);
+    return true;
+  } catch (error) {
+    console.error(`[job-expiry-warning] Failed to send to ${data.customerEmail}:`, error);
+    return false;
+  }
+}
+
+// Standalone helper — tells a customer their listing expired and how to re-list it
+async function sendJobExpiredEmail(data: {
+  customerEmail: string;
+  customerName: string;
+  jobTitle: string;
+  jobId: string;
+  expiryDays: number;
+}) {
+  const emailService = createEmailService();
+
+  const mailOptions = createServiceEmail({
+    to: data.customerEmail,
+    subject: `Your job "${data.jobTitle}" has expired — TrustBuild`,
+    heading: 'Your Job Listing Has Expired',
+    body: `
+      <p>Hi ${data.customerName},</p>
+      <p>Your job was listed for ${data.expiryDays} days without any contractor purchasing access, so it is no longer shown to contractors.</p>
+
+      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <h3>${data.jobTitle}</h3>
+      </div>
+
+      <p>If you still need the work done, re-list the job and we will notify matching contractors again.</p>
+    `,
+    ctaText: 'Re-list Job',
+    ctaUrl: `https://trustbuild.uk/dashboard/client/jobs/${data.jobId}`,
+    footerText: 'You received this because you posted a job on TrustBuild.',
+  });
+
+  try {
+    await emailService.sendMail(mailOptions);
+    return true;
+  } catch (error) {
+    console.error(`[job-expired] Failed to send to ${data.customerEmail}:`, error);
+    return false;
+  }
+}
+
+interface AppointmentEmailData {
+  recipientEmail: string;
+  recipientName: string;
+  otherPartyName: string;
+  jobTitle: string;
+  jobId: string;
+  startsAt: Date;
+  endsAt: Date;
+  location?: string | null;
+  ics: string; // iCalendar file for the booking, attached so it can be added to a calendar
+}
+
+// Shared by the appointment emails below — sends one email with the booking's .ics attached
+async function sendAppointmentEmail(
+  data: AppointmentEmailData,
+  content: { subject: string; heading: string; intro: string; logTag: string }
+) {
+  const emailService = createEmailService();
+  const when = `${data.startsAt.toLocaleString('en-GB', { dateStyle: 'full', timeStyle: 'short', timeZone: 'Europe/London' })} – ${data.endsAt.toLocaleTimeString('en-GB', { timeStyle: 'short', timeZone: 'Europe/London' })}`;
+
+  const mailOptions = createServiceEmail({
+    to: data.recipientEmail,
+    subject: content.subject,
+    heading: content.heading,
+    body: `
+      <p>Hi ${data.recipientName},</p>
+      <p>${content.intro}</p>
+
+      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <h3>${data.jobTitle}</h3>
+        <p><strong>When:</strong> ${when}</p>
+        <p><strong>With:</strong> ${data.otherPartyName}</p>
+        ${data.location ? `<p><strong>Where:</strong> ${data.location}</p>` : ''}
+      </div>
+
+      <p>The attached calendar file keeps your calendar in step with TrustBuild.</p>
+    `,
+    ctaText: 'View Job',
+    ctaUrl: `https://trustbuild.uk/dashboard/jobs/${data.jobId}`,
+    footerText: 'You received this because you arranged a site visit on TrustBuild.',
+  });
+
+  try {
+    await emailService.sendMail({
+      ...mailOptions,
+      attachments: [{ filename: 'site-visit.ics', content: data.ics, contentType: 'text/calendar; charset=utf-8' }],
+    });
+    return true;
+  } catch (error) {
+    console.error(`[${content.logTag}] Failed to send to ${data.recipientEmail}:`, error);
+    return false;
+  }
+}
+
+// Standalone helper — a site visit time has been agreed
+async function sendAppointmentConfirmedEmail(data: AppointmentEmailData) {
+  return sendAppointmentEmail(data, {
+    subject: `Site visit confirmed: ${data.jobTitle} — TrustBuild`,
+    heading: 'Site Visit Confirmed',
+    intro: 'Your site visit has been booked.',
+    logTag: 'appointment-confirmed',
+  });
+}
+
+// Standalone helper — reminder the day before a booked site visit
+async function sendAppointmentReminderEmail(data: AppointmentEmailData) {
+  return sendAppointmentEmail(data, {
+    subject: `Reminder: site visit for ${data.jobTitle} — TrustBuild`,
+    heading: 'Site Visit Reminder',
+    intro: 'This is a reminder that your site visit is coming up soon.',
+    logTag: 'appointment-reminder',
+  });
+}
+
+// Standalone helper — a booked site visit was cancelled (the .ics removes it from calendars)
+async function sendAppointmentCancelledEmail(data: AppointmentEmailData) {
+  return sendAppointmentEmail(data, {
+    subject: `Site visit cancelled: ${data.jobTitle} — TrustBuild`,
+    heading: 'Site Visit Cancelled',
+    intro: 'The site visit below has been cancelled.',
+    logTag: 'appointment-cancelled',
+  });
+}
+
+// Standalone helper — confirms a credit bundle purchase with the invoice PDF attached
+async function sendCreditPurchaseInvoiceEmail(data: {
+  invoiceNumber: string;
+  recipientName: string;
+  recipientEmail: string;
+  bundleName: string;
+  credits: number;
+  amount: number;
+  vatAmount: number;
+  totalAmount: number;
+  expiresAt: Date | null;
+  pdf: Buffer;
+}) {
+  const emailService = createEmailService();
+
+  const mailOptions = createServiceEmail({
+    to: data.recipientEmail,
+    subject: `Credit Purchase Confirmation - ${data.invoiceNumber}`,
+    heading: 'Credits Added',
+    body: `
+      <p>Hi ${data.recipientName},</p>
+      <p>Thank you for your purchase. ${data.credits} credits have been added to your account.</p>
+
+      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <h3>${data.bundleName}</h3>
+        <p><strong>Invoice Number:</strong> ${data.invoiceNumber}</p>
+        <p><strong>Credits:</strong> ${data.credits}</p>
+        <p><strong>Amount:</strong> £${data.amount.toFixed(2)}</p>
+        <p><strong>VAT (20%):</strong> £${data.vatAmount.toFixed(2)}</p>
+        <p><strong>Total Paid:</strong> £${data.totalAmount.toFixed(2)}</p>
+        <p><strong>Credits Expire:</strong> ${data.expiresAt ? data.expiresAt.toLocaleDateString('en-GB') : 'Never'}</p>
+      </div>
+
+      <p>Your invoice is attached to this email.</p>
+    `,
+    ctaText: 'Browse Jobs',
+    ctaUrl: 'https://trustbuild.uk/dashboard/contractor/jobs',
+  });
+
+  try {
+    await emailService.sendMail({
+      ...mailOptions,
+      attachments: [{ filename: `${data.invoiceNumber}.pdf`, content: data.pdf, contentType: 'application/pdf' }],
+    });
+    return true;
+  } catch (error) {
+    console.error(`❌ Failed to send credit purchase invoice email to ${data.recipientEmail}:`, error);
+    return false;
+  }
+}
+
+// Standalone helper — one step of the dunning schedule for a failed subscription renewal
+async function sendSubscriptionDunningEmail(data: {
+  recipientEmail: string;
+  recipientName: string;
+  subject: string;
+  heading: string;
+  message: string;
+  plan: string;
+  amountDue: number;
+  ctaText: string;
+}) {
+  const emailService = createEmailService();
+
+  const mailOptions = createServiceEmail({
+    to: data.recipientEmail,
+    subject: `${data.subject} — TrustBuild`,
+    heading: data.heading,
+    body: `
+      <p>Hi ${data.recipientName},</p>
+      <p>${data.message}</p>
+
+      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <p><strong>Plan:</strong> ${data.plan.replace(/_/g, ' ').toLowerCase()}</p>
+        <p><strong>Amount Due:</strong> £${data.amountDue.toFixed(2)}</p>
+      </div>
+
+      <p>Please check your card details in the dashboard so the next payment attempt goes through.</p>
+    `,
+    ctaText: data.ctaText,
+    ctaUrl: 'https://trustbuild.uk/dashboard/contractor/payments',
+    footerText: 'You received this because a payment for your TrustBuild subscription did not go through.',
+  });
+
+  try {
+    await emailService.sendMail(mailOptions);
+    return true;
+  } catch (error) {
+    console.error(`[subscription-dunning] Failed to send to ${data.recipientEmail}:`, error);
+    return false;
+  }
+}
+
 // Export individual functions for easy importing
 export const {
   sendContractorWelcomeEmail,
@@ -467,4 +777,14 @@ export const {
   sendPaymentConfirmationEmail,
 } = createEmailNotificationService();
 
-export { sendNewJobPostedEmail };
+export {
+  sendNewJobPostedEmail,
+  sendSavedSearchDigestEmail,
+  sendJobExpiryWarningEmail,
+  sendJobExpiredEmail,
+  sendAppointmentConfirmedEmail,
+  sendAppointmentReminderEmail,
+  sendAppointmentCancelledEmail,
+  sendCreditPurchaseInvoiceEmail,
+  sendSubscriptionDunningEmail,
+};
@@ -0,0 +1,599 @@
+import Stripe from 'stripe';
+import { EscrowStatus, JobEscrow, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getStripeClient } from '../config/stripe';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+import { notifyAllAdmins } from './adminNotificationService';
+import { recordEscrowFunded, recordEscrowSettled, toPence } from './ledgerService';
+import { getAgreedJobAmount } from './milestoneService';
+import { getEscrowSettings } from './settingsService';
+
+/**
+ * Job payment escrow (Stripe Connect, separate charges and transfers).
+ *
+ * When JOB_ESCROW is enabled a customer can pay for the job, or for one stage of it, through
+ * the platform instead of paying the contractor directly. The money is charged to the
+ * platform's Stripe account and held as a JobEscrow. When the customer confirms the final
+ * price (or approves the stage) it's transferred to the contractor's connected account, less
+ * the commission raised for that work, which is marked paid out of the funds rather than
+ * chased. A dispute ruling can instead return some or all of it to the customer.
+ *
+ * Settling claims the escrow first (HELD -> final status) so two callers can't both pay it
+ * out, then calls Stripe. The refund is saved as soon as Stripe makes it; if the payout then
+ * fails the escrow is left PARTIALLY_SETTLED (the rest still held) rather than HELD. The Stripe
+ * calls carry idempotency keys per escrow and amount, so retrying the same settlement doesn't
+ * refund or transfer twice while a retry with a new dispute split gets fresh requests.
+ */
+
+export const ESCROW_PAYMENT_TYPE = 'job_escrow';
+
+// Statuses an escrow can be paid into or out of
+const OPEN_ESCROW_STATUSES: EscrowStatus[] = ['PENDING', 'HELD', 'PARTIALLY_SETTLED'];
+
+// Escrows still holding money that settleEscrow can pay out
+export const HELD_ESCROW_STATUSES: EscrowStatus[] = ['HELD', 'PARTIALLY_SETTLED'];
+
+// Escrows that count against what's left to pay for a job
+const FUNDED_ESCROW_STATUSES: EscrowStatus[] = ['HELD', 'PARTIALLY_SETTLED', 'RELEASED', 'SPLIT'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const transferGroup = (jobId: string) => `job_${jobId}`;
+
+async function assertEscrowEnabled() {
+  const { enabled } = await getEscrowSettings();
+  if (!enabled) {
+    throw new AppError('Paying through TrustBuild is not available', 403);
+  }
+}
+
+/**
+ * What the customer can pay in for a stage (its amount) or for the job (the agreed price less
+ * what has already been paid in for it).
+ */
+async function getEscrowAmount(
+  job: { id: string; finalAmount: Prisma.Decimal | null; contractorProposedAmount: Prisma.Decimal | null },
+  milestone: { amount: Prisma.Decimal | null } | null
+): Promise<number> {
+  if (milestone) {
+    if (!milestone.amount) {
+      throw new AppError('This stage has no amount to pay', 400);
+    }
+    return Number(milestone.amount);
+  }
+
+  const agreed = getAgreedJobAmount(job);
+  if (agreed === null) {
+    throw new AppError('No price has been agreed for this job yet', 400);
+  }
+
+  const funded = await prisma.jobEscrow.aggregate({
+    where: { jobId: job.id, status: { in: FUNDED_ESCROW_STATUSES } },
+    _sum: { amount: true },
+  });
+  return round2(agreed - Number(funded._sum.amount ?? 0));
+}
+
+/**
+ * Start paying a job (or a stage) into escrow. An unpaid intent for the same job or stage is
+ * reused while the amount still matches, so the payment screen can be reopened.
+ */
+export async function createEscrowPaymentIntent(params: { jobId: string; milestoneId?: string; userId: string }) {
+  await assertEscrowEnabled();
+
+  const job = await prisma.job.findUnique({
+    where: { id: params.jobId },
+    include: {
+      customer: { select: { id: true, userId: true } },
+      wonByContractor: { select: { id: true, businessName: true, stripeAccountId: true, stripePayoutsEnabled: true } },
+    },
+  });
+  if (!job) {
+    throw new AppError('Job not found', 404);
+  }
+  if (job.customer.userId !== params.userId) {
+    throw new AppError('Only the customer can pay for this job', 403);
+  }
+  if (!['WON', 'IN_PROGRESS', 'AWAITING_FINAL_PRICE_CONFIRMATION'].includes(job.status)) {
+    throw new AppError('This job is not open for payment', 409);
+  }
+
+  const contractor = job.wonByContractor;
+  if (!contractor) {
+    throw new AppError('No contractor has been chosen for this job', 409);
+  }
+  if (!contractor.stripeAccountId || !contractor.stripePayoutsEnabled) {
+    throw new AppError('This contractor cannot receive payments through TrustBuild yet', 409);
+  }
+
+  const milestone = params.milestoneId
+    ? await prisma.milestone.findFirst({ where: { id: params.milestoneId, jobId: job.id } })
+    : null;
+  if (params.milestoneId && !milestone) {
+    throw new AppError('Milestone not found', 404);
+  }
+  if (milestone?.status === 'APPROVED') {
+    throw new AppError('This stage has already been approved', 409);
+  }
+
+  const milestoneId = milestone?.id ?? null;
+  const open = await prisma.jobEscrow.findFirst({
+    where: { jobId: job.id, milestoneId, status: { in: OPEN_ESCROW_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (open && open.status !== 'PENDING') {
+    throw new AppError(milestone ? 'This stage has already been paid' : 'This job has already been paid', 409);
+  }
+
+  const amount = await getEscrowAmount(job, milestone);
+  if (amount <= 0) {
+    throw new AppError('Nothing is left to pay for this job', 409);
+  }
+  const amountPence = Math.round(amount * 100);
+  const stripe = getStripeClient();
+
+  if (open) {
+    const existingIntent = await stripe.paymentIntents.retrieve(open.stripePaymentIntentId);
+    if (existingIntent.amount === amountPence && existingIntent.status !== 'canceled' && existingIntent.status !== 'succeeded') {
+      return { escrow: open, clientSecret: existingIntent.client_secret };
+    }
+    if (existingIntent.status !== 'succeeded' && existingIntent.status !== 'canceled') {
+      await stripe.paymentIntents.cancel(existingIntent.id);
+    }
+    if (existingIntent.status !== 'succeeded') {
+      await prisma.jobEscrow.updateMany({ where: { id: open.id, status: 'PENDING' }, data: { status: 'CANCELLED' } });
+    }
+  }
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: amountPence,
+    currency: 'gbp',
+    automatic_payment_methods: {
+      enabled: true,
+      allow_redirects: 'never',
+    },
+    transfer_group: transferGroup(job.id),
+    description: milestone ? `Stage payment: ${job.title} — ${milestone.title}` : `Job payment: ${job.title}`,
+    metadata: {
+      type: ESCROW_PAYMENT_TYPE,
+      jobId: job.id,
+      milestoneId: milestoneId ?? '',
+      customerId: job.customer.id,
+      contractorId: contractor.id,
+    },
+  });
+
+  const escrow = await prisma.jobEscrow.create({
+    data: {
+      jobId: job.id,
+      milestoneId,
+      customerId: job.customer.id,
+      contractorId: contractor.id,
+      amount,
+      stripePaymentIntentId: paymentIntent.id,
+    },
+  });
+
+  return { escrow, clientSecret: paymentIntent.client_secret };
+}
+
+/**
+ * Record a paid escrow intent: the escrow becomes HELD and a PENDING JOB_PAYMENT is added for
+ * the contractor's earnings. Called from both the client confirmation and the
+ * payment_intent.succeeded webhook; later calls return the escrow as it stands.
+ */
+export async function fundEscrow(paymentIntent: Stripe.PaymentIntent): Promise<{ escrow: JobEscrow; funded: boolean }> {
+  if (paymentIntent.metadata?.type !== ESCROW_PAYMENT_TYPE) {
+    throw new AppError('This payment is not a job payment', 400);
+  }
+  if (paymentIntent.status !== 'succeeded') {
+    throw new AppError('Payment not completed', 400);
+  }
+
+  const escrow = await prisma.jobEscrow.findUnique({
+    where: { stripePaymentIntentId: paymentIntent.id },
+    include: { job: { select: { title: true } } },
+  });
+  if (!escrow) {
+    throw new AppError(`No escrow found for payment intent ${paymentIntent.id}`, 404);
+  }
+  if (escrow.status !== 'PENDING' && escrow.status !== 'CANCELLED') {
+    return { escrow, funded: false };
+  }
+
+  if (paymentIntent.amount !== toPence(escrow.amount)) {
+    console.error(
+      `❌ Escrow amount mismatch for PI ${paymentIntent.id}. expected=${toPence(escrow.amount)} actual=${paymentIntent.amount}`
+    );
+    throw new AppError(`Payment amount mismatch: expected ${toPence(escrow.amount)}, got ${paymentIntent.amount}`, 400);
+  }
+
+  const chargeId = typeof paymentIntent.latest_charge === 'string' ? paymentIntent.latest_charge : paymentIntent.latest_charge?.id;
+  const now = new Date();
+
+  const funded = await prisma.$transaction(async (tx) => {
+    // A cancelled intent that was paid anyway (the customer's screen was already open) still counts
+    const claimed = await tx.jobEscrow.updateMany({
+      where: { id: escrow.id, status: { in: ['PENDING', 'CANCELLED'] } },
+      data: { status: 'HELD', fundedAt: now, stripeChargeId: chargeId ?? null },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const payment = await tx.payment.create({
+      data: {
+        customerId: escrow.customerId,
+        contractorId: escrow.contractorId,
+        jobId: escrow.jobId,
+        amount: escrow.amount,
+        type: 'JOB_PAYMENT',
+        status: 'PENDING', // Completed when the money is released to the contractor
+        stripePaymentId: paymentIntent.id,
+        description: `Payment held for job: ${escrow.job.title}`,
+      },
+    });
+    await recordEscrowFunded(tx, payment);
+
+    return tx.jobEscrow.update({ where: { id: escrow.id }, data: { paymentId: payment.id } });
+  });
+
+  if (!funded) {
+    return { escrow: await prisma.jobEscrow.findUniqueOrThrow({ where: { id: escrow.id } }), funded: false };
+  }
+
+  const contractor = await prisma.contractor.findUnique({ where: { id: escrow.contractorId }, select: { userId: true } });
+  if (contractor) {
+    await createNotification({
+      userId: contractor.userId,
+      title: 'Job Payment Received',
+      message: `The customer has paid £${Number(escrow.amount).toFixed(2)} for "${escrow.job.title}". We'll release it to you once they confirm the work is done.`,
+      type: 'SUCCESS',
+      actionLink: `/dashboard/contractor/jobs/${escrow.jobId}`,
+      actionText: 'View Job',
+      metadata: { jobId: escrow.jobId, escrowId: escrow.id },
+    });
+  }
+
+  return { escrow: funded, funded: true };
+}
+
+/**
+ * Pay out one held escrow: `refund` (pounds, in total) back to the customer and the rest to the
+ * contractor, less the commission for the same work if it fits in what's released. Anything
+ * already refunded by an earlier, half-finished settlement counts towards `refund`. Returns
+ * null if the escrow was no longer held.
+ */
+export async function settleEscrow(escrowId: string, options: { refund?: number; reason: string }) {
+  const escrow = await prisma.jobEscrow.findUnique({
+    where: { id: escrowId },
+    include: {
+      job: { select: { id: true, title: true } },
+      contractor: { select: { userId: true, stripeAccountId: true } },
+      customer: { select: { userId: true } },
+    },
+  });
+  if (!escrow) {
+    throw new AppError('Escrow not found', 404);
+  }
+
+  const amount = Number(escrow.amount);
+  const alreadyRefunded = Number(escrow.refundedAmount ?? 0);
+  const refund = round2(Math.min(Math.max(options.refund ?? 0, 0), amount));
+  const release = round2(amount - refund);
+  if (refund < alreadyRefunded) {
+    throw new AppError(`£${alreadyRefunded.toFixed(2)} of this payment has already been refunded`, 409);
+  }
+  if (release > 0 && !escrow.contractor.stripeAccountId) {
+    throw new AppError('The contractor has no Stripe account to release funds to', 409);
+  }
+
+  const status: EscrowStatus = refund === 0 ? 'RELEASED' : release === 0 ? 'REFUNDED' : 'SPLIT';
+  const claimed = await prisma.jobEscrow.updateMany({
+    where: { id: escrow.id, status: { in: HELD_ESCROW_STATUSES } },
+    data: { status, settledAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const commission = release > 0
+    ? await prisma.commissionPayment.findFirst({
+        where: { jobId: escrow.jobId, milestoneId: escrow.milestoneId, status: { in: ['PENDING', 'OVERDUE'] } },
+        orderBy: { createdAt: 'desc' },
+      })
+    : null;
+  const fee = commission && Number(commission.totalAmount) <= release ? Number(commission.totalAmount) : 0;
+  const payout = round2(release - fee);
+
+  let stripeRefundId = escrow.stripeRefundId;
+  let refunded = alreadyRefunded;
+  let stripeTransfer: Stripe.Transfer | null = null;
+  try {
+    const stripe = getStripeClient();
+    const refundPence = Math.round(refund * 100);
+    const alreadyRefundedPence = Math.round(alreadyRefunded * 100);
+    if (refundPence > alreadyRefundedPence) {
+      const stripeRefund = await stripe.refunds.create(
+        {
+          payment_intent: escrow.stripePaymentIntentId,
+          amount: refundPence - alreadyRefundedPence,
+          metadata: { escrowId: escrow.id, reason: options.reason.substring(0, 200) },
+        },
+        { idempotencyKey: `escrow-refund-${escrow.id}-${alreadyRefundedPence}-${refundPence}` }
+      );
+      stripeRefundId = stripeRefund.id;
+      refunded = refund;
+      await prisma.jobEscrow.update({
+        where: { id: escrow.id },
+        data: { stripeRefundId, refundedAmount: refunded },
+      });
+    }
+    if (payout > 0) {
+      stripeTransfer = await stripe.transfers.create(
+        {
+          amount: Math.round(payout * 100),
+          currency: 'gbp',
+          destination: escrow.contractor.stripeAccountId!,
+          transfer_group: transferGroup(escrow.jobId),
+          ...(escrow.stripeChargeId && { source_transaction: escrow.stripeChargeId }),
+          metadata: { escrowId: escrow.id, jobId: escrow.jobId },
+        },
+        { idempotencyKey: `escrow-transfer-${escrow.id}-${Math.round(payout * 100)}` }
+      );
+    }
+  } catch (error: any) {
+    // Whatever was refunded stays on record; only the rest goes back on hold
+    await prisma.jobEscrow.update({
+      where: { id: escrow.id },
+      data: { status: refunded > 0 ? 'PARTIALLY_SETTLED' : 'HELD', settledAt: null },
+    });
+    console.error(`❌ Failed to settle escrow ${escrow.id}:`, error);
+    const stillHeld = round2(amount - refunded);
+    await notifyAllAdmins({
+      title: 'Escrow Payout Failed',
+      message: refunded > 0
+        ? `£${refunded.toFixed(2)} of the £${amount.toFixed(2)} held for "${escrow.job.title}" was refunded but the rest could not be paid out (${options.reason}): ${error.message}. £${stillHeld.toFixed(2)} is still held.`
+        : `Held funds of £${amount.toFixed(2)} for "${escrow.job.title}" could not be paid out (${options.reason}): ${error.message}. The funds are still held.`,
+      type: 'ERROR',
+      actionLink: `/admin/jobs/${escrow.jobId}`,
+      actionText: 'View Job',
+    });
+    throw new AppError(`Stripe could not pay out the held funds: ${error.message}`, 502);
+  }
+
+  const settled = await prisma.$transaction(async (tx) => {
+    if (commission && fee > 0) {
+      await tx.commissionPayment.update({
+        where: { id: commission.id },
+        data: { status: 'PAID', paidAt: new Date(), stripePaymentId: escrow.stripePaymentIntentId },
+      });
+      if (!commission.milestoneId) {
+        await tx.job.update({ where: { id: escrow.jobId }, data: { commissionPaid: true } });
+      }
+    }
+
+    if (escrow.paymentId) {
+      await tx.payment.update({
+        where: { id: escrow.paymentId },
+        data: {
+          status: release > 0 ? 'COMPLETED' : 'REFUNDED',
+          description: release > 0 ? `Payment for job: ${escrow.job.title}` : `Payment for job: ${escrow.job.title} [REFUNDED: ${options.reason}]`,
+        },
+      });
+    }
+
+    await recordEscrowSettled(tx, {
+      id: escrow.id,
+      contractorId: escrow.contractorId,
+      released: Math.round(release * 100),
+      fee: Math.round(fee * 100),
+      refunded: Math.round(refund * 100),
+    });
+
+    return tx.jobEscrow.update({
+      where: { id: escrow.id },
+      data: {
+        platformFee: fee,
+        releasedAmount: payout,
+        refundedAmount: refund,
+        commissionPaymentId: fee > 0 ? commission!.id : null,
+        stripeTransferId: stripeTransfer?.id ?? null,
+        stripeRefundId,
+      },
+    });
+  });
+
+  if (payout > 0) {
+    await createNotification({
+      userId: escrow.contractor.userId,
+      title: 'Payment Released',
+      message: fee > 0
+        ? `£${payout.toFixed(2)} for "${escrow.job.title}" is on its way to your bank account (£${release.toFixed(2)} less £${fee.toFixed(2)} commission).`
+        : `£${payout.toFixed(2)} for "${escrow.job.title}" is on its way to your bank account.`,
+      type: 'SUCCESS',
+      actionLink: `/dashboard/contractor/jobs/${escrow.jobId}`,
+      actionText: 'View Job',
+      metadata: { jobId: escrow.jobId, escrowId: escrow.id },
+    });
+  }
+  if (refund > 0) {
+    await createNotification({
+      userId: escrow.customer.userId,
+      title: 'Payment Refunded',
+      message: `£${refund.toFixed(2)} of your payment for "${escrow.job.title}" is being refunded to you.`,
+      type: 'INFO',
+      actionLink: `/dashboard/client/jobs/${escrow.jobId}`,
+      actionText: 'View Job',
+      metadata: { jobId: escrow.jobId, escrowId: escrow.id },
+    });
+  }
+
+  return settled;
+}
+
+/**
+ * Release held funds for a job to the contractor: every held escrow when the final price is
+ * confirmed, or just the stage's with a milestoneId. An escrow left partly settled by a failed
+ * payout keeps what was already refunded and releases the rest. Returns the escrows paid out.
+ */
+export async function releaseJobEscrows(jobId: string, options: { milestoneId?: string } = {}) {
+  const held = await prisma.jobEscrow.findMany({
+    where: {
+      jobId,
+      status: { in: HELD_ESCROW_STATUSES },
+      ...(options.milestoneId && { milestoneId: options.milestoneId }),
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const released: JobEscrow[] = [];
+  for (const escrow of held) {
+    const settled = await settleEscrow(escrow.id, {
+      refund: Number(escrow.refundedAmount ?? 0),
+      reason: options.milestoneId ? 'stage approved' : 'final price confirmed',
+    });
+    if (settled) released.push(settled);
+  }
+  return released;
+}
+
+/**
+ * Settle a disputed job's held funds: `refundAmount` (pounds) goes back to the customer, taken
+ * from the most recent payments first, and the rest is released to the contractor. Refunds
+ * already made by an earlier attempt stay where they are and count towards `refundAmount`.
+ * A payment Stripe fails on stays held and is counted in `failed`; the others still settle, so
+ * a retry only covers what's left.
+ */
+export async function settleDisputedEscrows(jobId: string, refundAmount: number, disputeId: string) {
+  const held = await prisma.jobEscrow.findMany({
+    where: { jobId, status: { in: HELD_ESCROW_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const alreadyRefunded = (escrow: JobEscrow) => Number(escrow.refundedAmount ?? 0);
+  const totalHeld = round2(held.reduce((sum, escrow) => sum + Number(escrow.amount), 0));
+  const minimumRefund = round2(held.reduce((sum, escrow) => sum + alreadyRefunded(escrow), 0));
+  if (round2(refundAmount) < minimumRefund || round2(refundAmount) > totalHeld) {
+    throw new AppError(`The refund must be between £${minimumRefund.toFixed(2)} and the £${totalHeld.toFixed(2)} held`, 400);
+  }
+
+  let refundLeft = round2(refundAmount - minimumRefund);
+  let refunded = 0;
+  let released = 0;
+  let failed = 0;
+  for (const escrow of held) {
+    const extra = Math.min(refundLeft, round2(Number(escrow.amount) - alreadyRefunded(escrow)));
+    refundLeft = round2(refundLeft - extra);
+    const refund = round2(alreadyRefunded(escrow) + extra);
+
+    try {
+      const settled = await settleEscrow(escrow.id, { refund, reason: `dispute ${disputeId}` });
+      if (settled) {
+        refunded = round2(refunded + Number(settled.refundedAmount ?? 0));
+        released = round2(released + Number(escrow.amount) - Number(settled.refundedAmount ?? 0));
+      }
+    } catch (error) {
+      // The payment stays held; a Stripe failure has already alerted the admins
+      failed += 1;
+    }
+  }
+
+  return { held: totalHeld, refunded, released, failed };
+}
+
+/**
+ * A job's escrows (newest first) with what's currently held, for either party.
+ */
+export async function getJobEscrowSummary(jobId: string) {
+  const escrows = await prisma.jobEscrow.findMany({
+    where: { jobId, status: { not: 'CANCELLED' } },
+    orderBy: { createdAt: 'desc' },
+  });
+  const sum = (status: EscrowStatus) =>
+    round2(escrows.filter((escrow) => escrow.status === status).reduce((total, escrow) => total + Number(escrow.amount), 0));
+
+  const partlyRefunded = escrows.filter((escrow) => escrow.status === 'PARTIALLY_SETTLED');
+
+  return {
+    escrows,
+    heldAmount: round2(
+      sum('HELD') + partlyRefunded.reduce((total, escrow) => total + Number(escrow.amount) - Number(escrow.refundedAmount ?? 0), 0)
+    ),
+    releasedAmount: round2(escrows.reduce((total, escrow) => total + Number(escrow.releasedAmount ?? 0), 0)),
+    refundedAmount: round2(escrows.reduce((total, escrow) => total + Number(escrow.refundedAmount ?? 0), 0)),
+  };
+}
+
+// ==================== Connected accounts ====================
+
+/**
+ * Onboarding link for a contractor's Stripe Express account, creating the account on first use.
+ */
+export async function createConnectOnboardingLink(contractorId: string) {
+  await assertEscrowEnabled();
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { id: contractorId },
+    include: { user: { select: { email: true } } },
+  });
+  if (!contractor) {
+    throw new AppError('Contractor profile not found', 404);
+  }
+
+  const stripe = getStripeClient();
+  let accountId = contractor.stripeAccountId;
+  if (!accountId) {
+    const account = await stripe.accounts.create({
+      type: 'express',
+      country: 'GB',
+      email: contractor.user.email,
+      business_profile: { name: contractor.businessName ?? undefined },
+      capabilities: { transfers: { requested: true } },
+      metadata: { contractorId: contractor.id },
+    });
+    accountId = account.id;
+    await prisma.contractor.update({ where: { id: contractor.id }, data: { stripeAccountId: accountId } });
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const link = await stripe.accountLinks.create({
+    account: accountId,
+    type: 'account_onboarding',
+    refresh_url: `${frontendUrl}/dashboard/contractor/payouts?refresh=1`,
+    return_url: `${frontendUrl}/dashboard/contractor/payouts?onboarded=1`,
+  });
+
+  return { url: link.url, expiresAt: new Date(link.expires_at * 1000) };
+}
+
+/**
+ * Copy a connected account's payout readiness onto the contractor. Called from the
+ * account.updated webhook and when the contractor checks their status.
+ */
+export async function syncConnectAccount(account: Stripe.Account) {
+  const payoutsEnabled = !!account.payouts_enabled && account.capabilities?.transfers === 'active';
+  await prisma.contractor.updateMany({
+    where: { stripeAccountId: account.id },
+    data: { stripePayoutsEnabled: payoutsEnabled },
+  });
+  return payoutsEnabled;
+}
+
+export async function getConnectAccountStatus(contractorId: string) {
+  const contractor = await prisma.contractor.findUnique({
+    where: { id: contractorId },
+    select: { stripeAccountId: true, stripePayoutsEnabled: true },
+  });
+  if (!contractor) {
+    throw new AppError('Contractor profile not found', 404);
+  }
+  if (!contractor.stripeAccountId) {
+    return { connected: false, payoutsEnabled: false, requirements: [] as string[] };
+  }
+
+  const account = await getStripeClient().accounts.retrieve(contractor.stripeAccountId);
+  const payoutsEnabled = await syncConnectAccount(account);
+  return { connected: true, payoutsEnabled, requirements: account.requirements?.currently_due ?? [] };
+}
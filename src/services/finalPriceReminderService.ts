@@ -1,6 +1,7 @@
 import { prisma } from '../config/database';
 import { createFinalPriceConfirmationReminderNotification } from './notificationService';
 import { processCommissionForJob } from './commissionService';
+import { SYSTEM_ACTOR, transitionJobStatus } from './jobStatusService';
 
 /**
  * Process final price confirmation reminders
@@ -140,26 +141,26 @@ export async function processFinalPriceTimeouts(): Promise<void> {
       continue;
     }
 
-    // Auto-confirm the final price and mark job as completed
-    await prisma.job.update({
-      where: { id: job.id },
-      data: {
-        finalAmount: job.contractorProposedAmount,
-        finalPriceConfirmedAt: now,
-        status: 'COMPLETED',
-        completionDate: now,
-        customerConfirmed: true,
-        adminOverrideAt: now,
-        adminOverrideBy: 'system',
-      },
-    });
-
-    // Process commission if applicable
+    // Auto-confirm the final price and mark job as completed (the transition raises the commission)
     try {
-      const { processCommissionForJob } = await import('./commissionService');
-      await processCommissionForJob(job.id, Number(job.contractorProposedAmount));
+      await transitionJobStatus({
+        jobId: job.id,
+        to: 'COMPLETED',
+        actor: SYSTEM_ACTOR,
+        reason: 'Customer did not respond to the final price in time',
+        notify: false,
+        data: {
+          finalAmount: job.contractorProposedAmount,
+          finalPriceConfirmedAt: now,
+          completionDate: now,
+          customerConfirmed: true,
+          adminOverrideAt: now,
+          adminOverrideBy: 'system',
+        },
+      });
     } catch (error) {
-      console.error(`Failed to process commission for job ${job.id}:`, error);
+      console.error(`Failed to auto-confirm final price for job ${job.id}:`, error);
+      continue;
     }
 
     // Send notifications about auto-confirmation
@@ -1,5 +1,7 @@
 import { prisma } from '../config/database';
 import { processCommissionForJob } from './commissionService';
+import { releaseJobEscrows } from './escrowService';
+import { SYSTEM_ACTOR, transitionJobStatus } from './jobStatusService';
 
 // Service to handle final price confirmation timeouts
 export const processFinalPriceTimeouts = async (): Promise<void> => {
@@ -45,13 +47,16 @@ export const processFinalPriceTimeouts = async (): Promise<void> => {
     try {
 
       
-      // Auto-confirm the final price due to timeout
-      const updatedJob = await prisma.job.update({
-        where: { id: job.id },
+      // Auto-confirm the final price due to timeout (the transition raises the commission)
+      const updatedJob = await transitionJobStatus({
+        jobId: job.id,
+        to: 'COMPLETED',
+        actor: SYSTEM_ACTOR,
+        reason: 'Customer did not respond to the final price within 7 days',
+        notify: false,
         data: {
           finalAmount: Number(job.contractorProposedAmount),
           finalPriceConfirmedAt: new Date(),
-          status: 'COMPLETED',
           completionDate: new Date(),
           customerConfirmed: true,
           adminOverrideAt: new Date(),
@@ -59,9 +64,6 @@ export const processFinalPriceTimeouts = async (): Promise<void> => {
         },
       });
 
-      // Process commission if applicable
-      await processCommissionForJob(job.id, Number(job.contractorProposedAmount!));
-
       // Send timeout notification to both parties
       await sendTimeoutNotification(job);
 
@@ -128,6 +130,14 @@ export const processCompletionConfirmationTimeouts = async (): Promise<void> =>
       // Process commission
       await processCommissionForJob(job.id, finalAmount);
 
+      // Pay out anything held in escrow, less the commission just raised. A Stripe failure
+      // leaves the funds held and alerts the admins
+      try {
+        await releaseJobEscrows(job.id);
+      } catch (escrowError) {
+        console.error(`Failed to release held funds for job ${job.id}:`, escrowError);
+      }
+
       // Update contractor stats
       await prisma.contractor.update({
         where: { id: job.wonByContractorId },
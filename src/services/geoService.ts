@@ -0,0 +1,171 @@
+import { Prisma } from '@prisma/client';
+import { OUTWARD_CODE_CENTROIDS, POSTCODE_AREA_CENTROIDS } from '../data/ukPostcodeCentroids';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PostcodeLocation extends GeoPoint {
+  outwardCode: string;
+  precision: 'outward' | 'area';
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE_LATITUDE = 69.0;
+
+export const DEFAULT_TRAVEL_RADIUS_MILES = 25;
+export const MAX_TRAVEL_RADIUS_MILES = 200;
+
+/**
+ * Normalise a UK postcode: uppercase, single inner space, trimmed.
+ */
+export function normalisePostcode(postcode: string): string {
+  return postcode.trim().toUpperCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Extract the outward code ("LS1" from "LS1 4AP"). Accepts full postcodes with or
+ * without a space, or a bare outward code.
+ */
+export function extractOutwardCode(postcode: string): string | null {
+  const normalised = normalisePostcode(postcode);
+  if (!normalised) {
+    return null;
+  }
+
+  if (normalised.includes(' ')) {
+    return normalised.split(' ')[0];
+  }
+
+  // Full postcode without a space: the inward code is always digit + two letters
+  if (normalised.length >= 5 && /\d[A-Z]{2}$/.test(normalised)) {
+    return normalised.slice(0, -3);
+  }
+
+  return normalised;
+}
+
+/**
+ * Look up the approximate centroid for a UK postcode using the offline dataset.
+ * Returns null when the postcode area is not recognised.
+ */
+export function lookupPostcodeCentroid(postcode: string | null | undefined): PostcodeLocation | null {
+  if (!postcode) {
+    return null;
+  }
+
+  const outwardCode = extractOutwardCode(postcode);
+  if (!outwardCode || !/^[A-Z]{1,2}\d/.test(outwardCode)) {
+    return null;
+  }
+
+  const district = OUTWARD_CODE_CENTROIDS[outwardCode];
+  if (district) {
+    return { latitude: district[0], longitude: district[1], outwardCode, precision: 'outward' };
+  }
+
+  const area = outwardCode.match(/^[A-Z]{1,2}/)![0];
+  const areaCentroid = POSTCODE_AREA_CENTROIDS[area];
+  if (!areaCentroid) {
+    return null;
+  }
+
+  return { latitude: areaCentroid[0], longitude: areaCentroid[1], outwardCode, precision: 'area' };
+}
+
+/**
+ * Great-circle distance between two points in miles (haversine formula).
+ */
+export function distanceInMiles(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * distanceInMiles as a SQL expression over columns or bound values. NULL when either
+ * point has a NULL coordinate, i.e. its location is unknown.
+ */
+export function distanceInMilesSql(
+  from: { latitude: Prisma.Sql; longitude: Prisma.Sql },
+  to: { latitude: Prisma.Sql; longitude: Prisma.Sql }
+): Prisma.Sql {
+  return Prisma.sql`(2 * ${EARTH_RADIUS_MILES}::float8 * asin(least(1, sqrt(
+    power(sin(radians(${to.latitude} - ${from.latitude}) / 2), 2) +
+    cos(radians(${from.latitude})) * cos(radians(${to.latitude})) *
+    power(sin(radians(${to.longitude} - ${from.longitude}) / 2), 2)
+  ))))`;
+}
+
+/**
+ * Latitude/longitude box that fully contains a circle of the given radius.
+ * Used to pre-filter rows in the database before the exact distance check.
+ */
+export function getBoundingBox(center: GeoPoint, radiusMiles: number) {
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LATITUDE;
+  const lngDelta = radiusMiles / (MILES_PER_DEGREE_LATITUDE * Math.cos((center.latitude * Math.PI) / 180));
+
+  return {
+    minLatitude: center.latitude - latDelta,
+    maxLatitude: center.latitude + latDelta,
+    minLongitude: center.longitude - lngDelta,
+    maxLongitude: center.longitude + lngDelta,
+  };
+}
+
+/**
+ * Resolve where a contractor is based: stored base coordinates first, then a
+ * geocode of their base postcode or business postcode for legacy profiles.
+ */
+export function getContractorBaseLocation(contractor: {
+  baseLatitude?: number | null;
+  baseLongitude?: number | null;
+  basePostcode?: string | null;
+  postcode?: string | null;
+}): GeoPoint | null {
+  if (contractor.baseLatitude != null && contractor.baseLongitude != null) {
+    return { latitude: contractor.baseLatitude, longitude: contractor.baseLongitude };
+  }
+
+  return lookupPostcodeCentroid(contractor.basePostcode) || lookupPostcodeCentroid(contractor.postcode);
+}
+
+/**
+ * Resolve a job's location: stored coordinates first, then a geocode of Job.postcode.
+ */
+export function getJobLocation(job: {
+  latitude?: number | null;
+  longitude?: number | null;
+  postcode?: string | null;
+}): GeoPoint | null {
+  if (job.latitude != null && job.longitude != null) {
+    return { latitude: job.latitude, longitude: job.longitude };
+  }
+
+  return lookupPostcodeCentroid(job.postcode);
+}
+
+/**
+ * Round a distance for display (one decimal place).
+ */
+export function roundDistance(miles: number): number {
+  return Math.round(miles * 10) / 10;
+}
+
+/**
+ * Sort comparator: nearest first, unknown distances last. Stable for equal distances
+ * so the existing urgency/recency ordering is preserved.
+ */
+export function compareByDistance(a: { distanceMiles: number | null }, b: { distanceMiles: number | null }): number {
+  if (a.distanceMiles === null && b.distanceMiles === null) return 0;
+  if (a.distanceMiles === null) return 1;
+  if (b.distanceMiles === null) return -1;
+  return a.distanceMiles - b.distanceMiles;
+}
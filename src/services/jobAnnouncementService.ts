@@ -0,0 +1,166 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  GeoPoint,
+  distanceInMiles,
+  getContractorBaseLocation,
+  roundDistance,
+  compareByDistance,
+} from './geoService';
+import { getUnavailableContractorIds } from './contractorAvailabilityService';
+
+/**
+ * Find contractors who should receive a new-job notification for the given service.
+ * Only contractors whose travel radius reaches the job are returned, nearest first. When
+ * the job's location or a contractor's base is unknown the distance can't be checked, so
+ * nobody is matched on it. Contractors on holiday or already at their concurrent job
+ * limit are skipped.
+ */
+async function findContractorsForJobNotification(serviceId: string, jobLocation?: GeoPoint | null) {
+  if (!jobLocation) {
+    return [];
+  }
+
+  const jobService = await prisma.service.findUnique({
+    where: { id: serviceId },
+    select: { id: true, name: true, category: true },
+  });
+
+  if (!jobService) {
+    return [];
+  }
+
+  const matchConditions: Array<Record<string, unknown>> = [
+    { services: { some: { id: serviceId } } },
+  ];
+
+  if (jobService.category) {
+    matchConditions.push({
+      services: { some: { category: jobService.category } },
+    });
+  }
+
+  // Legacy profiles may only have free-text servicesProvided
+  if (jobService.name) {
+    matchConditions.push({
+      servicesProvided: { contains: jobService.name, mode: 'insensitive' },
+    });
+  }
+
+  const matchedContractors = await prisma.contractor.findMany({
+    where: {
+      accountStatus: 'ACTIVE',
+      profileApproved: true,
+      user: { role: 'CONTRACTOR', isActive: true },
+      OR: matchConditions,
+    },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  });
+
+  const unavailable = await getUnavailableContractorIds(matchedContractors.map((contractor) => contractor.id));
+  const contractors = matchedContractors.filter((contractor) => !unavailable.has(contractor.id));
+
+  return contractors
+    .map((contractor) => {
+      const base = getContractorBaseLocation(contractor);
+      return {
+        ...contractor,
+        distanceMiles: base ? roundDistance(distanceInMiles(base, jobLocation)) : null,
+      };
+    })
+    .filter((contractor) => contractor.distanceMiles !== null && contractor.distanceMiles <= contractor.travelRadiusMiles)
+    .sort(compareByDistance);
+}
+
+/**
+ * Tell contractors about a job that has just been listed: eligible contractors for the
+ * service get an in-app notification and email, and matching saved searches get an
+ * instant alert. Used for new jobs and re-listed ones. Failures are logged, never thrown.
+ */
+export async function announceJobToContractors(
+  job: {
+    id: string;
+    title: string;
+    description: string;
+    location: string;
+    budget: Prisma.Decimal | null;
+    isUrgent: boolean;
+    serviceId: string;
+    latitude: number | null;
+    longitude: number | null;
+    service: { name: string; category: string | null };
+  },
+  categoryHint?: string
+) {
+  const jobLocation =
+    job.latitude !== null && job.longitude !== null ? { latitude: job.latitude, longitude: job.longitude } : null;
+  const budget = job.budget !== null ? Number(job.budget) : null;
+
+  // Notify eligible contractors about the job (in-app + email)
+  try {
+    const { notifyContractorsOfNewJob } = await import('./notificationService');
+    const { sendNewJobPostedEmail } = await import('./emailNotificationService');
+
+    const eligibleContractors = await findContractorsForJobNotification(job.serviceId, jobLocation);
+
+    console.info(
+      `[notifications][new-job] jobId=${job.id} serviceId=${job.serviceId} service="${job.service.name}" eligibleContractors=${eligibleContractors.length}`
+    );
+
+    if (eligibleContractors.length > 0) {
+      const budgetLabel = budget !== null ? `£${budget.toFixed(2)}` : 'Quote required';
+      const categoryLabel = job.service.category ? ` (${job.service.category})` : '';
+
+      const { created, failed } = await notifyContractorsOfNewJob(
+        eligibleContractors.map((c) => ({ userId: c.user.id })),
+        {
+          id: job.id,
+          title: job.title,
+          isUrgent: job.isUrgent,
+          budgetLabel,
+          serviceName: job.service.name,
+          categoryLabel,
+        }
+      );
+      console.info(
+        `[notifications][new-job] in-app created=${created} failed=${failed} jobId=${job.id}`
+      );
+
+      const emailPromises = eligibleContractors.map((contractor) =>
+        sendNewJobPostedEmail({
+          contractorEmail: contractor.user.email,
+          contractorName: contractor.businessName || contractor.user.name,
+          jobTitle: job.title,
+          jobId: job.id,
+          budget,
+          isUrgent: job.isUrgent,
+          category: job.service.category || categoryHint,
+        })
+      );
+      Promise.allSettled(emailPromises).then((results) => {
+        const sent = results.filter(r => r.status === 'fulfilled' && r.value).length;
+        console.info(`[notifications][new-job] emails sent=${sent}/${eligibleContractors.length} jobId=${job.id}`);
+      });
+    } else {
+      console.info(`[notifications][new-job] no eligible contractors for jobId=${job.id} serviceId=${job.serviceId}`);
+    }
+  } catch (error) {
+    console.error('Failed to notify contractors about new job:', error);
+  }
+
+  // Alert contractors whose saved searches match the job (in-app + push)
+  try {
+    const { notifySavedSearchMatches } = await import('./savedSearchService');
+    await notifySavedSearchMatches(job);
+  } catch (error) {
+    console.error('Failed to send saved search alerts for new job:', error);
+  }
+}
@@ -0,0 +1,146 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { createNotification } from './notificationService';
+import { sendJobExpiredEmail, sendJobExpiryWarningEmail } from './emailNotificationService';
+import { getJobExpirySettings } from './settingsService';
+import { SYSTEM_ACTOR, transitionJobStatus } from './jobStatusService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Jobs handled per scheduler run, so a large backlog is worked through over several runs
+const BATCH_SIZE = 200;
+
+// Only listings nobody has bought into expire - once a contractor has paid for access
+// the lead is live in their pipeline and stays POSTED until the customer acts
+const UNPURCHASED_LISTING: Prisma.JobWhereInput = {
+  status: 'POSTED',
+  wonByContractorId: null,
+  jobAccess: { none: {} },
+};
+
+/**
+ * When a listing posted (or last re-listed) at `listedAt` expires.
+ */
+export function getJobExpiryDate(listedAt: Date, expiryDays: number): Date {
+  return new Date(listedAt.getTime() + expiryDays * DAY_MS);
+}
+
+/**
+ * Warn customers whose unpurchased listings are close to expiry, then move listings
+ * past their expiry date to EXPIRED. Run from the scheduler.
+ */
+export async function processJobExpiry(): Promise<{ warned: number; expired: number }> {
+  const { expiryDays, warningDays } = await getJobExpirySettings();
+  if (expiryDays <= 0) {
+    return { warned: 0, expired: 0 };
+  }
+
+  const now = new Date();
+  const expiryCutoff = new Date(now.getTime() - expiryDays * DAY_MS);
+  const warningCutoff = new Date(now.getTime() - (expiryDays - warningDays) * DAY_MS);
+
+  let expired = 0;
+  const expiredJobs = await prisma.job.findMany({
+    where: { ...UNPURCHASED_LISTING, createdAt: { lte: expiryCutoff } },
+    include: {
+      customer: {
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const job of expiredJobs) {
+    try {
+      await transitionJobStatus({
+        jobId: job.id,
+        to: 'EXPIRED',
+        actor: SYSTEM_ACTOR,
+        reason: `No contractor purchased access within ${expiryDays} days`,
+        notify: false,
+        data: { expiredAt: now },
+      });
+      expired++;
+    } catch (error) {
+      console.error(`[job-expiry] Failed to expire job ${job.id}:`, error);
+      continue;
+    }
+
+    try {
+      await createNotification({
+        userId: job.customer.user.id,
+        title: 'Job Listing Expired',
+        message: `Your job "${job.title}" expired after ${expiryDays} days without a contractor purchasing access. Re-list it to notify contractors again.`,
+        type: 'JOB_STATUS_CHANGED',
+        actionLink: `/dashboard/client/jobs/${job.id}`,
+        actionText: 'Re-list Job',
+        metadata: { jobId: job.id },
+      });
+      await sendJobExpiredEmail({
+        customerEmail: job.customer.user.email,
+        customerName: job.customer.user.name,
+        jobTitle: job.title,
+        jobId: job.id,
+        expiryDays,
+      });
+    } catch (error) {
+      console.error(`[job-expiry] Failed to notify customer about expired job ${job.id}:`, error);
+    }
+  }
+
+  let warned = 0;
+  if (warningDays > 0) {
+    const expiringJobs = await prisma.job.findMany({
+      where: {
+        ...UNPURCHASED_LISTING,
+        expiryWarningSentAt: null,
+        createdAt: { lte: warningCutoff, gt: expiryCutoff },
+      },
+      include: {
+        customer: {
+          include: {
+            user: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const job of expiringJobs) {
+      const expiresAt = getJobExpiryDate(job.createdAt, expiryDays);
+
+      try {
+        await prisma.job.update({
+          where: { id: job.id },
+          data: { expiryWarningSentAt: now },
+        });
+
+        await createNotification({
+          userId: job.customer.user.id,
+          title: 'Job Listing Expiring Soon',
+          message: `No contractors have picked up "${job.title}" yet. The listing expires on ${expiresAt.toLocaleDateString('en-GB')} - adding more detail or photos can help.`,
+          type: 'WARNING',
+          actionLink: `/dashboard/client/jobs/${job.id}`,
+          actionText: 'Review Job',
+          metadata: { jobId: job.id, expiresAt: expiresAt.toISOString() },
+        });
+        await sendJobExpiryWarningEmail({
+          customerEmail: job.customer.user.email,
+          customerName: job.customer.user.name,
+          jobTitle: job.title,
+          jobId: job.id,
+          expiresAt,
+        });
+        warned++;
+      } catch (error) {
+        console.error(`[job-expiry] Failed to send expiry warning for job ${job.id}:`, error);
+      }
+    }
+  }
+
+  return { warned, expired };
+}
@@ -0,0 +1,215 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Per-service job questionnaires.
+ *
+ * A Service can define a list of questions (stored as JSON on Service.questionnaire),
+ * e.g. "number of rooms" for painting. Customers answer them when posting a job and
+ * the answers are stored on Job.questionnaireAnswers keyed by question key.
+ *
+ * Contractors see every answer once they have bought the lead. Before purchase only
+ * questions marked `visibleBeforePurchase` are shown - enough to judge the lead
+ * without giving away details the customer shares with paying contractors only.
+ */
+
+export const QUESTION_TYPES = ['text', 'number', 'boolean', 'select', 'multiselect'] as const;
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+// A type alias (not an interface) so definitions can be written straight to a Json column
+export type ServiceQuestion = {
+  key: string;
+  label: string;
+  type: QuestionType;
+  required?: boolean;
+  options?: string[]; // select / multiselect only
+  unit?: string; // e.g. "m²", shown after number answers
+  min?: number;
+  max?: number;
+  visibleBeforePurchase?: boolean;
+};
+
+export type QuestionnaireAnswer = string | number | boolean | string[];
+export type QuestionnaireAnswers = Record<string, QuestionnaireAnswer>;
+
+export interface QuestionnaireAnswerView {
+  key: string;
+  label: string;
+  type: QuestionType;
+  value: QuestionnaireAnswer;
+  unit?: string;
+}
+
+const MAX_QUESTIONS = 30;
+const MAX_TEXT_ANSWER_LENGTH = 1000;
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+/**
+ * Validate a questionnaire definition submitted by an admin. Returns the cleaned
+ * definition; throws a 400 AppError describing the first problem found.
+ */
+export function parseQuestionnaireDefinition(input: unknown): ServiceQuestion[] {
+  if (!Array.isArray(input)) {
+    throw new AppError('Questionnaire must be an array of questions', 400);
+  }
+  if (input.length > MAX_QUESTIONS) {
+    throw new AppError(`A questionnaire can have at most ${MAX_QUESTIONS} questions`, 400);
+  }
+
+  const seen = new Set<string>();
+  return input.map((raw, index) => {
+    const question = raw as Partial<ServiceQuestion>;
+    const position = `Question ${index + 1}`;
+
+    if (!question || typeof question.key !== 'string' || !KEY_PATTERN.test(question.key)) {
+      throw new AppError(`${position}: key must be lower_snake_case`, 400);
+    }
+    if (seen.has(question.key)) {
+      throw new AppError(`${position}: duplicate key "${question.key}"`, 400);
+    }
+    seen.add(question.key);
+
+    if (typeof question.label !== 'string' || !question.label.trim()) {
+      throw new AppError(`${position}: label is required`, 400);
+    }
+    if (!QUESTION_TYPES.includes(question.type as QuestionType)) {
+      throw new AppError(`${position}: type must be one of ${QUESTION_TYPES.join(', ')}`, 400);
+    }
+
+    const needsOptions = question.type === 'select' || question.type === 'multiselect';
+    if (needsOptions && (!Array.isArray(question.options) || question.options.length === 0 ||
+      question.options.some((option) => typeof option !== 'string' || !option.trim()))) {
+      throw new AppError(`${position}: ${question.type} questions need a list of options`, 400);
+    }
+
+    return {
+      key: question.key,
+      label: question.label.trim(),
+      type: question.type as QuestionType,
+      ...(question.required && { required: true }),
+      ...(needsOptions && { options: question.options!.map((option) => option.trim()) }),
+      ...(question.type === 'number' && question.unit && { unit: String(question.unit) }),
+      ...(question.type === 'number' && typeof question.min === 'number' && { min: question.min }),
+      ...(question.type === 'number' && typeof question.max === 'number' && { max: question.max }),
+      ...(question.visibleBeforePurchase && { visibleBeforePurchase: true }),
+    };
+  });
+}
+
+/**
+ * Read a service's stored questionnaire. Malformed stored data is treated as no questions.
+ */
+export function getServiceQuestions(questionnaire: Prisma.JsonValue | null | undefined): ServiceQuestion[] {
+  if (!questionnaire) {
+    return [];
+  }
+  try {
+    return parseQuestionnaireDefinition(questionnaire);
+  } catch {
+    return [];
+  }
+}
+
+type NormalizedAnswer = { value: QuestionnaireAnswer } | { error: string };
+
+function normalizeAnswer(question: ServiceQuestion, value: unknown): NormalizedAnswer {
+  switch (question.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (!Number.isFinite(number)) return { error: `${question.label} must be a number` };
+      if (question.min !== undefined && number < question.min) return { error: `${question.label} must be at least ${question.min}` };
+      if (question.max !== undefined && number > question.max) return { error: `${question.label} must be at most ${question.max}` };
+      return { value: number };
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return { value };
+      if (value === 'true' || value === 'false') return { value: value === 'true' };
+      return { error: `${question.label} must be yes or no` };
+    case 'select':
+      return typeof value === 'string' && question.options!.includes(value)
+        ? { value }
+        : { error: `${question.label} must be one of: ${question.options!.join(', ')}` };
+    case 'multiselect': {
+      const values = Array.isArray(value) ? value : [value];
+      return values.every((item) => typeof item === 'string' && question.options!.includes(item))
+        ? { value: Array.from(new Set(values as string[])) }
+        : { error: `${question.label} must only contain: ${question.options!.join(', ')}` };
+    }
+    default: {
+      const text = String(value).trim();
+      return text.length > MAX_TEXT_ANSWER_LENGTH
+        ? { error: `${question.label} must be ${MAX_TEXT_ANSWER_LENGTH} characters or fewer` }
+        : { value: text };
+    }
+  }
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Validate and normalise answers against a service's questions. Unknown keys are
+ * dropped. Required questions are only enforced when `requireAll` is set (jobs being
+ * posted) so drafts can be saved part-answered. Throws a 400 AppError listing every
+ * problem.
+ */
+export function validateQuestionnaireAnswers(
+  questions: ServiceQuestion[],
+  input: unknown,
+  options: { requireAll: boolean }
+): QuestionnaireAnswers {
+  if (input !== undefined && input !== null && (typeof input !== 'object' || Array.isArray(input))) {
+    throw new AppError('Questionnaire answers must be an object keyed by question', 400);
+  }
+
+  const raw = (input || {}) as Record<string, unknown>;
+  const answers: QuestionnaireAnswers = {};
+  const errors: string[] = [];
+
+  for (const question of questions) {
+    const value = raw[question.key];
+    if (isBlank(value)) {
+      if (options.requireAll && question.required) {
+        errors.push(`${question.label} is required`);
+      }
+      continue;
+    }
+
+    const normalized = normalizeAnswer(question, value);
+    if ('error' in normalized) {
+      errors.push(normalized.error);
+    } else {
+      answers[question.key] = normalized.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AppError(`Invalid questionnaire answers: ${errors.join('; ')}`, 400);
+  }
+
+  return answers;
+}
+
+/**
+ * Answers in question order with their labels, for display. Contractors without
+ * access only get the questions marked visibleBeforePurchase.
+ */
+export function buildQuestionnaireView(
+  questions: ServiceQuestion[],
+  answers: Prisma.JsonValue | null | undefined,
+  options: { hasAccess: boolean }
+): QuestionnaireAnswerView[] {
+  const stored = (answers && typeof answers === 'object' && !Array.isArray(answers) ? answers : {}) as QuestionnaireAnswers;
+
+  return questions
+    .filter((question) => options.hasAccess || question.visibleBeforePurchase)
+    .filter((question) => !isBlank(stored[question.key]))
+    .map((question) => ({
+      key: question.key,
+      label: question.label,
+      type: question.type,
+      value: stored[question.key],
+      ...(question.unit && { unit: question.unit }),
+    }));
+}
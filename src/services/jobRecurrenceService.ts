@@ -0,0 +1,388 @@
+import { JobStatus, Prisma, RecurrenceFrequency } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+import { getMaxContractorsPerJob } from './settingsService';
+import { getServiceQuestions, validateQuestionnaireAnswers } from './jobQuestionnaireService';
+import { JobActor, SYSTEM_ACTOR, recordInitialJobStatus } from './jobStatusService';
+import { shouldFlagNewJob } from './leadClaimService';
+import { announceJobToContractors } from './jobAnnouncementService';
+
+/**
+ * Job cloning and recurring jobs.
+ *
+ * Cloning copies a job's service, wording, location, answers and attachments into a new
+ * DRAFT. A JobRecurrence repeats that on a schedule: when nextRunAt comes round the
+ * scheduler clones the series' latest job, posting it straight away when autoPost is set
+ * (or leaving a draft for the customer to publish).
+ *
+ * With firstRefusalHours set, the contractor who won the previous occurrence gets the
+ * posted job to themselves for that long: other contractors can't see or buy it until
+ * the window ends or the contractor passes, and only then is it announced.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 100;
+const MAX_FIRST_REFUSAL_HOURS = 168;
+const MAX_INTERVAL: Record<RecurrenceFrequency, number> = { WEEKLY: 52, MONTHLY: 24 };
+
+export const RECURRENCE_FREQUENCIES = Object.values(RecurrenceFrequency) as RecurrenceFrequency[];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  autoPost: boolean;
+  firstRefusalHours: number;
+  endsAt: Date | null;
+}
+
+type FirstRefusalState = {
+  firstRefusalContractorId: string | null;
+  firstRefusalUntil: Date | null;
+};
+
+/**
+ * `date` moved on by one recurrence step. Monthly steps keep the day of the month where
+ * possible and otherwise land on the month's last day (31 Jan -> 28/29 Feb).
+ */
+export function addRecurrenceInterval(date: Date, frequency: RecurrenceFrequency, interval: number): Date {
+  if (frequency === 'WEEKLY') {
+    return new Date(date.getTime() + interval * 7 * 24 * HOUR_MS);
+  }
+
+  const next = new Date(date);
+  const day = next.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + interval);
+  const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(day, daysInMonth));
+  return next;
+}
+
+/**
+ * First occurrence after `now` in the series that started at `anchor`.
+ */
+export function getNextRunAt(anchor: Date, frequency: RecurrenceFrequency, interval: number, now: Date = new Date()): Date {
+  let next = addRecurrenceInterval(anchor, frequency, interval);
+  let steps = 1;
+  while (next <= now) {
+    steps++;
+    next = addRecurrenceInterval(anchor, frequency, interval * steps);
+  }
+  return next;
+}
+
+/**
+ * Validate a recurrence rule sent by a customer.
+ */
+export function parseRecurrenceRule(body: Record<string, any>, now: Date = new Date()): RecurrenceRule {
+  const frequency = body.frequency as RecurrenceFrequency;
+  if (!RECURRENCE_FREQUENCIES.includes(frequency)) {
+    throw new AppError(`frequency must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`, 400);
+  }
+
+  const interval = body.interval === undefined ? 1 : Number(body.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL[frequency]) {
+    throw new AppError(`interval must be a whole number from 1 to ${MAX_INTERVAL[frequency]}`, 400);
+  }
+
+  const firstRefusalHours = body.firstRefusalHours === undefined ? 0 : Number(body.firstRefusalHours);
+  if (!Number.isInteger(firstRefusalHours) || firstRefusalHours < 0 || firstRefusalHours > MAX_FIRST_REFUSAL_HOURS) {
+    throw new AppError(`firstRefusalHours must be a whole number from 0 to ${MAX_FIRST_REFUSAL_HOURS}`, 400);
+  }
+
+  let endsAt: Date | null = null;
+  if (body.endsAt !== undefined && body.endsAt !== null) {
+    endsAt = new Date(body.endsAt);
+    if (Number.isNaN(endsAt.getTime()) || endsAt <= now) {
+      throw new AppError('endsAt must be a future date', 400);
+    }
+  }
+
+  return { frequency, interval, autoPost: body.autoPost === true, firstRefusalHours, endsAt };
+}
+
+/**
+ * Whether a job is still held for its previous winner, so `contractorId` can't see or buy it.
+ */
+export function isReservedForOtherContractor(job: FirstRefusalState, contractorId: string | null, now: Date = new Date()): boolean {
+  return !!job.firstRefusalContractorId && !!job.firstRefusalUntil && job.firstRefusalUntil > now && job.firstRefusalContractorId !== contractorId;
+}
+
+/**
+ * Job filter hiding jobs held for another contractor's first refusal.
+ */
+export function firstRefusalVisibilityFilter(contractorId: string | null, now: Date = new Date()): Prisma.JobWhereInput {
+  return {
+    OR: [
+      { firstRefusalUntil: null },
+      { firstRefusalUntil: { lte: now } },
+      ...(contractorId ? [{ firstRefusalContractorId: contractorId }] : []),
+    ],
+  };
+}
+
+/**
+ * Copy a job into a new one owned by the same customer. Attachments are copied as rows
+ * pointing at the same Cloudinary files.
+ */
+export async function cloneJob(
+  sourceJobId: string,
+  options: {
+    status: Extract<JobStatus, 'DRAFT' | 'POSTED'>;
+    actor: JobActor;
+    recurrenceId?: string | null;
+    firstRefusalContractorId?: string | null;
+  }
+) {
+  const source = await prisma.job.findUnique({
+    where: { id: sourceJobId },
+    include: {
+      attachments: true,
+      customer: { select: { badLeadCount: true } },
+    },
+  });
+
+  if (!source) {
+    throw new AppError('Job not found', 404);
+  }
+
+  const [maxContractors, flagForBadLeads] = await Promise.all([
+    getMaxContractorsPerJob(),
+    shouldFlagNewJob(source.customer.badLeadCount),
+  ]);
+
+  const job = await prisma.job.create({
+    data: {
+      customerId: source.customerId,
+      serviceId: source.serviceId,
+      title: source.title,
+      description: source.description,
+      budget: source.budget,
+      location: source.location,
+      postcode: source.postcode,
+      propertyId: source.propertyId,
+      latitude: source.latitude,
+      longitude: source.longitude,
+      urgency: source.urgency,
+      isUrgent: source.isUrgent,
+      requiresQuote: source.requiresQuote,
+      estimatedValue: source.estimatedValue,
+      jobSize: source.jobSize,
+      questionnaireAnswers: source.questionnaireAnswers ?? Prisma.DbNull,
+      status: options.status,
+      maxContractorsPerJob: maxContractors,
+      clonedFromJobId: source.id,
+      recurrenceId: options.recurrenceId ?? null,
+      firstRefusalContractorId: options.firstRefusalContractorId ?? null,
+      ...(flagForBadLeads && {
+        isFlagged: true,
+        flaggedAt: new Date(),
+        flagReason: `Customer has ${source.customer.badLeadCount} approved lead quality claims`,
+      }),
+      attachments: {
+        create: source.attachments.map((attachment) => ({
+          kind: attachment.kind,
+          url: attachment.url,
+          publicId: attachment.publicId,
+          fileName: attachment.fileName,
+          mimeType: attachment.mimeType,
+          bytes: attachment.bytes,
+          width: attachment.width,
+          height: attachment.height,
+          uploadedById: attachment.uploadedById,
+        })),
+      },
+    },
+    include: {
+      service: { select: { id: true, name: true, category: true } },
+      attachments: true,
+    },
+  });
+
+  await recordInitialJobStatus(job.id, job.status, options.actor);
+  return job;
+}
+
+/**
+ * Tell contractors about a job that has just gone live. Jobs from a series with first
+ * refusal go to the previous winner alone; everyone else hears once it is released.
+ */
+export async function openJobToContractors(jobId: string) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    include: {
+      service: { select: { id: true, name: true, category: true } },
+      recurrence: { select: { firstRefusalHours: true } },
+    },
+  });
+  if (!job) {
+    return;
+  }
+
+  const firstRefusalHours = job.recurrence?.firstRefusalHours ?? 0;
+  if (!job.firstRefusalContractorId || firstRefusalHours <= 0) {
+    await announceJobToContractors(job);
+    return;
+  }
+
+  const firstRefusalUntil = new Date(Date.now() + firstRefusalHours * HOUR_MS);
+  await prisma.job.update({ where: { id: job.id }, data: { firstRefusalUntil } });
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { id: job.firstRefusalContractorId },
+    select: { userId: true },
+  });
+  if (contractor) {
+    await createNotification({
+      userId: contractor.userId,
+      title: 'Repeat Job - First Refusal',
+      message: `A customer you worked for has posted "${job.title}" again. It's yours to take for the next ${firstRefusalHours} hours before other contractors see it.`,
+      type: 'INFO',
+      actionLink: `/dashboard/contractor/jobs/${job.id}`,
+      actionText: 'View Job',
+      metadata: { jobId: job.id, firstRefusalUntil: firstRefusalUntil.toISOString() },
+    });
+  }
+}
+
+/**
+ * End a first-refusal window early or on time and announce the job to everyone.
+ */
+export async function releaseFirstRefusal(jobId: string) {
+  const released = await prisma.job.updateMany({
+    where: { id: jobId, firstRefusalUntil: { not: null } },
+    data: { firstRefusalUntil: null },
+  });
+  if (released.count === 0) {
+    return false;
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    include: { service: { select: { id: true, name: true, category: true } } },
+  });
+  if (job && job.status === 'POSTED') {
+    await announceJobToContractors(job);
+  }
+  return true;
+}
+
+// Most recent contractor to win a job in the series
+async function getPreviousWinner(recurrenceId: string) {
+  const lastWon = await prisma.job.findFirst({
+    where: { recurrenceId, wonByContractorId: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    select: { wonByContractorId: true },
+  });
+  return lastWon?.wonByContractorId ?? null;
+}
+
+async function createNextOccurrence(recurrence: Prisma.JobRecurrenceGetPayload<{ include: { customer: { select: { userId: true } } } }>) {
+  const latest = await prisma.job.findFirst({
+    where: { recurrenceId: recurrence.id },
+    orderBy: { createdAt: 'desc' },
+    include: { service: { select: { questionnaire: true } } },
+  });
+  if (!latest) {
+    // Every job in the series was deleted - nothing left to copy
+    await prisma.jobRecurrence.update({ where: { id: recurrence.id }, data: { isActive: false } });
+    return null;
+  }
+
+  // Questionnaires can gain required questions; such occurrences wait as drafts for the customer
+  let canPost = recurrence.autoPost;
+  if (canPost) {
+    try {
+      validateQuestionnaireAnswers(getServiceQuestions(latest.service.questionnaire), latest.questionnaireAnswers, { requireAll: true });
+    } catch {
+      canPost = false;
+    }
+  }
+
+  const job = await cloneJob(latest.id, {
+    status: canPost ? 'POSTED' : 'DRAFT',
+    actor: SYSTEM_ACTOR,
+    recurrenceId: recurrence.id,
+    firstRefusalContractorId: recurrence.firstRefusalHours > 0 ? await getPreviousWinner(recurrence.id) : null,
+  });
+
+  if (canPost) {
+    await openJobToContractors(job.id);
+  }
+
+  await createNotification({
+    userId: recurrence.customer.userId,
+    title: canPost ? 'Recurring Job Posted' : 'Recurring Job Ready',
+    message: canPost
+      ? `Your recurring job "${job.title}" has been posted.`
+      : `Your recurring job "${job.title}" is ready as a draft - review it and publish when you're ready.`,
+    type: 'INFO',
+    actionLink: `/dashboard/client/jobs/${job.id}`,
+    actionText: canPost ? 'View Job' : 'Review Draft',
+    metadata: { jobId: job.id, recurrenceId: recurrence.id },
+  });
+
+  return job;
+}
+
+/**
+ * Create due occurrences of recurring jobs and release first-refusal windows that have
+ * run out. Run from the scheduler.
+ */
+export async function processRecurringJobs(): Promise<{ created: number; released: number }> {
+  const now = new Date();
+  let created = 0;
+  let released = 0;
+
+  const due = await prisma.jobRecurrence.findMany({
+    where: { isActive: true, nextRunAt: { lte: now } },
+    include: { customer: { select: { userId: true } } },
+    orderBy: { nextRunAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const recurrence of due) {
+    try {
+      if (recurrence.endsAt && recurrence.nextRunAt > recurrence.endsAt) {
+        await prisma.jobRecurrence.update({ where: { id: recurrence.id }, data: { isActive: false } });
+        continue;
+      }
+
+      const nextRunAt = getNextRunAt(recurrence.nextRunAt, recurrence.frequency, recurrence.interval, now);
+      const finished = !!recurrence.endsAt && nextRunAt > recurrence.endsAt;
+
+      // Move the schedule on first so an overlapping run can't create the same occurrence
+      const claimed = await prisma.jobRecurrence.updateMany({
+        where: { id: recurrence.id, nextRunAt: recurrence.nextRunAt, isActive: true },
+        data: { nextRunAt, lastRunAt: now, isActive: !finished, occurrenceCount: { increment: 1 } },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      if (await createNextOccurrence(recurrence)) {
+        created++;
+      }
+    } catch (error) {
+      console.error(`Failed to create next occurrence for recurrence ${recurrence.id}:`, error);
+    }
+  }
+
+  const expiredWindows = await prisma.job.findMany({
+    where: { firstRefusalUntil: { lte: now } },
+    select: { id: true },
+    take: BATCH_SIZE,
+  });
+  for (const job of expiredWindows) {
+    try {
+      if (await releaseFirstRefusal(job.id)) {
+        released++;
+      }
+    } catch (error) {
+      console.error(`Failed to release first refusal for job ${job.id}:`, error);
+    }
+  }
+
+  return { created, released };
+}
@@ -0,0 +1,299 @@
+import { JobStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { Pagination, PaginationMeta, buildPageResult } from '../utils/pagination';
+import { GeoPoint, distanceInMilesSql, roundDistance } from './geoService';
+import { firstRefusalVisibilityFilter } from './jobRecurrenceService';
+
+export const JOB_SORT_OPTIONS = ['relevance', 'newest', 'budget', 'distance'] as const;
+export type JobSortOption = (typeof JOB_SORT_OPTIONS)[number];
+
+export interface JobListingMatch {
+  id: string;
+  rank: number; // Search relevance, 0 without a search
+  distanceMiles: number | null; // From the contractor's base, null when unknown
+}
+
+export interface JobSearchHighlights {
+  title: string;
+  description: string;
+}
+
+/**
+ * What the public job listing is filtered by. The route builds this once; it's applied as a
+ * Prisma where for plain listings and in SQL for searches, so both paths show the same jobs.
+ */
+export interface JobListingFilters {
+  statuses: JobStatus[];
+  customerUserId?: string; // Only this customer's jobs (their drafts)
+  contractorId?: string; // A contractor's lead board: unwon, not bought by them, under the purchase cap
+  category?: string; // Service category
+  location?: string;
+  budgetMin?: number;
+  budgetMax?: number;
+  urgentOnly?: boolean;
+  boundingBox?: { minLatitude: number; maxLatitude: number; minLongitude: number; maxLongitude: number };
+  now?: Date;
+}
+
+// Sorts jobs with an unknown distance after every real one
+const UNKNOWN_DISTANCE_MILES = 1e6;
+
+// Placeholder markers survive HTML escaping and are swapped for <mark> afterwards
+const HIGHLIGHT_START = '{{hl}}';
+const HIGHLIGHT_END = '{{/hl}}';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+
+export function isJobSortOption(value: unknown): value is JobSortOption {
+  return typeof value === 'string' && (JOB_SORT_OPTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * The order a listing is actually shown in. With no sort given: relevance when searching,
+ * distance when the contractor's base is known, otherwise urgent jobs first then newest
+ * (undefined). Relevance and distance fall back to that default when they can't apply.
+ */
+export function resolveJobSort(
+  sort: JobSortOption | undefined,
+  context: { searching: boolean; hasBase: boolean }
+): JobSortOption | undefined {
+  const effective = sort ?? (context.searching ? 'relevance' : context.hasBase ? 'distance' : undefined);
+  if ((effective === 'relevance' && !context.searching) || (effective === 'distance' && !context.hasBase)) {
+    return undefined;
+  }
+  return effective;
+}
+
+/**
+ * The listing filters as a Prisma where. The purchase cap can't be expressed here (it compares
+ * a count with a column), so callers drop capped jobs from contractors' results themselves.
+ */
+export function buildJobListingWhere(filters: JobListingFilters): Prisma.JobWhereInput {
+  const and: Prisma.JobWhereInput[] = [firstRefusalVisibilityFilter(filters.contractorId ?? null, filters.now)];
+
+  // Jobs without stored coordinates are kept; their distance is worked out from the postcode
+  if (filters.boundingBox) {
+    const box = filters.boundingBox;
+    and.push({
+      OR: [
+        { latitude: null },
+        {
+          latitude: { gte: box.minLatitude, lte: box.maxLatitude },
+          longitude: { gte: box.minLongitude, lte: box.maxLongitude },
+        },
+      ],
+    });
+  }
+
+  return {
+    status: { in: filters.statuses },
+    ...(filters.customerUserId && { customer: { userId: filters.customerUserId } }),
+    ...(filters.contractorId && {
+      wonByContractorId: null,
+      jobAccess: { none: { contractorId: filters.contractorId } },
+    }),
+    ...(filters.category && { service: { category: filters.category } }),
+    ...(filters.location && { location: { contains: filters.location, mode: 'insensitive' as const } }),
+    ...((filters.budgetMin || filters.budgetMax) && {
+      budget: {
+        ...(filters.budgetMin && { gte: filters.budgetMin }),
+        ...(filters.budgetMax && { lte: filters.budgetMax }),
+      },
+    }),
+    ...(filters.urgentOnly && { isUrgent: true }),
+    AND: and,
+  };
+}
+
+// LIKE treats % and _ as wildcards; Prisma's `contains` matches them literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+/**
+ * The listing filters as a SQL condition over jobs `j` joined to services `s`.
+ */
+export function buildJobListingSql(filters: JobListingFilters): Prisma.Sql {
+  const now = filters.now ?? new Date();
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`j."status"::text IN (${Prisma.join(filters.statuses)})`,
+    filters.contractorId
+      ? Prisma.sql`(j."firstRefusalUntil" IS NULL OR j."firstRefusalUntil" <= ${now} OR j."firstRefusalContractorId" = ${filters.contractorId})`
+      : Prisma.sql`(j."firstRefusalUntil" IS NULL OR j."firstRefusalUntil" <= ${now})`,
+  ];
+
+  if (filters.customerUserId) {
+    conditions.push(Prisma.sql`j."customerId" IN (SELECT c."id" FROM "customers" c WHERE c."userId" = ${filters.customerUserId})`);
+  }
+  if (filters.contractorId) {
+    conditions.push(
+      Prisma.sql`j."wonByContractorId" IS NULL`,
+      Prisma.sql`NOT EXISTS (SELECT 1 FROM "job_access" a WHERE a."jobId" = j."id" AND a."contractorId" = ${filters.contractorId})`,
+      Prisma.sql`(SELECT count(*) FROM "job_access" a WHERE a."jobId" = j."id") < j."maxContractorsPerJob"`
+    );
+  }
+  if (filters.category) {
+    conditions.push(Prisma.sql`s."category" = ${filters.category}`);
+  }
+  if (filters.location) {
+    conditions.push(Prisma.sql`j."location" ILIKE ${`%${escapeLike(filters.location)}%`}`);
+  }
+  if (filters.budgetMin) {
+    conditions.push(Prisma.sql`j."budget" >= ${filters.budgetMin}`);
+  }
+  if (filters.budgetMax) {
+    conditions.push(Prisma.sql`j."budget" <= ${filters.budgetMax}`);
+  }
+  if (filters.urgentOnly) {
+    conditions.push(Prisma.sql`j."isUrgent" = true`);
+  }
+  if (filters.boundingBox) {
+    const box = filters.boundingBox;
+    conditions.push(
+      Prisma.sql`(j."latitude" IS NULL OR (j."latitude" BETWEEN ${box.minLatitude} AND ${box.maxLatitude} AND j."longitude" BETWEEN ${box.minLongitude} AND ${box.maxLongitude}))`
+    );
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Distance in miles from `origin` to a job's stored coordinates; NULL when the job has none.
+ */
+function jobDistanceSql(origin: GeoPoint): Prisma.Sql {
+  return distanceInMilesSql(
+    { latitude: Prisma.sql`${origin.latitude}::float8`, longitude: Prisma.sql`${origin.longitude}::float8` },
+    { latitude: Prisma.sql`j."latitude"`, longitude: Prisma.sql`j."longitude"` }
+  );
+}
+
+/**
+ * Query the job listing in SQL: filtering, full-text search, the contractor's travel radius,
+ * ordering and pagination all happen in the database, so every matching job is reachable
+ * however many others there are.
+ *
+ * - `search` uses the tsvector indexes on jobs and services and accepts web-search syntax
+ *   ("quoted phrases", OR, -exclude).
+ * - `origin` works out each job's distance, drops jobs outside the radius and enables the
+ *   distance sort. Jobs without coordinates have an unknown distance: they're kept, and
+ *   listed last when sorting by distance.
+ */
+export async function queryJobListing(params: {
+  search?: string;
+  origin?: { point: GeoPoint; radiusMiles: number };
+  filters: JobListingFilters;
+  sort: JobSortOption | undefined;
+  pagination: Pagination;
+}): Promise<{ matches: JobListingMatch[]; pagination: PaginationMeta }> {
+  const { search, origin } = params;
+  const rank = search
+    ? Prisma.sql`ts_rank_cd(j."searchVector" || coalesce(s."searchVector", ''::tsvector), q)::float8`
+    : Prisma.sql`0::float8`;
+  const distance = origin ? jobDistanceSql(origin.point) : Prisma.sql`NULL::float8`;
+
+  // Every order is descending on (sortKey, createdAt, id), which keeps cursor pages a simple row comparison
+  const sortKey =
+    params.sort === 'relevance' && search
+      ? rank
+      : params.sort === 'distance' && origin
+        ? Prisma.sql`-coalesce(${distance}, ${UNKNOWN_DISTANCE_MILES})`
+        : params.sort === 'budget'
+          ? Prisma.sql`coalesce(j."budget", -1)::float8`
+          : params.sort === 'newest'
+            ? Prisma.sql`0::float8`
+            : Prisma.sql`(CASE WHEN j."isUrgent" THEN 1 ELSE 0 END)::float8`;
+
+  const conditions = [buildJobListingSql(params.filters)];
+  if (search) {
+    conditions.push(Prisma.sql`(j."searchVector" @@ q OR s."searchVector" @@ q)`);
+  }
+  if (origin) {
+    conditions.push(Prisma.sql`(${distance} IS NULL OR ${distance} <= ${origin.radiusMiles})`);
+  }
+
+  const matching = Prisma.sql`
+    FROM "jobs" j
+    JOIN "services" s ON s."id" = j."serviceId"
+    ${search ? Prisma.sql`CROSS JOIN websearch_to_tsquery('english', ${search}) q` : Prisma.empty}
+    WHERE ${Prisma.join(conditions, ' AND ')}
+  `;
+
+  const pagination = params.pagination;
+  // A cursor page starts at the cursor row itself, so a cursor that dropped out of the results is noticed
+  const cursor = pagination.mode === 'cursor' ? pagination.cursor : null;
+  const page =
+    pagination.mode === 'page'
+      ? Prisma.sql`LIMIT ${pagination.limit} OFFSET ${pagination.skip}`
+      : Prisma.sql`LIMIT ${pagination.limit + (cursor ? 2 : 1)}`;
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; rank: number; distanceMiles: number | null }>>`
+    WITH candidates AS (
+      SELECT j."id", ${rank} AS "rank", ${distance} AS "distanceMiles", ${sortKey} AS "sortKey", j."createdAt"
+      ${matching}
+    )
+    SELECT "id", "rank", "distanceMiles" FROM candidates
+    ${cursor ? Prisma.sql`WHERE ("sortKey", "createdAt", "id") <= (SELECT "sortKey", "createdAt", "id" FROM candidates WHERE "id" = ${cursor})` : Prisma.empty}
+    ORDER BY "sortKey" DESC, "createdAt" DESC, "id" DESC
+    ${page}
+  `;
+
+  let matches = rows.map((row) => ({
+    id: row.id,
+    rank: Number(row.rank),
+    distanceMiles: row.distanceMiles === null ? null : roundDistance(Number(row.distanceMiles)),
+  }));
+
+  if (cursor) {
+    if (matches[0]?.id !== cursor) {
+      throw new AppError('Pagination cursor has expired, please reload the list', 400);
+    }
+    matches = matches.slice(1);
+  }
+
+  let total: number | undefined;
+  if (pagination.mode === 'page') {
+    const [{ count }] = await prisma.$queryRaw<Array<{ count: number }>>`SELECT count(*)::int AS "count" ${matching}`;
+    total = Number(count);
+  }
+
+  const result = buildPageResult(matches, pagination, total);
+  return { matches: result.items, pagination: result.pagination };
+}
+
+/**
+ * Build highlighted title/description snippets for a page of search results.
+ * Text is HTML-escaped; matched terms are wrapped in <mark> tags.
+ */
+export async function getSearchHighlights(search: string, jobIds: string[]): Promise<Map<string, JobSearchHighlights>> {
+  if (jobIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; title: string; description: string }>>`
+    SELECT j."id",
+      ts_headline('english', j."title", q, ${`${HEADLINE_OPTIONS}, HighlightAll=true`}) AS "title",
+      ts_headline('english', j."description", q, ${`${HEADLINE_OPTIONS}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`}) AS "description"
+    FROM "jobs" j
+    CROSS JOIN websearch_to_tsquery('english', ${search}) q
+    WHERE j."id" IN (${Prisma.join(jobIds)})
+  `;
+
+  return new Map(
+    rows.map((row) => [
+      row.id,
+      { title: formatHighlight(row.title), description: formatHighlight(row.description) },
+    ])
+  );
+}
+
+/**
+ * Escape a ts_headline result for safe HTML rendering and turn the markers into <mark> tags.
+ */
+export function formatHighlight(headline: string): string {
+  return headline
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+}
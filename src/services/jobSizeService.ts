@@ -0,0 +1,116 @@
+import { JobSize, Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Rule-based job size classification.
+ *
+ * Lead prices are set per job size, so the size should follow what the job is worth
+ * rather than whatever the customer picked. Each Service stores two thresholds:
+ * values up to smallJobMaxValue are SMALL, up to mediumJobMaxValue MEDIUM, and
+ * anything above LARGE. The value used is the job's estimatedValue when known,
+ * otherwise its budget.
+ *
+ * Jobs with neither keep the size the customer chose (MEDIUM by default), and jobs an
+ * admin has overridden (jobSizeOverriddenAt set) are never reclassified.
+ */
+
+type DecimalLike = Prisma.Decimal | number | string;
+
+export interface JobSizeThresholds {
+  smallJobMaxValue: DecimalLike;
+  mediumJobMaxValue: DecimalLike;
+}
+
+export interface JobSizeInput {
+  estimatedValue?: DecimalLike | null;
+  budget?: DecimalLike | null;
+}
+
+export interface JobSizeClassification {
+  jobSize: JobSize;
+  value: number | null;
+  basis: 'estimatedValue' | 'budget' | null;
+}
+
+export const JOB_SIZES = Object.values(JobSize) as JobSize[];
+
+// Matches the Service column defaults in schema.prisma
+export const DEFAULT_JOB_SIZE_THRESHOLDS: JobSizeThresholds = {
+  smallJobMaxValue: 500,
+  mediumJobMaxValue: 3000,
+};
+
+export function isJobSize(value: unknown): value is JobSize {
+  return typeof value === 'string' && JOB_SIZES.includes(value as JobSize);
+}
+
+function toPositiveNumber(value: DecimalLike | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : null;
+}
+
+/**
+ * Size band for a job value under the given thresholds.
+ */
+export function classifyJobSize(value: number, thresholds: JobSizeThresholds): JobSize {
+  if (value <= Number(thresholds.smallJobMaxValue)) {
+    return 'SMALL';
+  }
+  if (value <= Number(thresholds.mediumJobMaxValue)) {
+    return 'MEDIUM';
+  }
+  return 'LARGE';
+}
+
+/**
+ * Classify a job from its estimated value or budget. Falls back to `fallback` when the
+ * job has no usable value.
+ */
+export function resolveJobSize(
+  job: JobSizeInput,
+  thresholds: JobSizeThresholds,
+  fallback: JobSize = 'MEDIUM'
+): JobSizeClassification {
+  const estimatedValue = toPositiveNumber(job.estimatedValue);
+  if (estimatedValue !== null) {
+    return { jobSize: classifyJobSize(estimatedValue, thresholds), value: estimatedValue, basis: 'estimatedValue' };
+  }
+
+  const budget = toPositiveNumber(job.budget);
+  if (budget !== null) {
+    return { jobSize: classifyJobSize(budget, thresholds), value: budget, basis: 'budget' };
+  }
+
+  return { jobSize: fallback, value: null, basis: null };
+}
+
+/**
+ * Validate thresholds submitted by an admin. Only the keys present are checked against
+ * `current`, so a PATCH can change one threshold at a time.
+ */
+export function parseJobSizeThresholds(
+  input: { smallJobMaxValue?: unknown; mediumJobMaxValue?: unknown },
+  current?: JobSizeThresholds
+): Partial<{ smallJobMaxValue: number; mediumJobMaxValue: number }> {
+  const parsed: Partial<{ smallJobMaxValue: number; mediumJobMaxValue: number }> = {};
+
+  for (const key of ['smallJobMaxValue', 'mediumJobMaxValue'] as const) {
+    if (input[key] === undefined) continue;
+    const value = toPositiveNumber(input[key] as DecimalLike);
+    if (value === null) {
+      throw new AppError(`${key} must be a positive number`, 400);
+    }
+    parsed[key] = value;
+  }
+
+  const small = parsed.smallJobMaxValue ?? (current ? Number(current.smallJobMaxValue) : undefined);
+  const medium = parsed.mediumJobMaxValue ?? (current ? Number(current.mediumJobMaxValue) : undefined);
+  if (small !== undefined && medium !== undefined && small >= medium) {
+    throw new AppError('smallJobMaxValue must be lower than mediumJobMaxValue', 400);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,365 @@
+import { Job, JobStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { processCommissionForJob } from './commissionService';
+import { releaseJobEscrows } from './escrowService';
+import { createNotification } from './notificationService';
+
+/**
+ * Job lifecycle state machine.
+ *
+ * Every JobStatus change goes through transitionJobStatus (or applyJobTransition
+ * inside an existing transaction). It checks the transition table below, runs the
+ * guard for the target state, writes the change and a JobStatusHistory row in one
+ * transaction, then runs the declared side effects. Illegal transitions are
+ * rejected with a 409.
+ *
+ * Ownership checks ("is this the job's customer?") stay in the route handlers -
+ * the table only says which kind of actor may make a transition.
+ */
+
+export type JobActorRole = 'CUSTOMER' | 'CONTRACTOR' | 'ADMIN' | 'SYSTEM';
+
+export interface JobActor {
+  role: JobActorRole;
+  id?: string | null; // User ID, or Admin ID for admin-panel actions
+}
+
+export const SYSTEM_ACTOR: JobActor = { role: 'SYSTEM' };
+
+type JobTransitionEffect = 'commission' | 'escrow';
+
+// Fields guards may look at, after the update's own data has been applied
+type JobGuardState = Pick<Job, 'status' | 'wonByContractorId' | 'contractorProposedAmount'>;
+
+interface JobTransitionRule {
+  roles: JobActorRole[];
+  guard?: (job: JobGuardState) => string | null;
+  effects?: JobTransitionEffect[];
+}
+
+const requiresContractor = (job: JobGuardState) =>
+  job.wonByContractorId ? null : 'a contractor must be selected first';
+
+const requiresProposedPrice = (job: JobGuardState) =>
+  job.contractorProposedAmount ? null : 'the contractor has not proposed a final price';
+
+const ADMIN_ONLY: JobActorRole[] = ['ADMIN'];
+const ADMIN_OR_SYSTEM: JobActorRole[] = ['ADMIN', 'SYSTEM'];
+const EITHER_PARTY: JobActorRole[] = ['CUSTOMER', 'CONTRACTOR', 'ADMIN'];
+
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, Partial<Record<JobStatus, JobTransitionRule>>> = {
+  DRAFT: {
+    POSTED: { roles: ['CUSTOMER', 'ADMIN'] },
+    CANCELLED: { roles: ['CUSTOMER', 'ADMIN'] },
+  },
+  POSTED: {
+    IN_PROGRESS: { roles: EITHER_PARTY, guard: requiresContractor },
+    CANCELLED: { roles: ['CUSTOMER', 'ADMIN'] },
+    DRAFT: { roles: ADMIN_ONLY },
+    EXPIRED: { roles: ADMIN_OR_SYSTEM },
+  },
+  // WON is deprecated - kept so legacy rows can still move forward
+  WON: {
+    IN_PROGRESS: { roles: EITHER_PARTY, guard: requiresContractor },
+    POSTED: { roles: ADMIN_ONLY },
+    CANCELLED: { roles: ADMIN_ONLY },
+  },
+  IN_PROGRESS: {
+    AWAITING_FINAL_PRICE_CONFIRMATION: { roles: ['CONTRACTOR', 'ADMIN'], guard: requiresProposedPrice },
+    COMPLETED: { roles: ['CONTRACTOR', 'ADMIN', 'SYSTEM'] },
+    DISPUTED: { roles: EITHER_PARTY },
+    POSTED: { roles: ADMIN_ONLY },
+    CANCELLED: { roles: ADMIN_ONLY },
+  },
+  AWAITING_FINAL_PRICE_CONFIRMATION: {
+    // Final price agreed (customer, admin override or timeout) - commission becomes due
+    COMPLETED: { roles: ['CUSTOMER', 'ADMIN', 'SYSTEM'], effects: ['commission', 'escrow'] },
+    IN_PROGRESS: { roles: ['CUSTOMER', 'ADMIN', 'SYSTEM'] },
+    DISPUTED: { roles: EITHER_PARTY },
+    CANCELLED: { roles: ADMIN_ONLY },
+  },
+  COMPLETED: {
+    DISPUTED: { roles: EITHER_PARTY },
+    IN_PROGRESS: { roles: ADMIN_OR_SYSTEM },
+  },
+  DISPUTED: {
+    IN_PROGRESS: { roles: ADMIN_OR_SYSTEM },
+    AWAITING_FINAL_PRICE_CONFIRMATION: { roles: ADMIN_OR_SYSTEM, guard: requiresProposedPrice },
+    COMPLETED: { roles: ADMIN_OR_SYSTEM },
+    CANCELLED: { roles: ADMIN_OR_SYSTEM },
+  },
+  CANCELLED: {
+    POSTED: { roles: ADMIN_ONLY },
+  },
+  // Listing ran out without any contractor buying access - the customer can re-list it
+  EXPIRED: {
+    POSTED: { roles: ['CUSTOMER', 'ADMIN'] },
+    CANCELLED: { roles: ['CUSTOMER', 'ADMIN'] },
+  },
+};
+
+/**
+ * Map an authenticated user to a job actor. SUPER_ADMIN acts as ADMIN.
+ */
+export function jobActorFromUser(user: { id: string; role: string }): JobActor {
+  const role = user.role === 'SUPER_ADMIN' ? 'ADMIN' : (user.role as JobActorRole);
+  return { role, id: user.id };
+}
+
+export function formatJobStatus(status: JobStatus): string {
+  return status.toLowerCase().replace(/_/g, ' ');
+}
+
+/**
+ * Statuses the given actor may move a job to from its current status.
+ */
+export function getAllowedTransitions(from: JobStatus, role: JobActorRole): JobStatus[] {
+  return (Object.entries(JOB_STATUS_TRANSITIONS[from]) as Array<[JobStatus, JobTransitionRule]>)
+    .filter(([, rule]) => rule.roles.includes(role))
+    .map(([to]) => to);
+}
+
+/**
+ * Check a transition without touching the database. Returns the reason it is not
+ * allowed, or null when it is.
+ */
+export function validateJobTransition(job: JobGuardState, to: JobStatus, actor: JobActor): string | null {
+  const rule = JOB_STATUS_TRANSITIONS[job.status][to];
+  if (!rule) {
+    return `Cannot change job status from ${formatJobStatus(job.status)} to ${formatJobStatus(to)}`;
+  }
+
+  if (!rule.roles.includes(actor.role)) {
+    return `A ${actor.role.toLowerCase()} cannot change job status from ${formatJobStatus(job.status)} to ${formatJobStatus(to)}`;
+  }
+
+  const blocked = rule.guard?.(job);
+  if (blocked) {
+    return `Cannot change job status to ${formatJobStatus(to)}: ${blocked}`;
+  }
+
+  return null;
+}
+
+/**
+ * Throw a 409 AppError unless the transition is allowed. Handlers call this before
+ * doing any other work so an illegal request fails fast with a consistent error.
+ */
+export function assertJobTransition(job: JobGuardState, to: JobStatus, actor: JobActor): void {
+  const error = validateJobTransition(job, to, actor);
+  if (error) {
+    throw new AppError(error, 409);
+  }
+}
+
+export interface JobTransitionOptions<I extends Prisma.JobInclude> {
+  jobId: string;
+  to: JobStatus;
+  actor: JobActor;
+  data?: Omit<Prisma.JobUncheckedUpdateInput, 'status'>; // Extra fields written atomically with the status
+  include?: I;
+  reason?: string | null;
+  metadata?: Prisma.InputJsonValue;
+  notify?: boolean; // Set false when the caller sends its own notification for an admin action
+}
+
+export interface AppliedJobTransition<I extends Prisma.JobInclude> {
+  job: Prisma.JobGetPayload<{ include: I }>;
+  from: JobStatus;
+  to: JobStatus;
+  actor: JobActor;
+  effects: JobTransitionEffect[];
+  reason?: string | null;
+  notify: boolean;
+}
+
+/**
+ * Validate and apply a transition inside an existing transaction. Side effects are
+ * not run - call runJobTransitionEffects once the transaction has committed.
+ * Keeping the current status unchanged is allowed and only applies `data`.
+ */
+export async function applyJobTransition<I extends Prisma.JobInclude = {}>(
+  tx: Prisma.TransactionClient,
+  options: JobTransitionOptions<I>
+): Promise<AppliedJobTransition<I>> {
+  const current = await tx.job.findUnique({
+    where: { id: options.jobId },
+    select: { status: true, wonByContractorId: true, contractorProposedAmount: true },
+  });
+
+  if (!current) {
+    throw new AppError('Job not found', 404);
+  }
+
+  const isTransition = current.status !== options.to;
+  if (isTransition) {
+    // Guards see the job as it will be after this update (e.g. winner set in the same call)
+    const data = (options.data || {}) as Record<string, unknown>;
+    assertJobTransition(
+      {
+        status: current.status,
+        wonByContractorId: 'wonByContractorId' in data ? (data.wonByContractorId as string | null) : current.wonByContractorId,
+        contractorProposedAmount: 'contractorProposedAmount' in data
+          ? (data.contractorProposedAmount as Prisma.Decimal | null)
+          : current.contractorProposedAmount,
+      },
+      options.to,
+      options.actor
+    );
+  }
+
+  let job: Prisma.JobGetPayload<{ include: I }>;
+  try {
+    // Matching on the status we validated against rejects concurrent transitions
+    job = (await tx.job.update({
+      where: { id: options.jobId, status: current.status },
+      data: { ...options.data, status: options.to },
+      include: options.include,
+    })) as unknown as Prisma.JobGetPayload<{ include: I }>;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      throw new AppError('Job status changed while this request was being processed. Please refresh and try again.', 409);
+    }
+    throw error;
+  }
+
+  if (isTransition) {
+    await tx.jobStatusHistory.create({
+      data: {
+        jobId: options.jobId,
+        fromStatus: current.status,
+        toStatus: options.to,
+        actorRole: options.actor.role,
+        actorId: options.actor.id ?? null,
+        reason: options.reason ?? null,
+        metadata: options.metadata,
+      },
+    });
+  }
+
+  return {
+    job,
+    from: current.status,
+    to: options.to,
+    actor: options.actor,
+    effects: isTransition ? JOB_STATUS_TRANSITIONS[current.status][options.to]?.effects || [] : [],
+    reason: options.reason,
+    notify: isTransition && options.notify !== false,
+  };
+}
+
+/**
+ * Run the side effects of a committed transition. Failures are logged rather than
+ * thrown - the status change itself has already succeeded.
+ *
+ * - commission: raise the commission for the agreed final price
+ * - escrow: pay out anything held for the job, less the commission just raised. A Stripe
+ *   failure leaves the funds held and alerts the admins
+ * - admin and system changes notify the customer and the assigned contractor, since
+ *   neither party triggered them
+ */
+export async function runJobTransitionEffects(transition: AppliedJobTransition<any>): Promise<void> {
+  const jobId: string = transition.job.id;
+
+  if (transition.effects.includes('commission')) {
+    try {
+      const job = await prisma.job.findUnique({
+        where: { id: jobId },
+        select: { finalAmount: true, contractorProposedAmount: true, commissionPaid: true },
+      });
+      const amount = job?.finalAmount ?? job?.contractorProposedAmount;
+      if (job && amount && !job.commissionPaid) {
+        await processCommissionForJob(jobId, Number(amount));
+      }
+    } catch (error) {
+      console.error(`[job-status] Commission processing failed for job ${jobId}:`, error);
+    }
+  }
+
+  if (transition.effects.includes('escrow')) {
+    try {
+      await releaseJobEscrows(jobId);
+    } catch (error) {
+      console.error(`[job-status] Failed to release held funds for job ${jobId}:`, error);
+    }
+  }
+
+  if (transition.notify && (transition.actor.role === 'ADMIN' || transition.actor.role === 'SYSTEM')) {
+    try {
+      const job = await prisma.job.findUnique({
+        where: { id: jobId },
+        select: {
+          title: true,
+          customer: { select: { userId: true } },
+          wonByContractor: { select: { userId: true } },
+        },
+      });
+      if (!job) {
+        return;
+      }
+
+      const changedBy = transition.actor.role === 'ADMIN' ? 'An administrator' : 'TrustBuild';
+      const message =
+        `${changedBy} changed the status of "${job.title}" from ${formatJobStatus(transition.from)} to ${formatJobStatus(transition.to)}.` +
+        (transition.reason ? ` Reason: ${transition.reason}` : '');
+
+      const recipients = [
+        { userId: job.customer.userId, actionLink: `/dashboard/client/jobs/${jobId}` },
+        ...(job.wonByContractor
+          ? [{ userId: job.wonByContractor.userId, actionLink: `/dashboard/contractor/jobs/${jobId}` }]
+          : []),
+      ];
+
+      await Promise.all(
+        recipients.map((recipient) =>
+          createNotification({
+            userId: recipient.userId,
+            title: 'Job Status Updated',
+            message,
+            type: 'JOB_STATUS_CHANGED',
+            actionLink: recipient.actionLink,
+            actionText: 'View Job',
+            metadata: { jobId, fromStatus: transition.from, toStatus: transition.to },
+          })
+        )
+      );
+    } catch (error) {
+      console.error(`[job-status] Failed to notify parties for job ${jobId}:`, error);
+    }
+  }
+}
+
+/**
+ * Validate, apply and record a job status transition in its own transaction, then
+ * run its side effects. Returns the updated job with `include` applied.
+ */
+export async function transitionJobStatus<I extends Prisma.JobInclude = {}>(
+  options: JobTransitionOptions<I>
+): Promise<Prisma.JobGetPayload<{ include: I }>> {
+  const transition = await prisma.$transaction((tx) => applyJobTransition(tx, options));
+  await runJobTransitionEffects(transition);
+  return transition.job;
+}
+
+/**
+ * Record the status a job was created with, so its history starts at creation.
+ */
+export async function recordInitialJobStatus(jobId: string, status: JobStatus, actor: JobActor): Promise<void> {
+  await prisma.jobStatusHistory.create({
+    data: {
+      jobId,
+      fromStatus: null,
+      toStatus: status,
+      actorRole: actor.role,
+      actorId: actor.id ?? null,
+    },
+  });
+}
+
+export async function getJobStatusHistory(jobId: string) {
+  return prisma.jobStatusHistory.findMany({
+    where: { jobId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
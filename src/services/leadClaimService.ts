@@ -0,0 +1,344 @@
+import Stripe from 'stripe';
+import { LeadClaimReason, LeadClaimRemedy, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getStripeClient } from '../config/stripe';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+import { notifyAllAdmins } from './adminNotificationService';
+import { getLeadClaimSettings } from './settingsService';
+import { recordCreditTransaction, recordPaymentRefunded } from './ledgerService';
+
+/**
+ * Lead-quality claims.
+ *
+ * A contractor who bought a lead that turned out to be bad (fake number, customer never
+ * answers, job already done...) can claim within a window after JobAccess.accessedAt.
+ * Admins review claims from a queue. Approving one either restores the lead access
+ * credit or refunds the card payment linked to the JobAccess, and counts against the
+ * customer: once they reach the flag threshold their open jobs are flagged for review.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const LEAD_CLAIM_REASONS = Object.values(LeadClaimReason) as LeadClaimReason[];
+export const LEAD_CLAIM_REMEDIES = Object.values(LeadClaimRemedy) as LeadClaimRemedy[];
+
+// Jobs still open to contractors - the ones worth flagging when a customer keeps producing bad leads
+const OPEN_JOB_STATUSES: Prisma.JobWhereInput['status'] = { in: ['DRAFT', 'POSTED'] };
+
+/**
+ * Latest time a claim can be raised for a purchase made at `accessedAt`.
+ */
+export function getClaimDeadline(accessedAt: Date, windowHours: number): Date {
+  return new Date(accessedAt.getTime() + windowHours * HOUR_MS);
+}
+
+/**
+ * How a claim is put right when the admin doesn't choose: credit purchases get their
+ * credit back, card purchases are refunded.
+ */
+export function getDefaultRemedy(jobAccess: { creditUsed: boolean }): LeadClaimRemedy {
+  return jobAccess.creditUsed ? 'CREDIT' : 'STRIPE_REFUND';
+}
+
+/**
+ * Raise a claim against a lead the contractor bought.
+ */
+export async function createLeadClaim(data: {
+  jobId: string;
+  contractorId: string;
+  reason: string;
+  description: string;
+  evidenceUrls?: string[];
+}) {
+  if (!LEAD_CLAIM_REASONS.includes(data.reason as LeadClaimReason)) {
+    throw new AppError(`Invalid reason. Use one of: ${LEAD_CLAIM_REASONS.join(', ')}`, 400);
+  }
+  if (!data.description || !data.description.trim()) {
+    throw new AppError('Please describe the problem with this lead', 400);
+  }
+
+  const jobAccess = await prisma.jobAccess.findUnique({
+    where: { jobId_contractorId: { jobId: data.jobId, contractorId: data.contractorId } },
+    include: {
+      qualityClaim: { select: { id: true, status: true } },
+      job: { select: { id: true, title: true, customerId: true } },
+      contractor: { include: { user: { select: { name: true } } } },
+    },
+  });
+
+  if (!jobAccess) {
+    throw new AppError('You have not purchased access to this job', 404);
+  }
+  if (jobAccess.qualityClaim) {
+    throw new AppError('A claim has already been raised for this lead', 409);
+  }
+
+  const { windowHours } = await getLeadClaimSettings();
+  const deadline = getClaimDeadline(jobAccess.accessedAt, windowHours);
+  if (new Date() > deadline) {
+    throw new AppError(`Lead claims must be raised within ${windowHours} hours of purchase`, 400);
+  }
+
+  const claim = await prisma.leadQualityClaim.create({
+    data: {
+      jobAccessId: jobAccess.id,
+      jobId: jobAccess.jobId,
+      contractorId: jobAccess.contractorId,
+      customerId: jobAccess.job.customerId,
+      reason: data.reason as LeadClaimReason,
+      description: data.description.trim(),
+      evidenceUrls: data.evidenceUrls && data.evidenceUrls.length > 0 ? data.evidenceUrls : undefined,
+    },
+  });
+
+  await notifyAllAdmins({
+    title: 'New Lead Quality Claim',
+    message: `${jobAccess.contractor.businessName || jobAccess.contractor.user.name} reported a bad lead (${data.reason}) for job: ${jobAccess.job.title}`,
+    type: 'WARNING',
+    actionLink: `/admin/lead-claims?claimId=${claim.id}`,
+    actionText: 'Review Claim',
+    metadata: { claimId: claim.id, jobId: jobAccess.jobId, action: 'LEAD_CLAIM_CREATED' },
+  });
+
+  return claim;
+}
+
+/**
+ * Count an approved claim against the customer and flag their jobs for review: the
+ * claimed job always, and every open job once the customer reaches the flag threshold.
+ */
+async function recordBadLead(
+  tx: Prisma.TransactionClient,
+  claim: { id: string; jobId: string; customerId: string; reason: LeadClaimReason },
+  adminId: string
+) {
+  const { flagThreshold } = await getLeadClaimSettings();
+  const now = new Date();
+
+  const customer = await tx.customer.update({
+    where: { id: claim.customerId },
+    data: { badLeadCount: { increment: 1 }, lastBadLeadAt: now },
+    select: { badLeadCount: true },
+  });
+
+  await tx.job.updateMany({
+    where: { id: claim.jobId, isFlagged: false },
+    data: {
+      isFlagged: true,
+      flaggedAt: now,
+      flaggedBy: adminId,
+      flagReason: `Lead quality claim approved (${claim.reason})`,
+    },
+  });
+
+  let flaggedOpenJobs = 0;
+  if (customer.badLeadCount >= flagThreshold) {
+    const result = await tx.job.updateMany({
+      where: { customerId: claim.customerId, status: OPEN_JOB_STATUSES, isFlagged: false },
+      data: {
+        isFlagged: true,
+        flaggedAt: now,
+        flaggedBy: adminId,
+        flagReason: `Customer has ${customer.badLeadCount} approved lead quality claims`,
+      },
+    });
+    flaggedOpenJobs = result.count;
+  }
+
+  return { badLeadCount: customer.badLeadCount, flaggedOpenJobs };
+}
+
+/**
+ * Whether jobs posted by a customer with this many approved claims start out flagged.
+ */
+export async function shouldFlagNewJob(badLeadCount: number): Promise<boolean> {
+  if (badLeadCount <= 0) {
+    return false;
+  }
+  const { flagThreshold } = await getLeadClaimSettings();
+  return badLeadCount >= flagThreshold;
+}
+
+/**
+ * Approve a pending claim and put it right with a credit or a Stripe refund.
+ */
+export async function approveLeadClaim(data: {
+  claimId: string;
+  adminId: string;
+  remedy?: LeadClaimRemedy;
+  notes?: string;
+}) {
+  const claim = await prisma.leadQualityClaim.findUnique({
+    where: { id: data.claimId },
+    include: {
+      jobAccess: { include: { payment: true } },
+      job: { select: { title: true } },
+      contractor: { select: { userId: true } },
+    },
+  });
+
+  if (!claim) {
+    throw new AppError('Lead claim not found', 404);
+  }
+  if (claim.status !== 'PENDING') {
+    throw new AppError(`This claim has already been ${claim.status.toLowerCase()}`, 409);
+  }
+
+  const remedy = data.remedy ?? getDefaultRemedy(claim.jobAccess);
+  const payment = claim.jobAccess.payment;
+
+  if (remedy === 'STRIPE_REFUND') {
+    if (!payment || !payment.stripePaymentId) {
+      throw new AppError('This lead has no linked card payment to refund - restore a credit instead', 400);
+    }
+    if (payment.status !== 'COMPLETED') {
+      throw new AppError(`The linked payment is ${payment.status.toLowerCase()} and cannot be refunded`, 400);
+    }
+  }
+
+  // Take the claim out of the queue first so two reviewers can't both pay it out. Each refund
+  // attempt gets its own number, so retrying after a failure isn't answered with Stripe's
+  // cached error for the last key
+  const refundAttempt = claim.refundAttempts + 1;
+  const locked = await prisma.leadQualityClaim.updateMany({
+    where: { id: claim.id, status: 'PENDING', refundAttempts: claim.refundAttempts },
+    data: {
+      status: 'APPROVED',
+      remedy,
+      reviewedByAdminId: data.adminId,
+      reviewedAt: new Date(),
+      adminNotes: data.notes,
+      ...(remedy === 'STRIPE_REFUND' && { refundAttempts: refundAttempt }),
+    },
+  });
+  if (locked.count === 0) {
+    throw new AppError('This claim has already been reviewed', 409);
+  }
+
+  let stripeRefund: Stripe.Refund | null = null;
+  if (remedy === 'STRIPE_REFUND') {
+    try {
+      // A repeated request for the same attempt returns the first refund; a later attempt
+      // can't refund twice because Stripe rejects refunding an already refunded payment
+      stripeRefund = await getStripeClient().refunds.create(
+        {
+          payment_intent: payment!.stripePaymentId!,
+          reason: 'requested_by_customer',
+          metadata: { leadClaimId: claim.id, adminId: data.adminId, originalPaymentId: payment!.id },
+        },
+        { idempotencyKey: `lead-claim-${claim.id}-${refundAttempt}` }
+      );
+    } catch (error: any) {
+      await prisma.leadQualityClaim.update({
+        where: { id: claim.id },
+        data: { status: 'PENDING', remedy: null, reviewedByAdminId: null, reviewedAt: null },
+      });
+      console.error(`Stripe refund failed for lead claim ${claim.id}:`, error);
+      throw new AppError(`Stripe refund failed: ${error.message}`, 400);
+    }
+
+    // Saved straight away so the refund is on record even if the bookkeeping below fails
+    await prisma.leadQualityClaim.update({
+      where: { id: claim.id },
+      data: { stripeRefundId: stripeRefund.id, refundAmount: payment!.amount },
+    });
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    if (remedy === 'CREDIT') {
+      await tx.contractor.update({
+        where: { id: claim.contractorId },
+        data: { creditsBalance: { increment: 1 } },
+      });
+      const creditTransaction = await tx.creditTransaction.create({
+        data: {
+          contractorId: claim.contractorId,
+          amount: 1,
+          type: 'LEAD_CLAIM_REFUND',
+          description: `Credit restored for bad lead: ${claim.job.title}`,
+          jobId: claim.jobId,
+          adminUserId: data.adminId,
+        },
+      });
+      await recordCreditTransaction(tx, creditTransaction);
+    } else {
+      await tx.payment.update({
+        where: { id: payment!.id },
+        data: {
+          status: 'REFUNDED',
+          description: `${payment!.description} [REFUNDED: lead quality claim ${claim.id}]`,
+        },
+      });
+      await recordPaymentRefunded(tx, payment!, {
+        amount: stripeRefund!.amount / 100,
+        refundKey: stripeRefund!.id,
+        reason: `lead quality claim ${claim.id}`,
+      });
+    }
+
+    const updatedClaim = await tx.leadQualityClaim.update({
+      where: { id: claim.id },
+      data: {
+        creditsRestored: remedy === 'CREDIT' ? 1 : null,
+        refundAmount: remedy === 'STRIPE_REFUND' ? payment!.amount : null,
+        stripeRefundId: stripeRefund?.id ?? null,
+      },
+    });
+
+    const customer = await recordBadLead(tx, claim, data.adminId);
+    return { claim: updatedClaim, customer };
+  });
+
+  await createNotification({
+    userId: claim.contractor.userId,
+    title: 'Lead Claim Approved',
+    message:
+      remedy === 'CREDIT'
+        ? `Your claim for "${claim.job.title}" was approved and 1 credit has been added back to your balance.`
+        : `Your claim for "${claim.job.title}" was approved and £${Number(payment!.amount).toFixed(2)} has been refunded to your card.`,
+    type: 'SUCCESS',
+    actionLink: '/dashboard/contractor/lead-claims',
+    actionText: 'View Claims',
+    metadata: { claimId: claim.id, jobId: claim.jobId },
+  });
+
+  return result;
+}
+
+/**
+ * Reject a pending claim.
+ */
+export async function rejectLeadClaim(data: { claimId: string; adminId: string; notes: string }) {
+  const claim = await prisma.leadQualityClaim.findUnique({
+    where: { id: data.claimId },
+    include: {
+      job: { select: { title: true } },
+      contractor: { select: { userId: true } },
+    },
+  });
+
+  if (!claim) {
+    throw new AppError('Lead claim not found', 404);
+  }
+
+  const updated = await prisma.leadQualityClaim.updateMany({
+    where: { id: claim.id, status: 'PENDING' },
+    data: { status: 'REJECTED', reviewedByAdminId: data.adminId, reviewedAt: new Date(), adminNotes: data.notes },
+  });
+  if (updated.count === 0) {
+    throw new AppError('This claim has already been reviewed', 409);
+  }
+
+  await createNotification({
+    userId: claim.contractor.userId,
+    title: 'Lead Claim Rejected',
+    message: `Your claim for "${claim.job.title}" was not approved. Reason: ${data.notes}`,
+    type: 'INFO',
+    actionLink: '/dashboard/contractor/lead-claims',
+    actionText: 'View Claims',
+    metadata: { claimId: claim.id, jobId: claim.jobId },
+  });
+
+  return prisma.leadQualityClaim.findUnique({ where: { id: claim.id } });
+}
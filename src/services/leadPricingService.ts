@@ -0,0 +1,250 @@
+import { JobSize, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { DynamicLeadPricingSettings, getDynamicLeadPricingSettings } from './settingsService';
+import { distanceInMilesSql, getJobLocation } from './geoService';
+
+/**
+ * Lead pricing.
+ *
+ * A lead starts at its service's price for the job size. An admin override
+ * (Job.leadPrice, see setJobLeadPrice) replaces that price outright. Otherwise, when
+ * DYNAMIC_LEAD_PRICING is enabled, the size price is adjusted for:
+ *   - urgency: urgent / "asap" jobs cost more
+ *   - demand: the more of maxContractorsPerJob slots are taken, the more the next one costs
+ *   - age: listings nobody has bought get cheaper day by day
+ *   - coverage: areas with few contractors for the service are cheaper, crowded ones dearer
+ * and the result is clamped to the admin floor and ceiling.
+ *
+ * Prices are ex VAT. Every quote carries the adjustments that produced it so contractors
+ * can see why a lead costs what it does.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DecimalLike = Prisma.Decimal | number | null;
+
+export type LeadPriceSource = 'STANDARD' | 'OVERRIDE' | 'DYNAMIC';
+export type LeadPriceFactor = 'URGENCY' | 'DEMAND' | 'AGE' | 'COVERAGE' | 'FLOOR' | 'CEILING';
+
+export interface LeadPriceAdjustment {
+  factor: LeadPriceFactor;
+  description: string;
+  multiplier?: number;
+  amount: number; // Change in price this step made, in pounds
+}
+
+export interface LeadPriceQuote {
+  price: number;
+  basePrice: number;
+  source: LeadPriceSource;
+  adjustments: LeadPriceAdjustment[];
+}
+
+export interface LeadPricingJob {
+  id: string;
+  jobSize: JobSize;
+  leadPrice: DecimalLike;
+  isUrgent: boolean;
+  urgency: string | null;
+  maxContractorsPerJob: number;
+  createdAt: Date;
+  serviceId: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  postcode?: string | null;
+  service: {
+    smallJobPrice: DecimalLike;
+    mediumJobPrice: DecimalLike;
+    largeJobPrice: DecimalLike;
+  } | null;
+}
+
+export interface LeadDemand {
+  accessCount: number;
+  coveringContractors: number | null; // null when coverage could not be worked out
+}
+
+// Service fields every caller needs to select for pricing
+export const LEAD_PRICING_SERVICE_SELECT = {
+  smallJobPrice: true,
+  mediumJobPrice: true,
+  largeJobPrice: true,
+} as const;
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The service's lead price for the job's size.
+ */
+export function getBaseLeadPrice(job: Pick<LeadPricingJob, 'jobSize' | 'service'>): number {
+  if (!job.service) {
+    return 0;
+  }
+  switch (job.jobSize) {
+    case 'SMALL':
+      return job.service.smallJobPrice ? Number(job.service.smallJobPrice) : 0;
+    case 'MEDIUM':
+      return job.service.mediumJobPrice ? Number(job.service.mediumJobPrice) : 0;
+    case 'LARGE':
+      return job.service.largeJobPrice ? Number(job.service.largeJobPrice) : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Price a lead. Pure - demand figures and settings are passed in.
+ */
+export function calculateLeadPrice(
+  job: LeadPricingJob,
+  demand: LeadDemand,
+  settings: DynamicLeadPricingSettings,
+  now: Date = new Date()
+): LeadPriceQuote {
+  const basePrice = getBaseLeadPrice(job);
+
+  if (job.leadPrice !== null && Number(job.leadPrice) > 0) {
+    return { price: Number(job.leadPrice), basePrice, source: 'OVERRIDE', adjustments: [] };
+  }
+
+  if (!settings.enabled || basePrice <= 0) {
+    return { price: basePrice, basePrice, source: 'STANDARD', adjustments: [] };
+  }
+
+  const adjustments: LeadPriceAdjustment[] = [];
+  let price = basePrice;
+
+  const applyMultiplier = (factor: LeadPriceFactor, multiplier: number, description: string) => {
+    if (multiplier === 1) return;
+    const next = price * multiplier;
+    adjustments.push({ factor, description, multiplier: roundPrice(multiplier), amount: roundPrice(next - price) });
+    price = next;
+  };
+
+  if (job.isUrgent || job.urgency === 'asap') {
+    applyMultiplier('URGENCY', settings.urgentMultiplier, 'Urgent job');
+  }
+
+  if (job.maxContractorsPerJob > 0 && demand.accessCount > 0) {
+    const filled = Math.min(demand.accessCount / job.maxContractorsPerJob, 1);
+    const remaining = Math.max(job.maxContractorsPerJob - demand.accessCount, 0);
+    applyMultiplier(
+      'DEMAND',
+      1 + settings.demandPremium * filled,
+      `${demand.accessCount} of ${job.maxContractorsPerJob} slots taken, ${remaining} left`
+    );
+  }
+
+  const ageDays = Math.floor((now.getTime() - job.createdAt.getTime()) / DAY_MS);
+  if (ageDays > 0 && settings.ageDiscountPerDay > 0) {
+    const discount = Math.min(ageDays * settings.ageDiscountPerDay, settings.maxAgeDiscount);
+    applyMultiplier('AGE', 1 - discount, `Listed ${ageDays} day${ageDays === 1 ? '' : 's'} ago`);
+  }
+
+  if (demand.coveringContractors !== null) {
+    const covering = demand.coveringContractors;
+    if (covering < settings.lowCoverageThreshold) {
+      applyMultiplier('COVERAGE', settings.lowCoverageMultiplier, `Only ${covering} contractor${covering === 1 ? '' : 's'} cover this area`);
+    } else if (covering > settings.highCoverageThreshold) {
+      applyMultiplier('COVERAGE', settings.highCoverageMultiplier, `${covering} contractors cover this area`);
+    }
+  }
+
+  if (price < settings.floor) {
+    adjustments.push({ factor: 'FLOOR', description: `Minimum lead price £${settings.floor.toFixed(2)}`, amount: roundPrice(settings.floor - price) });
+    price = settings.floor;
+  } else if (settings.ceiling > 0 && price > settings.ceiling) {
+    adjustments.push({ factor: 'CEILING', description: `Maximum lead price £${settings.ceiling.toFixed(2)}`, amount: roundPrice(settings.ceiling - price) });
+    price = settings.ceiling;
+  }
+
+  return { price: roundPrice(price), basePrice, source: 'DYNAMIC', adjustments };
+}
+
+/**
+ * Count the active contractors offering each job's service whose travel radius reaches
+ * the job. Contractors without stored base coordinates are out of range, and jobs without a
+ * location are left out (coverage unknown). Counted in one query so a listing page doesn't
+ * load every contractor.
+ */
+export async function countCoveringContractors(jobs: LeadPricingJob[]): Promise<Map<string, number>> {
+  const located = jobs.flatMap((job) => {
+    const location = getJobLocation(job);
+    return location ? [{ job, location }] : [];
+  });
+  const counts = new Map<string, number>(located.map(({ job }) => [job.id, 0]));
+  if (located.length === 0) {
+    return counts;
+  }
+
+  const jobRows = located.map(
+    ({ job, location }) => Prisma.sql`(${job.id}, ${job.serviceId}, ${location.latitude}::float8, ${location.longitude}::float8)`
+  );
+  const distance = distanceInMilesSql(
+    { latitude: Prisma.sql`c."baseLatitude"`, longitude: Prisma.sql`c."baseLongitude"` },
+    { latitude: Prisma.sql`j."latitude"`, longitude: Prisma.sql`j."longitude"` }
+  );
+
+  const rows = await prisma.$queryRaw<Array<{ jobId: string; count: number }>>`
+    SELECT j."id" AS "jobId", count(*)::int AS "count"
+    FROM (VALUES ${Prisma.join(jobRows)}) AS j("id", "serviceId", "latitude", "longitude")
+    JOIN "_ContractorToService" cs ON cs."B" = j."serviceId"
+    JOIN "contractors" c ON c."id" = cs."A"
+    JOIN "users" u ON u."id" = c."userId"
+    WHERE c."accountStatus" = 'ACTIVE' AND c."profileApproved" AND u."isActive"
+      AND ${distance} <= c."travelRadiusMiles"
+    GROUP BY j."id"
+  `;
+
+  for (const row of rows) {
+    counts.set(row.jobId, Number(row.count));
+  }
+  return counts;
+}
+
+/**
+ * Quote several leads at once (e.g. a page of the job listing). Settings are read once
+ * and coverage is only looked up when dynamic pricing is on.
+ */
+export async function quoteLeadPrices(
+  jobs: Array<LeadPricingJob & { accessCount: number }>
+): Promise<Map<string, LeadPriceQuote>> {
+  const settings = await getDynamicLeadPricingSettings();
+  const coverage = settings.enabled
+    ? await countCoveringContractors(jobs.filter((job) => !(job.leadPrice !== null && Number(job.leadPrice) > 0)))
+    : new Map<string, number>();
+
+  const now = new Date();
+  return new Map(
+    jobs.map((job) => [
+      job.id,
+      calculateLeadPrice(job, { accessCount: job.accessCount, coveringContractors: coverage.get(job.id) ?? null }, settings, now),
+    ])
+  );
+}
+
+/**
+ * Quote a single lead given how many contractors have already bought it.
+ */
+export async function quoteLeadPrice(job: LeadPricingJob, accessCount: number): Promise<LeadPriceQuote> {
+  const quotes = await quoteLeadPrices([{ ...job, accessCount }]);
+  return quotes.get(job.id)!;
+}
+
+/**
+ * The lead price we quoted when creating a job access PaymentIntent. Dynamic prices move
+ * as slots fill, so a purchase is charged at the quoted price rather than re-priced.
+ * Returns null when the intent is not a quote for this job and contractor.
+ */
+export function getQuotedLeadPrice(
+  paymentIntent: { metadata?: Record<string, string> | null },
+  jobId: string,
+  contractorId: string
+): number | null {
+  const metadata = paymentIntent.metadata;
+  if (!metadata || metadata.type !== 'job_access_purchase' || metadata.jobId !== jobId || metadata.contractorId !== contractorId) {
+    return null;
+  }
+  const quoted = Number(metadata.leadPrice);
+  return Number.isFinite(quoted) && quoted > 0 ? quoted : null;
+}
@@ -0,0 +1,807 @@
+import { LedgerAccountType, LedgerUnit, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Double-entry ledger.
+ *
+ * Every money and credit movement is written here as a balanced journal entry alongside the
+ * record it comes from (Payment, CommissionPayment, ManualInvoice, CreditTransaction...).
+ * Amounts are whole units of the account's unit - pence for GBP, credits for CREDIT - with
+ * debits positive and credits negative, so each entry sums to zero per unit and an account's
+ * balance is the sum of its postings.
+ *
+ * Entries are keyed by the event that caused them (`payment:<id>`, `commission:<id>:raised`),
+ * so posting the same event twice - a webhook and a client callback racing - records it once.
+ * Nothing is ever updated or deleted; corrections are further entries.
+ *
+ * The source tables stay the system of record. checkLedgerConsistency compares the two and
+ * reports drift; postOpeningBalances brings in balances that predate the ledger.
+ */
+
+type LedgerClient = Prisma.TransactionClient;
+
+type AccountDefinition = { name: string; type: LedgerAccountType; unit: LedgerUnit };
+
+export const LEDGER_ACCOUNTS = {
+  STRIPE_CLEARING: { name: 'Stripe clearing', type: 'ASSET', unit: 'GBP' },
+  OFFLINE_RECEIPTS: { name: 'Payments received outside Stripe', type: 'ASSET', unit: 'GBP' },
+  VAT_PAYABLE: { name: 'VAT payable', type: 'LIABILITY', unit: 'GBP' },
+  ESCROW_HELD: { name: 'Customer job payments held in escrow', type: 'LIABILITY', unit: 'GBP' },
+  REVENUE_LEAD_ACCESS: { name: 'Lead access revenue', type: 'REVENUE', unit: 'GBP' },
+  REVENUE_SUBSCRIPTIONS: { name: 'Subscription revenue', type: 'REVENUE', unit: 'GBP' },
+  REVENUE_COMMISSION: { name: 'Commission revenue', type: 'REVENUE', unit: 'GBP' },
+  REVENUE_INVOICED: { name: 'Manual invoice revenue', type: 'REVENUE', unit: 'GBP' },
+  REVENUE_CREDIT_SALES: { name: 'Credit bundle sales', type: 'REVENUE', unit: 'GBP' },
+  REVENUE_OTHER: { name: 'Other revenue', type: 'REVENUE', unit: 'GBP' },
+  REFUNDS: { name: 'Refunds issued', type: 'EXPENSE', unit: 'GBP' },
+  WAIVED_RECEIVABLES: { name: 'Waived commissions', type: 'EXPENSE', unit: 'GBP' },
+  OPENING_BALANCES: { name: 'Opening balances', type: 'EQUITY', unit: 'GBP' },
+  CREDITS_GRANTED: { name: 'Credits granted', type: 'EXPENSE', unit: 'CREDIT' },
+  CREDITS_SOLD: { name: 'Credits sold', type: 'EXPENSE', unit: 'CREDIT' },
+  CREDITS_REDEEMED: { name: 'Credits redeemed', type: 'REVENUE', unit: 'CREDIT' },
+  CREDITS_EXPIRED: { name: 'Credits expired', type: 'REVENUE', unit: 'CREDIT' },
+  CREDITS_ADJUSTED: { name: 'Credits removed by adjustment', type: 'REVENUE', unit: 'CREDIT' },
+  CREDIT_OPENING_BALANCES: { name: 'Credit opening balances', type: 'EQUITY', unit: 'CREDIT' },
+} as const;
+
+export type SystemAccountCode = keyof typeof LEDGER_ACCOUNTS;
+
+// Per-contractor accounts
+export const receivableAccount = (contractorId: string) => `AR:${contractorId}`;
+export const creditAccount = (contractorId: string) => `CREDITS:${contractorId}`;
+
+function describeAccount(code: string): AccountDefinition & { contractorId: string | null } {
+  if (code in LEDGER_ACCOUNTS) {
+    return { ...LEDGER_ACCOUNTS[code as SystemAccountCode], contractorId: null };
+  }
+  const [prefix, contractorId] = code.split(':');
+  if (prefix === 'AR' && contractorId) {
+    return { name: `Receivable from contractor ${contractorId}`, type: 'ASSET', unit: 'GBP', contractorId };
+  }
+  if (prefix === 'CREDITS' && contractorId) {
+    return { name: `Credits held by contractor ${contractorId}`, type: 'LIABILITY', unit: 'CREDIT', contractorId };
+  }
+  throw new Error(`Unknown ledger account ${code}`);
+}
+
+export const toPence = (amount: Prisma.Decimal | number | string | null | undefined) =>
+  Math.round(Number(amount ?? 0) * 100);
+
+// VAT inside a VAT-inclusive amount at the standard 20%
+export const vatInclusiveShare = (grossPence: number) => grossPence - Math.round(grossPence / 1.2);
+
+export interface LedgerPostingInput {
+  account: string;
+  amount: number;
+}
+
+export interface LedgerEntryInput {
+  key: string;
+  description: string;
+  sourceType: string;
+  sourceId: string;
+  contractorId?: string | null;
+  occurredAt?: Date;
+  postings: LedgerPostingInput[];
+}
+
+/**
+ * Postings must be whole units and balance per unit. Zero postings are dropped.
+ */
+export function validatePostings(postings: LedgerPostingInput[]): LedgerPostingInput[] {
+  const kept = postings.filter((posting) => posting.amount !== 0);
+  const totals = new Map<LedgerUnit, number>();
+
+  for (const posting of kept) {
+    if (!Number.isInteger(posting.amount)) {
+      throw new Error(`Ledger posting to ${posting.account} is not a whole amount: ${posting.amount}`);
+    }
+    const { unit } = describeAccount(posting.account);
+    totals.set(unit, (totals.get(unit) ?? 0) + posting.amount);
+  }
+
+  for (const [unit, total] of totals) {
+    if (total !== 0) {
+      throw new Error(`Ledger entry does not balance in ${unit} (off by ${total})`);
+    }
+  }
+
+  return kept;
+}
+
+async function resolveAccounts(client: LedgerClient, codes: string[]) {
+  const unique = [...new Set(codes)];
+  await client.ledgerAccount.createMany({
+    data: unique.map((code) => {
+      const { name, type, unit, contractorId } = describeAccount(code);
+      return { code, name, type, unit, contractorId };
+    }),
+    skipDuplicates: true,
+  });
+  const accounts = await client.ledgerAccount.findMany({ where: { code: { in: unique } }, select: { id: true, code: true } });
+  return new Map(accounts.map((account) => [account.code, account.id]));
+}
+
+/**
+ * Write one balanced entry. Returns false if an entry with this key already exists.
+ */
+export async function postLedgerEntry(client: LedgerClient, input: LedgerEntryInput): Promise<boolean> {
+  const postings = validatePostings(input.postings);
+  if (postings.length === 0) {
+    return false;
+  }
+
+  // ON CONFLICT DO NOTHING, so a duplicate doesn't abort the caller's transaction
+  const created = await client.ledgerEntry.createMany({
+    data: [
+      {
+        key: input.key,
+        description: input.description,
+        sourceType: input.sourceType,
+        sourceId: input.sourceId,
+        contractorId: input.contractorId ?? null,
+        occurredAt: input.occurredAt ?? new Date(),
+      },
+    ],
+    skipDuplicates: true,
+  });
+  if (created.count === 0) {
+    return false;
+  }
+
+  const entry = await client.ledgerEntry.findUniqueOrThrow({ where: { key: input.key }, select: { id: true } });
+  const accountIds = await resolveAccounts(client, postings.map((posting) => posting.account));
+
+  await client.ledgerPosting.createMany({
+    data: postings.map((posting) => ({
+      entryId: entry.id,
+      accountId: accountIds.get(posting.account)!,
+      amount: posting.amount,
+    })),
+  });
+  return true;
+}
+
+// ==================== Money ====================
+
+type LedgerPayment = {
+  id: string;
+  type: string;
+  status: string;
+  amount: Prisma.Decimal | number;
+  description: string;
+  contractorId: string | null;
+  stripePaymentId: string | null;
+};
+
+const PAYMENT_REVENUE_ACCOUNTS: Record<string, SystemAccountCode> = {
+  LEAD_ACCESS: 'REVENUE_LEAD_ACCESS',
+  SUBSCRIPTION: 'REVENUE_SUBSCRIPTIONS',
+  CREDIT_PURCHASE: 'REVENUE_CREDIT_SALES',
+};
+
+// Payments that settle something the contractor was already billed for
+const RECEIVABLE_PAYMENT_TYPES = ['COMMISSION', 'MANUAL_INVOICE'];
+
+/**
+ * Money received. Sales split into net revenue and VAT (taken from the invoice when the
+ * caller has it, otherwise assumed 20% inclusive); commission and invoice payments clear the
+ * contractor's receivable. Credit-funded (zero) and uncompleted payments post nothing.
+ */
+export async function recordPaymentReceived(
+  client: LedgerClient,
+  payment: LedgerPayment,
+  options: { vatAmount?: Prisma.Decimal | number; occurredAt?: Date } = {}
+) {
+  const gross = toPence(payment.amount);
+  if (payment.status !== 'COMPLETED' || gross <= 0) {
+    return false;
+  }
+
+  const cashAccount = payment.stripePaymentId ? 'STRIPE_CLEARING' : 'OFFLINE_RECEIPTS';
+  let postings: LedgerPostingInput[];
+
+  if (RECEIVABLE_PAYMENT_TYPES.includes(payment.type) && payment.contractorId) {
+    postings = [
+      { account: cashAccount, amount: gross },
+      { account: receivableAccount(payment.contractorId), amount: -gross },
+    ];
+  } else {
+    const vat = options.vatAmount !== undefined ? toPence(options.vatAmount) : vatInclusiveShare(gross);
+    postings = [
+      { account: cashAccount, amount: gross },
+      { account: PAYMENT_REVENUE_ACCOUNTS[payment.type] ?? 'REVENUE_OTHER', amount: -(gross - vat) },
+      { account: 'VAT_PAYABLE', amount: -vat },
+    ];
+  }
+
+  return postLedgerEntry(client, {
+    key: `payment:${payment.id}`,
+    description: payment.description,
+    sourceType: 'PAYMENT',
+    sourceId: payment.id,
+    contractorId: payment.contractorId,
+    occurredAt: options.occurredAt,
+    postings,
+  });
+}
+
+/**
+ * Money returned to the payer. `refundKey` identifies this refund (the Stripe refund id
+ * where there is one) so several partial refunds of one payment each post once.
+ */
+export async function recordPaymentRefunded(
+  client: LedgerClient,
+  payment: LedgerPayment,
+  refund: { amount: Prisma.Decimal | number; refundKey: string; reason?: string }
+) {
+  const gross = toPence(refund.amount);
+  if (gross <= 0) {
+    return false;
+  }
+
+  const vat = vatInclusiveShare(gross);
+  return postLedgerEntry(client, {
+    key: `refund:${refund.refundKey}`,
+    description: `Refund of ${payment.description}${refund.reason ? ` (${refund.reason})` : ''}`,
+    sourceType: 'REFUND',
+    sourceId: payment.id,
+    contractorId: payment.contractorId,
+    postings: [
+      { account: 'REFUNDS', amount: gross - vat },
+      { account: 'VAT_PAYABLE', amount: vat },
+      { account: payment.stripePaymentId ? 'STRIPE_CLEARING' : 'OFFLINE_RECEIPTS', amount: -gross },
+    ],
+  });
+}
+
+/**
+ * A refund that Stripe later failed or cancelled: the money never left, so the refund's
+ * postings are reversed under their own key.
+ */
+export async function recordRefundReversed(
+  client: LedgerClient,
+  payment: LedgerPayment,
+  refund: { amount: Prisma.Decimal | number; refundKey: string }
+) {
+  const gross = toPence(refund.amount);
+  if (gross <= 0) {
+    return false;
+  }
+
+  const vat = vatInclusiveShare(gross);
+  return postLedgerEntry(client, {
+    key: `refund:${refund.refundKey}:reversed`,
+    description: `Refund reversed: ${payment.description}`,
+    sourceType: 'REFUND',
+    sourceId: payment.id,
+    contractorId: payment.contractorId,
+    postings: [
+      { account: 'REFUNDS', amount: -(gross - vat) },
+      { account: 'VAT_PAYABLE', amount: -vat },
+      { account: payment.stripePaymentId ? 'STRIPE_CLEARING' : 'OFFLINE_RECEIPTS', amount: gross },
+    ],
+  });
+}
+
+/**
+ * A customer pays a job into escrow. The money is owed onwards, not earned, so it sits in a
+ * liability until it's released or refunded. Keyed like other payments so the consistency
+ * check finds it.
+ */
+export async function recordEscrowFunded(client: LedgerClient, payment: LedgerPayment) {
+  const gross = toPence(payment.amount);
+  return postLedgerEntry(client, {
+    key: `payment:${payment.id}`,
+    description: payment.description,
+    sourceType: 'PAYMENT',
+    sourceId: payment.id,
+    contractorId: payment.contractorId,
+    postings: [
+      { account: 'STRIPE_CLEARING', amount: gross },
+      { account: 'ESCROW_HELD', amount: -gross },
+    ],
+  });
+}
+
+/**
+ * Held escrow paid out: `released` (pence, before the fee) goes to the contractor less
+ * `fee`, which settles their commission receivable; `refunded` goes back to the customer.
+ */
+export async function recordEscrowSettled(
+  client: LedgerClient,
+  escrow: { id: string; contractorId: string; released: number; fee: number; refunded: number }
+) {
+  return postLedgerEntry(client, {
+    key: `escrow:${escrow.id}:settled`,
+    description: `Escrow settled (${escrow.id})`,
+    sourceType: 'ESCROW',
+    sourceId: escrow.id,
+    contractorId: escrow.contractorId,
+    postings: [
+      { account: 'ESCROW_HELD', amount: escrow.released + escrow.refunded },
+      { account: 'STRIPE_CLEARING', amount: -(escrow.released - escrow.fee + escrow.refunded) },
+      { account: receivableAccount(escrow.contractorId), amount: -escrow.fee },
+    ],
+  });
+}
+
+type LedgerCommission = {
+  id: string;
+  contractorId: string;
+  commissionAmount: Prisma.Decimal | number;
+  vatAmount: Prisma.Decimal | number;
+  totalAmount: Prisma.Decimal | number;
+};
+
+function commissionSplit(commission: LedgerCommission) {
+  const gross = toPence(commission.totalAmount);
+  const vat = toPence(commission.vatAmount);
+  return { gross, vat, net: gross - vat };
+}
+
+/**
+ * A commission is billed: the contractor owes it until it's paid or waived.
+ */
+export async function recordCommissionRaised(client: LedgerClient, commission: LedgerCommission) {
+  const { gross, vat, net } = commissionSplit(commission);
+  return postLedgerEntry(client, {
+    key: `commission:${commission.id}:raised`,
+    description: `Commission billed (${commission.id})`,
+    sourceType: 'COMMISSION',
+    sourceId: commission.id,
+    contractorId: commission.contractorId,
+    postings: [
+      { account: receivableAccount(commission.contractorId), amount: gross },
+      { account: 'REVENUE_COMMISSION', amount: -net },
+      { account: 'VAT_PAYABLE', amount: -vat },
+    ],
+  });
+}
+
+/**
+ * An unpaid commission's amounts are changed (e.g. on a dispute ruling). Posts the
+ * difference; `adjustmentKey` names the change so a retry doesn't post it twice.
+ */
+export async function recordCommissionAdjusted(
+  client: LedgerClient,
+  before: LedgerCommission,
+  after: LedgerCommission,
+  adjustmentKey: string
+) {
+  const was = commissionSplit(before);
+  const now = commissionSplit(after);
+  return postLedgerEntry(client, {
+    key: `commission:${after.id}:adjusted:${adjustmentKey}`,
+    description: `Commission adjusted (${after.id})`,
+    sourceType: 'COMMISSION',
+    sourceId: after.id,
+    contractorId: after.contractorId,
+    postings: [
+      { account: receivableAccount(after.contractorId), amount: now.gross - was.gross },
+      { account: 'REVENUE_COMMISSION', amount: -(now.net - was.net) },
+      { account: 'VAT_PAYABLE', amount: -(now.vat - was.vat) },
+    ],
+  });
+}
+
+/**
+ * A commission is written off: the receivable goes and the VAT is no longer due.
+ */
+export async function recordCommissionWaived(client: LedgerClient, commission: LedgerCommission, reason?: string) {
+  const { gross, vat, net } = commissionSplit(commission);
+  return postLedgerEntry(client, {
+    key: `commission:${commission.id}:waived`,
+    description: `Commission waived (${commission.id})${reason ? `: ${reason}` : ''}`,
+    sourceType: 'COMMISSION',
+    sourceId: commission.id,
+    contractorId: commission.contractorId,
+    postings: [
+      { account: 'WAIVED_RECEIVABLES', amount: net },
+      { account: 'VAT_PAYABLE', amount: vat },
+      { account: receivableAccount(commission.contractorId), amount: -gross },
+    ],
+  });
+}
+
+type LedgerManualInvoice = { id: string; number: string; contractorId: string; subtotal: number; tax: number; total: number };
+
+/**
+ * A manual invoice (amounts already in pence) is issued to a contractor.
+ */
+export async function recordManualInvoiceIssued(client: LedgerClient, invoice: LedgerManualInvoice) {
+  return postLedgerEntry(client, {
+    key: `manual_invoice:${invoice.id}:issued`,
+    description: `Manual invoice ${invoice.number} issued`,
+    sourceType: 'MANUAL_INVOICE',
+    sourceId: invoice.id,
+    contractorId: invoice.contractorId,
+    postings: [
+      { account: receivableAccount(invoice.contractorId), amount: invoice.total },
+      { account: 'REVENUE_INVOICED', amount: -(invoice.total - invoice.tax) },
+      { account: 'VAT_PAYABLE', amount: -invoice.tax },
+    ],
+  });
+}
+
+/**
+ * An issued manual invoice is cancelled. Drafts never reached the ledger, so callers only
+ * post this for invoices that had been issued.
+ */
+export async function recordManualInvoiceCancelled(client: LedgerClient, invoice: LedgerManualInvoice) {
+  return postLedgerEntry(client, {
+    key: `manual_invoice:${invoice.id}:cancelled`,
+    description: `Manual invoice ${invoice.number} cancelled`,
+    sourceType: 'MANUAL_INVOICE',
+    sourceId: invoice.id,
+    contractorId: invoice.contractorId,
+    postings: [
+      { account: 'REVENUE_INVOICED', amount: invoice.total - invoice.tax },
+      { account: 'VAT_PAYABLE', amount: invoice.tax },
+      { account: receivableAccount(invoice.contractorId), amount: -invoice.total },
+    ],
+  });
+}
+
+const BILLED_MANUAL_INVOICE_STATUSES = ['ISSUED', 'OVERDUE'];
+
+/**
+ * Post whatever an admin status change means for the receivable: billing a draft issues it,
+ * cancelling (or returning to draft) an issued invoice reverses it. Payment is posted separately.
+ */
+export async function recordManualInvoiceStatusChange(
+  client: LedgerClient,
+  invoice: LedgerManualInvoice,
+  fromStatus: string,
+  toStatus: string
+) {
+  const wasBilled = BILLED_MANUAL_INVOICE_STATUSES.includes(fromStatus);
+  const isBilled = BILLED_MANUAL_INVOICE_STATUSES.includes(toStatus);
+
+  if (!wasBilled && isBilled) {
+    return recordManualInvoiceIssued(client, invoice);
+  }
+  if (wasBilled && (toStatus === 'CANCELED' || toStatus === 'DRAFT')) {
+    return recordManualInvoiceCancelled(client, invoice);
+  }
+  return false;
+}
+
+// ==================== Credits ====================
+
+/**
+ * A change to a contractor's credit balance. `delta` is the real change to creditsBalance,
+ * which is not always the amount on the CreditTransaction (weekly resets log only top-ups).
+ */
+export async function recordCreditMovement(
+  client: LedgerClient,
+  movement: { contractorId: string; delta: number; type: string; key: string; sourceId: string; description: string }
+) {
+  if (movement.delta === 0) {
+    return false;
+  }
+
+  let counterAccount: SystemAccountCode;
+  if (movement.delta > 0) {
+    counterAccount = movement.type === 'PURCHASE' ? 'CREDITS_SOLD' : 'CREDITS_GRANTED';
+  } else if (movement.type === 'JOB_ACCESS') {
+    counterAccount = 'CREDITS_REDEEMED';
+  } else if (movement.type === 'EXPIRY') {
+    counterAccount = 'CREDITS_EXPIRED';
+  } else {
+    counterAccount = 'CREDITS_ADJUSTED';
+  }
+
+  // Credits held are a liability: an increase is a credit to the contractor's account
+  return postLedgerEntry(client, {
+    key: movement.key,
+    description: movement.description,
+    sourceType: 'CREDIT',
+    sourceId: movement.sourceId,
+    contractorId: movement.contractorId,
+    postings: [
+      { account: counterAccount, amount: movement.delta },
+      { account: creditAccount(movement.contractorId), amount: -movement.delta },
+    ],
+  });
+}
+
+/**
+ * Post a CreditTransaction whose amount is the balance change. Admin DEDUCTIONs are stored
+ * as positive amounts, so they're flipped here.
+ */
+export async function recordCreditTransaction(
+  client: LedgerClient,
+  transaction: { id: string; contractorId: string; amount: number; type: string; description: string }
+) {
+  const delta = transaction.type === 'DEDUCTION' ? -Math.abs(transaction.amount) : transaction.amount;
+  return recordCreditMovement(client, {
+    contractorId: transaction.contractorId,
+    delta,
+    type: transaction.type,
+    key: `credit:${transaction.id}`,
+    sourceId: transaction.id,
+    description: transaction.description,
+  });
+}
+
+/**
+ * A weekly reset overwrites the balance, so post the difference between what it was and
+ * what it became rather than the logged top-up.
+ */
+export async function recordCreditReset(
+  client: LedgerClient,
+  reset: { contractorId: string; before: number; after: number; resetAt: Date }
+) {
+  return recordCreditMovement(client, {
+    contractorId: reset.contractorId,
+    delta: reset.after - reset.before,
+    type: 'WEEKLY_ALLOCATION',
+    key: `credit_reset:${reset.contractorId}:${reset.resetAt.getTime()}`,
+    sourceId: reset.contractorId,
+    description: 'Weekly credit reset',
+  });
+}
+
+// ==================== Reporting ====================
+
+/**
+ * Balance per account (sum of postings), optionally as at a date.
+ */
+export async function getAccountBalances(filter: { asOf?: Date; contractorId?: string; unit?: LedgerUnit } = {}) {
+  const sums = await prisma.ledgerPosting.groupBy({
+    by: ['accountId'],
+    where: {
+      ...(filter.asOf && { entry: { occurredAt: { lte: filter.asOf } } }),
+      ...((filter.contractorId || filter.unit) && {
+        account: {
+          ...(filter.contractorId && { contractorId: filter.contractorId }),
+          ...(filter.unit && { unit: filter.unit }),
+        },
+      }),
+    },
+    _sum: { amount: true },
+  });
+
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { id: { in: sums.map((sum) => sum.accountId) } },
+    orderBy: { code: 'asc' },
+  });
+  const totals = new Map(sums.map((sum) => [sum.accountId, sum._sum.amount ?? 0]));
+
+  return accounts.map((account) => ({
+    code: account.code,
+    name: account.name,
+    type: account.type,
+    unit: account.unit,
+    contractorId: account.contractorId,
+    balance: totals.get(account.id) ?? 0,
+  }));
+}
+
+/**
+ * Debit and credit columns per account, with totals per unit. Total debits equal total
+ * credits in every unit unless an unbalanced entry got in.
+ */
+export async function getTrialBalance(asOf?: Date) {
+  const balances = await getAccountBalances({ asOf });
+  const rows = balances
+    .filter((account) => account.balance !== 0)
+    .map((account) => ({
+      ...account,
+      debit: account.balance > 0 ? account.balance : 0,
+      credit: account.balance < 0 ? -account.balance : 0,
+    }));
+
+  const totals = (['GBP', 'CREDIT'] as LedgerUnit[]).map((unit) => {
+    const unitRows = rows.filter((row) => row.unit === unit);
+    const debit = unitRows.reduce((sum, row) => sum + row.debit, 0);
+    const credit = unitRows.reduce((sum, row) => sum + row.credit, 0);
+    return { unit, debit, credit, balanced: debit === credit };
+  });
+
+  return { asOf: asOf ?? new Date(), accounts: rows, totals };
+}
+
+/**
+ * A contractor's ledger position: what they owe (pence) and the credits they hold.
+ */
+export async function getContractorLedgerBalance(contractorId: string) {
+  const balances = await getAccountBalances({ contractorId });
+  const find = (code: string) => balances.find((account) => account.code === code)?.balance ?? 0;
+  return {
+    contractorId,
+    receivablePence: find(receivableAccount(contractorId)),
+    credits: -find(creditAccount(contractorId)),
+  };
+}
+
+// What the source tables say each contractor owes and holds
+async function getSourcePositions(contractorIds?: string[]) {
+  const contractorFilter = contractorIds ? { contractorId: { in: contractorIds } } : {};
+
+  const [contractors, commissions, invoices] = await Promise.all([
+    prisma.contractor.findMany({
+      where: contractorIds ? { id: { in: contractorIds } } : undefined,
+      select: { id: true, creditsBalance: true },
+    }),
+    prisma.commissionPayment.groupBy({
+      by: ['contractorId'],
+      where: { ...contractorFilter, status: { in: ['PENDING', 'OVERDUE'] } },
+      _sum: { totalAmount: true },
+    }),
+    prisma.manualInvoice.groupBy({
+      by: ['contractorId'],
+      where: { ...contractorFilter, status: { in: ['ISSUED', 'OVERDUE'] } },
+      _sum: { total: true },
+    }),
+  ]);
+
+  const positions = new Map<string, { credits: number; receivablePence: number }>();
+  for (const contractor of contractors) {
+    positions.set(contractor.id, { credits: contractor.creditsBalance, receivablePence: 0 });
+  }
+  for (const row of commissions) {
+    const position = positions.get(row.contractorId);
+    if (position) position.receivablePence += toPence(row._sum.totalAmount);
+  }
+  for (const row of invoices) {
+    const position = positions.get(row.contractorId);
+    if (position) position.receivablePence += row._sum.total ?? 0;
+  }
+  return positions;
+}
+
+async function getLedgerPositions() {
+  const balances = await getAccountBalances();
+  const positions = new Map<string, { credits: number; receivablePence: number }>();
+  for (const account of balances) {
+    if (!account.contractorId) continue;
+    const position = positions.get(account.contractorId) ?? { credits: 0, receivablePence: 0 };
+    if (account.unit === 'CREDIT') position.credits += -account.balance;
+    else position.receivablePence += account.balance;
+    positions.set(account.contractorId, position);
+  }
+  return positions;
+}
+
+/**
+ * Bring balances that predate the ledger (or were changed without it) into the ledger, once
+ * per contractor, against the opening balance accounts.
+ */
+export async function postOpeningBalances() {
+  const firstEntry = await prisma.ledgerEntry.findFirst({
+    where: { sourceType: { not: 'OPENING_BALANCE' } },
+    orderBy: { createdAt: 'asc' },
+    select: { createdAt: true },
+  });
+  // Contractors who joined after the ledger started have no history outside it
+  const existing = await prisma.contractor.findMany({
+    where: firstEntry ? { createdAt: { lt: firstEntry.createdAt } } : undefined,
+    select: { id: true },
+  });
+
+  const [source, ledger] = await Promise.all([
+    getSourcePositions(existing.map((contractor) => contractor.id)),
+    getLedgerPositions(),
+  ]);
+  let posted = 0;
+
+  for (const [contractorId, expected] of source) {
+    const current = ledger.get(contractorId) ?? { credits: 0, receivablePence: 0 };
+    const creditGap = expected.credits - current.credits;
+    const receivableGap = expected.receivablePence - current.receivablePence;
+
+    const postedCredits = await postLedgerEntry(prisma, {
+      key: `opening:${contractorId}:credits`,
+      description: 'Opening credit balance',
+      sourceType: 'OPENING_BALANCE',
+      sourceId: contractorId,
+      contractorId,
+      postings: [
+        { account: 'CREDIT_OPENING_BALANCES', amount: creditGap },
+        { account: creditAccount(contractorId), amount: -creditGap },
+      ],
+    });
+    const postedReceivable = await postLedgerEntry(prisma, {
+      key: `opening:${contractorId}:receivable`,
+      description: 'Opening receivable balance',
+      sourceType: 'OPENING_BALANCE',
+      sourceId: contractorId,
+      contractorId,
+      postings: [
+        { account: receivableAccount(contractorId), amount: receivableGap },
+        { account: 'OPENING_BALANCES', amount: -receivableGap },
+      ],
+    });
+    if (postedCredits || postedReceivable) posted++;
+  }
+
+  return { contractors: source.size, posted };
+}
+
+export type LedgerIssue =
+  | { type: 'UNBALANCED_ENTRY'; entryKey: string; unit: LedgerUnit; difference: number }
+  | { type: 'MISSING_PAYMENT_ENTRY'; paymentId: string; paymentType: string; amountPence: number }
+  | { type: 'MISSING_REFUND_ENTRY'; refundId: string; paymentId: string; amountPence: number }
+  | { type: 'CREDIT_DRIFT'; contractorId: string; expected: number; ledger: number }
+  | { type: 'RECEIVABLE_DRIFT'; contractorId: string; expectedPence: number; ledgerPence: number };
+
+/**
+ * Compare the ledger against the source tables:
+ * - every entry balances in each unit,
+ * - every paid Payment since the ledger started has its entry,
+ * - each contractor's credits match creditsBalance,
+ * - each contractor's receivable matches their unpaid commissions and issued invoices.
+ */
+export async function checkLedgerConsistency() {
+  const issues: LedgerIssue[] = [];
+
+  const unbalanced = await prisma.$queryRaw<Array<{ key: string; unit: LedgerUnit; difference: bigint }>>`
+    SELECT e."key", a."unit", SUM(p."amount") AS "difference"
+    FROM "ledger_postings" p
+    JOIN "ledger_entries" e ON e."id" = p."entryId"
+    JOIN "ledger_accounts" a ON a."id" = p."accountId"
+    GROUP BY e."key", a."unit"
+    HAVING SUM(p."amount") <> 0
+  `;
+  for (const row of unbalanced) {
+    issues.push({ type: 'UNBALANCED_ENTRY', entryKey: row.key, unit: row.unit, difference: Number(row.difference) });
+  }
+
+  const firstEntry = await prisma.ledgerEntry.findFirst({ orderBy: { createdAt: 'asc' }, select: { createdAt: true } });
+  if (firstEntry) {
+    const payments = await prisma.payment.findMany({
+      where: { status: { in: ['COMPLETED', 'REFUNDED'] }, amount: { gt: 0 }, createdAt: { gte: firstEntry.createdAt } },
+      select: { id: true, type: true, amount: true },
+    });
+    const recorded = await prisma.ledgerEntry.findMany({
+      where: { key: { in: payments.map((payment) => `payment:${payment.id}`) } },
+      select: { key: true },
+    });
+    const recordedKeys = new Set(recorded.map((entry) => entry.key));
+    for (const payment of payments) {
+      if (!recordedKeys.has(`payment:${payment.id}`)) {
+        issues.push({ type: 'MISSING_PAYMENT_ENTRY', paymentId: payment.id, paymentType: payment.type, amountPence: toPence(payment.amount) });
+      }
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { status: { in: ['PENDING', 'SUCCEEDED'] }, stripeRefundId: { not: null }, createdAt: { gte: firstEntry.createdAt } },
+      select: { id: true, paymentId: true, amount: true, stripeRefundId: true },
+    });
+    const recordedRefunds = await prisma.ledgerEntry.findMany({
+      where: { key: { in: refunds.map((refund) => `refund:${refund.stripeRefundId}`) } },
+      select: { key: true },
+    });
+    const recordedRefundKeys = new Set(recordedRefunds.map((entry) => entry.key));
+    for (const refund of refunds) {
+      if (!recordedRefundKeys.has(`refund:${refund.stripeRefundId}`)) {
+        issues.push({ type: 'MISSING_REFUND_ENTRY', refundId: refund.id, paymentId: refund.paymentId, amountPence: toPence(refund.amount) });
+      }
+    }
+  }
+
+  const [source, ledger] = await Promise.all([getSourcePositions(), getLedgerPositions()]);
+  for (const [contractorId, expected] of source) {
+    const actual = ledger.get(contractorId) ?? { credits: 0, receivablePence: 0 };
+    if (expected.credits !== actual.credits) {
+      issues.push({ type: 'CREDIT_DRIFT', contractorId, expected: expected.credits, ledger: actual.credits });
+    }
+    if (expected.receivablePence !== actual.receivablePence) {
+      issues.push({ type: 'RECEIVABLE_DRIFT', contractorId, expectedPence: expected.receivablePence, ledgerPence: actual.receivablePence });
+    }
+  }
+
+  return { checkedAt: new Date(), consistent: issues.length === 0, issueCount: issues.length, issues };
+}
+
+export function parseLedgerDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new AppError(`${field} must be a valid date`, 400);
+  }
+  return date;
+}
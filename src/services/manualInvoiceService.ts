@@ -3,6 +3,7 @@ import fs from 'fs';
 import { generateInvoicePDF } from '../../services/pdfService';
 import { createServiceEmail, createEmailService } from './emailService';
 import { prisma } from '../config/database';
+import { recordManualInvoiceIssued, recordPaymentReceived } from './ledgerService';
 
 // Generate unique invoice number
 export const generateInvoiceNumber = async (): Promise<string> => {
@@ -27,6 +28,36 @@ export const generateInvoiceNumber = async (): Promise<string> => {
   return `${prefix}-${year}${month}-${sequence}`;
 };
 
+// Record a payment an admin took outside Stripe (bank transfer, cash) for a manual invoice
+export const recordOfflineInvoicePayment = async (invoice: {
+  id: string;
+  number: string;
+  contractorId: string;
+  status: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+}) => {
+  return prisma.$transaction(async (tx) => {
+    if (invoice.status === 'DRAFT') {
+      await recordManualInvoiceIssued(tx, invoice);
+    }
+
+    const payment = await tx.payment.create({
+      data: {
+        contractorId: invoice.contractorId,
+        amount: invoice.total / 100, // Store in pounds
+        type: 'MANUAL_INVOICE',
+        status: 'COMPLETED',
+        description: `Manual invoice payment: ${invoice.number} (recorded by admin)`,
+      },
+    });
+    await recordPaymentReceived(tx, payment);
+
+    return payment;
+  });
+};
+
 // Generate and save invoice PDF
 export const generateAndSaveInvoicePDF = async (invoiceId: string): Promise<string> => {
   const invoice = await prisma.manualInvoice.findUnique({
@@ -0,0 +1,282 @@
+import { MilestoneStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+import { processCommissionForJob } from './commissionService';
+
+/**
+ * Milestones and staged payments.
+ *
+ * Larger jobs are split into stages, each optionally carrying the amount the customer pays
+ * for it. The contractor marks a stage COMPLETED, the customer approves it (or sends it
+ * back), and approval locks the amount, issues a stage invoice to the customer and raises
+ * commission on that stage. Commission on the final price then only covers what the
+ * approved stages didn't.
+ */
+
+// Statuses either side can set directly; APPROVED only comes from approveMilestone
+export const EDITABLE_MILESTONE_STATUSES: MilestoneStatus[] = ['PENDING', 'IN_PROGRESS', 'COMPLETED'];
+
+type MilestoneAmount = { id: string; amount: Prisma.Decimal | null; status: MilestoneStatus };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Validate a stage amount. `undefined` means "not sent", `null` clears it.
+ */
+export function parseMilestoneAmount(value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new AppError('amount must be a positive number', 400);
+  }
+  return round2(amount);
+}
+
+/**
+ * The price the stages are measured against: the confirmed final price, else the accepted
+ * quote. Null when nothing has been agreed yet.
+ */
+export function getAgreedJobAmount(job: { finalAmount: Prisma.Decimal | null; contractorProposedAmount: Prisma.Decimal | null }) {
+  const agreed = job.finalAmount ?? job.contractorProposedAmount;
+  return agreed ? Number(agreed) : null;
+}
+
+/**
+ * Money totals across a job's milestones.
+ */
+export function summariseMilestones(milestones: MilestoneAmount[], agreedAmount: number | null) {
+  const totalAmount = round2(milestones.reduce((sum, milestone) => sum + Number(milestone.amount ?? 0), 0));
+  const approvedAmount = round2(
+    milestones
+      .filter((milestone) => milestone.status === 'APPROVED')
+      .reduce((sum, milestone) => sum + Number(milestone.amount ?? 0), 0)
+  );
+
+  return {
+    agreedAmount,
+    totalAmount,
+    approvedAmount,
+    outstandingAmount: round2(totalAmount - approvedAmount),
+    unallocatedAmount: agreedAmount === null ? null : round2(agreedAmount - totalAmount),
+  };
+}
+
+/**
+ * Reject stage amounts that would add up to more than the agreed price.
+ */
+export function assertWithinAgreedAmount(
+  milestones: MilestoneAmount[],
+  change: { id?: string; amount: number | null },
+  agreedAmount: number | null
+) {
+  if (agreedAmount === null || change.amount === null) {
+    return;
+  }
+
+  const others = milestones.filter((milestone) => milestone.id !== change.id);
+  const total = round2(others.reduce((sum, milestone) => sum + Number(milestone.amount ?? 0), 0) + change.amount);
+  if (total > agreedAmount) {
+    throw new AppError(
+      `Stage amounts would total £${total.toFixed(2)}, more than the agreed price of £${agreedAmount.toFixed(2)}`,
+      400
+    );
+  }
+}
+
+/**
+ * Load a job for the milestone endpoints and work out who the signed-in user is to it.
+ * The assigned contractor is the one whose application was accepted, or who won the job.
+ */
+export async function getMilestoneJob(jobId: string, userId: string | undefined) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    include: {
+      customer: { include: { user: true } },
+      wonByContractor: { include: { user: true } },
+      applications: {
+        where: { status: 'ACCEPTED' },
+        include: { contractor: { include: { user: true } } },
+      },
+    },
+  });
+
+  if (!job) {
+    throw new AppError('Job not found', 404);
+  }
+
+  const isJobOwner = job.customer.user.id === userId;
+  const assignedContractor = job.applications[0]?.contractor ?? job.wonByContractor;
+  const isAssignedContractor = !!assignedContractor && assignedContractor.user.id === userId;
+
+  if (!isJobOwner && !isAssignedContractor) {
+    throw new AppError('Access denied', 403);
+  }
+
+  return { job, assignedContractor, isJobOwner, isAssignedContractor };
+}
+
+async function getJobMilestone(jobId: string, milestoneId: string) {
+  const milestone = await prisma.milestone.findFirst({
+    where: { id: milestoneId, jobId },
+  });
+
+  if (!milestone) {
+    throw new AppError('Milestone not found', 404);
+  }
+  return milestone;
+}
+
+/**
+ * Customer signs off a completed stage. Stages with an amount get a stage invoice number
+ * and commission is raised on them.
+ */
+export async function approveMilestone(params: { jobId: string; milestoneId: string; userId: string }) {
+  const { job, assignedContractor, isJobOwner } = await getMilestoneJob(params.jobId, params.userId);
+  if (!isJobOwner) {
+    throw new AppError('Only the customer can approve a stage', 403);
+  }
+
+  const milestone = await getJobMilestone(job.id, params.milestoneId);
+  if (milestone.status !== 'COMPLETED') {
+    throw new AppError('Only stages the contractor has marked complete can be approved', 409);
+  }
+
+  const now = new Date();
+  // Guarded on status so a double submit can't approve (and charge) twice
+  const claimed = await prisma.milestone.updateMany({
+    where: { id: milestone.id, status: 'COMPLETED' },
+    data: {
+      status: 'APPROVED',
+      approvedAt: now,
+      approvedBy: params.userId,
+      invoiceNumber: milestone.amount ? `STG-${now.getTime()}-${job.id.slice(-6)}` : null,
+    },
+  });
+  if (claimed.count === 0) {
+    throw new AppError('This stage has already been approved', 409);
+  }
+
+  if (milestone.amount && job.wonByContractorId) {
+    try {
+      await processCommissionForJob(job.id, Number(milestone.amount), { milestoneId: milestone.id });
+    } catch (error) {
+      console.error(`Failed to process commission for milestone ${milestone.id}:`, error);
+    }
+  }
+
+  if (assignedContractor) {
+    await createNotification({
+      userId: assignedContractor.user.id,
+      title: 'Stage Approved',
+      message: milestone.amount
+        ? `The customer approved "${milestone.title}" (£${Number(milestone.amount).toFixed(2)}) on: ${job.title}`
+        : `The customer approved "${milestone.title}" on: ${job.title}`,
+      type: 'SUCCESS',
+      actionLink: `/dashboard/contractor/jobs/${job.id}`,
+      actionText: 'View Job',
+      metadata: { jobId: job.id, milestoneId: milestone.id },
+    });
+  }
+
+  return prisma.milestone.findUniqueOrThrow({ where: { id: milestone.id } });
+}
+
+/**
+ * Customer sends a completed stage back to the contractor with a reason.
+ */
+export async function rejectMilestone(params: { jobId: string; milestoneId: string; userId: string; reason: unknown }) {
+  const { job, assignedContractor, isJobOwner } = await getMilestoneJob(params.jobId, params.userId);
+  if (!isJobOwner) {
+    throw new AppError('Only the customer can send a stage back', 403);
+  }
+
+  const reason = typeof params.reason === 'string' ? params.reason.trim() : '';
+  if (!reason) {
+    throw new AppError('Please say what still needs doing', 400);
+  }
+
+  const milestone = await getJobMilestone(job.id, params.milestoneId);
+  if (milestone.status !== 'COMPLETED') {
+    throw new AppError('Only stages waiting for approval can be sent back', 409);
+  }
+
+  const updated = await prisma.milestone.update({
+    where: { id: milestone.id },
+    data: {
+      status: 'IN_PROGRESS',
+      completedAt: null,
+      rejectedAt: new Date(),
+      rejectionReason: reason,
+    },
+  });
+
+  if (assignedContractor) {
+    await createNotification({
+      userId: assignedContractor.user.id,
+      title: 'Stage Sent Back',
+      message: `The customer isn't ready to approve "${milestone.title}" on ${job.title}: ${reason}`,
+      type: 'WARNING',
+      actionLink: `/dashboard/contractor/jobs/${job.id}`,
+      actionText: 'View Job',
+      metadata: { jobId: job.id, milestoneId: milestone.id },
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Invoice data for an approved stage, billed by the contractor to the customer. VAT follows
+ * the accepted quote; without one the stage is invoiced without VAT.
+ */
+export async function getStageInvoiceData(params: { jobId: string; milestoneId: string; userId: string }) {
+  const { job, assignedContractor } = await getMilestoneJob(params.jobId, params.userId);
+  const milestone = await getJobMilestone(job.id, params.milestoneId);
+
+  if (milestone.status !== 'APPROVED' || !milestone.amount || !milestone.invoiceNumber) {
+    throw new AppError('Invoices are only available for approved stages with an amount', 409);
+  }
+  if (!assignedContractor) {
+    throw new AppError('No contractor is assigned to this job', 409);
+  }
+
+  const acceptedQuote = await prisma.jobQuote.findFirst({
+    where: { jobId: job.id, status: 'ACCEPTED' },
+    select: { vatTreatment: true, vatRate: true },
+  });
+  const vatRate = acceptedQuote && acceptedQuote.vatTreatment !== 'NOT_REGISTERED' ? Number(acceptedQuote.vatRate) : 0;
+
+  // Stage amounts are what the customer pays, so VAT is backed out of them
+  const totalAmount = Number(milestone.amount);
+  const amount = round2(totalAmount / (1 + vatRate / 100));
+
+  return {
+    invoiceNumber: milestone.invoiceNumber,
+    recipientName: job.customer.user.name,
+    recipientEmail: job.customer.user.email,
+    recipientAddress: job.location || undefined,
+    description: `${job.title} — ${milestone.title}`,
+    amount,
+    vatAmount: round2(totalAmount - amount),
+    totalAmount,
+    vatRate,
+    issuedAt: milestone.approvedAt ?? milestone.updatedAt,
+    paymentType: 'Stage payment',
+    items: [{ description: `Stage: ${milestone.title}`, quantity: 1, amount }],
+    issuer: {
+      name: assignedContractor.businessName || assignedContractor.user.name,
+      details: [
+        assignedContractor.businessAddress,
+        [assignedContractor.city, assignedContractor.postcode].filter(Boolean).join(' '),
+        assignedContractor.user.email,
+      ].filter((line): line is string => !!line),
+    },
+  };
+}
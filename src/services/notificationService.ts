@@ -1,5 +1,6 @@
 import { PrismaClient, NotificationType } from '@prisma/client';
 import webpush from 'web-push';
+import { Pagination, getPrismaPageArgs, buildPageResult } from '../utils/pagination';
 
 const prisma = new PrismaClient();
 const isPushConfigured = Boolean(
@@ -116,7 +117,8 @@ export async function createBulkNotifications(notifications: NotificationData[])
 }
 
 /**
- * Get notifications for a user
+ * Get notifications for a user. Pass `pagination` (from getPagination) for page or
+ * cursor paging with metadata; `limit`/`offset` are kept for count-only callers.
  */
 export async function getUserNotifications(
   userId: string,
@@ -124,6 +126,7 @@ export async function getUserNotifications(
     unreadOnly?: boolean;
     limit?: number;
     offset?: number;
+    pagination?: Pagination;
   }
 ) {
   try {
@@ -139,12 +142,15 @@ export async function getUserNotifications(
       { expiresAt: { gt: new Date() } }
     ];
 
-    const [notifications, unreadCount] = await Promise.all([
+    const pagination = options?.pagination;
+
+    const [rows, unreadCount, total] = await Promise.all([
       prisma.notification.findMany({
         where,
-        orderBy: { createdAt: 'desc' },
-        take: options?.limit || 50,
-        skip: options?.offset || 0,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...(pagination
+          ? getPrismaPageArgs(pagination)
+          : { take: options?.limit || 50, skip: options?.offset || 0 }),
       }),
       prisma.notification.count({
         where: {
@@ -156,9 +162,15 @@ export async function getUserNotifications(
           ],
         },
       }),
+      pagination?.mode === 'page' ? prisma.notification.count({ where }) : undefined,
     ]);
 
-    return { notifications, unreadCount };
+    if (!pagination) {
+      return { notifications: rows, unreadCount };
+    }
+
+    const { items: notifications, pagination: paginationMeta } = buildPageResult(rows, pagination, total);
+    return { notifications, unreadCount, pagination: paginationMeta };
   } catch (error) {
     console.error('Error getting user notifications:', error);
     throw error;
@@ -0,0 +1,369 @@
+import Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getStripeClient } from '../config/stripe';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+import { settleCommissionFromPaymentIntent } from './commissionService';
+
+/**
+ * Contractors' saved cards.
+ *
+ * Cards are saved with a SetupIntent on the contractor's Stripe customer (the StripeCustomer
+ * row) and live in Stripe; the default is the customer's invoice_settings default, which
+ * subscriptions already use. Saved cards are charged two ways:
+ * - on-session, when the contractor buys a lead in one click. If the bank wants to
+ *   authenticate, the intent comes back for the client to confirm.
+ * - off-session, for commission auto-pay on the due date. If the bank wants to authenticate,
+ *   the commission is left for the contractor to pay through the normal payment flow.
+ */
+
+export interface SavedPaymentMethod {
+  id: string;
+  brand: string | null;
+  last4: string | null;
+  expMonth: number | null;
+  expYear: number | null;
+  isDefault: boolean;
+}
+
+export type SavedCardCharge =
+  | { status: 'succeeded'; paymentIntent: Stripe.PaymentIntent }
+  | { status: 'requires_action'; paymentIntent: Stripe.PaymentIntent };
+
+/**
+ * The contractor's Stripe customer id, creating the customer the first time it's needed.
+ */
+export async function getOrCreateStripeCustomer(contractorId: string): Promise<string> {
+  const existing = await prisma.stripeCustomer.findUnique({ where: { contractorId } });
+  if (existing) {
+    return existing.stripeCustomerId;
+  }
+
+  const contractor = await prisma.contractor.findUnique({
+    where: { id: contractorId },
+    include: { user: { select: { name: true, email: true } } },
+  });
+  if (!contractor) {
+    throw new AppError('Contractor profile not found', 404);
+  }
+
+  const customer = await getStripeClient().customers.create({
+    email: contractor.user.email,
+    name: contractor.businessName || contractor.user.name,
+    metadata: {
+      contractorId: contractor.id,
+      userId: contractor.userId,
+    },
+  });
+
+  // A concurrent request may have created one too; keep whichever was saved first
+  const saved = await prisma.stripeCustomer.upsert({
+    where: { contractorId },
+    create: { contractorId, stripeCustomerId: customer.id },
+    update: {},
+  });
+  return saved.stripeCustomerId;
+}
+
+/**
+ * Start saving a card. The client confirms the SetupIntent with Stripe.js; the card is then
+ * attached to the customer and shows up in listPaymentMethods.
+ */
+export async function createCardSetupIntent(contractorId: string) {
+  const customerId = await getOrCreateStripeCustomer(contractorId);
+
+  const setupIntent = await getStripeClient().setupIntents.create({
+    customer: customerId,
+    usage: 'off_session',
+    automatic_payment_methods: {
+      enabled: true,
+      allow_redirects: 'never',
+    },
+    metadata: { contractorId },
+  });
+
+  return { clientSecret: setupIntent.client_secret, setupIntentId: setupIntent.id };
+}
+
+async function getDefaultPaymentMethodId(customerId: string) {
+  const customer = await getStripeClient().customers.retrieve(customerId);
+  if (customer.deleted) {
+    return null;
+  }
+  const defaultMethod = customer.invoice_settings?.default_payment_method;
+  return typeof defaultMethod === 'string' ? defaultMethod : defaultMethod?.id ?? null;
+}
+
+export async function listPaymentMethods(contractorId: string): Promise<SavedPaymentMethod[]> {
+  const stripeCustomer = await prisma.stripeCustomer.findUnique({ where: { contractorId } });
+  if (!stripeCustomer) {
+    return [];
+  }
+
+  const stripe = getStripeClient();
+  const [methods, defaultId] = await Promise.all([
+    stripe.paymentMethods.list({ customer: stripeCustomer.stripeCustomerId, type: 'card' }),
+    getDefaultPaymentMethodId(stripeCustomer.stripeCustomerId),
+  ]);
+
+  return methods.data.map((method) => ({
+    id: method.id,
+    brand: method.card?.brand ?? null,
+    last4: method.card?.last4 ?? null,
+    expMonth: method.card?.exp_month ?? null,
+    expYear: method.card?.exp_year ?? null,
+    // With no default set, the only card is used as one
+    isDefault: defaultId ? method.id === defaultId : methods.data.length === 1,
+  }));
+}
+
+/**
+ * Look up a card and check it belongs to the contractor.
+ */
+async function getOwnPaymentMethod(contractorId: string, paymentMethodId: string) {
+  const stripeCustomer = await prisma.stripeCustomer.findUnique({ where: { contractorId } });
+  if (!stripeCustomer) {
+    throw new AppError('Payment method not found', 404);
+  }
+
+  let method: Stripe.PaymentMethod;
+  try {
+    method = await getStripeClient().paymentMethods.retrieve(paymentMethodId);
+  } catch (error: any) {
+    throw new AppError('Payment method not found', 404);
+  }
+
+  const owner = typeof method.customer === 'string' ? method.customer : method.customer?.id;
+  if (owner !== stripeCustomer.stripeCustomerId) {
+    throw new AppError('Payment method not found', 404);
+  }
+
+  return { method, stripeCustomer };
+}
+
+export async function setDefaultPaymentMethod(contractorId: string, paymentMethodId: string) {
+  const { stripeCustomer } = await getOwnPaymentMethod(contractorId, paymentMethodId);
+
+  await getStripeClient().customers.update(stripeCustomer.stripeCustomerId, {
+    invoice_settings: { default_payment_method: paymentMethodId },
+  });
+
+  return listPaymentMethods(contractorId);
+}
+
+/**
+ * Remove a saved card. Auto-pay is switched off when the last card goes.
+ */
+export async function removePaymentMethod(contractorId: string, paymentMethodId: string) {
+  const { stripeCustomer } = await getOwnPaymentMethod(contractorId, paymentMethodId);
+
+  await getStripeClient().paymentMethods.detach(paymentMethodId);
+
+  const remaining = await listPaymentMethods(contractorId);
+  if (remaining.length === 0 && stripeCustomer.autoPayCommissions) {
+    await prisma.stripeCustomer.update({
+      where: { id: stripeCustomer.id },
+      data: { autoPayCommissions: false },
+    });
+  }
+  return remaining;
+}
+
+export async function setCommissionAutoPay(contractorId: string, enabled: boolean) {
+  if (enabled) {
+    const methods = await listPaymentMethods(contractorId);
+    if (!methods.some((method) => method.isDefault)) {
+      throw new AppError('Save a card and make it your default before turning on auto-pay', 400);
+    }
+  }
+
+  const stripeCustomer = await prisma.stripeCustomer.findUnique({ where: { contractorId } });
+  if (!stripeCustomer) {
+    return { autoPayCommissions: false };
+  }
+
+  const updated = await prisma.stripeCustomer.update({
+    where: { id: stripeCustomer.id },
+    data: { autoPayCommissions: enabled },
+  });
+  return { autoPayCommissions: updated.autoPayCommissions };
+}
+
+/**
+ * Charge a saved card: the one given, or the default. Card declines become a 402; an intent
+ * the bank wants authenticated is returned as requires_action rather than thrown.
+ *
+ * `idempotencyKey` makes a repeated request (a double click) return the first PaymentIntent
+ * instead of charging again. The card and amount are added to it, so paying with another
+ * card after a decline, or at a new price, is a fresh charge.
+ */
+export async function chargeSavedCard(params: {
+  contractorId: string;
+  amount: number; // Pounds, VAT included
+  description: string;
+  metadata: Record<string, string>;
+  paymentMethodId?: string;
+  offSession?: boolean;
+  idempotencyKey?: string;
+}): Promise<SavedCardCharge> {
+  const customerId = await getOrCreateStripeCustomer(params.contractorId);
+
+  let paymentMethodId = params.paymentMethodId;
+  if (paymentMethodId) {
+    await getOwnPaymentMethod(params.contractorId, paymentMethodId);
+  } else {
+    const methods = await listPaymentMethods(params.contractorId);
+    paymentMethodId = methods.find((method) => method.isDefault)?.id;
+  }
+  if (!paymentMethodId) {
+    throw new AppError('You have no saved card to pay with', 400);
+  }
+
+  const stripe = getStripeClient();
+  const amountPence = Math.round(params.amount * 100);
+  try {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: amountPence,
+      currency: 'gbp',
+      customer: customerId,
+      payment_method: paymentMethodId,
+      confirm: true,
+      description: params.description,
+      metadata: params.metadata,
+      ...(params.offSession
+        ? { off_session: true }
+        : { automatic_payment_methods: { enabled: true, allow_redirects: 'never' as const } }),
+    }, params.idempotencyKey ? { idempotencyKey: `${params.idempotencyKey}-${paymentMethodId}-${amountPence}` } : undefined);
+
+    if (paymentIntent.status === 'succeeded') {
+      return { status: 'succeeded', paymentIntent };
+    }
+    if (paymentIntent.status === 'requires_action') {
+      return { status: 'requires_action', paymentIntent };
+    }
+    throw new AppError(`Payment was not completed (${paymentIntent.status})`, 402);
+  } catch (error: any) {
+    // Off-session charges the bank wants to authenticate fail with the intent attached
+    if (error?.code === 'authentication_required' && error.payment_intent) {
+      return { status: 'requires_action', paymentIntent: error.payment_intent as Stripe.PaymentIntent };
+    }
+    if (error instanceof AppError) {
+      throw error;
+    }
+    if (error?.type === 'StripeCardError') {
+      throw new AppError(`Your card was declined: ${error.message}`, 402);
+    }
+    throw new AppError(`Stripe payment error: ${error.message}`, 400);
+  }
+}
+
+/**
+ * Note why auto-pay didn't go through and send the contractor to pay that commission themselves.
+ */
+async function recordAutoPayFailure(
+  commission: { id: string; totalAmount: Prisma.Decimal; job: { title: string }; contractor: { userId: string } },
+  failureReason: string,
+  options: { needsAuthentication?: boolean } = {}
+) {
+  await prisma.commissionPayment.update({
+    where: { id: commission.id },
+    data: { autoPayFailureReason: failureReason },
+  });
+
+  const amount = `£${Number(commission.totalAmount).toFixed(2)}`;
+  await createNotification({
+    userId: commission.contractor.userId,
+    title: options.needsAuthentication ? 'Approve Your Commission Payment' : 'Commission Auto-Pay Failed',
+    message: options.needsAuthentication
+      ? `Your bank needs you to approve the ${amount} commission for "${commission.job.title}". Open the payment to approve it with your bank and avoid your account being suspended.`
+      : `We couldn't charge your saved card ${amount} for "${commission.job.title}" (${failureReason}). Please pay it now to avoid your account being suspended.`,
+    type: 'WARNING',
+    // Opens this commission's payment, which starts the usual on-session flow
+    actionLink: `/dashboard/contractor/commissions?commissionPaymentId=${commission.id}`,
+    actionText: options.needsAuthentication ? 'Approve Payment' : 'Pay Now',
+    metadata: { commissionPaymentId: commission.id, needsAuthentication: !!options.needsAuthentication },
+  });
+}
+
+/**
+ * Pay commissions due today (or earlier) with the default card for contractors who opted in.
+ * Each commission is tried once. Runs before the overdue check, so a successful charge
+ * doesn't get the account suspended.
+ */
+export async function processCommissionAutoPay(now: Date = new Date()) {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+
+  const commissions = await prisma.commissionPayment.findMany({
+    where: {
+      status: 'PENDING',
+      dueDate: { lte: endOfToday },
+      autoPayAttemptedAt: null,
+      contractor: { stripeCustomerInfo: { autoPayCommissions: true } },
+    },
+    include: {
+      job: { select: { title: true } },
+      contractor: { select: { userId: true } },
+    },
+  });
+
+  let paid = 0;
+  let failed = 0;
+  for (const commission of commissions) {
+    // Claimed first so an overlapping run doesn't charge it twice
+    const claimed = await prisma.commissionPayment.updateMany({
+      where: { id: commission.id, autoPayAttemptedAt: null, status: 'PENDING' },
+      data: { autoPayAttemptedAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    let charge: SavedCardCharge;
+    try {
+      charge = await chargeSavedCard({
+        contractorId: commission.contractorId,
+        amount: Number(commission.totalAmount),
+        description: `Commission for job: ${commission.job.title}`,
+        metadata: {
+          commissionPaymentId: commission.id,
+          contractorId: commission.contractorId,
+          jobId: commission.jobId,
+          type: 'commission_payment',
+          autoPay: 'true',
+        },
+        offSession: true,
+      });
+    } catch (error: any) {
+      failed++;
+      await recordAutoPayFailure(commission, error.message);
+      continue;
+    }
+
+    if (charge.status === 'succeeded') {
+      // The money has been taken: from here on nothing may report the charge as failed
+      paid++;
+      try {
+        await settleCommissionFromPaymentIntent(charge.paymentIntent);
+      } catch (error) {
+        console.error(`Failed to settle auto-paid commission ${commission.id}; the payment webhook will retry:`, error);
+      }
+      await createNotification({
+        userId: commission.contractor.userId,
+        title: 'Commission Paid Automatically',
+        message: `£${Number(commission.totalAmount).toFixed(2)} commission for "${commission.job.title}" was charged to your saved card.`,
+        type: 'SUCCESS',
+        actionLink: '/dashboard/contractor/commissions',
+        actionText: 'View Commissions',
+      }).catch((error) => console.error('Failed to send auto-pay notification:', error));
+      continue;
+    }
+
+    // The bank wants to authenticate. Cancel the off-session intent so only the one the
+    // contractor confirms on the commission payment page (create-commission-payment-intent) can go through.
+    await getStripeClient().paymentIntents.cancel(charge.paymentIntent.id).catch(() => undefined);
+    failed++;
+    await recordAutoPayFailure(commission, 'Your bank needs you to approve this payment', { needsAuthentication: true });
+  }
+
+  return { attempted: commissions.length, paid, failed };
+}
@@ -1,29 +1,10 @@
 import Stripe from 'stripe';
 import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import { getStripeClient } from '../config/stripe';
 import { AppError } from '../middleware/errorHandler';
-
-let stripeClient: Stripe | null = null;
-
-function getStripeInstance(): Stripe {
-  if (!stripeClient) {
-    const stripeKey = process.env.STRIPE_SECRET_KEY;
-
-    if (!stripeKey) {
-      throw new Error('STRIPE_SECRET_KEY is not configured');
-    }
-
-    if (!stripeKey.startsWith('sk_test_') && !stripeKey.startsWith('sk_live_')) {
-      throw new Error('Invalid Stripe API key format');
-    }
-
-    stripeClient = new Stripe(stripeKey, {
-      apiVersion: '2023-10-16',
-    });
-  }
-
-  return stripeClient;
-}
+import { recordPaymentReceived } from './ledgerService';
+import { reconcileStripeRefund } from './refundService';
 
 interface ReconcileResult {
   jobId: string;
@@ -32,6 +13,7 @@ interface ReconcileResult {
   paymentId: string;
   createdJobAccess: boolean;
   createdPayment: boolean;
+  duplicate: boolean; // The contractor already had this lead; the charge is recorded and refunded
 }
 
 function getLeadPriceFromMetadata(paymentIntent: Stripe.PaymentIntent): number {
@@ -64,7 +46,7 @@ export async function reconcileJobAccessFromPaymentIntent(
 
   const leadPrice = getLeadPriceFromMetadata(paymentIntent);
 
-  return prisma.$transaction(async (tx) => {
+  const result = await prisma.$transaction(async (tx) => {
     const [job, contractor] = await Promise.all([
       tx.job.findUnique({
         where: { id: jobId },
@@ -122,7 +104,27 @@ export async function reconcileJobAccessFromPaymentIntent(
       where: { stripePaymentId: paymentIntent.id },
     });
     let createdPayment = false;
-    if (!payment) {
+
+    // Access the contractor already had (paid by another charge, or with credits) makes this
+    // charge a duplicate. Record it against the job without the access so it can be refunded.
+    const accessPayment = payment ? null : await tx.payment.findUnique({ where: { jobAccessId: jobAccess.id } });
+    const duplicate =
+      !payment && !createdJobAccess && (accessPayment !== null || jobAccess.accessMethod !== 'PAYMENT');
+    if (duplicate) {
+      payment = await tx.payment.create({
+        data: {
+          contractorId,
+          jobId,
+          amount: Number(paymentIntent.amount) / 100,
+          type: 'LEAD_ACCESS',
+          status: 'COMPLETED',
+          stripePaymentId: paymentIntent.id,
+          description: `Duplicate job access charge for: ${job.title}`,
+        },
+      });
+      await recordPaymentReceived(tx, payment);
+      createdPayment = true;
+    } else if (!payment) {
       payment = await tx.payment.create({
         data: {
           contractorId,
@@ -135,6 +137,7 @@ export async function reconcileJobAccessFromPaymentIntent(
           description: `Job access purchased for: ${job.title}`,
         },
       });
+      await recordPaymentReceived(tx, payment);
       createdPayment = true;
     } else if (!payment.jobAccessId) {
       payment = await tx.payment.update({
@@ -150,14 +153,38 @@ export async function reconcileJobAccessFromPaymentIntent(
       paymentId: payment.id,
       createdJobAccess,
       createdPayment,
+      duplicate,
     };
   });
+
+  if (result.duplicate) {
+    await refundDuplicateCharge(paymentIntent.id);
+  }
+
+  return result;
+}
+
+/**
+ * Give back a lead charge that bought nothing. A failed refund is logged and the payment
+ * stays on record as a duplicate for an admin to refund.
+ */
+async function refundDuplicateCharge(paymentIntentId: string) {
+  try {
+    const refund = await getStripeClient().refunds.create(
+      { payment_intent: paymentIntentId, reason: 'duplicate', metadata: { internalReason: 'Job access was already purchased' } },
+      { idempotencyKey: `duplicate-lead-${paymentIntentId}` }
+    );
+    // Records the refund, posts it to the ledger and marks the payment refunded
+    await reconcileStripeRefund(refund);
+  } catch (error) {
+    console.error(`[reconcile] Failed to refund duplicate lead charge ${paymentIntentId}:`, error);
+  }
 }
 
 export async function reconcileJobAccessPaymentIntentById(
   paymentIntentId: string
 ): Promise<ReconcileResult> {
-  const stripe = getStripeInstance();
+  const stripe = getStripeClient();
   const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
   return reconcileJobAccessFromPaymentIntent(paymentIntent);
 }
@@ -26,7 +26,19 @@ export async function generateInvoicePDF(invoiceData: {
     quantity: number;
     amount: number;
   }>;
+  // Who is billing, when it isn't TrustBuild itself (e.g. a contractor's stage invoice)
+  issuer?: {
+    name: string;
+    details: string[];
+  };
+  // Render as a credit note for a refund; the amounts are what's being credited
+  creditNote?: {
+    originalInvoiceNumber?: string;
+    reason: string;
+  };
 }) {
+  const documentTitle = invoiceData.creditNote ? 'Credit Note' : 'Invoice';
+
   return new Promise<Buffer>((resolve, reject) => {
     try {
       // Create a PDF document
@@ -39,9 +51,9 @@ export async function generateInvoicePDF(invoiceData: {
           right: 50
         },
         info: {
-          Title: `Invoice ${invoiceData.invoiceNumber}`,
+          Title: `${documentTitle} ${invoiceData.invoiceNumber}`,
           Author: 'TrustBuild',
-          Subject: 'Invoice',
+          Subject: documentTitle,
           Keywords: 'invoice, trustbuild',
           CreationDate: new Date(),
         }
@@ -53,32 +65,43 @@ export async function generateInvoicePDF(invoiceData: {
       doc.on('end', () => resolve(Buffer.concat(buffers)));
       
       // Company Details (HMRC Compliant Header)
+      const issuer = invoiceData.issuer || {
+        name: 'TRUSTBUILDERS LTD',
+        details: [
+          '124 City Road, London, United Kingdom, EC1V 2NX',
+          'Company Registration No: 16452861',
+          'VAT Registration No: 496 3800 58',
+        ],
+      };
       doc.fontSize(18)
         .font('Helvetica-Bold')
-        .text('TRUSTBUILDERS LTD', { align: 'left' })
+        .text(issuer.name, { align: 'left' })
         .font('Helvetica')
-        .fontSize(10)
-        .text('124 City Road, London, United Kingdom, EC1V 2NX')
-        .text('Company Registration No: 16452861')
-        .text('VAT Registration No: 496 3800 58')
-        .moveDown(0.5);
+        .fontSize(10);
+      issuer.details.forEach((line) => doc.text(line));
+      doc.moveDown(0.5);
       
       // Invoice title
       doc.fontSize(20)
         .font('Helvetica-Bold')
-        .text('INVOICE', { align: 'right' })
+        .text(documentTitle.toUpperCase(), { align: 'right' })
         .font('Helvetica')
         .moveDown(0.5);
       
       // Invoice information (right aligned)
       const invoiceInfoX = 350;
       doc.fontSize(10)
-        .text(`Invoice Number:`, invoiceInfoX, doc.y, { continued: true, width: 100 })
+        .text(`${documentTitle} Number:`, invoiceInfoX, doc.y, { continued: true, width: 100 })
         .font('Helvetica-Bold')
         .text(` ${invoiceData.invoiceNumber}`, { align: 'right' })
         .font('Helvetica')
-        .text(`Invoice Date:`, invoiceInfoX, doc.y, { continued: true, width: 100 })
+        .text(`${documentTitle} Date:`, invoiceInfoX, doc.y, { continued: true, width: 100 })
         .text(` ${invoiceData.issuedAt.toLocaleDateString('en-GB')}`, { align: 'right' });
+
+      if (invoiceData.creditNote?.originalInvoiceNumber) {
+        doc.text(`Original Invoice:`, invoiceInfoX, doc.y, { continued: true, width: 100 })
+          .text(` ${invoiceData.creditNote.originalInvoiceNumber}`, { align: 'right' });
+      }
       
       if (invoiceData.dueAt) {
         doc.text(`Due Date:`, invoiceInfoX, doc.y, { continued: true, width: 100 })
@@ -87,14 +110,14 @@ export async function generateInvoicePDF(invoiceData: {
       
       doc.text(`Status:`, invoiceInfoX, doc.y, { continued: true, width: 100 })
         .font('Helvetica-Bold')
-        .text(` ${invoiceData.paidAt ? 'PAID' : 'UNPAID'}`, { align: 'right' })
+        .text(` ${invoiceData.creditNote ? 'CREDITED' : invoiceData.paidAt ? 'PAID' : 'UNPAID'}`, { align: 'right' })
         .font('Helvetica')
         .moveDown(2);
       
       // Bill To section
       doc.fontSize(11)
         .font('Helvetica-Bold')
-        .text('BILL TO:', 50, doc.y)
+        .text(invoiceData.creditNote ? 'CREDITED TO:' : 'BILL TO:', 50, doc.y)
         .font('Helvetica')
         .fontSize(10)
         .text(invoiceData.recipientName)
@@ -214,7 +237,11 @@ export async function generateInvoicePDF(invoiceData: {
         .moveDown(2);
       
       // Payment information
-      if (invoiceData.paidAt) {
+      if (invoiceData.creditNote) {
+        doc.text(`Reason for credit: ${invoiceData.creditNote.reason}`, { align: 'center' })
+          .moveDown(0.3)
+          .text('This amount has been refunded to the original payment method.', { align: 'center' });
+      } else if (invoiceData.paidAt) {
         doc.font('Helvetica-Bold')
           .text(`Payment received on ${invoiceData.paidAt.toLocaleDateString('en-GB')}`, { align: 'center' })
           .font('Helvetica');
@@ -232,10 +259,15 @@ export async function generateInvoicePDF(invoiceData: {
         .text('Thank you for your business', { align: 'center' })
         .moveDown(0.3)
         .font('Helvetica-Oblique')
-        .fontSize(8)
-        .text('TRUSTBUILDERS LTD | 124 City Road, London, EC1V 2NX', { align: 'center' })
-        .text('Company No: 16452861 | VAT No: 496 3800 58', { align: 'center' })
-        .font('Helvetica');
+        .fontSize(8);
+
+      if (invoiceData.issuer) {
+        doc.text(`${invoiceData.issuer.name} | Issued via TrustBuild`, { align: 'center' });
+      } else {
+        doc.text('TRUSTBUILDERS LTD | 124 City Road, London, EC1V 2NX', { align: 'center' })
+          .text('Company No: 16452861 | VAT No: 496 3800 58', { align: 'center' });
+      }
+      doc.font('Helvetica');
       
       // Finalize the PDF
       doc.end();
@@ -256,6 +288,7 @@ export async function generateCommissionInvoicePDF(invoiceData: {
   contractorName: string;
   contractorEmail: string;
   jobTitle: string;
+  stageTitle?: string | null;
   finalJobAmount: number;
   commissionAmount: number;
   vatAmount: number;
@@ -360,6 +393,12 @@ export async function generateCommissionInvoicePDF(invoiceData: {
         .text(`£${invoiceData.commissionAmount.toFixed(2)}`, col3X, itemY, { width: 80, align: 'right' })
         .text(`£${invoiceData.commissionAmount.toFixed(2)}`, col4X, itemY, { width: 50, align: 'right' });
 
+      if (invoiceData.stageTitle) {
+        doc.fontSize(9)
+          .text(`Stage: ${invoiceData.stageTitle} (£${invoiceData.finalJobAmount.toFixed(2)})`, col1X, doc.y, { width: 280 })
+          .fontSize(10);
+      }
+
       doc.moveDown(0.3);
       const totalsStartY = doc.y;
       doc.moveTo(col1X, totalsStartY).lineTo(col1X + tableWidth, totalsStartY).stroke().moveDown(0.3);
@@ -384,7 +423,10 @@ export async function generateCommissionInvoicePDF(invoiceData: {
         .moveDown(1.5);
 
       // Job summary note
-      doc.text(`This invoice relates to a job with a final agreed value of £${invoiceData.finalJobAmount.toFixed(2)}.`, { align: 'left' }).moveDown(0.5);
+      const summary = invoiceData.stageTitle
+        ? `This invoice relates to the "${invoiceData.stageTitle}" stage of the job, valued at £${invoiceData.finalJobAmount.toFixed(2)}.`
+        : `This invoice relates to a job with a final agreed value of £${invoiceData.finalJobAmount.toFixed(2)}.`;
+      doc.text(summary, col1X, doc.y, { align: 'left' }).moveDown(0.5);
 
       if (invoiceData.paidAt) {
         doc.font('Helvetica-Bold')
@@ -0,0 +1,241 @@
+import { ProgressPhotoPhase } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { getMilestoneJob } from './milestoneService';
+
+/**
+ * Milestone progress log.
+ *
+ * The contractor on a job records timestamped notes and photos against its milestones as
+ * the work goes on. The customer can follow it, admins see it on the job's disputes, and
+ * once the job is COMPLETED the contractor can publish before/after pairs from it to
+ * their portfolio.
+ */
+
+export const MAX_PHOTOS_PER_LOG_ENTRY = 10;
+export const PROGRESS_PHOTO_PHASES = Object.values(ProgressPhotoPhase) as ProgressPhotoPhase[];
+
+// Matches the limit addPortfolioItem enforces on contractors' work photos
+const MAX_PORTFOLIO_ITEMS = 20;
+const MAX_NOTE_LENGTH = 5000;
+
+export const PROGRESS_LOG_ENTRY_INCLUDE = {
+  photos: { orderBy: { createdAt: 'asc' } },
+  contractor: {
+    select: {
+      id: true,
+      businessName: true,
+      user: { select: { name: true } },
+    },
+  },
+} as const;
+
+export interface PortfolioPairInput {
+  beforePhotoId: string;
+  afterPhotoId: string;
+  title?: string;
+  description?: string;
+}
+
+type LogPhoto = { id: string; phase: ProgressPhotoPhase; url: string; publicId: string };
+
+export function parsePhotoPhase(value: unknown): ProgressPhotoPhase {
+  if (value === undefined || value === null || value === '') {
+    return 'PROGRESS';
+  }
+  if (!PROGRESS_PHOTO_PHASES.includes(value as ProgressPhotoPhase)) {
+    throw new AppError(`phase must be one of: ${PROGRESS_PHOTO_PHASES.join(', ')}`, 400);
+  }
+  return value as ProgressPhotoPhase;
+}
+
+export function parseLogNote(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new AppError('note must be text', 400);
+  }
+  const note = value.trim();
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new AppError(`note must be ${MAX_NOTE_LENGTH} characters or fewer`, 400);
+  }
+  return note || null;
+}
+
+/**
+ * Log entries are evidence: they can't be removed once the stage is signed off or
+ * while the job is in dispute.
+ */
+export function isProgressLogLocked(jobStatus: string, milestoneStatus: string): boolean {
+  return jobStatus === 'DISPUTED' || milestoneStatus === 'APPROVED';
+}
+
+/**
+ * Check the selected before/after pairs against the job's log photos and build the
+ * portfolio items for them.
+ */
+export function buildPortfolioPairs(
+  pairs: unknown,
+  photos: LogPhoto[],
+  defaults: { title: string; projectDate: Date | null; jobId: string }
+) {
+  if (!Array.isArray(pairs) || pairs.length === 0) {
+    throw new AppError('Choose at least one before/after pair to publish', 400);
+  }
+
+  const photosById = new Map(photos.map((photo) => [photo.id, photo]));
+  const used = new Set<string>();
+
+  return pairs.map((pair: Partial<PortfolioPairInput>, index) => {
+    const before = pair?.beforePhotoId ? photosById.get(pair.beforePhotoId) : undefined;
+    const after = pair?.afterPhotoId ? photosById.get(pair.afterPhotoId) : undefined;
+
+    if (!before || !after) {
+      throw new AppError(`Pair ${index + 1}: both photos must come from this job's progress log`, 400);
+    }
+    if (before.id === after.id) {
+      throw new AppError(`Pair ${index + 1}: the before and after photos must be different`, 400);
+    }
+    const key = `${before.id}:${after.id}`;
+    if (used.has(key)) {
+      throw new AppError(`Pair ${index + 1}: this pair has already been selected`, 400);
+    }
+    used.add(key);
+
+    const title = typeof pair.title === 'string' && pair.title.trim() ? pair.title.trim() : defaults.title;
+    const description = typeof pair.description === 'string' && pair.description.trim() ? pair.description.trim() : null;
+
+    return {
+      title,
+      description,
+      imageUrl: after.url,
+      cloudinaryId: after.publicId,
+      beforeImageUrl: before.url,
+      beforeCloudinaryId: before.publicId,
+      projectDate: defaults.projectDate,
+      sourceJobId: defaults.jobId,
+    };
+  });
+}
+
+/**
+ * A job's milestones with their progress log, oldest first.
+ */
+export async function getJobProgressLog(jobId: string, milestoneId?: string) {
+  return prisma.milestone.findMany({
+    where: { jobId, ...(milestoneId && { id: milestoneId }) },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      logEntries: {
+        orderBy: { createdAt: 'asc' },
+        include: PROGRESS_LOG_ENTRY_INCLUDE,
+      },
+    },
+  });
+}
+
+/**
+ * Load the job and milestone a contractor is logging against, checking they are the
+ * job's assigned contractor.
+ */
+export async function getLogTarget(jobId: string, milestoneId: string, userId: string) {
+  const { job, assignedContractor, isAssignedContractor } = await getMilestoneJob(jobId, userId);
+  if (!isAssignedContractor || !assignedContractor) {
+    throw new AppError('Only the contractor on this job can add to its progress log', 403);
+  }
+
+  const milestone = await prisma.milestone.findFirst({
+    where: { id: milestoneId, jobId: job.id },
+  });
+  if (!milestone) {
+    throw new AppError('Milestone not found', 404);
+  }
+  if (milestone.status === 'APPROVED') {
+    throw new AppError('This stage has been approved - add updates to a later stage', 409);
+  }
+
+  return { job, milestone, contractor: assignedContractor };
+}
+
+/**
+ * Remove one of the contractor's own log entries while it can still be changed. Returns the
+ * Cloudinary IDs the caller can delete.
+ */
+export async function deleteLogEntry(params: { jobId: string; entryId: string; userId: string }) {
+  const { job, assignedContractor, isAssignedContractor } = await getMilestoneJob(params.jobId, params.userId);
+  if (!isAssignedContractor || !assignedContractor) {
+    throw new AppError('Only the contractor on this job can change its progress log', 403);
+  }
+
+  const entry = await prisma.milestoneLogEntry.findFirst({
+    where: { id: params.entryId, jobId: job.id, contractorId: assignedContractor.id },
+    include: { photos: true, milestone: { select: { status: true } } },
+  });
+  if (!entry) {
+    throw new AppError('Log entry not found', 404);
+  }
+  if (isProgressLogLocked(job.status, entry.milestone.status)) {
+    throw new AppError('Progress log entries are kept once a stage is approved or the job is disputed', 409);
+  }
+
+  await prisma.milestoneLogEntry.delete({ where: { id: entry.id } });
+
+  // Photos already on the portfolio keep their files
+  const publicIds = entry.photos.map((photo) => photo.publicId);
+  const published = await prisma.portfolioItem.findMany({
+    where: {
+      OR: [{ cloudinaryId: { in: publicIds } }, { beforeCloudinaryId: { in: publicIds } }],
+    },
+    select: { cloudinaryId: true, beforeCloudinaryId: true },
+  });
+  const keep = new Set(published.flatMap((item) => [item.cloudinaryId, item.beforeCloudinaryId]));
+
+  return publicIds.filter((publicId) => !keep.has(publicId));
+}
+
+/**
+ * Publish before/after pairs from a completed job's log to the contractor's portfolio.
+ */
+export async function publishPortfolioPairs(params: { jobId: string; userId: string; pairs: unknown }) {
+  const contractor = await prisma.contractor.findUnique({
+    where: { userId: params.userId },
+    select: { id: true, _count: { select: { portfolio: true } } },
+  });
+  if (!contractor) {
+    throw new AppError('Contractor profile not found', 404);
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: params.jobId },
+    select: { id: true, title: true, status: true, wonByContractorId: true, completionDate: true },
+  });
+  if (!job || job.wonByContractorId !== contractor.id) {
+    throw new AppError('Job not found', 404);
+  }
+  if (job.status !== 'COMPLETED') {
+    throw new AppError('Photos can be added to your portfolio once the job is completed', 409);
+  }
+
+  const photos = await prisma.milestoneLogPhoto.findMany({
+    where: { entry: { jobId: job.id, contractorId: contractor.id } },
+    select: { id: true, phase: true, url: true, publicId: true },
+  });
+
+  const items = buildPortfolioPairs(params.pairs, photos, {
+    title: job.title,
+    projectDate: job.completionDate,
+    jobId: job.id,
+  });
+
+  if (contractor._count.portfolio + items.length > MAX_PORTFOLIO_ITEMS) {
+    throw new AppError(
+      `Maximum of ${MAX_PORTFOLIO_ITEMS} portfolio items allowed. You have room for ${Math.max(MAX_PORTFOLIO_ITEMS - contractor._count.portfolio, 0)} more.`,
+      400
+    );
+  }
+
+  return prisma.$transaction(
+    items.map((item) => prisma.portfolioItem.create({ data: { ...item, contractorId: contractor.id } }))
+  );
+}
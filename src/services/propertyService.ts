@@ -0,0 +1,246 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { normalisePostcode } from './geoService';
+
+/**
+ * Customer properties.
+ *
+ * A customer can save the addresses they have work done at and post jobs against one
+ * of them. The job still keeps its own location/postcode copy (search, geocoding and
+ * lead filtering all read those), the property link is what groups the history.
+ */
+
+export const MAX_PROPERTIES_PER_CUSTOMER = 50;
+export const MAX_PHOTOS_PER_PROPERTY = 10;
+
+const MAX_LABEL_LENGTH = 80;
+const MAX_ACCESS_NOTES_LENGTH = 2000;
+
+// Full UK postcode, e.g. "LS1 4AP" or "SW1A 1AA" (space optional)
+const FULL_POSTCODE_PATTERN = /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/;
+
+export interface PropertyInput {
+  label?: string | null;
+  address?: string;
+  city?: string | null;
+  postcode?: string;
+  accessNotes?: string | null;
+}
+
+export const PROPERTY_HISTORY_JOB_INCLUDE = {
+  service: { select: { id: true, name: true, category: true } },
+  wonByContractor: {
+    select: {
+      id: true,
+      businessName: true,
+      user: { select: { name: true } },
+    },
+  },
+} as const;
+
+type PropertyHistoryJob = Prisma.JobGetPayload<{ include: typeof PROPERTY_HISTORY_JOB_INCLUDE }>;
+
+type PropertyHistoryInvoice = {
+  id: string;
+  invoiceNumber: string;
+  description: string;
+  totalAmount: Prisma.Decimal;
+  issuedAt: Date;
+  paidAt: Date | null;
+  pdfUrl: string | null;
+  jobId: string | null;
+};
+
+function optionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new AppError(`${field} must be text`, 400);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new AppError(`${field} must be ${maxLength} characters or fewer`, 400);
+  }
+  return trimmed || null;
+}
+
+/**
+ * Validate a property sent by a customer. With `partial`, fields left out are left alone.
+ */
+export function parsePropertyInput(body: Record<string, any>, { partial = false } = {}): PropertyInput {
+  const input: PropertyInput = {};
+
+  if (!partial || body.address !== undefined) {
+    if (typeof body.address !== 'string' || !body.address.trim()) {
+      throw new AppError('address is required', 400);
+    }
+    input.address = body.address.trim();
+  }
+
+  if (!partial || body.postcode !== undefined) {
+    if (typeof body.postcode !== 'string' || !FULL_POSTCODE_PATTERN.test(normalisePostcode(body.postcode))) {
+      throw new AppError('postcode must be a valid UK postcode', 400);
+    }
+    input.postcode = normalisePostcode(body.postcode);
+  }
+
+  if (!partial || body.label !== undefined) {
+    input.label = optionalText(body.label, 'label', MAX_LABEL_LENGTH);
+  }
+  if (!partial || body.city !== undefined) {
+    input.city = optionalText(body.city, 'city', MAX_LABEL_LENGTH);
+  }
+  if (!partial || body.accessNotes !== undefined) {
+    input.accessNotes = optionalText(body.accessNotes, 'accessNotes', MAX_ACCESS_NOTES_LENGTH);
+  }
+
+  return input;
+}
+
+/**
+ * The job `location` text for a property: "12 High Street, Leeds".
+ */
+export function formatPropertyLocation(property: { address: string; city: string | null }): string {
+  return [property.address, property.city].filter(Boolean).join(', ');
+}
+
+/**
+ * Load one of the customer's properties, or throw 404 so other customers' ids aren't confirmed.
+ */
+export async function getOwnedProperty(customerId: string, propertyId: string) {
+  const property = await prisma.property.findFirst({
+    where: { id: propertyId, customerId },
+    include: { photos: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  if (!property) {
+    throw new AppError('Property not found', 404);
+  }
+  return property;
+}
+
+/**
+ * The property a new job is being posted against. Archived properties can't take new jobs.
+ */
+export async function resolveJobProperty(customerId: string, propertyId: unknown) {
+  if (propertyId === undefined || propertyId === null || propertyId === '') {
+    return null;
+  }
+  if (typeof propertyId !== 'string') {
+    throw new AppError('propertyId must be a property id', 400);
+  }
+
+  const property = await getOwnedProperty(customerId, propertyId);
+  if (property.archivedAt) {
+    throw new AppError('This property has been removed - restore it or choose another', 409);
+  }
+  return property;
+}
+
+/**
+ * Past jobs at a property with the contractor who did each and the invoices raised for it,
+ * plus totals across them.
+ */
+export function buildPropertyHistory(jobs: PropertyHistoryJob[], invoices: PropertyHistoryInvoice[]) {
+  const invoicesByJob = new Map<string, PropertyHistoryInvoice[]>();
+  for (const invoice of invoices) {
+    if (!invoice.jobId) continue;
+    invoicesByJob.set(invoice.jobId, [...(invoicesByJob.get(invoice.jobId) || []), invoice]);
+  }
+
+  const contractors = new Map<string, { id: string; name: string; jobCount: number; lastJobAt: Date }>();
+  let totalSpent = 0;
+
+  const history = jobs.map((job) => {
+    const contractor = job.wonByContractor
+      ? { id: job.wonByContractor.id, name: job.wonByContractor.businessName || job.wonByContractor.user.name }
+      : null;
+
+    if (contractor) {
+      const existing = contractors.get(contractor.id);
+      const jobDate = job.completionDate ?? job.createdAt;
+      contractors.set(contractor.id, {
+        ...contractor,
+        jobCount: (existing?.jobCount ?? 0) + 1,
+        lastJobAt: existing && existing.lastJobAt > jobDate ? existing.lastJobAt : jobDate,
+      });
+    }
+
+    if (job.status === 'COMPLETED' && job.finalAmount) {
+      totalSpent += Number(job.finalAmount);
+    }
+
+    return {
+      id: job.id,
+      title: job.title,
+      status: job.status,
+      service: job.service,
+      createdAt: job.createdAt,
+      completionDate: job.completionDate,
+      finalAmount: job.finalAmount,
+      contractor,
+      invoices: (invoicesByJob.get(job.id) || []).map(({ jobId, ...invoice }) => invoice),
+    };
+  });
+
+  return {
+    jobs: history,
+    contractors: Array.from(contractors.values()).sort((a, b) => b.lastJobAt.getTime() - a.lastJobAt.getTime()),
+    summary: {
+      jobCount: jobs.length,
+      completedCount: jobs.filter((job) => job.status === 'COMPLETED').length,
+      contractorCount: contractors.size,
+      invoiceCount: invoices.length,
+      totalSpent: Math.round(totalSpent * 100) / 100,
+    },
+  };
+}
+
+/**
+ * Job history for one of the customer's properties, newest first.
+ */
+export async function getPropertyHistory(customerId: string, propertyId: string) {
+  const property = await getOwnedProperty(customerId, propertyId);
+
+  const jobs = await prisma.job.findMany({
+    where: { propertyId: property.id, customerId },
+    include: PROPERTY_HISTORY_JOB_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  // Invoices reach a job through the customer's payments for it
+  const payments = await prisma.payment.findMany({
+    where: {
+      customerId,
+      jobId: { in: jobs.map((job) => job.id) },
+      invoiceId: { not: null },
+    },
+    select: {
+      jobId: true,
+      invoice: {
+        select: {
+          id: true,
+          invoiceNumber: true,
+          description: true,
+          totalAmount: true,
+          issuedAt: true,
+          paidAt: true,
+          pdfUrl: true,
+        },
+      },
+    },
+  });
+
+  // One invoice can cover several payments, list it once per job
+  const seen = new Set<string>();
+  const invoices: PropertyHistoryInvoice[] = [];
+  for (const payment of payments) {
+    if (!payment.invoice || seen.has(`${payment.jobId}:${payment.invoice.id}`)) continue;
+    seen.add(`${payment.jobId}:${payment.invoice.id}`);
+    invoices.push({ ...payment.invoice, jobId: payment.jobId });
+  }
+
+  return { property, ...buildPropertyHistory(jobs, invoices) };
+}
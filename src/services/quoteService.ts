@@ -0,0 +1,365 @@
+import { JobQuote, JobQuoteStatus, Prisma, QuotePaymentTerms, QuoteVatTreatment } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+
+/**
+ * Structured contractor quotes.
+ *
+ * A contractor who has bought access to a POSTED job can send one quote for it, made of
+ * priced line items (labour, materials, other) plus VAT treatment, how long the price
+ * holds, when they can start and how they want to be paid. They can revise or withdraw
+ * it until the customer decides. The customer compares every live quote side by side and
+ * accepting one selects that contractor (see selectContractor) with the quote total as
+ * the job's contractorProposedAmount - the baseline the final-price flow starts from.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LINE_ITEMS = 50;
+const DEFAULT_VAT_RATE = 20;
+
+export const QUOTE_LINE_CATEGORIES = ['LABOUR', 'MATERIALS', 'OTHER'] as const;
+export type QuoteLineCategory = (typeof QUOTE_LINE_CATEGORIES)[number];
+
+export const QUOTE_VAT_TREATMENTS = Object.values(QuoteVatTreatment) as QuoteVatTreatment[];
+export const QUOTE_PAYMENT_TERMS = Object.values(QuotePaymentTerms) as QuotePaymentTerms[];
+
+// Type alias (not an interface) so a list of these can be stored in a Json column
+export type QuoteLineItem = {
+  category: QuoteLineCategory;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+};
+
+export interface QuoteTotals {
+  labourTotal: number;
+  materialsTotal: number;
+  otherTotal: number;
+  subtotal: number;
+  vatAmount: number;
+  total: number;
+}
+
+export interface QuoteInput extends QuoteTotals {
+  lineItems: QuoteLineItem[];
+  vatTreatment: QuoteVatTreatment;
+  vatRate: number;
+  validUntil: Date;
+  availableFrom: Date;
+  estimatedDurationDays: number | null;
+  paymentTerms: QuotePaymentTerms;
+  depositPercent: number | null;
+  paymentTermsNotes: string | null;
+  notes: string | null;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+function parseDate(value: unknown, field: string): Date {
+  const date = typeof value === 'string' || value instanceof Date ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new AppError(`${field} must be a valid date`, 400);
+  }
+  return date;
+}
+
+function optionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new AppError(`${field} must be text`, 400);
+  }
+  const text = value.trim();
+  if (text.length > maxLength) {
+    throw new AppError(`${field} must be at most ${maxLength} characters`, 400);
+  }
+  return text || null;
+}
+
+/**
+ * Validate the line items a contractor sent and work out each line's amount.
+ */
+export function parseQuoteLineItems(input: unknown): QuoteLineItem[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new AppError('A quote needs at least one line item', 400);
+  }
+  if (input.length > MAX_LINE_ITEMS) {
+    throw new AppError(`A quote can have at most ${MAX_LINE_ITEMS} line items`, 400);
+  }
+
+  return input.map((item, index) => {
+    const line = `Line item ${index + 1}`;
+    if (!item || typeof item !== 'object') {
+      throw new AppError(`${line} is not valid`, 400);
+    }
+
+    const { category, description, quantity = 1, unitPrice } = item as Record<string, unknown>;
+    if (!QUOTE_LINE_CATEGORIES.includes(category as QuoteLineCategory)) {
+      throw new AppError(`${line}: category must be one of ${QUOTE_LINE_CATEGORIES.join(', ')}`, 400);
+    }
+    if (typeof description !== 'string' || !description.trim()) {
+      throw new AppError(`${line}: description is required`, 400);
+    }
+
+    const qty = Number(quantity);
+    const price = Number(unitPrice);
+    if (!Number.isFinite(qty) || qty <= 0) {
+      throw new AppError(`${line}: quantity must be greater than zero`, 400);
+    }
+    if (!Number.isFinite(price) || price < 0) {
+      throw new AppError(`${line}: unitPrice must be zero or more`, 400);
+    }
+
+    return {
+      category: category as QuoteLineCategory,
+      description: description.trim(),
+      quantity: qty,
+      unitPrice: roundMoney(price),
+      amount: roundMoney(qty * price),
+    };
+  });
+}
+
+/**
+ * Totals for a set of line items. Category totals are as entered on the lines, so they
+ * include VAT when the treatment is INCLUSIVE; subtotal is always ex VAT and total is
+ * what the customer pays.
+ */
+export function calculateQuoteTotals(
+  lineItems: QuoteLineItem[],
+  vatTreatment: QuoteVatTreatment,
+  vatRate: number
+): QuoteTotals {
+  const sumOf = (category: QuoteLineCategory) =>
+    roundMoney(lineItems.filter((item) => item.category === category).reduce((sum, item) => sum + item.amount, 0));
+
+  const labourTotal = sumOf('LABOUR');
+  const materialsTotal = sumOf('MATERIALS');
+  const otherTotal = sumOf('OTHER');
+  const lineTotal = roundMoney(labourTotal + materialsTotal + otherTotal);
+
+  if (vatTreatment === 'NOT_REGISTERED' || vatRate === 0) {
+    return { labourTotal, materialsTotal, otherTotal, subtotal: lineTotal, vatAmount: 0, total: lineTotal };
+  }
+
+  if (vatTreatment === 'INCLUSIVE') {
+    const subtotal = roundMoney(lineTotal / (1 + vatRate / 100));
+    return { labourTotal, materialsTotal, otherTotal, subtotal, vatAmount: roundMoney(lineTotal - subtotal), total: lineTotal };
+  }
+
+  const vatAmount = roundMoney((lineTotal * vatRate) / 100);
+  return { labourTotal, materialsTotal, otherTotal, subtotal: lineTotal, vatAmount, total: roundMoney(lineTotal + vatAmount) };
+}
+
+/**
+ * Validate a quote submission and price it.
+ */
+export function parseQuoteInput(body: Record<string, any>, now: Date = new Date()): QuoteInput {
+  const lineItems = parseQuoteLineItems(body.lineItems);
+
+  const vatTreatment = body.vatTreatment as QuoteVatTreatment;
+  if (!QUOTE_VAT_TREATMENTS.includes(vatTreatment)) {
+    throw new AppError(`vatTreatment must be one of: ${QUOTE_VAT_TREATMENTS.join(', ')}`, 400);
+  }
+
+  let vatRate = 0;
+  if (vatTreatment !== 'NOT_REGISTERED') {
+    vatRate = body.vatRate === undefined || body.vatRate === null ? DEFAULT_VAT_RATE : Number(body.vatRate);
+    if (!Number.isFinite(vatRate) || vatRate < 0 || vatRate > 100) {
+      throw new AppError('vatRate must be a percentage between 0 and 100', 400);
+    }
+  }
+
+  const validUntil = parseDate(body.validUntil, 'validUntil');
+  if (validUntil <= now) {
+    throw new AppError('validUntil must be in the future', 400);
+  }
+
+  // A start date earlier today is fine - "available from today"
+  const availableFrom = parseDate(body.availableFrom, 'availableFrom');
+  if (availableFrom.getTime() < now.getTime() - DAY_MS) {
+    throw new AppError('availableFrom cannot be in the past', 400);
+  }
+
+  let estimatedDurationDays: number | null = null;
+  if (body.estimatedDurationDays !== undefined && body.estimatedDurationDays !== null) {
+    estimatedDurationDays = Number(body.estimatedDurationDays);
+    if (!Number.isInteger(estimatedDurationDays) || estimatedDurationDays <= 0) {
+      throw new AppError('estimatedDurationDays must be a whole number of days', 400);
+    }
+  }
+
+  const paymentTerms = body.paymentTerms as QuotePaymentTerms;
+  if (!QUOTE_PAYMENT_TERMS.includes(paymentTerms)) {
+    throw new AppError(`paymentTerms must be one of: ${QUOTE_PAYMENT_TERMS.join(', ')}`, 400);
+  }
+
+  let depositPercent: number | null = null;
+  if (paymentTerms === 'DEPOSIT_AND_BALANCE') {
+    depositPercent = Number(body.depositPercent);
+    if (!Number.isInteger(depositPercent) || depositPercent <= 0 || depositPercent >= 100) {
+      throw new AppError('depositPercent must be a whole percentage between 1 and 99', 400);
+    }
+  }
+
+  return {
+    lineItems,
+    ...calculateQuoteTotals(lineItems, vatTreatment, vatRate),
+    vatTreatment,
+    vatRate,
+    validUntil,
+    availableFrom,
+    estimatedDurationDays,
+    paymentTerms,
+    depositPercent,
+    paymentTermsNotes: optionalText(body.paymentTermsNotes, 'paymentTermsNotes', 1000),
+    notes: optionalText(body.notes, 'notes', 5000),
+  };
+}
+
+/**
+ * Whether the customer can still accept a quote.
+ */
+export function isQuoteOpen(quote: Pick<JobQuote, 'status' | 'validUntil'>, now: Date = new Date()): boolean {
+  return quote.status === 'SUBMITTED' && quote.validUntil > now;
+}
+
+type ComparableQuote = Pick<JobQuote, 'id' | 'status' | 'validUntil' | 'availableFrom' | 'total'>;
+
+/**
+ * Line quotes up for the customer: cheapest first, with the best price and earliest
+ * start among quotes that can still be accepted marked.
+ */
+export function buildQuoteComparison<T extends ComparableQuote>(quotes: T[], now: Date = new Date()) {
+  const sorted = [...quotes].sort((a, b) => Number(a.total) - Number(b.total) || a.availableFrom.getTime() - b.availableFrom.getTime());
+  const open = sorted.filter((quote) => isQuoteOpen(quote, now));
+
+  const lowestTotal = open.length > 0 ? Number(open[0].total) : null;
+  const earliestStart = open.length > 0 ? new Date(Math.min(...open.map((quote) => quote.availableFrom.getTime()))) : null;
+
+  return {
+    quotes: sorted.map((quote) => {
+      const isOpen = isQuoteOpen(quote, now);
+      return {
+        ...quote,
+        isOpen,
+        isExpired: quote.status === 'SUBMITTED' && !isOpen,
+        isLowestPrice: isOpen && Number(quote.total) === lowestTotal,
+        isEarliestStart: isOpen && quote.availableFrom.getTime() === earliestStart?.getTime(),
+      };
+    }),
+    summary: {
+      quoteCount: sorted.length,
+      openCount: open.length,
+      lowestTotal,
+      highestTotal: open.length > 0 ? Number(open[open.length - 1].total) : null,
+      averageTotal: open.length > 0 ? roundMoney(open.reduce((sum, quote) => sum + Number(quote.total), 0) / open.length) : null,
+      earliestStart,
+    },
+  };
+}
+
+/**
+ * Send or revise a contractor's quote for a job they have bought.
+ */
+export async function submitJobQuote(jobId: string, contractorId: string, body: Record<string, any>) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      wonByContractorId: true,
+      customer: { select: { userId: true } },
+    },
+  });
+
+  if (!job) {
+    throw new AppError('Job not found', 404);
+  }
+  if (job.status !== 'POSTED' || job.wonByContractorId) {
+    throw new AppError('This job is no longer accepting quotes', 400);
+  }
+
+  const [access, existing, contractor] = await Promise.all([
+    prisma.jobAccess.findUnique({ where: { jobId_contractorId: { jobId, contractorId } } }),
+    prisma.jobQuote.findUnique({ where: { jobId_contractorId: { jobId, contractorId } } }),
+    prisma.contractor.findUnique({
+      where: { id: contractorId },
+      select: { businessName: true, user: { select: { name: true } } },
+    }),
+  ]);
+
+  if (!access) {
+    throw new AppError('Purchase this job before sending a quote', 403);
+  }
+  if (existing && existing.status !== 'SUBMITTED' && existing.status !== 'WITHDRAWN') {
+    throw new AppError(`Your quote has already been ${existing.status.toLowerCase()}`, 409);
+  }
+
+  const input = parseQuoteInput(body);
+  const data = { ...input, status: JobQuoteStatus.SUBMITTED, respondedAt: null };
+
+  const quote = await prisma.jobQuote.upsert({
+    where: { jobId_contractorId: { jobId, contractorId } },
+    create: { jobId, contractorId, ...data },
+    update: data,
+  });
+
+  const contractorName = contractor?.businessName || contractor?.user.name || 'A contractor';
+  await createNotification({
+    userId: job.customer.userId,
+    title: existing?.status === 'SUBMITTED' ? 'Quote Updated' : 'New Quote Received',
+    message: `${contractorName} quoted £${input.total.toFixed(2)} for: ${job.title}`,
+    type: 'INFO',
+    actionLink: `/dashboard/client/jobs/${jobId}/quotes`,
+    actionText: 'Compare Quotes',
+    metadata: { jobId, quoteId: quote.id },
+  });
+
+  return { quote, revised: existing?.status === 'SUBMITTED' };
+}
+
+/**
+ * Take a quote back before the customer has decided on it.
+ */
+export async function withdrawJobQuote(jobId: string, contractorId: string) {
+  const result = await prisma.jobQuote.updateMany({
+    where: { jobId, contractorId, status: 'SUBMITTED' },
+    data: { status: 'WITHDRAWN' },
+  });
+
+  if (result.count === 0) {
+    throw new AppError('You have no open quote for this job', 404);
+  }
+}
+
+/**
+ * Mark an accepted quote and decline the job's other live quotes. Runs inside the
+ * transaction that selects the contractor.
+ */
+export async function recordQuoteAcceptance(tx: Prisma.TransactionClient, quote: Pick<JobQuote, 'id' | 'jobId'>) {
+  const now = new Date();
+
+  const accepted = await tx.jobQuote.updateMany({
+    where: { id: quote.id, status: 'SUBMITTED' },
+    data: { status: 'ACCEPTED', respondedAt: now },
+  });
+  if (accepted.count === 0) {
+    throw new AppError('This quote is no longer open', 409);
+  }
+
+  const declined = await tx.jobQuote.findMany({
+    where: { jobId: quote.jobId, status: 'SUBMITTED', id: { not: quote.id } },
+    select: { id: true, contractor: { select: { userId: true } } },
+  });
+  await tx.jobQuote.updateMany({
+    where: { id: { in: declined.map((other) => other.id) } },
+    data: { status: 'DECLINED', respondedAt: now },
+  });
+
+  return declined;
+}
@@ -0,0 +1,493 @@
+import Stripe from 'stripe';
+import { AdminRole, Prisma, Refund, RefundReason, RefundStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { getStripeClient } from '../config/stripe';
+import { AppError } from '../middleware/errorHandler';
+import { createNotification } from './notificationService';
+import { notifyAllAdmins } from './adminNotificationService';
+import { recordPaymentRefunded, recordRefundReversed } from './ledgerService';
+import { generateInvoicePDF } from './pdfService';
+import { getRefundApprovalSettings } from './settingsService';
+
+/**
+ * Refunds against payments.
+ *
+ * An admin refund is saved as a Refund before anything is sent to Stripe. Over the
+ * REFUND_APPROVAL threshold it waits as PENDING_APPROVAL until a different finance admin
+ * approves it. Once sent, Stripe's refund id is stored and the charge.refunded /
+ * refund.updated webhooks keep the status in step. Refunds made elsewhere (lead quality
+ * claims, the Stripe dashboard) are picked up by the same webhooks, so every refund of a
+ * payment ends up here.
+ *
+ * The ledger posts a refund as soon as Stripe accepts it and reverses it if Stripe later
+ * reports it failed or cancelled.
+ */
+
+export const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  DUPLICATE_PAYMENT: 'Duplicate payment',
+  SERVICE_NOT_PROVIDED: 'Service not provided',
+  LEAD_QUALITY: 'Lead quality',
+  BILLING_ERROR: 'Billing error',
+  GOODWILL: 'Goodwill gesture',
+  FRAUDULENT: 'Fraudulent payment',
+  OTHER: 'Other',
+};
+
+// Refunds that count against what's left to refund on a payment
+const COMMITTED_REFUND_STATUSES: RefundStatus[] = ['PENDING_APPROVAL', 'PENDING', 'SUCCEEDED'];
+
+// Refunds whose money has left, or is leaving, the platform
+const SENT_REFUND_STATUSES: RefundStatus[] = ['PENDING', 'SUCCEEDED'];
+
+const REFUND_PAYMENT_INCLUDE = {
+  payment: true,
+  invoice: { select: { invoiceNumber: true } },
+} as const;
+
+type RefundAdmin = { id: string; name: string; role: AdminRole };
+type RefundWithPayment = Prisma.RefundGetPayload<{ include: typeof REFUND_PAYMENT_INCLUDE }>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Take the next credit note number. The counter row stays locked until the caller's
+ * transaction ends, so concurrent refunds queue for it, and a rolled-back refund hands its
+ * number back rather than leaving a gap.
+ */
+async function nextCreditNoteNumber(tx: Prisma.TransactionClient) {
+  const sequence = await tx.documentSequence.update({
+    where: { name: 'CREDIT_NOTE' },
+    data: { lastValue: { increment: 1 } },
+  });
+  return `CN-${String(sequence.lastValue).padStart(6, '0')}`;
+}
+
+export function parseRefundReason(value: unknown): RefundReason {
+  if (typeof value !== 'string' || !(value in REFUND_REASON_LABELS)) {
+    throw new AppError(`A reason code is required. Use one of: ${Object.keys(REFUND_REASON_LABELS).join(', ')}`, 400);
+  }
+  return value as RefundReason;
+}
+
+function toStripeReason(reasonCode: RefundReason): Stripe.RefundCreateParams.Reason {
+  if (reasonCode === 'DUPLICATE_PAYMENT') return 'duplicate';
+  if (reasonCode === 'FRAUDULENT') return 'fraudulent';
+  return 'requested_by_customer';
+}
+
+function fromStripeRefund(refund: Stripe.Refund): RefundReason {
+  if (refund.metadata?.reasonCode && refund.metadata.reasonCode in REFUND_REASON_LABELS) {
+    return refund.metadata.reasonCode as RefundReason;
+  }
+  if (refund.metadata?.leadClaimId) return 'LEAD_QUALITY';
+  if (refund.reason === 'duplicate') return 'DUPLICATE_PAYMENT';
+  if (refund.reason === 'fraudulent') return 'FRAUDULENT';
+  return 'OTHER';
+}
+
+function toRefundStatus(status: Stripe.Refund['status']): RefundStatus {
+  switch (status) {
+    case 'succeeded':
+      return 'SUCCEEDED';
+    case 'failed':
+      return 'FAILED';
+    case 'canceled':
+      return 'CANCELED';
+    default:
+      return 'PENDING'; // pending, requires_action
+  }
+}
+
+const describeRefund = (refund: Pick<Refund, 'reasonCode' | 'notes'>) =>
+  refund.notes ? `${REFUND_REASON_LABELS[refund.reasonCode]}: ${refund.notes}` : REFUND_REASON_LABELS[refund.reasonCode];
+
+/**
+ * What's left to refund on a payment, after refunds already sent or waiting for approval.
+ */
+export async function getRefundableAmount(client: Prisma.TransactionClient, payment: { id: string; amount: Prisma.Decimal | number }) {
+  const committed = await client.refund.aggregate({
+    where: { paymentId: payment.id, status: { in: COMMITTED_REFUND_STATUSES } },
+    _sum: { amount: true },
+  });
+  return round2(Number(payment.amount) - Number(committed._sum.amount ?? 0));
+}
+
+/**
+ * Mark the payment REFUNDED once refunds sent against it cover it, and back to COMPLETED if a
+ * failed refund means they no longer do.
+ */
+async function syncPaymentRefundStatus(client: Prisma.TransactionClient, paymentId: string) {
+  const payment = await client.payment.findUniqueOrThrow({ where: { id: paymentId } });
+  const sent = await client.refund.aggregate({
+    where: { paymentId, status: { in: SENT_REFUND_STATUSES } },
+    _sum: { amount: true },
+  });
+
+  const fullyRefunded = Number(sent._sum.amount ?? 0) >= Number(payment.amount);
+  if (fullyRefunded && payment.status === 'COMPLETED') {
+    await client.payment.update({ where: { id: paymentId }, data: { status: 'REFUNDED' } });
+  } else if (!fullyRefunded && payment.status === 'REFUNDED') {
+    await client.payment.update({ where: { id: paymentId }, data: { status: 'COMPLETED' } });
+  }
+}
+
+/**
+ * Start an admin refund of all or part of a payment. Returns the refund and whether it is
+ * waiting for approval; otherwise it has already been sent to Stripe.
+ */
+export async function requestRefund(params: {
+  paymentId: string;
+  amount?: number;
+  reasonCode: RefundReason;
+  notes?: string;
+  issueCreditNote?: boolean;
+  admin: RefundAdmin;
+}) {
+  const notes = params.notes?.trim() || null;
+  if (params.reasonCode === 'OTHER' && !notes) {
+    throw new AppError('Please describe the reason for the refund', 400);
+  }
+
+  const payment = await prisma.payment.findUnique({ where: { id: params.paymentId } });
+  if (!payment) {
+    throw new AppError('Payment not found', 404);
+  }
+  if (payment.status === 'REFUNDED') {
+    throw new AppError('This payment has already been refunded', 400);
+  }
+  if (payment.status !== 'COMPLETED') {
+    throw new AppError(`Cannot refund a payment with status "${payment.status}". Only completed payments can be refunded.`, 400);
+  }
+  if (!payment.stripePaymentId) {
+    throw new AppError('This payment does not have a Stripe payment ID and cannot be refunded through Stripe', 400);
+  }
+  if (payment.type === 'JOB_PAYMENT') {
+    throw new AppError('Job payments are paid out to the contractor; refund them by resolving a dispute on the job', 400);
+  }
+
+  const { thresholdAmount } = await getRefundApprovalSettings();
+
+  const refund = await prisma.$transaction(async (tx) => {
+    const refundable = await getRefundableAmount(tx, payment);
+    const amount = params.amount !== undefined ? round2(params.amount) : refundable;
+    if (!(amount > 0)) {
+      throw new AppError(refundable > 0 ? 'Refund amount must be greater than zero' : 'Nothing is left to refund on this payment', 400);
+    }
+    if (amount > refundable) {
+      throw new AppError(`Only £${refundable.toFixed(2)} of this payment can still be refunded`, 400);
+    }
+
+    return tx.refund.create({
+      data: {
+        paymentId: payment.id,
+        invoiceId: payment.invoiceId,
+        amount,
+        reasonCode: params.reasonCode,
+        notes,
+        issueCreditNote: params.issueCreditNote === true,
+        status: thresholdAmount !== null && amount > thresholdAmount ? 'PENDING_APPROVAL' : 'PENDING',
+        requestedByAdminId: params.admin.id,
+      },
+    });
+  });
+
+  if (refund.status === 'PENDING_APPROVAL') {
+    await notifyAllAdmins({
+      title: 'Refund Awaiting Approval',
+      message: `${params.admin.name} has requested a £${Number(refund.amount).toFixed(2)} refund (${describeRefund(refund)}). It needs a second finance admin to approve it.`,
+      type: 'WARNING',
+      actionLink: `/admin/payments/refunds/${refund.id}`,
+      actionText: 'Review Refund',
+    });
+    return { refund, approvalRequired: true };
+  }
+
+  return { refund: await sendRefund(refund.id), approvalRequired: false };
+}
+
+/**
+ * Send a PENDING refund to Stripe and record the outcome. The idempotency key is the refund's
+ * own id, so retrying a refund that timed out can't pay it twice.
+ */
+async function sendRefund(refundId: string) {
+  const refund = await prisma.refund.findUniqueOrThrow({ where: { id: refundId }, include: REFUND_PAYMENT_INCLUDE });
+  const { payment } = refund;
+
+  let stripeRefund: Stripe.Refund;
+  try {
+    stripeRefund = await getStripeClient().refunds.create(
+      {
+        payment_intent: payment.stripePaymentId!,
+        amount: Math.round(Number(refund.amount) * 100),
+        reason: toStripeReason(refund.reasonCode),
+        metadata: {
+          refundId: refund.id,
+          reasonCode: refund.reasonCode,
+          originalPaymentId: payment.id,
+          adminId: refund.requestedByAdminId ?? '',
+        },
+      },
+      { idempotencyKey: `refund-${refund.id}` }
+    );
+  } catch (error: any) {
+    console.error(`Stripe refund failed for refund ${refund.id}:`, error);
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: 'FAILED', failureReason: error.message, processedAt: new Date() },
+    });
+    throw new AppError(`Stripe refund failed: ${error.message}`, 400);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // The webhook can get here first (it finds the refund by the refundId in the metadata), in
+    // which case its status is newer than the one Stripe answered the create call with
+    const current = await tx.refund.findUniqueOrThrow({ where: { id: refund.id } });
+    const status = current.stripeRefundId ? current.status : toRefundStatus(stripeRefund.status);
+    const issueCreditNote =
+      refund.issueCreditNote && !current.creditNoteNumber && status !== 'FAILED' && status !== 'CANCELED';
+
+    const saved = await tx.refund.update({
+      where: { id: refund.id },
+      data: {
+        stripeRefundId: stripeRefund.id,
+        status,
+        failureReason: stripeRefund.failure_reason ?? null,
+        processedAt: new Date(),
+        ...(issueCreditNote && {
+          creditNoteNumber: await nextCreditNoteNumber(tx),
+          creditNoteIssuedAt: new Date(),
+        }),
+      },
+      include: REFUND_PAYMENT_INCLUDE,
+    });
+
+    if (SENT_REFUND_STATUSES.includes(status)) {
+      await recordPaymentRefunded(tx, payment, {
+        amount: refund.amount,
+        refundKey: stripeRefund.id,
+        reason: REFUND_REASON_LABELS[refund.reasonCode],
+      });
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { description: `${payment.description} [REFUND £${Number(refund.amount).toFixed(2)}: ${describeRefund(refund)}]` },
+      });
+      await syncPaymentRefundStatus(tx, payment.id);
+    }
+
+    return saved;
+  });
+
+  if (SENT_REFUND_STATUSES.includes(updated.status) && payment.contractorId) {
+    await notifyContractorOfRefund(updated);
+  }
+
+  return updated;
+}
+
+async function notifyContractorOfRefund(refund: RefundWithPayment) {
+  try {
+    const contractor = await prisma.contractor.findUnique({
+      where: { id: refund.payment.contractorId! },
+      select: { userId: true },
+    });
+    if (contractor) {
+      await createNotification({
+        userId: contractor.userId,
+        title: 'Payment Refunded',
+        message: `A refund of £${Number(refund.amount).toFixed(2)} has been issued for: ${refund.payment.description}. Reason: ${REFUND_REASON_LABELS[refund.reasonCode]}`,
+        type: 'INFO',
+        actionLink: '/dashboard/contractor/invoices',
+        actionText: 'View Invoices',
+        metadata: { refundId: refund.id, creditNoteNumber: refund.creditNoteNumber },
+      });
+    }
+  } catch (error) {
+    console.error('Failed to send refund notification:', error);
+  }
+}
+
+/**
+ * Approve a refund that was over the threshold and send it. The approver must be a finance
+ * admin (or super admin) other than the one who requested it.
+ */
+export async function approveRefund(refundId: string, admin: RefundAdmin) {
+  if (admin.role !== 'FINANCE_ADMIN' && admin.role !== 'SUPER_ADMIN') {
+    throw new AppError('Only finance admins can approve refunds', 403);
+  }
+
+  const refund = await prisma.refund.findUnique({ where: { id: refundId } });
+  if (!refund) {
+    throw new AppError('Refund not found', 404);
+  }
+  if (refund.status !== 'PENDING_APPROVAL') {
+    throw new AppError(`This refund is ${refund.status.toLowerCase().replace('_', ' ')}, not awaiting approval`, 409);
+  }
+  if (refund.requestedByAdminId === admin.id) {
+    throw new AppError('A refund must be approved by a different admin from the one who requested it', 403);
+  }
+
+  // Guarded so two approvers can't both send it
+  const claimed = await prisma.refund.updateMany({
+    where: { id: refund.id, status: 'PENDING_APPROVAL' },
+    data: { status: 'PENDING', approvedByAdminId: admin.id, approvedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new AppError('This refund has already been dealt with', 409);
+  }
+
+  return sendRefund(refund.id);
+}
+
+export async function rejectRefund(refundId: string, admin: RefundAdmin, reason: string) {
+  if (admin.role !== 'FINANCE_ADMIN' && admin.role !== 'SUPER_ADMIN') {
+    throw new AppError('Only finance admins can reject refunds', 403);
+  }
+  if (!reason?.trim()) {
+    throw new AppError('A reason for rejecting the refund is required', 400);
+  }
+
+  const rejected = await prisma.refund.updateMany({
+    where: { id: refundId, status: 'PENDING_APPROVAL' },
+    data: { status: 'REJECTED', rejectedByAdminId: admin.id, rejectionReason: reason.trim() },
+  });
+  if (rejected.count === 0) {
+    throw new AppError('Refund not found or not awaiting approval', 409);
+  }
+
+  return prisma.refund.findUniqueOrThrow({ where: { id: refundId } });
+}
+
+/**
+ * Bring a Stripe refund into line with our records, from charge.refunded or refund.updated.
+ * Escrow refunds are left to escrowService. Returns what happened, for logging.
+ */
+export async function reconcileStripeRefund(stripeRefund: Stripe.Refund): Promise<'ignored' | 'created' | 'updated' | 'unchanged'> {
+  if (stripeRefund.metadata?.escrowId) {
+    return 'ignored';
+  }
+
+  const existing = await prisma.refund.findFirst({
+    where: {
+      OR: [
+        { stripeRefundId: stripeRefund.id },
+        ...(stripeRefund.metadata?.refundId ? [{ id: stripeRefund.metadata.refundId }] : []),
+      ],
+    },
+    include: { payment: true },
+  });
+  const status = toRefundStatus(stripeRefund.status);
+
+  if (existing) {
+    // Not sent yet as far as we know; sendRefund will record it once Stripe answers
+    if (existing.status === 'PENDING_APPROVAL' || existing.status === 'REJECTED') {
+      return 'unchanged';
+    }
+    if (existing.status === status && existing.stripeRefundId === stripeRefund.id) {
+      return 'unchanged';
+    }
+
+    const wasSent = SENT_REFUND_STATUSES.includes(existing.status) && !!existing.stripeRefundId;
+    await prisma.$transaction(async (tx) => {
+      await tx.refund.update({
+        where: { id: existing.id },
+        data: { status, stripeRefundId: stripeRefund.id, failureReason: stripeRefund.failure_reason ?? null },
+      });
+
+      if (wasSent && !SENT_REFUND_STATUSES.includes(status)) {
+        await recordRefundReversed(tx, existing.payment, { amount: existing.amount, refundKey: stripeRefund.id });
+      } else if (SENT_REFUND_STATUSES.includes(status)) {
+        await recordPaymentRefunded(tx, existing.payment, {
+          amount: existing.amount,
+          refundKey: stripeRefund.id,
+          reason: REFUND_REASON_LABELS[existing.reasonCode],
+        });
+      }
+      await syncPaymentRefundStatus(tx, existing.paymentId);
+    });
+
+    if (status === 'FAILED' || status === 'CANCELED') {
+      await notifyAllAdmins({
+        title: 'Refund Failed',
+        message: `Stripe reported the £${Number(existing.amount).toFixed(2)} refund of "${existing.payment.description}" as ${status.toLowerCase()}${stripeRefund.failure_reason ? ` (${stripeRefund.failure_reason})` : ''}.`,
+        type: 'ERROR',
+        actionLink: `/admin/payments/refunds/${existing.id}`,
+        actionText: 'View Refund',
+      });
+    }
+    return 'updated';
+  }
+
+  const paymentIntentId = typeof stripeRefund.payment_intent === 'string' ? stripeRefund.payment_intent : stripeRefund.payment_intent?.id;
+  const payment = paymentIntentId
+    ? await prisma.payment.findFirst({ where: { stripePaymentId: paymentIntentId }, orderBy: { createdAt: 'asc' } })
+    : null;
+  if (!payment || !SENT_REFUND_STATUSES.includes(status)) {
+    return 'ignored';
+  }
+
+  const amount = stripeRefund.amount / 100;
+  await prisma.$transaction(async (tx) => {
+    await tx.refund.create({
+      data: {
+        paymentId: payment.id,
+        invoiceId: payment.invoiceId,
+        amount,
+        currency: stripeRefund.currency.toUpperCase(),
+        reasonCode: fromStripeRefund(stripeRefund),
+        notes: stripeRefund.metadata?.internalReason || (stripeRefund.metadata?.leadClaimId ? 'Lead quality claim' : 'Refunded outside TrustBuild'),
+        status,
+        stripeRefundId: stripeRefund.id,
+        processedAt: new Date(stripeRefund.created * 1000),
+      },
+    });
+    // Keyed by the Stripe refund id, so a refund the lead claim flow already posted isn't posted again
+    await recordPaymentRefunded(tx, payment, { amount, refundKey: stripeRefund.id });
+    await syncPaymentRefundStatus(tx, payment.id);
+  });
+
+  return 'created';
+}
+
+/**
+ * Credit note PDF for a refund that was issued with one.
+ */
+export async function generateCreditNote(refundId: string, contractorId?: string) {
+  const refund = await prisma.refund.findFirst({
+    where: { id: refundId, ...(contractorId && { payment: { contractorId } }) },
+    include: {
+      payment: { include: { contractor: { include: { user: { select: { name: true, email: true } } } } } },
+      invoice: true,
+    },
+  });
+  if (!refund) {
+    throw new AppError('Refund not found', 404);
+  }
+  if (!refund.creditNoteNumber || !refund.creditNoteIssuedAt) {
+    throw new AppError('No credit note was issued for this refund', 404);
+  }
+
+  const total = Number(refund.amount);
+  const vatRate = refund.invoice ? Number(refund.invoice.vatRate) : 20;
+  // Refunds are of VAT-inclusive amounts, so the VAT credited is the same share of the refund
+  const vatAmount = round2(total - total / (1 + vatRate / 100));
+  const contractor = refund.payment.contractor;
+
+  const pdf = await generateInvoicePDF({
+    invoiceNumber: refund.creditNoteNumber,
+    recipientName: refund.invoice?.recipientName ?? contractor?.businessName ?? contractor?.user.name ?? 'Customer',
+    recipientEmail: refund.invoice?.recipientEmail ?? contractor?.user.email ?? '',
+    recipientAddress: refund.invoice?.recipientAddress ?? contractor?.businessAddress ?? undefined,
+    description: `Refund: ${refund.payment.description}`,
+    amount: round2(total - vatAmount),
+    vatAmount,
+    totalAmount: total,
+    issuedAt: refund.creditNoteIssuedAt,
+    vatRate,
+    creditNote: {
+      originalInvoiceNumber: refund.invoice?.invoiceNumber,
+      reason: describeRefund(refund),
+    },
+  });
+
+  return { pdf, creditNoteNumber: refund.creditNoteNumber };
+}
@@ -0,0 +1,266 @@
+import { Prisma, SavedSearch, SavedSearchDigestFrequency } from '@prisma/client';
+import { prisma } from '../config/database';
+import { createNotification } from './notificationService';
+import { sendSavedSearchDigestEmail } from './emailNotificationService';
+
+export type SavedSearchFilters = Pick<SavedSearch, 'category' | 'location' | 'budget' | 'search' | 'urgentOnly'>;
+
+export interface MatchableJob {
+  title: string;
+  description: string;
+  location: string;
+  budget: Prisma.Decimal | number | null;
+  isUrgent: boolean;
+  service?: { name: string; category: string | null } | null;
+}
+
+const DIGEST_PERIOD_MS: Record<Exclude<SavedSearchDigestFrequency, 'NONE'>, number> = {
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Only contractors who could actually buy the lead are alerted
+const ELIGIBLE_CONTRACTOR_WHERE: Prisma.ContractorWhereInput = {
+  accountStatus: 'ACTIVE',
+  profileApproved: true,
+  user: { role: 'CONTRACTOR', isActive: true },
+};
+
+/**
+ * Parse a "min-max" budget range as accepted by GET /api/jobs. Either side may be
+ * omitted ("500-" or "-2000"); zero or non-numeric bounds are ignored.
+ */
+export function parseBudgetRange(budget: string | null | undefined): { min?: number; max?: number } {
+  if (!budget) {
+    return {};
+  }
+
+  const [min, max] = budget.split('-').map(Number);
+  return {
+    ...(min ? { min } : {}),
+    ...(max ? { max } : {}),
+  };
+}
+
+const containsInsensitive = (value: string | null | undefined, term: string) =>
+  !!value && value.toLowerCase().includes(term.toLowerCase());
+
+/**
+ * Check a job against a saved search, applying the same rules GET /api/jobs uses
+ * for its query filters. Empty filters match everything.
+ */
+export function matchesSavedSearch(search: SavedSearchFilters, job: MatchableJob): boolean {
+  if (search.urgentOnly && !job.isUrgent) {
+    return false;
+  }
+
+  if (search.category) {
+    const category = search.category.trim().toLowerCase();
+    const serviceName = job.service?.name.toLowerCase();
+    const serviceCategory = job.service?.category?.toLowerCase();
+    if (serviceName !== category && serviceCategory !== category) {
+      return false;
+    }
+  }
+
+  if (search.location && !containsInsensitive(job.location, search.location)) {
+    return false;
+  }
+
+  const { min, max } = parseBudgetRange(search.budget);
+  if (min !== undefined || max !== undefined) {
+    // Jobs without a budget can't satisfy a budget filter
+    if (job.budget === null) {
+      return false;
+    }
+    const budget = Number(job.budget);
+    if ((min !== undefined && budget < min) || (max !== undefined && budget > max)) {
+      return false;
+    }
+  }
+
+  if (
+    search.search &&
+    !containsInsensitive(job.title, search.search) &&
+    !containsInsensitive(job.description, search.search) &&
+    !containsInsensitive(job.location, search.search)
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Send instant alerts for a newly posted job to every contractor with a matching
+ * saved search. Each contractor gets at most one notification per job, however
+ * many of their searches match.
+ */
+export async function notifySavedSearchMatches(job: MatchableJob & { id: string }): Promise<number> {
+  const searches = await prisma.savedSearch.findMany({
+    where: {
+      instantAlerts: true,
+      contractor: ELIGIBLE_CONTRACTOR_WHERE,
+    },
+    include: {
+      contractor: {
+        select: { userId: true },
+      },
+    },
+  });
+
+  const matchesByUser = new Map<string, typeof searches>();
+  for (const search of searches) {
+    if (!matchesSavedSearch(search, job)) {
+      continue;
+    }
+    const existing = matchesByUser.get(search.contractor.userId) || [];
+    existing.push(search);
+    matchesByUser.set(search.contractor.userId, existing);
+  }
+
+  let notified = 0;
+  for (const [userId, matched] of matchesByUser) {
+    const searchNames = matched.map((search) => `"${search.name}"`).join(', ');
+    try {
+      await createNotification({
+        userId,
+        title: job.isUrgent ? '🚨 Urgent job matches your saved search' : 'New job matches your saved search',
+        message: `"${job.title}" in ${job.location} matches ${searchNames}.`,
+        type: 'INFO',
+        actionLink: `/dashboard/contractor/jobs/${job.id}`,
+        actionText: 'View Job',
+        metadata: {
+          jobId: job.id,
+          savedSearchIds: matched.map((search) => search.id),
+        },
+      });
+      notified++;
+    } catch (error) {
+      console.error(`[saved-searches] Failed to alert user ${userId} for job ${job.id}:`, error);
+    }
+  }
+
+  if (matchesByUser.size > 0) {
+    const matchedIds = Array.from(matchesByUser.values()).flat().map((search) => search.id);
+    await prisma.savedSearch.updateMany({
+      where: { id: { in: matchedIds } },
+      data: { lastAlertedAt: new Date() },
+    });
+  }
+
+  console.info(`[saved-searches][instant] jobId=${job.id} matchedContractors=${matchesByUser.size} notified=${notified}`);
+  return notified;
+}
+
+/**
+ * Email daily and weekly digests of newly posted jobs for saved searches that are due.
+ * Safe to run frequently - a search is only picked up once its period has elapsed
+ * since the last digest. Jobs the contractor has already purchased are left out.
+ */
+export async function processSavedSearchDigests(): Promise<void> {
+  const now = new Date();
+
+  const dueSearches = (
+    await prisma.savedSearch.findMany({
+      where: {
+        digestFrequency: { in: ['DAILY', 'WEEKLY'] },
+        contractor: ELIGIBLE_CONTRACTOR_WHERE,
+      },
+      include: {
+        contractor: {
+          select: {
+            id: true,
+            businessName: true,
+            user: { select: { name: true, email: true } },
+          },
+        },
+      },
+    })
+  ).filter((search) => {
+    const period = DIGEST_PERIOD_MS[search.digestFrequency as keyof typeof DIGEST_PERIOD_MS];
+    const lastSent = search.lastDigestSentAt || search.createdAt;
+    return now.getTime() - lastSent.getTime() >= period;
+  });
+
+  if (dueSearches.length === 0) {
+    return;
+  }
+
+  // A digest covers jobs posted since the previous one, capped at one period back
+  const windowStart = (search: (typeof dueSearches)[number]) => {
+    const period = DIGEST_PERIOD_MS[search.digestFrequency as keyof typeof DIGEST_PERIOD_MS];
+    const floor = new Date(now.getTime() - period);
+    return search.lastDigestSentAt && search.lastDigestSentAt > floor ? search.lastDigestSentAt : floor;
+  };
+  const earliest = new Date(Math.min(...dueSearches.map((search) => windowStart(search).getTime())));
+
+  const jobs = await prisma.job.findMany({
+    where: {
+      status: 'POSTED',
+      wonByContractorId: null,
+      createdAt: { gte: earliest },
+    },
+    include: {
+      service: { select: { name: true, category: true } },
+      jobAccess: { select: { contractorId: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  // One email per contractor, with a section for each of their due searches
+  const byContractor = new Map<string, typeof dueSearches>();
+  for (const search of dueSearches) {
+    const existing = byContractor.get(search.contractor.id) || [];
+    existing.push(search);
+    byContractor.set(search.contractor.id, existing);
+  }
+
+  let sent = 0;
+  for (const [contractorId, searches] of byContractor) {
+    const contractor = searches[0].contractor;
+    const sections = searches
+      .map((search) => {
+        const since = windowStart(search);
+        return {
+          name: search.name,
+          frequency: search.digestFrequency,
+          jobs: jobs
+            .filter(
+              (job) =>
+                job.createdAt >= since &&
+                !job.jobAccess.some((access) => access.contractorId === contractorId) &&
+                matchesSavedSearch(search, job)
+            )
+            .map((job) => ({
+              id: job.id,
+              title: job.title,
+              location: job.location,
+              budget: job.budget !== null ? Number(job.budget) : null,
+              isUrgent: job.isUrgent,
+            })),
+        };
+      })
+      .filter((section) => section.jobs.length > 0);
+
+    // Nothing new is still a completed digest run - don't retry every 30 minutes
+    if (sections.length > 0) {
+      const delivered = await sendSavedSearchDigestEmail({
+        contractorEmail: contractor.user.email,
+        contractorName: contractor.businessName || contractor.user.name,
+        searches: sections,
+      });
+      if (!delivered) {
+        continue;
+      }
+      sent++;
+    }
+
+    await prisma.savedSearch.updateMany({
+      where: { id: { in: searches.map((search) => search.id) } },
+      data: { lastDigestSentAt: now },
+    });
+  }
+
+  console.info(`[saved-searches][digest] dueSearches=${dueSearches.length} contractors=${byContractor.size} emailsSent=${sent}`);
+}
@@ -1,3 +1,4 @@
+import { ContractorTier } from '@prisma/client';
 import { prisma } from '../config/database';
 
 /**
@@ -90,3 +91,220 @@ export async function getMaxContractorsPerJob(): Promise<number> {
   return 5; // Default: 5 contractors per job
 }
 
+
+/**
+ * Get job listing expiry settings. POSTED jobs nobody has bought access to expire
+ * after `expiryDays`; customers are warned `warningDays` beforehand.
+ * An expiryDays of 0 disables expiry.
+ */
+export async function getJobExpirySettings(): Promise<{ expiryDays: number; warningDays: number }> {
+  const setting = await getSetting('JOB_EXPIRY_DAYS');
+  const expiryDays = setting?.days !== undefined ? parseInt(setting.days.toString()) : 30; // Default: 30 days
+  const warningDays = setting?.warningDays !== undefined ? parseInt(setting.warningDays.toString()) : 3; // Default: 3 days
+  return { expiryDays, warningDays: Math.min(warningDays, expiryDays) };
+}
+
+export interface DynamicLeadPricingSettings {
+  enabled: boolean;
+  floor: number; // Lowest lead price (ex VAT) dynamic pricing may charge
+  ceiling: number; // Highest lead price (ex VAT) dynamic pricing may charge
+  urgentMultiplier: number;
+  demandPremium: number; // Extra fraction charged as slots fill, reached at the last slot
+  ageDiscountPerDay: number;
+  maxAgeDiscount: number;
+  lowCoverageThreshold: number; // Fewer covering contractors than this gets the low-coverage multiplier
+  lowCoverageMultiplier: number;
+  highCoverageThreshold: number; // More covering contractors than this gets the high-coverage multiplier
+  highCoverageMultiplier: number;
+}
+
+/**
+ * Get dynamic lead pricing settings (DYNAMIC_LEAD_PRICING). Disabled by default, in which
+ * case leads cost the service's size price or the job's admin override.
+ */
+export async function getDynamicLeadPricingSettings(): Promise<DynamicLeadPricingSettings> {
+  const setting = await getSetting('DYNAMIC_LEAD_PRICING');
+  const number = (value: unknown, fallback: number) => {
+    const parsed = value !== undefined && value !== null ? parseFloat(value.toString()) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  return {
+    enabled: setting?.enabled === true || setting?.enabled === 'true',
+    floor: number(setting?.floor, 5),
+    ceiling: number(setting?.ceiling, 100),
+    urgentMultiplier: number(setting?.urgentMultiplier, 1.2),
+    demandPremium: number(setting?.demandPremium, 0.3),
+    ageDiscountPerDay: number(setting?.ageDiscountPerDay, 0.02),
+    maxAgeDiscount: Math.min(number(setting?.maxAgeDiscount, 0.3), 1),
+    lowCoverageThreshold: number(setting?.lowCoverageThreshold, 3),
+    lowCoverageMultiplier: number(setting?.lowCoverageMultiplier, 0.9),
+    highCoverageThreshold: number(setting?.highCoverageThreshold, 15),
+    highCoverageMultiplier: number(setting?.highCoverageMultiplier, 1.15),
+  };
+}
+
+/**
+ * Get lead-quality claim settings (LEAD_QUALITY_CLAIMS). Contractors can claim a bad lead
+ * up to `windowHours` after buying it; a customer with `flagThreshold` approved claims has
+ * their open and future jobs flagged for review.
+ */
+export async function getLeadClaimSettings(): Promise<{ windowHours: number; flagThreshold: number }> {
+  const setting = await getSetting('LEAD_QUALITY_CLAIMS');
+  const windowHours = setting?.windowHours !== undefined ? parseInt(setting.windowHours.toString()) : 72; // Default: 3 days
+  const flagThreshold = setting?.flagThreshold !== undefined ? parseInt(setting.flagThreshold.toString()) : 2;
+  return { windowHours, flagThreshold: Math.max(flagThreshold, 1) };
+}
+
+export interface CreditBundle {
+  id: string;
+  name: string;
+  credits: number;
+  price: number; // Ex VAT
+  expiryDays: number | null; // Purchased credits lapse this many days after purchase; null = never
+  active: boolean;
+}
+
+/**
+ * Get the credit packs contractors can buy (CREDIT_BUNDLES, `{ bundles: [...] }`). Entries
+ * without an id, a whole number of credits or a positive price are skipped rather than sold.
+ */
+export async function getCreditBundles(): Promise<CreditBundle[]> {
+  const setting = await getSetting('CREDIT_BUNDLES');
+  const bundles: any[] = Array.isArray(setting?.bundles) ? setting.bundles : [];
+
+  return bundles.flatMap((bundle) => {
+    const credits = Number(bundle?.credits);
+    const price = Number(bundle?.price);
+    const expiryDays = bundle?.expiryDays !== undefined && bundle?.expiryDays !== null ? Number(bundle.expiryDays) : null;
+
+    if (!bundle?.id || !Number.isInteger(credits) || credits < 1 || !Number.isFinite(price) || price <= 0) {
+      return [];
+    }
+    if (expiryDays !== null && (!Number.isInteger(expiryDays) || expiryDays < 1)) {
+      return [];
+    }
+
+    return [{
+      id: bundle.id.toString(),
+      name: bundle.name ? bundle.name.toString() : `${credits} credits`,
+      credits,
+      price: Math.round(price * 100) / 100,
+      expiryDays,
+      active: bundle.active !== false && bundle.active !== 'false',
+    }];
+  });
+}
+
+/**
+ * Get job payment escrow settings (JOB_ESCROW). Off unless `enabled` is set; customers can
+ * then choose to pay a job or stage through the platform instead of paying the contractor directly.
+ */
+export async function getEscrowSettings(): Promise<{ enabled: boolean }> {
+  const setting = await getSetting('JOB_ESCROW');
+  return { enabled: setting?.enabled === true || setting?.enabled === 'true' };
+}
+
+/**
+ * Get the refund approval threshold (REFUND_APPROVAL, `{ thresholdAmount }` in pounds). Admin
+ * refunds above it wait for a second finance admin; null means no refund needs approval.
+ */
+export async function getRefundApprovalSettings(): Promise<{ thresholdAmount: number | null }> {
+  const setting = await getSetting('REFUND_APPROVAL');
+  if (setting?.thresholdAmount === null) {
+    return { thresholdAmount: null };
+  }
+  const thresholdAmount = setting?.thresholdAmount !== undefined ? parseFloat(setting.thresholdAmount.toString()) : 250;
+  return { thresholdAmount: Number.isFinite(thresholdAmount) && thresholdAmount >= 0 ? thresholdAmount : 250 };
+}
+
+export interface DunningSettings {
+  gracePeriodDays: number; // Only the failure notice goes out before this
+  reminderIntervalDays: number | null; // null sends no reminders
+  maxReminders: number;
+  reduceCreditsAfterDays: number | null; // null never reduces credits
+  reducedWeeklyCredits: number;
+  pastDueAfterDays: number | null; // null never marks the subscription past_due
+  cancelAfterDays: number | null; // null leaves cancelling to Stripe's own retry settings
+}
+
+/**
+ * Get the dunning schedule for failed subscription renewals (SUBSCRIPTION_DUNNING). Days count
+ * from the first failed payment; a step set to null is skipped, and no step runs before the
+ * grace period or before the step ahead of it.
+ */
+export async function getDunningSettings(): Promise<DunningSettings> {
+  const setting = await getSetting('SUBSCRIPTION_DUNNING');
+  const days = (value: unknown, fallback: number | null) => {
+    if (value === null) return null;
+    const parsed = value !== undefined ? parseInt(value.toString()) : NaN;
+    return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  const gracePeriodDays = days(setting?.gracePeriodDays, 3) ?? 0;
+  const reminderIntervalDays = days(setting?.reminderIntervalDays, 2);
+  const reduceCreditsAfterDays = days(setting?.reduceCreditsAfterDays, 7);
+  const pastDueAfterDays = days(setting?.pastDueAfterDays, 10);
+  const cancelAfterDays = days(setting?.cancelAfterDays, 21);
+
+  // Keep the steps in order whatever was configured
+  let floor = gracePeriodDays;
+  const notBefore = (value: number | null) => {
+    if (value === null) return null;
+    floor = Math.max(value, floor);
+    return floor;
+  };
+
+  return {
+    gracePeriodDays,
+    reminderIntervalDays: reminderIntervalDays === 0 ? 1 : reminderIntervalDays,
+    maxReminders: days(setting?.maxReminders, 3) ?? 0,
+    reduceCreditsAfterDays: notBefore(reduceCreditsAfterDays),
+    reducedWeeklyCredits: days(setting?.reducedWeeklyCredits, 1) ?? 0,
+    pastDueAfterDays: notBefore(pastDueAfterDays),
+    cancelAfterDays: notBefore(cancelAfterDays),
+  };
+}
+
+export interface TierBenefits {
+  weeklyCredits: number;
+  featured: boolean; // Featured placement in contractor listings
+  commissionRate: number | null; // Percent; null charges the standard COMMISSION_RATE
+  priceMultiplier: number; // Applied to SUBSCRIPTION_PRICING
+}
+
+const DEFAULT_TIER_BENEFITS: Record<ContractorTier, TierBenefits> = {
+  STANDARD: { weeklyCredits: 3, featured: false, commissionRate: null, priceMultiplier: 1 },
+  PREMIUM: { weeklyCredits: 5, featured: true, commissionRate: 4, priceMultiplier: 1.5 },
+  ENTERPRISE: { weeklyCredits: 10, featured: true, commissionRate: 3, priceMultiplier: 2.5 },
+};
+
+/**
+ * Get what each subscription tier includes (SUBSCRIPTION_TIERS, keyed by tier). Missing or
+ * invalid values fall back to the defaults above, one value at a time.
+ */
+export async function getSubscriptionTierBenefits(): Promise<Record<ContractorTier, TierBenefits>> {
+  const setting = await getSetting('SUBSCRIPTION_TIERS');
+  const number = (value: unknown, fallback: number) => {
+    const parsed = value !== undefined && value !== null ? parseFloat(value.toString()) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  const rate = (value: unknown, fallback: number | null) => {
+    if (value === null) return null;
+    const parsed = value !== undefined ? parseFloat(value.toString()) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 && parsed <= 100 ? parsed : fallback;
+  };
+
+  const benefits = {} as Record<ContractorTier, TierBenefits>;
+  for (const tier of Object.values(ContractorTier)) {
+    const configured = setting?.[tier];
+    const defaults = DEFAULT_TIER_BENEFITS[tier];
+    benefits[tier] = {
+      weeklyCredits: Math.floor(number(configured?.weeklyCredits, defaults.weeklyCredits)),
+      featured: configured?.featured !== undefined ? configured.featured === true || configured.featured === 'true' : defaults.featured,
+      commissionRate: rate(configured?.commissionRate, defaults.commissionRate),
+      priceMultiplier: number(configured?.priceMultiplier, defaults.priceMultiplier) || defaults.priceMultiplier,
+    };
+  }
+  return benefits;
+}
@@ -1,5 +1,14 @@
+import Stripe from 'stripe';
+import { ContractorTier, Prisma, SubscriptionPlan } from '@prisma/client';
 import { prisma } from '../config/database';
-import { getSubscriptionPricingFromSettings } from './settingsService';
+import { getStripeClient } from '../config/stripe';
+import { AppError } from '../middleware/errorHandler';
+import {
+  TierBenefits,
+  getCommissionRate,
+  getSubscriptionPricingFromSettings,
+  getSubscriptionTierBenefits,
+} from './settingsService';
 
 /**
  * Unified Subscription Service
@@ -81,9 +90,20 @@ export async function checkSubscriptionStatusByUserId(userId: string): Promise<S
 /**
  * Get subscription pricing from admin settings
  * This is the unified pricing function used across the entire app
+ * Tiers above STANDARD cost the plan price times the tier's priceMultiplier
  */
-export async function getSubscriptionPricing(plan: string) {
-  const pricing = await getSubscriptionPricingFromSettings();
+export async function getSubscriptionPricing(plan: string, tier: ContractorTier = 'STANDARD') {
+  const [basePricing, tierBenefits] = await Promise.all([
+    getSubscriptionPricingFromSettings(),
+    getSubscriptionTierBenefits(),
+  ]);
+  const multiplier = tierBenefits[tier].priceMultiplier;
+  const scale = (price: number) => Math.round(price * multiplier * 100) / 100;
+  const pricing = {
+    monthly: scale(basePricing.monthly),
+    sixMonths: scale(basePricing.sixMonths),
+    yearly: scale(basePricing.yearly),
+  };
   
   // VAT rate is 20% - prices from settings are VAT-inclusive
   const VAT_RATE = 0.20;
@@ -195,7 +215,7 @@ export async function formatSubscriptionDetails(subscription: any) {
     return null;
   }
 
-  const pricing = await getSubscriptionPricing(subscription.plan);
+  const pricing = await getSubscriptionPricing(subscription.plan, subscription.tier);
   const now = new Date();
   
   const nextBillingDate = subscription.currentPeriodEnd;
@@ -222,9 +242,387 @@ export async function formatSubscriptionDetails(subscription: any) {
     nextBillingDate: formattedNextBillingDate,
     currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
     currentPeriodStart: subscription.currentPeriodStart.toISOString(),
+    tier: subscription.tier,
     pricing,
     daysRemaining,
     stripeSubscriptionId: subscription.stripeSubscriptionId,
+    pendingChange: subscription.pendingChangeAt
+      ? {
+          plan: subscription.pendingPlan ?? subscription.plan,
+          tier: subscription.pendingTier ?? subscription.tier,
+          effectiveAt: subscription.pendingChangeAt.toISOString(),
+        }
+      : null,
+  };
+}
+
+
+// ==================== Tiers and plan changes ====================
+
+export const SUBSCRIPTION_PLANS = Object.values(SubscriptionPlan) as SubscriptionPlan[];
+export const CONTRACTOR_TIERS = Object.values(ContractorTier) as ContractorTier[];
+
+export type PlanChangeTiming = 'immediate' | 'period_end';
+
+export async function getTierBenefits(tier: ContractorTier): Promise<TierBenefits> {
+  return (await getSubscriptionTierBenefits())[tier];
+}
+
+/**
+ * The commission rate (percent) charged to a contractor: their tier's rate while they have an
+ * active subscription, otherwise the standard COMMISSION_RATE.
+ */
+export async function getContractorCommissionRate(contractorId: string): Promise<number> {
+  const [subscription, standardRate] = await Promise.all([
+    prisma.subscription.findUnique({
+      where: { contractorId },
+      select: { tier: true, status: true, isActive: true },
+    }),
+    getCommissionRate(),
+  ]);
+
+  if (!subscription?.isActive || subscription.status !== 'active') {
+    return standardRate;
+  }
+  return (await getTierBenefits(subscription.tier)).commissionRate ?? standardRate;
+}
+
+/**
+ * Give a contractor their tier's weekly credits and featured placement. Featured placement is
+ * only taken away if the previous tier granted it, so admins' manual picks are left alone.
+ * While a failed renewal has credits reduced, the new allowance is what gets restored later.
+ */
+export async function applyTierBenefits(
+  client: Prisma.TransactionClient,
+  contractorId: string,
+  tier: ContractorTier,
+  previousTier?: ContractorTier
+) {
+  const benefits = await getSubscriptionTierBenefits();
+  const granted = benefits[tier];
+  const hadTierFeature = previousTier !== undefined && benefits[previousTier].featured;
+
+  const reducedByDunning = await client.subscriptionDunning.findFirst({
+    where: { status: 'OPEN', creditsReducedAt: { not: null }, subscription: { contractorId } },
+    select: { id: true },
+  });
+  if (reducedByDunning) {
+    await client.subscriptionDunning.update({
+      where: { id: reducedByDunning.id },
+      data: { previousWeeklyCreditsLimit: granted.weeklyCredits },
+    });
+  }
+
+  await client.contractor.update({
+    where: { id: contractorId },
+    data: {
+      tier,
+      ...(!reducedByDunning && { weeklyCreditsLimit: granted.weeklyCredits }),
+      ...(granted.featured ? { featuredContractor: true } : hadTierFeature ? { featuredContractor: false } : {}),
+    },
+  });
+}
+
+/**
+ * The Stripe price for a plan and tier: STRIPE_PRICE_<PLAN> for STANDARD and
+ * STRIPE_PRICE_<TIER>_<PLAN> for the others.
+ */
+export function getStripePriceId(plan: SubscriptionPlan, tier: ContractorTier): string | undefined {
+  return tier === 'STANDARD' ? process.env[`STRIPE_PRICE_${plan}`] : process.env[`STRIPE_PRICE_${tier}_${plan}`];
+}
+
+interface PlanChangeRequest {
+  plan?: string;
+  tier?: string;
+  timing?: string;
+}
+
+/**
+ * Check a requested change against the contractor's subscription and load what's needed from
+ * Stripe to preview or make it.
+ */
+async function resolvePlanChange(contractorId: string, request: PlanChangeRequest) {
+  if (!request.plan && !request.tier) {
+    throw new AppError('Choose a new plan or tier', 400);
+  }
+  if (request.plan && !SUBSCRIPTION_PLANS.includes(request.plan as SubscriptionPlan)) {
+    throw new AppError(`Invalid plan. Use one of: ${SUBSCRIPTION_PLANS.join(', ')}`, 400);
+  }
+  if (request.tier && !CONTRACTOR_TIERS.includes(request.tier as ContractorTier)) {
+    throw new AppError(`Invalid tier. Use one of: ${CONTRACTOR_TIERS.join(', ')}`, 400);
+  }
+  const timing = (request.timing || 'immediate') as PlanChangeTiming;
+  if (timing !== 'immediate' && timing !== 'period_end') {
+    throw new AppError('timing must be immediate or period_end', 400);
+  }
+
+  const subscription = await prisma.subscription.findUnique({ where: { contractorId } });
+  if (!subscription || !subscription.isActive || subscription.status !== 'active') {
+    throw new AppError('You need an active subscription to change plan', 400);
+  }
+  if (!subscription.stripeSubscriptionId) {
+    throw new AppError('This subscription is not billed through Stripe. Please contact support to change plan.', 400);
+  }
+
+  const openDunning = await prisma.subscriptionDunning.count({
+    where: { subscriptionId: subscription.id, status: 'OPEN' },
+  });
+  if (openDunning > 0) {
+    throw new AppError('Your last subscription payment failed. Please settle it before changing plan.', 400);
+  }
+
+  const target = {
+    plan: (request.plan as SubscriptionPlan) || subscription.plan,
+    tier: (request.tier as ContractorTier) || subscription.tier,
+  };
+  if (target.plan === subscription.plan && target.tier === subscription.tier) {
+    throw new AppError('You are already on this plan', 400);
+  }
+
+  const priceId = getStripePriceId(target.plan, target.tier);
+  if (!priceId) {
+    throw new AppError(`The ${target.tier.toLowerCase()} ${target.plan.replace(/_/g, ' ').toLowerCase()} plan isn't available yet`, 400);
+  }
+
+  const stripeSubscription = await getStripeClient().subscriptions.retrieve(subscription.stripeSubscriptionId);
+  if (stripeSubscription.cancel_at_period_end) {
+    throw new AppError('Your subscription is set to cancel. Reactivate it before changing plan.', 400);
+  }
+  const item = stripeSubscription.items.data[0];
+  if (!item) {
+    throw new AppError('Your Stripe subscription has no plan attached. Please contact support.', 400);
+  }
+
+  return { subscription, stripeSubscription, item, target, priceId, timing };
+}
+
+async function describePlan(plan: SubscriptionPlan, tier: ContractorTier) {
+  const [pricing, benefits] = await Promise.all([getSubscriptionPricing(plan, tier), getTierBenefits(tier)]);
+  return { plan, tier, pricing, benefits };
+}
+
+/**
+ * What a plan or tier change would cost. Immediate changes are priced by Stripe's upcoming
+ * invoice with proration; pass the returned prorationDate to changeSubscriptionPlan to be
+ * charged exactly what was shown. Changes at period end aren't prorated.
+ */
+export async function previewPlanChange(contractorId: string, request: PlanChangeRequest) {
+  const { subscription, stripeSubscription, item, target, priceId, timing } = await resolvePlanChange(contractorId, request);
+
+  const [current, next] = await Promise.all([
+    describePlan(subscription.plan, subscription.tier),
+    describePlan(target.plan, target.tier),
+  ]);
+
+  if (timing === 'period_end') {
+    return {
+      timing,
+      current,
+      target: next,
+      effectiveAt: subscription.currentPeriodEnd,
+      amountDueNow: 0,
+      prorationAmount: 0,
+      prorationDate: null,
+      nextPaymentAmount: next.pricing.total,
+    };
+  }
+
+  const prorationDate = Math.floor(Date.now() / 1000);
+  const customerId =
+    typeof stripeSubscription.customer === 'string' ? stripeSubscription.customer : stripeSubscription.customer.id;
+  const upcoming = await getStripeClient().invoices.retrieveUpcoming({
+    customer: customerId,
+    subscription: stripeSubscription.id,
+    subscription_items: [{ id: item.id, price: priceId }],
+    subscription_proration_behavior: 'always_invoice',
+    subscription_proration_date: prorationDate,
+  });
+
+  const prorationPence = upcoming.lines.data
+    .filter((line) => line.proration)
+    .reduce((total, line) => total + line.amount, 0);
+
+  return {
+    timing,
+    current,
+    target: next,
+    effectiveAt: new Date(prorationDate * 1000),
+    amountDueNow: Math.max(upcoming.amount_due, 0) / 100,
+    prorationAmount: prorationPence / 100,
+    prorationDate,
+    nextPaymentAmount: next.pricing.total,
   };
 }
 
+// Drop a change booked for period end, leaving the subscription on its current price
+async function releasePendingChange(subscription: { id: string; stripeScheduleId: string | null }) {
+  if (subscription.stripeScheduleId) {
+    try {
+      await getStripeClient().subscriptionSchedules.release(subscription.stripeScheduleId);
+    } catch (error: any) {
+      // Already released or completed; nothing left to undo
+      if (error?.type !== 'StripeInvalidRequestError') {
+        throw error;
+      }
+    }
+  }
+  await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { pendingPlan: null, pendingTier: null, pendingChangeAt: null, stripeScheduleId: null },
+  });
+}
+
+/**
+ * Move a contractor to another plan or tier, now (prorated and invoiced straight away) or from
+ * the end of the current period (booked on a Stripe subscription schedule and applied by the
+ * customer.subscription.updated webhook when the new phase starts).
+ */
+export async function changeSubscriptionPlan(contractorId: string, request: PlanChangeRequest & { prorationDate?: number }) {
+  const { subscription, stripeSubscription, item, target, priceId, timing } = await resolvePlanChange(contractorId, request);
+  const stripe = getStripeClient();
+  const metadata = { ...stripeSubscription.metadata, plan: target.plan, tier: target.tier };
+
+  if (timing === 'period_end') {
+    const scheduleId =
+      typeof stripeSubscription.schedule === 'string' ? stripeSubscription.schedule : stripeSubscription.schedule?.id;
+    const schedule = scheduleId
+      ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+      : await stripe.subscriptionSchedules.create({ from_subscription: stripeSubscription.id });
+    const currentPhase = schedule.phases[0];
+
+    await stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: 'release',
+      phases: [
+        {
+          items: [{ price: item.price.id, quantity: item.quantity ?? 1 }],
+          start_date: currentPhase.start_date,
+          end_date: currentPhase.end_date,
+        },
+        {
+          items: [{ price: priceId, quantity: 1 }],
+          iterations: 1,
+          proration_behavior: 'none',
+          metadata,
+        },
+      ],
+    });
+
+    const updated = await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        pendingPlan: target.plan,
+        pendingTier: target.tier,
+        pendingChangeAt: subscription.currentPeriodEnd,
+        stripeScheduleId: schedule.id,
+      },
+    });
+    return { subscription: updated, timing, effectiveAt: subscription.currentPeriodEnd };
+  }
+
+  // A change made now replaces any change booked for later
+  if (subscription.stripeScheduleId || stripeSubscription.schedule) {
+    await releasePendingChange({
+      id: subscription.id,
+      stripeScheduleId:
+        subscription.stripeScheduleId ??
+        (typeof stripeSubscription.schedule === 'string' ? stripeSubscription.schedule : stripeSubscription.schedule?.id ?? null),
+    });
+  }
+
+  let updatedStripeSubscription: Stripe.Subscription;
+  try {
+    updatedStripeSubscription = await stripe.subscriptions.update(stripeSubscription.id, {
+      items: [{ id: item.id, price: priceId }],
+      proration_behavior: 'always_invoice',
+      ...(request.prorationDate && { proration_date: request.prorationDate }),
+      // Leave the plan as it was if the prorated charge doesn't go through
+      payment_behavior: 'error_if_incomplete',
+      metadata,
+    });
+  } catch (error: any) {
+    if (error?.type === 'StripeCardError') {
+      throw new AppError(`Your card was declined: ${error.message}`, 402);
+    }
+    throw new AppError(`Stripe error: ${error.message}`, 400);
+  }
+
+  const pricing = await getSubscriptionPricing(target.plan, target.tier);
+  const updated = await prisma.$transaction(async (tx) => {
+    const saved = await tx.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        plan: target.plan,
+        tier: target.tier,
+        monthlyPrice: pricing.monthly,
+        currentPeriodStart: new Date(updatedStripeSubscription.current_period_start * 1000),
+        currentPeriodEnd: new Date(updatedStripeSubscription.current_period_end * 1000),
+        pendingPlan: null,
+        pendingTier: null,
+        pendingChangeAt: null,
+        stripeScheduleId: null,
+      },
+    });
+    if (target.tier !== subscription.tier) {
+      await applyTierBenefits(tx, contractorId, target.tier, subscription.tier);
+    }
+    return saved;
+  });
+
+  return { subscription: updated, timing, effectiveAt: new Date() };
+}
+
+/**
+ * Call off a plan change booked for the end of the period.
+ */
+export async function cancelPendingPlanChange(contractorId: string) {
+  const subscription = await prisma.subscription.findUnique({ where: { contractorId } });
+  if (!subscription?.pendingChangeAt) {
+    throw new AppError('No plan change is booked', 404);
+  }
+  await releasePendingChange(subscription);
+}
+
+/**
+ * Bring our record in line with the plan and tier on a Stripe subscription, which is how a
+ * change booked for period end takes effect. Called from customer.subscription.updated.
+ */
+export async function syncPlanFromStripe(stripeSubscription: Stripe.Subscription) {
+  const subscription = await prisma.subscription.findFirst({
+    where: { stripeSubscriptionId: stripeSubscription.id },
+  });
+  if (!subscription) {
+    return null;
+  }
+
+  const plan = SUBSCRIPTION_PLANS.includes(stripeSubscription.metadata?.plan as SubscriptionPlan)
+    ? (stripeSubscription.metadata.plan as SubscriptionPlan)
+    : subscription.plan;
+  const tier = CONTRACTOR_TIERS.includes(stripeSubscription.metadata?.tier as ContractorTier)
+    ? (stripeSubscription.metadata.tier as ContractorTier)
+    : subscription.tier;
+  const pendingApplied =
+    subscription.pendingChangeAt !== null &&
+    plan === (subscription.pendingPlan ?? subscription.plan) &&
+    tier === (subscription.pendingTier ?? subscription.tier);
+
+  if (plan === subscription.plan && tier === subscription.tier && !pendingApplied) {
+    return subscription;
+  }
+
+  const pricing = await getSubscriptionPricing(plan, tier);
+  return prisma.$transaction(async (tx) => {
+    const saved = await tx.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        plan,
+        tier,
+        monthlyPrice: pricing.monthly,
+        ...(pendingApplied && { pendingPlan: null, pendingTier: null, pendingChangeAt: null, stripeScheduleId: null }),
+      },
+    });
+    if (tier !== subscription.tier) {
+      await applyTierBenefits(tx, subscription.contractorId, tier, subscription.tier);
+    }
+    return saved;
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for single events.
+ *
+ * Enough for "add to calendar" downloads and email attachments: one VEVENT per
+ * calendar, times in UTC. Calendars recognise updates to an event by UID, and
+ * SEQUENCE must go up each time the event changes or the update is ignored.
+ */
+
+export type CalendarEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status: CalendarEventStatus;
+  updatedAt?: Date;
+}
+
+const PRODUCT_ID = '-//TrustBuild//Appointments//EN';
+const MAX_LINE_OCTETS = 75;
+
+// 2026-10-19T09:30:00.000Z -> 20261019T093000Z
+export function formatICalendarDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeICalendarText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Build a .ics file containing one event.
+ */
+export function buildICalendar(event: CalendarEvent): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatICalendarDate(event.updatedAt ?? new Date())}`,
+    `DTSTART:${formatICalendarDate(event.start)}`,
+    `DTEND:${formatICalendarDate(event.end)}`,
+    `SUMMARY:${escapeICalendarText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeICalendarText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeICalendarText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `STATUS:${event.status}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,163 @@
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Shared pagination for list endpoints.
+ *
+ * Two modes are supported on every list route:
+ * - page mode (default): `?page=2&limit=20` (or `?offset=20`), returns page/total/pages as before
+ * - cursor mode: `?cursor=&limit=20` for the first page, then `?cursor=<nextCursor>`.
+ *   Cursor pages are anchored to the last row seen, so new rows arriving at the top
+ *   don't shift results, and no count query is needed.
+ *
+ * Both modes return `nextCursor`, so clients can switch to cursors mid-list.
+ */
+
+export type PaginationMode = 'page' | 'cursor';
+
+export interface Pagination {
+  mode: PaginationMode;
+  page: number;
+  limit: number;
+  skip: number;
+  cursor: string | null; // Decoded row id the next page starts after
+}
+
+export interface PaginationMeta {
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+  page?: number;
+  total?: number;
+  pages?: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+export function encodeCursor(id: string): string {
+  return Buffer.from(JSON.stringify({ id })).toString('base64url');
+}
+
+export function decodeCursor(token: string): string {
+  try {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (payload && typeof payload.id === 'string' && payload.id) {
+      return payload.id;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new AppError('Invalid pagination cursor', 400);
+}
+
+/**
+ * Read page/limit/cursor from the query string. Passing `cursor` (even empty)
+ * switches to cursor mode. Throws a 400 AppError for a malformed cursor.
+ */
+export function getPagination(
+  query: Record<string, unknown>,
+  options: { defaultLimit?: number; maxLimit?: number } = {}
+): Pagination {
+  const maxLimit = options.maxLimit ?? MAX_LIMIT;
+  const limit = Math.min(parseInt(query.limit as string) || options.defaultLimit || DEFAULT_LIMIT, maxLimit);
+
+  if (query.cursor !== undefined) {
+    const token = String(query.cursor);
+    return {
+      mode: 'cursor',
+      page: 1,
+      limit,
+      skip: 0,
+      cursor: token ? decodeCursor(token) : null,
+    };
+  }
+
+  // Some routes historically took a raw offset instead of a page number
+  if (query.offset !== undefined && query.page === undefined) {
+    const skip = Math.max(parseInt(query.offset as string) || 0, 0);
+    return { mode: 'page', page: Math.floor(skip / limit) + 1, limit, skip, cursor: null };
+  }
+
+  const page = Math.max(parseInt(query.page as string) || 1, 1);
+  return { mode: 'page', page, limit, skip: (page - 1) * limit, cursor: null };
+}
+
+/**
+ * Prisma findMany arguments for the requested page. Cursor mode fetches one extra
+ * row to detect whether there is a next page; pass the rows to buildPageResult.
+ * The query's orderBy must end with a unique field (e.g. `{ id: 'desc' }`) so the
+ * cursor position is deterministic.
+ */
+export function getPrismaPageArgs(pagination: Pagination) {
+  if (pagination.mode === 'page') {
+    return { skip: pagination.skip, take: pagination.limit };
+  }
+
+  return {
+    take: pagination.limit + 1,
+    ...(pagination.cursor && { cursor: { id: pagination.cursor }, skip: 1 }),
+  };
+}
+
+/**
+ * Trim the rows fetched with getPrismaPageArgs and build the pagination metadata.
+ * `total` is only needed (and only counted by callers) in page mode.
+ */
+export function buildPageResult<T extends { id: string }>(
+  rows: T[],
+  pagination: Pagination,
+  total?: number
+): { items: T[]; pagination: PaginationMeta } {
+  if (pagination.mode === 'cursor') {
+    const hasMore = rows.length > pagination.limit;
+    const items = hasMore ? rows.slice(0, pagination.limit) : rows;
+    return {
+      items,
+      pagination: {
+        limit: pagination.limit,
+        hasMore,
+        nextCursor: hasMore ? encodeCursor(items[items.length - 1].id) : null,
+      },
+    };
+  }
+
+  const pages = Math.ceil((total ?? 0) / pagination.limit);
+  const hasMore = rows.length > 0 && pagination.skip + rows.length < (total ?? 0);
+  return {
+    items: rows,
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total: total ?? 0,
+      pages,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(rows[rows.length - 1].id) : null,
+    },
+  };
+}
+
+/**
+ * Paginate a list that was filtered or sorted in memory. In cursor mode the page
+ * starts after the cursor row; if that row has since dropped out of the list the
+ * cursor is rejected so the client restarts rather than skipping or repeating rows.
+ */
+export function paginateArray<T extends { id: string }>(
+  items: T[],
+  pagination: Pagination
+): { items: T[]; pagination: PaginationMeta } {
+  if (pagination.mode === 'page') {
+    const pageItems = items.slice(pagination.skip, pagination.skip + pagination.limit);
+    return buildPageResult(pageItems, pagination, items.length);
+  }
+
+  let start = 0;
+  if (pagination.cursor) {
+    const index = items.findIndex((item) => item.id === pagination.cursor);
+    if (index === -1) {
+      throw new AppError('Pagination cursor has expired, please reload the list', 400);
+    }
+    start = index + 1;
+  }
+
+  return buildPageResult(items.slice(start, start + pagination.limit + 1), pagination);
+}
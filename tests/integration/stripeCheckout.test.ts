@@ -0,0 +1,41 @@
+/**
+ * Integration tests for Stripe Checkout against a local Stripe mock server
+ *
+ * Start stripe-mock (docker run --rm -p 12111:12111 stripe/stripe-mock) and run with
+ * STRIPE_API_BASE_URL=http://localhost:12111 STRIPE_SECRET_KEY=sk_test_123. Skipped otherwise.
+ */
+
+// Only Stripe is exercised here - no database needed
+jest.mock('../../src/config/database', () => ({
+  prisma: {},
+}));
+
+import { createCheckoutSession, getCheckoutSessionStatus } from '../../src/services/checkoutService';
+
+const describeWithStripeMock = process.env.STRIPE_API_BASE_URL ? describe : describe.skip;
+
+describeWithStripeMock('Stripe Checkout (stripe-mock)', () => {
+  beforeAll(() => {
+    process.env.STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || 'sk_test_123';
+  });
+
+  it('should create a payment-mode session the API accepts', async () => {
+    const checkout = await createCheckoutSession({
+      purpose: 'job_access_purchase',
+      contractorId: 'contractor-1',
+      customerEmail: 'contractor@example.com',
+      itemName: 'Job lead: Kitchen refit',
+      itemDescription: 'Lead price £25.00 + 20% VAT',
+      amountPence: 3000,
+      metadata: { jobId: 'job-1', leadPrice: '25', paymentMethod: 'STRIPE' },
+      returnPath: '/dashboard/contractor/jobs/job-1',
+    });
+
+    expect(checkout.sessionId).toMatch(/^cs_/);
+    expect(checkout.expiresAt).toBeInstanceOf(Date);
+  });
+
+  it('should not reveal sessions that belong to another contractor', async () => {
+    await expect(getCheckoutSessionStatus('cs_test_123', 'contractor-1')).rejects.toThrow('Checkout session not found');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for what the public job routes show to whom
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    job: { findUnique: jest.fn(), findMany: jest.fn(), count: jest.fn() },
+    contractor: { findUnique: jest.fn() },
+    jobAccess: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('../../../src/services/subscriptionService', () => ({
+  checkSubscriptionStatus: jest.fn().mockResolvedValue({ hasActiveSubscription: false, subscription: null }),
+}));
+
+jest.mock('../../../src/services/leadPricingService', () => ({
+  quoteLeadPrice: jest.fn().mockResolvedValue({ price: 20 }),
+  quoteLeadPrices: jest.fn(),
+}));
+
+import { prisma } from '../../../src/config/database';
+import { getAllJobs, getJobWithAccess } from '../../../src/routes/jobs';
+
+const property = {
+  id: 'property-1',
+  label: 'Home',
+  address: '1 High Street',
+  city: 'Leeds',
+  postcode: 'LS1 1AA',
+  accessNotes: 'Key safe 1234',
+};
+
+const job = (overrides: Record<string, any> = {}) => ({
+  id: 'job-1',
+  title: 'Kitchen refit',
+  status: 'POSTED',
+  postcode: 'LS1 1AA',
+  maxContractorsPerJob: 5,
+  wonByContractorId: null,
+  firstRefusalUntil: null,
+  questionnaireAnswers: { rooms: 2, alarm: 'Code 9999' },
+  customer: { id: 'customer-1', user: { id: 'owner-user', name: 'Jo', email: 'jo@example.com' } },
+  service: {
+    id: 'service-1',
+    name: 'Kitchens',
+    category: 'Building',
+    questionnaire: [
+      { key: 'rooms', label: 'Rooms', type: 'number', visibleBeforePurchase: true },
+      { key: 'alarm', label: 'Alarm details', type: 'text' },
+    ],
+  },
+  attachments: [{ id: 'attachment-1', kind: 'IMAGE', url: 'https://example.com/front-door.jpg' }],
+  property,
+  appointments: [],
+  applications: [],
+  jobAccess: [],
+  wonByContractor: null,
+  ...overrides,
+});
+
+// Resolve with the JSON body the handler sends, or reject with the error it passes on
+const fetchJob = (user?: { id: string; role: string }) =>
+  new Promise<any>((resolve, reject) => {
+    const res: any = { status: jest.fn(() => res), json: jest.fn((body: any) => resolve(body.data)) };
+    getJobWithAccess({ params: { id: 'job-1' }, user } as any, res, reject);
+  });
+
+const listJobs = (query: Record<string, string>, user?: { id: string; role: string }) =>
+  new Promise<any>((resolve, reject) => {
+    const res: any = { status: jest.fn(() => res), json: jest.fn((body: any) => resolve(body.data)) };
+    getAllJobs({ query, user } as any, res, reject);
+  });
+
+describe('GET /api/jobs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.job.findMany as jest.Mock).mockResolvedValue([{ ...job(), _count: { jobAccess: 0 } }]);
+    (prisma.job.count as jest.Mock).mockResolvedValue(1);
+  });
+
+  it('should not list drafts to anonymous visitors', async () => {
+    await expect(listJobs({ status: 'DRAFT' })).rejects.toMatchObject({ statusCode: 403 });
+    expect(prisma.job.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should only list a customer's own drafts", async () => {
+    await listJobs({ status: 'DRAFT' }, { id: 'other-user', role: 'CUSTOMER' });
+
+    expect(prisma.job.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ status: { in: ['DRAFT'] }, customer: { userId: 'other-user' } }) })
+    );
+  });
+
+  it("should leave out questionnaire answers on other customers' jobs", async () => {
+    const { jobs } = await listJobs({});
+    expect(jobs[0].questionnaireAnswers).toBeUndefined();
+
+    const { jobs: ownJobs } = await listJobs({}, { id: 'owner-user', role: 'CUSTOMER' });
+    expect(ownJobs[0].questionnaireAnswers).toEqual({ rooms: 2, alarm: 'Code 9999' });
+  });
+});
+
+describe('GET /api/jobs/:id', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.job.findUnique as jest.Mock).mockResolvedValue(job());
+    (prisma.contractor.findUnique as jest.Mock).mockResolvedValue({ id: 'contractor-1', subscription: null });
+    (prisma.jobAccess.findUnique as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should not show the property to anonymous visitors', async () => {
+    const data = await fetchJob();
+
+    expect(data.hasAccess).toBe(false);
+    expect(data.property).toBeNull();
+  });
+
+  it('should not show the property to another customer', async () => {
+    const data = await fetchJob({ id: 'other-user', role: 'CUSTOMER' });
+
+    expect(data.hasAccess).toBe(false);
+    expect(data.property).toBeNull();
+  });
+
+  it('should redact questionnaire answers and attachments for anyone without access', async () => {
+    const data = await fetchJob({ id: 'other-user', role: 'CUSTOMER' });
+
+    expect(data.questionnaire).toEqual([{ key: 'rooms', label: 'Rooms', type: 'number', value: 2 }]);
+    expect(data.questionnaireAnswers).toBeUndefined();
+    expect(data.attachments).toEqual([]);
+    expect(data.attachmentCounts).toEqual({ images: 1, documents: 0 });
+  });
+
+  it("should show the property to the job's customer and admins", async () => {
+    expect((await fetchJob({ id: 'owner-user', role: 'CUSTOMER' })).property).toEqual(property);
+    expect((await fetchJob({ id: 'admin-user', role: 'ADMIN' })).property).toEqual(property);
+  });
+
+  it('should show the property only to contractors who bought access', async () => {
+    expect((await fetchJob({ id: 'contractor-user', role: 'CONTRACTOR' })).property).toBeNull();
+
+    (prisma.jobAccess.findUnique as jest.Mock).mockResolvedValue({ id: 'access-1', claimedWon: false });
+    expect((await fetchJob({ id: 'contractor-user', role: 'CONTRACTOR' })).property).toEqual(property);
+  });
+});
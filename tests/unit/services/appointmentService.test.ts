@@ -0,0 +1,78 @@
+/**
+ * Unit tests for Appointment Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/emailNotificationService', () => ({
+  sendAppointmentConfirmedEmail: jest.fn().mockResolvedValue(true),
+  sendAppointmentReminderEmail: jest.fn().mockResolvedValue(true),
+  sendAppointmentCancelledEmail: jest.fn().mockResolvedValue(true),
+}));
+
+import { buildAppointmentCalendar, parseAppointmentSlots } from '../../../src/services/appointmentService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('AppointmentService', () => {
+  describe('parseAppointmentSlots', () => {
+    it('should return slots in time order as ISO strings', () => {
+      expect(
+        parseAppointmentSlots(
+          [
+            { startsAt: '2026-10-22T14:00:00Z', endsAt: '2026-10-22T15:00:00Z' },
+            { startsAt: '2026-10-21T09:00:00Z', endsAt: '2026-10-21T09:30:00Z' },
+          ],
+          now
+        )
+      ).toEqual([
+        { startsAt: '2026-10-21T09:00:00.000Z', endsAt: '2026-10-21T09:30:00.000Z' },
+        { startsAt: '2026-10-22T14:00:00.000Z', endsAt: '2026-10-22T15:00:00.000Z' },
+      ]);
+    });
+
+    it('should reject missing, past and badly sized slots', () => {
+      expect(() => parseAppointmentSlots([], now)).toThrow('at least one time slot');
+      expect(() => parseAppointmentSlots([{ startsAt: '2026-10-18T09:00:00Z', endsAt: '2026-10-18T10:00:00Z' }], now)).toThrow(
+        'in the past'
+      );
+      expect(() => parseAppointmentSlots([{ startsAt: '2026-10-21T09:00:00Z', endsAt: '2026-10-21T09:05:00Z' }], now)).toThrow(
+        'must last between'
+      );
+      expect(() => parseAppointmentSlots([{ startsAt: 'tomorrow', endsAt: '2026-10-21T09:05:00Z' }], now)).toThrow(
+        'valid startsAt'
+      );
+    });
+  });
+
+  describe('buildAppointmentCalendar', () => {
+    const appointment = {
+      id: 'appt-1',
+      sequence: 1,
+      status: 'CONFIRMED' as const,
+      startsAt: new Date('2026-10-21T09:00:00Z'),
+      endsAt: new Date('2026-10-21T10:00:00Z'),
+      location: 'SW1A 1AA',
+      notes: null,
+      updatedAt: now,
+      job: { id: 'job-1', title: 'Loft conversion' },
+      contractor: { businessName: 'Acme Builders', user: { name: 'Alex' } },
+    };
+
+    it('should only produce a file once a time is agreed', () => {
+      expect(buildAppointmentCalendar({ ...appointment, startsAt: null, endsAt: null })).toBeNull();
+      expect(buildAppointmentCalendar(appointment)).toContain('SUMMARY:Site visit: Loft conversion');
+    });
+
+    it('should mark cancelled bookings so calendars remove them', () => {
+      expect(buildAppointmentCalendar({ ...appointment, status: 'CANCELLED' as any, sequence: 2 })).toContain('STATUS:CANCELLED');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for Checkout Service
+ */
+
+// Mock dependencies
+const mockTx = {
+  commissionPayment: { updateMany: jest.fn() },
+  manualInvoice: { updateMany: jest.fn() },
+  job: { update: jest.fn() },
+  payment: { create: jest.fn() },
+};
+
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    payment: { findFirst: jest.fn() },
+    commissionPayment: { findUnique: jest.fn() },
+    manualInvoice: { findUnique: jest.fn() },
+    $transaction: jest.fn((callback: any) => callback(mockTx)),
+  },
+}));
+
+const mockRefundCreate = jest.fn();
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: () => ({ refunds: { create: mockRefundCreate } }),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/adminNotificationService', () => ({
+  notifyAllAdmins: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/emailNotificationService', () => ({
+  sendCommissionInvoiceEmail: jest.fn().mockResolvedValue(true),
+  sendJobAccessInvoiceEmail: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/ledgerService', () => ({
+  recordManualInvoiceIssued: jest.fn().mockResolvedValue(true),
+  recordPaymentReceived: jest.fn().mockResolvedValue(true),
+}));
+
+import { prisma } from '../../../src/config/database';
+import {
+  assertLeadPurchasable,
+  fulfilCheckoutSession,
+  getLeadCheckoutAmounts,
+} from '../../../src/services/checkoutService';
+
+const mockPrisma = prisma as any;
+
+const session = (overrides: Record<string, any> = {}) =>
+  ({
+    id: 'cs_test_1',
+    payment_status: 'paid',
+    payment_intent: 'pi_test_1',
+    amount_total: 6000,
+    metadata: { type: 'commission_payment', contractorId: 'contractor-1', commissionPaymentId: 'comm-1' },
+    ...overrides,
+  }) as any;
+
+const commission = (overrides: Record<string, any> = {}) => ({
+  id: 'comm-1',
+  jobId: 'job-1',
+  milestoneId: null,
+  contractorId: 'contractor-1',
+  totalAmount: 60,
+  finalJobAmount: 1000,
+  commissionAmount: 50,
+  vatAmount: 10,
+  dueDate: new Date('2026-10-20'),
+  job: { title: 'Bathroom refit' },
+  invoice: null,
+  contractor: { user: { id: 'user-1', name: 'Sam', email: 'sam@example.com' } },
+  ...overrides,
+});
+
+describe('CheckoutService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.payment.findFirst.mockResolvedValue(null);
+  });
+
+  describe('getLeadCheckoutAmounts', () => {
+    it('should add 20% VAT and round to pence', () => {
+      expect(getLeadCheckoutAmounts(12.34)).toEqual({
+        leadPrice: 12.34,
+        vatAmount: 2.47,
+        totalAmount: 14.81,
+        totalPence: 1481,
+      });
+    });
+  });
+
+  describe('assertLeadPurchasable', () => {
+    const job = { status: 'POSTED', wonByContractorId: null, maxContractorsPerJob: 3 };
+    const base = { contractorId: 'c1', accountStatus: 'ACTIVE', kyc: null, job, accessContractorIds: [] as string[] };
+
+    it('should allow an open lead', () => {
+      expect(() => assertLeadPurchasable(base)).not.toThrow();
+    });
+
+    it('should refuse full, closed and already-bought leads', () => {
+      expect(() => assertLeadPurchasable({ ...base, accessContractorIds: ['a', 'b', 'c'] })).toThrow('contractor limit');
+      expect(() => assertLeadPurchasable({ ...base, job: { ...job, wonByContractorId: 'x' } })).toThrow('no longer available');
+      expect(() => assertLeadPurchasable({ ...base, accessContractorIds: ['c1'] })).toThrow('already have access');
+    });
+
+    it('should refuse contractors with lapsed ID checks', () => {
+      const kyc = { status: 'PENDING', dueBy: new Date('2026-10-01') };
+      expect(() => assertLeadPurchasable({ ...base, kyc, now: new Date('2026-10-19') })).toThrow('ID verification');
+    });
+  });
+
+  describe('fulfilCheckoutSession', () => {
+    it('should ignore sessions that are not paid yet', async () => {
+      const result = await fulfilCheckoutSession(session({ payment_status: 'unpaid' }));
+
+      expect(result.outcome).toBe('ignored');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing for a session that has already been recorded', async () => {
+      mockPrisma.payment.findFirst.mockResolvedValue({ id: 'payment-1' });
+
+      const result = await fulfilCheckoutSession(session());
+
+      expect(result).toEqual({ purpose: 'commission_payment', outcome: 'already_fulfilled' });
+      expect(mockPrisma.commissionPayment.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should mark the commission paid and record the payment', async () => {
+      mockPrisma.commissionPayment.findUnique.mockResolvedValue(commission());
+      mockTx.commissionPayment.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await fulfilCheckoutSession(session());
+
+      expect(result.outcome).toBe('fulfilled');
+      expect(mockTx.commissionPayment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'PAID', stripePaymentId: 'pi_test_1' }) })
+      );
+      expect(mockTx.job.update).toHaveBeenCalledWith({ where: { id: 'job-1' }, data: { commissionPaid: true } });
+      expect(mockTx.payment.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ type: 'COMMISSION', stripePaymentId: 'pi_test_1' }) })
+      );
+      expect(mockRefundCreate).not.toHaveBeenCalled();
+    });
+
+    it('should leave the job unsettled when paying a stage commission', async () => {
+      mockPrisma.commissionPayment.findUnique.mockResolvedValue(commission({ milestoneId: 'stage-1' }));
+      mockTx.commissionPayment.updateMany.mockResolvedValue({ count: 1 });
+
+      await fulfilCheckoutSession(session());
+
+      expect(mockTx.job.update).not.toHaveBeenCalled();
+    });
+
+    it('should refund a commission that was paid another way in the meantime', async () => {
+      mockPrisma.commissionPayment.findUnique.mockResolvedValue(commission());
+      mockTx.commissionPayment.updateMany.mockResolvedValue({ count: 0 });
+      mockRefundCreate.mockResolvedValue({ id: 're_1' });
+
+      const result = await fulfilCheckoutSession(session());
+
+      expect(result.outcome).toBe('refunded');
+      expect(mockRefundCreate).toHaveBeenCalledWith(expect.objectContaining({ payment_intent: 'pi_test_1' }));
+      expect(mockTx.payment.create).not.toHaveBeenCalled();
+    });
+
+    it('should refund an invoice payment whose total has changed', async () => {
+      mockPrisma.manualInvoice.findUnique.mockResolvedValue({
+        id: 'inv-1',
+        number: 'MI-001',
+        total: 5000,
+        contractorId: 'contractor-1',
+        issuedAt: null,
+        contractor: { user: { id: 'user-1' } },
+      });
+      mockRefundCreate.mockResolvedValue({ id: 're_2' });
+
+      const result = await fulfilCheckoutSession(
+        session({ metadata: { type: 'manual_invoice_payment', contractorId: 'contractor-1', manualInvoiceId: 'inv-1' } })
+      );
+
+      expect(result.outcome).toBe('refunded');
+      expect(mockTx.manualInvoice.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
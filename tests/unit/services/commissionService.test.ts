@@ -35,6 +35,10 @@ jest.mock('../../../src/services/settingsService', () => ({
   getCommissionRate: jest.fn().mockResolvedValue(15),
 }));
 
+jest.mock('../../../src/services/subscriptionService', () => ({
+  getContractorCommissionRate: jest.fn().mockResolvedValue(15),
+}));
+
 import { 
   processCommissionForJob, 
   processCommissionReminders,
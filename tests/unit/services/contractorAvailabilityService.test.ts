@@ -0,0 +1,116 @@
+/**
+ * Unit tests for Contractor Availability Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    contractor: { findMany: jest.fn() },
+    job: { groupBy: jest.fn() },
+    contractorUnavailability: { findMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '../../../src/config/database';
+import {
+  getAvailabilityConflict,
+  getUnavailableContractorIds,
+  isWindowCovered,
+  parseMaxConcurrentJobs,
+  parseUnavailabilityInput,
+} from '../../../src/services/contractorAvailabilityService';
+
+const mockPrisma = prisma as any;
+
+const now = new Date('2026-10-19T09:00:00Z');
+const day = (offset: number) => new Date(now.getTime() + offset * 24 * 60 * 60 * 1000);
+const period = (from: number, to: number, type: 'BUSY' | 'HOLIDAY' = 'BUSY') => ({
+  type,
+  startsAt: day(from),
+  endsAt: day(to),
+});
+
+describe('ContractorAvailabilityService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseMaxConcurrentJobs', () => {
+    it('should accept whole numbers and tell "not sent" apart from "no limit"', () => {
+      expect(parseMaxConcurrentJobs('3')).toBe(3);
+      expect(parseMaxConcurrentJobs(undefined)).toBeUndefined();
+      expect(parseMaxConcurrentJobs(null)).toBeNull();
+    });
+
+    it('should reject zero, fractions and silly limits', () => {
+      expect(() => parseMaxConcurrentJobs(0)).toThrow('between 1 and 50');
+      expect(() => parseMaxConcurrentJobs(2.5)).toThrow('between 1 and 50');
+      expect(() => parseMaxConcurrentJobs(51)).toThrow('between 1 and 50');
+    });
+  });
+
+  describe('parseUnavailabilityInput', () => {
+    it('should default to a busy period', () => {
+      const input = parseUnavailabilityInput({ startsAt: day(1).toISOString(), endsAt: day(3).toISOString() }, now);
+      expect(input).toEqual({ type: 'BUSY', startsAt: day(1), endsAt: day(3), note: null });
+    });
+
+    it('should reject backwards and already-finished periods', () => {
+      expect(() => parseUnavailabilityInput({ startsAt: day(3), endsAt: day(1) }, now)).toThrow('after startsAt');
+      expect(() => parseUnavailabilityInput({ startsAt: day(-5), endsAt: day(-1) }, now)).toThrow('already ended');
+      expect(() => parseUnavailabilityInput({ type: 'SICK', startsAt: day(1), endsAt: day(2) }, now)).toThrow('type must be one of');
+    });
+  });
+
+  describe('isWindowCovered', () => {
+    it('should join back-to-back and overlapping periods', () => {
+      expect(isWindowCovered([period(2, 7), period(-1, 2)], day(0), day(7))).toBe(true);
+      expect(isWindowCovered([period(-1, 3), period(2, 8)], day(0), day(7))).toBe(true);
+    });
+
+    it('should spot a gap', () => {
+      expect(isWindowCovered([period(-1, 2), period(3, 8)], day(0), day(7))).toBe(false);
+      expect(isWindowCovered([], day(0), day(7))).toBe(false);
+    });
+  });
+
+  describe('getAvailabilityConflict', () => {
+    const free = { maxConcurrentJobs: 3, activeJobCount: 1, periods: [] };
+
+    it('should only flag urgent jobs', () => {
+      const full = { ...free, activeJobCount: 3 };
+      expect(getAvailabilityConflict('asap', full, now)?.reason).toBe('AT_CAPACITY');
+      expect(getAvailabilityConflict('flexible', full, now)).toBeNull();
+      expect(getAvailabilityConflict(null, full, now)).toBeNull();
+    });
+
+    it('should compare time off against how soon the job needs starting', () => {
+      const awayFourDays = { ...free, periods: [period(-1, 4, 'HOLIDAY')] };
+      expect(getAvailabilityConflict('asap', awayFourDays, now)?.reason).toBe('UNAVAILABLE');
+      expect(getAvailabilityConflict('within_week', awayFourDays, now)).toBeNull();
+    });
+  });
+
+  describe('getUnavailableContractorIds', () => {
+    it('should drop contractors on holiday or at their job limit', async () => {
+      mockPrisma.contractor.findMany.mockResolvedValue([
+        { id: 'free', maxConcurrentJobs: null },
+        { id: 'full', maxConcurrentJobs: 2 },
+        { id: 'away', maxConcurrentJobs: null },
+        { id: 'busy', maxConcurrentJobs: 5 },
+      ]);
+      mockPrisma.job.groupBy.mockResolvedValue([
+        { wonByContractorId: 'full', _count: { _all: 2 } },
+        { wonByContractorId: 'busy', _count: { _all: 1 } },
+      ]);
+      mockPrisma.contractorUnavailability.findMany.mockResolvedValue([
+        { contractorId: 'away', ...period(-1, 5, 'HOLIDAY') },
+        { contractorId: 'busy', ...period(-1, 5, 'BUSY') },
+      ]);
+
+      const unavailable = await getUnavailableContractorIds(['free', 'full', 'away', 'busy'], now);
+
+      expect([...unavailable].sort()).toEqual(['away', 'full']);
+    });
+  });
+});
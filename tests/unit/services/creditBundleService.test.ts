@@ -0,0 +1,212 @@
+/**
+ * Unit tests for Credit Bundle Service
+ */
+
+// Mock dependencies
+const mockTx = {
+  payment: { create: jest.fn(), update: jest.fn() },
+  invoice: { create: jest.fn() },
+  creditPurchase: { create: jest.fn(), findMany: jest.fn(), updateMany: jest.fn() },
+  contractor: { findUnique: jest.fn(), update: jest.fn() },
+  creditTransaction: { create: jest.fn() },
+};
+
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    adminSettings: { findUnique: jest.fn() },
+    setting: { findUnique: jest.fn() },
+    contractor: { findUnique: jest.fn() },
+    creditPurchase: { findUnique: jest.fn(), findMany: jest.fn() },
+    invoice: { update: jest.fn() },
+    $transaction: jest.fn((callback: any) => callback(mockTx)),
+  },
+}));
+
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: jest.fn(),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/emailNotificationService', () => ({
+  sendCreditPurchaseInvoiceEmail: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/pdfService', () => ({
+  generateInvoicePDF: jest.fn().mockResolvedValue(Buffer.from('%PDF')),
+}));
+
+jest.mock('../../../src/services/ledgerService', () => ({
+  recordCreditTransaction: jest.fn().mockResolvedValue(true),
+  recordPaymentReceived: jest.fn().mockResolvedValue(true),
+}));
+
+import { prisma } from '../../../src/config/database';
+import { sendCreditPurchaseInvoiceEmail } from '../../../src/services/emailNotificationService';
+import { getCreditBundles } from '../../../src/services/settingsService';
+import {
+  consumePurchasedCredit,
+  expirePurchasedCredits,
+  fulfilCreditBundlePurchase,
+  getCreditBundleAmounts,
+  trimPurchasedCredits,
+} from '../../../src/services/creditBundleService';
+
+const mockPrisma = prisma as any;
+
+const paymentIntent = (overrides: Record<string, any> = {}) =>
+  ({
+    id: 'pi_bundle_1',
+    status: 'succeeded',
+    amount: 3000,
+    metadata: {
+      type: 'credit_bundle_purchase',
+      contractorId: 'contractor-1',
+      bundleId: 'starter',
+      bundleName: 'Starter pack',
+      credits: '5',
+      price: '25.00',
+      expiryDays: '30',
+    },
+    ...overrides,
+  }) as any;
+
+describe('CreditBundleService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getCreditBundles', () => {
+    it('should skip bundles that could not be sold sensibly', async () => {
+      mockPrisma.adminSettings.findUnique.mockResolvedValue({
+        value: JSON.stringify({
+          bundles: [
+            { id: 'starter', name: 'Starter pack', credits: 5, price: 25, expiryDays: 30 },
+            { id: 'forever', credits: '10', price: '45', active: false },
+            { id: 'free', credits: 5, price: 0 },
+            { id: 'half', credits: 2.5, price: 10 },
+            { credits: 5, price: 10 },
+          ],
+        }),
+      });
+
+      expect(await getCreditBundles()).toEqual([
+        { id: 'starter', name: 'Starter pack', credits: 5, price: 25, expiryDays: 30, active: true },
+        { id: 'forever', name: '10 credits', credits: 10, price: 45, expiryDays: null, active: false },
+      ]);
+    });
+  });
+
+  describe('getCreditBundleAmounts', () => {
+    it('should add 20% VAT and round to pence', () => {
+      expect(getCreditBundleAmounts(24.99)).toEqual({ price: 24.99, vatAmount: 5, totalAmount: 29.99, totalPence: 2999 });
+    });
+  });
+
+  describe('fulfilCreditBundlePurchase', () => {
+    beforeEach(() => {
+      mockPrisma.creditPurchase.findUnique.mockResolvedValue(null);
+      mockPrisma.contractor.findUnique.mockResolvedValue({
+        id: 'contractor-1',
+        businessName: 'Sam Builds',
+        user: { id: 'user-1', name: 'Sam', email: 'sam@example.com' },
+      });
+      mockTx.payment.create.mockResolvedValue({ id: 'payment-1' });
+      mockTx.invoice.create.mockResolvedValue({ id: 'invoice-1', invoiceNumber: 'INV-CRD-1' });
+      mockTx.creditPurchase.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'lot-1', ...data }));
+    });
+
+    it('should add the credits, the lot and a PURCHASE transaction, then email the invoice', async () => {
+      const { purchase, created } = await fulfilCreditBundlePurchase(paymentIntent());
+
+      expect(created).toBe(true);
+      expect(purchase.creditsRemaining).toBe(5);
+      expect(purchase.expiresAt).toBeInstanceOf(Date);
+      expect(mockTx.contractor.update).toHaveBeenCalledWith({
+        where: { id: 'contractor-1' },
+        data: { creditsBalance: { increment: 5 } },
+      });
+      expect(mockTx.creditTransaction.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ type: 'PURCHASE', amount: 5, creditPurchaseId: 'lot-1' }) })
+      );
+      expect(mockTx.payment.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ type: 'CREDIT_PURCHASE', amount: 30 }) })
+      );
+      expect(sendCreditPurchaseInvoiceEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceNumber: 'INV-CRD-1', pdf: expect.any(Buffer) })
+      );
+      expect(mockPrisma.invoice.update).toHaveBeenCalledWith({ where: { id: 'invoice-1' }, data: { emailSent: true } });
+    });
+
+    it('should return the recorded lot when the payment was already fulfilled', async () => {
+      mockPrisma.creditPurchase.findUnique.mockResolvedValue({ id: 'lot-1', credits: 5 });
+
+      const { created } = await fulfilCreditBundlePurchase(paymentIntent());
+
+      expect(created).toBe(false);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a payment that does not match the quoted bundle price', async () => {
+      await expect(fulfilCreditBundlePurchase(paymentIntent({ amount: 100 }))).rejects.toThrow('amount mismatch');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consumePurchasedCredit', () => {
+    it('should move on when another request spent the last credit of a lot', async () => {
+      mockTx.creditPurchase.findMany.mockResolvedValue([{ id: 'lot-a' }, { id: 'lot-b' }]);
+      mockTx.creditPurchase.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+      expect(await consumePurchasedCredit(mockTx as any, 'contractor-1')).toBe('lot-b');
+    });
+
+    it('should return null when nothing is left to spend', async () => {
+      mockTx.creditPurchase.findMany.mockResolvedValue([]);
+
+      expect(await consumePurchasedCredit(mockTx as any, 'contractor-1')).toBeNull();
+    });
+  });
+
+  describe('trimPurchasedCredits', () => {
+    it('should shrink lots so they fit what is left of the balance', async () => {
+      const tx = {
+        contractor: { findUnique: jest.fn().mockResolvedValue({ creditsBalance: 2 }) },
+        creditPurchase: {
+          aggregate: jest.fn().mockResolvedValue({ _sum: { creditsRemaining: 5 } }),
+          findMany: jest.fn().mockResolvedValue([
+            { id: 'soon', creditsRemaining: 2 },
+            { id: 'later', creditsRemaining: 3 },
+          ]),
+          update: jest.fn(),
+        },
+      };
+
+      await trimPurchasedCredits(tx as any, 'contractor-1');
+
+      expect(tx.creditPurchase.update).toHaveBeenCalledWith({ where: { id: 'soon' }, data: { creditsRemaining: 0 } });
+      expect(tx.creditPurchase.update).toHaveBeenCalledWith({ where: { id: 'later' }, data: { creditsRemaining: 2 } });
+    });
+  });
+
+  describe('expirePurchasedCredits', () => {
+    it('should remove lapsed credits without taking the balance below zero', async () => {
+      mockPrisma.creditPurchase.findMany.mockResolvedValue([
+        { id: 'lot-1', contractorId: 'contractor-1', creditsRemaining: 3, bundleName: 'Starter pack', contractor: { userId: 'user-1' } },
+      ]);
+      mockTx.creditPurchase.updateMany.mockResolvedValue({ count: 1 });
+      mockTx.contractor.findUnique.mockResolvedValue({ creditsBalance: 2 });
+
+      expect(await expirePurchasedCredits(new Date('2026-10-19'))).toBe(1);
+      expect(mockTx.contractor.update).toHaveBeenCalledWith({
+        where: { id: 'contractor-1' },
+        data: { creditsBalance: { decrement: 2 } },
+      });
+      expect(mockTx.creditTransaction.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ type: 'EXPIRY', amount: -2 }) })
+      );
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for Dunning Service
+ */
+
+// Mock dependencies (transactions run against the same mocks)
+const mockDb = {
+  subscription: { findFirst: jest.fn(), update: jest.fn() },
+  subscriptionDunning: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  contractor: { update: jest.fn() },
+};
+
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    ...mockDb,
+    $transaction: jest.fn((arg: any) => (typeof arg === 'function' ? arg(mockDb) : Promise.all(arg))),
+  },
+}));
+
+const mockStripe = {
+  subscriptions: { cancel: jest.fn() },
+  paymentIntents: { retrieve: jest.fn() },
+};
+
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: jest.fn(() => mockStripe),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/emailNotificationService', () => ({
+  sendSubscriptionDunningEmail: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/settingsService', () => ({
+  getDunningSettings: jest.fn().mockResolvedValue({
+    gracePeriodDays: 3,
+    reminderIntervalDays: 2,
+    maxReminders: 3,
+    reduceCreditsAfterDays: 7,
+    reducedWeeklyCredits: 1,
+    pastDueAfterDays: 10,
+    cancelAfterDays: 21,
+  }),
+}));
+
+import { createNotification } from '../../../src/services/notificationService';
+import { sendSubscriptionDunningEmail } from '../../../src/services/emailNotificationService';
+import {
+  getNextDunningStep,
+  processSubscriptionDunning,
+  recordFailedRenewal,
+  recoverFailedRenewal,
+} from '../../../src/services/dunningService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T09:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+const subscription = (overrides: Record<string, any> = {}) => ({
+  id: 'sub-1',
+  contractorId: 'contractor-1',
+  plan: 'MONTHLY',
+  status: 'active',
+  stripeSubscriptionId: 'sub_stripe',
+  contractor: {
+    id: 'contractor-1',
+    businessName: 'Smith Builders',
+    weeklyCreditsLimit: 3,
+    user: { id: 'user-1', name: 'Jo Smith', email: 'jo@example.com' },
+  },
+  ...overrides,
+});
+
+const dunningCase = (overrides: Record<string, any> = {}) => ({
+  id: 'dunning-1',
+  subscriptionId: 'sub-1',
+  stripeInvoiceId: 'in_1',
+  amountDue: 59.99,
+  status: 'OPEN',
+  stage: 'GRACE',
+  failedAt: daysAgo(1),
+  remindersSent: 0,
+  lastReminderAt: null,
+  previousWeeklyCreditsLimit: null,
+  creditsReducedAt: null,
+  pastDueAt: null,
+  subscription: subscription(),
+  ...overrides,
+});
+
+const settings = {
+  gracePeriodDays: 3,
+  reminderIntervalDays: 2,
+  maxReminders: 3,
+  reduceCreditsAfterDays: 7,
+  reducedWeeklyCredits: 1,
+  pastDueAfterDays: 10,
+  cancelAfterDays: 21,
+};
+
+describe('DunningService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.subscription.findFirst.mockResolvedValue(subscription());
+    mockDb.subscriptionDunning.findFirst.mockResolvedValue(null);
+    mockDb.subscriptionDunning.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'dunning-1', ...data }));
+    mockDb.subscriptionDunning.updateMany.mockResolvedValue({ count: 1 });
+    mockStripe.paymentIntents.retrieve.mockResolvedValue({ last_payment_error: { message: 'Your card has insufficient funds.' } });
+  });
+
+  describe('recordFailedRenewal', () => {
+    const invoice = { id: 'in_1', subscription: 'sub_stripe', amount_due: 5999, attempt_count: 1, payment_intent: 'pi_1' } as any;
+
+    it('should open a case and tell the contractor without touching the subscription', async () => {
+      const dunning = await recordFailedRenewal(invoice);
+
+      expect(dunning).toMatchObject({ amountDue: 59.99, lastFailureReason: 'Your card has insufficient funds.' });
+      expect(mockDb.subscription.update).not.toHaveBeenCalled();
+      expect(createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', title: 'Subscription Payment Failed', type: 'PAYMENT_FAILED' })
+      );
+      expect(sendSubscriptionDunningEmail).toHaveBeenCalledWith(expect.objectContaining({ recipientEmail: 'jo@example.com' }));
+    });
+
+    it('should record a retry on the open case without notifying again', async () => {
+      mockDb.subscriptionDunning.findFirst.mockResolvedValue(dunningCase({ attemptCount: 1 }));
+
+      await recordFailedRenewal({ ...invoice, attempt_count: 2 });
+
+      expect(mockDb.subscriptionDunning.create).not.toHaveBeenCalled();
+      expect(mockDb.subscriptionDunning.update).toHaveBeenCalledWith({
+        where: { id: 'dunning-1' },
+        data: expect.objectContaining({ attemptCount: 2 }),
+      });
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processSubscriptionDunning', () => {
+    it('should send the first reminder once the grace period is over', async () => {
+      mockDb.subscriptionDunning.findMany.mockResolvedValue([dunningCase({ failedAt: daysAgo(4) })]);
+
+      const result = await processSubscriptionDunning(now);
+
+      expect(result).toEqual({ reminded: 1, creditsReduced: 0, pastDue: 0, cancelled: 0 });
+      expect(mockDb.subscriptionDunning.update).toHaveBeenCalledWith({
+        where: { id: 'dunning-1' },
+        data: { remindersSent: { increment: 1 }, lastReminderAt: now, stage: 'REMINDING' },
+      });
+      expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Subscription Payment Still Due' }));
+    });
+
+    it('should reduce weekly credits and remember the old limit', async () => {
+      mockDb.subscriptionDunning.findMany.mockResolvedValue([
+        dunningCase({ failedAt: daysAgo(8), stage: 'REMINDING', remindersSent: 2, lastReminderAt: daysAgo(2) }),
+      ]);
+
+      const result = await processSubscriptionDunning(now);
+
+      expect(result).toMatchObject({ creditsReduced: 1, reminded: 0 });
+      expect(mockDb.contractor.update).toHaveBeenCalledWith({ where: { id: 'contractor-1' }, data: { weeklyCreditsLimit: 1 } });
+      expect(mockDb.subscriptionDunning.update).toHaveBeenCalledWith({
+        where: { id: 'dunning-1' },
+        data: { creditsReducedAt: now, previousWeeklyCreditsLimit: 3, stage: 'CREDITS_REDUCED' },
+      });
+      // Only the harsher notice goes out
+      expect(createNotification).toHaveBeenCalledTimes(1);
+      expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Weekly Credits Reduced' }));
+    });
+
+    it('should cancel the subscription when the schedule runs out', async () => {
+      mockDb.subscriptionDunning.findMany.mockResolvedValue([
+        dunningCase({ failedAt: daysAgo(21), stage: 'PAST_DUE', pastDueAt: daysAgo(11), creditsReducedAt: daysAgo(14) }),
+      ]);
+
+      const result = await processSubscriptionDunning(now);
+
+      expect(result.cancelled).toBe(1);
+      expect(mockDb.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { status: 'cancelled', isActive: false },
+      });
+      expect(mockDb.contractor.update).toHaveBeenCalledWith({ where: { id: 'contractor-1' }, data: { weeklyCreditsLimit: 0 } });
+      expect(mockStripe.subscriptions.cancel).toHaveBeenCalledWith('sub_stripe', expect.anything());
+      expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Subscription Cancelled' }));
+    });
+
+    it('should close cases for subscriptions cancelled some other way', async () => {
+      mockDb.subscriptionDunning.findMany.mockResolvedValue([
+        dunningCase({ failedAt: daysAgo(21), subscription: subscription({ status: 'cancelled' }) }),
+      ]);
+
+      await processSubscriptionDunning(now);
+
+      expect(mockDb.subscriptionDunning.updateMany).toHaveBeenCalledWith({
+        where: { id: 'dunning-1', status: 'OPEN' },
+        data: { status: 'CLOSED', resolvedAt: now },
+      });
+      expect(mockStripe.subscriptions.cancel).not.toHaveBeenCalled();
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recoverFailedRenewal', () => {
+    it('should give back reduced weekly credits', async () => {
+      mockDb.subscriptionDunning.findFirst.mockResolvedValue(
+        dunningCase({ creditsReducedAt: daysAgo(2), previousWeeklyCreditsLimit: 3 })
+      );
+
+      expect(await recoverFailedRenewal('sub_stripe')).toBe('dunning-1');
+      expect(mockDb.contractor.update).toHaveBeenCalledWith({ where: { id: 'contractor-1' }, data: { weeklyCreditsLimit: 3 } });
+      expect(createNotification).toHaveBeenCalledWith(expect.objectContaining({ title: 'Subscription Payment Received', type: 'SUCCESS' }));
+    });
+  });
+
+  describe('getNextDunningStep', () => {
+    it('should pick the earliest step still to come', () => {
+      const next = getNextDunningStep(
+        { failedAt: daysAgo(6), remindersSent: 3, lastReminderAt: daysAgo(1), creditsReducedAt: null, pastDueAt: null },
+        settings
+      );
+
+      expect(next).toEqual({ step: 'REDUCE_CREDITS', dueAt: new Date(daysAgo(6).getTime() + 7 * DAY_MS) });
+    });
+  });
+});
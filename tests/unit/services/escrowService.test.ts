@@ -0,0 +1,333 @@
+/**
+ * Unit tests for Escrow Service
+ */
+
+// Mock dependencies
+const mockTx = {
+  jobEscrow: { updateMany: jest.fn(), update: jest.fn() },
+  payment: { create: jest.fn(), update: jest.fn() },
+  commissionPayment: { update: jest.fn() },
+  job: { update: jest.fn() },
+};
+
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    jobEscrow: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+    commissionPayment: { findFirst: jest.fn() },
+    contractor: { findUnique: jest.fn() },
+    $transaction: jest.fn((callback: any) => callback(mockTx)),
+  },
+}));
+
+const mockStripe = {
+  refunds: { create: jest.fn() },
+  transfers: { create: jest.fn() },
+};
+
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: jest.fn(() => mockStripe),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/adminNotificationService', () => ({
+  notifyAllAdmins: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/milestoneService', () => ({
+  getAgreedJobAmount: jest.fn(),
+}));
+
+jest.mock('../../../src/services/settingsService', () => ({
+  getEscrowSettings: jest.fn().mockResolvedValue({ enabled: true }),
+}));
+
+jest.mock('../../../src/services/ledgerService', () => ({
+  toPence: jest.fn((amount: any) => Math.round(Number(amount) * 100)),
+  recordEscrowFunded: jest.fn().mockResolvedValue(true),
+  recordEscrowSettled: jest.fn().mockResolvedValue(true),
+}));
+
+import { prisma } from '../../../src/config/database';
+import { notifyAllAdmins } from '../../../src/services/adminNotificationService';
+import { recordEscrowFunded, recordEscrowSettled } from '../../../src/services/ledgerService';
+import { fundEscrow, releaseJobEscrows, settleDisputedEscrows, settleEscrow } from '../../../src/services/escrowService';
+
+const mockPrisma = prisma as any;
+
+const escrow = (overrides: Record<string, any> = {}) => ({
+  id: 'escrow-1',
+  jobId: 'job-1',
+  milestoneId: null,
+  customerId: 'customer-1',
+  contractorId: 'contractor-1',
+  amount: 1000,
+  status: 'HELD',
+  stripePaymentIntentId: 'pi_escrow_1',
+  stripeChargeId: 'ch_1',
+  paymentId: 'payment-1',
+  job: { id: 'job-1', title: 'Garden wall' },
+  contractor: { userId: 'user-contractor', stripeAccountId: 'acct_1' },
+  customer: { userId: 'user-customer' },
+  ...overrides,
+});
+
+const paymentIntent = (overrides: Record<string, any> = {}) =>
+  ({
+    id: 'pi_escrow_1',
+    status: 'succeeded',
+    amount: 100000,
+    latest_charge: 'ch_1',
+    metadata: { type: 'job_escrow', jobId: 'job-1' },
+    ...overrides,
+  }) as any;
+
+describe('EscrowService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTx.jobEscrow.updateMany.mockResolvedValue({ count: 1 });
+    mockTx.jobEscrow.update.mockImplementation(({ data }: any) => Promise.resolve({ ...escrow(), ...data }));
+    mockPrisma.jobEscrow.updateMany.mockResolvedValue({ count: 1 });
+    mockStripe.refunds.create.mockResolvedValue({ id: 're_1' });
+    mockStripe.transfers.create.mockResolvedValue({ id: 'tr_1' });
+  });
+
+  describe('fundEscrow', () => {
+    it('should hold the payment and record it in the ledger', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow({ status: 'PENDING', paymentId: null }));
+      mockTx.payment.create.mockResolvedValue({ id: 'payment-1', type: 'JOB_PAYMENT', amount: 1000 });
+      mockPrisma.contractor.findUnique.mockResolvedValue({ userId: 'user-contractor' });
+
+      const result = await fundEscrow(paymentIntent());
+
+      expect(result.funded).toBe(true);
+      expect(mockTx.jobEscrow.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'HELD', stripeChargeId: 'ch_1' }) })
+      );
+      expect(mockTx.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'JOB_PAYMENT', status: 'PENDING', stripePaymentId: 'pi_escrow_1' }),
+      });
+      expect(recordEscrowFunded).toHaveBeenCalled();
+    });
+
+    it('should not fund an escrow twice', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow());
+
+      const result = await fundEscrow(paymentIntent());
+
+      expect(result.funded).toBe(false);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a payment for a different amount', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow({ status: 'PENDING' }));
+
+      await expect(fundEscrow(paymentIntent({ amount: 50000 }))).rejects.toThrow('Payment amount mismatch');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleEscrow', () => {
+    it('should pay the contractor less the commission and mark the commission paid', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow());
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue({ id: 'commission-1', milestoneId: null, totalAmount: 60 });
+
+      const settled = await settleEscrow('escrow-1', { reason: 'final price confirmed' });
+
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+      expect(mockStripe.transfers.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 94000, destination: 'acct_1', source_transaction: 'ch_1' }),
+        { idempotencyKey: 'escrow-transfer-escrow-1-94000' }
+      );
+      expect(mockTx.commissionPayment.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'PAID', stripePaymentId: 'pi_escrow_1' }) })
+      );
+      expect(mockTx.job.update).toHaveBeenCalledWith({ where: { id: 'job-1' }, data: { commissionPaid: true } });
+      expect(recordEscrowSettled).toHaveBeenCalledWith(mockTx, {
+        id: 'escrow-1',
+        contractorId: 'contractor-1',
+        released: 100000,
+        fee: 6000,
+        refunded: 0,
+      });
+      expect(settled).toMatchObject({ platformFee: 60, releasedAmount: 940, stripeTransferId: 'tr_1' });
+    });
+
+    it('should refund part and release the rest on a split', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow());
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue(null);
+
+      await settleEscrow('escrow-1', { refund: 250, reason: 'dispute d-1' });
+
+      expect(mockPrisma.jobEscrow.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'escrow-1', status: { in: ['HELD', 'PARTIALLY_SETTLED'] } },
+          data: expect.objectContaining({ status: 'SPLIT' }),
+        })
+      );
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_escrow_1', amount: 25000 }),
+        { idempotencyKey: 'escrow-refund-escrow-1-0-25000' }
+      );
+      expect(mockStripe.transfers.create).toHaveBeenCalledWith(expect.objectContaining({ amount: 75000 }), expect.anything());
+    });
+
+    it('should do nothing when the escrow is no longer held', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow({ status: 'RELEASED' }));
+      mockPrisma.jobEscrow.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await settleEscrow('escrow-1', { reason: 'final price confirmed' })).toBeNull();
+      expect(mockStripe.transfers.create).not.toHaveBeenCalled();
+    });
+
+    it('should put the funds back on hold and alert admins when Stripe fails', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow());
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue(null);
+      mockStripe.transfers.create.mockRejectedValue(new Error('Insufficient funds'));
+
+      await expect(settleEscrow('escrow-1', { reason: 'final price confirmed' })).rejects.toThrow('Insufficient funds');
+      expect(mockPrisma.jobEscrow.update).toHaveBeenCalledWith({
+        where: { id: 'escrow-1' },
+        data: { status: 'HELD', settledAt: null },
+      });
+      expect(notifyAllAdmins).toHaveBeenCalled();
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should keep a refund on record when the payout after it fails', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow());
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue(null);
+      mockStripe.transfers.create.mockRejectedValue(new Error('Insufficient funds'));
+
+      await expect(settleEscrow('escrow-1', { refund: 250, reason: 'dispute d-1' })).rejects.toThrow('Insufficient funds');
+
+      expect(mockPrisma.jobEscrow.update).toHaveBeenCalledWith({
+        where: { id: 'escrow-1' },
+        data: { stripeRefundId: 're_1', refundedAmount: 250 },
+      });
+      expect(mockPrisma.jobEscrow.update).toHaveBeenLastCalledWith({
+        where: { id: 'escrow-1' },
+        data: { status: 'PARTIALLY_SETTLED', settledAt: null },
+      });
+      expect(notifyAllAdmins).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('£750.00 is still held') }));
+    });
+
+    it('should only refund the difference when retried with a new split', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(
+        escrow({ status: 'PARTIALLY_SETTLED', refundedAmount: 250, stripeRefundId: 're_1' })
+      );
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue(null);
+      mockStripe.refunds.create.mockResolvedValue({ id: 're_2' });
+
+      await settleEscrow('escrow-1', { refund: 400, reason: 'dispute d-1' });
+
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(expect.objectContaining({ amount: 15000 }), {
+        idempotencyKey: 'escrow-refund-escrow-1-25000-40000',
+      });
+      expect(mockStripe.transfers.create).toHaveBeenCalledWith(expect.objectContaining({ amount: 60000 }), {
+        idempotencyKey: 'escrow-transfer-escrow-1-60000',
+      });
+      expect(recordEscrowSettled).toHaveBeenCalledWith(mockTx, expect.objectContaining({ released: 60000, refunded: 40000 }));
+    });
+
+    it('should not take back a refund already made', async () => {
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(escrow({ status: 'PARTIALLY_SETTLED', refundedAmount: 250 }));
+
+      await expect(settleEscrow('escrow-1', { refund: 100, reason: 'dispute d-1' })).rejects.toThrow('already been refunded');
+      expect(mockPrisma.jobEscrow.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseJobEscrows', () => {
+    it('should release a partly settled escrow without taking back its refund', async () => {
+      const partlySettled = escrow({ status: 'PARTIALLY_SETTLED', refundedAmount: 250, stripeRefundId: 're_1' });
+      mockPrisma.jobEscrow.findMany.mockResolvedValue([partlySettled]);
+      mockPrisma.jobEscrow.findUnique.mockResolvedValue(partlySettled);
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue(null);
+
+      const released = await releaseJobEscrows('job-1');
+
+      expect(mockPrisma.jobEscrow.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { jobId: 'job-1', status: { in: ['HELD', 'PARTIALLY_SETTLED'] } } })
+      );
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+      expect(mockStripe.transfers.create).toHaveBeenCalledWith(expect.objectContaining({ amount: 75000 }), expect.anything());
+      expect(released).toHaveLength(1);
+    });
+  });
+
+  describe('settleDisputedEscrows', () => {
+    it('should take the refund from the most recent payments first', async () => {
+      mockPrisma.jobEscrow.findMany.mockResolvedValue([
+        escrow({ id: 'escrow-2', amount: 400 }),
+        escrow({ id: 'escrow-1', amount: 600 }),
+      ]);
+      mockPrisma.jobEscrow.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(escrow({ id: where.id, amount: where.id === 'escrow-2' ? 400 : 600 }))
+      );
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue(null);
+      mockTx.jobEscrow.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+
+      const result = await settleDisputedEscrows('job-1', 500, 'd-1');
+
+      expect(mockStripe.refunds.create.mock.calls.map((call) => call[0].amount)).toEqual([40000, 10000]);
+      expect(result).toEqual({ held: 1000, refunded: 500, released: 500, failed: 0 });
+    });
+
+    it('should count refunds already made towards the split', async () => {
+      mockPrisma.jobEscrow.findMany.mockResolvedValue([
+        escrow({ id: 'escrow-2', amount: 400 }),
+        escrow({ id: 'escrow-1', amount: 600, status: 'PARTIALLY_SETTLED', refundedAmount: 200 }),
+      ]);
+      mockPrisma.jobEscrow.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(
+          where.id === 'escrow-2'
+            ? escrow({ id: 'escrow-2', amount: 400 })
+            : escrow({ id: 'escrow-1', amount: 600, status: 'PARTIALLY_SETTLED', refundedAmount: 200 })
+        )
+      );
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue(null);
+      mockTx.jobEscrow.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+
+      const result = await settleDisputedEscrows('job-1', 500, 'd-1');
+
+      // £200 is already back with the customer, so £300 more comes from the newest payment
+      expect(mockStripe.refunds.create.mock.calls.map((call) => call[0].amount)).toEqual([30000]);
+      expect(result).toEqual({ held: 1000, refunded: 500, released: 500, failed: 0 });
+      await expect(settleDisputedEscrows('job-1', 100, 'd-1')).rejects.toThrow('between £200.00 and');
+    });
+
+    it('should settle the other payments when one of them fails', async () => {
+      mockPrisma.jobEscrow.findMany.mockResolvedValue([
+        escrow({ id: 'escrow-2', amount: 400 }),
+        escrow({ id: 'escrow-1', amount: 600 }),
+      ]);
+      mockPrisma.jobEscrow.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(escrow({ id: where.id, amount: where.id === 'escrow-2' ? 400 : 600 }))
+      );
+      mockPrisma.commissionPayment.findFirst.mockResolvedValue(null);
+      mockStripe.transfers.create.mockRejectedValueOnce(new Error('Insufficient funds'));
+      mockTx.jobEscrow.update.mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }));
+
+      const result = await settleDisputedEscrows('job-1', 0, 'd-1');
+
+      expect(mockStripe.transfers.create).toHaveBeenCalledTimes(2);
+      expect(result).toEqual({ held: 1000, refunded: 0, released: 600, failed: 1 });
+    });
+
+    it('should reject a refund larger than what is held', async () => {
+      mockPrisma.jobEscrow.findMany.mockResolvedValue([escrow({ amount: 400 })]);
+
+      await expect(settleDisputedEscrows('job-1', 500, 'd-1')).rejects.toThrow('The refund must be between');
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for Geo Service
+ */
+
+import {
+  extractOutwardCode,
+  lookupPostcodeCentroid,
+  distanceInMiles,
+  getBoundingBox,
+  getContractorBaseLocation,
+  compareByDistance,
+} from '../../../src/services/geoService';
+
+describe('GeoService', () => {
+  describe('extractOutwardCode', () => {
+    it('should handle postcodes with and without a space', () => {
+      expect(extractOutwardCode('ls1 4ap')).toBe('LS1');
+      expect(extractOutwardCode('LS14AP')).toBe('LS1');
+      expect(extractOutwardCode('SW1A1AA')).toBe('SW1A');
+    });
+
+    it('should accept a bare outward code', () => {
+      expect(extractOutwardCode('BN1')).toBe('BN1');
+    });
+  });
+
+  describe('lookupPostcodeCentroid', () => {
+    it('should prefer an outward-code centroid when one exists', () => {
+      const location = lookupPostcodeCentroid('PH33 6SY');
+
+      expect(location).toMatchObject({ outwardCode: 'PH33', precision: 'outward' });
+    });
+
+    it('should fall back to the postcode area centroid', () => {
+      const location = lookupPostcodeCentroid('LS6 2AA');
+
+      expect(location).toMatchObject({ outwardCode: 'LS6', precision: 'area' });
+      expect(location!.latitude).toBeCloseTo(53.8, 1);
+    });
+
+    it('should return null for unrecognised input', () => {
+      expect(lookupPostcodeCentroid('QQ1 1AA')).toBeNull();
+      expect(lookupPostcodeCentroid('not a postcode')).toBeNull();
+      expect(lookupPostcodeCentroid(null)).toBeNull();
+    });
+  });
+
+  describe('distanceInMiles', () => {
+    it('should put Leeds and Brighton roughly 200 miles apart', () => {
+      const leeds = lookupPostcodeCentroid('LS1 4AP')!;
+      const brighton = lookupPostcodeCentroid('BN1 1AA')!;
+
+      const distance = distanceInMiles(leeds, brighton);
+
+      expect(distance).toBeGreaterThan(190);
+      expect(distance).toBeLessThan(230);
+    });
+
+    it('should be zero for the same point', () => {
+      const point = { latitude: 51.5, longitude: -0.1 };
+      expect(distanceInMiles(point, point)).toBe(0);
+    });
+  });
+
+  describe('getBoundingBox', () => {
+    it('should contain points just inside the radius', () => {
+      const center = { latitude: 53.8, longitude: -1.55 };
+      const box = getBoundingBox(center, 25);
+
+      expect(box.minLatitude).toBeLessThan(center.latitude);
+      expect(box.maxLatitude).toBeGreaterThan(center.latitude);
+      // Longitude degrees are shorter at UK latitudes, so the box is wider than it is tall
+      expect(box.maxLongitude - box.minLongitude).toBeGreaterThan(box.maxLatitude - box.minLatitude);
+    });
+  });
+
+  describe('getContractorBaseLocation', () => {
+    it('should use stored coordinates first', () => {
+      expect(
+        getContractorBaseLocation({ baseLatitude: 50, baseLongitude: -1, basePostcode: 'LS1 1AA' })
+      ).toEqual({ latitude: 50, longitude: -1 });
+    });
+
+    it('should fall back to the business postcode for legacy profiles', () => {
+      const location = getContractorBaseLocation({ postcode: 'M1 1AE' });
+
+      expect(location).not.toBeNull();
+      expect(location!.latitude).toBeCloseTo(53.48, 1);
+    });
+  });
+
+  describe('compareByDistance', () => {
+    it('should sort nearest first and unknown distances last', () => {
+      const sorted = [
+        { id: 'a', distanceMiles: null },
+        { id: 'b', distanceMiles: 12 },
+        { id: 'c', distanceMiles: 3 },
+      ].sort(compareByDistance);
+
+      expect(sorted.map((item) => item.id)).toEqual(['c', 'b', 'a']);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for Job Announcement Service (who hears about a new job)
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    service: { findUnique: jest.fn() },
+    contractor: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('../../../src/services/contractorAvailabilityService', () => ({
+  getUnavailableContractorIds: jest.fn().mockResolvedValue(new Set()),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  notifyContractorsOfNewJob: jest.fn().mockResolvedValue({ created: 0, failed: 0 }),
+}));
+
+jest.mock('../../../src/services/emailNotificationService', () => ({
+  sendNewJobPostedEmail: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/savedSearchService', () => ({
+  notifySavedSearchMatches: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { prisma } from '../../../src/config/database';
+import { announceJobToContractors } from '../../../src/services/jobAnnouncementService';
+import { notifyContractorsOfNewJob } from '../../../src/services/notificationService';
+
+const contractor = (id: string, base: Record<string, unknown>) => ({
+  id,
+  businessName: id,
+  travelRadiusMiles: 25,
+  baseLatitude: null,
+  baseLongitude: null,
+  basePostcode: null,
+  postcode: null,
+  user: { id: `${id}-user`, name: id, email: `${id}@example.com` },
+  ...base,
+});
+
+// A job in central Leeds
+const job = (overrides: Record<string, unknown> = {}) => ({
+  id: 'job-1',
+  title: 'Boiler repair',
+  description: 'Boiler is leaking',
+  location: 'Leeds',
+  budget: null,
+  isUrgent: false,
+  serviceId: 'service-1',
+  latitude: 53.8,
+  longitude: -1.55,
+  service: { name: 'Plumbing', category: 'Plumbing' },
+  ...overrides,
+});
+
+const notifiedUserIds = () =>
+  (notifyContractorsOfNewJob as jest.Mock).mock.calls.flatMap(([recipients]) => recipients.map((r: any) => r.userId));
+
+describe('JobAnnouncementService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.service.findUnique as jest.Mock).mockResolvedValue({ id: 'service-1', name: 'Plumbing', category: 'Plumbing' });
+    (prisma.contractor.findMany as jest.Mock).mockResolvedValue([
+      contractor('leeds', { basePostcode: 'LS6 2AA' }),
+      contractor('brighton', { baseLatitude: 50.83, baseLongitude: -0.14 }),
+      contractor('unknown', {}),
+    ]);
+  });
+
+  it('should only notify contractors whose radius reaches the job', async () => {
+    await announceJobToContractors(job());
+
+    expect(notifiedUserIds()).toEqual(['leeds-user']);
+  });
+
+  it('should not notify anyone by radius when the job location is unknown', async () => {
+    await announceJobToContractors(job({ latitude: null, longitude: null }));
+
+    expect(notifyContractorsOfNewJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for Job Expiry Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    job: {
+      findMany: jest.fn(),
+      update: jest.fn().mockResolvedValue({}),
+    },
+  },
+}));
+
+jest.mock('../../../src/services/settingsService', () => ({
+  getJobExpirySettings: jest.fn(),
+}));
+
+jest.mock('../../../src/services/jobStatusService', () => ({
+  SYSTEM_ACTOR: { role: 'SYSTEM' },
+  transitionJobStatus: jest.fn().mockResolvedValue({}),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/emailNotificationService', () => ({
+  sendJobExpiredEmail: jest.fn().mockResolvedValue(true),
+  sendJobExpiryWarningEmail: jest.fn().mockResolvedValue(true),
+}));
+
+import { prisma } from '../../../src/config/database';
+import { getJobExpirySettings } from '../../../src/services/settingsService';
+import { transitionJobStatus } from '../../../src/services/jobStatusService';
+import { sendJobExpiryWarningEmail } from '../../../src/services/emailNotificationService';
+import { getJobExpiryDate, processJobExpiry } from '../../../src/services/jobExpiryService';
+
+const listing = (id: string) => ({
+  id,
+  title: 'Fence repair',
+  createdAt: new Date('2026-09-01T00:00:00Z'),
+  customer: { user: { id: 'user-1', name: 'Sam', email: 'sam@example.com' } },
+});
+
+describe('JobExpiryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getJobExpirySettings as jest.Mock).mockResolvedValue({ expiryDays: 30, warningDays: 3 });
+  });
+
+  describe('getJobExpiryDate', () => {
+    it('should add the expiry period to the listing date', () => {
+      expect(getJobExpiryDate(new Date('2026-09-01T00:00:00Z'), 30)).toEqual(new Date('2026-10-01T00:00:00Z'));
+    });
+  });
+
+  describe('processJobExpiry', () => {
+    it('should do nothing when expiry is disabled', async () => {
+      (getJobExpirySettings as jest.Mock).mockResolvedValue({ expiryDays: 0, warningDays: 0 });
+
+      expect(await processJobExpiry()).toEqual({ warned: 0, expired: 0 });
+      expect(prisma.job.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should expire stale listings and warn listings nearing expiry', async () => {
+      (prisma.job.findMany as jest.Mock)
+        .mockResolvedValueOnce([listing('stale')])
+        .mockResolvedValueOnce([listing('expiring')]);
+
+      expect(await processJobExpiry()).toEqual({ warned: 1, expired: 1 });
+      expect(transitionJobStatus).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'stale', to: 'EXPIRED' }));
+      expect(prisma.job.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'expiring' }, data: { expiryWarningSentAt: expect.any(Date) } })
+      );
+      expect(sendJobExpiryWarningEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ jobId: 'expiring', expiresAt: new Date('2026-10-01T00:00:00Z') })
+      );
+    });
+
+    it('should skip a listing whose transition is rejected', async () => {
+      (prisma.job.findMany as jest.Mock).mockResolvedValueOnce([listing('bought')]).mockResolvedValueOnce([]);
+      (transitionJobStatus as jest.Mock).mockRejectedValueOnce(new Error('Job status changed'));
+
+      expect(await processJobExpiry()).toEqual({ warned: 0, expired: 0 });
+    });
+  });
+});
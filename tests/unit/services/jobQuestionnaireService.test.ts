@@ -0,0 +1,89 @@
+/**
+ * Unit tests for per-service job questionnaires
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+import {
+  buildQuestionnaireView,
+  getServiceQuestions,
+  parseQuestionnaireDefinition,
+  validateQuestionnaireAnswers,
+} from '../../../src/services/jobQuestionnaireService';
+
+const questions = parseQuestionnaireDefinition([
+  { key: 'rooms', label: 'Number of rooms', type: 'number', required: true, min: 1, visibleBeforePurchase: true },
+  { key: 'finish', label: 'Finish', type: 'select', options: ['Matt', 'Gloss'] },
+  { key: 'access_notes', label: 'Access notes', type: 'text' },
+]);
+
+describe('JobQuestionnaireService', () => {
+  describe('parseQuestionnaireDefinition', () => {
+    it('should reject duplicate keys', () => {
+      expect(() =>
+        parseQuestionnaireDefinition([
+          { key: 'rooms', label: 'Rooms', type: 'number' },
+          { key: 'rooms', label: 'Rooms again', type: 'number' },
+        ])
+      ).toThrow(/duplicate key/);
+    });
+
+    it('should require options for select questions', () => {
+      expect(() => parseQuestionnaireDefinition([{ key: 'finish', label: 'Finish', type: 'select' }])).toThrow(
+        /list of options/
+      );
+    });
+  });
+
+  describe('getServiceQuestions', () => {
+    it('should treat malformed stored data as no questions', () => {
+      expect(getServiceQuestions({ not: 'a list' })).toEqual([]);
+      expect(getServiceQuestions(null)).toEqual([]);
+    });
+  });
+
+  describe('validateQuestionnaireAnswers', () => {
+    it('should normalise answers and drop unknown keys', () => {
+      expect(validateQuestionnaireAnswers(questions, { rooms: '3', finish: 'Matt', colour: 'red' }, { requireAll: true })).toEqual({
+        rooms: 3,
+        finish: 'Matt',
+      });
+    });
+
+    it('should only enforce required answers when asked to', () => {
+      expect(validateQuestionnaireAnswers(questions, {}, { requireAll: false })).toEqual({});
+      expect(() => validateQuestionnaireAnswers(questions, {}, { requireAll: true })).toThrow(/Number of rooms is required/);
+    });
+
+    it('should report every invalid answer with a 400', () => {
+      expect.assertions(2);
+      try {
+        validateQuestionnaireAnswers(questions, { rooms: 0, finish: 'Satin' }, { requireAll: false });
+      } catch (error: any) {
+        expect(error.statusCode).toBe(400);
+        expect(error.message).toMatch(/at least 1.*one of: Matt, Gloss/);
+      }
+    });
+  });
+
+  describe('buildQuestionnaireView', () => {
+    const answers = { rooms: 3, finish: 'Gloss', access_notes: 'Key under the mat' };
+
+    it('should show every answer to contractors with access', () => {
+      expect(buildQuestionnaireView(questions, answers, { hasAccess: true }).map((answer) => answer.key)).toEqual([
+        'rooms',
+        'finish',
+        'access_notes',
+      ]);
+    });
+
+    it('should only show pre-purchase questions to contractors without access', () => {
+      expect(buildQuestionnaireView(questions, answers, { hasAccess: false })).toEqual([
+        { key: 'rooms', label: 'Number of rooms', type: 'number', value: 3 },
+      ]);
+    });
+  });
+});
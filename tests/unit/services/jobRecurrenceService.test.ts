@@ -0,0 +1,98 @@
+/**
+ * Unit tests for Job Recurrence Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/settingsService', () => ({
+  getMaxContractorsPerJob: jest.fn().mockResolvedValue(5),
+}));
+
+jest.mock('../../../src/services/leadClaimService', () => ({
+  shouldFlagNewJob: jest.fn().mockResolvedValue({ isFlagged: false }),
+}));
+
+jest.mock('../../../src/services/jobAnnouncementService', () => ({
+  announceJobToContractors: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../../src/services/jobStatusService', () => ({
+  SYSTEM_ACTOR: { type: 'SYSTEM' },
+  recordInitialJobStatus: jest.fn().mockResolvedValue(undefined),
+}));
+
+import {
+  addRecurrenceInterval,
+  getNextRunAt,
+  isReservedForOtherContractor,
+  parseRecurrenceRule,
+} from '../../../src/services/jobRecurrenceService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+describe('JobRecurrenceService', () => {
+  describe('addRecurrenceInterval', () => {
+    it('should step weekly series by whole weeks', () => {
+      expect(addRecurrenceInterval(now, 'WEEKLY', 2).toISOString()).toBe('2026-11-02T12:00:00.000Z');
+    });
+
+    it('should land on the last day of shorter months', () => {
+      const endOfJanuary = new Date('2027-01-31T09:00:00Z');
+      expect(addRecurrenceInterval(endOfJanuary, 'MONTHLY', 1).toISOString()).toBe('2027-02-28T09:00:00.000Z');
+      expect(addRecurrenceInterval(endOfJanuary, 'MONTHLY', 3).toISOString()).toBe('2027-04-30T09:00:00.000Z');
+    });
+  });
+
+  describe('getNextRunAt', () => {
+    it('should skip occurrences that are already in the past', () => {
+      const anchor = new Date('2026-09-01T08:00:00Z');
+      expect(getNextRunAt(anchor, 'WEEKLY', 1, now).toISOString()).toBe('2026-10-20T08:00:00.000Z');
+    });
+
+    it('should keep the anchor day rather than drifting after a short month', () => {
+      const anchor = new Date('2026-08-31T08:00:00Z');
+      expect(getNextRunAt(anchor, 'MONTHLY', 1, now).toISOString()).toBe('2026-10-31T08:00:00.000Z');
+    });
+  });
+
+  describe('parseRecurrenceRule', () => {
+    it('should default to every period with no first refusal', () => {
+      expect(parseRecurrenceRule({ frequency: 'MONTHLY' }, now)).toEqual({
+        frequency: 'MONTHLY',
+        interval: 1,
+        autoPost: false,
+        firstRefusalHours: 0,
+        endsAt: null,
+      });
+    });
+
+    it('should reject unknown frequencies and out-of-range values', () => {
+      expect(() => parseRecurrenceRule({ frequency: 'DAILY' }, now)).toThrow('frequency');
+      expect(() => parseRecurrenceRule({ frequency: 'WEEKLY', interval: 0 }, now)).toThrow('interval');
+      expect(() => parseRecurrenceRule({ frequency: 'WEEKLY', firstRefusalHours: 500 }, now)).toThrow('firstRefusalHours');
+      expect(() => parseRecurrenceRule({ frequency: 'WEEKLY', endsAt: '2026-10-01T00:00:00Z' }, now)).toThrow('endsAt');
+    });
+  });
+
+  describe('isReservedForOtherContractor', () => {
+    const job = { firstRefusalContractorId: 'contractor-1', firstRefusalUntil: new Date('2026-10-20T12:00:00Z') };
+
+    it('should hold the job for the previous contractor during the window', () => {
+      expect(isReservedForOtherContractor(job, 'contractor-2', now)).toBe(true);
+      expect(isReservedForOtherContractor(job, null, now)).toBe(true);
+      expect(isReservedForOtherContractor(job, 'contractor-1', now)).toBe(false);
+    });
+
+    it('should release the job once the window has passed', () => {
+      expect(isReservedForOtherContractor(job, 'contractor-2', new Date('2026-10-21T00:00:00Z'))).toBe(false);
+      expect(isReservedForOtherContractor({ ...job, firstRefusalUntil: null }, 'contractor-2', now)).toBe(false);
+    });
+  });
+});
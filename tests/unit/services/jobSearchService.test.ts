@@ -0,0 +1,223 @@
+/**
+ * Unit tests for Job Search Service
+ */
+
+import { Prisma } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+  },
+}));
+
+import { prisma } from '../../../src/config/database';
+import {
+  buildJobListingSql,
+  buildJobListingWhere,
+  formatHighlight,
+  isJobSortOption,
+  queryJobListing,
+  resolveJobSort,
+} from '../../../src/services/jobSearchService';
+import { encodeCursor, getPagination } from '../../../src/utils/pagination';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+// Rebuild the query $queryRaw was given so its SQL and bound values can be checked
+const queryAt = (call: number) => {
+  const [strings, ...values] = (prisma.$queryRaw as jest.Mock).mock.calls[call];
+  return Prisma.sql(strings, ...values);
+};
+
+describe('JobSearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isJobSortOption', () => {
+    it('should accept the supported sorts only', () => {
+      expect(isJobSortOption('relevance')).toBe(true);
+      expect(isJobSortOption('distance')).toBe(true);
+      expect(isJobSortOption('oldest')).toBe(false);
+      expect(isJobSortOption(['newest'])).toBe(false);
+      expect(isJobSortOption(undefined)).toBe(false);
+    });
+  });
+
+  describe('resolveJobSort', () => {
+    it('should default to relevance when searching, then distance, then the standard order', () => {
+      expect(resolveJobSort(undefined, { searching: true, hasBase: true })).toBe('relevance');
+      expect(resolveJobSort(undefined, { searching: false, hasBase: true })).toBe('distance');
+      expect(resolveJobSort(undefined, { searching: false, hasBase: false })).toBeUndefined();
+    });
+
+    it('should fall back when relevance or distance cannot apply', () => {
+      expect(resolveJobSort('relevance', { searching: false, hasBase: true })).toBeUndefined();
+      expect(resolveJobSort('distance', { searching: true, hasBase: false })).toBeUndefined();
+      expect(resolveJobSort('budget', { searching: false, hasBase: false })).toBe('budget');
+    });
+  });
+
+  describe('formatHighlight', () => {
+    it('should escape HTML and turn the markers into <mark> tags', () => {
+      expect(formatHighlight('Fix {{hl}}boiler{{/hl}} <script>"a" & \'b\'</script>')).toBe(
+        'Fix <mark>boiler</mark> &lt;script&gt;&quot;a&quot; &amp; &#39;b&#39;&lt;/script&gt;'
+      );
+    });
+  });
+
+  describe('buildJobListingWhere', () => {
+    it("should narrow a contractor's board to unbought jobs in their area", () => {
+      const box = { minLatitude: 53, maxLatitude: 54, minLongitude: -2, maxLongitude: -1 };
+      const where = buildJobListingWhere({
+        statuses: ['POSTED'],
+        contractorId: 'contractor-1',
+        category: 'Plumbing',
+        budgetMin: 100,
+        boundingBox: box,
+        now,
+      });
+
+      expect(where).toMatchObject({
+        status: { in: ['POSTED'] },
+        wonByContractorId: null,
+        jobAccess: { none: { contractorId: 'contractor-1' } },
+        service: { category: 'Plumbing' },
+        budget: { gte: 100 },
+      });
+      expect(where.AND).toEqual([
+        {
+          OR: [
+            { firstRefusalUntil: null },
+            { firstRefusalUntil: { lte: now } },
+            { firstRefusalContractorId: 'contractor-1' },
+          ],
+        },
+        expect.objectContaining({ OR: expect.arrayContaining([{ latitude: null }]) }),
+      ]);
+    });
+  });
+
+  describe('buildJobListingSql', () => {
+    it('should only bind the filters that were given', () => {
+      const sql = buildJobListingSql({ statuses: ['POSTED', 'IN_PROGRESS'], now });
+
+      expect(sql.sql).toContain('j."status"::text IN (?,?)');
+      expect(sql.sql).not.toContain('job_access');
+      expect(sql.sql).not.toContain('"firstRefusalContractorId"');
+      expect(sql.values).toEqual(['POSTED', 'IN_PROGRESS', now]);
+    });
+
+    it('should apply the contractor, category, location, budget and area filters', () => {
+      const sql = buildJobListingSql({
+        statuses: ['POSTED'],
+        contractorId: 'contractor-1',
+        category: 'Plumbing',
+        location: '50%_off',
+        budgetMin: 100,
+        budgetMax: 500,
+        urgentOnly: true,
+        boundingBox: { minLatitude: 53, maxLatitude: 54, minLongitude: -2, maxLongitude: -1 },
+        now,
+      });
+
+      expect(sql.sql).toContain('j."wonByContractorId" IS NULL');
+      expect(sql.sql).toContain('< j."maxContractorsPerJob"');
+      expect(sql.sql).toContain('s."category" = ?');
+      expect(sql.sql).toContain('j."isUrgent" = true');
+      expect(sql.values).toEqual(
+        expect.arrayContaining(['contractor-1', 'Plumbing', '%50\\%\\_off%', 100, 500, 53, 54, -2, -1])
+      );
+    });
+
+    it("should restrict drafts to the customer's own jobs", () => {
+      const sql = buildJobListingSql({ statuses: ['DRAFT'], customerUserId: 'user-1', now });
+
+      expect(sql.sql).toContain('FROM "customers" c WHERE c."userId" = ?');
+      expect(sql.values).toContain('user-1');
+    });
+  });
+
+  describe('queryJobListing', () => {
+    it('should filter, order and page the matches in the query', async () => {
+      (prisma.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'job-3', rank: 0.4, distanceMiles: null }])
+        .mockResolvedValueOnce([{ count: 3 }]);
+
+      const result = await queryJobListing({
+        search: 'boiler',
+        filters: { statuses: ['POSTED'], now },
+        sort: 'relevance',
+        pagination: getPagination({ page: '2', limit: '2' }),
+      });
+
+      const query = queryAt(0);
+      expect(query.sql).toContain('j."status"::text IN (?)');
+      expect(query.sql).toContain('ORDER BY "sortKey" DESC, "createdAt" DESC, "id" DESC');
+      expect(query.sql).toContain('LIMIT ? OFFSET ?');
+      expect(query.values).toEqual(expect.arrayContaining(['boiler', 'POSTED', 2]));
+      expect(queryAt(1).sql).toContain('count(*)');
+      expect(result.matches).toEqual([{ id: 'job-3', rank: 0.4, distanceMiles: null }]);
+      expect(result.pagination).toMatchObject({ page: 2, total: 3, pages: 2, hasMore: false });
+    });
+
+    it('should start a cursor page after the cursor row', async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([
+        { id: 'job-2', rank: 0.5, distanceMiles: null },
+        { id: 'job-3', rank: 0.4, distanceMiles: null },
+        { id: 'job-4', rank: 0.3, distanceMiles: null },
+      ]);
+
+      const result = await queryJobListing({
+        search: 'boiler',
+        filters: { statuses: ['POSTED'], now },
+        sort: 'newest',
+        pagination: getPagination({ cursor: encodeCursor('job-2'), limit: '1' }),
+      });
+
+      expect(queryAt(0).sql).toContain('WHERE "id" = ?');
+      expect(result.matches).toEqual([{ id: 'job-3', rank: 0.4, distanceMiles: null }]);
+      expect(result.pagination).toMatchObject({ hasMore: true, nextCursor: encodeCursor('job-3') });
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a cursor whose job no longer matches', async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([]);
+
+      await expect(
+        queryJobListing({
+          search: 'boiler',
+          filters: { statuses: ['POSTED'], now },
+          sort: undefined,
+          pagination: getPagination({ cursor: encodeCursor('job-2') }),
+        })
+      ).rejects.toThrow('Pagination cursor has expired');
+    });
+
+    it('should apply the travel radius and distance sort in the query', async () => {
+      (prisma.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([
+          { id: 'job-1', rank: 0, distanceMiles: 3.14159 },
+          { id: 'job-2', rank: 0, distanceMiles: null },
+        ])
+        .mockResolvedValueOnce([{ count: 2 }]);
+
+      const result = await queryJobListing({
+        origin: { point: { latitude: 53.8, longitude: -1.55 }, radiusMiles: 25 },
+        filters: { statuses: ['POSTED'], contractorId: 'contractor-1', now },
+        sort: 'distance',
+        pagination: getPagination({}),
+      });
+
+      const query = queryAt(0);
+      expect(query.sql).not.toContain('websearch_to_tsquery');
+      expect(query.sql).toContain('asin(');
+      expect(query.sql).toContain('IS NULL OR');
+      expect(query.sql).toContain('-coalesce(');
+      expect(query.values).toEqual(expect.arrayContaining([53.8, -1.55, 25]));
+      expect(result.matches.map((match) => match.distanceMiles)).toEqual([3.1, null]);
+      expect(result.pagination).toMatchObject({ total: 2 });
+    });
+  });
+});
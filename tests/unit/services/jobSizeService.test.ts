@@ -0,0 +1,56 @@
+/**
+ * Unit tests for Job Size Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+import { Prisma } from '@prisma/client';
+import { classifyJobSize, parseJobSizeThresholds, resolveJobSize } from '../../../src/services/jobSizeService';
+
+const thresholds = {
+  smallJobMaxValue: new Prisma.Decimal(500),
+  mediumJobMaxValue: new Prisma.Decimal(3000),
+};
+
+describe('JobSizeService', () => {
+  describe('classifyJobSize', () => {
+    it('should treat the thresholds as inclusive upper bounds', () => {
+      expect(classifyJobSize(500, thresholds)).toBe('SMALL');
+      expect(classifyJobSize(500.01, thresholds)).toBe('MEDIUM');
+      expect(classifyJobSize(3000, thresholds)).toBe('MEDIUM');
+      expect(classifyJobSize(3000.01, thresholds)).toBe('LARGE');
+    });
+  });
+
+  describe('resolveJobSize', () => {
+    it('should prefer the estimated value over the budget', () => {
+      expect(resolveJobSize({ estimatedValue: new Prisma.Decimal(8000), budget: new Prisma.Decimal(200) }, thresholds)).toEqual({
+        jobSize: 'LARGE',
+        value: 8000,
+        basis: 'estimatedValue',
+      });
+    });
+
+    it('should fall back to the budget', () => {
+      expect(resolveJobSize({ estimatedValue: null, budget: '250' }, thresholds).jobSize).toBe('SMALL');
+    });
+
+    it('should keep the fallback size when the job has no value', () => {
+      expect(resolveJobSize({ budget: null }, thresholds, 'LARGE')).toEqual({ jobSize: 'LARGE', value: null, basis: null });
+    });
+  });
+
+  describe('parseJobSizeThresholds', () => {
+    it('should reject non-positive thresholds', () => {
+      expect(() => parseJobSizeThresholds({ smallJobMaxValue: 0 })).toThrow(/positive number/);
+    });
+
+    it('should check a single threshold against the current one', () => {
+      expect(parseJobSizeThresholds({ mediumJobMaxValue: 4000 }, thresholds)).toEqual({ mediumJobMaxValue: 4000 });
+      expect(() => parseJobSizeThresholds({ smallJobMaxValue: 3500 }, thresholds)).toThrow(/lower than/);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for the job lifecycle state machine
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+jest.mock('../../../src/services/commissionService', () => ({
+  processCommissionForJob: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../../src/services/escrowService', () => ({
+  releaseJobEscrows: jest.fn().mockResolvedValue([]),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+import {
+  assertJobTransition,
+  getAllowedTransitions,
+  jobActorFromUser,
+  validateJobTransition,
+} from '../../../src/services/jobStatusService';
+
+const customer = { role: 'CUSTOMER' as const, id: 'user-1' };
+const contractor = { role: 'CONTRACTOR' as const, id: 'user-2' };
+const admin = { role: 'ADMIN' as const, id: 'admin-1' };
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  status: 'IN_PROGRESS' as any,
+  wonByContractorId: 'contractor-1',
+  contractorProposedAmount: null,
+  ...overrides,
+});
+
+describe('JobStatusService', () => {
+  describe('validateJobTransition', () => {
+    it('should allow a declared transition for a permitted role', () => {
+      expect(validateJobTransition(job(), 'COMPLETED', contractor)).toBeNull();
+    });
+
+    it('should reject transitions that are not in the table', () => {
+      expect(validateJobTransition(job({ status: 'COMPLETED' }), 'POSTED', admin)).toMatch(/Cannot change job status/);
+    });
+
+    it('should reject roles that may not make the transition', () => {
+      expect(validateJobTransition(job(), 'CANCELLED', customer)).toMatch(/customer cannot/);
+    });
+
+    it('should run the guard for the target status', () => {
+      expect(validateJobTransition(job({ status: 'POSTED', wonByContractorId: null }), 'IN_PROGRESS', customer)).toMatch(
+        /contractor must be selected/
+      );
+      expect(validateJobTransition(job(), 'AWAITING_FINAL_PRICE_CONFIRMATION', contractor)).toMatch(/not proposed/);
+    });
+  });
+
+  describe('assertJobTransition', () => {
+    it('should throw a 409 for illegal transitions', () => {
+      expect.assertions(1);
+      try {
+        assertJobTransition(job({ status: 'CANCELLED' }), 'IN_PROGRESS', customer);
+      } catch (error: any) {
+        expect(error.statusCode).toBe(409);
+      }
+    });
+  });
+
+  describe('getAllowedTransitions', () => {
+    it('should only list transitions available to the role', () => {
+      expect(getAllowedTransitions('AWAITING_FINAL_PRICE_CONFIRMATION', 'CONTRACTOR')).toEqual(['DISPUTED']);
+      expect(getAllowedTransitions('CANCELLED', 'CUSTOMER')).toEqual([]);
+    });
+  });
+
+  describe('jobActorFromUser', () => {
+    it('should treat super admins as admins', () => {
+      expect(jobActorFromUser({ id: 'u1', role: 'SUPER_ADMIN' })).toEqual({ role: 'ADMIN', id: 'u1' });
+    });
+  });
+});
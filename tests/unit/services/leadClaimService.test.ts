@@ -0,0 +1,206 @@
+/**
+ * Unit tests for Lead Claim Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    jobAccess: {
+      findUnique: jest.fn(),
+    },
+    leadQualityClaim: {
+      findUnique: jest.fn(),
+      create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'claim-1', ...data })),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockStripe = { refunds: { create: jest.fn() } };
+
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: jest.fn(() => mockStripe),
+}));
+
+jest.mock('../../../src/services/settingsService', () => ({
+  getLeadClaimSettings: jest.fn(),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/adminNotificationService', () => ({
+  notifyAllAdmins: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/ledgerService', () => ({
+  recordCreditTransaction: jest.fn().mockResolvedValue(true),
+  recordPaymentRefunded: jest.fn().mockResolvedValue(true),
+}));
+
+import { prisma } from '../../../src/config/database';
+import { getLeadClaimSettings } from '../../../src/services/settingsService';
+import { notifyAllAdmins } from '../../../src/services/adminNotificationService';
+import {
+  approveLeadClaim,
+  createLeadClaim,
+  getClaimDeadline,
+  getDefaultRemedy,
+  shouldFlagNewJob,
+} from '../../../src/services/leadClaimService';
+
+const jobAccess = (overrides: Record<string, unknown> = {}) => ({
+  id: 'access-1',
+  jobId: 'job-1',
+  contractorId: 'contractor-1',
+  accessedAt: new Date(),
+  creditUsed: true,
+  qualityClaim: null,
+  job: { id: 'job-1', title: 'Boiler service', customerId: 'customer-1' },
+  contractor: { businessName: 'Acme Heating', user: { name: 'Alex' } },
+  ...overrides,
+});
+
+const claimRequest = {
+  jobId: 'job-1',
+  contractorId: 'contractor-1',
+  reason: 'INVALID_PHONE',
+  description: 'Number is not in service',
+};
+
+describe('LeadClaimService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getLeadClaimSettings as jest.Mock).mockResolvedValue({ windowHours: 72, flagThreshold: 2 });
+  });
+
+  describe('getClaimDeadline', () => {
+    it('should add the claim window to the purchase time', () => {
+      expect(getClaimDeadline(new Date('2026-10-19T12:00:00Z'), 72)).toEqual(new Date('2026-10-22T12:00:00Z'));
+    });
+  });
+
+  describe('getDefaultRemedy', () => {
+    it('should restore credits for credit purchases and refund card purchases', () => {
+      expect(getDefaultRemedy({ creditUsed: true })).toBe('CREDIT');
+      expect(getDefaultRemedy({ creditUsed: false })).toBe('STRIPE_REFUND');
+    });
+  });
+
+  describe('createLeadClaim', () => {
+    it('should create the claim and alert admins', async () => {
+      (prisma.jobAccess.findUnique as jest.Mock).mockResolvedValue(jobAccess());
+
+      const claim = await createLeadClaim(claimRequest);
+
+      expect(claim).toMatchObject({ jobAccessId: 'access-1', customerId: 'customer-1', reason: 'INVALID_PHONE' });
+      expect(notifyAllAdmins).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject unknown reasons', async () => {
+      await expect(createLeadClaim({ ...claimRequest, reason: 'RUDE' })).rejects.toMatchObject({ statusCode: 400 });
+      expect(prisma.jobAccess.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second claim for the same lead', async () => {
+      (prisma.jobAccess.findUnique as jest.Mock).mockResolvedValue(
+        jobAccess({ qualityClaim: { id: 'claim-0', status: 'REJECTED' } })
+      );
+
+      await expect(createLeadClaim(claimRequest)).rejects.toMatchObject({ statusCode: 409 });
+      expect(prisma.leadQualityClaim.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse claims after the window has closed', async () => {
+      (prisma.jobAccess.findUnique as jest.Mock).mockResolvedValue(
+        jobAccess({ accessedAt: new Date(Date.now() - 73 * 60 * 60 * 1000) })
+      );
+
+      await expect(createLeadClaim(claimRequest)).rejects.toMatchObject({ statusCode: 400 });
+      expect(prisma.leadQualityClaim.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approveLeadClaim', () => {
+    it('should not refund a lead with no card payment', async () => {
+      (prisma.leadQualityClaim.findUnique as jest.Mock).mockResolvedValue({
+        id: 'claim-1',
+        status: 'PENDING',
+        jobAccess: { creditUsed: false, payment: null },
+      });
+
+      await expect(approveLeadClaim({ claimId: 'claim-1', adminId: 'admin-1' })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(prisma.leadQualityClaim.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refund once and keep the refund on record if the bookkeeping fails', async () => {
+      (prisma.leadQualityClaim.findUnique as jest.Mock).mockResolvedValue({
+        id: 'claim-1',
+        status: 'PENDING',
+        refundAttempts: 0,
+        contractorId: 'contractor-1',
+        jobId: 'job-1',
+        job: { title: 'Boiler service' },
+        contractor: { userId: 'user-1' },
+        jobAccess: {
+          creditUsed: false,
+          payment: { id: 'payment-1', status: 'COMPLETED', stripePaymentId: 'pi_1', amount: 25, description: 'Lead' },
+        },
+      });
+      (prisma.leadQualityClaim.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      mockStripe.refunds.create.mockResolvedValue({ id: 're_1', amount: 2500 });
+      (prisma.$transaction as jest.Mock).mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(approveLeadClaim({ claimId: 'claim-1', adminId: 'admin-1' })).rejects.toThrow('Database unavailable');
+
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(expect.objectContaining({ payment_intent: 'pi_1' }), {
+        idempotencyKey: 'lead-claim-claim-1-1',
+      });
+      expect(prisma.leadQualityClaim.update).toHaveBeenCalledWith({
+        where: { id: 'claim-1' },
+        data: { stripeRefundId: 're_1', refundAmount: 25 },
+      });
+    });
+
+    it('should use a fresh refund key when retrying after a failed refund', async () => {
+      (prisma.leadQualityClaim.findUnique as jest.Mock).mockResolvedValue({
+        id: 'claim-1',
+        status: 'PENDING',
+        refundAttempts: 1,
+        contractorId: 'contractor-1',
+        jobId: 'job-1',
+        jobAccess: {
+          creditUsed: false,
+          payment: { id: 'payment-1', status: 'COMPLETED', stripePaymentId: 'pi_1', amount: 25, description: 'Lead' },
+        },
+      });
+      (prisma.leadQualityClaim.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      mockStripe.refunds.create.mockRejectedValue(new Error('Card network unavailable'));
+
+      await expect(approveLeadClaim({ claimId: 'claim-1', adminId: 'admin-1' })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+
+      expect(prisma.leadQualityClaim.updateMany).toHaveBeenCalledWith({
+        where: { id: 'claim-1', status: 'PENDING', refundAttempts: 1 },
+        data: expect.objectContaining({ status: 'APPROVED', refundAttempts: 2 }),
+      });
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(expect.anything(), {
+        idempotencyKey: 'lead-claim-claim-1-2',
+      });
+    });
+  });
+
+  describe('shouldFlagNewJob', () => {
+    it('should flag once the customer reaches the threshold', async () => {
+      expect(await shouldFlagNewJob(0)).toBe(false);
+      expect(await shouldFlagNewJob(1)).toBe(false);
+      expect(await shouldFlagNewJob(2)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for Lead Pricing Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+  },
+}));
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../src/config/database';
+import { DynamicLeadPricingSettings } from '../../../src/services/settingsService';
+import {
+  calculateLeadPrice,
+  countCoveringContractors,
+  getQuotedLeadPrice,
+  LeadPricingJob,
+} from '../../../src/services/leadPricingService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const settings: DynamicLeadPricingSettings = {
+  enabled: true,
+  floor: 5,
+  ceiling: 100,
+  urgentMultiplier: 1.2,
+  demandPremium: 0.3,
+  ageDiscountPerDay: 0.02,
+  maxAgeDiscount: 0.3,
+  lowCoverageThreshold: 3,
+  lowCoverageMultiplier: 0.9,
+  highCoverageThreshold: 15,
+  highCoverageMultiplier: 1.15,
+};
+
+const job = (overrides: Partial<LeadPricingJob> = {}): LeadPricingJob => ({
+  id: 'job-1',
+  jobSize: 'MEDIUM',
+  leadPrice: null,
+  isUrgent: false,
+  urgency: 'flexible',
+  maxContractorsPerJob: 5,
+  createdAt: now,
+  serviceId: 'service-1',
+  service: {
+    smallJobPrice: new Prisma.Decimal(15),
+    mediumJobPrice: new Prisma.Decimal(30),
+    largeJobPrice: new Prisma.Decimal(50),
+  },
+  ...overrides,
+});
+
+const demand = { accessCount: 0, coveringContractors: 8 };
+
+describe('LeadPricingService', () => {
+  describe('calculateLeadPrice', () => {
+    it('should charge the size price when dynamic pricing is disabled', () => {
+      expect(calculateLeadPrice(job({ isUrgent: true }), demand, { ...settings, enabled: false }, now)).toEqual({
+        price: 30,
+        basePrice: 30,
+        source: 'STANDARD',
+        adjustments: [],
+      });
+    });
+
+    it('should let an admin override win over dynamic pricing', () => {
+      const quote = calculateLeadPrice(job({ leadPrice: new Prisma.Decimal(12), isUrgent: true }), demand, settings, now);
+      expect(quote).toMatchObject({ price: 12, basePrice: 30, source: 'OVERRIDE', adjustments: [] });
+    });
+
+    it('should apply urgency, demand, age and coverage in turn', () => {
+      const quote = calculateLeadPrice(
+        job({ isUrgent: true, createdAt: new Date('2026-10-14T12:00:00Z') }),
+        { accessCount: 2, coveringContractors: 20 },
+        settings,
+        now
+      );
+
+      // 30 x 1.2 x 1.12 x 0.9 x 1.15
+      expect(quote.price).toBe(41.73);
+      expect(quote.source).toBe('DYNAMIC');
+      expect(quote.adjustments.map((adjustment) => adjustment.factor)).toEqual(['URGENCY', 'DEMAND', 'AGE', 'COVERAGE']);
+      expect(quote.adjustments[1].description).toBe('2 of 5 slots taken, 3 left');
+    });
+
+    it('should clamp to the floor and ceiling', () => {
+      const floored = calculateLeadPrice(job({ jobSize: 'SMALL' }), { accessCount: 0, coveringContractors: 1 }, { ...settings, floor: 14 }, now);
+      expect(floored.price).toBe(14);
+      expect(floored.adjustments.map((adjustment) => adjustment.factor)).toEqual(['COVERAGE', 'FLOOR']);
+
+      const capped = calculateLeadPrice(job({ jobSize: 'LARGE', isUrgent: true }), demand, { ...settings, ceiling: 55 }, now);
+      expect(capped.price).toBe(55);
+      expect(capped.adjustments[capped.adjustments.length - 1]).toMatchObject({ factor: 'CEILING', amount: -5 });
+    });
+
+    it('should skip coverage when it is unknown', () => {
+      expect(calculateLeadPrice(job(), { accessCount: 0, coveringContractors: null }, settings, now).adjustments).toEqual([]);
+    });
+  });
+
+  describe('getQuotedLeadPrice', () => {
+    const metadata = { type: 'job_access_purchase', jobId: 'job-1', contractorId: 'contractor-1', leadPrice: '33.6' };
+
+    it('should return the price quoted for this job and contractor', () => {
+      expect(getQuotedLeadPrice({ metadata }, 'job-1', 'contractor-1')).toBe(33.6);
+    });
+
+    it('should ignore intents quoted for another job or contractor', () => {
+      expect(getQuotedLeadPrice({ metadata }, 'job-2', 'contractor-1')).toBeNull();
+      expect(getQuotedLeadPrice({ metadata }, 'job-1', 'contractor-2')).toBeNull();
+      expect(getQuotedLeadPrice({ metadata: null }, 'job-1', 'contractor-1')).toBeNull();
+    });
+  });
+
+  describe('countCoveringContractors', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should count in one query and report zero for jobs nobody covers', async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([{ jobId: 'job-1', count: 4 }]);
+
+      const counts = await countCoveringContractors([
+        job({ latitude: 53.96, longitude: -1.08 }),
+        job({ id: 'job-2', serviceId: 'service-2', postcode: 'BN1 1AA' }),
+        job({ id: 'job-3' }),
+      ]);
+
+      const [strings, ...values] = (prisma.$queryRaw as jest.Mock).mock.calls[0];
+      const query = Prisma.sql(strings, ...values);
+      expect(query.sql).toContain('GROUP BY j."id"');
+      expect(query.sql).toContain('<= c."travelRadiusMiles"');
+      expect(query.values).toEqual(expect.arrayContaining(['job-1', 'service-1', 53.96, -1.08, 'job-2', 'service-2', 50.83]));
+      expect(query.values).not.toContain('job-3');
+      // Coverage is unknown for a job without a location, so pricing skips it
+      expect(counts).toEqual(new Map([['job-1', 4], ['job-2', 0]]));
+    });
+
+    it('should not query without jobs', async () => {
+      expect(await countCoveringContractors([])).toEqual(new Map());
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+});
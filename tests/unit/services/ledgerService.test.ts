@@ -0,0 +1,207 @@
+/**
+ * Unit tests for Ledger Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    ledgerPosting: { groupBy: jest.fn() },
+    ledgerAccount: { findMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '../../../src/config/database';
+import {
+  getTrialBalance,
+  recordCommissionAdjusted,
+  recordCreditTransaction,
+  recordManualInvoiceStatusChange,
+  recordPaymentReceived,
+  validatePostings,
+} from '../../../src/services/ledgerService';
+
+const mockPrisma = prisma as any;
+
+const createClient = (entryCreated = true) => ({
+  ledgerEntry: {
+    createMany: jest.fn().mockResolvedValue({ count: entryCreated ? 1 : 0 }),
+    findUniqueOrThrow: jest.fn().mockResolvedValue({ id: 'entry-1' }),
+  },
+  ledgerAccount: {
+    createMany: jest.fn().mockResolvedValue({ count: 0 }),
+    findMany: jest.fn(({ where }: any) =>
+      Promise.resolve(where.code.in.map((code: string) => ({ id: `acct-${code}`, code })))
+    ),
+  },
+  ledgerPosting: { createMany: jest.fn() },
+});
+
+// Postings written by the last entry, as { accountCode: amount }
+const postedAmounts = (client: ReturnType<typeof createClient>) =>
+  Object.fromEntries(
+    client.ledgerPosting.createMany.mock.calls[0][0].data.map((posting: any) => [
+      posting.accountId.replace('acct-', ''),
+      posting.amount,
+    ])
+  );
+
+const payment = (overrides: Record<string, any> = {}) => ({
+  id: 'payment-1',
+  type: 'LEAD_ACCESS',
+  status: 'COMPLETED',
+  amount: 30,
+  description: 'Job access purchased for: Kitchen refit',
+  contractorId: 'contractor-1',
+  stripePaymentId: 'pi_1',
+  ...overrides,
+});
+
+describe('LedgerService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('validatePostings', () => {
+    it('should drop zero postings from a balanced entry', () => {
+      expect(
+        validatePostings([
+          { account: 'STRIPE_CLEARING', amount: 3000 },
+          { account: 'REVENUE_LEAD_ACCESS', amount: -3000 },
+          { account: 'VAT_PAYABLE', amount: 0 },
+        ])
+      ).toHaveLength(2);
+    });
+
+    it('should reject an entry that does not balance in each unit', () => {
+      expect(() =>
+        validatePostings([
+          { account: 'STRIPE_CLEARING', amount: 3000 },
+          { account: 'CREDITS:contractor-1', amount: -3000 },
+        ])
+      ).toThrow('does not balance in GBP');
+    });
+
+    it('should reject fractions of a penny', () => {
+      expect(() =>
+        validatePostings([
+          { account: 'STRIPE_CLEARING', amount: 0.5 },
+          { account: 'REVENUE_OTHER', amount: -0.5 },
+        ])
+      ).toThrow('not a whole amount');
+    });
+  });
+
+  describe('recordPaymentReceived', () => {
+    it('should split a sale into net revenue and the VAT on its invoice', async () => {
+      const client = createClient();
+
+      expect(await recordPaymentReceived(client as any, payment(), { vatAmount: 5 })).toBe(true);
+      expect(client.ledgerEntry.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: [expect.objectContaining({ key: 'payment:payment-1' })], skipDuplicates: true })
+      );
+      expect(postedAmounts(client)).toEqual({ STRIPE_CLEARING: 3000, REVENUE_LEAD_ACCESS: -2500, VAT_PAYABLE: -500 });
+    });
+
+    it('should clear the receivable when a commission is paid outside Stripe', async () => {
+      const client = createClient();
+
+      await recordPaymentReceived(client as any, payment({ type: 'COMMISSION', amount: 120, stripePaymentId: null }));
+
+      expect(postedAmounts(client)).toEqual({ OFFLINE_RECEIPTS: 12000, 'AR:contractor-1': -12000 });
+    });
+
+    it('should post nothing for a credit-funded access', async () => {
+      const client = createClient();
+
+      expect(await recordPaymentReceived(client as any, payment({ amount: 0 }))).toBe(false);
+      expect(client.ledgerEntry.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should skip the postings when the payment is already in the ledger', async () => {
+      const client = createClient(false);
+
+      expect(await recordPaymentReceived(client as any, payment())).toBe(false);
+      expect(client.ledgerPosting.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordCreditTransaction', () => {
+    it('should treat an admin DEDUCTION as credits leaving the contractor', async () => {
+      const client = createClient();
+
+      await recordCreditTransaction(client as any, {
+        id: 'credit-tx-1',
+        contractorId: 'contractor-1',
+        amount: 2,
+        type: 'DEDUCTION',
+        description: 'Admin adjustment: duplicate grant',
+      });
+
+      expect(postedAmounts(client)).toEqual({ CREDITS_ADJUSTED: -2, 'CREDITS:contractor-1': 2 });
+    });
+
+    it('should redeem a credit spent on a job', async () => {
+      const client = createClient();
+
+      await recordCreditTransaction(client as any, {
+        id: 'credit-tx-2',
+        contractorId: 'contractor-1',
+        amount: -1,
+        type: 'JOB_ACCESS',
+        description: 'Credit used to access job',
+      });
+
+      expect(postedAmounts(client)).toEqual({ CREDITS_REDEEMED: -1, 'CREDITS:contractor-1': 1 });
+    });
+  });
+
+  describe('recordCommissionAdjusted', () => {
+    it('should post only the change to what the contractor owes', async () => {
+      const client = createClient();
+      const before = { id: 'commission-1', contractorId: 'contractor-1', commissionAmount: 100, vatAmount: 20, totalAmount: 120 };
+
+      await recordCommissionAdjusted(client as any, before, { ...before, commissionAmount: 50, vatAmount: 0, totalAmount: 50 }, 'dispute:d-1');
+
+      expect(postedAmounts(client)).toEqual({ 'AR:contractor-1': -7000, REVENUE_COMMISSION: 5000, VAT_PAYABLE: 2000 });
+    });
+  });
+
+  describe('recordManualInvoiceStatusChange', () => {
+    const invoice = { id: 'invoice-1', number: 'MAN-202610-0001', contractorId: 'contractor-1', subtotal: 10000, tax: 2000, total: 12000 };
+
+    it('should bill the contractor when a draft is issued', async () => {
+      const client = createClient();
+
+      await recordManualInvoiceStatusChange(client as any, invoice, 'DRAFT', 'ISSUED');
+
+      expect(postedAmounts(client)).toEqual({ 'AR:contractor-1': 12000, REVENUE_INVOICED: -10000, VAT_PAYABLE: -2000 });
+    });
+
+    it('should leave the ledger alone when a draft is cancelled', async () => {
+      const client = createClient();
+
+      expect(await recordManualInvoiceStatusChange(client as any, invoice, 'DRAFT', 'CANCELED')).toBe(false);
+      expect(client.ledgerEntry.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTrialBalance', () => {
+    it('should put each account in the debit or credit column and total per unit', async () => {
+      mockPrisma.ledgerPosting.groupBy.mockResolvedValue([
+        { accountId: 'a1', _sum: { amount: 3000 } },
+        { accountId: 'a2', _sum: { amount: -2500 } },
+        { accountId: 'a3', _sum: { amount: -500 } },
+      ]);
+      mockPrisma.ledgerAccount.findMany.mockResolvedValue([
+        { id: 'a1', code: 'STRIPE_CLEARING', name: 'Stripe clearing', type: 'ASSET', unit: 'GBP', contractorId: null },
+        { id: 'a2', code: 'REVENUE_LEAD_ACCESS', name: 'Lead access revenue', type: 'REVENUE', unit: 'GBP', contractorId: null },
+        { id: 'a3', code: 'VAT_PAYABLE', name: 'VAT payable', type: 'LIABILITY', unit: 'GBP', contractorId: null },
+      ]);
+
+      const { accounts, totals } = await getTrialBalance();
+
+      expect(accounts.find((account) => account.code === 'STRIPE_CLEARING')).toMatchObject({ debit: 3000, credit: 0 });
+      expect(totals).toContainEqual({ unit: 'GBP', debit: 3000, credit: 3000, balanced: true });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for Milestone Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/commissionService', () => ({
+  processCommissionForJob: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { Prisma } from '@prisma/client';
+import {
+  assertWithinAgreedAmount,
+  getAgreedJobAmount,
+  parseMilestoneAmount,
+  summariseMilestones,
+} from '../../../src/services/milestoneService';
+
+const stage = (id: string, amount: number | null, status: 'PENDING' | 'COMPLETED' | 'APPROVED' = 'PENDING') => ({
+  id,
+  amount: amount === null ? null : new Prisma.Decimal(amount),
+  status,
+});
+
+describe('MilestoneService', () => {
+  describe('parseMilestoneAmount', () => {
+    it('should round to pence and tell "not sent" apart from "cleared"', () => {
+      expect(parseMilestoneAmount('1250.555')).toBe(1250.56);
+      expect(parseMilestoneAmount(undefined)).toBeUndefined();
+      expect(parseMilestoneAmount(null)).toBeNull();
+    });
+
+    it('should reject zero, negative and non-numeric amounts', () => {
+      expect(() => parseMilestoneAmount(0)).toThrow('positive');
+      expect(() => parseMilestoneAmount(-5)).toThrow('positive');
+      expect(() => parseMilestoneAmount('lots')).toThrow('positive');
+    });
+  });
+
+  describe('getAgreedJobAmount', () => {
+    it('should prefer the confirmed final price over the accepted quote', () => {
+      expect(getAgreedJobAmount({ finalAmount: new Prisma.Decimal(5200), contractorProposedAmount: new Prisma.Decimal(5000) })).toBe(5200);
+      expect(getAgreedJobAmount({ finalAmount: null, contractorProposedAmount: new Prisma.Decimal(5000) })).toBe(5000);
+      expect(getAgreedJobAmount({ finalAmount: null, contractorProposedAmount: null })).toBeNull();
+    });
+  });
+
+  describe('summariseMilestones', () => {
+    it('should split approved and outstanding money and show what is unallocated', () => {
+      const milestones = [stage('a', 1500, 'APPROVED'), stage('b', 2000, 'COMPLETED'), stage('c', null)];
+
+      expect(summariseMilestones(milestones, 5000)).toEqual({
+        agreedAmount: 5000,
+        totalAmount: 3500,
+        approvedAmount: 1500,
+        outstandingAmount: 2000,
+        unallocatedAmount: 1500,
+      });
+      expect(summariseMilestones(milestones, null).unallocatedAmount).toBeNull();
+    });
+  });
+
+  describe('assertWithinAgreedAmount', () => {
+    const milestones = [stage('a', 1500, 'APPROVED'), stage('b', 2000)];
+
+    it('should reject stages adding up to more than the agreed price', () => {
+      expect(() => assertWithinAgreedAmount(milestones, { amount: 1600 }, 5000)).toThrow('more than the agreed price');
+    });
+
+    it('should count an edited stage once at its new amount', () => {
+      expect(() => assertWithinAgreedAmount(milestones, { id: 'b', amount: 3500 }, 5000)).not.toThrow();
+      expect(() => assertWithinAgreedAmount(milestones, { id: 'b', amount: 3600 }, 5000)).toThrow();
+    });
+
+    it('should allow any amount before a price is agreed', () => {
+      expect(() => assertWithinAgreedAmount(milestones, { amount: 100000 }, null)).not.toThrow();
+    });
+  });
+});
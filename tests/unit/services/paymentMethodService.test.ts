@@ -0,0 +1,207 @@
+/**
+ * Unit tests for Payment Method Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    stripeCustomer: { findUnique: jest.fn(), update: jest.fn(), upsert: jest.fn() },
+    contractor: { findUnique: jest.fn() },
+    commissionPayment: { findMany: jest.fn(), updateMany: jest.fn(), update: jest.fn() },
+  },
+}));
+
+const mockStripe = {
+  customers: { create: jest.fn(), retrieve: jest.fn(), update: jest.fn() },
+  paymentMethods: { list: jest.fn(), retrieve: jest.fn(), detach: jest.fn() },
+  paymentIntents: { create: jest.fn(), cancel: jest.fn() },
+  setupIntents: { create: jest.fn() },
+};
+
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: jest.fn(() => mockStripe),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/commissionService', () => ({
+  settleCommissionFromPaymentIntent: jest.fn().mockResolvedValue({ id: 'commission-1' }),
+}));
+
+import { prisma } from '../../../src/config/database';
+import { createNotification } from '../../../src/services/notificationService';
+import { settleCommissionFromPaymentIntent } from '../../../src/services/commissionService';
+import {
+  chargeSavedCard,
+  processCommissionAutoPay,
+  setCommissionAutoPay,
+  setDefaultPaymentMethod,
+} from '../../../src/services/paymentMethodService';
+
+const stripeCustomer = { id: 'sc-1', contractorId: 'contractor-1', stripeCustomerId: 'cus_1', autoPayCommissions: true };
+
+const commission = {
+  id: 'commission-1',
+  contractorId: 'contractor-1',
+  jobId: 'job-1',
+  totalAmount: 60,
+  job: { title: 'Kitchen refit' },
+  contractor: { userId: 'user-1' },
+};
+
+describe('PaymentMethodService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.stripeCustomer.findUnique as jest.Mock).mockResolvedValue(stripeCustomer);
+    mockStripe.paymentMethods.list.mockResolvedValue({
+      data: [{ id: 'pm_1', card: { brand: 'visa', last4: '4242', exp_month: 1, exp_year: 2030 } }],
+    });
+    mockStripe.paymentMethods.retrieve.mockResolvedValue({ id: 'pm_1', customer: 'cus_1' });
+    mockStripe.customers.retrieve.mockResolvedValue({ id: 'cus_1', invoice_settings: { default_payment_method: 'pm_1' } });
+    (prisma.commissionPayment.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('setDefaultPaymentMethod', () => {
+    it("should not accept another customer's card", async () => {
+      mockStripe.paymentMethods.retrieve.mockResolvedValue({ id: 'pm_other', customer: 'cus_other' });
+
+      await expect(setDefaultPaymentMethod('contractor-1', 'pm_other')).rejects.toThrow('Payment method not found');
+      expect(mockStripe.customers.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setCommissionAutoPay', () => {
+    it('should need a default card before auto-pay can be turned on', async () => {
+      mockStripe.paymentMethods.list.mockResolvedValue({ data: [] });
+
+      await expect(setCommissionAutoPay('contractor-1', true)).rejects.toThrow('Save a card');
+      expect(prisma.stripeCustomer.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chargeSavedCard', () => {
+    it('should charge the default card', async () => {
+      mockStripe.paymentIntents.create.mockResolvedValue({ id: 'pi_1', status: 'succeeded' });
+
+      const charge = await chargeSavedCard({
+        contractorId: 'contractor-1',
+        amount: 72,
+        description: 'Job lead: Kitchen refit',
+        metadata: { type: 'job_access_purchase' },
+      });
+
+      expect(charge.status).toBe('succeeded');
+      expect(mockStripe.paymentIntents.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 7200, customer: 'cus_1', payment_method: 'pm_1', confirm: true }),
+        undefined
+      );
+    });
+
+    it('should key a repeated charge by the card and amount so Stripe returns the first one', async () => {
+      mockStripe.paymentIntents.create.mockResolvedValue({ id: 'pi_1', status: 'succeeded' });
+
+      await chargeSavedCard({
+        contractorId: 'contractor-1',
+        amount: 72,
+        description: 'Job lead: Kitchen refit',
+        metadata: { type: 'job_access_purchase' },
+        idempotencyKey: 'job-access-contractor-1-job-1',
+      });
+
+      expect(mockStripe.paymentIntents.create).toHaveBeenCalledWith(expect.any(Object), {
+        idempotencyKey: 'job-access-contractor-1-job-1-pm_1-7200',
+      });
+    });
+
+    it('should hand back an off-session charge that needs authentication', async () => {
+      mockStripe.paymentIntents.create.mockRejectedValue({
+        type: 'StripeCardError',
+        code: 'authentication_required',
+        payment_intent: { id: 'pi_sca', status: 'requires_payment_method' },
+      });
+
+      const charge = await chargeSavedCard({
+        contractorId: 'contractor-1',
+        amount: 60,
+        description: 'Commission',
+        metadata: {},
+        offSession: true,
+      });
+
+      expect(charge).toEqual({ status: 'requires_action', paymentIntent: expect.objectContaining({ id: 'pi_sca' }) });
+    });
+
+    it('should turn a decline into a 402', async () => {
+      mockStripe.paymentIntents.create.mockRejectedValue({ type: 'StripeCardError', code: 'card_declined', message: 'Insufficient funds' });
+
+      await expect(
+        chargeSavedCard({ contractorId: 'contractor-1', amount: 60, description: 'Commission', metadata: {} })
+      ).rejects.toMatchObject({ statusCode: 402 });
+    });
+  });
+
+  describe('processCommissionAutoPay', () => {
+    it('should settle commissions charged successfully', async () => {
+      (prisma.commissionPayment.findMany as jest.Mock).mockResolvedValue([commission]);
+      mockStripe.paymentIntents.create.mockResolvedValue({ id: 'pi_1', status: 'succeeded' });
+
+      const result = await processCommissionAutoPay(new Date('2026-10-19T09:00:00Z'));
+
+      expect(result).toEqual({ attempted: 1, paid: 1, failed: 0 });
+      expect(mockStripe.paymentIntents.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          off_session: true,
+          metadata: expect.objectContaining({ type: 'commission_payment', commissionPaymentId: 'commission-1' }),
+        }),
+        undefined
+      );
+      expect(settleCommissionFromPaymentIntent).toHaveBeenCalledWith(expect.objectContaining({ id: 'pi_1' }));
+    });
+
+    it('should not report a charge as failed when settling it goes wrong', async () => {
+      (prisma.commissionPayment.findMany as jest.Mock).mockResolvedValue([commission]);
+      mockStripe.paymentIntents.create.mockResolvedValue({ id: 'pi_1', status: 'succeeded' });
+      (settleCommissionFromPaymentIntent as jest.Mock).mockRejectedValueOnce(new Error('Database unavailable'));
+
+      const result = await processCommissionAutoPay();
+
+      expect(result).toEqual({ attempted: 1, paid: 1, failed: 0 });
+      expect(prisma.commissionPayment.update).not.toHaveBeenCalled();
+      expect(createNotification).not.toHaveBeenCalledWith(expect.objectContaining({ title: 'Commission Auto-Pay Failed' }));
+    });
+
+    it('should send commissions needing authentication to their payment page', async () => {
+      (prisma.commissionPayment.findMany as jest.Mock).mockResolvedValue([commission]);
+      mockStripe.paymentIntents.create.mockResolvedValue({ id: 'pi_sca', status: 'requires_action' });
+      mockStripe.paymentIntents.cancel.mockResolvedValue({});
+
+      const result = await processCommissionAutoPay();
+
+      expect(result).toEqual({ attempted: 1, paid: 0, failed: 1 });
+      expect(mockStripe.paymentIntents.cancel).toHaveBeenCalledWith('pi_sca');
+      expect(settleCommissionFromPaymentIntent).not.toHaveBeenCalled();
+      expect(prisma.commissionPayment.update).toHaveBeenCalledWith({
+        where: { id: 'commission-1' },
+        data: { autoPayFailureReason: 'Your bank needs you to approve this payment' },
+      });
+      expect(createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          title: 'Approve Your Commission Payment',
+          actionLink: '/dashboard/contractor/commissions?commissionPaymentId=commission-1',
+        })
+      );
+    });
+
+    it('should skip commissions another run has already claimed', async () => {
+      (prisma.commissionPayment.findMany as jest.Mock).mockResolvedValue([commission]);
+      (prisma.commissionPayment.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await processCommissionAutoPay();
+
+      expect(mockStripe.paymentIntents.create).not.toHaveBeenCalled();
+    });
+  });
+});
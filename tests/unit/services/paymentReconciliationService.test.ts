@@ -0,0 +1,98 @@
+/**
+ * Unit tests for Payment Reconciliation Service (job access bought by card)
+ */
+
+// Mock dependencies (transactions run against the same mocks)
+const mockDb = {
+  job: { findUnique: jest.fn() },
+  contractor: { findUnique: jest.fn() },
+  jobAccess: { findUnique: jest.fn(), create: jest.fn() },
+  payment: { findFirst: jest.fn(), findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+};
+
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    ...mockDb,
+    $transaction: jest.fn((arg: any) => (typeof arg === 'function' ? arg(mockDb) : Promise.all(arg))),
+  },
+}));
+
+const mockStripe = {
+  refunds: { create: jest.fn() },
+  paymentIntents: { retrieve: jest.fn() },
+};
+
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: jest.fn(() => mockStripe),
+}));
+
+jest.mock('../../../src/services/ledgerService', () => ({
+  recordPaymentReceived: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/refundService', () => ({
+  reconcileStripeRefund: jest.fn().mockResolvedValue('created'),
+}));
+
+import { reconcileJobAccessFromPaymentIntent } from '../../../src/services/paymentReconciliationService';
+import { reconcileStripeRefund } from '../../../src/services/refundService';
+
+const paymentIntent = (id: string) =>
+  ({
+    id,
+    status: 'succeeded',
+    amount: 7200,
+    metadata: { type: 'job_access_purchase', jobId: 'job-1', contractorId: 'contractor-1', leadPrice: '60' },
+  }) as any;
+
+describe('PaymentReconciliationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.job.findUnique.mockResolvedValue({ id: 'job-1', title: 'Kitchen refit' });
+    mockDb.contractor.findUnique.mockResolvedValue({ id: 'contractor-1', user: {} });
+    mockDb.payment.findFirst.mockResolvedValue(null);
+    mockDb.payment.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'payment-new', ...data }));
+    mockStripe.refunds.create.mockResolvedValue({ id: 're_1', status: 'succeeded' });
+  });
+
+  it('should grant access and record the payment for a first charge', async () => {
+    mockDb.jobAccess.findUnique.mockResolvedValue(null);
+    mockDb.jobAccess.create.mockResolvedValue({ id: 'access-1', accessMethod: 'PAYMENT' });
+
+    const result = await reconcileJobAccessFromPaymentIntent(paymentIntent('pi_1'));
+
+    expect(result).toMatchObject({ jobAccessId: 'access-1', createdJobAccess: true, createdPayment: true, duplicate: false });
+    expect(mockDb.payment.create).toHaveBeenCalledWith({ data: expect.objectContaining({ jobAccessId: 'access-1' }) });
+    expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+  });
+
+  it('should record and refund a second charge for access already paid for', async () => {
+    mockDb.jobAccess.findUnique.mockResolvedValue({ id: 'access-1', accessMethod: 'PAYMENT' });
+    mockDb.payment.findUnique.mockResolvedValue({ id: 'payment-1', stripePaymentId: 'pi_1', jobAccessId: 'access-1' });
+
+    const result = await reconcileJobAccessFromPaymentIntent(paymentIntent('pi_2'));
+
+    expect(result).toMatchObject({ duplicate: true, createdPayment: true });
+    const [{ data }] = mockDb.payment.create.mock.calls[0];
+    expect(data).toMatchObject({ stripePaymentId: 'pi_2', amount: 72 });
+    expect(data.jobAccessId).toBeUndefined();
+    expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+      expect.objectContaining({ payment_intent: 'pi_2', reason: 'duplicate' }),
+      { idempotencyKey: 'duplicate-lead-pi_2' }
+    );
+    expect(reconcileStripeRefund).toHaveBeenCalledWith({ id: 're_1', status: 'succeeded' });
+  });
+
+  it('should keep a duplicate on record when the refund fails', async () => {
+    mockDb.jobAccess.findUnique.mockResolvedValue({ id: 'access-1', accessMethod: 'CREDIT' });
+    mockDb.payment.findUnique.mockResolvedValue(null);
+    mockStripe.refunds.create.mockRejectedValue(new Error('Stripe is down'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await reconcileJobAccessFromPaymentIntent(paymentIntent('pi_2'));
+
+    expect(result.duplicate).toBe(true);
+    expect(mockDb.payment.create).toHaveBeenCalled();
+    expect(reconcileStripeRefund).not.toHaveBeenCalled();
+  });
+});
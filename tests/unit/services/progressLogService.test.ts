@@ -0,0 +1,101 @@
+/**
+ * Unit tests for Progress Log Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+jest.mock('../../../src/services/milestoneService', () => ({
+  getMilestoneJob: jest.fn(),
+}));
+
+import {
+  buildPortfolioPairs,
+  isProgressLogLocked,
+  parseLogNote,
+  parsePhotoPhase,
+} from '../../../src/services/progressLogService';
+
+const photo = (id: string, phase: 'BEFORE' | 'PROGRESS' | 'AFTER') => ({
+  id,
+  phase,
+  url: `https://res.cloudinary.com/demo/${id}.jpg`,
+  publicId: `trustbuild/jobs/job-1/progress/${id}`,
+});
+
+describe('ProgressLogService', () => {
+  describe('parsePhotoPhase', () => {
+    it('should default to PROGRESS and accept known phases', () => {
+      expect(parsePhotoPhase(undefined)).toBe('PROGRESS');
+      expect(parsePhotoPhase('')).toBe('PROGRESS');
+      expect(parsePhotoPhase('BEFORE')).toBe('BEFORE');
+    });
+
+    it('should reject unknown phases', () => {
+      expect(() => parsePhotoPhase('DURING')).toThrow('phase must be one of');
+    });
+  });
+
+  describe('parseLogNote', () => {
+    it('should trim notes and treat blank ones as missing', () => {
+      expect(parseLogNote('  First fix done  ')).toBe('First fix done');
+      expect(parseLogNote('   ')).toBeNull();
+      expect(parseLogNote(undefined)).toBeNull();
+    });
+
+    it('should reject overly long notes', () => {
+      expect(() => parseLogNote('x'.repeat(5001))).toThrow('5000 characters');
+    });
+  });
+
+  describe('isProgressLogLocked', () => {
+    it('should lock entries on approved stages and disputed jobs', () => {
+      expect(isProgressLogLocked('IN_PROGRESS', 'APPROVED')).toBe(true);
+      expect(isProgressLogLocked('DISPUTED', 'IN_PROGRESS')).toBe(true);
+      expect(isProgressLogLocked('IN_PROGRESS', 'COMPLETED')).toBe(false);
+    });
+  });
+
+  describe('buildPortfolioPairs', () => {
+    const photos = [photo('p1', 'BEFORE'), photo('p2', 'AFTER'), photo('p3', 'AFTER')];
+    const defaults = { title: 'Kitchen refit', projectDate: new Date('2026-09-30'), jobId: 'job-1' };
+
+    it('should use the after photo as the main image and keep the before photo alongside', () => {
+      const [item] = buildPortfolioPairs([{ beforePhotoId: 'p1', afterPhotoId: 'p2' }], photos, defaults);
+
+      expect(item).toEqual({
+        title: 'Kitchen refit',
+        description: null,
+        imageUrl: photos[1].url,
+        cloudinaryId: photos[1].publicId,
+        beforeImageUrl: photos[0].url,
+        beforeCloudinaryId: photos[0].publicId,
+        projectDate: defaults.projectDate,
+        sourceJobId: 'job-1',
+      });
+    });
+
+    it('should reject photos from outside the job and a photo paired with itself', () => {
+      expect(() => buildPortfolioPairs([{ beforePhotoId: 'other', afterPhotoId: 'p2' }], photos, defaults)).toThrow(
+        "this job's progress log"
+      );
+      expect(() => buildPortfolioPairs([{ beforePhotoId: 'p2', afterPhotoId: 'p2' }], photos, defaults)).toThrow('must be different');
+    });
+
+    it('should reject an empty selection and repeated pairs', () => {
+      expect(() => buildPortfolioPairs([], photos, defaults)).toThrow('at least one');
+      expect(() =>
+        buildPortfolioPairs(
+          [
+            { beforePhotoId: 'p1', afterPhotoId: 'p3' },
+            { beforePhotoId: 'p1', afterPhotoId: 'p3' },
+          ],
+          photos,
+          defaults
+        )
+      ).toThrow('already been selected');
+    });
+  });
+});
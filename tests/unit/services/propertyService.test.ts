@@ -0,0 +1,97 @@
+/**
+ * Unit tests for Property Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+import { Prisma } from '@prisma/client';
+import { buildPropertyHistory, formatPropertyLocation, parsePropertyInput } from '../../../src/services/propertyService';
+
+const contractor = (id: string, businessName: string | null, name: string) => ({
+  id,
+  businessName,
+  user: { name },
+});
+
+const job = (id: string, overrides: Record<string, any> = {}) =>
+  ({
+    id,
+    title: `Job ${id}`,
+    status: 'COMPLETED',
+    service: { id: 'service-1', name: 'Plumbing', category: 'Trades' },
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    completionDate: null,
+    finalAmount: null,
+    wonByContractor: null,
+    ...overrides,
+  }) as any;
+
+describe('PropertyService', () => {
+  describe('parsePropertyInput', () => {
+    it('should normalise the postcode and blank optional fields', () => {
+      expect(parsePropertyInput({ address: ' 12 High Street ', postcode: 'ls1  4ap', label: '', accessNotes: ' Key in safe ' })).toEqual({
+        address: '12 High Street',
+        postcode: 'LS1 4AP',
+        label: null,
+        city: null,
+        accessNotes: 'Key in safe',
+      });
+    });
+
+    it('should require an address and a real postcode', () => {
+      expect(() => parsePropertyInput({ postcode: 'LS1 4AP' })).toThrow('address');
+      expect(() => parsePropertyInput({ address: '12 High Street', postcode: 'not a postcode' })).toThrow('postcode');
+    });
+
+    it('should only return the fields sent in a partial update', () => {
+      expect(parsePropertyInput({ accessNotes: null }, { partial: true })).toEqual({ accessNotes: null });
+    });
+  });
+
+  describe('formatPropertyLocation', () => {
+    it('should join the address and city', () => {
+      expect(formatPropertyLocation({ address: '12 High Street', city: 'Leeds' })).toBe('12 High Street, Leeds');
+      expect(formatPropertyLocation({ address: '12 High Street', city: null })).toBe('12 High Street');
+    });
+  });
+
+  describe('buildPropertyHistory', () => {
+    it('should group contractors and attach invoices to their jobs', () => {
+      const acme = contractor('contractor-1', 'Acme Plumbing', 'Sam');
+      const history = buildPropertyHistory(
+        [
+          job('job-3', { status: 'POSTED', createdAt: new Date('2026-09-01T00:00:00Z') }),
+          job('job-2', { wonByContractor: acme, finalAmount: new Prisma.Decimal(250), completionDate: new Date('2026-06-01T00:00:00Z') }),
+          job('job-1', { wonByContractor: contractor('contractor-2', null, 'Alex'), finalAmount: new Prisma.Decimal(99.5) }),
+        ],
+        [
+          {
+            id: 'invoice-1',
+            invoiceNumber: 'INV-1',
+            description: 'Deposit',
+            totalAmount: new Prisma.Decimal(60),
+            issuedAt: new Date('2026-05-01T00:00:00Z'),
+            paidAt: null,
+            pdfUrl: null,
+            jobId: 'job-2',
+          },
+        ]
+      );
+
+      expect(history.jobs[1].contractor).toEqual({ id: 'contractor-1', name: 'Acme Plumbing' });
+      expect(history.jobs[1].invoices).toEqual([expect.objectContaining({ invoiceNumber: 'INV-1' })]);
+      expect(history.jobs[1].invoices[0]).not.toHaveProperty('jobId');
+      expect(history.contractors.map((c) => c.name)).toEqual(['Acme Plumbing', 'Alex']);
+      expect(history.summary).toEqual({
+        jobCount: 3,
+        completedCount: 2,
+        contractorCount: 2,
+        invoiceCount: 1,
+        totalSpent: 349.5,
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for Quote Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+import { Prisma } from '@prisma/client';
+import {
+  buildQuoteComparison,
+  calculateQuoteTotals,
+  parseQuoteInput,
+  parseQuoteLineItems,
+} from '../../../src/services/quoteService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const lineItems = [
+  { category: 'LABOUR', description: 'Fit new boiler', quantity: 2, unitPrice: 250 },
+  { category: 'MATERIALS', description: 'Combi boiler', unitPrice: 900 },
+  { category: 'OTHER', description: 'Waste removal', quantity: 1, unitPrice: 50 },
+];
+
+const body = {
+  lineItems,
+  vatTreatment: 'EXCLUSIVE',
+  validUntil: '2026-11-19T00:00:00Z',
+  availableFrom: '2026-10-26T00:00:00Z',
+  paymentTerms: 'DEPOSIT_AND_BALANCE',
+  depositPercent: 25,
+};
+
+describe('QuoteService', () => {
+  describe('parseQuoteLineItems', () => {
+    it('should default quantity to one and price each line', () => {
+      expect(parseQuoteLineItems(lineItems).map((item) => item.amount)).toEqual([500, 900, 50]);
+    });
+
+    it('should reject empty quotes and unknown categories', () => {
+      expect(() => parseQuoteLineItems([])).toThrow('at least one line item');
+      expect(() => parseQuoteLineItems([{ category: 'TRAVEL', description: 'Fuel', unitPrice: 10 }])).toThrow(
+        'Line item 1: category'
+      );
+    });
+  });
+
+  describe('calculateQuoteTotals', () => {
+    const items = parseQuoteLineItems(lineItems);
+
+    it('should add VAT on top when prices exclude it', () => {
+      expect(calculateQuoteTotals(items, 'EXCLUSIVE', 20)).toEqual({
+        labourTotal: 500,
+        materialsTotal: 900,
+        otherTotal: 50,
+        subtotal: 1450,
+        vatAmount: 290,
+        total: 1740,
+      });
+    });
+
+    it('should back VAT out when prices include it', () => {
+      expect(calculateQuoteTotals(items, 'INCLUSIVE', 20)).toMatchObject({ subtotal: 1208.33, vatAmount: 241.67, total: 1450 });
+    });
+
+    it('should charge no VAT for contractors who are not registered', () => {
+      expect(calculateQuoteTotals(items, 'NOT_REGISTERED', 20)).toMatchObject({ subtotal: 1450, vatAmount: 0, total: 1450 });
+    });
+  });
+
+  describe('parseQuoteInput', () => {
+    it('should default the VAT rate and keep the deposit', () => {
+      expect(parseQuoteInput(body, now)).toMatchObject({ vatRate: 20, total: 1740, depositPercent: 25 });
+    });
+
+    it('should require a deposit percentage for deposit terms', () => {
+      expect(() => parseQuoteInput({ ...body, depositPercent: undefined }, now)).toThrow('depositPercent');
+    });
+
+    it('should reject quotes that have already lapsed', () => {
+      expect(() => parseQuoteInput({ ...body, validUntil: '2026-10-18T00:00:00Z' }, now)).toThrow('validUntil');
+    });
+  });
+
+  describe('buildQuoteComparison', () => {
+    const quote = (id: string, total: number, availableFrom: string, overrides = {}) => ({
+      id,
+      status: 'SUBMITTED' as const,
+      validUntil: new Date('2026-11-01T00:00:00Z'),
+      availableFrom: new Date(availableFrom),
+      total: new Prisma.Decimal(total),
+      ...overrides,
+    });
+
+    it('should sort by price and mark the best open offers', () => {
+      const { quotes, summary } = buildQuoteComparison(
+        [
+          quote('b', 1800, '2026-10-21T00:00:00Z'),
+          quote('a', 1500, '2026-10-28T00:00:00Z'),
+          quote('c', 900, '2026-10-20T00:00:00Z', { validUntil: new Date('2026-10-18T00:00:00Z') }),
+        ],
+        now
+      );
+
+      expect(quotes.map((q) => q.id)).toEqual(['c', 'a', 'b']);
+      expect(quotes[0]).toMatchObject({ isExpired: true, isLowestPrice: false });
+      expect(quotes[1]).toMatchObject({ isLowestPrice: true, isEarliestStart: false });
+      expect(quotes[2]).toMatchObject({ isLowestPrice: false, isEarliestStart: true });
+      expect(summary).toMatchObject({ quoteCount: 3, openCount: 2, lowestTotal: 1500, highestTotal: 1800, averageTotal: 1650 });
+    });
+  });
+});
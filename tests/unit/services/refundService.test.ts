@@ -0,0 +1,238 @@
+/**
+ * Unit tests for Refund Service
+ */
+
+// Mock dependencies (transactions run against the same mocks)
+const mockDb = {
+  payment: { findUnique: jest.fn(), findFirst: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn() },
+  refund: {
+    aggregate: jest.fn(),
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  contractor: { findUnique: jest.fn() },
+  documentSequence: { update: jest.fn() },
+};
+
+jest.mock('../../../src/config/database', () => ({
+  prisma: { ...mockDb, $transaction: jest.fn((callback: any) => callback(mockDb)) },
+}));
+
+const mockStripe = { refunds: { create: jest.fn() } };
+
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: jest.fn(() => mockStripe),
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/adminNotificationService', () => ({
+  notifyAllAdmins: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/pdfService', () => ({
+  generateInvoicePDF: jest.fn().mockResolvedValue(Buffer.from('%PDF')),
+}));
+
+jest.mock('../../../src/services/settingsService', () => ({
+  getRefundApprovalSettings: jest.fn().mockResolvedValue({ thresholdAmount: 100 }),
+}));
+
+jest.mock('../../../src/services/ledgerService', () => ({
+  recordPaymentRefunded: jest.fn().mockResolvedValue(true),
+  recordRefundReversed: jest.fn().mockResolvedValue(true),
+}));
+
+import { notifyAllAdmins } from '../../../src/services/adminNotificationService';
+import { recordPaymentRefunded, recordRefundReversed } from '../../../src/services/ledgerService';
+import { approveRefund, reconcileStripeRefund, requestRefund } from '../../../src/services/refundService';
+
+const payment = (overrides: Record<string, any> = {}) => ({
+  id: 'payment-1',
+  type: 'LEAD_ACCESS',
+  status: 'COMPLETED',
+  amount: 60,
+  description: 'Job access purchased for: Kitchen refit',
+  contractorId: 'contractor-1',
+  invoiceId: 'invoice-1',
+  stripePaymentId: 'pi_1',
+  ...overrides,
+});
+
+const refund = (overrides: Record<string, any> = {}) => ({
+  id: 'refund-1',
+  paymentId: 'payment-1',
+  amount: 20,
+  reasonCode: 'BILLING_ERROR',
+  notes: null,
+  status: 'PENDING',
+  stripeRefundId: null,
+  issueCreditNote: false,
+  requestedByAdminId: 'admin-1',
+  payment: payment(),
+  invoice: { invoiceNumber: 'INV-1' },
+  ...overrides,
+});
+
+const admin = (overrides: Record<string, any> = {}) => ({ id: 'admin-1', name: 'Sam', role: 'FINANCE_ADMIN' as const, ...overrides });
+
+// Refunds already sent or committed against the payment
+const committed = (amount: number) => mockDb.refund.aggregate.mockResolvedValue({ _sum: { amount } });
+
+describe('RefundService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.payment.findUnique.mockResolvedValue(payment());
+    mockDb.payment.findUniqueOrThrow.mockResolvedValue(payment());
+    mockDb.refund.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'refund-1', ...data }));
+    mockDb.refund.findUniqueOrThrow.mockResolvedValue(refund());
+    mockDb.refund.update.mockImplementation(({ data }: any) => Promise.resolve({ ...refund(), ...data }));
+    mockDb.refund.updateMany.mockResolvedValue({ count: 1 });
+    mockDb.contractor.findUnique.mockResolvedValue({ userId: 'user-1' });
+    mockStripe.refunds.create.mockResolvedValue({ id: 're_1', status: 'succeeded', failure_reason: null });
+    committed(0);
+  });
+
+  describe('requestRefund', () => {
+    it('should send a refund under the threshold straight to Stripe and post it', async () => {
+      const { refund: sent, approvalRequired } = await requestRefund({
+        paymentId: 'payment-1',
+        amount: 20,
+        reasonCode: 'BILLING_ERROR',
+        admin: admin(),
+      });
+
+      expect(approvalRequired).toBe(false);
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_1', amount: 2000, reason: 'requested_by_customer' }),
+        { idempotencyKey: 'refund-refund-1' }
+      );
+      expect(recordPaymentRefunded).toHaveBeenCalledWith(mockDb, expect.objectContaining({ id: 'payment-1' }), expect.objectContaining({ refundKey: 're_1' }));
+      expect(sent.status).toBe('SUCCEEDED');
+      // £20 of £60 leaves the payment completed
+      expect(mockDb.payment.update).not.toHaveBeenCalledWith(expect.objectContaining({ data: { status: 'REFUNDED' } }));
+    });
+
+    it('should number the credit note from the sequence inside the refund transaction', async () => {
+      mockDb.refund.findUniqueOrThrow.mockResolvedValue(refund({ issueCreditNote: true }));
+      mockDb.documentSequence.update.mockResolvedValue({ name: 'CREDIT_NOTE', lastValue: 42 });
+
+      const { refund: sent } = await requestRefund({
+        paymentId: 'payment-1',
+        amount: 20,
+        reasonCode: 'BILLING_ERROR',
+        issueCreditNote: true,
+        admin: admin(),
+      });
+
+      expect(mockDb.documentSequence.update).toHaveBeenCalledWith({
+        where: { name: 'CREDIT_NOTE' },
+        data: { lastValue: { increment: 1 } },
+      });
+      expect(sent.creditNoteNumber).toBe('CN-000042');
+    });
+
+    it('should hold a refund over the threshold for approval', async () => {
+      mockDb.payment.findUnique.mockResolvedValue(payment({ amount: 150 }));
+
+      // No amount refunds whatever is left, here all £150
+      const { refund: held, approvalRequired } = await requestRefund({ paymentId: 'payment-1', reasonCode: 'GOODWILL', admin: admin() });
+
+      expect(approvalRequired).toBe(true);
+      expect(held).toMatchObject({ amount: 150, status: 'PENDING_APPROVAL' });
+      expect(notifyAllAdmins).toHaveBeenCalledWith(expect.objectContaining({ title: 'Refund Awaiting Approval' }));
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+    });
+
+    it('should not refund more than is left on the payment', async () => {
+      committed(50);
+
+      await expect(
+        requestRefund({ paymentId: 'payment-1', amount: 20, reasonCode: 'BILLING_ERROR', admin: admin() })
+      ).rejects.toThrow('Only £10.00 of this payment can still be refunded');
+      expect(mockDb.refund.create).not.toHaveBeenCalled();
+    });
+
+    it('should require notes when the reason is OTHER', async () => {
+      await expect(
+        requestRefund({ paymentId: 'payment-1', amount: 20, reasonCode: 'OTHER', notes: '  ', admin: admin() })
+      ).rejects.toThrow('Please describe the reason');
+    });
+  });
+
+  describe('approveRefund', () => {
+    it('should not let the requester approve their own refund', async () => {
+      mockDb.refund.findUnique.mockResolvedValue(refund({ status: 'PENDING_APPROVAL' }));
+
+      await expect(approveRefund('refund-1', admin())).rejects.toThrow('different admin');
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+    });
+
+    it('should only accept finance admins', async () => {
+      await expect(approveRefund('refund-1', admin({ id: 'admin-2', role: 'SUPPORT_ADMIN' }))).rejects.toThrow(
+        'Only finance admins can approve refunds'
+      );
+    });
+
+    it('should send the refund once a second finance admin approves it', async () => {
+      mockDb.refund.findUnique.mockResolvedValue(refund({ status: 'PENDING_APPROVAL' }));
+
+      await approveRefund('refund-1', admin({ id: 'admin-2' }));
+
+      expect(mockDb.refund.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refund-1', status: 'PENDING_APPROVAL' },
+        data: expect.objectContaining({ status: 'PENDING', approvedByAdminId: 'admin-2' }),
+      });
+      expect(mockStripe.refunds.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcileStripeRefund', () => {
+    const stripeRefund = (overrides: Record<string, any> = {}) =>
+      ({
+        id: 're_dashboard',
+        amount: 6000,
+        currency: 'gbp',
+        status: 'succeeded',
+        reason: 'duplicate',
+        payment_intent: 'pi_1',
+        created: 1760000000,
+        metadata: {},
+        ...overrides,
+      }) as any;
+
+    it('should leave escrow refunds to the escrow service', async () => {
+      expect(await reconcileStripeRefund(stripeRefund({ metadata: { escrowId: 'escrow-1' } }))).toBe('ignored');
+      expect(mockDb.refund.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should record a refund made in the Stripe dashboard', async () => {
+      mockDb.refund.findFirst.mockResolvedValue(null);
+      mockDb.payment.findFirst.mockResolvedValue(payment());
+      mockDb.refund.aggregate.mockResolvedValue({ _sum: { amount: 60 } });
+
+      expect(await reconcileStripeRefund(stripeRefund())).toBe('created');
+      expect(mockDb.refund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 60, reasonCode: 'DUPLICATE_PAYMENT', status: 'SUCCEEDED', stripeRefundId: 're_dashboard' }),
+      });
+      expect(recordPaymentRefunded).toHaveBeenCalledWith(mockDb, expect.anything(), { amount: 60, refundKey: 're_dashboard' });
+      expect(mockDb.payment.update).toHaveBeenCalledWith({ where: { id: 'payment-1' }, data: { status: 'REFUNDED' } });
+    });
+
+    it('should reverse the ledger when a sent refund fails', async () => {
+      mockDb.refund.findFirst.mockResolvedValue(refund({ status: 'SUCCEEDED', stripeRefundId: 're_1' }));
+
+      expect(await reconcileStripeRefund(stripeRefund({ id: 're_1', status: 'failed', failure_reason: 'expired_or_canceled_card' }))).toBe(
+        'updated'
+      );
+      expect(recordRefundReversed).toHaveBeenCalledWith(mockDb, expect.objectContaining({ id: 'payment-1' }), { amount: 20, refundKey: 're_1' });
+      expect(notifyAllAdmins).toHaveBeenCalledWith(expect.objectContaining({ title: 'Refund Failed' }));
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for Saved Search Service
+ */
+
+// Mock dependencies
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+jest.mock('../../../src/services/notificationService', () => ({
+  createNotification: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../../../src/services/emailNotificationService', () => ({
+  sendSavedSearchDigestEmail: jest.fn().mockResolvedValue(true),
+}));
+
+import { matchesSavedSearch, parseBudgetRange } from '../../../src/services/savedSearchService';
+
+const emptySearch = {
+  category: null,
+  location: null,
+  budget: null,
+  search: null,
+  urgentOnly: false,
+};
+
+const job = {
+  title: 'Kitchen extension',
+  description: 'Single storey rear extension with new kitchen fit-out',
+  location: 'Headingley, Leeds',
+  budget: 15000,
+  isUrgent: false,
+  service: { name: 'Extensions', category: 'Building' },
+};
+
+describe('SavedSearchService', () => {
+  describe('parseBudgetRange', () => {
+    it('should parse open-ended ranges', () => {
+      expect(parseBudgetRange('500-2000')).toEqual({ min: 500, max: 2000 });
+      expect(parseBudgetRange('500-')).toEqual({ min: 500 });
+      expect(parseBudgetRange('-2000')).toEqual({ max: 2000 });
+      expect(parseBudgetRange(null)).toEqual({});
+    });
+  });
+
+  describe('matchesSavedSearch', () => {
+    it('should match everything when no filters are set', () => {
+      expect(matchesSavedSearch(emptySearch, job)).toBe(true);
+    });
+
+    it('should match category against the service name or category', () => {
+      expect(matchesSavedSearch({ ...emptySearch, category: 'extensions' }, job)).toBe(true);
+      expect(matchesSavedSearch({ ...emptySearch, category: 'Building' }, job)).toBe(true);
+      expect(matchesSavedSearch({ ...emptySearch, category: 'Plumbing' }, job)).toBe(false);
+    });
+
+    it('should match location and free text case-insensitively', () => {
+      expect(matchesSavedSearch({ ...emptySearch, location: 'leeds' }, job)).toBe(true);
+      expect(matchesSavedSearch({ ...emptySearch, search: 'KITCHEN' }, job)).toBe(true);
+      expect(matchesSavedSearch({ ...emptySearch, search: 'bathroom' }, job)).toBe(false);
+    });
+
+    it('should apply the budget range and skip jobs without a budget', () => {
+      expect(matchesSavedSearch({ ...emptySearch, budget: '10000-20000' }, job)).toBe(true);
+      expect(matchesSavedSearch({ ...emptySearch, budget: '-5000' }, job)).toBe(false);
+      expect(matchesSavedSearch({ ...emptySearch, budget: '1000-' }, { ...job, budget: null })).toBe(false);
+    });
+
+    it('should only match urgent jobs when urgentOnly is set', () => {
+      expect(matchesSavedSearch({ ...emptySearch, urgentOnly: true }, job)).toBe(false);
+      expect(matchesSavedSearch({ ...emptySearch, urgentOnly: true }, { ...job, isUrgent: true })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Unit tests for Subscription Service (tiers and plan changes)
+ */
+
+// Mock dependencies (transactions run against the same mocks)
+const mockDb = {
+  subscription: { findUnique: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+  subscriptionDunning: { count: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+  contractor: { update: jest.fn() },
+};
+
+jest.mock('../../../src/config/database', () => ({
+  prisma: {
+    ...mockDb,
+    $transaction: jest.fn((arg: any) => (typeof arg === 'function' ? arg(mockDb) : Promise.all(arg))),
+  },
+}));
+
+const mockStripe = {
+  subscriptions: { retrieve: jest.fn(), update: jest.fn() },
+  subscriptionSchedules: { create: jest.fn(), retrieve: jest.fn(), update: jest.fn(), release: jest.fn() },
+  invoices: { retrieveUpcoming: jest.fn() },
+};
+
+jest.mock('../../../src/config/stripe', () => ({
+  getStripeClient: jest.fn(() => mockStripe),
+}));
+
+jest.mock('../../../src/services/settingsService', () => ({
+  getCommissionRate: jest.fn().mockResolvedValue(5),
+  getSubscriptionPricingFromSettings: jest.fn().mockResolvedValue({ monthly: 50, sixMonths: 270, yearly: 480, currency: 'GBP' }),
+  getSubscriptionTierBenefits: jest.fn().mockResolvedValue({
+    STANDARD: { weeklyCredits: 3, featured: false, commissionRate: null, priceMultiplier: 1 },
+    PREMIUM: { weeklyCredits: 5, featured: true, commissionRate: 4, priceMultiplier: 1.5 },
+    ENTERPRISE: { weeklyCredits: 10, featured: true, commissionRate: 3, priceMultiplier: 2.5 },
+  }),
+}));
+
+import {
+  applyTierBenefits,
+  changeSubscriptionPlan,
+  getContractorCommissionRate,
+  getSubscriptionPricing,
+  previewPlanChange,
+  syncPlanFromStripe,
+} from '../../../src/services/subscriptionService';
+
+const periodEnd = new Date('2026-11-01T00:00:00Z');
+
+const subscription = (overrides: Record<string, any> = {}) => ({
+  id: 'sub-1',
+  contractorId: 'contractor-1',
+  plan: 'MONTHLY',
+  tier: 'STANDARD',
+  status: 'active',
+  isActive: true,
+  stripeSubscriptionId: 'sub_stripe',
+  currentPeriodStart: new Date('2026-10-01T00:00:00Z'),
+  currentPeriodEnd: periodEnd,
+  pendingPlan: null,
+  pendingTier: null,
+  pendingChangeAt: null,
+  stripeScheduleId: null,
+  ...overrides,
+});
+
+const stripeSubscription = (overrides: Record<string, any> = {}) => ({
+  id: 'sub_stripe',
+  customer: 'cus_1',
+  cancel_at_period_end: false,
+  schedule: null,
+  metadata: { contractorId: 'contractor-1', plan: 'MONTHLY', tier: 'STANDARD' },
+  current_period_start: 1761955200,
+  current_period_end: 1764547200,
+  items: { data: [{ id: 'si_1', quantity: 1, price: { id: 'price_standard_monthly' } }] },
+  ...overrides,
+});
+
+describe('SubscriptionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.STRIPE_PRICE_PREMIUM_MONTHLY = 'price_premium_monthly';
+    mockDb.subscription.findUnique.mockResolvedValue(subscription());
+    mockDb.subscription.update.mockImplementation(({ data }: any) => Promise.resolve({ ...subscription(), ...data }));
+    mockDb.subscriptionDunning.count.mockResolvedValue(0);
+    mockDb.subscriptionDunning.findFirst.mockResolvedValue(null);
+    mockStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription());
+    mockStripe.subscriptions.update.mockResolvedValue(stripeSubscription());
+  });
+
+  afterEach(() => {
+    delete process.env.STRIPE_PRICE_PREMIUM_MONTHLY;
+  });
+
+  describe('getSubscriptionPricing', () => {
+    it("should scale prices by the tier's multiplier", async () => {
+      const pricing = await getSubscriptionPricing('MONTHLY', 'PREMIUM');
+
+      expect(pricing.total).toBe(75);
+    });
+  });
+
+  describe('getContractorCommissionRate', () => {
+    it("should use the tier's rate while subscribed", async () => {
+      mockDb.subscription.findUnique.mockResolvedValue(subscription({ tier: 'ENTERPRISE' }));
+
+      expect(await getContractorCommissionRate('contractor-1')).toBe(3);
+    });
+
+    it('should fall back to the standard rate without an active subscription', async () => {
+      mockDb.subscription.findUnique.mockResolvedValue(subscription({ tier: 'ENTERPRISE', status: 'cancelled', isActive: false }));
+
+      expect(await getContractorCommissionRate('contractor-1')).toBe(5);
+    });
+  });
+
+  describe('applyTierBenefits', () => {
+    it('should only take away featured placement the old tier gave', async () => {
+      await applyTierBenefits(mockDb as any, 'contractor-1', 'STANDARD', 'PREMIUM');
+      expect(mockDb.contractor.update).toHaveBeenLastCalledWith({
+        where: { id: 'contractor-1' },
+        data: { tier: 'STANDARD', weeklyCreditsLimit: 3, featuredContractor: false },
+      });
+
+      await applyTierBenefits(mockDb as any, 'contractor-1', 'STANDARD');
+      expect(mockDb.contractor.update).toHaveBeenLastCalledWith({
+        where: { id: 'contractor-1' },
+        data: { tier: 'STANDARD', weeklyCreditsLimit: 3 },
+      });
+    });
+
+    it('should leave credits reduced for a failed renewal and restore the new allowance later', async () => {
+      mockDb.subscriptionDunning.findFirst.mockResolvedValue({ id: 'dunning-1' });
+
+      await applyTierBenefits(mockDb as any, 'contractor-1', 'PREMIUM', 'STANDARD');
+
+      expect(mockDb.subscriptionDunning.update).toHaveBeenCalledWith({
+        where: { id: 'dunning-1' },
+        data: { previousWeeklyCreditsLimit: 5 },
+      });
+      expect(mockDb.contractor.update).toHaveBeenCalledWith({
+        where: { id: 'contractor-1' },
+        data: { tier: 'PREMIUM', featuredContractor: true },
+      });
+    });
+  });
+
+  describe('previewPlanChange', () => {
+    it("should price an immediate change with Stripe's prorated invoice", async () => {
+      mockStripe.invoices.retrieveUpcoming.mockResolvedValue({
+        amount_due: 2500,
+        lines: {
+          data: [
+            { amount: -2000, proration: true },
+            { amount: 3000, proration: true },
+            { amount: 7500, proration: false },
+          ],
+        },
+      });
+
+      const preview = await previewPlanChange('contractor-1', { tier: 'PREMIUM' });
+
+      expect(mockStripe.invoices.retrieveUpcoming).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subscription: 'sub_stripe',
+          subscription_items: [{ id: 'si_1', price: 'price_premium_monthly' }],
+          subscription_proration_behavior: 'always_invoice',
+        })
+      );
+      expect(preview).toMatchObject({ timing: 'immediate', amountDueNow: 25, prorationAmount: 10 });
+      expect(preview.target).toMatchObject({ plan: 'MONTHLY', tier: 'PREMIUM', benefits: { weeklyCredits: 5 } });
+    });
+
+    it('should not charge anything now for a change at period end', async () => {
+      const preview = await previewPlanChange('contractor-1', { tier: 'PREMIUM', timing: 'period_end' });
+
+      expect(preview).toMatchObject({ amountDueNow: 0, effectiveAt: periodEnd, nextPaymentAmount: 75 });
+      expect(mockStripe.invoices.retrieveUpcoming).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeSubscriptionPlan', () => {
+    it('should switch price now and apply the new tier', async () => {
+      await changeSubscriptionPlan('contractor-1', { tier: 'PREMIUM', prorationDate: 1761000000 });
+
+      expect(mockStripe.subscriptions.update).toHaveBeenCalledWith(
+        'sub_stripe',
+        expect.objectContaining({
+          items: [{ id: 'si_1', price: 'price_premium_monthly' }],
+          proration_behavior: 'always_invoice',
+          proration_date: 1761000000,
+          payment_behavior: 'error_if_incomplete',
+          metadata: expect.objectContaining({ plan: 'MONTHLY', tier: 'PREMIUM' }),
+        })
+      );
+      expect(mockDb.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: expect.objectContaining({ tier: 'PREMIUM', monthlyPrice: 75, pendingChangeAt: null }),
+      });
+      expect(mockDb.contractor.update).toHaveBeenCalledWith({
+        where: { id: 'contractor-1' },
+        data: { tier: 'PREMIUM', weeklyCreditsLimit: 5, featuredContractor: true },
+      });
+    });
+
+    it('should book a change at period end on a subscription schedule', async () => {
+      mockStripe.subscriptionSchedules.create.mockResolvedValue({
+        id: 'sub_sched_1',
+        phases: [{ start_date: 1759276800, end_date: 1761955200 }],
+      });
+
+      const result = await changeSubscriptionPlan('contractor-1', { tier: 'PREMIUM', timing: 'period_end' });
+
+      expect(mockStripe.subscriptionSchedules.create).toHaveBeenCalledWith({ from_subscription: 'sub_stripe' });
+      expect(mockStripe.subscriptionSchedules.update).toHaveBeenCalledWith(
+        'sub_sched_1',
+        expect.objectContaining({
+          end_behavior: 'release',
+          phases: [
+            expect.objectContaining({ items: [{ price: 'price_standard_monthly', quantity: 1 }], end_date: 1761955200 }),
+            expect.objectContaining({ items: [{ price: 'price_premium_monthly', quantity: 1 }] }),
+          ],
+        })
+      );
+      expect(result.effectiveAt).toEqual(periodEnd);
+      expect(mockDb.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { pendingPlan: 'MONTHLY', pendingTier: 'PREMIUM', pendingChangeAt: periodEnd, stripeScheduleId: 'sub_sched_1' },
+      });
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+      expect(mockDb.contractor.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse while a renewal payment is outstanding', async () => {
+      mockDb.subscriptionDunning.count.mockResolvedValue(1);
+
+      await expect(changeSubscriptionPlan('contractor-1', { tier: 'PREMIUM' })).rejects.toThrow('last subscription payment failed');
+      expect(mockStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse plans without a Stripe price', async () => {
+      await expect(changeSubscriptionPlan('contractor-1', { tier: 'ENTERPRISE' })).rejects.toThrow("isn't available yet");
+    });
+  });
+
+  describe('syncPlanFromStripe', () => {
+    it('should apply a scheduled change once Stripe starts it', async () => {
+      mockDb.subscription.findFirst.mockResolvedValue(
+        subscription({ pendingPlan: 'MONTHLY', pendingTier: 'PREMIUM', pendingChangeAt: periodEnd, stripeScheduleId: 'sub_sched_1' })
+      );
+
+      await syncPlanFromStripe(stripeSubscription({ metadata: { plan: 'MONTHLY', tier: 'PREMIUM' } }) as any);
+
+      expect(mockDb.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: {
+          plan: 'MONTHLY',
+          tier: 'PREMIUM',
+          monthlyPrice: 75,
+          pendingPlan: null,
+          pendingTier: null,
+          pendingChangeAt: null,
+          stripeScheduleId: null,
+        },
+      });
+      expect(mockDb.contractor.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ tier: 'PREMIUM', weeklyCreditsLimit: 5 }) })
+      );
+    });
+
+    it('should leave an unchanged subscription alone', async () => {
+      mockDb.subscription.findFirst.mockResolvedValue(subscription());
+
+      await syncPlanFromStripe(stripeSubscription() as any);
+
+      expect(mockDb.subscription.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for the iCalendar writer
+ */
+
+import { buildICalendar, escapeICalendarText, formatICalendarDate } from '../../../src/utils/icalendar';
+
+const event = {
+  uid: 'appointment-1@trustbuild.uk',
+  sequence: 2,
+  start: new Date('2026-10-21T09:30:00Z'),
+  end: new Date('2026-10-21T10:30:00Z'),
+  summary: 'Site visit: Kitchen refit',
+  location: '12 High Street, London',
+  status: 'CONFIRMED' as const,
+  updatedAt: new Date('2026-10-19T12:00:00Z'),
+};
+
+describe('iCalendar', () => {
+  it('should format dates as UTC basic format', () => {
+    expect(formatICalendarDate(new Date('2026-10-21T09:30:05.123Z'))).toBe('20261021T093005Z');
+  });
+
+  it('should escape reserved characters', () => {
+    expect(escapeICalendarText('Back door; side gate, code\\1\nRing twice')).toBe(
+      'Back door\\; side gate\\, code\\\\1\\nRing twice'
+    );
+  });
+
+  it('should build a single event with CRLF line endings', () => {
+    const ics = buildICalendar(event);
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('UID:appointment-1@trustbuild.uk');
+    expect(lines).toContain('SEQUENCE:2');
+    expect(lines).toContain('DTSTART:20261021T093000Z');
+    expect(lines).toContain('DTEND:20261021T103000Z');
+    expect(lines).toContain('LOCATION:12 High Street\\, London');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('should fold lines longer than 75 octets', () => {
+    const ics = buildICalendar({ ...event, description: 'x'.repeat(200) });
+    const lines = ics.split('\r\n');
+
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, '')).toContain(`DESCRIPTION:${'x'.repeat(200)}`);
+  });
+});
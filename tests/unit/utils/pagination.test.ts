@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the shared pagination helper
+ */
+
+// AppError's module pulls in the error log service, which connects on import
+jest.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+import {
+  getPagination,
+  getPrismaPageArgs,
+  buildPageResult,
+  paginateArray,
+  encodeCursor,
+  decodeCursor,
+} from '../../../src/utils/pagination';
+
+const rows = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `row-${i + 1}` }));
+
+describe('pagination', () => {
+  describe('getPagination', () => {
+    it('should default to page mode', () => {
+      expect(getPagination({ page: '3', limit: '20' })).toEqual({
+        mode: 'page',
+        page: 3,
+        limit: 20,
+        skip: 40,
+        cursor: null,
+      });
+    });
+
+    it('should accept a legacy offset', () => {
+      expect(getPagination({ offset: '50', limit: '25' })).toMatchObject({ mode: 'page', page: 3, skip: 50 });
+    });
+
+    it('should switch to cursor mode when a cursor is passed, even an empty one', () => {
+      expect(getPagination({ cursor: '' })).toMatchObject({ mode: 'cursor', cursor: null });
+      expect(getPagination({ cursor: encodeCursor('abc') })).toMatchObject({ mode: 'cursor', cursor: 'abc' });
+    });
+
+    it('should cap the limit', () => {
+      expect(getPagination({ limit: '5000' }).limit).toBe(100);
+    });
+
+    it('should reject a malformed cursor', () => {
+      expect(() => getPagination({ cursor: 'not-a-cursor' })).toThrow('Invalid pagination cursor');
+    });
+  });
+
+  describe('cursor round trip', () => {
+    it('should decode what it encodes', () => {
+      expect(decodeCursor(encodeCursor('clx123'))).toBe('clx123');
+    });
+  });
+
+  describe('getPrismaPageArgs', () => {
+    it('should fetch one extra row after the cursor in cursor mode', () => {
+      const pagination = getPagination({ cursor: encodeCursor('row-5'), limit: '10' });
+
+      expect(getPrismaPageArgs(pagination)).toEqual({ take: 11, cursor: { id: 'row-5' }, skip: 1 });
+    });
+  });
+
+  describe('buildPageResult', () => {
+    it('should trim the extra row and return a next cursor', () => {
+      const pagination = getPagination({ cursor: '', limit: '3' });
+      const result = buildPageResult(rows(4), pagination);
+
+      expect(result.items).toHaveLength(3);
+      expect(result.pagination.hasMore).toBe(true);
+      expect(decodeCursor(result.pagination.nextCursor!)).toBe('row-3');
+    });
+
+    it('should keep page metadata in page mode', () => {
+      const pagination = getPagination({ page: '2', limit: '3' });
+      const result = buildPageResult(rows(3), pagination, 7);
+
+      expect(result.pagination).toMatchObject({ page: 2, limit: 3, total: 7, pages: 3, hasMore: true });
+    });
+  });
+
+  describe('paginateArray', () => {
+    it('should continue after the cursor row', () => {
+      const first = paginateArray(rows(5), getPagination({ cursor: '', limit: '2' }));
+      const second = paginateArray(rows(5), getPagination({ cursor: first.pagination.nextCursor!, limit: '2' }));
+
+      expect(second.items.map((item) => item.id)).toEqual(['row-3', 'row-4']);
+    });
+
+    it('should reject a cursor whose row is no longer in the list', () => {
+      const pagination = getPagination({ cursor: encodeCursor('gone'), limit: '2' });
+
+      expect(() => paginateArray(rows(5), pagination)).toThrow('expired');
+    });
+  });
+});